@@ -0,0 +1,254 @@
+/**
+ * 응답 캐시 테스트
+ *
+ * 캐시 키(챗봇 + 콘텐츠 리비전 + 쿼리 해시)와 무효화 시 리비전 갱신을 검증합니다.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// DB Mock
+const mockSelectWhere = vi.fn();
+const mockLimit = vi.fn();
+const mockSelectDistinctWhere = vi.fn();
+const mockValues = vi.fn();
+const mockOnConflictDoUpdate = vi.fn();
+const mockUpdate = vi.fn();
+const mockUpdateWhere = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: mockSelectWhere }) }),
+    selectDistinct: () => ({ from: () => ({ where: mockSelectDistinctWhere }) }),
+    insert: () => ({ values: mockValues }),
+    update: (table: unknown) => ({
+      set: (values: unknown) => {
+        mockUpdate(table, values);
+        return { where: mockUpdateWhere };
+      },
+    }),
+    delete: (table: unknown) => ({ where: (condition: unknown) => mockDelete(table, condition) }),
+  },
+  responseCache: {
+    id: 'response_cache.id',
+    tenantId: 'response_cache.tenant_id',
+    chatbotId: 'response_cache.chatbot_id',
+    contentRevision: 'response_cache.content_revision',
+    queryHash: 'response_cache.query_hash',
+    expiresAt: 'response_cache.expires_at',
+    hitCount: 'response_cache.hit_count',
+  },
+  responseTimeLogs: {},
+  chatbots: { id: 'chatbots.id', contentUpdatedAt: 'chatbots.content_updated_at' },
+  chatbotDatasets: {
+    chatbotId: 'chatbot_datasets.chatbot_id',
+    datasetId: 'chatbot_datasets.dataset_id',
+  },
+  documents: { id: 'documents.id', datasetId: 'documents.dataset_id' },
+}));
+
+// 조건을 비교할 수 있도록 drizzle 연산자를 단순 객체로 대체
+vi.mock('drizzle-orm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('drizzle-orm')>()),
+  eq: (column: unknown, value: unknown) => ({ eq: [column, value] }),
+  gt: (column: unknown, value: unknown) => ({ gt: [column, value] }),
+  isNull: (column: unknown) => ({ isNull: column }),
+  inArray: (column: unknown, values: unknown) => ({ inArray: [column, values] }),
+  and: (...conditions: unknown[]) => ({ and: conditions }),
+}));
+
+vi.mock('@/lib/rag/embedding', () => ({
+  embedText: vi.fn(),
+  cosineSimilarity: vi.fn(),
+  getDefaultEmbeddingModelId: () => 'text-embedding-3-small',
+}));
+
+vi.mock('@/lib/rag/embedding-models', () => ({
+  getEmbeddingModel: vi.fn(),
+  queryVectorFor: vi.fn(),
+  vectorColumnFor: vi.fn(),
+}));
+
+// Import after mocks
+import {
+  toContentRevision,
+  findCachedResponse,
+  cacheResponse,
+  invalidateChatbotCache,
+  invalidateCacheForDatasets,
+} from '@/lib/chat/cache';
+import { chatbots, responseCache } from '@/lib/db';
+
+const scope = { chatbotId: 'bot-1', contentRevision: '1767225600000' };
+
+describe('toContentRevision', () => {
+  it('콘텐츠 변경 이력이 없으면 0', () => {
+    expect(toContentRevision(null)).toBe('0');
+    expect(toContentRevision(undefined)).toBe('0');
+    expect(toContentRevision('not-a-date')).toBe('0');
+  });
+
+  it('contentUpdatedAt 시각(ms)을 리비전으로 사용한다', () => {
+    expect(toContentRevision(new Date('2026-01-01T00:00:00.000Z'))).toBe('1767225600000');
+    expect(toContentRevision('2026-01-01T00:00:00.000Z')).toBe('1767225600000');
+  });
+});
+
+describe('findCachedResponse', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSelectWhere.mockReturnValue({ limit: mockLimit });
+  });
+
+  it('챗봇 + 리비전 + 쿼리 해시로 조회한다', async () => {
+    mockLimit.mockResolvedValue([]);
+
+    await findCachedResponse('tenant-1', '환불 규정', scope);
+
+    const [{ and: conditions }] = mockSelectWhere.mock.calls[0];
+    expect(conditions).toEqual(
+      expect.arrayContaining([
+        { eq: ['response_cache.tenant_id', 'tenant-1'] },
+        { eq: ['response_cache.chatbot_id', 'bot-1'] },
+        { eq: ['response_cache.content_revision', '1767225600000'] },
+        { eq: ['response_cache.query_hash', expect.stringMatching(/^[0-9a-f]{64}$/)] },
+      ])
+    );
+  });
+
+  it('챗봇이 없으면 chatbotId가 null인 캐시만 조회한다', async () => {
+    mockLimit.mockResolvedValue([]);
+
+    await findCachedResponse('tenant-1', '환불 규정', { chatbotId: null, contentRevision: '0' });
+
+    const [{ and: conditions }] = mockSelectWhere.mock.calls[0];
+    expect(conditions).toContainEqual({ isNull: 'response_cache.chatbot_id' });
+  });
+
+  it('대소문자와 공백 차이는 같은 쿼리 해시로 본다', async () => {
+    mockLimit.mockResolvedValue([]);
+
+    await findCachedResponse('tenant-1', '  Refund   Policy ', scope);
+    await findCachedResponse('tenant-1', 'refund policy', scope);
+
+    const hashOf = (call: number) =>
+      (mockSelectWhere.mock.calls[call][0].and as Array<{ eq?: [string, string] }>).find(
+        (condition) => condition.eq?.[0] === 'response_cache.query_hash'
+      )?.eq?.[1];
+    expect(hashOf(0)).toBe(hashOf(1));
+  });
+
+  it('일치하는 캐시가 있으면 응답을 반환하고 히트 수를 올린다', async () => {
+    mockLimit.mockResolvedValue([{ id: 'cache-1', response: '7일 이내 가능합니다.' }]);
+    mockUpdateWhere.mockResolvedValue(undefined);
+
+    const result = await findCachedResponse('tenant-1', '환불 규정', scope);
+
+    expect(result).toEqual({ hit: true, response: '7일 이내 가능합니다.', cacheId: 'cache-1' });
+    expect(mockUpdate).toHaveBeenCalledWith(responseCache, expect.anything());
+    expect(mockUpdateWhere).toHaveBeenCalledWith({ eq: ['response_cache.id', 'cache-1'] });
+  });
+
+  it('조회 실패 시 캐시 미스로 처리한다', async () => {
+    mockLimit.mockRejectedValue(new Error('DB error'));
+
+    const result = await findCachedResponse('tenant-1', '환불 규정', scope);
+
+    expect(result).toEqual({ hit: false });
+  });
+});
+
+describe('cacheResponse', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValues.mockReturnValue({ onConflictDoUpdate: mockOnConflictDoUpdate });
+    mockOnConflictDoUpdate.mockResolvedValue(undefined);
+  });
+
+  it('챗봇과 리비전을 함께 저장하고 같은 키는 최신 리비전으로 덮어쓴다', async () => {
+    await cacheResponse('tenant-1', '환불 규정', '7일 이내 가능합니다.', scope);
+
+    expect(mockValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: 'tenant-1',
+        chatbotId: 'bot-1',
+        contentRevision: '1767225600000',
+        response: '7일 이내 가능합니다.',
+      })
+    );
+
+    const [conflict] = mockOnConflictDoUpdate.mock.calls[0];
+    expect(conflict.target).toEqual([
+      'response_cache.tenant_id',
+      'response_cache.chatbot_id',
+      'response_cache.query_hash',
+    ]);
+    expect(conflict.set).toMatchObject({ contentRevision: '1767225600000', hitCount: 0 });
+  });
+
+  it('저장 실패는 호출자에게 전파하지 않는다', async () => {
+    mockOnConflictDoUpdate.mockRejectedValue(new Error('DB error'));
+
+    await expect(
+      cacheResponse('tenant-1', '환불 규정', '7일 이내 가능합니다.', scope)
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('invalidateChatbotCache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateWhere.mockResolvedValue(undefined);
+    mockDelete.mockResolvedValue({ count: 3 });
+  });
+
+  it('리비전을 올리고 챗봇 캐시를 삭제한다', async () => {
+    const deleted = await invalidateChatbotCache(['bot-1', 'bot-2', 'bot-1'], 'document_processed');
+
+    expect(deleted).toBe(3);
+    expect(mockUpdate).toHaveBeenCalledWith(chatbots, { contentUpdatedAt: expect.any(Date) });
+    expect(mockUpdateWhere).toHaveBeenCalledWith({ inArray: ['chatbots.id', ['bot-1', 'bot-2']] });
+    expect(mockDelete).toHaveBeenCalledWith(responseCache, {
+      inArray: ['response_cache.chatbot_id', ['bot-1', 'bot-2']],
+    });
+  });
+
+  it('contentChanged=false면 리비전은 두고 캐시만 삭제한다', async () => {
+    await invalidateChatbotCache(['bot-1'], 'chatbot_config_changed', { contentChanged: false });
+
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockDelete).toHaveBeenCalledTimes(1);
+  });
+
+  it('대상 챗봇이 없으면 아무것도 하지 않는다', async () => {
+    expect(await invalidateChatbotCache([], 'document_processed')).toBe(0);
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockDelete).not.toHaveBeenCalled();
+  });
+
+  it('무효화 실패는 로깅만 하고 0을 반환한다', async () => {
+    mockDelete.mockRejectedValue(new Error('DB error'));
+
+    expect(await invalidateChatbotCache(['bot-1'], 'document_processed')).toBe(0);
+  });
+});
+
+describe('invalidateCacheForDatasets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateWhere.mockResolvedValue(undefined);
+    mockDelete.mockResolvedValue({ count: 1 });
+  });
+
+  it('데이터셋에 연결된 챗봇의 리비전을 올린다', async () => {
+    mockSelectDistinctWhere.mockResolvedValue([{ chatbotId: 'bot-1' }, { chatbotId: 'bot-2' }]);
+
+    await invalidateCacheForDatasets(['ds-1', 'ds-1'], 'document_moved');
+
+    expect(mockSelectDistinctWhere).toHaveBeenCalledWith({
+      inArray: ['chatbot_datasets.dataset_id', ['ds-1']],
+    });
+    expect(mockUpdate).toHaveBeenCalledWith(chatbots, { contentUpdatedAt: expect.any(Date) });
+    expect(mockUpdateWhere).toHaveBeenCalledWith({ inArray: ['chatbots.id', ['bot-1', 'bot-2']] });
+  });
+});
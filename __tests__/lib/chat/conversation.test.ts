@@ -0,0 +1,229 @@
+/**
+ * 대화 관리 서비스 테스트
+ *
+ * 세션 + 챗봇 단위 대화 분리, 대화 ID 기준 메시지 추가, 사용량 로그 upsert를 검증합니다.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+
+// DB Mock
+const mockSelectWhere = vi.fn();
+const mockLimit = vi.fn();
+const mockUpdateSet = vi.fn();
+const mockUpdateWhere = vi.fn();
+const mockReturning = vi.fn();
+const mockValues = vi.fn();
+const mockExecute = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: mockSelectWhere }) }),
+    update: () => ({ set: mockUpdateSet }),
+    insert: () => ({ values: mockValues }),
+    execute: (query: unknown) => mockExecute(query),
+  },
+  conversations: {
+    id: 'conversations.id',
+    tenantId: 'conversations.tenant_id',
+    sessionId: 'conversations.session_id',
+    chatbotId: 'conversations.chatbot_id',
+    messages: 'conversations.messages',
+    metadata: 'conversations.metadata',
+  },
+}));
+
+// 조건을 비교할 수 있도록 drizzle 연산자를 단순 객체로 대체
+vi.mock('drizzle-orm', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('drizzle-orm')>()),
+  eq: (column: unknown, value: unknown) => ({ eq: [column, value] }),
+  isNull: (column: unknown) => ({ isNull: column }),
+  and: (...conditions: unknown[]) => ({ and: conditions }),
+}));
+
+// Import after mocks
+import {
+  sessionConditions,
+  getOrCreateConversation,
+  addMessageToConversation,
+  updateUsageLog,
+  incrementConversationCount,
+} from '@/lib/chat/conversation';
+
+const dialect = new PgDialect();
+
+/** db.execute에 전달된 SQL을 문자열로 */
+function executedQueries(): string[] {
+  return mockExecute.mock.calls.map(([query]) =>
+    dialect.sqlToQuery(query as SQL).sql.replace(/\s+/g, ' ')
+  );
+}
+
+const existingConversation = {
+  id: 'conv-1',
+  chatbotId: 'bot-1',
+  channel: 'web',
+  messages: [{ role: 'user', content: '안녕하세요', timestamp: '2026-01-01T00:00:00.000Z' }],
+  handoffStatus: null,
+  metadata: null,
+};
+
+describe('sessionConditions', () => {
+  it('테넌트 + 세션 + 챗봇이 모두 일치해야 같은 대화로 본다', () => {
+    expect(sessionConditions('tenant-1', 'session-1', 'bot-1')).toEqual({
+      and: [
+        { eq: ['conversations.tenant_id', 'tenant-1'] },
+        { eq: ['conversations.session_id', 'session-1'] },
+        { eq: ['conversations.chatbot_id', 'bot-1'] },
+      ],
+    });
+  });
+
+  it('챗봇이 없으면 챗봇 없는 대화만 찾는다', () => {
+    expect(sessionConditions('tenant-1', 'session-1', null)).toEqual({
+      and: [
+        { eq: ['conversations.tenant_id', 'tenant-1'] },
+        { eq: ['conversations.session_id', 'session-1'] },
+        { isNull: 'conversations.chatbot_id' },
+      ],
+    });
+  });
+});
+
+describe('getOrCreateConversation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSelectWhere.mockReturnValue({ limit: mockLimit });
+    mockUpdateSet.mockReturnValue({ where: mockUpdateWhere });
+    mockUpdateWhere.mockReturnValue({ returning: mockReturning });
+    mockValues.mockReturnValue({ returning: mockReturning });
+  });
+
+  it('같은 챗봇의 기존 대화를 반환한다', async () => {
+    mockLimit.mockResolvedValue([existingConversation]);
+
+    const conversation = await getOrCreateConversation('tenant-1', 'session-1', 'web', 'bot-1');
+
+    expect(conversation).toMatchObject({
+      id: 'conv-1',
+      sessionId: 'session-1',
+      chatbotId: 'bot-1',
+      messages: existingConversation.messages,
+    });
+    expect(mockUpdateSet).not.toHaveBeenCalled();
+    expect(mockValues).not.toHaveBeenCalled();
+  });
+
+  it('챗봇 연결 이전 대화가 있으면 해당 챗봇 대화로 이어받는다', async () => {
+    mockLimit.mockResolvedValue([]);
+    mockReturning.mockResolvedValue([existingConversation]);
+
+    const conversation = await getOrCreateConversation('tenant-1', 'session-1', 'web', 'bot-1');
+
+    expect(conversation.id).toBe('conv-1');
+    expect(mockUpdateSet).toHaveBeenCalledWith(expect.objectContaining({ chatbotId: 'bot-1' }));
+    expect(mockUpdateWhere).toHaveBeenCalledWith(sessionConditions('tenant-1', 'session-1', null));
+    expect(mockValues).not.toHaveBeenCalled();
+  });
+
+  it('대화가 없으면 챗봇 대화를 새로 만든다', async () => {
+    mockLimit.mockResolvedValue([]);
+    mockReturning.mockResolvedValueOnce([]).mockResolvedValueOnce([{ id: 'conv-2' }]);
+
+    const conversation = await getOrCreateConversation('tenant-1', 'session-1', 'kakao', 'bot-2');
+
+    expect(conversation).toMatchObject({
+      id: 'conv-2',
+      sessionId: 'session-1',
+      channel: 'kakao',
+      chatbotId: 'bot-2',
+      messages: [],
+    });
+    expect(mockValues).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: 'tenant-1', chatbotId: 'bot-2', sessionId: 'session-1' })
+    );
+  });
+
+  it('세션 ID가 없으면 이어받지 않고 새 세션으로 만든다', async () => {
+    mockLimit.mockResolvedValue([]);
+    mockReturning.mockResolvedValue([{ id: 'conv-3' }]);
+
+    const conversation = await getOrCreateConversation('tenant-1', undefined, 'web', 'bot-1');
+
+    expect(conversation.id).toBe('conv-3');
+    expect(conversation.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(mockUpdateSet).not.toHaveBeenCalled();
+  });
+});
+
+describe('addMessageToConversation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateSet.mockReturnValue({ where: mockUpdateWhere });
+    mockUpdateWhere.mockResolvedValue(undefined);
+  });
+
+  it('세션이 아닌 대화 ID로 메시지를 추가한다', async () => {
+    await addMessageToConversation('tenant-1', 'conv-1', {
+      role: 'user',
+      content: '환불 규정 알려줘',
+      timestamp: '2026-01-01T00:00:00.000Z',
+    });
+
+    expect(mockUpdateWhere).toHaveBeenCalledWith({
+      and: [
+        { eq: ['conversations.tenant_id', 'tenant-1'] },
+        { eq: ['conversations.id', 'conv-1'] },
+      ],
+    });
+  });
+});
+
+describe('updateUsageLog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExecute.mockResolvedValue(undefined);
+  });
+
+  it('챗봇이 있으면 테넌트 + 챗봇 사용량을 함께 누적한다', async () => {
+    await updateUsageLog('tenant-1', 120, 'bot-1');
+
+    const [tenantQuery, chatbotQuery] = executedQueries();
+    expect(tenantQuery).toContain('INSERT INTO usage_logs');
+    expect(tenantQuery).toContain('ON CONFLICT (tenant_id, date)');
+    expect(chatbotQuery).toContain('INSERT INTO chatbot_usage_logs');
+    expect(chatbotQuery).toContain('ON CONFLICT (chatbot_id, date)');
+    expect(chatbotQuery).toContain('message_count = chatbot_usage_logs.message_count + 1');
+  });
+
+  it('챗봇이 없으면 테넌트 사용량만 누적한다', async () => {
+    await updateUsageLog('tenant-1', 120, null);
+
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+    expect(executedQueries()[0]).toContain('INSERT INTO usage_logs');
+  });
+});
+
+describe('incrementConversationCount', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExecute.mockResolvedValue(undefined);
+  });
+
+  it('챗봇이 있으면 챗봇별 대화 수도 올린다', async () => {
+    await incrementConversationCount('tenant-1', 'bot-1');
+
+    const [tenantQuery, chatbotQuery] = executedQueries();
+    expect(tenantQuery).toContain('conversation_count = usage_logs.conversation_count + 1');
+    expect(chatbotQuery).toContain(
+      'conversation_count = chatbot_usage_logs.conversation_count + 1'
+    );
+  });
+
+  it('챗봇이 없으면 테넌트 대화 수만 올린다', async () => {
+    await incrementConversationCount('tenant-1');
+
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+  });
+});
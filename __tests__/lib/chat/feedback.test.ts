@@ -0,0 +1,218 @@
+/**
+ * 답변 피드백 서비스 테스트
+ *
+ * 피드백 upsert와 세션 + 챗봇 단위 대화 조회를 검증합니다.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// DB Mock
+const mockWhere = vi.fn();
+const mockLimit = vi.fn();
+const mockValues = vi.fn();
+const mockOnConflictDoUpdate = vi.fn();
+const mockSessionConditions = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: mockWhere }) }),
+    insert: () => ({ values: mockValues }),
+  },
+  conversations: {
+    id: 'id',
+    chatbotId: 'chatbot_id',
+    channel: 'channel',
+    messages: 'messages',
+  },
+  messageFeedback: {
+    tenantId: 'tenant_id',
+    chatbotId: 'chatbot_id',
+    conversationId: 'conversation_id',
+    messageId: 'message_id',
+    rating: 'rating',
+    createdAt: 'created_at',
+  },
+}));
+
+vi.mock('@/lib/chat/conversation', () => ({
+  sessionConditions: (...args: unknown[]) => mockSessionConditions(...args),
+}));
+
+// Import after mocks
+import {
+  recordMessageFeedback,
+  extractQuestionAndAnswer,
+  getFeedbackStats,
+} from '@/lib/chat/feedback';
+import type { ChatMessage } from '@/lib/chat/types';
+
+const messages: ChatMessage[] = [
+  { id: 'm1', role: 'user', content: '환불 규정 알려줘', timestamp: '2026-01-01T00:00:00.000Z' },
+  {
+    id: 'm2',
+    role: 'assistant',
+    content: '7일 이내 가능합니다.',
+    timestamp: '2026-01-01T00:00:01.000Z',
+    metadata: { chunkIds: ['c1', 'c2'] },
+  },
+];
+
+const conversation = {
+  id: 'conv-1',
+  chatbotId: 'bot-1',
+  channel: 'kakao',
+  messages,
+};
+
+function mockConversationLookup(rows: unknown[]) {
+  mockLimit.mockResolvedValue(rows);
+  mockWhere.mockReturnValue({ limit: mockLimit });
+}
+
+describe('recordMessageFeedback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSessionConditions.mockReturnValue('session-conditions');
+    mockValues.mockReturnValue({ onConflictDoUpdate: mockOnConflictDoUpdate });
+    mockOnConflictDoUpdate.mockResolvedValue(undefined);
+  });
+
+  it('세션 + 챗봇 조건으로 대화를 찾는다', async () => {
+    mockConversationLookup([conversation]);
+
+    await recordMessageFeedback({
+      tenantId: 'tenant-1',
+      chatbotId: 'bot-1',
+      sessionId: 'session-1',
+      messageId: 'm2',
+      rating: 'up',
+    });
+
+    expect(mockSessionConditions).toHaveBeenCalledWith('tenant-1', 'session-1', 'bot-1');
+    expect(mockWhere).toHaveBeenCalledWith('session-conditions');
+  });
+
+  it('챗봇이 없으면 챗봇 없는 대화에서 찾는다', async () => {
+    mockConversationLookup([{ ...conversation, chatbotId: null }]);
+
+    await recordMessageFeedback({
+      tenantId: 'tenant-1',
+      sessionId: 'session-1',
+      messageId: 'm2',
+      rating: 'up',
+    });
+
+    expect(mockSessionConditions).toHaveBeenCalledWith('tenant-1', 'session-1', null);
+  });
+
+  it('대화를 찾지 못하면 저장하지 않는다', async () => {
+    mockConversationLookup([]);
+
+    const saved = await recordMessageFeedback({
+      tenantId: 'tenant-1',
+      chatbotId: 'bot-2',
+      sessionId: 'session-1',
+      messageId: 'm2',
+      rating: 'down',
+    });
+
+    expect(saved).toBe(false);
+    expect(mockValues).not.toHaveBeenCalled();
+  });
+
+  it('어시스턴트 메시지가 아니면 저장하지 않는다', async () => {
+    mockConversationLookup([conversation]);
+
+    const saved = await recordMessageFeedback({
+      tenantId: 'tenant-1',
+      chatbotId: 'bot-1',
+      sessionId: 'session-1',
+      messageId: 'm1',
+      rating: 'down',
+    });
+
+    expect(saved).toBe(false);
+    expect(mockValues).not.toHaveBeenCalled();
+  });
+
+  it('검색 청크 ID를 스냅샷해 대화 + 메시지 단위로 upsert한다', async () => {
+    mockConversationLookup([conversation]);
+
+    const saved = await recordMessageFeedback({
+      tenantId: 'tenant-1',
+      chatbotId: 'bot-1',
+      sessionId: 'session-1',
+      messageId: 'm2',
+      rating: 'down',
+    });
+
+    expect(saved).toBe(true);
+    expect(mockValues).toHaveBeenCalledWith({
+      tenantId: 'tenant-1',
+      chatbotId: 'bot-1',
+      conversationId: 'conv-1',
+      messageId: 'm2',
+      rating: 'down',
+      chunkIds: ['c1', 'c2'],
+      channel: 'kakao',
+      reviewStatus: 'open',
+    });
+
+    const [conflict] = mockOnConflictDoUpdate.mock.calls[0];
+    expect(conflict.target).toEqual(['conversation_id', 'message_id']);
+    expect(conflict.set).toMatchObject({ rating: 'down', reviewStatus: 'open' });
+  });
+
+  it('요청 채널이 있으면 대화 채널보다 우선한다', async () => {
+    mockConversationLookup([conversation]);
+
+    await recordMessageFeedback({
+      tenantId: 'tenant-1',
+      chatbotId: 'bot-1',
+      sessionId: 'session-1',
+      messageId: 'm2',
+      rating: 'up',
+      channel: 'public_page',
+    });
+
+    expect(mockValues).toHaveBeenCalledWith(expect.objectContaining({ channel: 'public_page' }));
+  });
+});
+
+describe('extractQuestionAndAnswer', () => {
+  it('답변과 직전 사용자 질문을 추출한다', () => {
+    expect(extractQuestionAndAnswer(messages, 'm2')).toEqual({
+      question: '환불 규정 알려줘',
+      answer: '7일 이내 가능합니다.',
+    });
+  });
+
+  it('메시지가 없으면 null', () => {
+    expect(extractQuestionAndAnswer(messages, 'missing')).toEqual({
+      question: null,
+      answer: null,
+    });
+  });
+});
+
+describe('getFeedbackStats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('좋아요 비율로 만족도를 계산한다', async () => {
+    mockWhere.mockResolvedValue([{ total: 4, up: 3, down: 1 }]);
+
+    const stats = await getFeedbackStats('tenant-1', 'bot-1');
+
+    expect(stats).toEqual({ total: 4, up: 3, down: 1, satisfactionRate: 0.75 });
+  });
+
+  it('피드백이 없으면 만족도는 null', async () => {
+    mockWhere.mockResolvedValue([{ total: 0, up: 0, down: 0 }]);
+
+    const stats = await getFeedbackStats('tenant-1', 'bot-1');
+
+    expect(stats.satisfactionRate).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * 대화 메모리 요약 정책 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MEMORY_POLICY,
+  parseConversationMemory,
+  selectMessagesToSummarize,
+  buildMemorySummaryPrompt,
+  formatMemoryContext,
+} from '@/lib/chat/memory';
+import type { ChatMessage } from '@/lib/chat/types';
+
+function messages(count: number): ChatMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? ('user' as const) : ('assistant' as const),
+    content: `메시지 ${i}`,
+    timestamp: '2026-01-01T00:00:00.000Z',
+  }));
+}
+
+describe('parseConversationMemory', () => {
+  it('요약이 없거나 형식이 맞지 않으면 null', () => {
+    expect(parseConversationMemory(null)).toBeNull();
+    expect(parseConversationMemory({ createdVia: 'web' })).toBeNull();
+    expect(parseConversationMemory({ memory: { summary: '  ' } })).toBeNull();
+  });
+
+  it('저장된 요약을 읽는다', () => {
+    const memory = parseConversationMemory({
+      memory: { summary: '- 주문번호 1234', summarizedCount: 6, updatedAt: 'x' },
+    });
+    expect(memory).toEqual({ summary: '- 주문번호 1234', summarizedCount: 6, updatedAt: 'x' });
+  });
+});
+
+describe('selectMessagesToSummarize', () => {
+  it('히스토리 창 밖 메시지가 배치 크기보다 적으면 요약하지 않는다', () => {
+    // 9개 - 창 4개 = 5개 < 6
+    expect(selectMessagesToSummarize(messages(9), null)).toBeNull();
+  });
+
+  it('히스토리 창 밖 메시지를 요약 대상으로 선택한다', () => {
+    const result = selectMessagesToSummarize(messages(10), null);
+    expect(result?.summarizedCount).toBe(6);
+    expect(result?.messages.map((m) => m.content)).toEqual([
+      '메시지 0',
+      '메시지 1',
+      '메시지 2',
+      '메시지 3',
+      '메시지 4',
+      '메시지 5',
+    ]);
+  });
+
+  it('이미 요약된 메시지는 제외한다', () => {
+    const memory = { summary: '요약', summarizedCount: 6, updatedAt: '' };
+    expect(selectMessagesToSummarize(messages(14), memory)).toBeNull();
+
+    const result = selectMessagesToSummarize(messages(16), memory);
+    expect(result?.summarizedCount).toBe(12);
+    expect(result?.messages[0].content).toBe('메시지 6');
+  });
+
+  it('정책의 historyLimit을 따른다', () => {
+    const result = selectMessagesToSummarize(messages(10), null, {
+      ...DEFAULT_MEMORY_POLICY,
+      historyLimit: 2,
+    });
+    expect(result?.summarizedCount).toBe(8);
+  });
+});
+
+describe('buildMemorySummaryPrompt / formatMemoryContext', () => {
+  it('기존 요약과 새 대화를 함께 전달한다', () => {
+    const prompt = buildMemorySummaryPrompt('- 상품: 무선 이어폰', messages(2));
+    expect(prompt).toContain('[기존 요약]\n- 상품: 무선 이어폰');
+    expect(prompt).toContain('사용자: 메시지 0\n어시스턴트: 메시지 1');
+  });
+
+  it('기존 요약이 없으면 없음으로 표시한다', () => {
+    expect(buildMemorySummaryPrompt(null, messages(2))).toContain('[기존 요약]\n없음');
+  });
+
+  it('요약 블록을 만든다', () => {
+    expect(formatMemoryContext(' - 주문번호 1234 ')).toBe('[이전 대화 요약]\n- 주문번호 1234');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * 검색 디버거 결과 모델 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveDebugSearchConfig,
+  toDebugResultRow,
+  compareRankings,
+  rankingKey,
+} from '@/lib/chat/retrieval-trace';
+import type { SearchResult } from '@/lib/rag/retrieval';
+
+function result(id: string, extra: Partial<SearchResult> = {}): SearchResult {
+  return {
+    id,
+    chunkId: id,
+    documentId: `doc-${id}`,
+    content: `content ${id}`,
+    score: 0.02,
+    metadata: {},
+    source: 'hybrid',
+    ...extra,
+  };
+}
+
+describe('resolveDebugSearchConfig', () => {
+  it('챗봇 설정이 없으면 기본값을 사용한다', () => {
+    expect(resolveDebugSearchConfig(null, {})).toEqual({
+      maxChunks: 5,
+      minScore: 0.5,
+      defaultFilters: null,
+      sourceWeights: { chunks: 1, knowledgePages: 1 },
+      datasetWeights: {},
+    });
+  });
+
+  it('오버라이드가 챗봇 설정보다 우선하고, 연결된 데이터셋 가중치만 덮어쓴다', () => {
+    const config = resolveDebugSearchConfig(
+      { maxChunks: 8, sourceWeights: { knowledgePages: 2 }, defaultFilters: { tags: ['요금'] } },
+      { 'ds-1': 1, 'ds-2': 1.5 },
+      {
+        maxChunks: 3,
+        defaultFilters: null,
+        sourceWeights: { chunks: 0.5 },
+        datasetWeights: { 'ds-2': 3, 'ds-unknown': 9 },
+      }
+    );
+
+    expect(config.maxChunks).toBe(3);
+    expect(config.defaultFilters).toBeNull();
+    expect(config.sourceWeights).toEqual({ chunks: 0.5, knowledgePages: 2 });
+    expect(config.datasetWeights).toEqual({ 'ds-1': 1, 'ds-2': 3 });
+  });
+});
+
+describe('toDebugResultRow', () => {
+  it('Re-ranking 점수와 최소 유사도 미만 여부를 표시한다', () => {
+    const row = toDebugResultRow(
+      result('a', { denseScore: 0.42, metadata: { rerankScore: 7 }, content: 'x'.repeat(300) }),
+      0.5
+    );
+
+    expect(row.rerankScore).toBe(7);
+    expect(row.belowMinScore).toBe(true);
+    expect(row.contentPreview).toHaveLength(203);
+  });
+
+  it('Dense 점수가 없으면 최소 유사도 판정을 하지 않는다', () => {
+    expect(toDebugResultRow(result('s'), 0.9).belowMinScore).toBe(false);
+  });
+});
+
+describe('compareRankings', () => {
+  it('기준 대비 순위 변화와 새 결과를 반환한다', () => {
+    const baseline = [result('a'), result('b'), result('c')];
+    const candidate = [result('c'), result('a'), result('p', { source: 'knowledge_page' })];
+
+    expect(compareRankings(baseline, candidate)).toEqual({
+      chunk_c: 2,
+      chunk_a: -1,
+      page_p: null,
+    });
+  });
+
+  it('청크와 블로그 페이지 ID가 같아도 구분한다', () => {
+    expect(rankingKey(result('x'))).not.toBe(
+      rankingKey(result('x', { source: 'knowledge_page' }))
+    );
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * 후속 질문 제안 생성 테스트
+ *
+ * 제안 생성이 느리거나 실패해도 답변 응답을 붙잡지 않는지 검증합니다.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockGenerateWithFallback = vi.fn();
+
+vi.mock('@/lib/db', () => ({
+  db: {},
+  knowledgePages: {},
+}));
+
+vi.mock('@/lib/rag/generator', () => ({
+  generateWithFallback: (...args: unknown[]) => mockGenerateWithFallback(...args),
+}));
+
+import { generateFollowUpSuggestions } from '@/lib/chat/suggestions';
+import type { SearchResult } from '@/lib/rag/retrieval';
+
+const searchResults = [
+  { chunkId: 'c1', documentId: 'd1', content: '환불은 7일 이내 가능합니다.', score: 0.9 },
+] as SearchResult[];
+
+const trackingContext = { tenantId: 'tenant-1', featureType: 'follow_up_suggestion' as const };
+
+describe('generateFollowUpSuggestions', () => {
+  beforeEach(() => {
+    mockGenerateWithFallback.mockReset();
+  });
+
+  it('생성된 제안을 파싱해 반환한다', async () => {
+    mockGenerateWithFallback.mockResolvedValue(
+      '1. 배송비는 얼마인가요?\n2. 교환 신청은 어떻게 하나요?'
+    );
+
+    const suggestions = await generateFollowUpSuggestions(
+      '환불 규정 알려줘',
+      '7일 이내 가능합니다.',
+      searchResults,
+      trackingContext
+    );
+
+    expect(suggestions).toEqual(['배송비는 얼마인가요?', '교환 신청은 어떻게 하나요?']);
+  });
+
+  it('시간 상한을 넘기면 빈 배열을 반환한다', async () => {
+    mockGenerateWithFallback.mockReturnValue(new Promise(() => {}));
+
+    const suggestions = await generateFollowUpSuggestions(
+      '환불 규정 알려줘',
+      '7일 이내 가능합니다.',
+      searchResults,
+      trackingContext,
+      10
+    );
+
+    expect(suggestions).toEqual([]);
+  });
+
+  it('생성 실패 시 빈 배열을 반환한다', async () => {
+    mockGenerateWithFallback.mockRejectedValue(new Error('LLM error'));
+
+    const suggestions = await generateFollowUpSuggestions(
+      '환불 규정 알려줘',
+      '7일 이내 가능합니다.',
+      searchResults,
+      trackingContext
+    );
+
+    expect(suggestions).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * 대화 기록 내보내기 포맷터 테스트
+ *
+ * CSV 이스케이프, 메시지 평탄화, JSONL 직렬화를 검증합니다.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  flattenTranscripts,
+  toCsv,
+  toJsonl,
+  type ConversationTranscript,
+} from '@/lib/chat/transcript-export';
+
+const transcript: ConversationTranscript = {
+  id: 'conv-1',
+  sessionId: 'session-1',
+  channel: 'web',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:01:00.000Z',
+  messages: [
+    { role: 'user', content: '환불, 가능한가요?', timestamp: '2025-01-01T00:00:00.000Z' },
+    {
+      id: 'msg-1',
+      role: 'assistant',
+      content: '네, "7일 이내"\n가능합니다.',
+      timestamp: '2025-01-01T00:00:05.000Z',
+      metadata: { intent: 'DOMAIN_QUERY', cached: true },
+    },
+  ],
+};
+
+describe('flattenTranscripts', () => {
+  it('메시지 1건을 1행으로 평탄화한다', () => {
+    const rows = flattenTranscripts([transcript]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      conversationId: 'conv-1',
+      messageIndex: 0,
+      role: 'user',
+      intent: '',
+      cached: false,
+      noResult: false,
+    });
+    expect(rows[1]).toMatchObject({ messageIndex: 1, intent: 'DOMAIN_QUERY', cached: true });
+  });
+});
+
+describe('toCsv', () => {
+  it('BOM과 헤더를 포함한다', () => {
+    const csv = toCsv([]);
+
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(csv.slice(1)).toBe(
+      'conversationId,sessionId,channel,messageIndex,role,content,timestamp,intent,cached,noResult'
+    );
+  });
+
+  it('쉼표/따옴표/개행이 포함된 셀을 이스케이프한다', () => {
+    const lines = toCsv(flattenTranscripts([transcript])).slice(1).split('\r\n');
+
+    expect(lines[1]).toContain('"환불, 가능한가요?"');
+    expect(lines[2]).toContain('"네, ""7일 이내""\n가능합니다."');
+  });
+
+  it('수식으로 시작하는 셀 앞에 작은따옴표를 붙인다', () => {
+    const contents = ['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'];
+    const csv = toCsv(
+      flattenTranscripts([
+        {
+          ...transcript,
+          messages: contents.map((content) => ({
+            role: 'user' as const,
+            content,
+            timestamp: '2025-01-01T00:00:00.000Z',
+          })),
+        },
+      ])
+    );
+    const cells = csv
+      .slice(1)
+      .split('\r\n')
+      .slice(1)
+      .map((line) => line.split(',')[5]);
+
+    expect(cells.slice(0, 5)).toEqual([
+      '"\'=HYPERLINK(""http://x"")"',
+      "'+1",
+      "'-2+3",
+      "'@SUM(A1)",
+      "'\tcmd",
+    ]);
+    // CR로 시작하는 셀은 접두어를 붙인 뒤 따옴표로 감싼다
+    expect(csv).toContain('"\'\rcmd"');
+  });
+});
+
+describe('toJsonl', () => {
+  it('대화 1건을 1줄로 직렬화한다', () => {
+    const jsonl = toJsonl([transcript, { ...transcript, id: 'conv-2' }]);
+    const lines = jsonl.split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).id).toBe('conv-2');
+  });
+});
@@ -0,0 +1,211 @@
+// @vitest-environment node
+/**
+ * 웹사이트 크롤러 테스트 (로컬 정적 HTTP 서버 대상)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  crawlPages,
+  discoverSeedTargets,
+  fetchResource,
+  fetchRobotsTxt,
+  runCrawlLoop,
+  type CrawlConfig,
+  type CrawlOptions,
+  type PageCrawlResult,
+} from '@/lib/crawler';
+
+const options: CrawlOptions = { allowPrivateNetwork: true, requestDelayMs: 0 };
+
+function page(title: string, body: string, links: string[] = []): string {
+  return `<!doctype html><html><head><title>${title}</title></head><body>
+    <nav>${links.map((href) => `<a href="${href}">${href}</a>`).join(' ')}</nav>
+    <main><h1>${title}</h1><p>${body}</p></main>
+    <footer>© 2026 Example</footer>
+  </body></html>`;
+}
+
+const filler =
+  '이 페이지는 크롤러 테스트를 위한 본문입니다. 메뉴와 푸터를 제외하고도 최소 길이를 넘도록 충분한 길이의 문장을 포함합니다.';
+
+const site: Record<string, { status?: number; type?: string; body: string; location?: string }> = {
+  '/robots.txt': {
+    type: 'text/plain',
+    body: 'User-agent: *\nDisallow: /private\n',
+  },
+  '/': {
+    body: page('홈', filler, [
+      '/docs',
+      '/blog/post',
+      '/private/secret',
+      'https://other.example/',
+      '/logo.png',
+    ]),
+  },
+  '/docs': { body: page('문서', `문서 목록. ${filler}`, ['/docs/a', '/docs/b', '/redirect']) },
+  '/docs/a': { body: page('요금제', `기본 요금제는 월 29,900원입니다. ${filler}`) },
+  '/docs/b': { body: page('환불', `환불은 7일 이내 가능합니다. ${filler}`, ['/docs/c']) },
+  '/docs/c': { body: page('깊은 문서', `세 단계 아래 문서입니다. ${filler}`) },
+  '/blog/post': { body: page('블로그', `블로그 글입니다. ${filler}`) },
+  '/private/secret': { body: page('비공개', `수집하면 안 되는 문서입니다. ${filler}`) },
+  '/redirect': { status: 301, location: '/docs/a', body: '' },
+  '/sitemap.xml': {
+    type: 'application/xml',
+    body: `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>BASE/sitemap-docs.xml</loc></sitemap>
+    </sitemapindex>`,
+  },
+  '/sitemap-docs.xml': {
+    type: 'application/xml',
+    body: `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <url><loc>BASE/docs/a</loc></url>
+      <url><loc>BASE/docs/b</loc></url>
+      <url><loc>BASE/blog/post</loc></url>
+      <url><loc>BASE/private/secret</loc></url>
+    </urlset>`,
+  },
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const entry = site[req.url ?? ''];
+    if (!entry) {
+      res.writeHead(404).end('not found');
+      return;
+    }
+    res.writeHead(entry.status ?? 200, {
+      'Content-Type': entry.type ?? 'text/html; charset=utf-8',
+      ...(entry.location && { Location: entry.location }),
+    });
+    res.end(entry.body.replaceAll('BASE', baseUrl));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function crawl(config: CrawlConfig): Promise<PageCrawlResult[]> {
+  const robotsTxt = await fetchRobotsTxt(config.url, options);
+  const seeds = await discoverSeedTargets(config, options);
+  return runCrawlLoop(config, seeds, 2, (targets) => crawlPages(targets, robotsTxt, options));
+}
+
+function collected(results: PageCrawlResult[]) {
+  return results.flatMap((r) => (r.status === 'ok' && r.page ? [r.page] : []));
+}
+
+describe('crawler (local fixture)', () => {
+  it('시작 URL에서 링크를 따라 경로 규칙 안의 페이지만 수집한다', async () => {
+    const results = await crawl({
+      url: `${baseUrl}/`,
+      sourceType: 'page',
+      includePatterns: ['/docs/**'],
+      excludePatterns: [],
+      maxPages: 20,
+      maxDepth: 3,
+    });
+
+    const urls = collected(results).map((p) => p.url.replace(baseUrl, ''));
+    // 시작 페이지(/)는 경로 규칙 밖이라 탐색용으로만 방문, /blog와 외부/이미지 링크는 제외
+    expect(urls.sort()).toEqual(['/docs', '/docs/a', '/docs/b', '/docs/c']);
+    expect(results.find((r) => r.url === `${baseUrl}/`)).toMatchObject({
+      status: 'ok',
+      page: null,
+    });
+  });
+
+  it('링크 깊이와 최대 페이지 수를 지킨다', async () => {
+    const shallow = await crawl({
+      url: `${baseUrl}/docs`,
+      sourceType: 'page',
+      includePatterns: [],
+      excludePatterns: [],
+      maxPages: 20,
+      maxDepth: 1,
+    });
+    expect(
+      collected(shallow)
+        .map((p) => p.url.replace(baseUrl, ''))
+        .sort()
+    ).toEqual(['/docs', '/docs/a', '/docs/b']);
+
+    const limited = await crawl({
+      url: `${baseUrl}/docs`,
+      sourceType: 'page',
+      includePatterns: [],
+      excludePatterns: [],
+      maxPages: 2,
+      maxDepth: 3,
+    });
+    expect(limited).toHaveLength(2);
+  });
+
+  it('sitemap index를 따라가고 robots.txt 차단 경로와 제외 규칙을 건너뛴다', async () => {
+    const results = await crawl({
+      url: `${baseUrl}/sitemap.xml`,
+      sourceType: 'sitemap',
+      includePatterns: [],
+      excludePatterns: ['/blog/*'],
+      maxPages: 20,
+      maxDepth: 0,
+    });
+
+    expect(collected(results).map((p) => p.url.replace(baseUrl, ''))).toEqual([
+      '/docs/a',
+      '/docs/b',
+    ]);
+    expect(results.find((r) => r.url.endsWith('/private/secret'))).toMatchObject({
+      status: 'skipped',
+      reason: 'robots',
+    });
+  });
+
+  it('본문만 마크다운으로 추출하고 내용 해시로 변경을 감지한다', async () => {
+    const config: CrawlConfig = {
+      url: `${baseUrl}/sitemap-docs.xml`,
+      sourceType: 'sitemap',
+      includePatterns: ['/docs/**'],
+      excludePatterns: [],
+      maxPages: 20,
+      maxDepth: 0,
+    };
+
+    const first = collected(await crawl(config));
+    const pricing = first.find((p) => p.url.endsWith('/docs/a'))!;
+    expect(pricing.title).toBe('요금제');
+    expect(pricing.content).toContain(`출처: ${baseUrl}/docs/a`);
+    expect(pricing.content).toContain('기본 요금제는 월 29,900원입니다.');
+    expect(pricing.content).not.toContain('© 2026');
+    expect(pricing.content).not.toContain('/blog/post');
+
+    const original = site['/docs/b'].body;
+    site['/docs/b'].body = page('환불', `환불은 14일 이내 가능합니다. ${filler}`);
+    try {
+      const second = collected(await crawl(config));
+      const previousHashes = new Map(first.map((p) => [p.url, p.contentHash]));
+      const changed = second.filter((p) => previousHashes.get(p.url) !== p.contentHash);
+      expect(changed.map((p) => p.url.replace(baseUrl, ''))).toEqual(['/docs/b']);
+    } finally {
+      site['/docs/b'].body = original;
+    }
+  });
+
+  it('리다이렉트를 따라간다', async () => {
+    const resource = await fetchResource(`${baseUrl}/redirect`, options);
+    expect(resource.url).toBe(`${baseUrl}/docs/a`);
+  });
+
+  it('기본 설정에서는 내부 네트워크 주소를 차단한다', async () => {
+    await expect(
+      fetchResource(`${baseUrl}/docs/a`, { allowPrivateNetwork: false })
+    ).rejects.toThrow('내부 네트워크 주소는 수집할 수 없습니다');
+  });
+});
@@ -0,0 +1,84 @@
+// @vitest-environment node
+/**
+ * 크롤러 HTTP 요청 테스트 (SSRF 방지)
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// 검사 시점에는 공인 주소, 연결 시점에는 루프백 주소를 돌려주는 DNS (리바인딩)
+vi.mock('node:dns/promises', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node:dns/promises')>()),
+  lookup: vi.fn(async () => [{ address: '93.184.216.34', family: 4 }]),
+}));
+
+vi.mock('node:dns', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node:dns')>()),
+  lookup: vi.fn((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+    callback(null, [{ address: '127.0.0.1', family: 4 }]);
+  }),
+}));
+
+import { CrawlFetchError, fetchResource, isPrivateAddress } from '@/lib/crawler/fetcher';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fe80::1%eth0',
+    'fd00::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    '::7f00:1',
+    '::ffff:0:a9fe:a9fe',
+    '64:ff9b::a9fe:a9fe',
+    '64:ff9b::10.0.0.1',
+    '2002:7f00:1::',
+    'not-an-ip',
+  ])('%s는 내부 주소다', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '2606:2800:220:1::', '::ffff:5db8:d822', '64:ff9b::5db8:d822'])(
+    '%s는 공인 주소다',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('fetchResource (DNS 리바인딩)', () => {
+  let server: Server;
+  let port: number;
+  let requestCount = 0;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      requestCount++;
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('internal');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('검사 이후 DNS가 내부 주소로 바뀌면 연결하지 않는다', async () => {
+    const request = fetchResource(`http://rebind.example:${port}/`, {
+      allowPrivateNetwork: false,
+    });
+
+    await expect(request).rejects.toThrow(CrawlFetchError);
+    await expect(request).rejects.toThrow('내부 네트워크 주소로 연결할 수 없습니다');
+    expect(requestCount).toBe(0);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * HTML 본문 추출 및 URL 규칙 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractPageContent } from '@/lib/crawler/html-to-markdown';
+import { matchPathPattern, matchesPathRules, normalizeUrl } from '@/lib/crawler/url-rules';
+import { parseRobotsTxt } from '@/lib/crawler/robots';
+import { isPrivateAddress } from '@/lib/crawler/fetcher';
+
+describe('extractPageContent', () => {
+  const html = `<!doctype html><html><head>
+    <title> 요금 안내 | 예시 </title>
+    <link rel="canonical" href="/pricing">
+  </head><body>
+    <header><a href="/">홈</a></header>
+    <main>
+      <h1>요금 안내</h1>
+      <p>월 요금은 <strong>29,900원</strong>입니다.<br>연 결제 시 할인됩니다.</p>
+      <ul><li>기본<ul><li>상담 100건</li></ul></li><li>프로</li></ul>
+      <table><tr><th>요금제</th><th>가격</th></tr><tr><td>기본</td><td>29,900원</td></tr></table>
+      <pre><code>curl https://api.example.com</code></pre>
+      <div hidden>숨김 텍스트</div>
+      <script>var tracking = true;</script>
+      <a href="faq#refund">FAQ</a>
+      <a href="/login" rel="nofollow">로그인</a>
+    </main>
+    <footer>회사 정보</footer>
+  </body></html>`;
+
+  it('본문 영역을 마크다운으로 변환한다', () => {
+    const page = extractPageContent(html, 'https://example.com/docs/pricing');
+
+    expect(page.title).toBe('요금 안내 | 예시');
+    expect(page.markdown).toBe(
+      [
+        '# 요금 안내',
+        '월 요금은 29,900원입니다.\n연 결제 시 할인됩니다.',
+        '- 기본\n  - 상담 100건\n- 프로',
+        '| 요금제 | 가격 |\n| --- | --- |\n| 기본 | 29,900원 |',
+        '```\ncurl https://api.example.com\n```',
+        'FAQ 로그인',
+      ].join('\n\n')
+    );
+  });
+
+  it('링크를 절대 URL로 정규화하고 nofollow 링크는 제외한다', () => {
+    const page = extractPageContent(html, 'https://example.com/docs/pricing');
+
+    expect(page.links).toEqual(['https://example.com/', 'https://example.com/docs/faq']);
+    expect(page.canonicalUrl).toBe('https://example.com/pricing');
+    expect(page.noindex).toBe(false);
+  });
+
+  it('robots meta의 noindex를 인식한다', () => {
+    const page = extractPageContent(
+      '<html><head><meta name="robots" content="noindex, follow"></head><body>본문</body></html>',
+      'https://example.com/'
+    );
+    expect(page.noindex).toBe(true);
+    expect(page.nofollow).toBe(false);
+  });
+});
+
+describe('url rules', () => {
+  it('URL을 정규화한다', () => {
+    expect(normalizeUrl('https://Example.com:443/docs/#intro')).toBe('https://example.com/docs');
+    expect(normalizeUrl('mailto:help@example.com')).toBeNull();
+    expect(normalizeUrl('../a', 'https://example.com/docs/b/')).toBe('https://example.com/docs/a');
+  });
+
+  it('glob 경로 패턴을 매칭한다', () => {
+    expect(matchPathPattern('/docs', '/docs/**')).toBe(true);
+    expect(matchPathPattern('/docs/a/b', '/docs/**')).toBe(true);
+    expect(matchPathPattern('/docs/a/b', '/docs/*')).toBe(false);
+    expect(matchPathPattern('/blog/post', 'blog/*')).toBe(true);
+  });
+
+  it('제외 규칙이 포함 규칙보다 우선한다', () => {
+    const rules = { includePatterns: ['/docs/**'], excludePatterns: ['/docs/internal/**'] };
+    expect(matchesPathRules('https://example.com/docs/a', rules)).toBe(true);
+    expect(matchesPathRules('https://example.com/docs/internal/a', rules)).toBe(false);
+    expect(matchesPathRules('https://example.com/blog', rules)).toBe(false);
+  });
+});
+
+describe('parseRobotsTxt', () => {
+  it('가장 긴 규칙을 적용하고 자기 User-agent 그룹을 우선한다', () => {
+    const robots = parseRobotsTxt(
+      [
+        'User-agent: *',
+        'Disallow: /',
+        '',
+        'User-agent: SofaBot',
+        'Disallow: /admin',
+        'Allow: /admin/public',
+        'Sitemap: https://example.com/sitemap.xml',
+      ].join('\n'),
+      'SofaBot'
+    );
+
+    expect(robots.isAllowed('https://example.com/docs')).toBe(true);
+    expect(robots.isAllowed('https://example.com/admin/users')).toBe(false);
+    expect(robots.isAllowed('https://example.com/admin/public/a')).toBe(true);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('사설/루프백/메타데이터 주소를 차단한다', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.0.1',
+      '169.254.169.254',
+      '::1',
+      'fd00::1',
+      '::ffff:10.0.0.1',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  });
+});
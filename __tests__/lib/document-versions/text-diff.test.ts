@@ -0,0 +1,104 @@
+/**
+ * 버전 간 추출 텍스트 비교 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffText, type TextDiffResult } from '@/lib/document-versions/text-diff';
+
+/** 모든 hunk 줄을 '+', '-', ' ' 접두어 문자열로 */
+function render(result: TextDiffResult): string[] {
+  return result.hunks.flatMap((hunk) =>
+    hunk.lines.map(
+      (line) => (line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ') + line.text
+    )
+  );
+}
+
+/** 이전 텍스트에 diff를 적용해 새 텍스트를 복원 (context 제한 없이) */
+function apply(oldText: string, result: TextDiffResult): string {
+  const lines = result.hunks.flatMap((hunk) => hunk.lines);
+  const oldLines = oldText.split('\n');
+  const out: string[] = [];
+  let cursor = 0;
+  for (const line of lines) {
+    if (line.oldLine !== undefined) {
+      while (cursor < line.oldLine - 1) out.push(oldLines[cursor++]);
+    }
+    if (line.type === 'equal') {
+      out.push(line.text);
+      cursor++;
+    } else if (line.type === 'added') {
+      out.push(line.text);
+    } else {
+      cursor++;
+    }
+  }
+  while (cursor < oldLines.length) out.push(oldLines[cursor++]);
+  return out.join('\n');
+}
+
+describe('diffText', () => {
+  it('같은 텍스트는 identical로 표시한다', () => {
+    const result = diffText('a\nb', 'a\r\nb');
+
+    expect(result.identical).toBe(true);
+    expect(result.hunks).toEqual([]);
+  });
+
+  it('바뀐 줄을 삭제와 추가로 보여준다', () => {
+    const result = diffText('요금 안내\n환불 7일\n문의처', '요금 안내\n환불 14일\n문의처');
+
+    expect(render(result)).toEqual([' 요금 안내', '-환불 7일', '+환불 14일', ' 문의처']);
+    expect(result.added).toBe(1);
+    expect(result.removed).toBe(1);
+  });
+
+  it('줄 번호는 각 버전 기준으로 매긴다', () => {
+    const result = diffText('a\nb\nc', 'a\nx\ny\nc');
+    const lines = result.hunks[0].lines;
+
+    expect(lines.find((l) => l.text === 'c')).toMatchObject({ oldLine: 3, newLine: 4 });
+    expect(lines.find((l) => l.text === 'y')).toMatchObject({ type: 'added', newLine: 3 });
+    expect(lines.find((l) => l.text === 'b')).toMatchObject({ type: 'removed', oldLine: 2 });
+  });
+
+  it('멀리 떨어진 변경은 context 줄만 남기고 hunk를 나눈다', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[17] = 'changed 18';
+
+    const result = diffText(oldLines.join('\n'), newLines.join('\n'), { context: 2 });
+
+    expect(result.hunks).toHaveLength(2);
+    expect(result.hunks[0]).toMatchObject({ oldStart: 1, newStart: 1 });
+    expect(result.hunks[1]).toMatchObject({ oldStart: 16, newStart: 16 });
+    expect(result.hunks[1].lines).toHaveLength(2 + 2 + 2);
+  });
+
+  it('빈 텍스트와의 비교는 전부 추가 또는 삭제다', () => {
+    expect(render(diffText('', 'a\nb'))).toEqual(['+a', '+b']);
+    expect(render(diffText('a\nb', ''))).toEqual(['-a', '-b']);
+  });
+
+  it('diff를 적용하면 새 텍스트가 된다', () => {
+    const oldText = ['A', 'B', 'C', 'A', 'B', 'B', 'A'].join('\n');
+    const newText = ['C', 'B', 'A', 'B', 'A', 'C'].join('\n');
+
+    const result = diffText(oldText, newText, { context: 100 });
+
+    expect(apply(oldText, result)).toBe(newText);
+    // 최단 편집 거리 (Myers 논문 예시: D = 5)
+    expect(result.added + result.removed).toBe(5);
+  });
+
+  it('편집 거리가 maxEdits를 넘으면 tooLarge로 포기한다', () => {
+    const oldText = Array.from({ length: 50 }, (_, i) => `old ${i}`).join('\n');
+    const newText = Array.from({ length: 50 }, (_, i) => `new ${i}`).join('\n');
+
+    const result = diffText(oldText, newText, { maxEdits: 10 });
+
+    expect(result.tooLarge).toBe(true);
+    expect(result.identical).toBe(false);
+  });
+});
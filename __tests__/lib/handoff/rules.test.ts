@@ -0,0 +1,97 @@
+/**
+ * 상담원 연결 규칙 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_HANDOFF_CONFIG,
+  normalizeHandoffConfig,
+  matchesHandoffKeyword,
+  countTrailingNoResults,
+  evaluateHandoffOffer,
+  isBotAnswer,
+} from '@/lib/handoff/rules';
+import type { ChatMessage } from '@/lib/chat/types';
+
+function turn(noResult: boolean): ChatMessage[] {
+  return [
+    { role: 'user', content: '질문', timestamp: '2026-01-01T00:00:00.000Z' },
+    {
+      role: 'assistant',
+      content: '답변',
+      timestamp: '2026-01-01T00:00:01.000Z',
+      metadata: { noResult },
+    },
+  ];
+}
+
+const enabled = { ...DEFAULT_HANDOFF_CONFIG, enabled: true };
+
+describe('normalizeHandoffConfig', () => {
+  it('저장된 값이 없으면 기본값을 사용한다', () => {
+    expect(normalizeHandoffConfig(null)).toEqual(DEFAULT_HANDOFF_CONFIG);
+  });
+
+  it('빈 키워드와 빈 안내 문구를 정리한다', () => {
+    const config = normalizeHandoffConfig({
+      enabled: true,
+      keywords: [' 상담원 ', ''],
+      offHoursMessage: '  ',
+    });
+    expect(config.keywords).toEqual(['상담원']);
+    expect(config.offHoursMessage).toBe(DEFAULT_HANDOFF_CONFIG.offHoursMessage);
+  });
+});
+
+describe('matchesHandoffKeyword', () => {
+  it('공백을 무시하고 키워드를 찾는다', () => {
+    expect(matchesHandoffKeyword('상담 원 연결해주세요', ['상담원'])).toBe(true);
+    expect(matchesHandoffKeyword('배송 언제 와요?', ['상담원'])).toBe(false);
+  });
+});
+
+describe('countTrailingNoResults', () => {
+  it('마지막부터 연속된 "정보 없음" 답변만 센다', () => {
+    expect(countTrailingNoResults([...turn(true), ...turn(false), ...turn(true), ...turn(true)])).toBe(2);
+    expect(countTrailingNoResults([...turn(true), ...turn(false)])).toBe(0);
+  });
+});
+
+describe('evaluateHandoffOffer', () => {
+  it('비활성화되어 있으면 제안하지 않는다', () => {
+    expect(
+      evaluateHandoffOffer(DEFAULT_HANDOFF_CONFIG, {
+        previousMessages: turn(true),
+        noResult: true,
+      })
+    ).toBeNull();
+  });
+
+  it('연속 "정보 없음"이 기준에 도달하면 제안한다', () => {
+    expect(evaluateHandoffOffer(enabled, { previousMessages: turn(true), noResult: true })).toBe(
+      'no_result'
+    );
+    expect(
+      evaluateHandoffOffer(enabled, { previousMessages: turn(false), noResult: true })
+    ).toBeNull();
+  });
+
+  it('Intent 신뢰도가 기준보다 낮으면 제안한다', () => {
+    const config = { ...enabled, minIntentConfidence: 0.6 };
+    expect(
+      evaluateHandoffOffer(config, { previousMessages: [], noResult: false, intentConfidence: 0.4 })
+    ).toBe('low_confidence');
+    expect(
+      evaluateHandoffOffer(config, { previousMessages: [], noResult: false, intentConfidence: 0.8 })
+    ).toBeNull();
+  });
+});
+
+describe('isBotAnswer', () => {
+  it('대기/응대 중이거나 연결 안내만 한 응답은 봇 답변이 아니다', () => {
+    expect(isBotAnswer(undefined)).toBe(true);
+    expect(isBotAnswer({ status: 'offered', reason: 'no_result' })).toBe(true);
+    expect(isBotAnswer({ status: 'pending' })).toBe(false);
+    expect(isBotAnswer({ status: 'unavailable' })).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * XLSX/PPTX 파서 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { parseXlsx } from '@/lib/parsers/xlsx-parser';
+import { parsePptx } from '@/lib/parsers/pptx-parser';
+
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const SML = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const PML = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const DML = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+
+function rels(entries: Array<[id: string, type: string, target: string]>): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="${PKG_REL}">${entries
+    .map(
+      ([id, type, target]) => `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`
+    )
+    .join('')}</Relationships>`;
+}
+
+async function buildPackage(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('parseXlsx', () => {
+  async function buildWorkbook(): Promise<Buffer> {
+    return buildPackage({
+      '_rels/.rels': rels([['rId1', 'officeDocument', 'xl/workbook.xml']]),
+      'xl/workbook.xml': `<workbook xmlns="${SML}" xmlns:r="${REL}"><sheets>
+        <sheet name="가격표" sheetId="1" r:id="rId1"/>
+        <sheet name="내부" sheetId="2" state="hidden" r:id="rId2"/>
+      </sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': rels([
+        ['rId1', 'worksheet', 'worksheets/sheet1.xml'],
+        ['rId2', 'worksheet', 'worksheets/sheet2.xml'],
+        ['rId3', 'sharedStrings', 'sharedStrings.xml'],
+        ['rId4', 'styles', 'styles.xml'],
+      ]),
+      'xl/sharedStrings.xml': `<sst xmlns="${SML}">
+        <si><t>상품</t></si><si><t>가격</t></si><si><t>출시일</t></si>
+        <si><r><t>기본</t></r><r><t> 요금제</t></r></si>
+      </sst>`,
+      'xl/styles.xml': `<styleSheet xmlns="${SML}"><cellXfs>
+        <xf numFmtId="0"/><xf numFmtId="14"/>
+      </cellXfs></styleSheet>`,
+      'xl/worksheets/sheet1.xml': `<worksheet xmlns="${SML}"><sheetData>
+        <row r="2"><c r="A2" t="s"><v>0</v></c><c r="B2" t="s"><v>1</v></c><c r="C2" t="s"><v>2</v></c><c r="D2" t="s"><v>1</v></c></row>
+        <row r="3"><c r="A3" t="s"><v>3</v></c><c r="B3"><v>29900</v></c><c r="C3" s="1"><v>45658</v></c><c r="E3" t="inlineStr"><is><t>비고</t></is></c></row>
+      </sheetData></worksheet>`,
+      'xl/worksheets/sheet2.xml': `<worksheet xmlns="${SML}"><sheetData/></worksheet>`,
+    });
+  }
+
+  it('첫 번째 비어 있지 않은 행을 헤더로 레코드를 만든다', async () => {
+    const result = await parseXlsx(await buildWorkbook());
+
+    expect(result.sheets).toHaveLength(1);
+    expect(result.sheets[0].headers).toEqual(['상품', '가격', '출시일', '가격 (2)', 'E열']);
+    expect(result.sheets[0].rows).toEqual([
+      {
+        rowNumber: 3,
+        values: { 상품: '기본 요금제', 가격: '29900', 출시일: '2025-01-01', E열: '비고' },
+      },
+    ]);
+  });
+
+  it('엑셀 행 번호와 시트 이름으로 텍스트와 구간을 만든다', async () => {
+    const result = await parseXlsx(await buildWorkbook());
+
+    expect(result.text).toBe(
+      '## 시트: 가격표\n\n[Row 3]\n상품: 기본 요금제\n가격: 29900\n출시일: 2025-01-01\nE열: 비고'
+    );
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0].location).toEqual({
+      type: 'sheet',
+      sheetNumber: 1,
+      sheetName: '가격표',
+      row: 3,
+    });
+    expect(result.text.slice(result.segments[0].startOffset)).toMatch(/^\[Row 3\]/);
+  });
+
+  it('숨김 시트는 건너뛴다', async () => {
+    const result = await parseXlsx(await buildWorkbook());
+
+    expect(result.metadata).toEqual({
+      sheetCount: 1,
+      rowCount: 1,
+      sheetNames: ['가격표'],
+      hiddenSheets: ['내부'],
+    });
+  });
+
+  it('ZIP이 아니면 에러를 던진다', async () => {
+    await expect(parseXlsx(Buffer.from('not a zip'))).rejects.toThrow('XLSX 파싱 실패');
+  });
+});
+
+describe('parsePptx', () => {
+  function shape(text: string[], placeholder?: string): string {
+    const ph =
+      placeholder === undefined ? '' : `<p:ph${placeholder ? ` type="${placeholder}"` : ''}/>`;
+    return `<p:sp><p:nvSpPr><p:nvPr>${ph}</p:nvPr></p:nvSpPr><p:txBody>${text
+      .map((t) => `<a:p><a:r><a:t>${t}</a:t></a:r></a:p>`)
+      .join('')}</p:txBody></p:sp>`;
+  }
+
+  function slide(content: string, show?: string): string {
+    return `<p:sld xmlns:p="${PML}" xmlns:a="${DML}"${show ? ` show="${show}"` : ''}><p:cSld><p:spTree>${content}</p:spTree></p:cSld></p:sld>`;
+  }
+
+  async function buildPresentation(): Promise<Buffer> {
+    const table = `<p:graphicFrame><a:graphic><a:graphicData><a:tbl>
+      <a:tr><a:tc><a:txBody><a:p><a:r><a:t>요금제</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>가격</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+      <a:tr><a:tc><a:txBody><a:p><a:r><a:t>기본</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>29,900원</a:t></a:r></a:p></a:txBody></a:tc></a:tr>
+    </a:tbl></a:graphicData></a:graphic></p:graphicFrame>`;
+
+    return buildPackage({
+      '_rels/.rels': rels([['rId1', 'officeDocument', 'ppt/presentation.xml']]),
+      'ppt/presentation.xml': `<p:presentation xmlns:p="${PML}" xmlns:r="${REL}"><p:sldIdLst>
+        <p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/><p:sldId id="258" r:id="rId4"/>
+      </p:sldIdLst></p:presentation>`,
+      'ppt/_rels/presentation.xml.rels': rels([
+        ['rId2', 'slide', 'slides/slide1.xml'],
+        ['rId3', 'slide', 'slides/slide2.xml'],
+        ['rId4', 'slide', 'slides/slide3.xml'],
+      ]),
+      'ppt/slides/slide1.xml': slide(
+        shape(['요금 안내'], 'title') +
+          shape(['월 단위 결제', '연 단위 할인'], '') +
+          shape(['3'], 'sldNum')
+      ),
+      'ppt/slides/_rels/slide1.xml.rels': rels([
+        ['rId1', 'notesSlide', '../notesSlides/notesSlide1.xml'],
+      ]),
+      'ppt/notesSlides/notesSlide1.xml': slide(
+        shape(['슬라이드 이미지'], 'sldImg') + shape(['할인율은 15%'], 'body')
+      )
+        .replace(/p:sld /, 'p:notes ')
+        .replace(/<\/p:sld>$/, '</p:notes>'),
+      'ppt/slides/slide2.xml': slide(shape(['숨김'], 'title'), '0'),
+      'ppt/slides/slide3.xml': slide(`<p:grpSp>${shape(['그룹 텍스트'])}</p:grpSp>${table}`),
+    });
+  }
+
+  it('슬라이드별 제목, 본문, 표, 발표자 노트를 추출한다', async () => {
+    const result = await parsePptx(await buildPresentation());
+
+    expect(result.slides).toEqual([
+      {
+        slideNumber: 1,
+        title: '요금 안내',
+        body: ['월 단위 결제', '연 단위 할인'],
+        notes: '할인율은 15%',
+      },
+      {
+        slideNumber: 3,
+        title: null,
+        body: ['그룹 텍스트', '요금제 | 가격', '기본 | 29,900원'],
+        notes: null,
+      },
+    ]);
+    expect(result.metadata).toEqual({ slideCount: 2, notesCount: 1, hiddenSlides: [2] });
+  });
+
+  it('슬라이드 번호로 텍스트와 구간을 만든다', async () => {
+    const result = await parsePptx(await buildPresentation());
+
+    expect(result.text).toBe(
+      '## 슬라이드 1: 요금 안내\n\n월 단위 결제\n연 단위 할인\n\n[발표자 노트]\n할인율은 15%' +
+        '\n\n## 슬라이드 3\n\n그룹 텍스트\n요금제 | 가격\n기본 | 29,900원'
+    );
+    expect(result.segments.map((s) => s.location)).toEqual([
+      { type: 'slide', slideNumber: 1, slideTitle: '요금 안내' },
+      { type: 'slide', slideNumber: 3 },
+    ]);
+    expect(result.text.slice(result.segments[1].startOffset)).toMatch(/^## 슬라이드 3/);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * PDF 레이아웃 분석 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPdfLayout, type PdfTextItem } from '@/lib/parsers/pdf-layout';
+
+const FONT_SIZE = 10;
+
+/** 글자당 5pt 너비의 텍스트 아이템 */
+function item(str: string, x: number, y: number): PdfTextItem {
+  return { str, x, y, width: str.length * 5, height: FONT_SIZE };
+}
+
+/** 한 줄에 왼쪽부터 단어 아이템 배치 (단어 사이 한 칸) */
+function line(text: string, y: number, x = 50): PdfTextItem[] {
+  const items: PdfTextItem[] = [];
+  let cursor = x;
+  for (const word of text.split(' ')) {
+    items.push(item(word, cursor, y));
+    cursor += word.length * 5 + 3;
+  }
+  return items;
+}
+
+describe('buildPdfLayout', () => {
+  it('좌표 순서대로 줄을 만들고 큰 세로 간격은 문단으로 나눈다', () => {
+    const result = buildPdfLayout([
+      {
+        pageNumber: 1,
+        items: [
+          // 아이템 순서가 뒤섞여도 위 → 아래, 왼쪽 → 오른쪽
+          ...line('두 번째 줄', 688),
+          ...line('첫 줄', 700),
+          ...line('새 문단', 640),
+        ],
+      },
+    ]);
+
+    expect(result.text).toBe('첫 줄\n두 번째 줄\n\n새 문단');
+  });
+
+  it('열이 맞는 줄이 이어지면 markdown 표로 변환한다', () => {
+    const row = (cells: string[], y: number) => [
+      item(cells[0], 50, y),
+      item(cells[1], 200, y),
+      // 오른쪽 정렬 숫자 열
+      item(cells[2], 400 - cells[2].length * 5, y),
+    ];
+
+    const result = buildPdfLayout([
+      {
+        pageNumber: 1,
+        items: [
+          ...line('요금제 안내', 720),
+          ...row(['요금제', '대상', '월 요금'], 700),
+          ...row(['베이직', '개인', '9,900'], 688),
+          ...row(['프로', '팀 | 조직', '29,000'], 676),
+          ...line('부가세 별도', 640),
+        ],
+      },
+    ]);
+
+    expect(result.tableCount).toBe(1);
+    expect(result.text).toBe(
+      [
+        '요금제 안내',
+        '',
+        '| 요금제 | 대상 | 월 요금 |',
+        '| --- | --- | --- |',
+        '| 베이직 | 개인 | 9,900 |',
+        '| 프로 | 팀 \\| 조직 | 29,000 |',
+        '',
+        '부가세 별도',
+      ].join('\n')
+    );
+  });
+
+  it('열 위치가 맞지 않거나 행이 부족하면 표로 보지 않는다', () => {
+    const result = buildPdfLayout([
+      {
+        pageNumber: 1,
+        items: [
+          item('이름', 50, 700),
+          item('홍길동', 200, 700),
+          item('주소', 50, 688),
+          item('서울', 200, 688),
+          // 두 번째 열이 첫 열 아래에서 시작
+          item('비고', 300, 676),
+          item('없음', 500, 676),
+        ],
+      },
+    ]);
+
+    expect(result.tableCount).toBe(0);
+  });
+
+  it('여러 페이지에 반복되는 머리글/바닥글(페이지 번호 포함)을 제거한다', () => {
+    const pages = [1, 2, 3, 4].map((pageNumber) => ({
+      pageNumber,
+      items: [
+        ...line('ACME 서비스 이용 가이드', 800),
+        ...line(`${pageNumber}장 본문 내용`, 700),
+        ...line(`- ${pageNumber} -`, 40),
+      ],
+    }));
+
+    const result = buildPdfLayout(pages);
+
+    expect(result.text).toBe('1장 본문 내용\n\n2장 본문 내용\n\n3장 본문 내용\n\n4장 본문 내용');
+    expect(result.removedLineCount).toBe(8);
+  });
+
+  it('페이지가 적으면 머리글/바닥글을 판정하지 않는다', () => {
+    const pages = [1, 2].map((pageNumber) => ({
+      pageNumber,
+      items: [...line('머리글', 800), ...line('본문', 700)],
+    }));
+
+    expect(buildPdfLayout(pages).removedLineCount).toBe(0);
+  });
+
+  it('페이지별 구간을 만들고 빈 페이지는 건너뛴다', () => {
+    const result = buildPdfLayout([
+      { pageNumber: 1, items: line('첫 페이지', 700) },
+      { pageNumber: 2, items: [item('   ', 50, 700)] },
+      { pageNumber: 3, items: line('셋째 페이지', 700) },
+    ]);
+
+    expect(result.text).toBe('첫 페이지\n\n셋째 페이지');
+    expect(result.segments).toEqual([
+      { startOffset: 0, endOffset: 5, location: { type: 'page', pageNumber: 1 } },
+      { startOffset: 7, endOffset: 13, location: { type: 'page', pageNumber: 3 } },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * 원본 위치 (시트/행, 슬라이드, 페이지) 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatSourceLocation,
+  getChunkPageRange,
+  locateChunkSources,
+  locateSourceSegments,
+  toPageRange,
+  type SourceSegment,
+} from '@/lib/parsers/source-location';
+
+const sheetSegments: SourceSegment[] = [
+  {
+    startOffset: 0,
+    endOffset: 10,
+    location: { type: 'sheet', sheetNumber: 1, sheetName: '가격표', row: 3 },
+  },
+  {
+    startOffset: 12,
+    endOffset: 22,
+    location: { type: 'sheet', sheetNumber: 1, sheetName: '가격표', row: 4 },
+  },
+  {
+    startOffset: 24,
+    endOffset: 34,
+    location: { type: 'sheet', sheetNumber: 2, sheetName: 'FAQ', row: 2 },
+  },
+];
+
+describe('locateSourceSegments', () => {
+  it('겹치는 행 범위를 첫 시트 기준으로 계산한다', () => {
+    expect(locateSourceSegments(sheetSegments, 5, 30)).toEqual({
+      type: 'sheet',
+      sheetNumber: 1,
+      sheetName: '가격표',
+      rowStart: 3,
+      rowEnd: 4,
+    });
+  });
+
+  it('슬라이드 범위를 계산한다', () => {
+    const segments: SourceSegment[] = [
+      {
+        startOffset: 0,
+        endOffset: 10,
+        location: { type: 'slide', slideNumber: 7, slideTitle: '요금' },
+      },
+      { startOffset: 12, endOffset: 20, location: { type: 'slide', slideNumber: 8 } },
+    ];
+
+    expect(locateSourceSegments(segments, 0, 15)).toEqual({
+      type: 'slide',
+      slideNumber: 7,
+      slideEnd: 8,
+      slideTitle: '요금',
+    });
+  });
+
+  it('페이지 범위를 계산한다', () => {
+    const segments: SourceSegment[] = [
+      { startOffset: 0, endOffset: 10, location: { type: 'page', pageNumber: 12 } },
+      { startOffset: 12, endOffset: 20, location: { type: 'page', pageNumber: 13 } },
+    ];
+
+    expect(locateSourceSegments(segments, 5, 15)).toEqual({
+      type: 'page',
+      pageNumber: 12,
+      pageEnd: 13,
+    });
+  });
+
+  it('겹치는 구간이 없으면 null', () => {
+    expect(locateSourceSegments(sheetSegments, 100, 120)).toBeNull();
+    expect(locateSourceSegments(undefined, 0, 10)).toBeNull();
+  });
+});
+
+describe('locateChunkSources', () => {
+  it('청크 본문을 원문에서 찾아 위치를 정한다', () => {
+    const text = '## 슬라이드 1\n\n첫 번째\n\n## 슬라이드 2\n\n두 번째';
+    const second = text.indexOf('## 슬라이드 2');
+    const segments: SourceSegment[] = [
+      { startOffset: 0, endOffset: second - 2, location: { type: 'slide', slideNumber: 1 } },
+      { startOffset: second, endOffset: text.length, location: { type: 'slide', slideNumber: 2 } },
+    ];
+
+    expect(locateChunkSources(text, segments, ['## 슬라이드 2\n\n두 번째', '없는 내용'])).toEqual([
+      { type: 'slide', slideNumber: 2, slideEnd: 2 },
+      null,
+    ]);
+  });
+
+  it('구간이 없으면 모두 null', () => {
+    expect(locateChunkSources('text', undefined, ['text'])).toEqual([null]);
+  });
+});
+
+describe('formatSourceLocation', () => {
+  it('슬라이드 위치를 표시한다', () => {
+    expect(formatSourceLocation({ type: 'slide', slideNumber: 7, slideEnd: 7 })).toBe('슬라이드 7');
+    expect(formatSourceLocation({ type: 'slide', slideNumber: 7, slideEnd: 8 })).toBe(
+      '슬라이드 7~8'
+    );
+  });
+
+  it('시트 위치를 표시한다', () => {
+    expect(
+      formatSourceLocation({
+        type: 'sheet',
+        sheetNumber: 1,
+        sheetName: '가격표',
+        rowStart: 3,
+        rowEnd: 10,
+      })
+    ).toBe('가격표 시트 3~10행');
+    expect(
+      formatSourceLocation({ type: 'sheet', sheetNumber: 2, sheetName: '', rowStart: 5, rowEnd: 5 })
+    ).toBe('시트 2 5행');
+  });
+
+  it('페이지 위치를 표시한다', () => {
+    expect(formatSourceLocation({ type: 'page', pageNumber: 12, pageEnd: 12 })).toBe('12페이지');
+    expect(formatSourceLocation({ type: 'page', pageNumber: 12, pageEnd: 13 })).toBe('12~13페이지');
+  });
+
+  it('형식이 맞지 않으면 null', () => {
+    expect(formatSourceLocation(undefined)).toBeNull();
+    expect(formatSourceLocation({ type: 'page', page: 3 })).toBeNull();
+  });
+});
+
+describe('pageRange', () => {
+  it('페이지 위치만 pageRange로 변환한다', () => {
+    expect(toPageRange({ type: 'page', pageNumber: 3, pageEnd: 4 })).toEqual({ start: 3, end: 4 });
+    expect(toPageRange({ type: 'slide', slideNumber: 3, slideEnd: 3 })).toBeNull();
+    expect(toPageRange(null)).toBeNull();
+  });
+
+  it('청크 메타데이터의 pageRange를 읽는다', () => {
+    expect(getChunkPageRange({ pageRange: { start: 2, end: 5 } })).toEqual({ start: 2, end: 5 });
+    expect(getChunkPageRange({ pageRange: { start: 2 } })).toEqual({ start: 2, end: 2 });
+    expect(getChunkPageRange({ pageRange: { start: 0, end: 1 } })).toBeNull();
+    expect(getChunkPageRange({})).toBeNull();
+    expect(getChunkPageRange(null)).toBeNull();
+  });
+});
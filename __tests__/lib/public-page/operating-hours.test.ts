@@ -0,0 +1,49 @@
+/**
+ * 운영 시간 계산 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createOperatingHoursBlock } from '@/lib/public-page/block-types';
+import {
+  findOperatingHours,
+  getOperatingStatus,
+  type OperatingHours,
+} from '@/lib/public-page/operating-hours';
+
+const hours: OperatingHours = {
+  timezone: 'Asia/Seoul',
+  schedule: [
+    { day: 'mon', open: '09:00', close: '18:00', closed: false },
+    { day: 'sun', open: '09:00', close: '18:00', closed: true },
+  ],
+};
+
+describe('getOperatingStatus', () => {
+  it('타임존 기준으로 운영 중인지 계산한다', () => {
+    // 2026-01-05(월) 10:00 KST
+    expect(getOperatingStatus(hours, new Date('2026-01-05T01:00:00Z'))).toEqual({
+      isOpen: true,
+      closeTime: '18:00',
+    });
+    // 2026-01-05(월) 19:00 KST
+    expect(getOperatingStatus(hours, new Date('2026-01-05T10:00:00Z'))?.isOpen).toBe(false);
+  });
+
+  it('휴무일이거나 스케줄이 없으면 운영하지 않는다', () => {
+    // 2026-01-04(일), 2026-01-06(화)
+    expect(getOperatingStatus(hours, new Date('2026-01-04T01:00:00Z'))).toEqual({ isOpen: false });
+    expect(getOperatingStatus(hours, new Date('2026-01-06T01:00:00Z'))).toEqual({ isOpen: false });
+  });
+
+  it('잘못된 타임존이면 null을 반환한다', () => {
+    expect(getOperatingStatus({ ...hours, timezone: 'Invalid/Zone' })).toBeNull();
+  });
+});
+
+describe('findOperatingHours', () => {
+  it('숨긴 운영 시간 블록은 무시한다', () => {
+    const block = createOperatingHoursBlock('oh', 0);
+    expect(findOperatingHours([{ ...block, visible: false }])).toBeNull();
+    expect(findOperatingHours([block])?.timezone).toBe(block.config.timezone);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * BM25 Sparse 검색 테스트
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import {
+  tokenize,
+  termFrequencies,
+  queryTerms,
+  buildBm25SearchSql,
+  getSparseSearchEngine,
+} from '@/lib/rag/bm25';
+
+const dialect = new PgDialect();
+
+describe('tokenize', () => {
+  it('한글은 음절 bigram, 영문/숫자는 단어 단위로 분리한다', () => {
+    expect(tokenize('환불 정책은 GPT-4와')).toEqual(['환불', '정책', '책은', 'gpt', '4', '와']);
+  });
+
+  it('한글과 영문이 붙어 있으면 구간별로 분리한다', () => {
+    expect(tokenize('api키 발급')).toEqual(['api', '키', '발급']);
+  });
+
+  it('한 글자 영문과 문장부호를 제외하고 전각 문자를 정규화한다', () => {
+    expect(tokenize('a, b! ＡＢＣ 123')).toEqual(['abc', '123']);
+  });
+});
+
+describe('termFrequencies', () => {
+  it('term별 빈도와 문서 길이를 계산한다', () => {
+    const { terms, length } = termFrequencies('배송 배송 조회');
+
+    expect(length).toBe(3);
+    expect(terms.get('배송')).toBe(2);
+    expect(terms.get('조회')).toBe(1);
+  });
+});
+
+describe('queryTerms', () => {
+  it('중복 term을 제거한다', () => {
+    expect(queryTerms('배송 배송비 배송')).toEqual(['배송', '송비']);
+  });
+
+  it('검색할 term이 없으면 빈 배열을 반환한다', () => {
+    expect(queryTerms('?! a')).toEqual([]);
+  });
+});
+
+describe('buildBm25SearchSql', () => {
+  it('term과 데이터셋 조건을 파라미터로 바인딩한다', () => {
+    const query = dialect.sqlToQuery(
+      buildBm25SearchSql({
+        tenantId: 'tenant-1',
+        datasetIds: ['ds-1', 'ds-2'],
+        terms: ['환불', '정책'],
+        limit: 10,
+        filterSql: sql`AND document_id IS NOT NULL`,
+      })
+    );
+
+    expect(query.sql).toContain('dataset_id = ANY(');
+    expect(query.sql).toContain('AND document_id IS NOT NULL');
+    expect(query.sql).toContain('ct.term IN ($');
+    expect(query.params).toEqual(
+      expect.arrayContaining(['tenant-1', '{ds-1,ds-2}', '환불', '정책', 10])
+    );
+  });
+
+  it('데이터셋을 지정하지 않으면 테넌트 전체를 검색한다', () => {
+    const query = dialect.sqlToQuery(
+      buildBm25SearchSql({
+        tenantId: 'tenant-1',
+        terms: ['환불'],
+        limit: 5,
+        filterSql: sql``,
+      })
+    );
+
+    expect(query.sql).not.toContain('dataset_id = ANY(');
+  });
+});
+
+describe('getSparseSearchEngine', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('기본값은 pgroonga이고 bm25로 전환할 수 있다', () => {
+    vi.stubEnv('SPARSE_SEARCH_ENGINE', '');
+    expect(getSparseSearchEngine()).toBe('pgroonga');
+
+    vi.stubEnv('SPARSE_SEARCH_ENGINE', 'bm25');
+    expect(getSparseSearchEngine()).toBe('bm25');
+  });
+});
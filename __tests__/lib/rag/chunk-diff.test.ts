@@ -0,0 +1,61 @@
+/**
+ * 청크 증분 재처리 비교 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffChunks, getStoredChunkHash, hashChunkContent } from '@/lib/rag/chunk-diff';
+
+function existing(id: string, content: string) {
+  return { id, contentHash: hashChunkContent(content) };
+}
+
+describe('diffChunks', () => {
+  it('내용이 같은 청크는 재사용하고 바뀐 청크만 새로 처리한다', () => {
+    const before = [existing('a', '요금 안내'), existing('b', '환불 7일'), existing('c', '문의처')];
+    const next = ['요금 안내', '환불 14일', '문의처', '새 섹션'].map(hashChunkContent);
+
+    const { matches, removed } = diffChunks(before, next);
+
+    expect(matches.map((m) => m?.id ?? null)).toEqual(['a', null, 'c', null]);
+    expect(removed.map((c) => c.id)).toEqual(['b']);
+  });
+
+  it('순서가 바뀌어도 같은 내용이면 재사용한다', () => {
+    const before = [existing('a', '첫째'), existing('b', '둘째')];
+    const { matches, removed } = diffChunks(before, ['둘째', '첫째'].map(hashChunkContent));
+
+    expect(matches.map((m) => m?.id)).toEqual(['b', 'a']);
+    expect(removed).toEqual([]);
+  });
+
+  it('같은 내용의 청크가 여러 개면 기존 순서대로 하나씩 짝을 짓는다', () => {
+    const before = [existing('a', '반복'), existing('b', '반복'), existing('c', '반복')];
+    const { matches, removed } = diffChunks(before, ['반복', '반복'].map(hashChunkContent));
+
+    expect(matches.map((m) => m?.id)).toEqual(['a', 'b']);
+    expect(removed.map((c) => c.id)).toEqual(['c']);
+  });
+
+  it('기존 청크가 없으면 모두 새로 처리한다', () => {
+    const { matches, removed } = diffChunks([], ['a', 'b'].map(hashChunkContent));
+
+    expect(matches).toEqual([null, null]);
+    expect(removed).toEqual([]);
+  });
+});
+
+describe('getStoredChunkHash', () => {
+  it('검토자가 수정한 청크는 저장된 원문 해시로 비교한다', () => {
+    const original = hashChunkContent('원문 내용');
+    expect(
+      getStoredChunkHash({ content: '수정된 내용', metadata: { contentHash: original } })
+    ).toBe(original);
+  });
+
+  it('해시가 없는 이전 청크는 현재 내용으로 계산한다', () => {
+    expect(getStoredChunkHash({ content: '내용', metadata: null })).toBe(hashChunkContent('내용'));
+    expect(getStoredChunkHash({ content: '내용', metadata: { startOffset: 0 } })).toBe(
+      hashChunkContent('내용')
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Circuit Breaker 테스트
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from '@/lib/rag/circuit-breaker';
+
+function createBreaker(healthy = true) {
+  let now = 0;
+  const healthCheck = vi.fn().mockResolvedValue(healthy);
+  const breaker = new CircuitBreaker({
+    name: 'bge',
+    failureThreshold: 2,
+    cooldownMs: 1000,
+    healthCheck,
+    now: () => now,
+  });
+  return {
+    breaker,
+    healthCheck,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+const fail = () => Promise.reject(new Error('server down'));
+
+describe('CircuitBreaker', () => {
+  it('연속 실패가 임계값에 도달하면 차단한다', async () => {
+    const { breaker } = createBreaker();
+
+    await expect(breaker.execute(fail)).rejects.toThrow('server down');
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('server down');
+    expect(breaker.getState()).toBe('open');
+
+    const fn = vi.fn().mockResolvedValue('ok');
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('성공하면 연속 실패 횟수를 초기화한다', async () => {
+    const { breaker } = createBreaker();
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(() => Promise.resolve('ok'));
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('cooldown 후 헬스 체크가 통과하면 다시 호출한다', async () => {
+    const { breaker, healthCheck, advance } = createBreaker(true);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    advance(1000);
+    expect(breaker.getState()).toBe('half_open');
+
+    await expect(breaker.execute(() => Promise.resolve('ok'))).resolves.toBe('ok');
+    expect(healthCheck).toHaveBeenCalledTimes(1);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('half_open에서 헬스 체크가 실패하면 다시 차단한다', async () => {
+    const { breaker, advance } = createBreaker(false);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    advance(1000);
+    const fn = vi.fn().mockResolvedValue('ok');
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('half_open에서 한 번만 실패해도 다시 차단한다', async () => {
+    const { breaker, advance } = createBreaker(true);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    advance(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow('server down');
+
+    expect(breaker.getState()).toBe('open');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * 인라인 출처 표기 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractCitations,
+  stripCitationMarkers,
+  toCitationLinks,
+  parseCitationHref,
+  getKnowledgePagePublicPath,
+  type CitableResult,
+} from '@/lib/rag/citations';
+
+const results: CitableResult[] = [
+  { chunkId: 'c1', documentId: 'd1', content: '환불은 7일 이내 가능합니다.' },
+  { chunkId: 'c2', documentId: 'd2', content: '배송은 2-3일 소요됩니다.' },
+  {
+    chunkId: 'v3',
+    documentId: 'p3',
+    pageId: 'p3',
+    content: '고객센터는 평일 9시-6시 운영합니다.',
+    metadata: { title: '고객센터 안내', path: '/지원/고객센터' },
+  },
+];
+
+describe('extractCitations', () => {
+  it('인용 순서대로 각주 번호를 다시 매긴다', () => {
+    const { text, citations } = extractCitations(
+      '고객센터는 평일에 운영합니다 [3]. 환불은 7일 이내 가능합니다 [1].',
+      results
+    );
+
+    expect(text).toBe('고객센터는 평일에 운영합니다[1]. 환불은 7일 이내 가능합니다[2].');
+    expect(citations.map((c) => c.chunkId)).toEqual(['v3', 'c1']);
+    expect(citations.map((c) => c.index)).toEqual([1, 2]);
+  });
+
+  it('같은 컨텍스트를 다시 인용하면 같은 번호를 사용한다', () => {
+    const { text, citations } = extractCitations('A[2]. B[1]. C[2].', results);
+
+    expect(text).toBe('A[1]. B[2]. C[1].');
+    expect(citations).toHaveLength(2);
+  });
+
+  it('범위를 벗어난 번호와 연속 중복 마커는 제거한다', () => {
+    const { text, citations } = extractCitations('A [1][1]. B [9]. C [1][2].', results);
+
+    expect(text).toBe('A[1]. B. C[1][2].');
+    expect(citations).toHaveLength(2);
+  });
+
+  it('마크다운 링크는 마커로 보지 않는다', () => {
+    const { text, citations } = extractCitations('자세히 보기 [1](https://example.com)', results);
+
+    expect(text).toBe('자세히 보기 [1](https://example.com)');
+    expect(citations).toHaveLength(0);
+  });
+
+  it('페이지는 메타데이터 제목과 경로, 청크는 문서 파일명을 사용한다', () => {
+    const { citations } = extractCitations(
+      'A[3] B[1] C[2]',
+      results,
+      new Map([['d1', '환불정책.pdf']])
+    );
+
+    expect(citations[0]).toMatchObject({ title: '고객센터 안내', path: '/지원/고객센터', pageId: 'p3' });
+    expect(citations[1]).toMatchObject({ title: '환불정책.pdf', path: undefined });
+    expect(citations[2].title).toBe('출처 3');
+  });
+});
+
+describe('stripCitationMarkers', () => {
+  it('마커와 앞 공백을 제거한다', () => {
+    expect(stripCitationMarkers('환불 가능합니다 [1][2]. 배송 [3].')).toBe('환불 가능합니다. 배송.');
+  });
+});
+
+describe('toCitationLinks / parseCitationHref', () => {
+  it('각주 범위 안의 마커만 링크로 바꾸고 href에서 번호를 읽는다', () => {
+    const linked = toCitationLinks('A[1] B[5]', 2);
+
+    expect(linked).toBe('A[1](#cite-1) B[5]');
+    expect(parseCitationHref('#cite-1')).toBe(1);
+    expect(parseCitationHref('https://example.com')).toBeNull();
+  });
+});
+
+describe('getKnowledgePagePublicPath', () => {
+  it('공개 페이지 슬러그 하위 경로를 만든다', () => {
+    expect(getKnowledgePagePublicPath('acme', 'page-1')).toBe('/acme/pages/page-1');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * 임베딩 모델 레지스트리 및 모델별 임베딩 생성 테스트
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+vi.mock('@/lib/usage/token-tracker', () => ({
+  trackTokenUsage: vi.fn().mockResolvedValue(undefined),
+}));
+
+import {
+  assertEmbeddingDimension,
+  calculateReembedProgress,
+  getEmbeddingModel,
+  isEmbeddingModelId,
+  queryVectorFor,
+  vectorColumnFor,
+} from '@/lib/rag/embedding-models';
+import {
+  EmbeddingUnavailableError,
+  embedTexts,
+  getDefaultEmbeddingModelId,
+  getEmbeddingDimension,
+  isDummyEmbedding,
+} from '@/lib/rag/embedding';
+
+const OPENAI_KEY = 'sk-test-0123456789abcdefghijklmnop';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('embedding model registry', () => {
+  it('모델별 제공자와 차원을 반환한다', () => {
+    expect(getEmbeddingModel('text-embedding-3-small')).toMatchObject({
+      provider: 'openai',
+      dimension: 1536,
+    });
+    expect(getEmbeddingModel('bge-m3-ko')).toMatchObject({ provider: 'bge', dimension: 1024 });
+  });
+
+  it('등록되지 않은 모델은 거부한다', () => {
+    expect(isEmbeddingModelId('text-embedding-ada-002')).toBe(false);
+    expect(isEmbeddingModelId('toString')).toBe(false);
+    expect(() => getEmbeddingModel('unknown')).toThrow('Unknown embedding model');
+  });
+
+  it('벡터 컬럼과 쿼리를 모델 차원으로 캐스팅한다', () => {
+    const model = getEmbeddingModel('bge-m3-ko');
+    const query = new PgDialect().sqlToQuery(
+      sql`${vectorColumnFor(sql`embedding`, model)} <=> ${queryVectorFor([0.1, 0.2], model)}`
+    );
+
+    expect(query.sql).toBe('(embedding)::vector(1024) <=> $1::vector(1024)');
+    expect(query.params).toEqual(['[0.1,0.2]']);
+  });
+
+  it('차원이 다른 벡터를 거부한다', () => {
+    const model = getEmbeddingModel('bge-m3-ko');
+    expect(() => assertEmbeddingDimension([new Array(1024).fill(0)], model)).not.toThrow();
+    expect(() => assertEmbeddingDimension([new Array(1536).fill(0)], model)).toThrow(
+      'expected 1024, got 1536'
+    );
+  });
+
+  it('재임베딩 진행률을 계산한다', () => {
+    expect(calculateReembedProgress(50, 200)).toBe(25);
+    expect(calculateReembedProgress(210, 200)).toBe(100);
+    expect(calculateReembedProgress(0, 0)).toBe(100);
+  });
+});
+
+describe('getDefaultEmbeddingModelId', () => {
+  it('EMBEDDING_MODEL 설정을 우선한다', () => {
+    vi.stubEnv('EMBEDDING_MODEL', 'bge-m3-ko');
+    vi.stubEnv('OPENAI_API_KEY', OPENAI_KEY);
+    expect(getDefaultEmbeddingModelId()).toBe('bge-m3-ko');
+    expect(getEmbeddingDimension()).toBe(1024);
+  });
+
+  it('알 수 없는 모델이면 설정된 서비스로 결정한다', () => {
+    vi.stubEnv('EMBEDDING_MODEL', 'unknown-model');
+    vi.stubEnv('OPENAI_API_KEY', OPENAI_KEY);
+    expect(getDefaultEmbeddingModelId()).toBe('text-embedding-3-small');
+  });
+});
+
+describe('embedTexts', () => {
+  it('지정한 모델의 제공자로 임베딩한다', async () => {
+    vi.stubEnv('OPENAI_API_KEY', OPENAI_KEY);
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        data: [{ embedding: [0.1, 0.2], index: 0 }],
+        usage: { prompt_tokens: 3, total_tokens: 3 },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const embeddings = await embedTexts(['배송 문의'], undefined, 'text-embedding-3-small');
+
+    expect(embeddings).toEqual([[0.1, 0.2]]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.openai.com/v1/embeddings',
+      expect.objectContaining({
+        body: JSON.stringify({ model: 'text-embedding-3-small', input: ['배송 문의'] }),
+      })
+    );
+  });
+
+  it('모델 제공자가 설정되지 않았으면 다른 제공자로 대체하지 않는다', async () => {
+    vi.stubEnv('OPENAI_API_KEY', OPENAI_KEY);
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(embedTexts(['배송 문의'], undefined, 'bge-m3-ko')).rejects.toThrow(
+      'Set EMBEDDING_API_URL'
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('strict mode', () => {
+  it('개발 환경에서도 기본적으로 더미 벡터를 만들지 않는다', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('OPENAI_API_KEY', '');
+
+    const error = await embedTexts(['배송 문의'], undefined, 'text-embedding-3-small').catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(EmbeddingUnavailableError);
+    expect(error).toMatchObject({ reason: 'not_configured', retryable: false });
+  });
+
+  it('Strict 모드를 끄면 개발 환경에서 더미 벡터를 만든다', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('EMBEDDING_STRICT_MODE', 'false');
+    vi.stubEnv('OPENAI_API_KEY', '');
+
+    const [embedding] = await embedTexts(['배송 문의'], undefined, 'text-embedding-3-small');
+
+    expect(embedding).toHaveLength(1536);
+    expect(isDummyEmbedding(embedding)).toBe(true);
+  });
+});
+
+describe('isDummyEmbedding', () => {
+  // 실제 임베딩처럼 정규 분포를 따르는 벡터 (Box-Muller, 고정 시드)
+  function gaussianVector(dimension: number): number[] {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    return Array.from({ length: dimension }, () => {
+      return Math.sqrt(-2 * Math.log(random())) * Math.cos(2 * Math.PI * random());
+    });
+  }
+
+  it('정규 분포 벡터는 더미로 보지 않는다', () => {
+    expect(isDummyEmbedding(gaussianVector(1024))).toBe(false);
+  });
+
+  it('상수 벡터는 더미로 본다', () => {
+    expect(isDummyEmbedding(new Array(1024).fill(0))).toBe(true);
+  });
+
+  it('차원이 너무 작으면 판별하지 않는다', () => {
+    expect(isDummyEmbedding([0.1, 0.2, 0.3])).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * 가중치 기반 검색 결과 병합 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RRF_K,
+  normalizeWeight,
+  weightedReciprocalRankFusion,
+  mergeWeightedResults,
+  fuseQueryVariantResults,
+  describeScoreBreakdown,
+} from '@/lib/rag/fusion';
+import type { SearchResult } from '@/lib/rag/retrieval';
+
+function result(id: string, score: number, extra: Partial<SearchResult> = {}): SearchResult {
+  return {
+    id,
+    chunkId: id,
+    documentId: `doc-${id}`,
+    content: `content ${id}`,
+    score,
+    metadata: {},
+    source: 'dense',
+    ...extra,
+  };
+}
+
+describe('normalizeWeight', () => {
+  it('범위를 벗어나거나 잘못된 값을 보정한다', () => {
+    expect(normalizeWeight(undefined)).toBe(1);
+    expect(normalizeWeight(Number.NaN)).toBe(1);
+    expect(normalizeWeight(0)).toBe(0.1);
+    expect(normalizeWeight(50)).toBe(10);
+    expect(normalizeWeight(1.5)).toBe(1.5);
+  });
+});
+
+describe('weightedReciprocalRankFusion', () => {
+  it('가중치가 없으면 기존 RRF와 같은 점수를 낸다', () => {
+    const [top] = weightedReciprocalRankFusion(
+      [result('a', 0.9), result('b', 0.8)],
+      [result('a', 12, { source: 'sparse' })],
+      5
+    );
+
+    expect(top.id).toBe('a');
+    expect(top.source).toBe('hybrid');
+    expect(top.score).toBeCloseTo(2 / (RRF_K + 1));
+    expect(top.denseScore).toBe(0.9);
+    expect(top.scoreBreakdown).toMatchObject({
+      dense: { rank: 1, score: 0.9 },
+      sparse: { rank: 1, score: 12 },
+      datasetWeight: 1,
+    });
+  });
+
+  it('데이터셋 가중치로 순위가 바뀐다', () => {
+    const dense = [
+      result('a', 0.9, { datasetId: 'ds-1' }),
+      result('b', 0.8, { datasetId: 'ds-2' }),
+    ];
+
+    const fused = weightedReciprocalRankFusion(dense, [], 5, { 'ds-2': 2 });
+
+    expect(fused.map((r) => r.id)).toEqual(['b', 'a']);
+    expect(fused[0].scoreBreakdown?.datasetWeight).toBe(2);
+    expect(fused[0].score).toBeCloseTo(2 / (RRF_K + 2));
+  });
+
+  it('Sparse 전용 결과는 denseScore가 없다', () => {
+    const [only] = weightedReciprocalRankFusion([], [result('s', 3, { source: 'sparse' })], 5);
+    expect(only.denseScore).toBeUndefined();
+    expect(only.scoreBreakdown?.dense).toBeUndefined();
+  });
+});
+
+describe('mergeWeightedResults', () => {
+  it('소스 가중치를 병합 점수에 곱하고 구성에 기록한다', () => {
+    const chunks = weightedReciprocalRankFusion([result('c', 0.9)], [], 5);
+    const pages = [result('p', 0.7, { source: 'knowledge_page', pageId: 'p' })];
+
+    const merged = mergeWeightedResults(chunks, pages, 5, { knowledgePages: 1.5 });
+
+    expect(merged.map((r) => r.id)).toEqual(['p', 'c']);
+    expect(merged[0].scoreBreakdown).toMatchObject({
+      merge: { source: 'knowledge_page', rank: 1, sourceWeight: 1.5 },
+      final: merged[0].score,
+    });
+    // 청크 단계 구성은 유지된다
+    expect(merged[1].scoreBreakdown?.dense?.rank).toBe(1);
+  });
+
+  it('limit 개수만 반환한다', () => {
+    const merged = mergeWeightedResults([result('a', 1), result('b', 1)], [result('p', 1)], 2);
+    expect(merged).toHaveLength(2);
+  });
+});
+
+describe('fuseQueryVariantResults', () => {
+  it('여러 쿼리에서 공통으로 찾은 결과를 앞세운다', () => {
+    const fused = fuseQueryVariantResults(
+      [
+        [result('a', 0.03), result('b', 0.02)],
+        [result('b', 0.03), result('c', 0.02)],
+        [result('c', 0.03), result('b', 0.02)],
+      ],
+      5
+    );
+
+    expect(fused.map((r) => r.id)).toEqual(['b', 'c', 'a']);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1) + 1 / (RRF_K + 2));
+    expect(fused[0].scoreBreakdown?.multiQuery).toMatchObject({
+      queryCount: 3,
+      matchedQueries: 3,
+      bestRank: 1,
+    });
+  });
+
+  it('Dense 원본 점수는 가장 높은 값을 유지한다', () => {
+    const [top] = fuseQueryVariantResults(
+      [[result('a', 0.03, { denseScore: 0.6 })], [result('a', 0.03, { denseScore: 0.8 })]],
+      5
+    );
+
+    expect(top.denseScore).toBe(0.8);
+  });
+});
+
+describe('describeScoreBreakdown', () => {
+  it('점수 구성을 한 줄로 요약한다', () => {
+    const [fused] = weightedReciprocalRankFusion(
+      [result('a', 0.82, { datasetId: 'ds' })],
+      [result('x', 1), result('a', 1)],
+      5,
+      { ds: 1.5 }
+    );
+    const [merged] = mergeWeightedResults([fused], [], 5);
+
+    expect(describeScoreBreakdown(merged.scoreBreakdown!)).toBe(
+      'dense#1(0.82) + sparse#2 → ×1.5 dataset → chunk#1 ×1'
+    );
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * 답변 근거 검증 (Groundedness Guard) 테스트
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  checkGroundedness,
+  extractHighRiskClaims,
+  isClaimInContext,
+  parseClaimVerdicts,
+  resolveGroundednessGuardConfig,
+} from '@/lib/rag/groundedness';
+
+const CONTEXT = [
+  '프리미엄 요금제는 월 30,000원이며 연간 결제 시 20% 할인됩니다.',
+  '고객센터: 02-1234-5678 (평일 오전 9시 ~ 오후 6시), support@example.com',
+  '2024년 3월 5일부터 신규 요금제가 적용됩니다.',
+].join('\n');
+
+describe('extractHighRiskClaims', () => {
+  it('숫자, 연락처, 날짜/시간을 추출한다', () => {
+    const claims = extractHighRiskClaims(
+      '요금은 3만 원입니다. 문의는 02 1234 5678 또는 Support@Example.com으로 주세요. 3월 5일부터 오후 6시까지 접수합니다.'
+    );
+
+    expect(claims.map((c) => [c.type, c.value])).toEqual([
+      ['numeric', '30000원'],
+      ['contact', '0212345678'],
+      ['contact', 'support@example.com'],
+      ['date', '03-05'],
+      ['date', 't:18:00'],
+    ]);
+  });
+
+  it('단위 없는 작은 숫자와 출처 마커는 제외한다', () => {
+    const claims = extractHighRiskClaims('1. 로그인 후 2단계로 이동하세요 [1]');
+    expect(claims).toEqual([]);
+  });
+
+  it('주장이 포함된 문장을 함께 반환한다', () => {
+    const [claim] = extractHighRiskClaims('안녕하세요. 배송비는 3,000원입니다. 감사합니다.');
+    expect(claim.sentence).toBe('배송비는 3,000원입니다.');
+  });
+});
+
+describe('isClaimInContext', () => {
+  it('표기가 달라도 정규화 값이 같으면 근거로 본다', () => {
+    const [price, phone, date, time] = extractHighRiskClaims(
+      '월 3만원, 전화 02.1234.5678, 3월 5일, 18:00'
+    );
+
+    expect(isClaimInContext(price, CONTEXT)).toBe(true);
+    expect(isClaimInContext(phone, CONTEXT)).toBe(true);
+    expect(isClaimInContext(date, CONTEXT)).toBe(true);
+    expect(isClaimInContext(time, CONTEXT)).toBe(true);
+  });
+
+  it('컨텍스트에 없는 값은 근거로 보지 않는다', () => {
+    const [price, phone] = extractHighRiskClaims('월 25,000원, 전화 02-9999-0000');
+
+    expect(isClaimInContext(price, CONTEXT)).toBe(false);
+    expect(isClaimInContext(phone, CONTEXT)).toBe(false);
+  });
+});
+
+describe('checkGroundedness', () => {
+  it('모든 값이 컨텍스트에 있으면 LLM 없이 통과한다', async () => {
+    const verifier = vi.fn();
+    const result = await checkGroundedness('월 30,000원이고 20% 할인됩니다.', [CONTEXT], verifier);
+
+    expect(result.grounded).toBe(true);
+    expect(result.claims.every((c) => c.verifiedBy === 'regex')).toBe(true);
+    expect(verifier).not.toHaveBeenCalled();
+  });
+
+  it('정규식으로 찾지 못한 문장만 LLM으로 검증한다', async () => {
+    const verifier = vi.fn().mockResolvedValue([false]);
+    const result = await checkGroundedness(
+      '월 30,000원입니다. 해지 위약금은 50,000원입니다.',
+      [CONTEXT],
+      verifier
+    );
+
+    expect(verifier).toHaveBeenCalledWith(['해지 위약금은 50,000원입니다.'], CONTEXT);
+    expect(result.grounded).toBe(false);
+    expect(result.unsupportedClaims.map((c) => c.text)).toEqual(['50,000원']);
+  });
+
+  it('LLM이 지지하면 통과한다', async () => {
+    const verifier = vi.fn().mockResolvedValue([true]);
+    const result = await checkGroundedness('연간 요금은 288,000원입니다.', [CONTEXT], verifier);
+
+    expect(result.grounded).toBe(true);
+    expect(result.claims[0].verifiedBy).toBe('llm');
+  });
+
+  it('LLM 검증이 실패하면 통과 처리한다', async () => {
+    const verifier = vi.fn().mockResolvedValue(null);
+    const result = await checkGroundedness('위약금은 50,000원입니다.', [CONTEXT], verifier);
+
+    expect(result.grounded).toBe(true);
+    expect(result.verificationFailed).toBe(true);
+    expect(result.unsupportedClaims).toHaveLength(1);
+  });
+
+  it('검증 함수가 없으면 정규식 결과만으로 판정한다', async () => {
+    const result = await checkGroundedness('위약금은 50,000원입니다.', [CONTEXT]);
+    expect(result.grounded).toBe(false);
+  });
+});
+
+describe('parseClaimVerdicts', () => {
+  it('판정 배열을 파싱한다', () => {
+    expect(
+      parseClaimVerdicts('```json\n{"verdicts": ["supported", "contradicted"]}\n```', 2)
+    ).toEqual([true, false]);
+  });
+
+  it('개수가 다르거나 JSON이 아니면 null', () => {
+    expect(parseClaimVerdicts('{"verdicts": ["supported"]}', 2)).toBeNull();
+    expect(parseClaimVerdicts('판정 불가', 1)).toBeNull();
+  });
+});
+
+describe('resolveGroundednessGuardConfig', () => {
+  it('off이거나 설정이 없으면 null', () => {
+    expect(resolveGroundednessGuardConfig(undefined)).toBeNull();
+    expect(resolveGroundednessGuardConfig({ mode: 'off' })).toBeNull();
+  });
+
+  it('LLM 검증은 기본으로 켠다', () => {
+    expect(resolveGroundednessGuardConfig({ mode: 'regenerate' })).toEqual({
+      mode: 'regenerate',
+      llmVerification: true,
+    });
+  });
+});
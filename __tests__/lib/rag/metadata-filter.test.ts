@@ -0,0 +1,105 @@
+/**
+ * 검색 메타데이터 필터 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  metadataFilterSchema,
+  normalizeMetadataFilter,
+  resolveMetadataFilters,
+  buildMetadataFilterSql,
+} from '@/lib/rag/metadata-filter';
+
+const dialect = new PgDialect();
+
+function render(filters: Parameters<typeof buildMetadataFilterSql>[0]) {
+  return dialect.sqlToQuery(buildMetadataFilterSql(filters));
+}
+
+describe('metadataFilterSchema', () => {
+  it('유효한 필터를 허용한다', () => {
+    const result = metadataFilterSchema.safeParse({
+      filenames: ['가격표'],
+      dateRange: { from: '2026-01-01', to: '2026-12-31' },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('잘못된 날짜와 역전된 범위를 거부한다', () => {
+    expect(metadataFilterSchema.safeParse({ dateRange: { from: '2026-13-45' } }).success).toBe(
+      false
+    );
+    expect(
+      metadataFilterSchema.safeParse({ dateRange: { from: '2026-12-31', to: '2026-01-01' } })
+        .success
+    ).toBe(false);
+  });
+});
+
+describe('normalizeMetadataFilter', () => {
+  it('문서 유형을 소문자 확장자로 맞추고 중복/빈 값을 제거한다', () => {
+    expect(
+      normalizeMetadataFilter({ documentTypes: ['.PDF', 'pdf', ' docx '], tags: [' ', '요금'] })
+    ).toEqual({ documentTypes: ['pdf', 'docx'], tags: ['요금'] });
+  });
+
+  it('조건이 없으면 null', () => {
+    expect(normalizeMetadataFilter(undefined)).toBeNull();
+    expect(normalizeMetadataFilter({ tags: [], dateRange: {} })).toBeNull();
+  });
+
+  it('날짜 범위 기준 필드 기본값은 등록일', () => {
+    expect(normalizeMetadataFilter({ dateRange: { from: '2026-01-01' } })).toEqual({
+      dateRange: { field: 'createdAt', from: '2026-01-01' },
+    });
+  });
+});
+
+describe('resolveMetadataFilters', () => {
+  it('빈 필터를 제외하고 기본 필터와 요청 필터를 함께 반환한다', () => {
+    expect(
+      resolveMetadataFilters({ languages: ['KO'] }, null, { filenames: ['pricing'] })
+    ).toEqual([{ languages: ['ko'] }, { filenames: ['pricing'] }]);
+  });
+});
+
+describe('buildMetadataFilterSql', () => {
+  it('필터가 없으면 빈 조건', () => {
+    expect(render([]).sql).toBe('');
+  });
+
+  it('문서 조건을 EXISTS 서브쿼리로 만들고 값은 파라미터로 전달한다', () => {
+    const query = render([{ documentTypes: ['pdf', 'docx'], languages: ['ko'] }]);
+    expect(query.sql).toContain('AND EXISTS');
+    expect(query.sql).toContain('d.id = chunks.document_id');
+    expect(query.sql).toContain('lower(d.file_type) IN ($1, $2)');
+    expect(query.params).toEqual(['pdf', 'docx', 'ko']);
+  });
+
+  it('태그 any는 OR, all은 한 번에 포함 검사', () => {
+    const any = render([{ tags: ['요금', '2026'] }]);
+    expect(any.params).toEqual(['["요금"]', '["요금"]', '["2026"]', '["2026"]']);
+
+    const all = render([{ tags: ['요금', '2026'], tagMatch: 'all' }]);
+    expect(all.params).toEqual(['["요금","2026"]', '["요금","2026"]']);
+  });
+
+  it('날짜만 지정한 종료일은 그날 전체를 포함한다', () => {
+    const query = render([
+      { dateRange: { field: 'updatedAt', from: '2026-01-01', to: '2026-12-31' } },
+    ]);
+    expect(query.sql).toContain('d.updated_at >= $1::timestamptz');
+    expect(query.sql).toContain("d.updated_at < $2::date + interval '1 day'");
+  });
+
+  it('파일명 키워드의 LIKE 특수문자를 이스케이프한다', () => {
+    const query = render([{ filenames: ['100%_요금'] }]);
+    expect(query.params).toEqual(['%100\\%\\_요금%']);
+  });
+
+  it('여러 필터를 AND로 결합한다', () => {
+    const query = render([{ languages: ['ko'] }, { filenames: ['가격'] }]);
+    expect(query.sql).toMatch(/IN \(\$1\) AND \(d\.filename ILIKE \$2\)/);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * LLM 모델 체인 해석 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveModelChain,
+  validateModelSelection,
+  parseModelKey,
+  toModelKey,
+  DEFAULT_MODEL_CHAIN,
+  type ChatModelInfo,
+} from '@/lib/rag/model-chain';
+
+function model(
+  provider: ChatModelInfo['provider'],
+  modelId: string,
+  inputPricePerMillion: number,
+  isDefault = false
+): ChatModelInfo {
+  return {
+    provider,
+    modelId,
+    key: `${provider}:${modelId}`,
+    displayName: modelId,
+    inputPricePerMillion,
+    outputPricePerMillion: inputPricePerMillion * 4,
+    isDefault,
+  };
+}
+
+const MODELS: ChatModelInfo[] = [
+  model('google', 'gemini-2.5-flash-lite', 0.075, true),
+  model('openai', 'gpt-4o-mini', 0.15),
+  model('anthropic', 'claude-3-haiku-20240307', 0.25),
+  model('openai', 'gpt-4o', 2.5),
+];
+
+const keys = (chain: ReturnType<typeof resolveModelChain>) => chain.map(toModelKey);
+
+describe('parseModelKey', () => {
+  it('provider:modelId 형식을 파싱한다', () => {
+    expect(parseModelKey('anthropic:claude-3-haiku-20240307')).toEqual({
+      provider: 'anthropic',
+      modelId: 'claude-3-haiku-20240307',
+    });
+  });
+
+  it('알 수 없는 provider나 잘못된 형식은 null', () => {
+    expect(parseModelKey('mistral:large')).toBeNull();
+    expect(parseModelKey('gpt-4o-mini')).toBeNull();
+    expect(parseModelKey('openai:')).toBeNull();
+  });
+});
+
+describe('resolveModelChain', () => {
+  it('활성 모델이 없으면 기본 체인을 사용한다', () => {
+    expect(resolveModelChain({ model: 'openai:gpt-4o' }, [], 'business')).toBe(DEFAULT_MODEL_CHAIN);
+  });
+
+  it('선택이 없으면 기본 모델 → 시스템 폴백 순서', () => {
+    expect(keys(resolveModelChain(undefined, MODELS, 'pro'))).toEqual([
+      'google:gemini-2.5-flash-lite',
+      'openai:gpt-4o-mini',
+    ]);
+  });
+
+  it('메인 → 폴백 → 기본 모델 순서로 중복 없이 구성한다', () => {
+    const chain = resolveModelChain(
+      {
+        model: 'openai:gpt-4o',
+        fallbackModels: ['anthropic:claude-3-haiku-20240307', 'openai:gpt-4o'],
+      },
+      MODELS,
+      'business'
+    );
+
+    expect(keys(chain)).toEqual([
+      'openai:gpt-4o',
+      'anthropic:claude-3-haiku-20240307',
+      'google:gemini-2.5-flash-lite',
+      'openai:gpt-4o-mini',
+    ]);
+  });
+
+  it('free 티어는 선택을 무시하고 기본 체인만 사용한다', () => {
+    const chain = resolveModelChain({ model: 'anthropic:claude-3-haiku-20240307' }, MODELS, 'free');
+    expect(keys(chain)[0]).toBe('google:gemini-2.5-flash-lite');
+    expect(keys(chain)).not.toContain('anthropic:claude-3-haiku-20240307');
+  });
+
+  it('티어 단가 상한을 넘는 모델과 비활성 모델은 건너뛴다', () => {
+    const chain = resolveModelChain(
+      { model: 'openai:gpt-4o', fallbackModels: ['openai:removed-model'] },
+      MODELS,
+      'pro'
+    );
+    expect(keys(chain)).toEqual(['google:gemini-2.5-flash-lite', 'openai:gpt-4o-mini']);
+  });
+
+  it('티어 허용 개수를 넘는 폴백은 잘라낸다', () => {
+    const chain = resolveModelChain(
+      {
+        model: 'anthropic:claude-3-haiku-20240307',
+        fallbackModels: ['openai:gpt-4o-mini', 'openai:gpt-4o'],
+      },
+      MODELS,
+      'pro'
+    );
+    expect(keys(chain)).toEqual([
+      'anthropic:claude-3-haiku-20240307',
+      'openai:gpt-4o-mini',
+      'google:gemini-2.5-flash-lite',
+    ]);
+  });
+});
+
+describe('validateModelSelection', () => {
+  it('허용된 선택은 null을 반환한다', () => {
+    expect(
+      validateModelSelection(
+        { model: 'anthropic:claude-3-haiku-20240307', fallbackModels: ['openai:gpt-4o-mini'] },
+        MODELS,
+        'pro'
+      )
+    ).toBeNull();
+  });
+
+  it('기본 모델은 free 티어에서도 선택할 수 있다', () => {
+    expect(validateModelSelection({ model: 'google:gemini-2.5-flash-lite' }, MODELS, 'free')).toBeNull();
+  });
+
+  it('티어에서 허용되지 않는 모델을 거부한다', () => {
+    expect(validateModelSelection({ model: 'openai:gpt-4o' }, MODELS, 'pro')).toContain('gpt-4o');
+    expect(validateModelSelection({ model: 'openai:gpt-4o-mini' }, MODELS, 'free')).not.toBeNull();
+  });
+
+  it('폴백 개수 초과, 중복, 알 수 없는 모델을 거부한다', () => {
+    expect(
+      validateModelSelection(
+        { fallbackModels: ['openai:gpt-4o-mini', 'anthropic:claude-3-haiku-20240307'] },
+        MODELS,
+        'pro'
+      )
+    ).toContain('최대 1개');
+    expect(
+      validateModelSelection(
+        { model: 'openai:gpt-4o-mini', fallbackModels: ['openai:gpt-4o-mini'] },
+        MODELS,
+        'business'
+      )
+    ).toContain('중복');
+    expect(validateModelSelection({ model: 'openai:unknown' }, MODELS, 'business')).toContain(
+      '사용할 수 없는 모델'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Parent-Child 컨텍스트 확장 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveParentExpansionConfig,
+  joinChunkContents,
+  expandResultsToParents,
+  type SiblingChunk,
+} from '@/lib/rag/parent-window';
+import type { SearchResult } from '@/lib/rag/retrieval';
+
+// 테스트용 토큰 추정: 1글자 = 1토큰
+const countTokens = (text: string) => text.length;
+
+function result(id: string, extra: Partial<SearchResult> = {}): SearchResult {
+  return {
+    id,
+    chunkId: id,
+    documentId: 'doc-1',
+    content: `chunk-${id}`,
+    score: 1,
+    metadata: {},
+    source: 'hybrid',
+    ...extra,
+  };
+}
+
+function siblings(count: number, sectionOf: (index: number) => number | null = () => null) {
+  return Array.from({ length: count }, (_, i): SiblingChunk => ({
+    id: `c${i}`,
+    chunkIndex: i,
+    content: `chunk-c${i}`,
+    sectionIndex: sectionOf(i),
+  }));
+}
+
+describe('resolveParentExpansionConfig', () => {
+  it('off이거나 설정이 없으면 null을 반환한다', () => {
+    expect(resolveParentExpansionConfig(undefined)).toBeNull();
+    expect(resolveParentExpansionConfig({ mode: 'off', window: 3 })).toBeNull();
+  });
+
+  it('범위를 벗어난 값을 보정한다', () => {
+    expect(
+      resolveParentExpansionConfig({
+        mode: 'neighbors',
+        window: 99,
+        maxTokens: 10,
+      })
+    ).toEqual({
+      mode: 'neighbors',
+      window: 5,
+      maxTokens: 200,
+    });
+  });
+});
+
+describe('joinChunkContents', () => {
+  it('청킹 오버랩으로 중복된 문장은 한 번만 포함한다', () => {
+    expect(
+      joinChunkContents([
+        '첫 문장입니다. 겹치는 두 번째 문장입니다.',
+        '겹치는 두 번째 문장입니다. 세 번째 문장입니다.',
+      ])
+    ).toBe('첫 문장입니다. 겹치는 두 번째 문장입니다.\n세 번째 문장입니다.');
+  });
+
+  it('오버랩이 없으면 줄바꿈으로 잇는다', () => {
+    expect(joinChunkContents(['가나다', '라마바'])).toBe('가나다\n라마바');
+  });
+});
+
+describe('expandResultsToParents', () => {
+  const config = { mode: 'neighbors' as const, window: 1, maxTokens: 1000 };
+
+  it('neighbors 모드는 앞뒤 청크를 이어 붙인다', () => {
+    const [expanded] = expandResultsToParents(
+      [result('c2')],
+      new Map([['doc-1', siblings(5)]]),
+      config,
+      countTokens
+    );
+
+    expect(expanded.content).toBe('chunk-c1\nchunk-c2\nchunk-c3');
+    expect(expanded.metadata.parentExpansion).toMatchObject({
+      mode: 'neighbors',
+      chunkIds: ['c1', 'c2', 'c3'],
+      chunkIndexRange: [1, 3],
+      matchedChunkIds: ['c2'],
+    });
+  });
+
+  it('section 모드는 같은 섹션의 청크만 포함한다', () => {
+    const [expanded] = expandResultsToParents(
+      [result('c2')],
+      new Map([['doc-1', siblings(6, (i) => (i < 4 ? 0 : 1))]]),
+      { ...config, mode: 'section' },
+      countTokens
+    );
+
+    expect(expanded.metadata.parentExpansion).toMatchObject({
+      chunkIds: ['c0', 'c1', 'c2', 'c3'],
+    });
+  });
+
+  it('이미 확장된 부모에 포함된 청크는 중복 확장하지 않고 병합한다', () => {
+    const expanded = expandResultsToParents(
+      [result('c2'), result('c3'), result('c9', { documentId: 'doc-2' })],
+      new Map([['doc-1', siblings(5)]]),
+      config,
+      countTokens
+    );
+
+    expect(expanded.map((r) => r.id)).toEqual(['c2', 'c9']);
+    expect(expanded[0].metadata.parentExpansion).toMatchObject({
+      matchedChunkIds: ['c2', 'c3'],
+    });
+    // 부모 후보가 없는 결과는 그대로 유지
+    expect(expanded[1].content).toBe('chunk-c9');
+  });
+
+  it('토큰 예산 안에서만 확장하고 뒤 순위 결과 몫을 남겨둔다', () => {
+    const expanded = expandResultsToParents(
+      [result('c2'), result('x', { documentId: 'doc-2' })],
+      new Map([['doc-1', siblings(5)]]),
+      // chunk-c2(8) + 다음 청크 1개(8) + 뒤 순위 결과(7) = 23
+      { ...config, window: 2, maxTokens: 23 },
+      countTokens
+    );
+
+    expect(expanded[0].metadata.parentExpansion).toMatchObject({
+      chunkIds: ['c2', 'c3'],
+    });
+    expect(expanded[1].content).toBe('chunk-x');
+  });
+
+  it('Knowledge Page 결과는 확장하지 않는다', () => {
+    const page = result('p1', { pageId: 'p1', source: 'knowledge_page' });
+    const [expanded] = expandResultsToParents([page], new Map(), config, countTokens);
+    expect(expanded).toBe(page);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * 시스템 프롬프트 합성 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { composeSystemPrompt, MAX_CUSTOM_PROMPT_LENGTH } from '@/lib/rag/prompt-composer';
+
+describe('composeSystemPrompt', () => {
+  it('설정이 없으면 채널 기본 규칙과 안전 규칙만 포함한다', () => {
+    const { prompt, sections } = composeSystemPrompt({ channel: 'web', isFirstTurn: true });
+
+    expect(sections.map((s) => s.id)).toEqual(['channel', 'turn', 'guardrails']);
+    expect(prompt).toContain('첫 질문 응답 가이드');
+    expect(prompt).not.toContain('## 우선순위');
+  });
+
+  it('후속 턴에는 후속 질문 가이드를 사용한다', () => {
+    const { prompt } = composeSystemPrompt({ channel: 'public_page', isFirstTurn: false });
+
+    expect(prompt).toContain('후속 질문 응답 가이드');
+    expect(prompt).not.toContain('첫 질문 응답 가이드');
+  });
+
+  it('카카오 채널은 턴별 가이드 없이 300자 제한을 안전 규칙에 넣는다', () => {
+    const { prompt, sections } = composeSystemPrompt({ channel: 'kakao', isFirstTurn: true });
+
+    expect(sections.map((s) => s.id)).toEqual(['channel', 'guardrails']);
+    expect(prompt).toContain('카카오톡');
+    expect(sections.find((s) => s.id === 'guardrails')?.content).toContain('300자');
+  });
+
+  it('페르소나 → 운영자 지침 → 우선순위 → 안전 규칙 순으로 배치한다', () => {
+    const { prompt, sections } = composeSystemPrompt({
+      channel: 'web',
+      isFirstTurn: true,
+      customSystemPrompt: '항상 영업시간을 함께 안내하세요.',
+      persona: { name: '소파봇', expertiseArea: '가구', tone: 'professional' },
+    });
+
+    expect(sections.map((s) => s.id)).toEqual(['channel', 'turn', 'persona', 'custom', 'guardrails']);
+
+    const personaIndex = prompt.indexOf('## 페르소나');
+    const customIndex = prompt.indexOf('## 운영자 지침');
+    const priorityIndex = prompt.indexOf('## 우선순위');
+    const guardrailIndex = prompt.indexOf('## 안전 규칙');
+    expect(personaIndex).toBeGreaterThan(0);
+    expect(customIndex).toBeGreaterThan(personaIndex);
+    expect(priorityIndex).toBeGreaterThan(customIndex);
+    expect(guardrailIndex).toBeGreaterThan(priorityIndex);
+    expect(prompt).toContain('"소파봇"');
+  });
+
+  it('공백뿐인 커스텀 프롬프트와 빈 페르소나는 생략한다', () => {
+    const { sections } = composeSystemPrompt({
+      channel: 'web',
+      isFirstTurn: true,
+      customSystemPrompt: '   ',
+      persona: { name: ' ', expertiseArea: '' },
+    });
+
+    expect(sections.some((s) => s.id === 'custom')).toBe(false);
+    expect(sections.some((s) => s.id === 'persona')).toBe(false);
+  });
+
+  it('제외 주제는 안전 규칙에 포함된다', () => {
+    const { sections } = composeSystemPrompt({
+      channel: 'web',
+      isFirstTurn: true,
+      persona: { excludedTopics: ['가격 협상', ' '] },
+    });
+
+    const guardrails = sections.find((s) => s.id === 'guardrails')?.content ?? '';
+    expect(guardrails).toContain('가격 협상');
+    expect(guardrails).not.toMatch(/가격 협상, $/);
+  });
+
+  it('커스텀 프롬프트는 최대 길이로 잘라낸다', () => {
+    const { sections } = composeSystemPrompt({
+      channel: 'web',
+      isFirstTurn: true,
+      customSystemPrompt: 'a'.repeat(MAX_CUSTOM_PROMPT_LENGTH + 100),
+    });
+
+    expect(sections.find((s) => s.id === 'custom')?.content).toHaveLength(MAX_CUSTOM_PROMPT_LENGTH);
+  });
+
+  it('출처 표기 모드는 턴별 가이드 뒤에 출처 표기 섹션을 추가한다', () => {
+    const { prompt, sections } = composeSystemPrompt({
+      channel: 'web',
+      isFirstTurn: true,
+      inlineCitations: true,
+    });
+
+    expect(sections.map((s) => s.id)).toEqual(['channel', 'turn', 'citations', 'guardrails']);
+    expect(prompt).toContain('## 출처 표기');
+  });
+
+  it('카카오 채널은 출처 표기 모드를 적용하지 않는다', () => {
+    const { sections } = composeSystemPrompt({
+      channel: 'kakao',
+      isFirstTurn: true,
+      inlineCitations: true,
+    });
+
+    expect(sections.map((s) => s.id)).not.toContain('citations');
+  });
+});
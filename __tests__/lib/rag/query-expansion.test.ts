@@ -0,0 +1,105 @@
+/**
+ * Query Expansion 전략 테스트
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_QUERY_VARIANT_COUNT,
+  parseQueryVariants,
+  resolveQueryExpansionConfig,
+  searchWithQueryExpansion,
+} from '@/lib/rag/query-expansion';
+import type { SearchResult } from '@/lib/rag/retrieval';
+
+function result(id: string): SearchResult {
+  return {
+    id,
+    chunkId: id,
+    documentId: 'doc-1',
+    content: `content ${id}`,
+    score: 0.03,
+    metadata: {},
+    source: 'hybrid',
+  };
+}
+
+describe('resolveQueryExpansionConfig', () => {
+  it('none이거나 설정이 없으면 null', () => {
+    expect(resolveQueryExpansionConfig(undefined)).toBeNull();
+    expect(resolveQueryExpansionConfig({ strategy: 'none' })).toBeNull();
+  });
+
+  it('표현 수를 허용 범위로 보정한다', () => {
+    expect(resolveQueryExpansionConfig({ strategy: 'multi_query' })?.queryCount).toBe(3);
+    expect(
+      resolveQueryExpansionConfig({ strategy: 'multi_query', queryCount: 0 })?.queryCount
+    ).toBe(1);
+    expect(
+      resolveQueryExpansionConfig({ strategy: 'multi_query', queryCount: 20 })?.queryCount
+    ).toBe(MAX_QUERY_VARIANT_COUNT);
+  });
+});
+
+describe('parseQueryVariants', () => {
+  it('번호와 인용부호를 제거하고 원래 쿼리와 중복은 제외한다', () => {
+    const response = [
+      '1. "환불 규정이 어떻게 되나요"',
+      '2) 반품 후 환불 기간',
+      '- 환불  정책 알려줘',
+      '',
+      '• 반품 후 환불 기간',
+    ].join('\n');
+
+    expect(parseQueryVariants(response, '환불 정책 알려줘', 5)).toEqual([
+      '환불 규정이 어떻게 되나요',
+      '반품 후 환불 기간',
+    ]);
+  });
+
+  it('요청한 수만큼만 반환하고 지나치게 긴 줄은 버린다', () => {
+    const response = ['x'.repeat(100), '배송 요금 안내', '택배비', '배송비 할인'].join('\n');
+
+    expect(parseQueryVariants(response, '배송비 얼마', 2)).toEqual(['배송 요금 안내', '택배비']);
+    expect(parseQueryVariants('x'.repeat(100), '배송비 얼마', 2)).toEqual([]);
+  });
+});
+
+describe('searchWithQueryExpansion', () => {
+  it('none이면 원래 쿼리로 한 번만 검색한다', async () => {
+    const search = vi.fn().mockResolvedValue([result('a')]);
+
+    await searchWithQueryExpansion({ strategy: 'none', queries: ['q'] }, search, 5);
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(search).toHaveBeenCalledWith('q');
+  });
+
+  it('hyde는 가상 답변을 Dense 쿼리로 전달한다', async () => {
+    const search = vi.fn().mockResolvedValue([result('a')]);
+
+    await searchWithQueryExpansion(
+      { strategy: 'hyde', queries: ['q'], hypotheticalAnswer: '가상 답변' },
+      search,
+      5
+    );
+
+    expect(search).toHaveBeenCalledWith('q', '가상 답변');
+  });
+
+  it('multi_query는 표현별로 검색하고 RRF로 병합한다', async () => {
+    const lists: Record<string, SearchResult[]> = {
+      q: [result('a'), result('b')],
+      q2: [result('b'), result('c')],
+    };
+    const search = vi.fn(async (query: string) => lists[query]);
+
+    const results = await searchWithQueryExpansion(
+      { strategy: 'multi_query', queries: ['q', 'q2'] },
+      search,
+      2
+    );
+
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(results.map((r) => r.id)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Re-ranker 선택 및 Cross-Encoder Re-ranking 테스트
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('@/lib/usage/token-tracker', () => ({
+  trackTokenUsage: vi.fn(),
+}));
+
+import { getReranker, shouldRerank } from '@/lib/rag/reranker';
+import { rerankWithCrossEncoder } from '@/lib/rag/cross-encoder-reranker';
+import type { SearchResult } from '@/lib/rag/retrieval';
+
+function result(id: string, denseScore: number): SearchResult {
+  return {
+    id,
+    chunkId: id,
+    documentId: 'doc-1',
+    content: `content ${id}`,
+    score: denseScore,
+    denseScore,
+    metadata: {},
+    source: 'hybrid',
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('getReranker', () => {
+  it('RERANKER_API_URL이 있으면 cross_encoder를 사용한다', () => {
+    vi.stubEnv('RERANKER_BACKEND', '');
+    vi.stubEnv('RERANKER_API_URL', 'http://reranker:8001');
+    expect(getReranker().type).toBe('cross_encoder');
+  });
+
+  it('RERANKER_BACKEND=llm이면 서버 설정과 무관하게 llm을 사용한다', () => {
+    vi.stubEnv('RERANKER_BACKEND', 'llm');
+    vi.stubEnv('RERANKER_API_URL', 'http://reranker:8001');
+    expect(getReranker().type).toBe('llm');
+  });
+
+  it('cross_encoder를 요청했지만 서버가 없으면 llm으로 폴백한다', () => {
+    vi.stubEnv('RERANKER_BACKEND', 'cross_encoder');
+    vi.stubEnv('RERANKER_API_URL', '');
+    expect(getReranker().type).toBe('llm');
+  });
+});
+
+describe('shouldRerank', () => {
+  const distributed = [0.95, 0.8, 0.6, 0.5, 0.4].map((s, i) => result(`c${i}`, s));
+
+  it('결과가 3개 이하면 실행하지 않는다', () => {
+    expect(shouldRerank(distributed.slice(0, 3), 0.7, 'cross_encoder')).toEqual({
+      rerank: false,
+      reranker: 'cross_encoder',
+      reason: 'few_results',
+    });
+  });
+
+  it('llm은 점수가 잘 분산되어 있으면 건너뛴다', () => {
+    expect(shouldRerank(distributed, 0.7, 'llm')).toMatchObject({
+      rerank: false,
+      reason: 'well_distributed',
+    });
+  });
+
+  it('llm은 상위 점수가 낮거나 점수 차이가 작으면 실행한다', () => {
+    const low = [0.5, 0.4, 0.3, 0.2].map((s, i) => result(`c${i}`, s));
+    const flat = [0.9, 0.88, 0.87, 0.86].map((s, i) => result(`c${i}`, s));
+    expect(shouldRerank(low, 0.7, 'llm').reason).toBe('low_top_score');
+    expect(shouldRerank(flat, 0.7, 'llm').reason).toBe('flat_scores');
+  });
+
+  it('cross_encoder는 비용이 낮아 항상 실행한다', () => {
+    expect(shouldRerank(distributed, 0.7, 'cross_encoder')).toEqual({
+      rerank: true,
+      reranker: 'cross_encoder',
+      reason: 'low_cost_reranker',
+    });
+  });
+});
+
+describe('rerankWithCrossEncoder', () => {
+  const results = [0.9, 0.8, 0.7, 0.6].map((s, i) => result(`c${i}`, s));
+
+  it('서버 점수 순으로 재정렬하고 원본 점수를 보존한다', async () => {
+    vi.stubEnv('RERANKER_API_URL', 'http://reranker:8001');
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ scores: [0.1, 0.9, 0.3, 0.7] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const reranked = await rerankWithCrossEncoder('질문', results, { topK: 2 });
+
+    expect(fetchMock).toHaveBeenCalledWith('http://reranker:8001/rerank', expect.any(Object));
+    expect(reranked.reranker).toBe('cross_encoder');
+    expect(reranked.failed).toBeUndefined();
+    expect(reranked.results.map((r) => r.chunkId)).toEqual(['c1', 'c3']);
+    expect(reranked.results[0].metadata).toMatchObject({ rerankScore: 0.9, originalScore: 0.8 });
+  });
+
+  it('서버 오류 시 원본 상위 결과를 failed로 반환한다', async () => {
+    vi.stubEnv('RERANKER_API_URL', 'http://reranker:8001');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+
+    const reranked = await rerankWithCrossEncoder('질문', results, { topK: 2 });
+
+    expect(reranked.failed).toBe(true);
+    expect(reranked.results.map((r) => r.chunkId)).toEqual(['c0', 'c1']);
+  });
+
+  it('점수 개수가 맞지 않으면 실패로 처리한다', async () => {
+    vi.stubEnv('RERANKER_API_URL', 'http://reranker:8001');
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: true, json: async () => ({ scores: [0.5] }) })
+    );
+
+    const reranked = await rerankWithCrossEncoder('질문', results, { topK: 2 });
+
+    expect(reranked.failed).toBe(true);
+  });
+});
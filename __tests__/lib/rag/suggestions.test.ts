@@ -0,0 +1,68 @@
+/**
+ * 후속 질문 제안 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSuggestionPrompt, parseSuggestions } from '@/lib/rag/suggestions';
+
+describe('parseSuggestions', () => {
+  it('번호, 글머리표, 따옴표를 제거한다', () => {
+    const raw = '1. 배송비는 얼마인가요?\n- "교환 신청은 어떻게 하나요?"\n• 반품 기간은 언제까지인가요?';
+    expect(parseSuggestions(raw, '환불 규정 알려줘')).toEqual([
+      '배송비는 얼마인가요?',
+      '교환 신청은 어떻게 하나요?',
+      '반품 기간은 언제까지인가요?',
+    ]);
+  });
+
+  it('현재 질문과 같거나 중복된 질문은 제외하고 최대 3개만 반환한다', () => {
+    const raw = [
+      '환불 규정 알려줘?',
+      '배송비는 얼마인가요?',
+      '배송비는 얼마 인가요',
+      '교환은 가능한가요?',
+      '반품 주소는 어디인가요?',
+      '영업시간은 언제인가요?',
+    ].join('\n');
+    expect(parseSuggestions(raw, '환불 규정 알려줘')).toEqual([
+      '배송비는 얼마인가요?',
+      '교환은 가능한가요?',
+      '반품 주소는 어디인가요?',
+    ]);
+  });
+
+  it('유효한 질문이 2개 미만이면 빈 배열', () => {
+    expect(parseSuggestions('배송비는 얼마인가요?\n\n네', '환불 규정')).toEqual([]);
+    expect(parseSuggestions('', '환불 규정')).toEqual([]);
+  });
+
+  it('너무 긴 줄은 제외한다', () => {
+    const long = '가'.repeat(61);
+    expect(parseSuggestions(`${long}\n배송비는?\n교환 방법은?`, '환불')).toEqual([
+      '배송비는?',
+      '교환 방법은?',
+    ]);
+  });
+});
+
+describe('buildSuggestionPrompt', () => {
+  it('참고 문서, 관련 페이지, 질문과 답변을 포함한다', () => {
+    const prompt = buildSuggestionPrompt(
+      '환불 규정 알려줘',
+      '구매 후 7일 이내 환불 가능합니다.',
+      [{ title: '환불 정책', content: '구매 후 7일 이내 환불' }, { content: '배송비 3000원' }],
+      ['교환 안내', '배송 안내']
+    );
+    expect(prompt).toContain('[1] 환불 정책\n구매 후 7일 이내 환불');
+    expect(prompt).toContain('[2] 배송비 3000원');
+    expect(prompt).toContain('[관련 페이지]\n- 교환 안내\n- 배송 안내');
+    expect(prompt).toContain('[사용자 질문]\n환불 규정 알려줘');
+    expect(prompt).toContain('[답변]\n구매 후 7일 이내 환불 가능합니다.');
+  });
+
+  it('관련 페이지가 없으면 섹션을 생략한다', () => {
+    expect(buildSuggestionPrompt('질문', '답변', [{ content: '내용' }])).not.toContain(
+      '[관련 페이지]'
+    );
+  });
+});
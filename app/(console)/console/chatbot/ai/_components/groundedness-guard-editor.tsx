@@ -0,0 +1,69 @@
+'use client';
+
+/**
+ * 답변 근거 검증 편집
+ *
+ * 답변을 보내기 전에 가격, 연락처, 날짜 같은 값이 참고 문서에 있는지 확인하고,
+ * 근거가 없으면 답변을 다시 만들거나 "정보를 찾지 못했어요" 응답으로 대체하도록 설정합니다.
+ */
+
+import type { GroundednessGuardMode } from '@/lib/rag/groundedness';
+
+export interface GroundednessGuardSettings {
+  mode: GroundednessGuardMode;
+  llmVerification: boolean;
+}
+
+export const DEFAULT_GROUNDEDNESS_GUARD: GroundednessGuardSettings = {
+  mode: 'off',
+  llmVerification: true,
+};
+
+interface GroundednessGuardEditorProps {
+  value: GroundednessGuardSettings;
+  onChange: (value: GroundednessGuardSettings) => void;
+}
+
+const MODE_DESCRIPTIONS: Record<GroundednessGuardMode, string> = {
+  off: '답변을 검증하지 않고 바로 보냅니다.',
+  regenerate:
+    '근거 없는 값이 있으면 답변을 한 번 다시 만들고, 그래도 확인되지 않으면 정보 없음 응답을 보냅니다.',
+  fallback: '근거 없는 값이 있으면 바로 정보 없음 응답을 보냅니다.',
+};
+
+export function GroundednessGuardEditor({ value, onChange }: GroundednessGuardEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <select
+          value={value.mode}
+          onChange={(e) => onChange({ ...value, mode: e.target.value as GroundednessGuardMode })}
+          className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground"
+        >
+          <option value="off">사용 안 함</option>
+          <option value="regenerate">재생성 후 대체</option>
+          <option value="fallback">바로 대체</option>
+        </select>
+        <p className="mt-1 text-xs text-muted-foreground">{MODE_DESCRIPTIONS[value.mode]}</p>
+      </div>
+
+      {value.mode !== 'off' && (
+        <label className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={value.llmVerification}
+            onChange={(e) => onChange({ ...value, llmVerification: e.target.checked })}
+            className="mt-0.5 accent-primary"
+          />
+          <span>
+            <span className="text-sm text-foreground">AI로 한 번 더 확인</span>
+            <span className="block text-xs text-muted-foreground">
+              문서에서 같은 값을 찾지 못하면(예: 표기가 다른 경우) AI가 근거를 다시 확인합니다. 끄면
+              문서에 없는 값은 바로 근거 없음으로 처리합니다
+            </span>
+          </span>
+        </label>
+      )}
+    </div>
+  );
+}
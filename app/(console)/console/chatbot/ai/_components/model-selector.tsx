@@ -0,0 +1,178 @@
+'use client';
+
+/**
+ * LLM 모델 선택
+ *
+ * 메인 모델과 폴백 모델 순서를 선택합니다.
+ * 현재 플랜에서 사용할 수 없는 모델은 비활성화되어 표시됩니다.
+ */
+
+import { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Radix Select는 빈 문자열 값을 허용하지 않으므로 기본 모델을 별도 값으로 표현
+const DEFAULT_MODEL_VALUE = '__default__';
+
+interface ModelOption {
+  key: string;
+  displayName: string;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  isDefault: boolean;
+  allowed: boolean;
+}
+
+interface ModelsResponse {
+  models: ModelOption[];
+  limits: {
+    customModelSelection: boolean;
+    maxFallbackModels: number;
+  };
+}
+
+interface ModelSelectorProps {
+  model: string | null;
+  fallbackModels: string[];
+  onChange: (value: { model: string | null; fallbackModels: string[] }) => void;
+}
+
+function formatPrice(model: ModelOption): string {
+  return `$${model.inputPricePerMillion} / $${model.outputPricePerMillion} (1M 토큰)`;
+}
+
+export function ModelSelector({ model, fallbackModels, onChange }: ModelSelectorProps) {
+  const [data, setData] = useState<ModelsResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/chatbots/models')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result: ModelsResponse | null) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((error) => console.error('모델 목록 로드 오류:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!data || data.models.length === 0) {
+    return null;
+  }
+
+  const { models, limits } = data;
+  const defaultModel = models.find((m) => m.isDefault);
+  const canSelect = limits.customModelSelection;
+
+  const renderOptions = (excluded: string[]) =>
+    models
+      .filter((m) => !excluded.includes(m.key))
+      .map((m) => (
+        <SelectItem key={m.key} value={m.key} disabled={!m.allowed}>
+          {m.displayName}
+          <span className="ml-2 text-xs text-muted-foreground">{formatPrice(m)}</span>
+        </SelectItem>
+      ));
+
+  const updateFallback = (index: number, value: string) => {
+    const next = [...fallbackModels];
+    next[index] = value;
+    onChange({ model, fallbackModels: next });
+  };
+
+  const removeFallback = (index: number) => {
+    onChange({ model, fallbackModels: fallbackModels.filter((_, i) => i !== index) });
+  };
+
+  const addFallback = () => {
+    const used = [model, ...fallbackModels];
+    const candidate = models.find((m) => m.allowed && !used.includes(m.key));
+    if (candidate) {
+      onChange({ model, fallbackModels: [...fallbackModels, candidate.key] });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="mb-2 block text-sm font-medium text-foreground">응답 모델</label>
+        <Select
+          value={model ?? DEFAULT_MODEL_VALUE}
+          onValueChange={(value) =>
+            onChange({
+              model: value === DEFAULT_MODEL_VALUE ? null : value,
+              fallbackModels: fallbackModels.filter((key) => key !== value),
+            })
+          }
+          disabled={!canSelect}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_MODEL_VALUE}>
+              기본 모델{defaultModel ? ` (${defaultModel.displayName})` : ''}
+            </SelectItem>
+            {renderOptions([])}
+          </SelectContent>
+        </Select>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {canSelect
+            ? '모델 장애 시 아래 폴백 모델을 순서대로 사용하고, 마지막으로 기본 모델을 사용합니다'
+            : '현재 플랜에서는 기본 모델만 사용할 수 있습니다'}
+        </p>
+      </div>
+
+      {canSelect && limits.maxFallbackModels > 0 && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-foreground">
+            폴백 모델
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              최대 {limits.maxFallbackModels}개
+            </span>
+          </label>
+          {fallbackModels.map((key, index) => (
+            <div key={`${key}-${index}`} className="flex items-center gap-2">
+              <span className="w-5 text-xs text-muted-foreground">{index + 1}</span>
+              <Select value={key} onValueChange={(value) => updateFallback(index, value)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {renderOptions(
+                    [model, ...fallbackModels.filter((_, i) => i !== index)].filter(
+                      (k): k is string => !!k
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeFallback(index)}
+                aria-label="폴백 모델 제거"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {fallbackModels.length < limits.maxFallbackModels && (
+            <Button type="button" variant="outline" size="sm" onClick={addFallback}>
+              <Plus className="mr-1 h-4 w-4" />
+              폴백 모델 추가
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+/**
+ * Parent-Child 확장 편집
+ *
+ * 검색은 작은 청크로 정확하게 매칭하고, 답변 생성에는 매칭된 청크가 속한 섹션이나
+ * 앞뒤 청크를 함께 전달하도록 설정합니다. 토큰 예산을 넘지 않는 범위에서만 확장합니다.
+ */
+
+import {
+  DEFAULT_PARENT_MAX_TOKENS,
+  DEFAULT_PARENT_WINDOW,
+  MAX_PARENT_MAX_TOKENS,
+  MAX_PARENT_WINDOW,
+  MIN_PARENT_MAX_TOKENS,
+  type ParentExpansionMode,
+} from '@/lib/rag/parent-window';
+
+export interface ParentExpansionSettings {
+  mode: ParentExpansionMode;
+  window: number;
+  maxTokens: number;
+}
+
+export const DEFAULT_PARENT_EXPANSION: ParentExpansionSettings = {
+  mode: 'off',
+  window: DEFAULT_PARENT_WINDOW,
+  maxTokens: DEFAULT_PARENT_MAX_TOKENS,
+};
+
+interface ParentExpansionEditorProps {
+  value: ParentExpansionSettings;
+  onChange: (value: ParentExpansionSettings) => void;
+}
+
+const MODE_DESCRIPTIONS: Record<ParentExpansionMode, string> = {
+  off: '검색된 청크만 답변 생성에 사용합니다.',
+  neighbors: '검색된 청크의 앞뒤 청크를 이어 붙여 전달합니다.',
+  section:
+    '검색된 청크가 속한 섹션(제목 단위, Q&A 쌍 등)을 전달합니다. 섹션 정보가 없는 문서는 앞뒤 청크를 사용합니다.',
+};
+
+export function ParentExpansionEditor({ value, onChange }: ParentExpansionEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <select
+          value={value.mode}
+          onChange={(e) => onChange({ ...value, mode: e.target.value as ParentExpansionMode })}
+          className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground"
+        >
+          <option value="off">사용 안 함</option>
+          <option value="neighbors">앞뒤 청크</option>
+          <option value="section">섹션 전체</option>
+        </select>
+        <p className="mt-1 text-xs text-muted-foreground">{MODE_DESCRIPTIONS[value.mode]}</p>
+      </div>
+
+      {value.mode === 'neighbors' && (
+        <div>
+          <div className="mb-1 flex items-center justify-between">
+            <span className="text-sm text-foreground">앞뒤 청크 수</span>
+            <span className="text-sm text-muted-foreground">±{value.window}</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max={MAX_PARENT_WINDOW}
+            step="1"
+            value={value.window}
+            onChange={(e) => onChange({ ...value, window: parseInt(e.target.value) })}
+            className="w-full accent-primary"
+          />
+        </div>
+      )}
+
+      {value.mode !== 'off' && (
+        <div>
+          <div className="mb-1 flex items-center justify-between">
+            <span className="text-sm text-foreground">컨텍스트 토큰 예산</span>
+            <span className="text-sm text-muted-foreground">
+              {value.maxTokens.toLocaleString()}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={MIN_PARENT_MAX_TOKENS}
+            max={MAX_PARENT_MAX_TOKENS}
+            step="100"
+            value={value.maxTokens}
+            onChange={(e) => onChange({ ...value, maxTokens: parseInt(e.target.value) })}
+            className="w-full accent-primary"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            모든 참고 자료를 합친 최대 토큰 수입니다. 상위 결과부터 예산 안에서만 확장합니다.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
  * Phase 5: 품질 대시보드 카드
  *
  * 청킹 전략별 품질 메트릭과 A/B 테스트 결과를 시각화합니다.
+ * 사용자 피드백(좋아요/싫어요) 기반 만족도도 함께 표시합니다.
  *
  * @see docs/testplans/phase5-ab-test-quality-validation.md
  */
@@ -27,12 +28,17 @@ import {
   CheckCircle2,
   AlertCircle,
   Clock,
+  ThumbsUp,
+  ThumbsDown,
+  Zap,
 } from 'lucide-react';
 import type {
   QualityMetricsResponse,
   QualityMetrics,
   ABTestResult,
   ABTestRecommendation,
+  SatisfactionMetrics,
+  CacheHitMetrics,
 } from '@/types/experiment';
 import {
   QUALITY_GRADE_LABELS,
@@ -164,6 +170,12 @@ export function QualityDashboardCard({ chatbotId }: QualityDashboardCardProps) {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* 사용자 만족도 */}
+        <SatisfactionSection satisfaction={data.satisfaction} />
+
+        {/* 응답 캐시 히트율 */}
+        <CacheHitSection cache={data.cache} />
+
         {/* A/B 테스트 결과 (있는 경우) */}
         {data.abTestResult && (
           <ABTestResultSection result={data.abTestResult} />
@@ -186,6 +198,86 @@ export function QualityDashboardCard({ chatbotId }: QualityDashboardCardProps) {
   );
 }
 
+/**
+ * 사용자 만족도 섹션 (좋아요/싫어요 피드백)
+ */
+function SatisfactionSection({ satisfaction }: { satisfaction?: SatisfactionMetrics }) {
+  if (!satisfaction || satisfaction.total === 0) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-3">
+        <h4 className="text-sm font-medium text-foreground">사용자 만족도</h4>
+        <p className="mt-1 text-xs text-muted-foreground">아직 답변 피드백이 없습니다</p>
+      </div>
+    );
+  }
+
+  const ratePercent = Math.round((satisfaction.satisfactionRate ?? 0) * 100);
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-foreground">사용자 만족도</h4>
+        <span className="text-lg font-bold text-foreground">{ratePercent}%</span>
+      </div>
+      <div className="mt-2 flex h-2 overflow-hidden rounded-full bg-muted">
+        <div className="bg-green-500" style={{ width: `${ratePercent}%` }} />
+        <div className="bg-destructive" style={{ width: `${100 - ratePercent}%` }} />
+      </div>
+      <div className="mt-2 flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <ThumbsUp className="h-3 w-3 text-green-500" />
+          {satisfaction.up}
+        </span>
+        <span className="flex items-center gap-1">
+          <ThumbsDown className="h-3 w-3 text-destructive" />
+          {satisfaction.down}
+        </span>
+        <span>총 {satisfaction.total}건</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 응답 캐시 히트율 섹션
+ */
+function CacheHitSection({ cache }: { cache?: CacheHitMetrics }) {
+  if (!cache || cache.requestCount === 0) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-3">
+        <h4 className="text-sm font-medium text-foreground">응답 캐시</h4>
+        <p className="mt-1 text-xs text-muted-foreground">아직 응답 기록이 없습니다</p>
+      </div>
+    );
+  }
+
+  const ratePercent = Math.round((cache.hitRate ?? 0) * 100);
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-3">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-1 text-sm font-medium text-foreground">
+          <Zap className="h-4 w-4 text-yellow-500" />
+          응답 캐시 히트율
+        </h4>
+        <span className="text-lg font-bold text-foreground">{ratePercent}%</span>
+      </div>
+      <div className="mt-2 h-2 overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-yellow-500" style={{ width: `${ratePercent}%` }} />
+      </div>
+      <div className="mt-2 flex items-center gap-4 text-xs text-muted-foreground">
+        <span>
+          {cache.hitCount} / {cache.requestCount}건 캐시 응답
+        </span>
+        <span>저장된 캐시 {cache.activeEntries}개</span>
+      </div>
+      <p className="mt-1 text-xs text-muted-foreground">
+        문서·블로그가 변경되면 캐시가 자동으로 초기화됩니다
+      </p>
+    </div>
+  );
+}
+
 /**
  * A/B 테스트 결과 섹션
  */
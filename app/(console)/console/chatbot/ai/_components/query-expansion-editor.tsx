@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * 쿼리 확장 편집
+ *
+ * 재작성된 검색 쿼리 하나로 검색하는 대신 여러 표현으로 검색하거나(Multi-Query),
+ * 가상 답변을 만들어 의미 검색에 사용(HyDE)하도록 설정합니다.
+ * 질문마다 LLM 호출이 한 번 추가되므로 평가 리포트로 효과를 확인한 뒤 사용하세요.
+ */
+
+import {
+  DEFAULT_QUERY_VARIANT_COUNT,
+  MAX_QUERY_VARIANT_COUNT,
+  type QueryExpansionStrategy,
+} from '@/lib/rag/query-expansion';
+
+export interface QueryExpansionSettings {
+  strategy: QueryExpansionStrategy;
+  queryCount: number;
+}
+
+export const DEFAULT_QUERY_EXPANSION: QueryExpansionSettings = {
+  strategy: 'none',
+  queryCount: DEFAULT_QUERY_VARIANT_COUNT,
+};
+
+interface QueryExpansionEditorProps {
+  value: QueryExpansionSettings;
+  onChange: (value: QueryExpansionSettings) => void;
+}
+
+const STRATEGY_DESCRIPTIONS: Record<QueryExpansionStrategy, string> = {
+  none: '재작성된 질문 하나로 검색합니다.',
+  multi_query:
+    '질문을 여러 표현으로 바꿔 각각 검색한 뒤 순위를 합칩니다. 표현이 다양한 문서에서 누락을 줄입니다.',
+  hyde: '질문에 대한 가상 답변을 만들어 의미 검색에 사용합니다. 짧은 질문과 긴 문서의 표현 차이를 줄입니다.',
+};
+
+export function QueryExpansionEditor({ value, onChange }: QueryExpansionEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div>
+        <select
+          value={value.strategy}
+          onChange={(e) =>
+            onChange({ ...value, strategy: e.target.value as QueryExpansionStrategy })
+          }
+          className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm text-foreground"
+        >
+          <option value="none">사용 안 함</option>
+          <option value="multi_query">Multi-Query</option>
+          <option value="hyde">HyDE (가상 답변)</option>
+        </select>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {STRATEGY_DESCRIPTIONS[value.strategy]}
+        </p>
+      </div>
+
+      {value.strategy === 'multi_query' && (
+        <div>
+          <div className="mb-1 flex items-center justify-between">
+            <span className="text-sm text-foreground">추가 표현 수</span>
+            <span className="text-sm text-muted-foreground">{value.queryCount}개</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max={MAX_QUERY_VARIANT_COUNT}
+            step="1"
+            value={value.queryCount}
+            onChange={(e) => onChange({ ...value, queryCount: parseInt(e.target.value) })}
+            className="w-full accent-primary"
+          />
+          <p className="mt-1 text-xs text-muted-foreground">
+            표현 수만큼 검색이 추가로 실행됩니다.
+          </p>
+        </div>
+      )}
+
+      {value.strategy !== 'none' && (
+        <p className="text-xs text-muted-foreground">
+          질문마다 LLM 호출이 한 번 추가됩니다. 적용 전 RAG 평가(pnpm rag:evaluate
+          --query-expansion)로 효과를 확인하세요.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+/**
+ * 기본 검색 필터 편집
+ *
+ * 모든 질문에 적용할 메타데이터 필터(문서 유형, 태그, 언어, 파일명, 날짜 범위)를 설정합니다.
+ * 여러 값은 쉼표로 구분하며, 비워 두면 해당 조건은 적용하지 않습니다.
+ */
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import type { MetadataFilter } from '@/lib/rag/metadata-filter';
+
+interface SearchFiltersEditorProps {
+  value: MetadataFilter | null;
+  onChange: (value: MetadataFilter | null) => void;
+}
+
+interface FilterTexts {
+  documentTypes: string;
+  tags: string;
+  tagMatch: 'any' | 'all';
+  languages: string;
+  filenames: string;
+  dateField: 'createdAt' | 'updatedAt';
+  dateFrom: string;
+  dateTo: string;
+}
+
+function toTexts(value: MetadataFilter | null): FilterTexts {
+  return {
+    documentTypes: value?.documentTypes?.join(', ') ?? '',
+    tags: value?.tags?.join(', ') ?? '',
+    tagMatch: value?.tagMatch ?? 'any',
+    languages: value?.languages?.join(', ') ?? '',
+    filenames: value?.filenames?.join(', ') ?? '',
+    dateField: value?.dateRange?.field ?? 'createdAt',
+    dateFrom: value?.dateRange?.from?.slice(0, 10) ?? '',
+    dateTo: value?.dateRange?.to?.slice(0, 10) ?? '',
+  };
+}
+
+function splitValues(text: string): string[] | undefined {
+  const values = text
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function toFilter(texts: FilterTexts): MetadataFilter | null {
+  const tags = splitValues(texts.tags);
+  const filter: MetadataFilter = {
+    documentTypes: splitValues(texts.documentTypes),
+    tags,
+    tagMatch: tags ? texts.tagMatch : undefined,
+    languages: splitValues(texts.languages),
+    filenames: splitValues(texts.filenames),
+    dateRange:
+      texts.dateFrom || texts.dateTo
+        ? {
+            field: texts.dateField,
+            from: texts.dateFrom || undefined,
+            to: texts.dateTo || undefined,
+          }
+        : undefined,
+  };
+
+  return Object.values(filter).some((v) => v !== undefined) ? filter : null;
+}
+
+export function SearchFiltersEditor({ value, onChange }: SearchFiltersEditorProps) {
+  const [texts, setTexts] = useState<FilterTexts>(() => toTexts(value));
+
+  const update = (patch: Partial<FilterTexts>) => {
+    const next = { ...texts, ...patch };
+    setTexts(next);
+    onChange(toFilter(next));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">문서 유형</label>
+          <Input
+            value={texts.documentTypes}
+            onChange={(e) => update({ documentTypes: e.target.value })}
+            placeholder="pdf, docx"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">언어</label>
+          <Input
+            value={texts.languages}
+            onChange={(e) => update({ languages: e.target.value })}
+            placeholder="ko, en"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-foreground">태그</label>
+            <select
+              value={texts.tagMatch}
+              onChange={(e) => update({ tagMatch: e.target.value as FilterTexts['tagMatch'] })}
+              className="rounded border border-border bg-background px-1.5 py-0.5 text-xs text-foreground"
+            >
+              <option value="any">하나라도 일치</option>
+              <option value="all">모두 일치</option>
+            </select>
+          </div>
+          <Input
+            value={texts.tags}
+            onChange={(e) => update({ tags: e.target.value })}
+            placeholder="요금, 2026"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium text-foreground">파일명 키워드</label>
+          <Input
+            value={texts.filenames}
+            onChange={(e) => update({ filenames: e.target.value })}
+            placeholder="가격표, pricing"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-foreground">날짜 범위</label>
+          <select
+            value={texts.dateField}
+            onChange={(e) => update({ dateField: e.target.value as FilterTexts['dateField'] })}
+            className="rounded border border-border bg-background px-1.5 py-0.5 text-xs text-foreground"
+          >
+            <option value="createdAt">문서 등록일</option>
+            <option value="updatedAt">문서 수정일</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={texts.dateFrom}
+            onChange={(e) => update({ dateFrom: e.target.value })}
+          />
+          <span className="text-sm text-muted-foreground">~</span>
+          <Input
+            type="date"
+            value={texts.dateTo}
+            onChange={(e) => update({ dateTo: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        여러 값은 쉼표로 구분합니다. 필터를 설정하면 조건에 맞는 문서만 검색하며, 블로그 페이지는
+        필터와 관계없이 함께 검색합니다. API 요청의 filters는 이 필터와 함께 적용되며, 요청에
+        filters가 있으면 블로그 페이지는 검색하지 않습니다.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+/**
+ * 검색 가중치 편집
+ *
+ * 연결된 데이터셋별 가중치(chatbot_datasets.weight)와
+ * 문서 청크 / 블로그(Knowledge Page) 소스 가중치를 조정합니다.
+ * 가중치는 RRF 병합 점수에 곱해지며, 1보다 크면 해당 결과가 상위에 더 자주 노출됩니다.
+ */
+
+import { MIN_SEARCH_WEIGHT, MAX_SEARCH_WEIGHT } from '@/lib/rag/fusion';
+
+export interface SourceWeights {
+  chunks: number;
+  knowledgePages: number;
+}
+
+interface WeightedDataset {
+  id: string;
+  name: string;
+  weight: number;
+}
+
+interface SearchWeightsEditorProps {
+  datasets: WeightedDataset[];
+  sourceWeights: SourceWeights;
+  onDatasetWeightChange: (datasetId: string, weight: number) => void;
+  onSourceWeightsChange: (value: SourceWeights) => void;
+}
+
+function WeightSlider({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between">
+        <span className="truncate text-sm text-foreground">{label}</span>
+        <span className="text-sm text-muted-foreground">×{value.toFixed(1)}</span>
+      </div>
+      <input
+        type="range"
+        min={MIN_SEARCH_WEIGHT}
+        max={MAX_SEARCH_WEIGHT}
+        step="0.1"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full accent-primary"
+      />
+    </div>
+  );
+}
+
+export function SearchWeightsEditor({
+  datasets,
+  sourceWeights,
+  onDatasetWeightChange,
+  onSourceWeightsChange,
+}: SearchWeightsEditorProps) {
+  return (
+    <div className="space-y-4">
+      {datasets.length > 1 && (
+        <div className="space-y-3">
+          <p className="text-xs font-medium text-muted-foreground">데이터셋</p>
+          {datasets.map((dataset) => (
+            <WeightSlider
+              key={dataset.id}
+              label={dataset.name}
+              value={dataset.weight}
+              onChange={(weight) => onDatasetWeightChange(dataset.id, weight)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <p className="text-xs font-medium text-muted-foreground">검색 소스</p>
+        <WeightSlider
+          label="문서 청크"
+          value={sourceWeights.chunks}
+          onChange={(chunks) => onSourceWeightsChange({ ...sourceWeights, chunks })}
+        />
+        <WeightSlider
+          label="블로그 페이지"
+          value={sourceWeights.knowledgePages}
+          onChange={(knowledgePages) => onSourceWeightsChange({ ...sourceWeights, knowledgePages })}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        기본값은 1.0입니다. 가중치가 높을수록 해당 데이터셋·소스의 결과가 검색 순위에서
+        우선됩니다.
+      </p>
+    </div>
+  );
+}
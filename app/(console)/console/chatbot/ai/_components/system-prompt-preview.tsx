@@ -0,0 +1,131 @@
+'use client';
+
+/**
+ * 시스템 프롬프트 미리보기
+ *
+ * 편집 중인 시스템 프롬프트/페르소나로 LLM이 실제로 받는 최종 프롬프트를 보여줍니다.
+ * 저장 전 값을 그대로 전송하므로 저장 없이 결과를 확인할 수 있습니다.
+ */
+
+import { useState } from 'react';
+import { Eye, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { SimpleDialog } from '@/components/ui/dialog';
+import type { ComposedSystemPrompt } from '@/lib/rag/prompt-composer';
+
+type PreviewChannel = 'web' | 'kakao';
+
+interface SystemPromptPreviewProps {
+  chatbotId: string;
+  systemPrompt: string | null;
+  inlineCitations: boolean;
+  persona: {
+    name: string;
+    expertiseArea: string;
+    expertiseDescription?: string;
+    tone: 'professional' | 'friendly' | 'casual';
+  };
+}
+
+export function SystemPromptPreview({
+  chatbotId,
+  systemPrompt,
+  inlineCitations,
+  persona,
+}: SystemPromptPreviewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [channel, setChannel] = useState<PreviewChannel>('web');
+  const [preview, setPreview] = useState<ComposedSystemPrompt | null>(null);
+
+  const loadPreview = async (targetChannel: PreviewChannel) => {
+    setIsLoading(true);
+    setChannel(targetChannel);
+    try {
+      const response = await fetch(`/api/chatbots/${chatbotId}/system-prompt/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          channel: targetChannel,
+          systemPrompt,
+          inlineCitations,
+          persona: {
+            ...persona,
+            // 빈 값은 저장된 값/기본값을 사용
+            expertiseArea: persona.expertiseArea || undefined,
+            expertiseDescription: persona.expertiseDescription || undefined,
+          },
+        }),
+      });
+      if (!response.ok) throw new Error('미리보기를 불러올 수 없습니다');
+      setPreview(await response.json());
+      setIsOpen(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '미리보기 실패');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => loadPreview(channel)}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+        ) : (
+          <Eye className="mr-1 h-4 w-4" />
+        )}
+        최종 프롬프트 미리보기
+      </Button>
+
+      <SimpleDialog
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title="최종 시스템 프롬프트"
+        description="안전 규칙 > 운영자 지침 > 페르소나 > 기본 규칙 순으로 우선 적용됩니다"
+        maxWidth="2xl"
+      >
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            {(['web', 'kakao'] as const).map((c) => (
+              <Button
+                key={c}
+                type="button"
+                size="sm"
+                variant={channel === c ? 'default' : 'outline'}
+                onClick={() => loadPreview(c)}
+                disabled={isLoading}
+              >
+                {c === 'web' ? '웹/공개 페이지' : '카카오톡'}
+              </Button>
+            ))}
+          </div>
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {preview.sections.map((section) => (
+                  <span
+                    key={section.id}
+                    className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                  >
+                    {section.title}
+                  </span>
+                ))}
+              </div>
+              <pre className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap rounded-lg bg-muted/50 p-4 text-xs text-foreground">
+                {preview.prompt}
+              </pre>
+            </>
+          )}
+        </div>
+      </SimpleDialog>
+    </>
+  );
+}
@@ -32,6 +32,26 @@ import type {
 } from '@/types/experiment';
 import { DEFAULT_EXPERIMENT_CONFIG } from '@/types/experiment';
 import { QualityDashboardCard } from './_components/quality-dashboard-card';
+import { SystemPromptPreview } from './_components/system-prompt-preview';
+import { ModelSelector } from './_components/model-selector';
+import { SearchFiltersEditor } from './_components/search-filters-editor';
+import { SearchWeightsEditor, type SourceWeights } from './_components/search-weights-editor';
+import {
+  ParentExpansionEditor,
+  DEFAULT_PARENT_EXPANSION,
+  type ParentExpansionSettings,
+} from './_components/parent-expansion-editor';
+import {
+  QueryExpansionEditor,
+  DEFAULT_QUERY_EXPANSION,
+  type QueryExpansionSettings,
+} from './_components/query-expansion-editor';
+import {
+  GroundednessGuardEditor,
+  DEFAULT_GROUNDEDNESS_GUARD,
+  type GroundednessGuardSettings,
+} from './_components/groundedness-guard-editor';
+import type { MetadataFilter } from '@/lib/rag/metadata-filter';
 
 type RagIndexStatus = 'idle' | 'generating' | 'completed' | 'failed';
 
@@ -39,11 +59,28 @@ interface LlmConfig {
   temperature: number;
   maxTokens: number;
   systemPrompt: string | null;
+  /** 메인 모델 (`provider:modelId`), null이면 기본 모델 */
+  model: string | null;
+  fallbackModels: string[];
+  /** 출처 표기 모드 (답변에 각주 번호 표시) */
+  inlineCitations: boolean;
+  /** 후속 질문 제안 (답변 후 2~3개 질문 칩) */
+  followUpSuggestions: boolean;
+  /** 답변 근거 검증 (근거 없는 값이 있으면 재생성/대체) */
+  groundednessGuard: GroundednessGuardSettings;
 }
 
 interface SearchConfig {
   maxChunks: number;
   minScore: number;
+  /** 기본 검색 필터 (모든 질문에 적용) */
+  defaultFilters: MetadataFilter | null;
+  /** 검색 소스 가중치 (문서 청크 vs 블로그 페이지) */
+  sourceWeights: SourceWeights;
+  /** Parent-Child 확장 (답변 생성에 섹션/앞뒤 청크 전달) */
+  parentExpansion: ParentExpansionSettings;
+  /** 검색 쿼리 확장 (Multi-Query / HyDE) */
+  queryExpansion: QueryExpansionSettings;
 }
 
 // 페르소나 설정 (사용자 편집 가능)
@@ -71,6 +108,8 @@ interface DatasetInfo {
   id: string;
   name: string;
   chunkCount: number;
+  /** 검색 가중치 (chatbot_datasets.weight) */
+  weight: number;
 }
 
 interface ChatbotData {
@@ -109,6 +148,8 @@ export default function AISettingsPage() {
 
   // 데이터셋 정보 상태
   const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  // 저장된 데이터셋 가중치 (변경분만 저장하기 위해 보관)
+  const [savedDatasetWeights, setSavedDatasetWeights] = useState<Record<string, number>>({});
   // 인덱싱된 Knowledge Pages (블로그) 수
   const [indexedKnowledgePagesCount, setIndexedKnowledgePagesCount] = useState(0);
   // 콘텐츠(데이터셋, 문서) 변경 시점 - 페르소나 재생성 필요 여부 판단에 사용
@@ -119,12 +160,21 @@ export default function AISettingsPage() {
     temperature: 0.7,
     maxTokens: 1024,
     systemPrompt: '',
+    model: null,
+    fallbackModels: [],
+    inlineCitations: false,
+    followUpSuggestions: false,
+    groundednessGuard: DEFAULT_GROUNDEDNESS_GUARD,
   });
 
   // 검색 설정 상태
   const [searchConfig, setSearchConfig] = useState<SearchConfig>({
     maxChunks: 5,
     minScore: 0.5,
+    defaultFilters: null,
+    sourceWeights: { chunks: 1, knowledgePages: 1 },
+    parentExpansion: DEFAULT_PARENT_EXPANSION,
+    queryExpansion: DEFAULT_QUERY_EXPANSION,
   });
 
   // 페르소나 설정 상태 (사용자 편집 가능)
@@ -180,7 +230,9 @@ export default function AISettingsPage() {
       const data: ChatbotData = await response.json();
       const { chatbot } = data;
 
-      setDatasets(chatbot.datasets || []);
+      const linkedDatasets = (chatbot.datasets || []).map((d) => ({ ...d, weight: d.weight ?? 1 }));
+      setDatasets(linkedDatasets);
+      setSavedDatasetWeights(Object.fromEntries(linkedDatasets.map((d) => [d.id, d.weight])));
       setIndexedKnowledgePagesCount(chatbot.indexedKnowledgePagesCount ?? 0);
       setContentUpdatedAt(chatbot.contentUpdatedAt);
 
@@ -189,6 +241,14 @@ export default function AISettingsPage() {
           temperature: chatbot.llmConfig.temperature ?? 0.7,
           maxTokens: chatbot.llmConfig.maxTokens ?? 1024,
           systemPrompt: chatbot.llmConfig.systemPrompt ?? '',
+          model: chatbot.llmConfig.model ?? null,
+          fallbackModels: chatbot.llmConfig.fallbackModels ?? [],
+          inlineCitations: chatbot.llmConfig.inlineCitations ?? false,
+          followUpSuggestions: chatbot.llmConfig.followUpSuggestions ?? false,
+          groundednessGuard: {
+            ...DEFAULT_GROUNDEDNESS_GUARD,
+            ...chatbot.llmConfig.groundednessGuard,
+          },
         });
       }
 
@@ -196,6 +256,19 @@ export default function AISettingsPage() {
         setSearchConfig({
           maxChunks: chatbot.searchConfig.maxChunks ?? 5,
           minScore: chatbot.searchConfig.minScore ?? 0.5,
+          defaultFilters: chatbot.searchConfig.defaultFilters ?? null,
+          sourceWeights: {
+            chunks: chatbot.searchConfig.sourceWeights?.chunks ?? 1,
+            knowledgePages: chatbot.searchConfig.sourceWeights?.knowledgePages ?? 1,
+          },
+          parentExpansion: {
+            ...DEFAULT_PARENT_EXPANSION,
+            ...chatbot.searchConfig.parentExpansion,
+          },
+          queryExpansion: {
+            ...DEFAULT_QUERY_EXPANSION,
+            ...chatbot.searchConfig.queryExpansion,
+          },
         });
       }
 
@@ -308,12 +381,32 @@ export default function AISettingsPage() {
       });
 
       if (!response.ok) {
-        throw new Error('설정 저장에 실패했습니다');
+        // 모델 선택 제한 등 서버 검증 메시지를 그대로 표시
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? '설정 저장에 실패했습니다');
+      }
+
+      // 변경된 데이터셋 가중치 저장
+      const changedDatasets = datasets.filter((d) => d.weight !== savedDatasetWeights[d.id]);
+      for (const dataset of changedDatasets) {
+        const weightResponse = await fetch(
+          `/api/chatbots/${currentChatbot.id}/datasets/${dataset.id}`,
+          {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ weight: dataset.weight }),
+          }
+        );
+        if (!weightResponse.ok) {
+          throw new Error(`${dataset.name} 가중치 저장에 실패했습니다`);
+        }
+        setSavedDatasetWeights((prev) => ({ ...prev, [dataset.id]: dataset.weight }));
       }
+
       toast.success('설정이 저장되었습니다');
     } catch (error) {
       console.error('설정 저장 오류:', error);
-      toast.error('설정 저장에 실패했습니다');
+      toast.error(error instanceof Error ? error.message : '설정 저장에 실패했습니다');
     } finally {
       setIsSaving(false);
     }
@@ -714,6 +807,15 @@ export default function AISettingsPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            {/* 모델 선택 */}
+            <ModelSelector
+              model={llmConfig.model}
+              fallbackModels={llmConfig.fallbackModels}
+              onChange={({ model, fallbackModels }) =>
+                setLlmConfig((prev) => ({ ...prev, model, fallbackModels }))
+              }
+            />
+
             {/* Temperature */}
             <div>
               <div className="mb-2 flex items-center justify-between">
@@ -787,8 +889,91 @@ export default function AISettingsPage() {
                   }))
                 }
                 placeholder="AI의 기본 동작을 정의하는 시스템 프롬프트를 입력하세요"
+                maxLength={2000}
                 className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
               />
+              <div className="mt-2 flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  페르소나보다 우선 적용되며, 안전 규칙은 변경할 수 없습니다
+                </p>
+                <SystemPromptPreview
+                  chatbotId={currentChatbot.id}
+                  systemPrompt={llmConfig.systemPrompt}
+                  inlineCitations={llmConfig.inlineCitations}
+                  persona={personaConfig}
+                />
+              </div>
+            </div>
+
+            {/* 출처 표기 모드 토글 */}
+            <div className="flex items-center justify-between rounded-lg border border-border bg-muted/30 p-4">
+              <div className="flex items-center gap-3">
+                {llmConfig.inlineCitations ? (
+                  <ToggleRight className="h-6 w-6 text-primary" />
+                ) : (
+                  <ToggleLeft className="h-6 w-6 text-muted-foreground" />
+                )}
+                <div>
+                  <p className="font-medium text-foreground">출처 각주 표시</p>
+                  <p className="text-xs text-muted-foreground">
+                    답변 문장에 [1] 형식의 번호를 붙이고, 클릭하면 참고한 문서 내용을 보여줍니다.
+                    카카오톡은 기존 출처 목록으로 표시됩니다
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant={llmConfig.inlineCitations ? 'default' : 'outline'}
+                size="sm"
+                onClick={() =>
+                  setLlmConfig((prev) => ({ ...prev, inlineCitations: !prev.inlineCitations }))
+                }
+              >
+                {llmConfig.inlineCitations ? '활성화됨' : '비활성화'}
+              </Button>
+            </div>
+
+            {/* 후속 질문 제안 토글 */}
+            <div className="flex items-center justify-between rounded-lg border border-border bg-muted/30 p-4">
+              <div className="flex items-center gap-3">
+                {llmConfig.followUpSuggestions ? (
+                  <ToggleRight className="h-6 w-6 text-primary" />
+                ) : (
+                  <ToggleLeft className="h-6 w-6 text-muted-foreground" />
+                )}
+                <div>
+                  <p className="font-medium text-foreground">후속 질문 제안</p>
+                  <p className="text-xs text-muted-foreground">
+                    답변 후 참고 문서를 바탕으로 이어서 물어볼 질문 2~3개를 버튼으로 보여줍니다.
+                    제안 생성에 AI 토큰이 추가로 사용됩니다
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant={llmConfig.followUpSuggestions ? 'default' : 'outline'}
+                size="sm"
+                onClick={() =>
+                  setLlmConfig((prev) => ({
+                    ...prev,
+                    followUpSuggestions: !prev.followUpSuggestions,
+                  }))
+                }
+              >
+                {llmConfig.followUpSuggestions ? '활성화됨' : '비활성화'}
+              </Button>
+            </div>
+
+            {/* 답변 근거 검증 */}
+            <div>
+              <p className="mb-1 text-sm font-medium text-foreground">답변 근거 검증</p>
+              <p className="mb-3 text-xs text-muted-foreground">
+                가격, 연락처, 날짜 같은 값이 참고 문서에 있는지 확인한 뒤 답변을 보냅니다
+              </p>
+              <GroundednessGuardEditor
+                value={llmConfig.groundednessGuard}
+                onChange={(groundednessGuard) =>
+                  setLlmConfig((prev) => ({ ...prev, groundednessGuard }))
+                }
+              />
             </div>
           </CardContent>
         </Card>
@@ -862,6 +1047,57 @@ export default function AISettingsPage() {
                 이 점수 이상의 문서만 참조합니다 (0-1)
               </p>
             </div>
+
+            {/* 기본 검색 필터 */}
+            <div>
+              <p className="mb-3 text-sm font-medium text-foreground">기본 검색 필터</p>
+              <SearchFiltersEditor
+                key={currentChatbot.id}
+                value={searchConfig.defaultFilters}
+                onChange={(defaultFilters) =>
+                  setSearchConfig((prev) => ({ ...prev, defaultFilters }))
+                }
+              />
+            </div>
+
+            {/* 검색 가중치 */}
+            <div>
+              <p className="mb-3 text-sm font-medium text-foreground">검색 가중치</p>
+              <SearchWeightsEditor
+                datasets={datasets}
+                sourceWeights={searchConfig.sourceWeights}
+                onDatasetWeightChange={(datasetId, weight) =>
+                  setDatasets((prev) =>
+                    prev.map((d) => (d.id === datasetId ? { ...d, weight } : d))
+                  )
+                }
+                onSourceWeightsChange={(sourceWeights) =>
+                  setSearchConfig((prev) => ({ ...prev, sourceWeights }))
+                }
+              />
+            </div>
+
+            {/* Parent-Child 확장 */}
+            <div>
+              <p className="mb-3 text-sm font-medium text-foreground">답변 컨텍스트 확장</p>
+              <ParentExpansionEditor
+                value={searchConfig.parentExpansion}
+                onChange={(parentExpansion) =>
+                  setSearchConfig((prev) => ({ ...prev, parentExpansion }))
+                }
+              />
+            </div>
+
+            {/* 쿼리 확장 */}
+            <div>
+              <p className="mb-3 text-sm font-medium text-foreground">검색 쿼리 확장</p>
+              <QueryExpansionEditor
+                value={searchConfig.queryExpansion}
+                onChange={(queryExpansion) =>
+                  setSearchConfig((prev) => ({ ...prev, queryExpansion }))
+                }
+              />
+            </div>
           </CardContent>
         </Card>
 
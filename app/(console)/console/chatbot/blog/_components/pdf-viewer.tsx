@@ -6,12 +6,17 @@
  *
  * react-pdf를 사용하여 원본 PDF 문서를 렌더링합니다.
  * 텍스트 레이어를 포함하여 하이라이트 기능을 지원합니다.
+ * (텍스트 레이어 렌더링 후 pdf-highlight.ts로 하이라이트 텍스트 좌표를 찾음)
  */
 
-import { useState, useCallback, useRef, forwardRef } from 'react';
+import { useState, useCallback, useMemo, useRef, forwardRef } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
 import { Loader2, ZoomIn, ZoomOut, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  findTextPositionInPage,
+  createHighlightStyle,
+} from '@/lib/knowledge-pages/verification/pdf-highlight';
 
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
@@ -22,6 +27,8 @@ pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/b
 interface PDFViewerProps {
   url: string;
   className?: string;
+  /** 처음 표시할 페이지 (기본 1) */
+  initialPage?: number;
   onLoadSuccess?: (numPages: number) => void;
   onPageChange?: (pageNumber: number) => void;
   highlights?: {
@@ -30,17 +37,22 @@ interface PDFViewerProps {
   }[];
 }
 
+// 하이라이트 없음 (기본값을 렌더마다 새로 만들지 않도록 고정)
+const NO_HIGHLIGHTS: NonNullable<PDFViewerProps['highlights']> = [];
+
 export const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(
   function PDFViewer(
-    { url, className = '', onLoadSuccess, onPageChange, highlights = [] },
+    { url, className = '', initialPage = 1, onLoadSuccess, onPageChange, highlights = NO_HIGHLIGHTS },
     ref
   ) {
     const [numPages, setNumPages] = useState<number>(0);
-    const [pageNumber, setPageNumber] = useState<number>(1);
+    const [pageNumber, setPageNumber] = useState<number>(initialPage);
     const [scale, setScale] = useState<number>(1.0);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
+    const [highlightStyles, setHighlightStyles] = useState<React.CSSProperties[]>([]);
     const containerRef = useRef<HTMLDivElement>(null);
+    const pageRef = useRef<HTMLDivElement>(null);
 
     // PDF 로드 성공 핸들러
     const handleLoadSuccess = useCallback(
@@ -65,6 +77,7 @@ export const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(
       (page: number) => {
         const newPage = Math.max(1, Math.min(page, numPages));
         setPageNumber(newPage);
+        setHighlightStyles([]);
         onPageChange?.(newPage);
       },
       [numPages, onPageChange]
@@ -73,17 +86,35 @@ export const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(
     // 줌 컨트롤
     const zoomIn = useCallback(() => {
       setScale((prev) => Math.min(prev + 0.25, 3.0));
+      setHighlightStyles([]);
     }, []);
 
     const zoomOut = useCallback(() => {
       setScale((prev) => Math.max(prev - 0.25, 0.5));
+      setHighlightStyles([]);
     }, []);
 
     // 현재 페이지의 하이라이트
-    const currentHighlights = highlights.filter(
-      (h) => h.pageNumber === pageNumber
+    const currentHighlights = useMemo(
+      () => highlights.filter((h) => h.pageNumber === pageNumber),
+      [highlights, pageNumber]
     );
 
+    // 텍스트 레이어가 그려진 뒤 하이라이트 좌표 계산 (페이지/배율이 바뀌면 다시 그려짐)
+    const handleTextLayerRendered = useCallback(() => {
+      const textLayer = pageRef.current?.querySelector<HTMLElement>(
+        '.react-pdf__Page__textContent'
+      );
+      if (!textLayer) return;
+
+      setHighlightStyles(
+        currentHighlights.flatMap((highlight) => {
+          const position = findTextPositionInPage(textLayer, highlight.text);
+          return position ? [createHighlightStyle(position)] : [];
+        })
+      );
+    }, [currentHighlights]);
+
     return (
       <div
         ref={ref}
@@ -165,18 +196,20 @@ export const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(
             className="relative"
           >
             <Page
+              inputRef={pageRef}
               pageNumber={pageNumber}
               scale={scale}
               renderTextLayer={true}
               renderAnnotationLayer={true}
+              onRenderTextLayerSuccess={handleTextLayerRendered}
               className="shadow-lg"
             />
 
             {/* 하이라이트 오버레이 */}
-            {currentHighlights.length > 0 && (
+            {highlightStyles.length > 0 && (
               <div className="absolute inset-0 pointer-events-none">
-                {currentHighlights.map((highlight, index) => (
-                  <HighlightOverlay key={index} text={highlight.text} />
+                {highlightStyles.map((style, index) => (
+                  <div key={index} style={style} />
                 ))}
               </div>
             )}
@@ -187,26 +220,4 @@ export const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(
   }
 );
 
-/**
- * 하이라이트 오버레이 컴포넌트
- *
- * 실제 구현에서는 텍스트 레이어에서 해당 텍스트를 찾아
- * 정확한 위치에 하이라이트를 표시해야 합니다.
- * 여기서는 placeholder로 구현합니다.
- */
-function HighlightOverlay({ text }: { text: string }) {
-  // TODO: pdf-highlight.ts의 findTextPositionInPage를 사용하여
-  // 실제 텍스트 위치를 찾아 하이라이트 표시
-  return (
-    <div
-      className="absolute bg-yellow-500/30 border border-yellow-500/50 rounded"
-      style={{
-        // 실제 구현에서는 동적으로 위치 계산
-        display: 'none',
-      }}
-      title={text}
-    />
-  );
-}
-
 export default PDFViewer;
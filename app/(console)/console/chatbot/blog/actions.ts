@@ -20,7 +20,7 @@ import {
 import { eq, and, desc, asc, isNull, sql, inArray } from 'drizzle-orm';
 import { getSession } from '@/lib/auth/session';
 import { revalidatePath } from 'next/cache';
-import { embedText, embedTexts } from '@/lib/rag/embedding';
+import { embedText, embedTexts, getDefaultEmbeddingModelId } from '@/lib/rag/embedding';
 import { validateFile, uploadFile, type AllowedMimeType } from '@/lib/upload';
 import { inngestClient } from '@/inngest/client';
 import { logger } from '@/lib/logger';
@@ -28,6 +28,7 @@ import {
   uploadMarkdownToPages,
   validateMarkdownContent,
 } from '@/lib/knowledge-pages/markdown-to-pages';
+import { invalidateChatbotCache } from '@/lib/chat/cache';
 
 // ========================================
 // 타입 정의
@@ -690,10 +691,15 @@ export async function publishKnowledgePage(
 
     // 3. 임베딩 생성 (경로 + 제목 + 콘텐츠)
     const textForEmbedding = `${page.path}\n${page.title}\n\n${page.content}`;
-    const embedding = await embedText(textForEmbedding, {
-      tenantId: session.tenantId,
-      chatbotId: page.chatbotId,
-    });
+    const embeddingModel = getDefaultEmbeddingModelId();
+    const embedding = await embedText(
+      textForEmbedding,
+      {
+        tenantId: session.tenantId,
+        chatbotId: page.chatbotId,
+      },
+      embeddingModel
+    );
 
     // 4. 새 'published' 버전 스냅샷 생성
     const newVersion: NewKnowledgePageVersion = {
@@ -704,6 +710,7 @@ export async function publishKnowledgePage(
       content: page.content,
       path: page.path,
       embedding,
+      embeddingModel,
       summary: null, // TODO: AI 요약 추가
       publishedAt: new Date(),
       publishedBy: session.userId,
@@ -748,6 +755,9 @@ export async function publishKnowledgePage(
       }
     }
 
+    // 7. 이전 버전 기반 캐시 응답 무효화
+    await invalidateChatbotCache([page.chatbotId], 'knowledge_page_published');
+
     revalidatePath('/console/chatbot/blog');
     revalidatePath(`/console/chatbot/blog/${pageId}`);
 
@@ -784,7 +794,7 @@ export async function unpublishKnowledgePage(
       );
 
     // 2. knowledge_pages 상태 업데이트
-    await db
+    const [unpublished] = await db
       .update(knowledgePages)
       .set({
         publishedVersionId: null,
@@ -792,7 +802,13 @@ export async function unpublishKnowledgePage(
         status: 'draft',
         updatedAt: new Date(),
       })
-      .where(eq(knowledgePages.id, pageId));
+      .where(eq(knowledgePages.id, pageId))
+      .returning({ chatbotId: knowledgePages.chatbotId });
+
+    // 3. 발행 취소된 페이지 기반 캐시 응답 무효화
+    if (unpublished) {
+      await invalidateChatbotCache([unpublished.chatbotId], 'knowledge_page_unpublished');
+    }
 
     revalidatePath('/console/chatbot/blog');
     revalidatePath(`/console/chatbot/blog/${pageId}`);
@@ -892,12 +908,17 @@ export async function publishKnowledgePages(
       (page) => `${page.path}\n${page.title}\n\n${page.content}`
     );
 
+    const embeddingModel = getDefaultEmbeddingModelId();
     let embeddings: number[][];
     try {
-      embeddings = await embedTexts(textsForEmbedding, {
-        tenantId: session.tenantId,
-        chatbotId: publishable[0].chatbotId,
-      });
+      embeddings = await embedTexts(
+        textsForEmbedding,
+        {
+          tenantId: session.tenantId,
+          chatbotId: publishable[0].chatbotId,
+        },
+        embeddingModel
+      );
     } catch (error) {
       console.error('배치 임베딩 생성 실패:', error);
       return {
@@ -950,6 +971,7 @@ export async function publishKnowledgePages(
             content: page.content,
             path: page.path,
             embedding,
+            embeddingModel,
             summary: null,
             publishedAt: new Date(),
             publishedBy: session.userId,
@@ -1004,7 +1026,15 @@ export async function publishKnowledgePages(
       }
     }
 
-    // 5. 결과 반환
+    // 5. 발행된 페이지가 있으면 캐시 응답 무효화
+    if (publishedCount > 0) {
+      await invalidateChatbotCache(
+        publishable.map((page) => page.chatbotId),
+        'knowledge_pages_published'
+      );
+    }
+
+    // 6. 결과 반환
     revalidatePath('/console/chatbot/blog');
 
     return {
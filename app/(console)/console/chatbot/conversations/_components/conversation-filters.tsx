@@ -0,0 +1,155 @@
+'use client';
+
+/**
+ * 대화 인박스 필터
+ * 채널/기간/Intent/응답 유형/정보 없음 여부 + 본문 검색
+ */
+
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export interface InboxFilterState {
+  channel: 'all' | 'web' | 'kakao' | 'public_page';
+  from: string;
+  to: string;
+  intent: 'all' | 'CHITCHAT' | 'DOMAIN_QUERY' | 'OUT_OF_SCOPE';
+  responseType: 'all' | 'cached' | 'generated';
+  noResultOnly: boolean;
+  search: string;
+}
+
+export const DEFAULT_INBOX_FILTERS: InboxFilterState = {
+  channel: 'all',
+  from: '',
+  to: '',
+  intent: 'all',
+  responseType: 'all',
+  noResultOnly: false,
+  search: '',
+};
+
+/**
+ * 필터 상태 → API 쿼리 파라미터
+ */
+export function toInboxSearchParams(filters: InboxFilterState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.channel !== 'all') params.set('channel', filters.channel);
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59`).toISOString());
+  if (filters.intent !== 'all') params.set('intent', filters.intent);
+  if (filters.responseType !== 'all') params.set('responseType', filters.responseType);
+  if (filters.noResultOnly) params.set('noResultOnly', 'true');
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  return params;
+}
+
+interface ConversationFiltersProps {
+  filters: InboxFilterState;
+  onChange: (filters: InboxFilterState) => void;
+}
+
+export function ConversationFilters({ filters, onChange }: ConversationFiltersProps) {
+  const update = <K extends keyof InboxFilterState>(key: K, value: InboxFilterState[K]) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      {/* 검색 */}
+      <div className="relative min-w-[220px] flex-1">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={filters.search}
+          onChange={(e) => update('search', e.target.value)}
+          placeholder="메시지 내용 검색"
+          className="pl-9"
+          maxLength={200}
+        />
+      </div>
+
+      {/* 채널 */}
+      <Select
+        value={filters.channel}
+        onValueChange={(v) => update('channel', v as InboxFilterState['channel'])}
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">전체 채널</SelectItem>
+          <SelectItem value="web">위젯</SelectItem>
+          <SelectItem value="public_page">공개 페이지</SelectItem>
+          <SelectItem value="kakao">카카오톡</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* Intent */}
+      <Select
+        value={filters.intent}
+        onValueChange={(v) => update('intent', v as InboxFilterState['intent'])}
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">전체 의도</SelectItem>
+          <SelectItem value="DOMAIN_QUERY">도메인 질문</SelectItem>
+          <SelectItem value="CHITCHAT">일상 대화</SelectItem>
+          <SelectItem value="OUT_OF_SCOPE">범위 외</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* 응답 유형 */}
+      <Select
+        value={filters.responseType}
+        onValueChange={(v) => update('responseType', v as InboxFilterState['responseType'])}
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">전체 응답</SelectItem>
+          <SelectItem value="generated">생성 응답</SelectItem>
+          <SelectItem value="cached">캐시 응답</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* 기간 */}
+      <div className="flex items-center gap-1">
+        <Input
+          type="date"
+          value={filters.from}
+          onChange={(e) => update('from', e.target.value)}
+          className="w-[150px]"
+          aria-label="시작일"
+        />
+        <span className="text-muted-foreground">~</span>
+        <Input
+          type="date"
+          value={filters.to}
+          onChange={(e) => update('to', e.target.value)}
+          className="w-[150px]"
+          aria-label="종료일"
+        />
+      </div>
+
+      {/* 정보 없음 */}
+      <label className="flex cursor-pointer items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={filters.noResultOnly}
+          onChange={(e) => update('noResultOnly', e.target.checked)}
+          className="h-4 w-4 rounded border-border"
+        />
+        답변 못한 대화만
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+/**
+ * 대화 기록 상세 시트
+ * 열릴 때마다 API를 통해 조회하며, 서버에서 개인정보 접근 기록이 남는다.
+ */
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import type { ConversationTranscript } from '@/lib/chat/transcript-export';
+
+interface TranscriptSheetProps {
+  chatbotId: string;
+  conversationId: string | null;
+  onClose: () => void;
+}
+
+export function TranscriptSheet({ chatbotId, conversationId, onClose }: TranscriptSheetProps) {
+  const [transcript, setTranscript] = useState<ConversationTranscript | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!conversationId) {
+      setTranscript(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadTranscript() {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/chatbots/${chatbotId}/conversations/${conversationId}`
+        );
+        if (!response.ok) {
+          throw new Error('대화 기록을 불러올 수 없습니다');
+        }
+        const data: { conversation: ConversationTranscript } = await response.json();
+        if (!cancelled) setTranscript(data.conversation);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '알 수 없는 오류');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+    loadTranscript();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chatbotId, conversationId]);
+
+  return (
+    <Sheet open={!!conversationId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>대화 기록</SheetTitle>
+          <SheetDescription>
+            {transcript
+              ? `${new Date(transcript.createdAt).toLocaleString('ko-KR')} 시작 · ${transcript.messages.length}개 메시지`
+              : '대화 내용을 불러오는 중입니다'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-3 px-4 pb-6">
+          {isLoading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {error && <p className="py-12 text-center text-sm text-destructive">{error}</p>}
+
+          {!isLoading &&
+            transcript?.messages.map((message, index) => {
+              const isUser = message.role === 'user';
+              return (
+                <div
+                  key={message.id ?? index}
+                  className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}
+                >
+                  <div
+                    className={`max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm ${
+                      isUser ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
+                    }`}
+                  >
+                    {message.content}
+                  </div>
+                  <div className="mt-1 flex items-center gap-1 text-[10px] text-muted-foreground">
+                    {new Date(message.timestamp).toLocaleTimeString('ko-KR')}
+                    {message.metadata?.intent && (
+                      <Badge variant="outline" className="px-1 py-0 text-[10px]">
+                        {message.metadata.intent}
+                      </Badge>
+                    )}
+                    {message.metadata?.cached && (
+                      <Badge variant="secondary" className="px-1 py-0 text-[10px]">
+                        캐시
+                      </Badge>
+                    )}
+                    {message.metadata?.noResult && (
+                      <Badge variant="warning" className="px-1 py-0 text-[10px]">
+                        정보 없음
+                      </Badge>
+                    )}
+                    {message.metadata?.operator && (
+                      <Badge variant="secondary" className="px-1 py-0 text-[10px]">
+                        상담원{message.metadata.operatorName && ` · ${message.metadata.operatorName}`}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
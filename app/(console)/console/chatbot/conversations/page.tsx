@@ -0,0 +1,188 @@
+'use client';
+
+/**
+ * 대화 인박스 페이지
+ * 챗봇별 대화 목록을 필터/검색하고 CSV/JSONL로 내보내기
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Download, ChevronLeft, ChevronRight, MessageSquare } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useCurrentChatbot } from '../../hooks/use-console-state';
+import { NoChatbotState } from '../../components/no-chatbot-state';
+import {
+  ConversationFilters,
+  DEFAULT_INBOX_FILTERS,
+  toInboxSearchParams,
+  type InboxFilterState,
+} from './_components/conversation-filters';
+import { TranscriptSheet } from './_components/transcript-sheet';
+import type { ConversationListResult } from '@/lib/chat/inbox';
+
+const CHANNEL_LABELS: Record<string, string> = {
+  web: '위젯',
+  public_page: '공개 페이지',
+  kakao: '카카오톡',
+};
+
+// 검색 입력 디바운스 (ms)
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function ConversationsPage() {
+  const { currentChatbot } = useCurrentChatbot();
+  const [filters, setFilters] = useState<InboxFilterState>(DEFAULT_INBOX_FILTERS);
+  const [debouncedFilters, setDebouncedFilters] = useState<InboxFilterState>(DEFAULT_INBOX_FILTERS);
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<ConversationListResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // 필터 변경 시 디바운스 후 첫 페이지부터 조회
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedFilters(filters);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const loadConversations = useCallback(async () => {
+    if (!currentChatbot?.id) return;
+
+    setIsLoading(true);
+    try {
+      const params = toInboxSearchParams(debouncedFilters);
+      params.set('page', String(page));
+      const response = await fetch(
+        `/api/chatbots/${currentChatbot.id}/conversations?${params.toString()}`
+      );
+      if (!response.ok) {
+        throw new Error('대화 목록을 불러올 수 없습니다');
+      }
+      setData(await response.json());
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+      setData(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentChatbot?.id, debouncedFilters, page]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  // 챗봇 없음 상태 (모든 훅 호출 후 체크)
+  if (!currentChatbot) {
+    return <NoChatbotState />;
+  }
+
+  const exportUrl = (format: 'csv' | 'jsonl') => {
+    const params = toInboxSearchParams(debouncedFilters);
+    params.set('format', format);
+    return `/api/chatbots/${currentChatbot.id}/conversations/export?${params.toString()}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {/* 페이지 헤더 */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-foreground">대화 내역</h1>
+          <p className="mt-1 text-muted-foreground">
+            고객과 챗봇의 대화를 검색하고 내보내세요
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportUrl('csv')} download>
+              <Download className="mr-1 h-4 w-4" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={exportUrl('jsonl')} download>
+              <Download className="mr-1 h-4 w-4" />
+              JSONL
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <ConversationFilters filters={filters} onChange={setFilters} />
+
+      <Card size="md">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+          ) : !data || data.conversations.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-center">
+              <MessageSquare className="h-8 w-8 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">조건에 맞는 대화가 없습니다</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-border">
+              {data.conversations.map((conversation) => (
+                <li key={conversation.id}>
+                  <button
+                    onClick={() => setSelectedId(conversation.id)}
+                    className="flex w-full items-center gap-4 px-4 py-3 text-left transition-colors hover:bg-muted/50"
+                  >
+                    <Badge variant="outline" className="shrink-0">
+                      {CHANNEL_LABELS[conversation.channel] ?? conversation.channel}
+                    </Badge>
+                    <span className="min-w-0 flex-1 truncate text-sm text-foreground">
+                      {conversation.preview ?? '(사용자 메시지 없음)'}
+                    </span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {conversation.messageCount}개 메시지
+                    </span>
+                    <span className="w-36 shrink-0 text-right text-xs text-muted-foreground">
+                      {new Date(conversation.updatedAt).toLocaleString('ko-KR')}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 페이지네이션 */}
+      {data && data.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <span className="mr-2 text-sm text-muted-foreground">총 {data.pagination.total}건</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => setPage((p) => p - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {page} / {data.pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= data.pagination.totalPages}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <TranscriptSheet
+        chatbotId={currentChatbot.id}
+        conversationId={selectedId}
+        onClose={() => setSelectedId(null)}
+      />
+    </div>
+  );
+}
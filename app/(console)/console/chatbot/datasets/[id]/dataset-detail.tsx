@@ -24,6 +24,8 @@ import {
   BarChart3,
 } from 'lucide-react';
 import { DatasetDocuments } from './dataset-documents';
+import { DatasetEmbeddingModel } from './dataset-embedding-model';
+import { DatasetWebSources } from './dataset-web-sources';
 import {
   SearchabilityStats,
   IntegrityAlertBanner,
@@ -369,6 +371,12 @@ export function DatasetDetail({ datasetId }: DatasetDetailProps) {
         </div>
       )}
 
+      {/* 임베딩 모델 및 재임베딩 진행률 */}
+      <DatasetEmbeddingModel datasetId={datasetId} onMigrated={fetchDataset} />
+
+      {/* 웹사이트 소스 (URL/sitemap 수집) */}
+      <DatasetWebSources datasetId={datasetId} onCrawled={fetchDataset} />
+
       {/* 문서 목록 */}
       <DatasetDocuments datasetId={datasetId} onUpdate={fetchDataset} />
     </div>
@@ -9,10 +9,11 @@
 
 import { useState, useEffect, useTransition, useMemo } from 'react';
 import Link from 'next/link';
-import { FileText, Trash2, RotateCcw, ExternalLink, Search, X, Unlink } from 'lucide-react';
+import { FileText, Trash2, RotateCcw, ExternalLink, Search, X, Unlink, History } from 'lucide-react';
 import { DocumentProgressModal } from '@/components/document-progress-modal';
 import { DocumentStatusBadge } from '@/components/ui/document-status-badge';
 import { DocumentChunks } from './document-chunks';
+import { DocumentVersionsDialog } from './document-versions-dialog';
 import { unassignDocumentFromDataset } from '@/app/(console)/console/chatbot/docu/actions';
 import { useAlertDialog } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
@@ -43,6 +44,7 @@ export function DatasetDocuments({ datasetId, onUpdate }: DatasetDocumentsProps)
   const [reprocessingId, setReprocessingId] = useState<string | null>(null);
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
   const [progressModalDocId, setProgressModalDocId] = useState<string | null>(null);
+  const [versionsDocId, setVersionsDocId] = useState<string | null>(null);
   const [documentSearch, setDocumentSearch] = useState('');
   const { confirm } = useAlertDialog();
 
@@ -318,6 +320,16 @@ export function DatasetDocuments({ datasetId, onUpdate }: DatasetDocumentsProps)
                         )}
                       </button>
                     )}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setVersionsDocId(doc.id);
+                      }}
+                      className="rounded p-1.5 text-muted-foreground hover:bg-primary/10 hover:text-primary"
+                      title="버전 이력"
+                    >
+                      <History className="h-4 w-4" />
+                    </button>
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -393,6 +405,19 @@ export function DatasetDocuments({ datasetId, onUpdate }: DatasetDocumentsProps)
           }}
         />
       )}
+
+      {/* 문서 버전 이력 다이얼로그 */}
+      {versionsDocId && (
+        <DocumentVersionsDialog
+          documentId={versionsDocId}
+          isOpen={!!versionsDocId}
+          onClose={() => setVersionsDocId(null)}
+          onDocumentChanged={() => {
+            fetchDocuments();
+            onUpdate();
+          }}
+        />
+      )}
     </div>
   );
 }
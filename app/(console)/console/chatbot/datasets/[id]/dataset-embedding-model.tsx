@@ -0,0 +1,190 @@
+/**
+ * 데이터셋 임베딩 모델 카드
+ * 현재 모델 표시, 다른 모델로 재임베딩 시작, 진행률 표시
+ * 재임베딩 중에도 검색은 기존 모델 벡터로 계속 동작
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Cpu, RefreshCw } from 'lucide-react';
+import { calculateReembedProgress, type EmbeddingModelInfo } from '@/lib/rag/embedding-models';
+
+interface EmbeddingMigrationData {
+  id: string;
+  fromModel: string;
+  toModel: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  totalChunks: number;
+  processedChunks: number;
+  error: string | null;
+  completedAt: string | null;
+}
+
+interface EmbeddingModelData {
+  embeddingModel: string;
+  embeddingDimension: number;
+  models: EmbeddingModelInfo[];
+  migration: EmbeddingMigrationData | null;
+}
+
+interface DatasetEmbeddingModelProps {
+  datasetId: string;
+  onMigrated?: () => void;
+}
+
+// 재임베딩 진행 중 상태 갱신 주기
+const POLL_INTERVAL_MS = 3000;
+
+export function DatasetEmbeddingModel({ datasetId, onMigrated }: DatasetEmbeddingModelProps) {
+  const [data, setData] = useState<EmbeddingModelData | null>(null);
+  const [selectedModel, setSelectedModel] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const activeMigrationId = useRef<string | null>(null);
+  const onMigratedRef = useRef(onMigrated);
+  onMigratedRef.current = onMigrated;
+
+  const fetchData = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/datasets/${datasetId}/embedding-model`);
+      if (!response.ok) return;
+      const result: EmbeddingModelData = await response.json();
+
+      // 진행 중이던 작업이 끝나면 상위 통계 갱신
+      if (
+        activeMigrationId.current &&
+        result.migration?.id === activeMigrationId.current &&
+        result.migration.status === 'completed'
+      ) {
+        onMigratedRef.current?.();
+      }
+      activeMigrationId.current =
+        result.migration && isActive(result.migration) ? result.migration.id : null;
+      setData(result);
+    } catch (err) {
+      console.error('Embedding model fetch error:', err);
+    }
+  }, [datasetId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const migrating = !!data?.migration && isActive(data.migration);
+
+  useEffect(() => {
+    if (!migrating) return;
+    const timer = setInterval(fetchData, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [migrating, fetchData]);
+
+  const handleStart = async () => {
+    if (!selectedModel) return;
+
+    setIsStarting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/datasets/${datasetId}/embedding-model`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: selectedModel }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || '재임베딩을 시작하지 못했습니다');
+        return;
+      }
+      setSelectedModel('');
+      await fetchData();
+    } catch {
+      setError('재임베딩을 시작하지 못했습니다');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!data) return null;
+
+  const modelName = (id: string) => data.models.find((m) => m.id === id)?.displayName ?? id;
+  const otherModels = data.models.filter((m) => m.id !== data.embeddingModel);
+  const migration = data.migration;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <Cpu className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium text-foreground">임베딩 모델</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-foreground">{modelName(data.embeddingModel)}</p>
+          <p className="text-xs text-muted-foreground">{data.embeddingDimension}차원</p>
+        </div>
+
+        {!migrating && otherModels.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedModel}
+              onChange={(e) => setSelectedModel(e.target.value)}
+              className="rounded-md border border-border bg-background px-3 py-1.5 text-sm text-foreground"
+            >
+              <option value="">변경할 모델 선택</option>
+              {otherModels.map((model) => (
+                <option key={model.id} value={model.id}>
+                  {model.displayName} ({model.dimension}차원)
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleStart}
+              disabled={!selectedModel || isStarting}
+              className="flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <RefreshCw className="h-4 w-4" />
+              재임베딩
+            </button>
+          </div>
+        )}
+      </div>
+
+      {migrating && migration && (
+        <div className="mt-4">
+          <div className="mb-1 flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {modelName(migration.toModel)}(으)로 재임베딩 중 · {migration.processedChunks}/
+              {migration.totalChunks}
+            </span>
+            <span>
+              {calculateReembedProgress(migration.processedChunks, migration.totalChunks)}%
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{
+                width: `${calculateReembedProgress(migration.processedChunks, migration.totalChunks)}%`,
+              }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            완료될 때까지 검색은 기존 모델로 계속 동작합니다.
+          </p>
+        </div>
+      )}
+
+      {migration?.status === 'failed' && (
+        <p className="mt-3 text-xs text-destructive">
+          {modelName(migration.toModel)}(으)로 재임베딩 실패: {migration.error || '알 수 없는 오류'}
+        </p>
+      )}
+
+      {error && <p className="mt-3 text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+function isActive(migration: EmbeddingMigrationData): boolean {
+  return migration.status === 'pending' || migration.status === 'running';
+}
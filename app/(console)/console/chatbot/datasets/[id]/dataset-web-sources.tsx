@@ -0,0 +1,430 @@
+/**
+ * 데이터셋 웹사이트 소스 카드
+ * URL/sitemap.xml 등록, 경로 규칙과 재수집 주기 설정, 수집 상태와 마지막 통계 표시
+ * 재수집 시 내용이 바뀐 페이지만 다시 처리
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { Globe, Plus, RefreshCw, Trash2, Loader2 } from 'lucide-react';
+import { useAlertDialog } from '@/components/ui/alert-dialog';
+
+type RecrawlInterval = 'manual' | 'daily' | 'weekly';
+
+interface WebSourceData {
+  id: string;
+  url: string;
+  sourceType: 'page' | 'sitemap';
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxPages: number;
+  maxDepth: number;
+  recrawlInterval: RecrawlInterval;
+  status: 'idle' | 'crawling' | 'failed';
+  lastCrawlStats: {
+    discovered: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    failed: number;
+  } | null;
+  lastError: string | null;
+  lastCrawledAt: string | null;
+  nextCrawlAt: string | null;
+}
+
+interface DatasetWebSourcesProps {
+  datasetId: string;
+  onCrawled?: () => void;
+}
+
+// 수집 중 상태 갱신 주기
+const POLL_INTERVAL_MS = 3000;
+
+const INTERVAL_LABELS: Record<RecrawlInterval, string> = {
+  manual: '수동',
+  daily: '매일',
+  weekly: '매주',
+};
+
+const inputClassName =
+  'w-full rounded-md border border-border bg-background px-3 py-1.5 text-sm text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary';
+
+const EMPTY_FORM = {
+  url: '',
+  sourceType: 'page' as 'page' | 'sitemap',
+  includePatterns: '',
+  excludePatterns: '',
+  maxPages: 50,
+  maxDepth: 2,
+  recrawlInterval: 'weekly' as RecrawlInterval,
+};
+
+export function DatasetWebSources({ datasetId, onCrawled }: DatasetWebSourcesProps) {
+  const [sources, setSources] = useState<WebSourceData[] | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { confirm } = useAlertDialog();
+  const crawlingIds = useRef<Set<string>>(new Set());
+  const onCrawledRef = useRef(onCrawled);
+  onCrawledRef.current = onCrawled;
+
+  const fetchSources = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/datasets/${datasetId}/web-sources`);
+      if (!response.ok) return;
+      const result: { sources: WebSourceData[] } = await response.json();
+
+      // 수집 중이던 소스가 끝나면 상위 통계 갱신
+      const finished = result.sources.some(
+        (source) => crawlingIds.current.has(source.id) && source.status !== 'crawling'
+      );
+      if (finished) onCrawledRef.current?.();
+      crawlingIds.current = new Set(
+        result.sources.filter((source) => source.status === 'crawling').map((source) => source.id)
+      );
+      setSources(result.sources);
+    } catch (err) {
+      console.error('Web sources fetch error:', err);
+    }
+  }, [datasetId]);
+
+  useEffect(() => {
+    fetchSources();
+  }, [fetchSources]);
+
+  const crawling = !!sources?.some((source) => source.status === 'crawling');
+
+  useEffect(() => {
+    if (!crawling) return;
+    const timer = setInterval(fetchSources, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [crawling, fetchSources]);
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/datasets/${datasetId}/web-sources`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          includePatterns: splitPatterns(form.includePatterns),
+          excludePatterns: splitPatterns(form.excludePatterns),
+        }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        setError(result.error || '웹사이트를 등록하지 못했습니다');
+        return;
+      }
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await fetchSources();
+    } catch {
+      setError('웹사이트를 등록하지 못했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCrawl = async (sourceId: string) => {
+    setError(null);
+    const response = await fetch(`/api/datasets/${datasetId}/web-sources/${sourceId}/crawl`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      setError(result.error || '수집을 시작하지 못했습니다');
+    }
+    await fetchSources();
+  };
+
+  const handleIntervalChange = async (sourceId: string, recrawlInterval: RecrawlInterval) => {
+    setError(null);
+    const response = await fetch(`/api/datasets/${datasetId}/web-sources/${sourceId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ recrawlInterval }),
+    });
+    if (!response.ok) {
+      setError('재수집 주기를 저장하지 못했습니다');
+    }
+    await fetchSources();
+  };
+
+  const handleDelete = async (source: WebSourceData) => {
+    await confirm({
+      title: '웹사이트 소스 삭제',
+      message: `${source.url} 소스를 삭제하시겠습니까? 이미 수집된 문서는 데이터셋에 남습니다.`,
+      confirmText: '삭제',
+      cancelText: '취소',
+      variant: 'destructive',
+      onConfirm: async () => {
+        const response = await fetch(`/api/datasets/${datasetId}/web-sources/${source.id}`, {
+          method: 'DELETE',
+        });
+        if (!response.ok) {
+          throw new Error('웹사이트 소스 삭제에 실패했습니다.');
+        }
+        setSources((prev) => prev?.filter((s) => s.id !== source.id) ?? null);
+      },
+    });
+  };
+
+  if (!sources) return null;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Globe className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-medium text-foreground">웹사이트</h3>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 rounded-md border border-border px-3 py-1.5 text-sm text-foreground hover:bg-muted"
+          >
+            <Plus className="h-4 w-4" />
+            웹사이트 추가
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="mb-4 space-y-3 rounded-md border border-border p-3">
+          <div className="flex gap-2">
+            <select
+              value={form.sourceType}
+              onChange={(e) =>
+                setForm({ ...form, sourceType: e.target.value as 'page' | 'sitemap' })
+              }
+              className="rounded-md border border-border bg-background px-3 py-1.5 text-sm text-foreground"
+            >
+              <option value="page">페이지 (링크 따라가기)</option>
+              <option value="sitemap">sitemap.xml</option>
+            </select>
+            <input
+              type="url"
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              placeholder={
+                form.sourceType === 'sitemap'
+                  ? 'https://example.com/sitemap.xml'
+                  : 'https://example.com/docs'
+              }
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block">
+              <span className="mb-1 block text-xs text-muted-foreground">
+                포함할 경로 (한 줄에 하나, 비우면 전체)
+              </span>
+              <textarea
+                value={form.includePatterns}
+                onChange={(e) => setForm({ ...form, includePatterns: e.target.value })}
+                placeholder="/docs/**"
+                rows={2}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="mb-1 block text-xs text-muted-foreground">제외할 경로</span>
+              <textarea
+                value={form.excludePatterns}
+                onChange={(e) => setForm({ ...form, excludePatterns: e.target.value })}
+                placeholder="/blog/*"
+                rows={2}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <label className="block">
+              <span className="mb-1 block text-xs text-muted-foreground">최대 페이지</span>
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={form.maxPages}
+                onChange={(e) => setForm({ ...form, maxPages: Number(e.target.value) })}
+                className={`${inputClassName} w-24`}
+              />
+            </label>
+            {form.sourceType === 'page' && (
+              <label className="block">
+                <span className="mb-1 block text-xs text-muted-foreground">링크 깊이</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={form.maxDepth}
+                  onChange={(e) => setForm({ ...form, maxDepth: Number(e.target.value) })}
+                  className={`${inputClassName} w-20`}
+                />
+              </label>
+            )}
+            <label className="block">
+              <span className="mb-1 block text-xs text-muted-foreground">재수집</span>
+              <select
+                value={form.recrawlInterval}
+                onChange={(e) =>
+                  setForm({ ...form, recrawlInterval: e.target.value as RecrawlInterval })
+                }
+                className="rounded-md border border-border bg-background px-3 py-1.5 text-sm text-foreground"
+              >
+                {Object.entries(INTERVAL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setShowForm(false);
+                setForm(EMPTY_FORM);
+              }}
+              className="rounded-md px-3 py-1.5 text-sm text-muted-foreground hover:bg-muted"
+            >
+              취소
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={!form.url || isSubmitting}
+              className="rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              등록 후 수집
+            </button>
+          </div>
+        </div>
+      )}
+
+      {sources.length === 0 && !showForm && (
+        <p className="text-sm text-muted-foreground">
+          웹사이트 URL이나 sitemap.xml을 등록하면 페이지 본문을 문서로 수집합니다.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {sources.map((source) => (
+          <li key={source.id} className="rounded-md border border-border p-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-foreground">{source.url}</p>
+                <p className="text-xs text-muted-foreground">
+                  {source.sourceType === 'sitemap' ? 'sitemap' : `페이지 · 깊이 ${source.maxDepth}`}{' '}
+                  · 최대 {source.maxPages}페이지
+                  {source.includePatterns.length > 0 &&
+                    ` · 포함 ${source.includePatterns.join(', ')}`}
+                  {source.excludePatterns.length > 0 &&
+                    ` · 제외 ${source.excludePatterns.join(', ')}`}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <select
+                  value={source.recrawlInterval}
+                  onChange={(e) =>
+                    handleIntervalChange(source.id, e.target.value as RecrawlInterval)
+                  }
+                  className="rounded-md border border-border bg-background px-2 py-1 text-xs text-foreground"
+                  aria-label="재수집 주기"
+                >
+                  {Object.entries(INTERVAL_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleCrawl(source.id)}
+                  disabled={source.status === 'crawling'}
+                  className="flex items-center gap-1 rounded-md border border-border px-2 py-1 text-xs text-foreground hover:bg-muted disabled:opacity-50"
+                >
+                  <RefreshCw className="h-3 w-3" />
+                  지금 수집
+                </button>
+                <button
+                  onClick={() => handleDelete(source)}
+                  className="rounded-md p-1 text-muted-foreground hover:bg-muted hover:text-destructive"
+                  aria-label="웹사이트 소스 삭제"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-2 text-xs text-muted-foreground">
+              {source.status === 'crawling' ? (
+                <span className="flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  수집 중
+                </span>
+              ) : (
+                <>
+                  {source.lastCrawledAt && (
+                    <span>
+                      {formatDistanceToNow(new Date(source.lastCrawledAt), {
+                        addSuffix: true,
+                        locale: ko,
+                      })}{' '}
+                      수집
+                    </span>
+                  )}
+                  {source.lastCrawlStats && (
+                    <span>
+                      {' '}
+                      · 새 문서 {source.lastCrawlStats.created} · 변경{' '}
+                      {source.lastCrawlStats.updated} · 변경 없음 {source.lastCrawlStats.unchanged}
+                      {source.lastCrawlStats.failed > 0 &&
+                        ` · 실패 ${source.lastCrawlStats.failed}`}
+                    </span>
+                  )}
+                  {source.nextCrawlAt && source.recrawlInterval !== 'manual' && (
+                    <span>
+                      {' '}
+                      · 다음 수집{' '}
+                      {formatDistanceToNow(new Date(source.nextCrawlAt), {
+                        addSuffix: true,
+                        locale: ko,
+                      })}
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
+
+            {source.status === 'failed' && (
+              <p className="mt-1 text-xs text-destructive">
+                수집 실패: {source.lastError || '알 수 없는 오류'}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="mt-3 text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+function splitPatterns(input: string): string[] {
+  return input
+    .split(/[\n,]/)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
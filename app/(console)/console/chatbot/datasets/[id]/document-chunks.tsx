@@ -11,6 +11,7 @@ import { useState, useEffect, useTransition, useMemo } from 'react';
 import { ChevronDown, ChevronUp, Eye, EyeOff, Trash2, Search, X } from 'lucide-react';
 import { useAlertDialog } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
+import { formatSourceLocation } from '@/lib/parsers/source-location';
 
 interface ChunkItem {
   id: string;
@@ -21,6 +22,7 @@ interface ChunkItem {
   status: string;
   isActive: boolean;
   autoApproved: boolean;
+  metadata: Record<string, unknown> | null;
   createdAt: string;
 }
 
@@ -291,6 +293,13 @@ export function DocumentChunks({ documentId, onChunkUpdate, showSearch = false }
                     </span>
                   </button>
 
+                  {/* 원본 위치 (페이지/슬라이드/시트) */}
+                  {formatSourceLocation(chunk.metadata?.sourceLocation) && (
+                    <span className="text-xs text-muted-foreground">
+                      {formatSourceLocation(chunk.metadata?.sourceLocation)}
+                    </span>
+                  )}
+
                   {/* 상태 배지 */}
                   <ChunkStatusBadge status={chunk.status} />
 
@@ -0,0 +1,410 @@
+/**
+ * 문서 버전 이력 다이얼로그
+ *
+ * 좌측: 버전 목록 (업로더, 업로드 시각, 청크 변경 통계)
+ * 우측: 선택된 버전 상세 + 이전 버전과의 추출 텍스트 비교 + 복원
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { History, Upload, RotateCcw, GitCompare, CheckCircle2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { SimpleDialog } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useAlertDialog } from '@/components/ui/alert-dialog';
+import type { TextDiffResult } from '@/lib/document-versions/text-diff';
+
+const ACCEPT_STRING =
+  '.pdf,.txt,.md,.csv,.docx,.xlsx,.pptx,application/pdf,text/plain,text/markdown,text/csv,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+interface VersionItem {
+  id: string;
+  version: number;
+  filename: string;
+  fileSize: number | null;
+  uploadedBy: { id: string; email: string; name: string | null } | null;
+  hasExtractedText: boolean;
+  chunkStats: { total: number; new: number; reused: number; removed: number } | null;
+  processedAt: string | null;
+  createdAt: string | null;
+}
+
+interface DiffResponse {
+  from: number;
+  to: number;
+  available: boolean;
+  diff: TextDiffResult | null;
+}
+
+interface DocumentVersionsDialogProps {
+  documentId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  /** 새 버전 업로드/복원으로 문서가 바뀌었을 때 (재처리 시작 포함) */
+  onDocumentChanged: () => void;
+}
+
+export function DocumentVersionsDialog({
+  documentId,
+  isOpen,
+  onClose,
+  onDocumentChanged,
+}: DocumentVersionsDialogProps) {
+  const [versions, setVersions] = useState<VersionItem[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [diff, setDiff] = useState<DiffResponse | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { confirm } = useAlertDialog();
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions`);
+      if (!response.ok) {
+        throw new Error('버전 이력을 불러오지 못했습니다.');
+      }
+      const data = await response.json();
+      setVersions(data.versions);
+      setCurrentVersion(data.currentVersion);
+      setSelectedVersion((prev) => prev ?? data.currentVersion);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '버전 이력을 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchVersions();
+    }
+  }, [isOpen, fetchVersions]);
+
+  // 버전을 바꾸면 비교 결과 초기화
+  useEffect(() => {
+    setDiff(null);
+  }, [selectedVersion]);
+
+  const selected = versions.find((v) => v.version === selectedVersion) ?? null;
+  // 목록은 최신순이므로 바로 다음 항목이 이전 버전
+  const previous = selected ? (versions[versions.indexOf(selected) + 1] ?? null) : null;
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`/api/documents/${documentId}/versions`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || data.error || '새 버전 업로드에 실패했습니다.');
+      }
+      toast.success(`v${data.version} 업로드 완료`, {
+        description: '변경된 부분만 다시 처리합니다.',
+      });
+      setSelectedVersion(data.version);
+      await fetchVersions();
+      onDocumentChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '새 버전 업로드에 실패했습니다.');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRestore = async (version: VersionItem) => {
+    await confirm({
+      title: '이전 버전으로 복원',
+      message: `v${version.version}의 청크 구성으로 되돌립니다. 현재 버전에만 있는 청크는 검색에서 빠지고 보관되며, 청크 구성이 기록되지 않은 버전은 파일을 다시 처리합니다.`,
+      confirmText: '복원',
+      cancelText: '취소',
+      variant: 'destructive',
+      onConfirm: async () => {
+        const response = await fetch(
+          `/api/documents/${documentId}/versions/${version.version}/restore`,
+          { method: 'POST' }
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || '버전 복원에 실패했습니다.');
+        }
+        toast.success(
+          data.reprocessed
+            ? `v${version.version}으로 복원 중입니다.`
+            : `v${version.version}으로 복원했습니다.`
+        );
+        await fetchVersions();
+        onDocumentChanged();
+      },
+    });
+  };
+
+  const handleCompare = async () => {
+    if (!selected || !previous) return;
+    setIsDiffLoading(true);
+    try {
+      const response = await fetch(
+        `/api/documents/${documentId}/versions/diff?from=${previous.version}&to=${selected.version}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '버전 비교에 실패했습니다.');
+      }
+      setDiff(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '버전 비교에 실패했습니다.');
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
+  return (
+    <SimpleDialog
+      isOpen={isOpen}
+      onClose={onClose}
+      title="버전 이력"
+      description="문서의 업로드 이력을 확인하고 이전 버전으로 복원합니다."
+      maxWidth="4xl"
+    >
+      <div className="flex h-[520px] gap-4">
+        {/* 좌측: 버전 목록 */}
+        <div className="flex w-56 flex-shrink-0 flex-col border-r border-border pr-4">
+          <Button
+            size="sm"
+            className="mb-3 w-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            {isUploading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            새 버전 업로드
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept={ACCEPT_STRING}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(file);
+            }}
+          />
+
+          <div className="flex-1 space-y-2 overflow-y-auto pr-1">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="py-8 text-center text-xs text-muted-foreground">
+                아직 처리된 버전이 없습니다.
+              </p>
+            ) : (
+              versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedVersion(version.version)}
+                  className={`w-full rounded-lg border p-3 text-left transition-colors ${
+                    selectedVersion === version.version
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border hover:bg-muted/50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    {version.version === currentVersion ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <History className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span className="text-sm font-medium">v{version.version}</span>
+                    {version.version === currentVersion && (
+                      <span className="rounded-full bg-green-500/10 px-2 py-0.5 text-xs text-green-600 dark:text-green-400">
+                        현재
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-1 truncate text-xs text-muted-foreground">
+                    {formatUploader(version.uploadedBy)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatDate(version.createdAt)}</p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* 우측: 상세 + 비교 */}
+        <div className="flex min-w-0 flex-1 flex-col">
+          {selected ? (
+            <>
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-foreground">v{selected.version}</h3>
+                    <p className="truncate text-sm text-muted-foreground">{selected.filename}</p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-2">
+                    {previous && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleCompare}
+                        disabled={isDiffLoading}
+                      >
+                        {isDiffLoading ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <GitCompare className="mr-2 h-4 w-4" />
+                        )}
+                        v{previous.version}과 비교
+                      </Button>
+                    )}
+                    {selected.version !== currentVersion && (
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(selected)}>
+                        <RotateCcw className="mr-2 h-4 w-4" />이 버전으로 복원
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  <dt className="text-muted-foreground">업로드</dt>
+                  <dd className="truncate text-foreground">
+                    {formatUploader(selected.uploadedBy)} · {formatDate(selected.createdAt)}
+                  </dd>
+                  <dt className="text-muted-foreground">파일 크기</dt>
+                  <dd className="text-foreground">{formatFileSize(selected.fileSize)}</dd>
+                  <dt className="text-muted-foreground">청크</dt>
+                  <dd className="text-foreground">
+                    {selected.chunkStats ? (
+                      <>
+                        {selected.chunkStats.total}개 (
+                        <span className="text-green-500">신규 {selected.chunkStats.new}</span>
+                        {' · '}재사용 {selected.chunkStats.reused}
+                        {' · '}
+                        <span className="text-destructive">삭제 {selected.chunkStats.removed}</span>
+                        )
+                      </>
+                    ) : (
+                      '처리 전'
+                    )}
+                  </dd>
+                </dl>
+              </div>
+
+              <div className="mt-4 min-h-0 flex-1 overflow-y-auto rounded-lg border border-border">
+                {diff ? (
+                  <DiffView diff={diff} />
+                ) : (
+                  <p className="p-8 text-center text-sm text-muted-foreground">
+                    {previous
+                      ? '이전 버전과 비교하면 추출된 텍스트의 변경 내용이 표시됩니다.'
+                      : '첫 번째 버전입니다.'}
+                  </p>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+              버전을 선택하세요
+            </div>
+          )}
+        </div>
+      </div>
+    </SimpleDialog>
+  );
+}
+
+// 추출 텍스트 비교 결과
+function DiffView({ diff }: { diff: DiffResponse }) {
+  if (!diff.available || !diff.diff) {
+    return (
+      <p className="p-8 text-center text-sm text-muted-foreground">
+        아직 처리되지 않은 버전이 있어 비교할 수 없습니다.
+      </p>
+    );
+  }
+
+  const { hunks, added, removed, identical, tooLarge } = diff.diff;
+
+  if (identical) {
+    return (
+      <p className="p-8 text-center text-sm text-muted-foreground">
+        v{diff.from}과 v{diff.to}의 추출 텍스트가 같습니다.
+      </p>
+    );
+  }
+
+  if (tooLarge) {
+    return (
+      <p className="p-8 text-center text-sm text-muted-foreground">
+        변경 내용이 너무 많아 비교 결과를 표시할 수 없습니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="font-mono text-xs">
+      <div className="sticky top-0 border-b border-border bg-card px-3 py-2 text-muted-foreground">
+        v{diff.from} → v{diff.to}: <span className="text-green-500">+{added}</span>{' '}
+        <span className="text-destructive">-{removed}</span>
+      </div>
+      {hunks.map((hunk, i) => (
+        <div key={i} className="border-b border-border last:border-b-0">
+          <div className="bg-muted/50 px-3 py-1 text-muted-foreground">
+            @@ -{hunk.oldStart} +{hunk.newStart} @@
+          </div>
+          {hunk.lines.map((line, j) => (
+            <div
+              key={j}
+              className={`whitespace-pre-wrap break-all px-3 ${
+                line.type === 'added'
+                  ? 'bg-green-500/10 text-green-700 dark:text-green-400'
+                  : line.type === 'removed'
+                    ? 'bg-destructive/10 text-destructive'
+                    : 'text-foreground'
+              }`}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+              {line.text}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatUploader(uploadedBy: VersionItem['uploadedBy']): string {
+  if (!uploadedBy) return '시스템';
+  return uploadedBy.name || uploadedBy.email;
+}
+
+function formatDate(dateString: string | null): string {
+  if (!dateString) return '-';
+  return new Intl.DateTimeFormat('ko-KR', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(dateString));
+}
+
+function formatFileSize(bytes: number | null): string {
+  if (bytes === null) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -11,6 +11,7 @@ import { db, datasets, chatbotDatasets } from '@/lib/db';
 import { eq, and, desc } from 'drizzle-orm';
 import { triggerRagIndexGeneration } from '@/lib/chat/rag-index-generator';
 import { logger } from '@/lib/logger';
+import { getDefaultDatasetEmbedding } from '@/lib/rag/embedding';
 
 export interface DatasetSummary {
   id: string;
@@ -71,6 +72,7 @@ export async function createDataset(data: {
         tenantId: session.tenantId,
         name: data.name,
         description: data.description || null,
+        ...getDefaultDatasetEmbedding(),
       })
       .returning();
 
@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * 검색 디버거 설정 패널
+ *
+ * 디버거 실행에만 사용할 검색 설정(최대 청크 수, 최소 유사도, 소스/데이터셋 가중치)을 조정합니다.
+ * 챗봇 설정에는 저장되지 않습니다.
+ */
+
+import { MIN_SEARCH_WEIGHT, MAX_SEARCH_WEIGHT } from '@/lib/rag/fusion';
+import type { DebugSearchConfig } from '@/lib/chat/retrieval-trace';
+
+interface DebugConfigPanelProps {
+  label: string;
+  value: DebugSearchConfig;
+  /** 데이터셋 ID → 이름 */
+  datasetNames: Record<string, string>;
+  onChange: (value: DebugSearchConfig) => void;
+}
+
+function RangeField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format = (v) => String(v),
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between">
+        <span className="truncate text-sm text-foreground">{label}</span>
+        <span className="text-sm text-muted-foreground">{format(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full accent-primary"
+      />
+    </div>
+  );
+}
+
+export function DebugConfigPanel({ label, value, datasetNames, onChange }: DebugConfigPanelProps) {
+  const weightFormat = (v: number) => `×${v.toFixed(1)}`;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-4">
+      <p className="text-sm font-medium text-foreground">{label}</p>
+      <RangeField
+        label="최대 청크 수"
+        value={value.maxChunks}
+        min={1}
+        max={20}
+        step={1}
+        onChange={(maxChunks) => onChange({ ...value, maxChunks })}
+      />
+      <RangeField
+        label="최소 유사도 점수"
+        value={value.minScore}
+        min={0}
+        max={1}
+        step={0.05}
+        onChange={(minScore) => onChange({ ...value, minScore })}
+      />
+      <RangeField
+        label="문서 청크 가중치"
+        value={value.sourceWeights.chunks}
+        min={MIN_SEARCH_WEIGHT}
+        max={MAX_SEARCH_WEIGHT}
+        step={0.1}
+        format={weightFormat}
+        onChange={(chunks) =>
+          onChange({ ...value, sourceWeights: { ...value.sourceWeights, chunks } })
+        }
+      />
+      <RangeField
+        label="블로그 페이지 가중치"
+        value={value.sourceWeights.knowledgePages}
+        min={MIN_SEARCH_WEIGHT}
+        max={MAX_SEARCH_WEIGHT}
+        step={0.1}
+        format={weightFormat}
+        onChange={(knowledgePages) =>
+          onChange({ ...value, sourceWeights: { ...value.sourceWeights, knowledgePages } })
+        }
+      />
+      {Object.entries(value.datasetWeights).map(([datasetId, weight]) => (
+        <RangeField
+          key={datasetId}
+          label={`데이터셋: ${datasetNames[datasetId] ?? datasetId}`}
+          value={weight}
+          min={MIN_SEARCH_WEIGHT}
+          max={MAX_SEARCH_WEIGHT}
+          step={0.1}
+          format={weightFormat}
+          onChange={(next) =>
+            onChange({ ...value, datasetWeights: { ...value.datasetWeights, [datasetId]: next } })
+          }
+        />
+      ))}
+    </div>
+  );
+}
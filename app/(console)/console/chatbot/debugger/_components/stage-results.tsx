@@ -0,0 +1,104 @@
+'use client';
+
+/**
+ * 검색 단계별 결과 목록
+ *
+ * 단계(Dense/Sparse/Knowledge Page/RRF/최종)마다 결과 순위와 점수 구성을 표시합니다.
+ * 비교 모드에서는 기준 설정(A) 대비 순위 변화를 함께 표시합니다.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { describeScoreBreakdown } from '@/lib/rag/fusion';
+import { rankingKey, type DebugResultRow } from '@/lib/chat/retrieval-trace';
+
+const SOURCE_LABELS: Record<DebugResultRow['source'], string> = {
+  dense: 'Dense',
+  sparse: 'Sparse',
+  hybrid: '문서',
+  knowledge_page: '블로그',
+};
+
+interface StageResultsProps {
+  title: string;
+  description?: string;
+  rows: DebugResultRow[];
+  /** rankingKey → 순위 변화 (비교 모드) */
+  rankDeltas?: Record<string, number | null>;
+  defaultOpen?: boolean;
+}
+
+function RankDelta({ delta }: { delta: number | null | undefined }) {
+  if (delta === undefined) return null;
+  if (delta === null) {
+    return <span className="text-xs text-blue-500">NEW</span>;
+  }
+  if (delta === 0) {
+    return <span className="text-xs text-muted-foreground">-</span>;
+  }
+  return (
+    <span className={`text-xs ${delta > 0 ? 'text-green-500' : 'text-destructive'}`}>
+      {delta > 0 ? `▲${delta}` : `▼${-delta}`}
+    </span>
+  );
+}
+
+export function StageResults({
+  title,
+  description,
+  rows,
+  rankDeltas,
+  defaultOpen = false,
+}: StageResultsProps) {
+  return (
+    <details open={defaultOpen} className="rounded-lg border border-border">
+      <summary className="flex cursor-pointer items-center justify-between px-4 py-3 text-sm font-medium text-foreground">
+        <span>{title}</span>
+        <span className="text-xs text-muted-foreground">{rows.length}건</span>
+      </summary>
+
+      <div className="border-t border-border">
+        {description && (
+          <p className="px-4 pt-3 text-xs text-muted-foreground">{description}</p>
+        )}
+        {rows.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">결과가 없습니다</p>
+        ) : (
+          <ol className="divide-y divide-border">
+            {rows.map((row, index) => (
+              <li key={rankingKey(row)} className="space-y-1 px-4 py-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="font-mono text-muted-foreground">#{index + 1}</span>
+                  <RankDelta delta={rankDeltas?.[rankingKey(row)]} />
+                  <Badge variant="outline">{SOURCE_LABELS[row.source]}</Badge>
+                  <span className="font-mono text-foreground">{row.score.toFixed(4)}</span>
+                  {row.denseScore !== undefined && (
+                    <span
+                      className={`font-mono ${row.belowMinScore ? 'text-yellow-500' : 'text-muted-foreground'}`}
+                      title={row.belowMinScore ? '최소 유사도 미만' : undefined}
+                    >
+                      cos {row.denseScore.toFixed(3)}
+                    </span>
+                  )}
+                  {row.rerankScore !== undefined && (
+                    <Badge variant="secondary">
+                      rerank{' '}
+                      {Number.isInteger(row.rerankScore)
+                        ? row.rerankScore
+                        : row.rerankScore.toFixed(3)}
+                    </Badge>
+                  )}
+                </div>
+                {row.scoreBreakdown && (
+                  <p className="font-mono text-xs text-muted-foreground">
+                    {describeScoreBreakdown(row.scoreBreakdown)}
+                  </p>
+                )}
+                <p className="line-clamp-3 text-sm text-foreground">{row.contentPreview}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,410 @@
+'use client';
+
+/**
+ * 검색 디버거 페이지
+ * 질문 하나가 Intent 분류 → Query Rewriting → Dense/Sparse/블로그 검색 → RRF 병합 → Re-ranking →
+ * 최종 프롬프트까지 어떻게 처리되는지 단계별로 확인하고, 두 검색 설정을 나란히 비교
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Bug, Loader2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useCurrentChatbot } from '../../hooks/use-console-state';
+import { NoChatbotState } from '../../components/no-chatbot-state';
+import { DebugConfigPanel } from './_components/debug-config-panel';
+import { StageResults } from './_components/stage-results';
+import {
+  compareRankings,
+  resolveDebugSearchConfig,
+  type DebugSearchConfig,
+  type RetrievalDebugResult,
+  type RetrievalDebugRun,
+} from '@/lib/chat/retrieval-trace';
+
+const INTENT_LABELS: Record<string, string> = {
+  DOMAIN_QUERY: '도메인 질문',
+  CHITCHAT: '일상 대화',
+  OUT_OF_SCOPE: '범위 외',
+};
+
+const RERANKER_LABELS: Record<RetrievalDebugRun['rerank']['reranker'], string> = {
+  llm: 'LLM',
+  cross_encoder: 'Cross-Encoder',
+};
+
+const QUERY_EXPANSION_LABELS: Record<RetrievalDebugResult['queryExpansion']['strategy'], string> = {
+  none: '사용 안 함',
+  multi_query: 'Multi-Query',
+  hyde: 'HyDE',
+};
+
+// Re-ranking을 건너뛴 사유
+const RERANK_SKIP_DESCRIPTIONS: Partial<Record<RetrievalDebugRun['rerank']['reason'], string>> = {
+  few_results: '검색 결과가 적어 Re-ranking 없이 상위 결과를 사용했습니다',
+  well_distributed: '점수 분포가 충분해 Re-ranking 없이 상위 결과를 사용했습니다',
+};
+
+interface ChatbotSearchData {
+  chatbot: {
+    searchConfig: Parameters<typeof resolveDebugSearchConfig>[0];
+    datasets: Array<{ id: string; name: string; weight: number | null }>;
+  };
+}
+
+export default function RetrievalDebuggerPage() {
+  const { currentChatbot } = useCurrentChatbot();
+  const [query, setQuery] = useState('');
+  const [compareMode, setCompareMode] = useState(false);
+  const [configs, setConfigs] = useState<[DebugSearchConfig, DebugSearchConfig] | null>(null);
+  const [datasetNames, setDatasetNames] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<RetrievalDebugResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // 챗봇의 현재 검색 설정을 A/B 초기값으로 사용
+  const loadSearchConfig = useCallback(async () => {
+    if (!currentChatbot?.id) return;
+
+    try {
+      const response = await fetch(`/api/chatbots/${currentChatbot.id}`);
+      if (!response.ok) throw new Error('챗봇 설정을 불러올 수 없습니다');
+
+      const { chatbot }: ChatbotSearchData = await response.json();
+      const datasets = chatbot.datasets || [];
+      const base = resolveDebugSearchConfig(
+        chatbot.searchConfig,
+        Object.fromEntries(datasets.map((d) => [d.id, d.weight ?? 1]))
+      );
+      setConfigs([base, base]);
+      setDatasetNames(Object.fromEntries(datasets.map((d) => [d.id, d.name])));
+      setResult(null);
+    } catch (error) {
+      console.error('Failed to load search config:', error);
+      toast.error('챗봇 설정을 불러올 수 없습니다');
+    }
+  }, [currentChatbot?.id]);
+
+  useEffect(() => {
+    loadSearchConfig();
+  }, [loadSearchConfig]);
+
+  const handleRun = async () => {
+    if (!currentChatbot?.id || !configs || !query.trim()) return;
+    setIsRunning(true);
+
+    try {
+      const response = await fetch(`/api/chatbots/${currentChatbot.id}/retrieval-debug`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query: query.trim(),
+          configs: compareMode ? configs : [configs[0]],
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? '검색 디버깅에 실패했습니다');
+      }
+
+      const data: { result: RetrievalDebugResult } = await response.json();
+      setResult(data.result);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '검색 디버깅에 실패했습니다');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // 챗봇 없음 상태 (모든 훅 호출 후 체크)
+  if (!currentChatbot) {
+    return <NoChatbotState />;
+  }
+
+  const updateConfig = (index: 0 | 1, value: DebugSearchConfig) => {
+    setConfigs((prev) => {
+      if (!prev) return prev;
+      const next: [DebugSearchConfig, DebugSearchConfig] = [prev[0], prev[1]];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {/* 페이지 헤더 */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-foreground">검색 디버거</h1>
+        <p className="mt-1 text-muted-foreground">
+          챗봇이 왜 그렇게 답했는지 검색 단계별로 확인하세요. 답변은 생성하지 않으며 대화 내역에도
+          남지 않습니다
+        </p>
+      </div>
+
+      {/* 질문 + 설정 */}
+      <Card size="md">
+        <CardContent className="space-y-4">
+          <Textarea
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="테스트할 질문을 입력하세요"
+            rows={2}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleRun();
+            }}
+          />
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={compareMode}
+                onChange={(e) => setCompareMode(e.target.checked)}
+                className="accent-primary"
+              />
+              두 검색 설정 비교
+            </label>
+            <Button onClick={handleRun} disabled={isRunning || !configs || !query.trim()}>
+              {isRunning ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              실행
+            </Button>
+          </div>
+
+          {configs && (
+            <div className={`grid gap-4 ${compareMode ? 'lg:grid-cols-2' : ''}`}>
+              <DebugConfigPanel
+                label={compareMode ? '설정 A' : '검색 설정'}
+                value={configs[0]}
+                datasetNames={datasetNames}
+                onChange={(value) => updateConfig(0, value)}
+              />
+              {compareMode && (
+                <DebugConfigPanel
+                  label="설정 B"
+                  value={configs[1]}
+                  datasetNames={datasetNames}
+                  onChange={(value) => updateConfig(1, value)}
+                />
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result ? (
+        <>
+          {/* 공통 단계: Intent + Query Rewriting */}
+          <Card size="md">
+            <CardHeader>
+              <CardTitle>질문 분석</CardTitle>
+              <CardDescription>검색 설정과 무관하게 한 번만 수행되는 단계입니다</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="w-28 text-muted-foreground">Intent</span>
+                <Badge>{INTENT_LABELS[result.intent.intent] ?? result.intent.intent}</Badge>
+                <span className="text-muted-foreground">
+                  신뢰도 {result.intent.confidence.toFixed(2)}
+                  {result.intent.rulesMatch ? ' · 규칙 기반' : ' · LLM'}
+                </span>
+              </div>
+              {result.intent.reasoning && (
+                <p className="pl-30 text-xs text-muted-foreground">{result.intent.reasoning}</p>
+              )}
+              <div className="flex gap-2">
+                <span className="w-28 shrink-0 text-muted-foreground">재작성 쿼리</span>
+                <span className="text-foreground">
+                  {result.rewrittenQuery}
+                  {result.rewrittenQuery === result.query && (
+                    <span className="ml-2 text-xs text-muted-foreground">(변경 없음)</span>
+                  )}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <span className="w-28 shrink-0 text-muted-foreground">쿼리 확장</span>
+                <div className="space-y-1 text-foreground">
+                  <Badge variant="secondary">
+                    {QUERY_EXPANSION_LABELS[result.queryExpansion.strategy]}
+                  </Badge>
+                  {result.queryExpansion.strategy === 'multi_query' && (
+                    <ul className="list-inside list-disc text-xs text-muted-foreground">
+                      {result.queryExpansion.queries.slice(1).map((q) => (
+                        <li key={q}>{q}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {result.queryExpansion.hypotheticalAnswer && (
+                    <p className="text-xs text-muted-foreground">
+                      {result.queryExpansion.hypotheticalAnswer}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <span className="w-28 shrink-0 text-muted-foreground">도메인 컨텍스트</span>
+                <span className="text-foreground">
+                  {result.domainContext.expertiseArea || '(없음)'}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* 설정별 검색 결과 */}
+          <div className={`grid gap-6 ${result.runs.length > 1 ? 'lg:grid-cols-2' : ''}`}>
+            {result.runs.map((run, index) => (
+              <RunColumn
+                key={index}
+                label={result.runs.length > 1 ? `설정 ${index === 0 ? 'A' : 'B'}` : '검색 결과'}
+                run={run}
+                baseline={index > 0 ? result.runs[0] : undefined}
+                hyde={!!result.queryExpansion.hypotheticalAnswer}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        <Card size="md">
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <Bug className="h-8 w-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              질문을 입력하고 실행하면 단계별 검색 결과가 표시됩니다
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 검색 설정 1개의 단계별 결과
+ */
+function RunColumn({
+  label,
+  run,
+  baseline,
+  hyde,
+}: {
+  label: string;
+  run: RetrievalDebugRun;
+  /** Dense 검색에 HyDE 가상 답변을 사용했는지 */
+  hyde: boolean;
+  /** 비교 기준 (설정 A) */
+  baseline?: RetrievalDebugRun;
+}) {
+  const finalDeltas = baseline
+    ? compareRankings(baseline.stages.final, run.stages.final)
+    : undefined;
+  const totalMs = Object.values(run.timings).reduce((sum, ms) => sum + ms, 0);
+
+  return (
+    <Card size="md">
+      <CardHeader>
+        <CardTitle>{label}</CardTitle>
+        <CardDescription>
+          검색 쿼리: {run.enrichedQuery} · {totalMs}ms
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <StageResults
+          title="Dense 검색"
+          description={
+            hyde
+              ? 'HyDE 가상 답변 임베딩 기준 코사인 유사도 순. 노란색은 최소 유사도 미만입니다'
+              : '임베딩 코사인 유사도 순. 노란색은 최소 유사도 미만입니다'
+          }
+          rows={run.stages.dense}
+        />
+        <StageResults title="Sparse 검색" description="PGroonga 전문 검색 점수 순" rows={run.stages.sparse} />
+        <StageResults title="블로그 페이지 검색" rows={run.stages.knowledgePages} />
+        <StageResults
+          title="RRF 병합"
+          description="Dense/Sparse 순위 기여도 × 데이터셋 가중치"
+          rows={run.stages.fused}
+        />
+        <StageResults
+          title="문서 + 블로그 병합"
+          description="청크/블로그 순위 기여도 × 소스 가중치"
+          rows={run.stages.merged}
+        />
+        {run.stages.multiQuery && (
+          <StageResults
+            title="Multi-Query 병합"
+            description="쿼리 표현별 검색 결과의 순위 기여도 합산"
+            rows={run.stages.multiQuery}
+          />
+        )}
+        <StageResults
+          title={
+            run.rerankApplied
+              ? `최종 컨텍스트 (${RERANKER_LABELS[run.rerank.reranker]} Re-ranking)`
+              : '최종 컨텍스트'
+          }
+          description={
+            run.rerankApplied
+              ? run.rerank.reranker === 'llm'
+                ? 'LLM 관련성 점수(1-10) 순'
+                : 'Cross-Encoder 관련성 점수 순'
+              : run.rerank.failed
+                ? 'Re-ranking에 실패해 검색 순위 상위 결과를 사용했습니다'
+                : (RERANK_SKIP_DESCRIPTIONS[run.rerank.reason] ??
+                  '검색 결과가 최대 청크 수 이하라 Re-ranking 없이 사용했습니다')
+          }
+          rows={run.stages.final}
+          rankDeltas={finalDeltas}
+          defaultOpen
+        />
+
+        {/* 라우팅 결정 */}
+        <div className="space-y-1 rounded-lg border border-border px-4 py-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-foreground">라우팅</span>
+            <Badge variant={run.route.shouldUseRAG ? 'success' : 'warning'}>
+              {run.route.shouldUseRAG ? 'RAG 답변' : run.route.noResult ? '정보 없음' : '직접 응답'}
+            </Badge>
+            <span className="text-muted-foreground">
+              {INTENT_LABELS[run.route.intent] ?? run.route.intent} ·{' '}
+              {run.route.confidence.toFixed(2)}
+            </span>
+          </div>
+          {run.route.reasoning && (
+            <p className="text-xs text-muted-foreground">{run.route.reasoning}</p>
+          )}
+          {run.route.response && (
+            <p className="text-sm text-foreground">{run.route.response}</p>
+          )}
+        </div>
+
+        {/* 최종 프롬프트 */}
+        {run.prompt && (
+          <details className="rounded-lg border border-border">
+            <summary className="cursor-pointer px-4 py-3 text-sm font-medium text-foreground">
+              최종 프롬프트
+            </summary>
+            <div className="space-y-3 border-t border-border p-4">
+              <div>
+                <p className="mb-1 text-xs font-medium text-muted-foreground">시스템 프롬프트</p>
+                <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs text-foreground">
+                  {run.prompt.systemPrompt}
+                </pre>
+              </div>
+              <div>
+                <p className="mb-1 text-xs font-medium text-muted-foreground">사용자 프롬프트</p>
+                <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs text-foreground">
+                  {run.prompt.userPrompt}
+                </pre>
+              </div>
+            </div>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,8 +30,10 @@ const ALLOWED_TYPES = [
   'text/markdown',
   'text/csv',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
 ];
-const ALLOWED_EXTENSIONS = ['.pdf', '.txt', '.md', '.csv', '.docx'];
+const ALLOWED_EXTENSIONS = ['.pdf', '.txt', '.md', '.csv', '.docx', '.xlsx', '.pptx'];
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 // UploadState는 document-preview-modal.tsx에서 import
@@ -129,7 +131,7 @@ export function DocumentUpload() {
     const isValidExtension = ALLOWED_EXTENSIONS.includes(extension);
 
     if (!isValidType && !isValidExtension) {
-      return 'PDF, TXT, MD, CSV, DOCX 파일만 업로드할 수 있습니다.';
+      return 'PDF, TXT, MD, CSV, DOCX, XLSX, PPTX 파일만 업로드할 수 있습니다.';
     }
     if (file.size > MAX_FILE_SIZE) {
       return '파일 크기는 10MB를 초과할 수 없습니다.';
@@ -516,7 +518,7 @@ export function DocumentUpload() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".pdf,.txt,.md,.csv,.docx,application/pdf,text/plain,text/markdown,text/csv,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          accept=".pdf,.txt,.md,.csv,.docx,.xlsx,.pptx,application/pdf,text/plain,text/markdown,text/csv,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.openxmlformats-officedocument.presentationml.presentation"
           onChange={handleFileSelect}
           className="hidden"
           disabled={destination === 'dataset' && datasets.length === 0}
@@ -529,7 +531,7 @@ export function DocumentUpload() {
               파일을 드래그하거나 클릭하여 업로드
             </p>
             <p className="mt-2 text-sm text-muted-foreground">
-              PDF, TXT, MD, CSV, DOCX 파일 (최대 10MB)
+              PDF, TXT, MD, CSV, DOCX, XLSX, PPTX 파일 (최대 10MB)
             </p>
             <p className="mt-1 text-xs text-muted-foreground">
               AI 분석 미리보기 후 업로드할 수 있습니다
@@ -100,6 +100,8 @@ export function UploadGuide() {
                 { ext: 'CSV', desc: '스프레드시트' },
                 { ext: 'PDF', desc: 'PDF 문서' },
                 { ext: 'DOCX', desc: 'Word 문서' },
+                { ext: 'XLSX', desc: 'Excel (시트별)' },
+                { ext: 'PPTX', desc: 'PowerPoint (슬라이드별)' },
                 { ext: 'JSON', desc: 'JSON 데이터' },
               ].map((format) => (
                 <span
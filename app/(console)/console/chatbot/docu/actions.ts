@@ -8,10 +8,14 @@
 import { validateSession } from '@/lib/auth';
 import { getSession } from '@/lib/auth/session';
 import { db, documents, datasets, chunks, chatbotDatasets } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { eq, desc, count, sql, inArray, and, asc } from 'drizzle-orm';
 import { logger } from '@/lib/logger';
 import { revalidatePath } from 'next/cache';
 import { canReprocessDocument } from '@/lib/constants/document';
+import { invalidateCacheForDatasets } from '@/lib/chat/cache';
+import { reindexChunkTerms } from '@/lib/rag/sparse-index';
+import { inngest } from '@/inngest/client';
 
 // ============================================
 // 문서 관리 타입 & 액션 (Documents)
@@ -137,7 +141,7 @@ export async function getDocuments(
               count: count(),
             })
             .from(chunks)
-            .where(inArray(chunks.documentId, docIds))
+            .where(and(inArray(chunks.documentId, docIds), isCurrentVersionChunk()))
             .groupBy(chunks.documentId)
         : [];
 
@@ -185,7 +189,7 @@ export async function deleteDocument(documentId: string): Promise<{ success: boo
     // 문서 소유권 확인
     const doc = await db.query.documents.findFirst({
       where: eq(documents.id, documentId),
-      columns: { tenantId: true },
+      columns: { tenantId: true, datasetId: true },
     });
 
     if (!doc || doc.tenantId !== session.tenantId) {
@@ -195,6 +199,11 @@ export async function deleteDocument(documentId: string): Promise<{ success: boo
     // 삭제 (cascade로 청크도 함께 삭제됨)
     await db.delete(documents).where(eq(documents.id, documentId));
 
+    // 연결된 챗봇들의 응답 캐시 무효화
+    if (doc.datasetId) {
+      await invalidateCacheForDatasets([doc.datasetId], 'document_deleted');
+    }
+
     revalidatePath('/console/chatbot/docu');
 
     logger.info('Document deleted', { documentId, tenantId: session.tenantId });
@@ -421,7 +430,7 @@ export async function getLibraryDocuments(chatbotId: string): Promise<LibraryDoc
           pendingCount: sql<number>`count(*) FILTER (WHERE status = 'pending')::int`,
         })
         .from(chunks)
-        .where(eq(chunks.documentId, doc.id));
+        .where(and(eq(chunks.documentId, doc.id), isCurrentVersionChunk()));
 
       return {
         id: doc.id,
@@ -503,7 +512,7 @@ export async function moveDocumentToDataset(
   try {
     // 대상 데이터셋 존재 및 권한 확인
     const [targetDataset] = await db
-      .select({ id: datasets.id })
+      .select({ id: datasets.id, embeddingModel: datasets.embeddingModel })
       .from(datasets)
       .where(and(eq(datasets.id, targetDatasetId), eq(datasets.tenantId, tenantId)));
 
@@ -528,9 +537,14 @@ export async function moveDocumentToDataset(
       return { success: false, error: '이미 데이터셋에 속한 문서입니다. 복제 기능을 사용하세요.' };
     }
 
-    // 문서의 청크 수 조회
+    // 문서의 청크 수 및 재임베딩 필요 여부 조회
     const [chunkStats] = await db
-      .select({ count: sql<number>`count(*)::int` })
+      .select({
+        count: sql<number>`count(*) FILTER (WHERE ${isCurrentVersionChunk()})::int`,
+        staleEmbeddingCount: sql<number>`count(*) FILTER (
+          WHERE ${chunks.embeddingModel} <> ${targetDataset.embeddingModel}
+        )::int`,
+      })
       .from(chunks)
       .where(eq(chunks.documentId, documentId));
 
@@ -543,9 +557,15 @@ export async function moveDocumentToDataset(
       .where(eq(documents.id, documentId));
 
     // 해당 문서의 모든 청크 datasetId 업데이트
+    // 임베딩 모델이 대상 데이터셋과 다르면 벡터를 비우고 재임베딩 작업으로 다시 채움
     await db
       .update(chunks)
-      .set({ datasetId: targetDatasetId, updatedAt: new Date() })
+      .set({
+        datasetId: targetDatasetId,
+        embedding: sql`CASE WHEN ${chunks.embeddingModel} = ${targetDataset.embeddingModel} THEN ${chunks.embedding} ELSE NULL END`,
+        embeddingModel: targetDataset.embeddingModel,
+        updatedAt: new Date(),
+      })
       .where(eq(chunks.documentId, documentId));
 
     // 대상 데이터셋 통계 업데이트
@@ -558,6 +578,15 @@ export async function moveDocumentToDataset(
       })
       .where(eq(datasets.id, targetDatasetId));
 
+    if ((chunkStats?.staleEmbeddingCount || 0) > 0) {
+      await inngest.send({
+        name: 'document/reembed.requested',
+        data: { documentId, datasetId: targetDatasetId, tenantId },
+      });
+    }
+
+    await invalidateCacheForDatasets([targetDatasetId], 'document_moved');
+
     revalidatePath('/console/chatbot/docu');
     revalidatePath('/console/chatbot/datasets');
     revalidatePath(`/console/chatbot/datasets/${targetDatasetId}`);
@@ -572,7 +601,7 @@ export async function moveDocumentToDataset(
 /**
  * 문서를 다른 데이터셋으로 복제
  * 이미 데이터셋에 속한 문서를 다른 데이터셋으로 복제
- * 임베딩은 재계산 없이 복사
+ * 임베딩 모델이 같으면 벡터를 재계산 없이 복사하고, 다르면 재임베딩 작업을 요청
  */
 export async function duplicateDocumentToDataset(
   documentId: string,
@@ -588,7 +617,7 @@ export async function duplicateDocumentToDataset(
   try {
     // 대상 데이터셋 존재 및 권한 확인
     const [targetDataset] = await db
-      .select({ id: datasets.id })
+      .select({ id: datasets.id, embeddingModel: datasets.embeddingModel })
       .from(datasets)
       .where(and(eq(datasets.id, targetDatasetId), eq(datasets.tenantId, tenantId)));
 
@@ -638,33 +667,52 @@ export async function duplicateDocumentToDataset(
     const sourceChunks = await db
       .select()
       .from(chunks)
-      .where(and(eq(chunks.documentId, documentId), eq(chunks.tenantId, tenantId)));
+      .where(
+        and(
+          eq(chunks.documentId, documentId),
+          eq(chunks.tenantId, tenantId),
+          isCurrentVersionChunk()
+        )
+      );
 
     // 청크 복제
-    let copiedChunkCount = 0;
+    const copiedChunkIds: string[] = [];
+    let needsReembed = false;
     for (const chunk of sourceChunks) {
-      await db.insert(chunks).values({
-        tenantId: chunk.tenantId,
-        documentId: newDoc.id,
-        datasetId: targetDatasetId,
-        sourceChunkId: chunk.id,
-        content: chunk.content,
-        embedding: chunk.embedding,
-        contentTsv: chunk.contentTsv,
-        chunkIndex: chunk.chunkIndex,
-        qualityScore: chunk.qualityScore,
-        status: chunk.status,
-        autoApproved: chunk.autoApproved,
-        version: 1,
-        isActive: true,
-        metadata: {
-          ...(typeof chunk.metadata === 'object' && chunk.metadata !== null ? chunk.metadata : {}),
-          copiedFrom: chunk.id,
-          copiedAt: new Date().toISOString(),
-        },
-      });
-      copiedChunkCount++;
+      const keepsEmbedding = chunk.embeddingModel === targetDataset.embeddingModel;
+      needsReembed ||= !keepsEmbedding;
+
+      const [copiedChunk] = await db
+        .insert(chunks)
+        .values({
+          tenantId: chunk.tenantId,
+          documentId: newDoc.id,
+          datasetId: targetDatasetId,
+          sourceChunkId: chunk.id,
+          content: chunk.content,
+          // 임베딩 모델이 같을 때만 벡터 복사 (다르면 재임베딩 작업으로 생성)
+          embedding: keepsEmbedding ? chunk.embedding : null,
+          embeddingModel: targetDataset.embeddingModel,
+          contentTsv: chunk.contentTsv,
+          chunkIndex: chunk.chunkIndex,
+          qualityScore: chunk.qualityScore,
+          status: chunk.status,
+          autoApproved: chunk.autoApproved,
+          version: 1,
+          isActive: true,
+          metadata: {
+            ...(typeof chunk.metadata === 'object' && chunk.metadata !== null ? chunk.metadata : {}),
+            copiedFrom: chunk.id,
+            copiedAt: new Date().toISOString(),
+          },
+        })
+        .returning({ id: chunks.id });
+      copiedChunkIds.push(copiedChunk.id);
     }
+    const copiedChunkCount = copiedChunkIds.length;
+
+    // 복제된 청크 BM25 Sparse 인덱싱
+    await reindexChunkTerms(copiedChunkIds);
 
     // 대상 데이터셋 통계 업데이트
     await db
@@ -676,6 +724,15 @@ export async function duplicateDocumentToDataset(
       })
       .where(eq(datasets.id, targetDatasetId));
 
+    if (needsReembed) {
+      await inngest.send({
+        name: 'document/reembed.requested',
+        data: { documentId: newDoc.id, datasetId: targetDatasetId, tenantId },
+      });
+    }
+
+    await invalidateCacheForDatasets([targetDatasetId], 'document_duplicated');
+
     revalidatePath('/console/chatbot/docu');
     revalidatePath('/console/chatbot/datasets');
     revalidatePath(`/console/chatbot/datasets/${targetDatasetId}`);
@@ -726,7 +783,7 @@ export async function unassignDocumentFromDataset(
     const [chunkStats] = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(chunks)
-      .where(eq(chunks.documentId, documentId));
+      .where(and(eq(chunks.documentId, documentId), isCurrentVersionChunk()));
 
     const chunkCount = chunkStats?.count || 0;
 
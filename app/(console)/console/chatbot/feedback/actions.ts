@@ -0,0 +1,135 @@
+'use server';
+
+/**
+ * 답변 피드백 서버 액션
+ * 싫어요 답변 조회 및 관련 청크 검토 큐 전송
+ */
+
+import { validateSession } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { revalidatePath } from 'next/cache';
+import {
+  getDownvotedAnswers,
+  getFeedback,
+  getFeedbackStats,
+  updateFeedbackReviewStatus,
+  type DownvotedAnswer,
+  type FeedbackStats,
+} from '@/lib/chat/feedback';
+import { flagChunksForReview } from '@/lib/review/service';
+
+export interface FeedbackListResult {
+  items: DownvotedAnswer[];
+  stats: FeedbackStats;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+const PAGE_SIZE = 20;
+
+/**
+ * 싫어요 답변 목록 + 만족도 통계 조회
+ */
+export async function getFeedbackList(
+  chatbotId: string,
+  page: number = 1
+): Promise<FeedbackListResult> {
+  const session = await validateSession();
+
+  const emptyResult: FeedbackListResult = {
+    items: [],
+    stats: { total: 0, up: 0, down: 0, satisfactionRate: null },
+    pagination: { page, limit: PAGE_SIZE, total: 0, totalPages: 0 },
+  };
+
+  if (!session) {
+    return emptyResult;
+  }
+
+  try {
+    const [{ items, total }, stats] = await Promise.all([
+      getDownvotedAnswers(session.tenantId, chatbotId, { page, limit: PAGE_SIZE }),
+      getFeedbackStats(session.tenantId, chatbotId),
+    ]);
+
+    return {
+      items,
+      stats,
+      pagination: {
+        page,
+        limit: PAGE_SIZE,
+        total,
+        totalPages: Math.ceil(total / PAGE_SIZE),
+      },
+    };
+  } catch (error) {
+    logger.error('Failed to get feedback list', error as Error, { chatbotId });
+    return emptyResult;
+  }
+}
+
+/**
+ * 싫어요 답변의 검색 청크를 검토 큐로 전송
+ * 상태는 그대로 두고 검토 요청만 표시 (승인된 청크가 검색에서 빠지지 않도록)
+ */
+export async function sendFeedbackChunksToReview(
+  feedbackId: string
+): Promise<{ success: boolean; updated: number; error?: string }> {
+  const session = await validateSession();
+  if (!session) {
+    return { success: false, updated: 0, error: '인증이 필요합니다.' };
+  }
+
+  try {
+    const feedback = await getFeedback(session.tenantId, feedbackId);
+    if (!feedback) {
+      return { success: false, updated: 0, error: '피드백을 찾을 수 없습니다.' };
+    }
+
+    const chunkIds = feedback.chunkIds ?? [];
+    if (chunkIds.length === 0) {
+      return { success: false, updated: 0, error: '연결된 청크가 없습니다.' };
+    }
+
+    const updated = await flagChunksForReview(session.tenantId, chunkIds, {
+      reason: 'negative_feedback',
+      feedbackId,
+    });
+
+    await updateFeedbackReviewStatus(session.tenantId, feedbackId, 'sent_to_review');
+
+    logger.info('Feedback chunks sent to review', {
+      tenantId: session.tenantId,
+      feedbackId,
+      updated,
+    });
+
+    revalidatePath('/console/chatbot/review');
+    return { success: true, updated };
+  } catch (error) {
+    logger.error('Failed to send feedback chunks to review', error as Error, { feedbackId });
+    return { success: false, updated: 0, error: '검토 큐 전송 중 오류가 발생했습니다.' };
+  }
+}
+
+/**
+ * 싫어요 답변 무시 처리
+ */
+export async function dismissFeedback(feedbackId: string): Promise<{ success: boolean }> {
+  const session = await validateSession();
+  if (!session) {
+    return { success: false };
+  }
+
+  try {
+    await updateFeedbackReviewStatus(session.tenantId, feedbackId, 'dismissed');
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to dismiss feedback', error as Error, { feedbackId });
+    return { success: false };
+  }
+}
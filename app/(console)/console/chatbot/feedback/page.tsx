@@ -0,0 +1,262 @@
+'use client';
+
+/**
+ * 답변 피드백 페이지
+ * 사용자가 싫어요를 누른 답변과 검색된 청크를 확인하고 검토 큐로 전송
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ThumbsUp, ThumbsDown, Send, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useCurrentChatbot } from '../../hooks/use-console-state';
+import { NoChatbotState } from '../../components/no-chatbot-state';
+import {
+  getFeedbackList,
+  sendFeedbackChunksToReview,
+  dismissFeedback,
+  type FeedbackListResult,
+} from './actions';
+import type { DownvotedAnswer } from '@/lib/chat/feedback';
+
+const REVIEW_STATUS_LABELS: Record<DownvotedAnswer['reviewStatus'], string> = {
+  open: '미처리',
+  sent_to_review: '검토 요청됨',
+  dismissed: '무시됨',
+};
+
+export default function FeedbackPage() {
+  const { currentChatbot } = useCurrentChatbot();
+  const [data, setData] = useState<FeedbackListResult | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!currentChatbot?.id) return;
+
+    setIsLoading(true);
+    try {
+      const result = await getFeedbackList(currentChatbot.id, page);
+      setData(result);
+    } catch (error) {
+      console.error('Failed to load feedback:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentChatbot?.id, page]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // 청크 검토 큐 전송
+  const handleSendToReview = async (feedbackId: string) => {
+    setPendingId(feedbackId);
+    try {
+      const result = await sendFeedbackChunksToReview(feedbackId);
+      if (result.success) {
+        toast.success(`${result.updated}개 청크에 검토 요청을 표시했습니다`);
+        await loadData();
+      } else {
+        toast.error(result.error || '검토 큐 전송에 실패했습니다');
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // 무시 처리
+  const handleDismiss = async (feedbackId: string) => {
+    setPendingId(feedbackId);
+    try {
+      const result = await dismissFeedback(feedbackId);
+      if (result.success) {
+        await loadData();
+      } else {
+        toast.error('처리에 실패했습니다');
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // 챗봇 없음 상태 (모든 훅 호출 후 체크)
+  if (!currentChatbot) {
+    return <NoChatbotState />;
+  }
+
+  const stats = data?.stats;
+  const satisfactionPercent =
+    stats?.satisfactionRate != null ? Math.round(stats.satisfactionRate * 100) : null;
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {/* 페이지 헤더 */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-foreground">답변 피드백</h1>
+        <p className="mt-1 text-muted-foreground">
+          사용자가 싫어요를 누른 답변을 확인하고, 관련 청크를 검토 큐로 보내세요
+        </p>
+      </div>
+
+      {/* 만족도 요약 */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <StatCard label="만족도" value={satisfactionPercent != null ? `${satisfactionPercent}%` : '-'} />
+        <StatCard
+          label="좋아요"
+          value={String(stats?.up ?? 0)}
+          icon={<ThumbsUp className="h-4 w-4 text-green-500" />}
+        />
+        <StatCard
+          label="싫어요"
+          value={String(stats?.down ?? 0)}
+          icon={<ThumbsDown className="h-4 w-4 text-destructive" />}
+        />
+      </div>
+
+      {/* 싫어요 답변 목록 */}
+      <Card size="md">
+        <CardHeader>
+          <CardTitle>싫어요 답변</CardTitle>
+          <CardDescription>답변 생성 시 검색된 청크를 함께 표시합니다</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+          ) : !data || data.items.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              싫어요 피드백이 없습니다
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {data.items.map((item) => (
+                <FeedbackRow
+                  key={item.id}
+                  item={item}
+                  isPending={pendingId === item.id}
+                  onSendToReview={() => handleSendToReview(item.id)}
+                  onDismiss={() => handleDismiss(item.id)}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* 페이지네이션 */}
+          {data && data.pagination.totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {page} / {data.pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= data.pagination.totalPages}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// 통계 카드
+function StatCard({ label, value, icon }: { label: string; value: string; icon?: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        {icon}
+        {label}
+      </div>
+      <p className="mt-1 text-2xl font-bold text-foreground">{value}</p>
+    </div>
+  );
+}
+
+// 싫어요 답변 행
+function FeedbackRow({
+  item,
+  isPending,
+  onSendToReview,
+  onDismiss,
+}: {
+  item: DownvotedAnswer;
+  isPending: boolean;
+  onSendToReview: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="rounded-lg border border-border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1 space-y-2">
+          <p className="text-sm font-medium text-foreground">
+            Q. {item.question ?? '(질문을 찾을 수 없음)'}
+          </p>
+          <p className="line-clamp-3 whitespace-pre-wrap text-sm text-muted-foreground">
+            A. {item.answer}
+          </p>
+        </div>
+        <Badge variant={item.reviewStatus === 'open' ? 'destructive' : 'secondary'}>
+          {REVIEW_STATUS_LABELS[item.reviewStatus]}
+        </Badge>
+      </div>
+
+      {/* 검색된 청크 */}
+      <div className="mt-3 flex flex-wrap gap-1">
+        {item.chunkIds.length === 0 ? (
+          <span className="text-xs text-muted-foreground">검색된 청크 없음</span>
+        ) : (
+          item.chunkIds.map((chunkId) => (
+            <Link
+              key={chunkId}
+              href={`/console/chatbot/review/${chunkId}`}
+              className="rounded bg-muted px-2 py-0.5 font-mono text-xs text-muted-foreground hover:text-foreground"
+            >
+              {chunkId.slice(0, 8)}
+            </Link>
+          ))
+        )}
+      </div>
+
+      <div className="mt-3 flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {new Date(item.createdAt).toLocaleString('ko-KR')}
+          {item.channel && ` · ${item.channel}`}
+        </span>
+        {item.reviewStatus === 'open' && (
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" disabled={isPending} onClick={onDismiss}>
+              <X className="mr-1 h-4 w-4" />
+              무시
+            </Button>
+            <Button
+              size="sm"
+              disabled={isPending || item.chunkIds.length === 0}
+              onClick={onSendToReview}
+            >
+              <Send className="mr-1 h-4 w-4" />
+              검토 큐로 보내기
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
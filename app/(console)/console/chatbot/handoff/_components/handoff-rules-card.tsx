@@ -0,0 +1,212 @@
+'use client';
+
+/**
+ * 상담원 연결 규칙 카드
+ * 연결 트리거(키워드, 연속 "정보 없음", 낮은 Intent 신뢰도)와 운영 시간 외 안내를 설정한다.
+ */
+
+import { useEffect, useState } from 'react';
+import { Loader2, Settings2, ToggleLeft, ToggleRight } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { normalizeHandoffConfig } from '@/lib/handoff/rules';
+import type { HandoffConfig } from '@/lib/handoff/types';
+
+interface HandoffRulesCardProps {
+  chatbotId: string;
+}
+
+export function HandoffRulesCard({ chatbotId }: HandoffRulesCardProps) {
+  const [config, setConfig] = useState<HandoffConfig>(() => normalizeHandoffConfig(null));
+  const [keywordsText, setKeywordsText] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadConfig() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/chatbots/${chatbotId}`);
+        if (!response.ok) {
+          throw new Error('챗봇 정보를 불러올 수 없습니다');
+        }
+        const data = await response.json();
+        if (cancelled) return;
+        const loaded = normalizeHandoffConfig(data.chatbot?.handoffConfig);
+        setConfig(loaded);
+        setKeywordsText(loaded.keywords.join(', '));
+      } catch (error) {
+        console.error('Failed to load handoff config:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+    loadConfig();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chatbotId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const keywords = keywordsText
+        .split(',')
+        .map((k) => k.trim())
+        .filter(Boolean);
+
+      const response = await fetch(`/api/chatbots/${chatbotId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ handoffConfig: { ...config, keywords } }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? '설정 저장에 실패했습니다');
+      }
+      setConfig((prev) => ({ ...prev, keywords }));
+      toast.success('상담원 연결 규칙이 저장되었습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '설정 저장에 실패했습니다');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card size="md">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Settings2 className="h-5 w-5 text-muted-foreground" />
+          <CardTitle>연결 규칙</CardTitle>
+        </div>
+        <CardDescription>
+          상담원 연결을 제안하거나 요청하는 조건입니다. 공개 페이지에 운영 시간 블록이 있으면
+          운영 시간에만 연결됩니다
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between rounded-lg border border-border bg-muted/30 p-4">
+              <div className="flex items-center gap-3">
+                {config.enabled ? (
+                  <ToggleRight className="h-6 w-6 text-primary" />
+                ) : (
+                  <ToggleLeft className="h-6 w-6 text-muted-foreground" />
+                )}
+                <div>
+                  <p className="font-medium text-foreground">상담원 연결 사용</p>
+                  <p className="text-xs text-muted-foreground">
+                    위젯, 공개 페이지, 카카오톡에서 상담원에게 대화를 넘길 수 있습니다
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant={config.enabled ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setConfig((prev) => ({ ...prev, enabled: !prev.enabled }))}
+              >
+                {config.enabled ? '활성화됨' : '비활성화'}
+              </Button>
+            </div>
+
+            <div>
+              <label className="mb-2 block text-sm font-medium text-foreground">연결 키워드</label>
+              <Input
+                value={keywordsText}
+                onChange={(e) => setKeywordsText(e.target.value)}
+                placeholder="상담원, 상담사"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                쉼표로 구분합니다. 메시지에 포함되면 바로 상담원 연결을 요청합니다
+              </p>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="mb-2 block text-sm font-medium text-foreground">
+                  연속 &quot;정보 없음&quot; 횟수
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={config.noResultThreshold}
+                  onChange={(e) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      noResultThreshold: Number(e.target.value) || 0,
+                    }))
+                  }
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  이 횟수만큼 연속으로 답하지 못하면 연결을 제안합니다 (0: 사용 안 함)
+                </p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-foreground">
+                  최소 Intent 신뢰도
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={config.minIntentConfidence}
+                  onChange={(e) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      minIntentConfidence: Math.min(1, Math.max(0, Number(e.target.value) || 0)),
+                    }))
+                  }
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  질문 분류 신뢰도가 이 값보다 낮으면 연결을 제안합니다 (0: 사용 안 함)
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <label className="mb-2 block text-sm font-medium text-foreground">
+                운영 시간 외 안내
+              </label>
+              <Textarea
+                value={config.offHoursMessage}
+                onChange={(e) =>
+                  setConfig((prev) => ({ ...prev, offHoursMessage: e.target.value }))
+                }
+                rows={2}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                저장
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
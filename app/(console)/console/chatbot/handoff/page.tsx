@@ -0,0 +1,343 @@
+'use client';
+
+/**
+ * 상담원 연결 페이지
+ * 상담원 대기열을 확인하고, 대화를 수락해 위젯/공개 페이지/카카오톡 사용자에게 직접 답장
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Headset, Loader2, Send, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useCurrentChatbot } from '../../hooks/use-console-state';
+import { NoChatbotState } from '../../components/no-chatbot-state';
+import { HandoffRulesCard } from './_components/handoff-rules-card';
+import type { HandoffQueueItem, HandoffReason } from '@/lib/handoff/types';
+import type { ConversationTranscript } from '@/lib/chat/transcript-export';
+
+const CHANNEL_LABELS: Record<string, string> = {
+  web: '위젯',
+  public_page: '공개 페이지',
+  kakao: '카카오톡',
+};
+
+const REASON_LABELS: Record<HandoffReason, string> = {
+  keyword: '키워드',
+  no_result: '정보 없음',
+  low_confidence: '낮은 신뢰도',
+  manual: '연결 버튼',
+};
+
+// 대기열 폴링 주기 (ms)
+const QUEUE_POLL_INTERVAL_MS = 5000;
+
+export default function HandoffPage() {
+  const { currentChatbot } = useCurrentChatbot();
+  const [queue, setQueue] = useState<HandoffQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    if (!currentChatbot?.id) return;
+
+    try {
+      const response = await fetch(`/api/chatbots/${currentChatbot.id}/handoffs`);
+      if (!response.ok) {
+        throw new Error('대기열을 불러올 수 없습니다');
+      }
+      const data: { queue: HandoffQueueItem[] } = await response.json();
+      setQueue(data.queue);
+    } catch (error) {
+      console.error('Failed to load handoff queue:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentChatbot?.id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadQueue();
+    const timer = setInterval(loadQueue, QUEUE_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadQueue]);
+
+  // 챗봇 없음 상태 (모든 훅 호출 후 체크)
+  if (!currentChatbot) {
+    return <NoChatbotState />;
+  }
+
+  const selected = queue.find((item) => item.id === selectedId) ?? null;
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {/* 페이지 헤더 */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-foreground">상담원 연결</h1>
+        <p className="mt-1 text-muted-foreground">
+          챗봇이 답하지 못한 대화를 이어받아 고객에게 직접 답변하세요
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        {/* 대기열 */}
+        <Card size="md">
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+              </div>
+            ) : queue.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-12 text-center">
+                <Headset className="h-8 w-8 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">대기 중인 상담이 없습니다</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-border">
+                {queue.map((item) => (
+                  <li key={item.id}>
+                    <button
+                      onClick={() => setSelectedId(item.id)}
+                      className={`flex w-full flex-col gap-1 px-4 py-3 text-left transition-colors hover:bg-muted/50 ${
+                        item.id === selectedId ? 'bg-muted/50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Badge variant={item.status === 'pending' ? 'warning' : 'default'}>
+                          {item.status === 'pending' ? '대기' : '응대 중'}
+                        </Badge>
+                        <Badge variant="outline">
+                          {CHANNEL_LABELS[item.channel] ?? item.channel}
+                        </Badge>
+                        {item.reason && (
+                          <span className="text-xs text-muted-foreground">
+                            {REASON_LABELS[item.reason]}
+                          </span>
+                        )}
+                        <span className="ml-auto text-xs text-muted-foreground">
+                          {item.requestedAt &&
+                            new Date(item.requestedAt).toLocaleTimeString('ko-KR')}
+                        </span>
+                      </div>
+                      <span className="truncate text-sm text-foreground">
+                        {item.lastMessage?.content ?? '(메시지 없음)'}
+                      </span>
+                      {item.assigneeName && (
+                        <span className="text-xs text-muted-foreground">
+                          담당: {item.assigneeName}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 대화 패널 */}
+        {selected ? (
+          <HandoffConversationPanel
+            chatbotId={currentChatbot.id}
+            item={selected}
+            onChanged={loadQueue}
+          />
+        ) : (
+          <Card size="md">
+            <CardContent className="flex items-center justify-center py-12">
+              <p className="text-sm text-muted-foreground">대기열에서 대화를 선택하세요</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <HandoffRulesCard chatbotId={currentChatbot.id} />
+    </div>
+  );
+}
+
+/**
+ * 선택한 대화 기록 + 답장 입력
+ * 대기열의 갱신 시각이 바뀔 때만 대화 기록을 다시 조회한다 (조회마다 접속기록이 남음).
+ */
+function HandoffConversationPanel({
+  chatbotId,
+  item,
+  onChanged,
+}: {
+  chatbotId: string;
+  item: HandoffQueueItem;
+  onChanged: () => Promise<void>;
+}) {
+  const [transcript, setTranscript] = useState<ConversationTranscript | null>(null);
+  const [reply, setReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadTranscript() {
+      try {
+        const response = await fetch(`/api/chatbots/${chatbotId}/conversations/${item.id}`);
+        if (!response.ok) {
+          throw new Error('대화 기록을 불러올 수 없습니다');
+        }
+        const data: { conversation: ConversationTranscript } = await response.json();
+        if (!cancelled) setTranscript(data.conversation);
+      } catch (error) {
+        console.error('Failed to load transcript:', error);
+      }
+    }
+    loadTranscript();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chatbotId, item.id, item.updatedAt]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [transcript?.messages.length]);
+
+  const updateStatus = async (status: 'active' | 'resolved') => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/chatbots/${chatbotId}/handoffs/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? '상태 변경에 실패했습니다');
+      }
+      toast.success(status === 'active' ? '상담을 시작했습니다' : '상담을 종료했습니다');
+      await onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '상태 변경에 실패했습니다');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const content = reply.trim();
+    if (!content) return;
+
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/chatbots/${chatbotId}/handoffs/${item.id}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error ?? data?.message ?? '메시지 전송에 실패했습니다');
+      }
+      setReply('');
+      await onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '메시지 전송에 실패했습니다');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <Card size="md" className="flex flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-4 py-3">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium text-foreground">
+            {CHANNEL_LABELS[item.channel] ?? item.channel} · {item.sessionId.slice(0, 12)}
+          </p>
+          {item.channel === 'kakao' && (
+            <p className="text-xs text-muted-foreground">
+              카카오톡은 고객의 마지막 메시지 후 1분 안에 보낸 답장만 바로 전달되고, 이후
+              답장은 고객의 다음 메시지에 함께 전달됩니다
+            </p>
+          )}
+        </div>
+        <div className="flex shrink-0 gap-2">
+          {item.status === 'pending' && (
+            <Button size="sm" onClick={() => updateStatus('active')} disabled={isUpdating}>
+              상담 수락
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateStatus('resolved')}
+            disabled={isUpdating}
+          >
+            <CheckCircle2 className="mr-1 h-4 w-4" />
+            종료
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-[480px] min-h-[240px] flex-1 space-y-3 overflow-y-auto p-4">
+        {!transcript ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          transcript.messages.map((message, index) => {
+            const isUser = message.role === 'user';
+            const isOperator = !!message.metadata?.operator;
+            return (
+              <div
+                key={message.id ?? index}
+                className={`flex flex-col ${isUser ? 'items-start' : 'items-end'}`}
+              >
+                <div
+                  className={`max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm ${
+                    isUser
+                      ? 'bg-muted text-foreground'
+                      : isOperator
+                        ? 'bg-primary text-primary-foreground'
+                        : 'border border-border bg-card text-foreground'
+                  }`}
+                >
+                  {message.content}
+                </div>
+                <span className="mt-1 text-[10px] text-muted-foreground">
+                  {isUser ? '고객' : isOperator ? (message.metadata?.operatorName ?? '상담원') : '챗봇'}
+                  {' · '}
+                  {new Date(message.timestamp).toLocaleTimeString('ko-KR')}
+                </span>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="flex items-end gap-2 border-t border-border p-4">
+        <Textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="고객에게 보낼 답장을 입력하세요"
+          rows={2}
+          maxLength={4000}
+          className="flex-1"
+        />
+        <Button onClick={handleSend} disabled={isSending || !reply.trim()}>
+          {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -5,14 +5,27 @@
  * 목록에서 빠르게 상세 보기 및 액션 수행
  * - 키보드 단축키: A(승인), R(거부), E(편집), ←→(네비게이션)
  * - 이전/다음 청크 네비게이션
+ * - PDF 문서는 청크 페이지(metadata.pageRange)의 원본 PDF 보기
  * Console 마이그레이션
  */
 
-import { useState, useEffect, useTransition, useCallback } from 'react';
+import { useState, useEffect, useTransition, useCallback, useMemo } from 'react';
+import dynamic from 'next/dynamic';
 import { SimpleDialog } from '@/components/ui/dialog';
 import { useAlertDialog } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
 import type { ChunkReviewItem, ChunkStatus } from '@/lib/review/types';
+import { formatSourceLocation } from '@/lib/parsers/source-location';
+import { getChunkHighlight } from '@/lib/knowledge-pages/verification/pdf-highlight';
+
+// react-pdf는 브라우저 전용 (PDF.js 워커)
+const PDFViewer = dynamic(
+  () =>
+    import('@/app/(console)/console/chatbot/blog/_components/pdf-viewer').then(
+      (mod) => mod.PDFViewer
+    ),
+  { ssr: false }
+);
 
 interface ChunkDetailDialogProps {
   chunkId: string | null;
@@ -39,6 +52,7 @@ export function ChunkDetailDialog({
   const [error, setError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState('');
+  const [showPdf, setShowPdf] = useState(false);
   const [isPending, startTransition] = useTransition();
   const { confirm } = useAlertDialog();
 
@@ -231,12 +245,24 @@ export function ChunkDetailDialog({
     ? `청크 #${chunk.chunkIndex + 1}`
     : '청크 상세';
 
+  // 문서명 + 원본 위치 (예: "가이드.pdf · 12~13페이지")
+  const sourceLocation = formatSourceLocation(chunk?.metadata?.sourceLocation);
+  const dialogDescription =
+    chunk && sourceLocation ? `${chunk.documentName} · ${sourceLocation}` : chunk?.documentName;
+
+  // 원본 PDF에서 청크 첫 페이지로 이동 + 첫 줄 하이라이트
+  const pdfHighlight = useMemo(
+    () => (chunk?.documentFileUrl ? getChunkHighlight(chunk) : null),
+    [chunk]
+  );
+  const pdfHighlights = useMemo(() => (pdfHighlight ? [pdfHighlight] : []), [pdfHighlight]);
+
   return (
     <SimpleDialog
       isOpen={isOpen}
       onClose={onClose}
       title={dialogTitle}
-      description={chunk?.documentName}
+      description={dialogDescription}
       maxWidth="4xl"
     >
       <div className="max-h-[70vh] overflow-y-auto">
@@ -344,6 +370,30 @@ export function ChunkDetailDialog({
               </div>
             </div>
 
+            {/* 원본 PDF */}
+            {pdfHighlight && chunk.documentFileUrl && (
+              <div className="rounded-lg border border-border bg-card">
+                <div className="flex items-center justify-between border-b border-border px-4 py-3">
+                  <h3 className="text-sm font-semibold text-foreground">원본 PDF</h3>
+                  <button
+                    onClick={() => setShowPdf(!showPdf)}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    {showPdf ? '닫기' : `${pdfHighlight.pageNumber}페이지 보기`}
+                  </button>
+                </div>
+                {showPdf && (
+                  <PDFViewer
+                    key={chunk.id}
+                    url={chunk.documentFileUrl}
+                    initialPage={pdfHighlight.pageNumber}
+                    highlights={pdfHighlights}
+                    className="h-[480px]"
+                  />
+                )}
+              </div>
+            )}
+
             {/* 액션 버튼 */}
             <div className="flex items-center justify-between rounded-lg border border-border bg-muted/30 p-4">
               <button
@@ -63,6 +63,7 @@ export function ReviewContent({ initialFilters }: ReviewContentProps) {
     minContentLength: undefined,
     maxContentLength: undefined,
     includeMetrics: false,
+    flagged: false,
   });
 
   // 청크 목록 조회
@@ -118,6 +119,9 @@ export function ReviewContent({ initialFilters }: ReviewContentProps) {
       if (filters.includeMetrics) {
         params.set('includeMetrics', 'true');
       }
+      if (filters.flagged) {
+        params.set('flagged', 'true');
+      }
 
       const response = await fetch(`/api/review/chunks?${params.toString()}`);
       if (!response.ok) {
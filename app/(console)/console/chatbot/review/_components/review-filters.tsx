@@ -27,6 +27,7 @@ export interface FilterState {
   minContentLength?: number;
   maxContentLength?: number;
   includeMetrics?: boolean;
+  flagged?: boolean;
 }
 
 interface ReviewFiltersProps {
@@ -106,6 +107,10 @@ export function ReviewFilters({ filters, onChange }: ReviewFiltersProps) {
     });
   };
 
+  const handleFlaggedToggle = () => {
+    onChange({ ...filters, flagged: !filters.flagged });
+  };
+
   const handleContentLengthChange = (type: 'min' | 'max', value: string) => {
     const numValue = value === '' ? undefined : parseInt(value, 10);
     if (type === 'min') {
@@ -137,6 +142,7 @@ export function ReviewFilters({ filters, onChange }: ReviewFiltersProps) {
       minContentLength: undefined,
       maxContentLength: undefined,
       includeMetrics: false,
+      flagged: false,
     });
   };
 
@@ -156,6 +162,7 @@ export function ReviewFilters({ filters, onChange }: ReviewFiltersProps) {
     // v2 필터 체크
     filters.searchability.length > 0 ||
     filters.hasContext !== undefined ||
+    !!filters.flagged ||
     filters.minContentLength !== undefined ||
     filters.maxContentLength !== undefined;
 
@@ -281,6 +288,20 @@ export function ReviewFilters({ filters, onChange }: ReviewFiltersProps) {
           )}
         </button>
 
+        {/* 검토 요청(싫어요 피드백) 필터 */}
+        <button
+          onClick={handleFlaggedToggle}
+          className={`flex items-center gap-1.5 rounded px-2.5 py-1 text-xs font-medium transition-colors ${
+            filters.flagged
+              ? 'bg-orange-500/20 text-orange-500'
+              : 'bg-muted text-muted-foreground hover:bg-muted/80'
+          }`}
+          title={filters.flagged ? '검토 요청된 청크만 표시' : '검토 요청 필터 없음'}
+        >
+          검토 요청
+          {filters.flagged && <span className="ml-0.5">✓</span>}
+        </button>
+
         {/* v2: 콘텐츠 길이 필터 */}
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium text-foreground">길이:</span>
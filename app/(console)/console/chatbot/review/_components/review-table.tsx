@@ -192,7 +192,10 @@ export function ReviewTable({
                 <QualityBadge score={chunk.qualityScore} />
               </td>
               <td className="px-4 py-3">
-                <StatusBadge status={chunk.status} autoApproved={chunk.autoApproved} />
+                <div className="flex items-center gap-1">
+                  <StatusBadge status={chunk.status} autoApproved={chunk.autoApproved} />
+                  {'reviewFlag' in chunk.metadata && <ReviewFlagBadge />}
+                </div>
               </td>
               <td className="px-4 py-3">
                 <div className="flex items-center gap-1">
@@ -250,6 +253,18 @@ function ContextBadge({ hasContext }: { hasContext?: boolean }) {
   );
 }
 
+// 검토 요청 배지 (싫어요 피드백으로 표시된 청크)
+function ReviewFlagBadge() {
+  return (
+    <span
+      className="inline-flex items-center rounded-full bg-orange-500/10 px-2 py-0.5 text-xs font-medium text-orange-500"
+      title="싫어요 피드백으로 검토 요청됨"
+    >
+      검토 요청
+    </span>
+  );
+}
+
 // 품질 점수 배지
 function QualityBadge({ score }: { score: number | null }) {
   if (score === null) {
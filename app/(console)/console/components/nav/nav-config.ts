@@ -27,7 +27,7 @@ export interface NavItem {
  *
  * 구조:
  * - Dashboard: 챗봇 개요, 최근 활동
- * - Chatbot: AI 설정, 문서, 데이터셋, FAQ, 검수, 연동(카카오) - 챗봇 응답 생성 관련
+ * - Chatbot: AI 설정, 문서, 데이터셋, FAQ, 검수, 대화 내역, 답변 피드백, 검색 디버거, 연동(카카오) - 챗봇 응답 생성 관련
  * - Page: 공개 페이지 디자인 및 설정 - 페이지라는 결과물 중심
  * - Widget: 위젯 디자인 및 임베드 설정 - 위젯이라는 결과물 중심
  *
@@ -54,6 +54,10 @@ export const navItems: NavItem[] = [
       { id: 'datasets', label: '데이터셋', href: '/console/chatbot/datasets' },
       { id: 'faq', label: 'FAQ', href: '/console/chatbot/faq' },
       { id: 'review', label: '검수', href: '/console/chatbot/review' },
+      { id: 'conversations', label: '대화 내역', href: '/console/chatbot/conversations' },
+      { id: 'handoff', label: '상담원 연결', href: '/console/chatbot/handoff' },
+      { id: 'feedback', label: '답변 피드백', href: '/console/chatbot/feedback' },
+      { id: 'debugger', label: '검색 디버거', href: '/console/chatbot/debugger' },
       { id: 'settings', label: '기본 설정', href: '/console/chatbot/settings' },
       { id: 'integrations', label: '연동', href: '/console/chatbot/integrations' },
     ],
@@ -10,10 +10,18 @@
  */
 
 import { headers } from 'next/headers';
-import { processChat } from '@/lib/chat';
+import { processChat, recordMessageFeedback } from '@/lib/chat';
 import { logger } from '@/lib/logger';
 import { checkPublicPageRateLimit } from '@/lib/middleware/rate-limit';
 import { validatePointsForResponse, usePoints } from '@/lib/points';
+import {
+  getHandoffUpdates,
+  isBotAnswer,
+  requestHandoffForSession,
+  type HandoffPollResult,
+  type HandoffState,
+} from '@/lib/handoff';
+import type { Citation } from '@/lib/rag/citations';
 
 // 메시지 최대 길이 제한
 const MAX_MESSAGE_LENGTH = 4000;
@@ -21,6 +29,8 @@ const MAX_MESSAGE_LENGTH = 4000;
 export interface PublicPageChatResponse {
   message: string;
   sessionId: string;
+  /** 어시스턴트 메시지 ID (피드백 전송용) */
+  messageId?: string;
   sources?: Array<{
     title: string;
     content?: string;
@@ -28,6 +38,12 @@ export interface PublicPageChatResponse {
     documentId?: string;
     chunkId?: string;
   }>;
+  /** 답변 마커([1])에 대응하는 각주 (출처 표기 모드에서만) */
+  citations?: Citation[];
+  /** 후속 질문 제안 (후속 질문 제안을 켠 챗봇에서만) */
+  suggestions?: string[];
+  /** 상담원 연결 상태 (연결 제안 또는 대기/응대 중) */
+  handoff?: HandoffState;
   pointsBalance?: number;
   pointsWarning?: {
     code: 'POINTS_LOW_WARNING';
@@ -113,15 +129,19 @@ export async function sendPublicPageMessage(
       channel: 'public_page',
     });
 
-    // 포인트 차감 (AI 응답 성공 후)
-    const { newBalance } = await usePoints({
-      tenantId,
-      metadata: {
-        chatbotId,
-        conversationId: response.sessionId,
-        channel: 'public_page',
-      },
-    });
+    // 포인트 차감 (AI 응답 성공 후, 상담원 대기/응대 중에는 차감하지 않음)
+    const pointsBalance = isBotAnswer(response.handoff)
+      ? (
+          await usePoints({
+            tenantId,
+            metadata: {
+              chatbotId,
+              conversationId: response.sessionId,
+              channel: 'public_page',
+            },
+          })
+        ).newBalance
+      : undefined;
 
     // sources 형식 변환: ChatResponse → PublicPageChatResponse
     const mappedSources = response.sources?.map((source, index) => ({
@@ -136,8 +156,12 @@ export async function sendPublicPageMessage(
     const result: PublicPageChatResponse = {
       message: response.message,
       sessionId: response.sessionId,
+      messageId: response.messageId,
       sources: mappedSources,
-      pointsBalance: newBalance,
+      citations: response.citations,
+      suggestions: response.suggestions,
+      handoff: response.handoff,
+      pointsBalance,
     };
 
     if (pointValidation.errorCode === 'POINTS_LOW_WARNING') {
@@ -162,3 +186,109 @@ export async function sendPublicPageMessage(
     throw new Error(JSON.stringify(errorResponse));
   }
 }
+
+/**
+ * 공개 페이지 답변 피드백 저장 (좋아요/싫어요)
+ *
+ * @param chatbotId - 챗봇 ID
+ * @param tenantId - 테넌트 ID
+ * @param sessionId - 세션 ID
+ * @param messageId - 어시스턴트 메시지 ID
+ * @param rating - 'up' | 'down'
+ */
+export async function submitPublicPageFeedback(
+  chatbotId: string,
+  tenantId: string,
+  sessionId: string,
+  messageId: string,
+  rating: 'up' | 'down'
+): Promise<void> {
+  if (!sessionId || !messageId || (rating !== 'up' && rating !== 'down')) {
+    const error: PublicPageChatError = {
+      error: '잘못된 피드백 요청입니다.',
+      code: 'VALIDATION_ERROR',
+    };
+    throw new Error(JSON.stringify(error));
+  }
+
+  let recorded: boolean;
+  try {
+    recorded = await recordMessageFeedback({
+      tenantId,
+      chatbotId,
+      sessionId,
+      messageId,
+      rating,
+      channel: 'public_page',
+    });
+  } catch (error) {
+    logger.error('Public page feedback failed', error as Error, {
+      chatbotId,
+      tenantId,
+      messageId,
+    });
+
+    const errorResponse: PublicPageChatError = {
+      error: '피드백 저장 중 오류가 발생했습니다.',
+    };
+    throw new Error(JSON.stringify(errorResponse));
+  }
+
+  // 대상 메시지를 찾지 못하면 피드백이 저장되지 않음 (UI에서 선택 상태 되돌림)
+  if (!recorded) {
+    const notFoundError: PublicPageChatError = {
+      error: '피드백을 남길 답변을 찾을 수 없습니다.',
+      code: 'VALIDATION_ERROR',
+    };
+    throw new Error(JSON.stringify(notFoundError));
+  }
+}
+
+/**
+ * 공개 페이지 상담원 연결 요청 (연결 제안 버튼)
+ *
+ * @param chatbotId - 챗봇 ID
+ * @param tenantId - 테넌트 ID
+ * @param sessionId - 세션 ID
+ */
+export async function requestPublicPageHandoff(
+  chatbotId: string,
+  tenantId: string,
+  sessionId: string
+): Promise<HandoffState> {
+  try {
+    return await requestHandoffForSession(tenantId, chatbotId, sessionId);
+  } catch (error) {
+    logger.error('Public page handoff request failed', error as Error, {
+      chatbotId,
+      tenantId,
+    });
+
+    const errorResponse: PublicPageChatError = {
+      error: '상담원 연결 요청 중 오류가 발생했습니다.',
+    };
+    throw new Error(JSON.stringify(errorResponse));
+  }
+}
+
+/**
+ * 공개 페이지 상담원 메시지 폴링
+ *
+ * @param chatbotId - 챗봇 ID
+ * @param tenantId - 테넌트 ID
+ * @param sessionId - 세션 ID
+ * @param since - 마지막으로 받은 메시지 시각 (ISO)
+ */
+export async function pollPublicPageHandoff(
+  chatbotId: string,
+  tenantId: string,
+  sessionId: string,
+  since: string
+): Promise<HandoffPollResult> {
+  try {
+    return await getHandoffUpdates(tenantId, chatbotId, sessionId, since);
+  } catch (error) {
+    logger.error('Public page handoff poll failed', error as Error, { chatbotId, tenantId });
+    return { status: null, messages: [] };
+  }
+}
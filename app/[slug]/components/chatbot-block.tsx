@@ -15,11 +15,20 @@ import { useStickToBottom } from 'use-stick-to-bottom';
 import { ChevronDown } from 'lucide-react';
 import {
   sendPublicPageMessage,
+  submitPublicPageFeedback,
+  requestPublicPageHandoff,
+  pollPublicPageHandoff,
   type PublicPageChatResponse,
   type PublicPageChatError,
 } from '../actions';
 import { ProgressIndicator } from '@/components/chat/progress-indicator';
 import { SourcesCollapsible, type Source } from '@/components/chat/sources-collapsible';
+import { CitationMarkdown } from '@/components/chat/citation-markdown';
+import type { Citation } from '@/lib/rag/citations';
+import type { HandoffPollResult, HandoffState } from '@/lib/handoff/types';
+import { HandoffOffer, HandoffStatusBar } from '@/components/chat/handoff-controls';
+import { SuggestionChips } from '@/components/chat/suggestion-chips';
+import { useHandoffPolling } from '@/hooks/use-handoff-polling';
 import { MessageActions } from '@/components/chat/message-actions';
 import { ErrorMessage, type ChatError } from '@/components/chat/error-message';
 import { SendIcon } from '@/components/chat/icons';
@@ -81,7 +90,13 @@ interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  /** 서버에 저장된 어시스턴트 메시지 ID (피드백 전송용) */
+  messageId?: string;
   sources?: Source[];
+  /** 답변 마커([1])에 대응하는 각주 (출처 표기 모드에서만) */
+  citations?: Citation[];
+  /** 상담원이 보낸 메시지의 상담원 이름 */
+  operatorName?: string;
 }
 
 // 메시지 최대 길이
@@ -216,6 +231,9 @@ function ChatbotBlockContent({
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [lastUserMessage, setLastUserMessage] = useState<string | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [handoff, setHandoff] = useState<HandoffState | null>(null);
+  // 마지막 답변의 후속 질문 제안
+  const [suggestions, setSuggestions] = useState<string[]>([]);
 
   // 스마트 오토스크롤: 사용자가 위로 스크롤하면 자동 스크롤 비활성화
   const { scrollRef, contentRef, isAtBottom, scrollToBottom } = useStickToBottom();
@@ -248,6 +266,7 @@ function ChatbotBlockContent({
       }
 
       setLastUserMessage(message);
+      setSuggestions([]);
       setIsLoading(true);
 
       try {
@@ -263,10 +282,17 @@ function ChatbotBlockContent({
           role: 'assistant',
           content: response.message,
           timestamp: new Date().toISOString(),
+          messageId: response.messageId,
           sources: response.sources,
+          citations: response.citations,
         };
 
-        setMessages((prev) => [...prev, assistantMessage]);
+        // 상담원 응대 중에는 봇 응답이 비어 있음 (상담원 메시지는 폴링으로 수신)
+        if (response.message) {
+          setMessages((prev) => [...prev, assistantMessage]);
+        }
+        setHandoff(response.handoff ?? null);
+        setSuggestions(response.suggestions ?? []);
         setSessionId(response.sessionId);
         setError(null);
         setLastUserMessage(null);
@@ -279,6 +305,64 @@ function ChatbotBlockContent({
     [sessionId, chatbotId, tenantId]
   );
 
+  // 답변 피드백 전송
+  const handleFeedback = useCallback(
+    async (messageId: string, rating: 'up' | 'down') => {
+      if (!sessionId) return;
+      await submitPublicPageFeedback(chatbotId, tenantId, sessionId, messageId, rating);
+    },
+    [sessionId, chatbotId, tenantId]
+  );
+
+  // 상담원 연결 요청 (연결 제안 버튼)
+  const handleHandoffRequest = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const result = await requestPublicPageHandoff(chatbotId, tenantId, sessionId);
+      setHandoff(result);
+      const notice = result.notice;
+      if (notice) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: `handoff-${Date.now()}`,
+            role: 'assistant',
+            content: notice,
+            timestamp: new Date().toISOString(),
+          },
+        ]);
+      }
+    } catch (err) {
+      setError(parseError(err));
+    }
+  }, [sessionId, chatbotId, tenantId]);
+
+  // 상담원 메시지 폴링 (대기/응대 중)
+  const pollHandoff = useCallback(
+    (since: string) => pollPublicPageHandoff(chatbotId, tenantId, sessionId ?? '', since),
+    [chatbotId, tenantId, sessionId]
+  );
+  const handleHandoffUpdate = useCallback(({ status, messages }: HandoffPollResult) => {
+    setHandoff(status === 'pending' || status === 'active' ? { status } : null);
+    if (messages.length > 0) {
+      setMessages((prev) => [
+        ...prev,
+        ...messages.map((m) => ({
+          id: `operator-${m.id ?? m.timestamp}`,
+          role: 'assistant' as const,
+          content: m.content,
+          timestamp: m.timestamp,
+          operatorName: m.operatorName,
+        })),
+      ]);
+    }
+  }, []);
+  useHandoffPolling({
+    active: !!sessionId && (handoff?.status === 'pending' || handoff?.status === 'active'),
+    poll: pollHandoff,
+    onUpdate: handleHandoffUpdate,
+  });
+
   // 메시지 전송 (사용자 입력)
   const handleSend = useCallback(async () => {
     const message = inputValue.trim();
@@ -349,8 +433,23 @@ function ChatbotBlockContent({
       <div ref={scrollRef} className="relative flex-1 overflow-y-auto p-4">
         <div ref={contentRef} className="space-y-4">
           {messages.map((msg) => (
-            <MessageBubble key={msg.id} message={msg} />
+            <MessageBubble key={msg.id} message={msg} onFeedback={handleFeedback} />
           ))}
+          {!isLoading && (
+            <SuggestionChips
+              suggestions={suggestions}
+              onSelect={(suggestion) => sendMessage(suggestion)}
+              primaryColor={theme.primaryColor}
+              compact
+            />
+          )}
+          {handoff?.status === 'offered' && !isLoading && (
+            <HandoffOffer
+              onRequest={handleHandoffRequest}
+              primaryColor={theme.primaryColor}
+              compact
+            />
+          )}
           {isLoading && (
             <div className="flex justify-start">
               <div
@@ -389,6 +488,7 @@ function ChatbotBlockContent({
 
       {/* 입력 영역 */}
       <div className="border-t border-border p-4">
+        {handoff && <HandoffStatusBar status={handoff.status} primaryColor={theme.primaryColor} />}
         <div className="flex items-center gap-2">
           <input
             ref={inputRef}
@@ -423,7 +523,13 @@ function ChatbotBlockContent({
 }
 
 // 메시지 버블 컴포넌트 - Context에서 테마를 가져옴 (Props Drilling 제거)
-function MessageBubble({ message }: { message: Message }) {
+function MessageBubble({
+  message,
+  onFeedback,
+}: {
+  message: Message;
+  onFeedback?: (messageId: string, rating: 'up' | 'down') => Promise<void>;
+}) {
   const theme = useChatTheme();
   const isUser = message.role === 'user';
 
@@ -437,6 +543,9 @@ function MessageBubble({ message }: { message: Message }) {
       data-role={message.role}
     >
       <div className={`flex max-w-[85%] flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+        {message.operatorName && (
+          <p className="mb-1 px-1 text-xs text-muted-foreground">{message.operatorName}</p>
+        )}
         <div
           className={`rounded-2xl px-4 py-3 ${isUser ? '' : 'bg-muted text-foreground'}`}
           style={isUser ? userStyle : assistantStyle}
@@ -445,10 +554,20 @@ function MessageBubble({ message }: { message: Message }) {
             <p className="whitespace-pre-wrap text-sm">{message.content}</p>
           ) : (
             <div className="prose prose-sm max-w-none dark:prose-invert prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0">
-              <ReactMarkdown>{message.content}</ReactMarkdown>
+              {message.citations && message.citations.length > 0 ? (
+                <CitationMarkdown
+                  content={message.content}
+                  citations={message.citations}
+                  primaryColor={theme.primaryColor}
+                  compact
+                />
+              ) : (
+                <ReactMarkdown>{message.content}</ReactMarkdown>
+              )}
             </div>
           )}
-          {message.sources && message.sources.length > 0 && (
+          {/* 각주가 있으면 출처 목록 대신 각주로 표시 */}
+          {!message.citations?.length && message.sources && message.sources.length > 0 && (
             <SourcesCollapsible
               sources={message.sources}
               primaryColor={theme.primaryColor}
@@ -457,12 +576,13 @@ function MessageBubble({ message }: { message: Message }) {
           )}
         </div>
 
-        {/* AI 응답에만 액션 버튼 표시 */}
-        {!isUser && message.id !== 'welcome' && (
+        {/* AI 응답에만 액션 버튼 표시 (상담원 메시지 제외) */}
+        {!isUser && message.id !== 'welcome' && !message.id.startsWith('operator-') && (
           <div className="mt-1 px-1">
             <MessageActions
-              messageId={message.id}
+              messageId={message.messageId ?? message.id}
               content={message.content}
+              onFeedback={message.messageId ? onFeedback : undefined}
               compact
               primaryColor={theme.primaryColor}
             />
@@ -12,6 +12,7 @@ import { useMemo } from 'react';
 import { Clock, Check, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { OperatingHoursScheduleItem, DayOfWeek } from '@/lib/public-page/block-types';
+import { getOperatingStatus } from '@/lib/public-page/operating-hours';
 
 interface OperatingHoursBlockProps {
   schedule: OperatingHoursScheduleItem[];
@@ -52,50 +53,7 @@ export function OperatingHoursBlock({
   // 현재 운영 상태 계산
   const currentStatus = useMemo(() => {
     if (!showCurrentStatus) return null;
-
-    try {
-      const now = new Date();
-      const formatter = new Intl.DateTimeFormat('en-US', {
-        timeZone: timezone,
-        weekday: 'short',
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false,
-      });
-
-      const parts = formatter.formatToParts(now);
-      const weekday = parts.find((p) => p.type === 'weekday')?.value.toLowerCase();
-      const hour = parts.find((p) => p.type === 'hour')?.value;
-      const minute = parts.find((p) => p.type === 'minute')?.value;
-
-      if (!weekday || !hour || !minute) return null;
-
-      // 요일 매핑
-      const dayMap: Record<string, DayOfWeek> = {
-        mon: 'mon',
-        tue: 'tue',
-        wed: 'wed',
-        thu: 'thu',
-        fri: 'fri',
-        sat: 'sat',
-        sun: 'sun',
-      };
-
-      const currentDay = dayMap[weekday];
-      if (!currentDay) return null;
-
-      const todaySchedule = schedule.find((s) => s.day === currentDay);
-      if (!todaySchedule || todaySchedule.closed) {
-        return { isOpen: false, nextOpen: null };
-      }
-
-      const currentTime = `${hour}:${minute}`;
-      const isOpen = currentTime >= todaySchedule.open && currentTime < todaySchedule.close;
-
-      return { isOpen, closeTime: todaySchedule.close };
-    } catch {
-      return null;
-    }
+    return getOperatingStatus({ schedule, timezone });
   }, [schedule, timezone, showCurrentStatus]);
 
   // 스케줄이 없으면 플레이스홀더 표시
@@ -0,0 +1,98 @@
+/**
+ * 공개 Knowledge Page 서버 컴포넌트
+ *
+ * 답변 각주에서 링크하는 블로그 페이지 원문입니다.
+ * - 공개 페이지가 켜진 챗봇의 발행(published)된 페이지만 표시
+ * - 그 외에는 404 반환
+ * - ISR 캐싱으로 5분마다 재검증
+ */
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { db, chatbots, tenants, knowledgePages } from '@/lib/db';
+import { eq, and } from 'drizzle-orm';
+import { isReservedSlug } from '@/lib/public-page/reserved-slugs';
+
+interface KnowledgePageProps {
+  params: Promise<{ slug: string; pageId: string }>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 슬러그 + 페이지 ID로 발행된 페이지 조회
+ */
+async function getPublishedPage(slug: string, pageId: string) {
+  if (isReservedSlug(slug) || !UUID_PATTERN.test(pageId)) return null;
+
+  const [row] = await db
+    .select({
+      title: knowledgePages.title,
+      path: knowledgePages.path,
+      content: knowledgePages.content,
+      summary: knowledgePages.summary,
+      chatbotName: chatbots.name,
+    })
+    .from(knowledgePages)
+    .innerJoin(chatbots, eq(knowledgePages.chatbotId, chatbots.id))
+    .innerJoin(tenants, eq(chatbots.tenantId, tenants.id))
+    .where(
+      and(
+        eq(knowledgePages.id, pageId),
+        eq(knowledgePages.status, 'published'),
+        eq(chatbots.slug, slug),
+        eq(chatbots.publicPageEnabled, true),
+        eq(tenants.status, 'active')
+      )
+    )
+    .limit(1);
+
+  return row ?? null;
+}
+
+export default async function PublicKnowledgePage({ params }: KnowledgePageProps) {
+  const { slug, pageId } = await params;
+  const page = await getPublishedPage(slug, pageId);
+
+  if (!page) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen bg-background px-4 py-10">
+      <div className="mx-auto max-w-3xl">
+        <Link href={`/${slug}`} className="text-sm text-muted-foreground hover:text-foreground">
+          ← {page.chatbotName}
+        </Link>
+        <p className="mt-6 text-xs text-muted-foreground">{page.path}</p>
+        <h1 className="mt-1 text-2xl font-semibold text-foreground">{page.title}</h1>
+        <article className="prose prose-sm mt-6 max-w-none dark:prose-invert prose-headings:font-semibold">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{page.content}</ReactMarkdown>
+        </article>
+      </div>
+    </main>
+  );
+}
+
+/**
+ * 동적 메타데이터 생성 (SEO)
+ */
+export async function generateMetadata({ params }: KnowledgePageProps): Promise<Metadata> {
+  const { slug, pageId } = await params;
+  const page = await getPublishedPage(slug, pageId);
+
+  if (!page) {
+    return { title: 'Not Found' };
+  }
+
+  return {
+    title: `${page.title} | ${page.chatbotName}`,
+    description: page.summary ?? undefined,
+  };
+}
+
+// ISR 캐싱 (5분)
+export const revalidate = 300;
@@ -59,6 +59,8 @@ export interface PerformanceDashboardData {
     llmAvgMs: number;
     searchAvgMs: number;
     rewriteAvgMs: number;
+    rerankAvgMs: number;
+    rerankers: Array<{ reranker: string; count: number; avgMs: number }>;
     otherAvgMs: number;
   };
   slowChatbots: Array<{
@@ -130,6 +132,8 @@ export async function getPerformanceDashboardData(
         llmAvgMs: breakdown.llm.avgMs,
         searchAvgMs: breakdown.search.avgMs,
         rewriteAvgMs: breakdown.rewrite.avgMs,
+        rerankAvgMs: breakdown.rerank.avgMs,
+        rerankers: breakdown.rerank.byReranker,
         otherAvgMs: breakdown.other.avgMs,
       },
       slowChatbots: slowChatbots.map((c) => ({
@@ -2,13 +2,20 @@
 
 /**
  * 단계별 지연 분석 차트 컴포넌트
- * 응답 시간을 LLM, 검색, 쿼리 재작성 등 단계별로 분석합니다.
+ * 응답 시간을 LLM, 검색, 쿼리 재작성, Re-ranking 등 단계별로 분석합니다.
  */
 
+const RERANKER_LABELS: Record<string, string> = {
+  llm: 'LLM',
+  cross_encoder: 'Cross-Encoder',
+};
+
 interface BreakdownData {
   llmAvgMs: number;
   searchAvgMs: number;
   rewriteAvgMs: number;
+  rerankAvgMs: number;
+  rerankers: Array<{ reranker: string; count: number; avgMs: number }>;
   otherAvgMs: number;
 }
 
@@ -17,7 +24,12 @@ interface LatencyBreakdownChartProps {
 }
 
 export function LatencyBreakdownChart({ breakdown }: LatencyBreakdownChartProps) {
-  const total = breakdown.llmAvgMs + breakdown.searchAvgMs + breakdown.rewriteAvgMs + breakdown.otherAvgMs;
+  const total =
+    breakdown.llmAvgMs +
+    breakdown.searchAvgMs +
+    breakdown.rewriteAvgMs +
+    breakdown.rerankAvgMs +
+    breakdown.otherAvgMs;
 
   const segments = [
     {
@@ -38,6 +50,12 @@ export function LatencyBreakdownChart({ breakdown }: LatencyBreakdownChartProps)
       color: 'bg-yellow-500',
       description: '대화 맥락 반영 시간',
     },
+    {
+      label: 'Re-ranking',
+      value: breakdown.rerankAvgMs,
+      color: 'bg-green-500',
+      description: '검색 결과 재순위화 시간',
+    },
     {
       label: '기타',
       value: breakdown.otherAvgMs,
@@ -109,6 +127,25 @@ export function LatencyBreakdownChart({ breakdown }: LatencyBreakdownChartProps)
         ))}
       </div>
 
+      {/* Re-ranker별 실행 현황 */}
+      {breakdown.rerankers.length > 0 && (
+        <div className="mt-6 border-t border-border pt-4">
+          <h3 className="mb-2 text-sm font-medium text-foreground">Re-ranker별 실행</h3>
+          <div className="space-y-1">
+            {breakdown.rerankers.map((r) => (
+              <div key={r.reranker} className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {RERANKER_LABELS[r.reranker] ?? r.reranker}
+                </span>
+                <span className="text-foreground">
+                  {r.count.toLocaleString()}회 · 평균 {formatMs(r.avgMs)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* 인사이트 */}
       <div className="mt-6 rounded-md bg-muted/50 p-3">
         <p className="text-xs text-muted-foreground">
@@ -24,6 +24,9 @@ const FEATURE_COLORS: Record<string, string> = {
   embedding: '#F59E0B', // Amber
   rewrite: '#06B6D4', // Cyan
   context_generation: '#EC4899', // Pink
+  memory_summary: '#10B981', // Green
+  follow_up_suggestion: '#F97316', // Orange
+  groundedness_check: '#3B82F6', // Blue
 };
 
 export function CostBreakdownChart({ overview }: CostBreakdownChartProps) {
@@ -258,6 +261,12 @@ function getFeatureLabel(featureType: string): string {
       return '쿼리 재작성';
     case 'context_generation':
       return '컨텍스트 생성';
+    case 'memory_summary':
+      return '대화 요약';
+    case 'follow_up_suggestion':
+      return '후속 질문 제안';
+    case 'groundedness_check':
+      return '답변 근거 검증';
     default:
       return featureType;
   }
@@ -17,6 +17,9 @@ const FEATURE_COLORS: Record<string, string> = {
   embedding: 'oklch(0.7 0.15 85)', // Amber
   rewrite: 'oklch(0.7 0.15 200)', // Cyan
   context_generation: 'oklch(0.65 0.2 330)', // Pink
+  memory_summary: 'oklch(0.65 0.17 150)', // Green
+  follow_up_suggestion: 'oklch(0.65 0.18 40)', // Orange
+  groundedness_check: 'oklch(0.6 0.15 250)', // Blue
 };
 
 const FEATURE_LABELS: Record<string, string> = {
@@ -24,6 +27,9 @@ const FEATURE_LABELS: Record<string, string> = {
   embedding: '임베딩',
   rewrite: '쿼리 재작성',
   context_generation: '컨텍스트 생성',
+  memory_summary: '대화 요약',
+  follow_up_suggestion: '후속 질문 제안',
+  groundedness_check: '답변 근거 검증',
 };
 
 export function FeatureTokenDistribution({ data }: FeatureTokenDistributionProps) {
@@ -5,7 +5,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db, documents, tenants, chunks } from '@/lib/db';
-import { eq, desc, sql, count } from 'drizzle-orm';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
+import { eq, and, desc, sql, count } from 'drizzle-orm';
 import { getSession } from '@/lib/auth/session';
 import { logger } from '@/lib/logger';
 
@@ -68,7 +69,7 @@ export async function GET(request: NextRequest) {
         const chunkCount = await db
           .select({ count: count() })
           .from(chunks)
-          .where(eq(chunks.documentId, doc.id));
+          .where(and(eq(chunks.documentId, doc.id), isCurrentVersionChunk()));
 
         return {
           ...doc,
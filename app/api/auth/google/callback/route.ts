@@ -17,6 +17,7 @@ import { createSession } from '@/lib/auth';
 import { v4 as uuidv4 } from 'uuid';
 import { logLoginSuccess } from '@/lib/audit/logger';
 import { grantFreeTrialPoints } from '@/lib/points';
+import { getDefaultDatasetEmbedding } from '@/lib/rag/embedding';
 
 interface GoogleTokenResponse {
   access_token: string;
@@ -223,6 +224,7 @@ export async function GET(request: NextRequest) {
         name: '기본 데이터셋',
         description: '문서를 업로드하면 자동으로 이 데이터셋에 저장됩니다.',
         isDefault: true,
+        ...getDefaultDatasetEmbedding(),
       });
 
       // 체험 포인트 지급 (500P, 1회성)
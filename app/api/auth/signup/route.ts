@@ -13,6 +13,7 @@ import { withRateLimit } from '@/lib/middleware';
 import { ErrorCode, AppError, errorResponse } from '@/lib/errors';
 import { v4 as uuidv4 } from 'uuid';
 import { grantFreeTrialPoints } from '@/lib/points';
+import { getDefaultDatasetEmbedding } from '@/lib/rag/embedding';
 
 const signupSchema = z.object({
   email: z.string().email('유효한 이메일 주소를 입력하세요.'),
@@ -117,6 +118,7 @@ export async function POST(request: NextRequest) {
       name: '기본 데이터셋',
       description: '문서를 업로드하면 자동으로 이 데이터셋에 저장됩니다.',
       isDefault: true,
+      ...getDefaultDatasetEmbedding(),
     });
 
     // 7. 체험 포인트 지급 (500P, 1회성)
@@ -1,7 +1,9 @@
 /**
  * 대화 히스토리 API
- * GET /api/chat/history?sessionId=xxx - 대화 히스토리 조회
- * DELETE /api/chat/history?sessionId=xxx - 대화 삭제
+ * GET /api/chat/history?sessionId=xxx&chatbotId=yyy - 대화 히스토리 조회
+ * DELETE /api/chat/history?sessionId=xxx&chatbotId=yyy - 대화 삭제
+ *
+ * chatbotId를 생략하면 GET은 세션의 가장 최근 대화, DELETE는 세션의 모든 대화를 대상으로 한다.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,6 +14,7 @@ import { ErrorCode, AppError, handleApiError } from '@/lib/errors';
 
 // UUID 검증 스키마
 const sessionIdSchema = z.string().uuid();
+const chatbotIdSchema = z.string().uuid();
 
 // limit 범위 제한 (1~100)
 function validateLimit(value: string | null): number {
@@ -19,6 +22,19 @@ function validateLimit(value: string | null): number {
   return Math.min(Math.max(parsed || 20, 1), 100);
 }
 
+/**
+ * chatbotId 쿼리 파라미터 검증 (없으면 undefined)
+ */
+function parseChatbotId(value: string | null): string | undefined {
+  if (!value) return undefined;
+
+  const result = chatbotIdSchema.safeParse(value);
+  if (!result.success) {
+    throw new AppError(ErrorCode.VALIDATION_ERROR, '유효하지 않은 챗봇 ID 형식입니다');
+  }
+  return result.data;
+}
+
 /**
  * GET - 대화 히스토리 조회
  */
@@ -39,6 +55,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get('sessionId');
     const limit = validateLimit(searchParams.get('limit'));
+    const chatbotId = parseChatbotId(searchParams.get('chatbotId'));
 
     if (!sessionId) {
       throw new AppError(ErrorCode.VALIDATION_ERROR, '세션 ID가 필요합니다');
@@ -51,7 +68,12 @@ export async function GET(request: NextRequest) {
     }
 
     // 3. 히스토리 조회
-    const messages = await getConversationHistory(tenantId, sessionIdResult.data, limit);
+    const messages = await getConversationHistory(
+      tenantId,
+      sessionIdResult.data,
+      limit,
+      chatbotId
+    );
 
     return NextResponse.json({
       sessionId,
@@ -82,6 +104,7 @@ export async function DELETE(request: NextRequest) {
     // 2. 쿼리 파라미터 파싱 및 검증
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get('sessionId');
+    const chatbotId = parseChatbotId(searchParams.get('chatbotId'));
 
     if (!sessionId) {
       throw new AppError(ErrorCode.VALIDATION_ERROR, '세션 ID가 필요합니다');
@@ -94,7 +117,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // 3. 대화 삭제
-    const deleted = await deleteConversation(tenantId, sessionIdResult.data);
+    const deleted = await deleteConversation(tenantId, sessionIdResult.data, chatbotId);
 
     if (!deleted) {
       throw new AppError(ErrorCode.NOT_FOUND, '대화를 찾을 수 없습니다');
@@ -15,12 +15,16 @@ import {
   createInsufficientPointsError,
   createPointsLowWarningHeaders,
 } from '@/lib/points';
+import { isBotAnswer } from '@/lib/handoff/rules';
+import { metadataFilterSchema } from '@/lib/rag/metadata-filter';
 
 // 요청 스키마
 const chatRequestSchema = z.object({
   message: z.string().min(1, '메시지를 입력하세요').max(4000, '메시지가 너무 깁니다'),
   sessionId: z.string().uuid().optional(),
   channel: z.enum(['web', 'kakao']).default('web'),
+  // 검색 범위 제한 (예: { filenames: ['가격표'], dateRange: { from: '2026-01-01' } })
+  filters: metadataFilterSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -70,7 +74,7 @@ export async function POST(request: NextRequest) {
       throw new ValidationError('잘못된 요청 형식', errors);
     }
 
-    const { message, sessionId, channel } = parseResult.data;
+    const { message, sessionId, channel, filters } = parseResult.data;
 
     // 4. 포인트 검증
     const pointValidation = await validatePointsForResponse(tenantId);
@@ -82,16 +86,18 @@ export async function POST(request: NextRequest) {
     }
 
     // 5. 채팅 처리
-    const response = await processChat(tenantId, { message, sessionId, channel });
-
-    // 6. 포인트 차감 (AI 응답 성공 후)
-    await usePoints({
-      tenantId,
-      metadata: {
-        conversationId: response.sessionId,
-        channel,
-      },
-    });
+    const response = await processChat(tenantId, { message, sessionId, channel, filters });
+
+    // 6. 포인트 차감 (AI 응답 성공 후, 상담원 대기/응대 중에는 차감하지 않음)
+    if (isBotAnswer(response.handoff)) {
+      await usePoints({
+        tenantId,
+        metadata: {
+          conversationId: response.sessionId,
+          channel,
+        },
+      });
+    }
 
     // 7. 응답 반환 (포인트 부족 경고 시 헤더 추가)
     const headers: Record<string, string> = {
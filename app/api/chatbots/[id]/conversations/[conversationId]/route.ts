@@ -0,0 +1,50 @@
+/**
+ * 대화 기록 조회 API
+ *
+ * GET /api/chatbots/:id/conversations/:conversationId - 대화 전체 기록
+ *
+ * 대화 기록은 개인정보를 포함하므로 조회 시 F36 접속기록을 남긴다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateSession } from '@/lib/auth/session';
+import { getConversationTranscript } from '@/lib/chat/inbox';
+import { logPersonalDataAccess, AuditAction, TargetType } from '@/lib/audit';
+import { handleApiError } from '@/lib/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string; conversationId: string }>;
+}
+
+/**
+ * GET /api/chatbots/:id/conversations/:conversationId
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id, conversationId } = await params;
+
+    // 테넌트 + 챗봇 격리 조회
+    const transcript = await getConversationTranscript(session.tenantId, id, conversationId);
+    if (!transcript) {
+      return NextResponse.json({ error: '대화를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    await logPersonalDataAccess(
+      request,
+      session.userId,
+      session.tenantId,
+      AuditAction.CONVERSATION_VIEW,
+      conversationId,
+      { targetType: TargetType.CONVERSATION, details: { chatbotId: id } }
+    );
+
+    return NextResponse.json({ conversation: transcript });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * 대화 기록 내보내기 API
+ *
+ * GET /api/chatbots/:id/conversations/export?format=csv|jsonl - 필터 적용 대화 내보내기
+ *
+ * 내보낸 대화마다 F36 접속기록을 남긴다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq, and } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { chatbots } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { getConversationsForExport, inboxQuerySchema } from '@/lib/chat/inbox';
+import { flattenTranscripts, toCsv, toJsonl } from '@/lib/chat/transcript-export';
+import { logPersonalDataAccess, AuditAction, TargetType } from '@/lib/audit';
+import { ErrorCode, AppError, handleApiError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+
+const exportQuerySchema = inboxQuerySchema
+  .omit({ page: true, limit: true })
+  .extend({ format: z.enum(['csv', 'jsonl']).default('csv') });
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/chatbots/:id/conversations/export
+ *
+ * 목록 API와 동일한 필터를 지원하며, 최대 MAX_EXPORT_CONVERSATIONS건까지 내보낸다.
+ * - csv: 메시지 1건 = 1행
+ * - jsonl: 대화 1건 = 1줄
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const tenantId = session.tenantId;
+
+    // 챗봇 존재 및 권한 확인
+    const [chatbot] = await db
+      .select({ id: chatbots.id })
+      .from(chatbots)
+      .where(and(eq(chatbots.id, id), eq(chatbots.tenantId, tenantId)));
+
+    if (!chatbot) {
+      return NextResponse.json({ error: '챗봇을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const parseResult = exportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parseResult.success) {
+      return NextResponse.json(
+        new AppError(ErrorCode.VALIDATION_ERROR, '잘못된 요청 파라미터입니다.').toSafeResponse(),
+        { status: 400 }
+      );
+    }
+
+    const { format, ...filter } = parseResult.data;
+    const transcripts = await getConversationsForExport({ tenantId, chatbotId: id, ...filter });
+
+    // 대화별 개인정보 접근 기록 (해시 체인 유지를 위해 순차 기록)
+    for (const transcript of transcripts) {
+      await logPersonalDataAccess(
+        request,
+        session.userId,
+        tenantId,
+        AuditAction.CONVERSATION_EXPORT,
+        transcript.id,
+        { targetType: TargetType.CONVERSATION, details: { chatbotId: id, format } }
+      );
+    }
+
+    logger.info('Conversations exported', {
+      tenantId,
+      chatbotId: id,
+      userId: session.userId,
+      format,
+      count: transcripts.length,
+    });
+
+    const date = new Date().toISOString().split('T')[0];
+    const body = format === 'csv' ? toCsv(flattenTranscripts(transcripts)) : toJsonl(transcripts);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type':
+          format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="conversations-${date}.${format}"`,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
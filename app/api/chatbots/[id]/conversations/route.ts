@@ -0,0 +1,71 @@
+/**
+ * 대화 인박스 API
+ *
+ * GET /api/chatbots/:id/conversations - 챗봇별 대화 목록 (필터/검색)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { chatbots } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { listConversations, inboxQuerySchema } from '@/lib/chat/inbox';
+import { ErrorCode, AppError, handleApiError } from '@/lib/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/chatbots/:id/conversations
+ *
+ * Query Parameters:
+ * - channel: web | kakao | public_page
+ * - from, to: 생성일 범위 (ISO 8601)
+ * - intent: CHITCHAT | DOMAIN_QUERY | OUT_OF_SCOPE
+ * - responseType: cached | generated
+ * - noResultOnly: true면 "정보 없음" 응답이 있는 대화만
+ * - search: 메시지 본문 검색어
+ * - page, limit: 페이지네이션
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const tenantId = session.tenantId;
+
+    // 챗봇 존재 및 권한 확인
+    const [chatbot] = await db
+      .select({ id: chatbots.id })
+      .from(chatbots)
+      .where(and(eq(chatbots.id, id), eq(chatbots.tenantId, tenantId)));
+
+    if (!chatbot) {
+      return NextResponse.json({ error: '챗봇을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const parseResult = inboxQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parseResult.success) {
+      return NextResponse.json(
+        new AppError(ErrorCode.VALIDATION_ERROR, '잘못된 요청 파라미터입니다.').toSafeResponse(),
+        { status: 400 }
+      );
+    }
+
+    const result = await listConversations({
+      tenantId,
+      chatbotId: id,
+      ...parseResult.data,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -12,6 +12,7 @@ import { db } from '@/lib/db';
 import { chatbots, chatbotDatasets, datasets } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 import { triggerRagIndexGeneration } from '@/lib/chat/rag-index-generator';
+import { invalidateChatbotCache } from '@/lib/chat/cache';
 
 // 가중치 수정 스키마
 const updateWeightSchema = z.object({
@@ -85,6 +86,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       .set({ weight })
       .where(eq(chatbotDatasets.id, link.id));
 
+    // 가중치가 바뀌면 검색 순위가 달라지므로 응답 캐시 무효화
+    if (link.weight !== weight) {
+      await invalidateChatbotCache([id], 'dataset_weight_changed');
+    }
+
     return NextResponse.json({
       message: '가중치가 수정되었습니다',
       weight,
@@ -145,11 +151,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // 연결 해제
     await db.delete(chatbotDatasets).where(eq(chatbotDatasets.id, link.id));
 
-    // 콘텐츠 변경 시점 갱신 (페르소나 재생성 필요 여부 판단에 사용)
-    await db
-      .update(chatbots)
-      .set({ contentUpdatedAt: new Date() })
-      .where(eq(chatbots.id, id));
+    // 콘텐츠 변경 시점 갱신 + 응답 캐시 무효화
+    // (contentUpdatedAt은 페르소나 재생성 필요 여부 판단에도 사용)
+    await invalidateChatbotCache([id], 'dataset_unlinked');
 
     // 데이터셋 해제 시 RAG 인덱스 백그라운드 재생성 트리거
     triggerRagIndexGeneration(id, tenantId);
@@ -12,6 +12,7 @@ import { db } from '@/lib/db';
 import { chatbots, chatbotDatasets, datasets } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 import { triggerRagIndexGeneration } from '@/lib/chat/rag-index-generator';
+import { invalidateChatbotCache } from '@/lib/chat/cache';
 
 // 데이터셋 연결 스키마
 const linkDatasetSchema = z.object({
@@ -149,6 +150,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         .set({ weight })
         .where(eq(chatbotDatasets.id, existing.id));
 
+      if (existing.weight !== weight) {
+        await invalidateChatbotCache([id], 'dataset_weight_changed');
+      }
+
       return NextResponse.json({
         message: '데이터셋 가중치가 업데이트되었습니다',
         updated: true,
@@ -162,11 +167,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       weight,
     });
 
-    // 콘텐츠 변경 시점 갱신 (페르소나 재생성 필요 여부 판단에 사용)
-    await db
-      .update(chatbots)
-      .set({ contentUpdatedAt: new Date() })
-      .where(eq(chatbots.id, id));
+    // 콘텐츠 변경 시점 갱신 + 응답 캐시 무효화
+    // (contentUpdatedAt은 페르소나 재생성 필요 여부 판단에도 사용)
+    await invalidateChatbotCache([id], 'dataset_linked');
 
     // 데이터셋 연결 시 RAG 인덱스 백그라운드 재생성 트리거
     triggerRagIndexGeneration(id, tenantId);
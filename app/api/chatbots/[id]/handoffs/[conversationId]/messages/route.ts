@@ -0,0 +1,69 @@
+/**
+ * 상담원 메시지 API
+ *
+ * POST /api/chatbots/:id/handoffs/:conversationId/messages - 상담원 답장 전송
+ *
+ * 웹 채널은 위젯/공개 페이지가 폴링으로 가져가고,
+ * 카카오톡은 콜백 URL이 유효하면 즉시, 아니면 사용자의 다음 발화 응답으로 전달된다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db, users } from '@/lib/db';
+import { validateSession } from '@/lib/auth/session';
+import { sendOperatorMessage } from '@/lib/handoff';
+import { ErrorCode, AppError, handleApiError } from '@/lib/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string; conversationId: string }>;
+}
+
+const operatorMessageSchema = z.object({
+  content: z.string().trim().min(1, '메시지를 입력하세요').max(4000, '메시지가 너무 깁니다'),
+});
+
+/**
+ * POST /api/chatbots/:id/handoffs/:conversationId/messages
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id, conversationId } = await params;
+
+    const parseResult = operatorMessageSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          parseResult.error.issues[0]?.message ?? '잘못된 요청입니다.'
+        ).toSafeResponse(),
+        { status: 400 }
+      );
+    }
+
+    const [operator] = await db
+      .select({ name: users.name })
+      .from(users)
+      .where(eq(users.id, session.userId));
+
+    const message = await sendOperatorMessage(
+      session.tenantId,
+      id,
+      conversationId,
+      { id: session.userId, name: operator?.name },
+      parseResult.data.content
+    );
+    if (!message) {
+      return NextResponse.json({ error: '상담 중인 대화를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
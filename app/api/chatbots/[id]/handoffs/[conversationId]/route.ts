@@ -0,0 +1,57 @@
+/**
+ * 상담원 연결 상태 API
+ *
+ * PATCH /api/chatbots/:id/handoffs/:conversationId - 상담 수락(active) / 종료(resolved)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateSession } from '@/lib/auth/session';
+import { updateHandoffStatus } from '@/lib/handoff';
+import { ErrorCode, AppError, handleApiError } from '@/lib/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string; conversationId: string }>;
+}
+
+const updateHandoffSchema = z.object({
+  status: z.enum(['active', 'resolved']),
+});
+
+/**
+ * PATCH /api/chatbots/:id/handoffs/:conversationId
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id, conversationId } = await params;
+
+    const parseResult = updateHandoffSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        new AppError(ErrorCode.VALIDATION_ERROR, '잘못된 요청입니다.').toSafeResponse(),
+        { status: 400 }
+      );
+    }
+
+    // 테넌트 + 챗봇 격리 업데이트 (대기/응대 중인 대화만)
+    const updated = await updateHandoffStatus(
+      session.tenantId,
+      id,
+      conversationId,
+      parseResult.data.status,
+      session.userId
+    );
+    if (!updated) {
+      return NextResponse.json({ error: '상담 중인 대화를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
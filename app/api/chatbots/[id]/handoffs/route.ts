@@ -0,0 +1,48 @@
+/**
+ * 상담원 대기열 API
+ *
+ * GET /api/chatbots/:id/handoffs - 상담원 연결 대기/응대 중인 대화 목록
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { chatbots } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { listHandoffQueue } from '@/lib/handoff';
+import { handleApiError } from '@/lib/errors';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/chatbots/:id/handoffs
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const tenantId = session.tenantId;
+
+    // 챗봇 존재 및 권한 확인
+    const [chatbot] = await db
+      .select({ id: chatbots.id })
+      .from(chatbots)
+      .where(and(eq(chatbots.id, id), eq(chatbots.tenantId, tenantId)));
+
+    if (!chatbot) {
+      return NextResponse.json({ error: '챗봇을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const queue = await listHandoffQueue(tenantId, id);
+
+    return NextResponse.json({ queue });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -15,6 +15,8 @@ import {
   getQualityMetricsByStrategy,
   extractABTestResult,
 } from '@/lib/rag/quality-metrics';
+import { getFeedbackStats } from '@/lib/chat/feedback';
+import { getChatbotCacheStats } from '@/lib/chat/cache';
 import type { QualityMetricsResponse } from '@/types/experiment';
 
 interface RouteParams {
@@ -33,6 +35,8 @@ interface RouteParams {
  * Response:
  * - metrics: 전략별 품질 메트릭 배열
  * - abTestResult: A/B 테스트 결과 (control/treatment 모두 있는 경우)
+ * - satisfaction: 좋아요/싫어요 피드백 기반 만족도
+ * - cache: 응답 캐시 히트율
  * - dateRange: 조회 기간
  * - queriedAt: 조회 시점
  */
@@ -73,8 +77,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    // 전략별 품질 메트릭 조회
-    const metrics = await getQualityMetricsByStrategy(id, dateRange);
+    // 전략별 품질 메트릭 + 사용자 만족도 + 캐시 히트율 조회
+    const [metrics, satisfaction, cache] = await Promise.all([
+      getQualityMetricsByStrategy(id, dateRange),
+      getFeedbackStats(tenantId, id, dateRange),
+      getChatbotCacheStats(tenantId, id, dateRange),
+    ]);
 
     // A/B 테스트 결과 추출 (control/treatment 모두 있는 경우)
     const abTestResult = extractABTestResult(metrics);
@@ -82,6 +90,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const response: QualityMetricsResponse = {
       metrics,
       abTestResult,
+      satisfaction,
+      cache,
       dateRange: dateRange
         ? {
             from: dateRange.from.toISOString(),
@@ -0,0 +1,92 @@
+/**
+ * 검색 디버거 API
+ *
+ * POST /api/chatbots/:id/retrieval-debug
+ * 질문 1개를 챗봇 검색 파이프라인에 통과시키고 단계별 결과를 반환합니다.
+ * (응답 생성/대화 저장/캐시 없음)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateSession } from '@/lib/auth/session';
+import { metadataFilterSchema, normalizeMetadataFilter } from '@/lib/rag/metadata-filter';
+import { runRetrievalDebug } from '@/lib/chat/retrieval-debugger';
+
+// 검색 설정 오버라이드 (챗봇 설정 API와 같은 범위)
+const searchConfigOverrideSchema = z.object({
+  maxChunks: z.number().int().min(1).max(20).optional(),
+  minScore: z.number().min(0).max(1).optional(),
+  defaultFilters: metadataFilterSchema.nullable().optional(),
+  sourceWeights: z
+    .object({
+      chunks: z.number().min(0.1).max(10).optional(),
+      knowledgePages: z.number().min(0.1).max(10).optional(),
+    })
+    .optional(),
+  datasetWeights: z.record(z.string(), z.number().min(0.1).max(10)).optional(),
+});
+
+const debugRequestSchema = z.object({
+  query: z.string().trim().min(1).max(1000),
+  // 비교 모드면 2개 (A/B)
+  configs: z.array(searchConfigOverrideSchema).min(1).max(2).default([{}]),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/chatbots/:id/retrieval-debug
+ *
+ * Request Body:
+ * - query: 테스트할 질문
+ * - configs: 검색 설정 오버라이드 목록 (1~2개, 생략한 값은 챗봇 설정 사용)
+ *
+ * Response:
+ * - result: Intent, 재작성 쿼리, 설정별 단계 결과(Dense/Sparse/Knowledge Page/RRF/Re-ranking)와 최종 프롬프트
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const parseResult = debugRequestSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: '입력값이 올바르지 않습니다', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { query, configs } = parseResult.data;
+    const result = await runRetrievalDebug(
+      session.tenantId,
+      id,
+      query,
+      configs.map((config) => ({
+        ...config,
+        ...(config.defaultFilters !== undefined && {
+          defaultFilters: normalizeMetadataFilter(config.defaultFilters),
+        }),
+      }))
+    );
+
+    if (!result) {
+      return NextResponse.json({ error: '챗봇을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error('Retrieval debug error:', error);
+    return NextResponse.json(
+      { error: '검색 디버깅 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
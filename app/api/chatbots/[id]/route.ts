@@ -18,6 +18,17 @@ import {
   knowledgePages,
 } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
+import { getTenantTier } from '@/lib/tier/validator';
+import { getChatModels } from '@/lib/rag/model-registry';
+import { validateModelSelection } from '@/lib/rag/model-chain';
+import { metadataFilterSchema, normalizeMetadataFilter } from '@/lib/rag/metadata-filter';
+import {
+  MAX_PARENT_WINDOW,
+  MIN_PARENT_MAX_TOKENS,
+  MAX_PARENT_MAX_TOKENS,
+} from '@/lib/rag/parent-window';
+import { MAX_QUERY_VARIANT_COUNT } from '@/lib/rag/query-expansion';
+import { invalidateChatbotCache } from '@/lib/chat/cache';
 
 // 챗봇 수정 스키마
 // personaConfig: 사용자 편집 가능한 필드만 허용
@@ -31,12 +42,55 @@ const updateChatbotSchema = z.object({
       temperature: z.number().min(0).max(2).optional(),
       maxTokens: z.number().min(100).max(4096).optional(),
       systemPrompt: z.string().max(2000).optional().nullable(),
+      // 모델 선택 (`provider:modelId`), 티어 제한은 저장 시 검증
+      model: z.string().max(100).optional().nullable(),
+      fallbackModels: z.array(z.string().max(100)).max(5).optional(),
+      // 출처 표기 모드 (웹/공개 페이지 답변에 각주 표시)
+      inlineCitations: z.boolean().optional(),
+      // 후속 질문 제안 (DOMAIN_QUERY 답변 후 칩/바로연결 버튼)
+      followUpSuggestions: z.boolean().optional(),
+      // 답변 근거 검증 (근거 없는 숫자/연락처/날짜가 있으면 재생성 또는 정보 없음 응답)
+      groundednessGuard: z
+        .object({
+          mode: z.enum(['off', 'regenerate', 'fallback']),
+          llmVerification: z.boolean().optional(),
+        })
+        .optional(),
     })
     .optional(),
   searchConfig: z
     .object({
       maxChunks: z.number().min(1).max(20).optional(),
       minScore: z.number().min(0).max(1).optional(),
+      // 기본 검색 메타데이터 필터 (null이면 해제)
+      defaultFilters: metadataFilterSchema.nullable().optional(),
+      // 검색 소스 가중치 (문서 청크 vs Knowledge Page, RRF 병합 시 곱함)
+      sourceWeights: z
+        .object({
+          chunks: z.number().min(0.1).max(10).optional(),
+          knowledgePages: z.number().min(0.1).max(10).optional(),
+        })
+        .optional(),
+      // Parent-Child 확장 (검색은 작은 청크, 응답 생성에는 섹션/앞뒤 청크 전달)
+      parentExpansion: z
+        .object({
+          mode: z.enum(['off', 'neighbors', 'section']),
+          window: z.number().int().min(1).max(MAX_PARENT_WINDOW).optional(),
+          maxTokens: z
+            .number()
+            .int()
+            .min(MIN_PARENT_MAX_TOKENS)
+            .max(MAX_PARENT_MAX_TOKENS)
+            .optional(),
+        })
+        .optional(),
+      // 검색 쿼리 확장 (Multi-Query RRF 또는 HyDE)
+      queryExpansion: z
+        .object({
+          strategy: z.enum(['none', 'multi_query', 'hyde']),
+          queryCount: z.number().int().min(1).max(MAX_QUERY_VARIANT_COUNT).optional(),
+        })
+        .optional(),
     })
     .optional(),
   // 페르소나 설정 (사용자 편집 가능한 챗봇 성격/태도만)
@@ -62,6 +116,16 @@ const updateChatbotSchema = z.object({
       experimentNote: z.string().max(500).optional(),
     })
     .optional(),
+  // 상담원 연결 규칙
+  handoffConfig: z
+    .object({
+      enabled: z.boolean().optional(),
+      keywords: z.array(z.string().trim().min(1).max(30)).max(20).optional(),
+      noResultThreshold: z.number().int().min(0).max(10).optional(),
+      minIntentConfidence: z.number().min(0).max(1).optional(),
+      offHoursMessage: z.string().max(500).optional(),
+    })
+    .optional(),
 });
 
 interface RouteParams {
@@ -203,13 +267,44 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // 모델 선택 변경 시 활성 모델 + 티어 제한 검증
+    if (
+      updateData.llmConfig &&
+      (updateData.llmConfig.model !== undefined || updateData.llmConfig.fallbackModels !== undefined)
+    ) {
+      const currentLlmConfig = (existingChatbot.llmConfig ?? {}) as {
+        model?: string | null;
+        fallbackModels?: string[];
+      };
+      const [models, tier] = await Promise.all([getChatModels(), getTenantTier(tenantId)]);
+      const modelError = validateModelSelection(
+        {
+          model: updateData.llmConfig.model !== undefined
+            ? updateData.llmConfig.model
+            : currentLlmConfig.model,
+          fallbackModels: updateData.llmConfig.fallbackModels ?? currentLlmConfig.fallbackModels,
+        },
+        models,
+        tier
+      );
+      if (modelError) {
+        return NextResponse.json({ error: modelError }, { status: 400 });
+      }
+    }
+
     // LLM/검색/페르소나 설정 병합
     const updatedLlmConfig = updateData.llmConfig
       ? { ...(existingChatbot.llmConfig as object), ...updateData.llmConfig }
       : existingChatbot.llmConfig;
 
     const updatedSearchConfig = updateData.searchConfig
-      ? { ...(existingChatbot.searchConfig as object), ...updateData.searchConfig }
+      ? {
+          ...(existingChatbot.searchConfig as object),
+          ...updateData.searchConfig,
+          ...(updateData.searchConfig.defaultFilters !== undefined && {
+            defaultFilters: normalizeMetadataFilter(updateData.searchConfig.defaultFilters),
+          }),
+        }
       : existingChatbot.searchConfig;
 
     const updatedPersonaConfig = updateData.personaConfig
@@ -221,6 +316,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       ? { ...(existingChatbot.experimentConfig as object), ...updateData.experimentConfig }
       : existingChatbot.experimentConfig;
 
+    // 상담원 연결 규칙 병합
+    const updatedHandoffConfig = updateData.handoffConfig
+      ? { ...(existingChatbot.handoffConfig as object), ...updateData.handoffConfig }
+      : existingChatbot.handoffConfig;
+
     // 챗봇 수정
     const [updatedChatbot] = await db
       .update(chatbots)
@@ -232,11 +332,27 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         searchConfig: updatedSearchConfig,
         personaConfig: updatedPersonaConfig,
         experimentConfig: updatedExperimentConfig,
+        handoffConfig: updatedHandoffConfig,
         updatedAt: new Date(),
       })
       .where(eq(chatbots.id, id))
       .returning();
 
+    // LLM/검색/페르소나 설정은 모두 답변에 영향을 줌
+    // (시스템 프롬프트, 페르소나, 모델·폴백 체인, 인라인 인용, 근거 검증, 필터, 가중치, 확장 등)
+    // → 병합 전후가 하나라도 다르면 응답 캐시 무효화 (키 순서 차이로 인한 과잉 무효화는 무해)
+    // 콘텐츠 변경이 아니므로 contentUpdatedAt(페르소나 재생성 안내 기준)은 갱신하지 않음
+    const answerConfigChanged =
+      JSON.stringify(existingChatbot.llmConfig ?? null) !== JSON.stringify(updatedLlmConfig ?? null) ||
+      JSON.stringify(existingChatbot.searchConfig ?? null) !==
+        JSON.stringify(updatedSearchConfig ?? null) ||
+      JSON.stringify(existingChatbot.personaConfig ?? null) !==
+        JSON.stringify(updatedPersonaConfig ?? null);
+
+    if (answerConfigChanged) {
+      await invalidateChatbotCache([id], 'answer_config_changed', { contentChanged: false });
+    }
+
     return NextResponse.json({
       message: '챗봇이 수정되었습니다',
       chatbot: updatedChatbot,
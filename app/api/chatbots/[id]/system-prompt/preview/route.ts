@@ -0,0 +1,110 @@
+/**
+ * 시스템 프롬프트 미리보기 API
+ *
+ * POST /api/chatbots/:id/system-prompt/preview - LLM에 전달되는 최종 시스템 프롬프트 조회
+ *
+ * 저장된 llmConfig.systemPrompt / personaConfig를 기본으로 사용하며,
+ * 요청 본문의 값으로 덮어써서 저장 전 편집 내용을 미리볼 수 있다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq, and } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { chatbots } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { DEFAULT_PERSONA, type PersonaConfig } from '@/lib/chat/intent-classifier';
+import { composeSystemPrompt, MAX_CUSTOM_PROMPT_LENGTH } from '@/lib/rag/prompt-composer';
+
+// 미리보기 요청 스키마 (모든 필드 선택)
+const previewSchema = z.object({
+  channel: z.enum(['web', 'kakao', 'public_page']).optional().default('web'),
+  isFirstTurn: z.boolean().optional().default(true),
+  systemPrompt: z.string().max(MAX_CUSTOM_PROMPT_LENGTH).optional().nullable(),
+  inlineCitations: z.boolean().optional(),
+  persona: z
+    .object({
+      name: z.string().max(50).optional(),
+      expertiseArea: z.string().max(100).optional(),
+      expertiseDescription: z.string().max(1000).optional(),
+      excludedTopics: z.array(z.string().max(50)).max(20).optional(),
+      tone: z.enum(['professional', 'friendly', 'casual']).optional(),
+    })
+    .optional(),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/chatbots/:id/system-prompt/preview
+ *
+ * Response:
+ * - prompt: 최종 시스템 프롬프트
+ * - sections: 합성에 사용된 섹션 (배치 순서)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const tenantId = session.tenantId;
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = previewSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: '입력값이 올바르지 않습니다', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // 챗봇 조회
+    const [chatbot] = await db
+      .select({
+        id: chatbots.id,
+        llmConfig: chatbots.llmConfig,
+        personaConfig: chatbots.personaConfig,
+      })
+      .from(chatbots)
+      .where(and(eq(chatbots.id, id), eq(chatbots.tenantId, tenantId)));
+
+    if (!chatbot) {
+      return NextResponse.json(
+        { error: '챗봇을 찾을 수 없습니다' },
+        { status: 404 }
+      );
+    }
+
+    const { channel, isFirstTurn, systemPrompt, inlineCitations, persona } = parseResult.data;
+    const savedLlmConfig =
+      (chatbot.llmConfig as { systemPrompt?: string | null; inlineCitations?: boolean }) || {};
+    const savedPersona = chatbot.personaConfig as Partial<PersonaConfig> | null;
+
+    // 채팅 서비스와 동일하게 저장된 페르소나는 기본값과 병합
+    const effectivePersona =
+      savedPersona || persona
+        ? { ...DEFAULT_PERSONA, ...savedPersona, ...persona }
+        : undefined;
+
+    const composed = composeSystemPrompt({
+      channel,
+      isFirstTurn,
+      customSystemPrompt: systemPrompt !== undefined ? systemPrompt : savedLlmConfig.systemPrompt,
+      persona: effectivePersona,
+      inlineCitations: inlineCitations ?? savedLlmConfig.inlineCitations,
+    });
+
+    return NextResponse.json(composed);
+  } catch (error) {
+    console.error('System prompt preview error:', error);
+    return NextResponse.json(
+      { error: '프롬프트 미리보기 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * 선택 가능한 LLM 모델 목록 API
+ *
+ * GET /api/chatbots/models
+ * 활성 채팅 모델과 현재 티어에서의 사용 가능 여부를 반환합니다.
+ */
+
+import { NextResponse } from 'next/server';
+import { validateSession } from '@/lib/auth/session';
+import { getTenantTier } from '@/lib/tier/validator';
+import { TIER_MODEL_LIMITS } from '@/lib/tier/constants';
+import { getChatModels } from '@/lib/rag/model-registry';
+import { isModelAllowedForTier } from '@/lib/rag/model-chain';
+
+/**
+ * GET /api/chatbots/models
+ *
+ * Response:
+ * - models: 활성 채팅 모델 목록 (allowed: 현재 티어에서 선택 가능 여부)
+ * - limits: 티어별 모델 선택 제한 (폴백 개수 등)
+ */
+export async function GET() {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const [models, tier] = await Promise.all([
+      getChatModels(),
+      getTenantTier(session.tenantId),
+    ]);
+
+    return NextResponse.json({
+      tier,
+      limits: TIER_MODEL_LIMITS[tier],
+      models: models.map((model) => ({
+        key: model.key,
+        provider: model.provider,
+        modelId: model.modelId,
+        displayName: model.displayName,
+        inputPricePerMillion: model.inputPricePerMillion,
+        outputPricePerMillion: model.outputPricePerMillion,
+        isDefault: model.isDefault,
+        allowed: isModelAllowedForTier(model, tier),
+      })),
+    });
+  } catch (error) {
+    console.error('LLM models get error:', error);
+    return NextResponse.json(
+      { error: '모델 목록 조회 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,7 @@ import { db } from '@/lib/db';
 import { datasets, chunks } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 import { createAuditLogFromRequest, AuditAction, TargetType } from '@/lib/audit';
+import { reindexChunkTerms } from '@/lib/rag/sparse-index';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -28,6 +29,7 @@ const copyChunksSchema = z.object({
  * - 원본 청크는 그대로 유지됩니다.
  * - 복사된 청크의 sourceChunkId에 원본 청크 ID가 저장됩니다.
  * - 임베딩 벡터도 함께 복사되므로 재계산이 불필요합니다.
+ *   (임베딩 모델이 대상 데이터셋과 다르면 벡터 없이 복사되어 무결성 수정으로 재생성)
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
@@ -41,7 +43,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // 대상 데이터셋 존재 및 권한 확인
     const [targetDataset] = await db
-      .select({ id: datasets.id, name: datasets.name })
+      .select({ id: datasets.id, name: datasets.name, embeddingModel: datasets.embeddingModel })
       .from(datasets)
       .where(and(eq(datasets.id, targetDatasetId), eq(datasets.tenantId, tenantId)));
 
@@ -94,7 +96,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           datasetId: targetDatasetId,
           sourceChunkId: chunk.id, // 원본 청크 ID 저장
           content: chunk.content,
-          embedding: chunk.embedding,
+          embedding:
+            chunk.embeddingModel === targetDataset.embeddingModel ? chunk.embedding : null,
+          embeddingModel: targetDataset.embeddingModel,
           contentTsv: chunk.contentTsv,
           chunkIndex: chunk.chunkIndex,
           qualityScore: chunk.qualityScore,
@@ -116,6 +120,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       });
     }
 
+    // 복사된 청크 BM25 Sparse 인덱싱
+    await reindexChunkTerms(copiedChunks.map((c) => c.newId));
+
     // 데이터셋 통계 업데이트
     await db
       .update(datasets)
@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { eq, and, desc, sql } from 'drizzle-orm';
 import { db } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { datasets, documents, chunks } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 
@@ -65,7 +66,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             approvedCount: sql<number>`count(*) FILTER (WHERE status = 'approved')::int`,
           })
           .from(chunks)
-          .where(eq(chunks.documentId, doc.id));
+          .where(and(eq(chunks.documentId, doc.id), isCurrentVersionChunk()));
 
         return {
           id: doc.id,
@@ -0,0 +1,156 @@
+/**
+ * 데이터셋 임베딩 모델 API
+ *
+ * GET /api/datasets/:id/embedding-model - 현재 모델, 선택 가능 모델, 최근 재임베딩 작업 조회
+ * POST /api/datasets/:id/embedding-model - 새 모델로 재임베딩 시작 (백그라운드 작업)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq, and, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { datasets, chunks, embeddingMigrations } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { inngest } from '@/inngest/client';
+import {
+  getLatestEmbeddingMigration,
+  hasActiveEmbeddingMigration,
+} from '@/lib/rag/embedding-migration';
+import { isEmbeddingModelId, listEmbeddingModels } from '@/lib/rag/embedding-models';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const reembedSchema = z.object({
+  model: z.string().refine(isEmbeddingModelId, '지원하지 않는 임베딩 모델입니다'),
+});
+
+/**
+ * GET /api/datasets/:id/embedding-model - 임베딩 모델 및 재임베딩 진행 상태 조회
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const [dataset] = await db
+      .select({
+        embeddingModel: datasets.embeddingModel,
+        embeddingDimension: datasets.embeddingDimension,
+      })
+      .from(datasets)
+      .where(and(eq(datasets.id, id), eq(datasets.tenantId, session.tenantId)));
+
+    if (!dataset) {
+      return NextResponse.json({ error: '데이터셋을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const migration = await getLatestEmbeddingMigration(id);
+
+    return NextResponse.json({
+      embeddingModel: dataset.embeddingModel,
+      embeddingDimension: dataset.embeddingDimension,
+      models: listEmbeddingModels(),
+      migration,
+    });
+  } catch (error) {
+    logger.error('Embedding model fetch error', error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { error: '임베딩 모델 정보를 불러오는 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/datasets/:id/embedding-model - 재임베딩 시작
+ *
+ * 작업이 끝날 때까지 검색은 기존 모델 벡터를 사용합니다.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id: datasetId } = await params;
+    const tenantId = session.tenantId;
+
+    const body = await request.json();
+    const parseResult = reembedSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: '입력값이 올바르지 않습니다', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { model } = parseResult.data;
+
+    const [dataset] = await db
+      .select({ id: datasets.id, embeddingModel: datasets.embeddingModel })
+      .from(datasets)
+      .where(and(eq(datasets.id, datasetId), eq(datasets.tenantId, tenantId)));
+
+    if (!dataset) {
+      return NextResponse.json({ error: '데이터셋을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    if (dataset.embeddingModel === model) {
+      return NextResponse.json({ error: '이미 사용 중인 임베딩 모델입니다' }, { status: 400 });
+    }
+
+    if (await hasActiveEmbeddingMigration(datasetId)) {
+      return NextResponse.json({ error: '이미 재임베딩이 진행 중입니다' }, { status: 409 });
+    }
+
+    const [chunkStats] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(chunks)
+      .where(and(eq(chunks.datasetId, datasetId), sql`LENGTH(${chunks.content}) > 0`));
+
+    const [migration] = await db
+      .insert(embeddingMigrations)
+      .values({
+        tenantId,
+        datasetId,
+        fromModel: dataset.embeddingModel,
+        toModel: model,
+        totalChunks: chunkStats?.count ?? 0,
+      })
+      .returning();
+
+    await inngest.send({
+      name: 'dataset/reembed.requested',
+      data: {
+        migrationId: migration.id,
+        datasetId,
+        tenantId,
+        toModel: model,
+      },
+    });
+
+    logger.info('Dataset re-embedding requested', {
+      datasetId,
+      tenantId,
+      migrationId: migration.id,
+      fromModel: dataset.embeddingModel,
+      toModel: model,
+      requestedBy: session.userId,
+    });
+
+    return NextResponse.json({ migration }, { status: 202 });
+  } catch (error) {
+    logger.error('Re-embedding start error', error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { error: '재임베딩을 시작하는 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
@@ -12,6 +12,8 @@ import { sql } from 'drizzle-orm';
 import { db } from '@/lib/db';
 import { validateSession } from '@/lib/auth/session';
 import { embedTexts } from '@/lib/rag';
+import { getDatasetEmbeddingModelId } from '@/lib/rag/embedding-migration';
+import { toVectorLiteral } from '@/lib/rag/embedding-models';
 import { logger } from '@/lib/logger';
 
 interface RouteParams {
@@ -180,8 +182,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         });
       }
 
+      // 데이터셋 임베딩 모델로 재생성
+      const embeddingModel = await getDatasetEmbeddingModelId(datasetId);
+
       logger.info('Starting embedding regeneration', {
         datasetId,
+        embeddingModel,
         totalChunks: chunks.length,
       });
 
@@ -195,7 +201,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
         try {
           // 임베딩 생성
-          const embeddings = await embedTexts(texts, { tenantId });
+          const embeddings = await embedTexts(texts, { tenantId }, embeddingModel);
 
           // 각 청크에 임베딩 업데이트
           for (let j = 0; j < batch.length; j++) {
@@ -203,12 +209,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             const embedding = embeddings[j];
 
             if (embedding && embedding.length > 0) {
-              // pgvector 형식으로 변환
-              const embeddingStr = `[${embedding.join(',')}]`;
-
               await db.execute(sql`
                 UPDATE chunks
-                SET embedding = ${embeddingStr}::vector,
+                SET embedding = ${toVectorLiteral(embedding)}::vector,
+                    embedding_model = ${embeddingModel},
                     updated_at = NOW()
                 WHERE id = ${chunk.id}
               `);
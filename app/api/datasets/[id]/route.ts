@@ -10,6 +10,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { eq, and, sql } from 'drizzle-orm';
 import { db } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { datasets, documents, chunks, chatbotDatasets } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 import { triggerRagIndexGeneration } from '@/lib/chat/rag-index-generator';
@@ -71,7 +72,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         modifiedCount: sql<number>`count(*) FILTER (WHERE status = 'modified')::int`,
       })
       .from(chunks)
-      .where(eq(chunks.datasetId, id));
+      .where(and(eq(chunks.datasetId, id), isCurrentVersionChunk()));
 
     // 연결된 챗봇 수
     const [chatbotCount] = await db
@@ -88,7 +89,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         notSearchable: sql<number>`count(*) FILTER (WHERE embedding IS NULL AND content_tsv IS NULL)::int`,
       })
       .from(chunks)
-      .where(eq(chunks.datasetId, id));
+      .where(and(eq(chunks.datasetId, id), isCurrentVersionChunk()));
 
     // v2: 품질 분포
     const [qualityDistribution] = await db
@@ -100,7 +101,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         unscored: sql<number>`count(*) FILTER (WHERE quality_score IS NULL)::int`,
       })
       .from(chunks)
-      .where(eq(chunks.datasetId, id));
+      .where(and(eq(chunks.datasetId, id), isCurrentVersionChunk()));
 
     // v2: 데이터 무결성 이슈
     const [integrityStats] = await db
@@ -109,7 +110,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         missingEmbedding: sql<number>`count(*) FILTER (WHERE embedding IS NULL AND status = 'approved')::int`,
       })
       .from(chunks)
-      .where(eq(chunks.datasetId, id));
+      .where(and(eq(chunks.datasetId, id), isCurrentVersionChunk()));
 
     // v2: datasetId 불일치 청크 (문서는 이 데이터셋에 속하지만 청크의 datasetId가 null이거나 다른 경우)
     // 이 청크들은 검색에서 완전히 제외됨
@@ -134,7 +135,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         ), 0)::int`,
       })
       .from(chunks)
-      .where(eq(chunks.datasetId, id));
+      .where(and(eq(chunks.datasetId, id), isCurrentVersionChunk()));
 
     return NextResponse.json({
       dataset: {
@@ -0,0 +1,72 @@
+/**
+ * 웹사이트 소스 수동 수집 API
+ *
+ * POST /api/datasets/:id/web-sources/:sourceId/crawl - 지금 다시 수집 (내용이 바뀐 페이지만 재처리)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and, ne } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { webSources } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { inngest } from '@/inngest/client';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; sourceId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id: datasetId, sourceId } = await params;
+    const tenantId = session.tenantId;
+
+    const [source] = await db
+      .select({ id: webSources.id, status: webSources.status })
+      .from(webSources)
+      .where(
+        and(
+          eq(webSources.id, sourceId),
+          eq(webSources.datasetId, datasetId),
+          eq(webSources.tenantId, tenantId)
+        )
+      );
+
+    if (!source) {
+      return NextResponse.json({ error: '웹사이트 소스를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    // 수집 중이 아닐 때만 상태를 바꿔 중복 요청 방지
+    const [claimed] = await db
+      .update(webSources)
+      .set({ status: 'crawling', lastError: null, updatedAt: new Date() })
+      .where(and(eq(webSources.id, sourceId), ne(webSources.status, 'crawling')))
+      .returning({ id: webSources.id });
+
+    if (!claimed) {
+      return NextResponse.json({ error: '이미 수집이 진행 중입니다' }, { status: 409 });
+    }
+
+    await inngest.send({
+      name: 'web-source/crawl.requested',
+      data: { webSourceId: sourceId, tenantId, trigger: 'manual' },
+    });
+
+    logger.info('Web source crawl requested', {
+      webSourceId: sourceId,
+      datasetId,
+      tenantId,
+      requestedBy: session.userId,
+    });
+
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error) {
+    logger.error('Web source crawl request error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: '수집을 시작하는 중 오류가 발생했습니다' }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * 웹사이트 소스 API
+ *
+ * PATCH /api/datasets/:id/web-sources/:sourceId - 수집 설정 변경 (경로 규칙, 최대 페이지, 재수집 주기)
+ * DELETE /api/datasets/:id/web-sources/:sourceId - 웹사이트 소스 삭제 (수집된 문서는 데이터셋에 유지)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { webSources } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { parsePathPatterns } from '@/lib/crawler';
+import { getNextCrawlAt, webSourceSettingsSchema } from '@/lib/crawler/web-source';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; sourceId: string }>;
+}
+
+const updateWebSourceSchema = webSourceSettingsSchema.partial();
+
+/**
+ * PATCH /api/datasets/:id/web-sources/:sourceId - 수집 설정 변경
+ * 재수집 주기를 바꾸면 마지막 수집 시각 기준으로 다음 예약 시각을 다시 계산합니다.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id: datasetId, sourceId } = await params;
+
+    const body = await request.json();
+    const parseResult = updateWebSourceSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: '입력값이 올바르지 않습니다', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const input = parseResult.data;
+
+    const [source] = await db
+      .select({ lastCrawledAt: webSources.lastCrawledAt })
+      .from(webSources)
+      .where(
+        and(
+          eq(webSources.id, sourceId),
+          eq(webSources.datasetId, datasetId),
+          eq(webSources.tenantId, session.tenantId)
+        )
+      );
+
+    if (!source) {
+      return NextResponse.json({ error: '웹사이트 소스를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const [updated] = await db
+      .update(webSources)
+      .set({
+        ...input,
+        ...(input.includePatterns && { includePatterns: parsePathPatterns(input.includePatterns) }),
+        ...(input.excludePatterns && { excludePatterns: parsePathPatterns(input.excludePatterns) }),
+        ...(input.recrawlInterval && {
+          nextCrawlAt: getNextCrawlAt(input.recrawlInterval, source.lastCrawledAt ?? new Date()),
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(webSources.id, sourceId))
+      .returning();
+
+    return NextResponse.json({ source: updated });
+  } catch (error) {
+    logger.error('Web source update error', error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { error: '웹사이트 소스 설정을 저장하는 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/datasets/:id/web-sources/:sourceId - 웹사이트 소스 삭제
+ * 이미 수집된 문서는 일반 문서로 남습니다 (필요하면 문서 목록에서 삭제).
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id: datasetId, sourceId } = await params;
+
+    const [deleted] = await db
+      .delete(webSources)
+      .where(
+        and(
+          eq(webSources.id, sourceId),
+          eq(webSources.datasetId, datasetId),
+          eq(webSources.tenantId, session.tenantId)
+        )
+      )
+      .returning({ id: webSources.id });
+
+    if (!deleted) {
+      return NextResponse.json({ error: '웹사이트 소스를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    logger.info('Web source deleted', {
+      webSourceId: sourceId,
+      datasetId,
+      tenantId: session.tenantId,
+      deletedBy: session.userId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Web source delete error', error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { error: '웹사이트 소스를 삭제하는 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
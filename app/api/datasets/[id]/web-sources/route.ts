@@ -0,0 +1,162 @@
+/**
+ * 데이터셋 웹사이트 소스 API
+ *
+ * GET /api/datasets/:id/web-sources - 웹사이트 소스 목록 (수집 상태, 마지막 통계)
+ * POST /api/datasets/:id/web-sources - 웹사이트 소스 등록 후 첫 수집 시작 (백그라운드 작업)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { datasets, webSources } from '@/drizzle/schema';
+import { validateSession } from '@/lib/auth/session';
+import { inngest } from '@/inngest/client';
+import {
+  assertFetchableUrl,
+  CrawlFetchError,
+  normalizeUrl,
+  parsePathPatterns,
+} from '@/lib/crawler';
+import { webSourceSettingsSchema } from '@/lib/crawler/web-source';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// 데이터셋당 최대 웹사이트 소스 수
+const MAX_SOURCES_PER_DATASET = 10;
+
+const createWebSourceSchema = webSourceSettingsSchema.extend({
+  url: z.string().url('올바른 URL을 입력해주세요').max(2000),
+  sourceType: z.enum(['page', 'sitemap']),
+});
+
+/**
+ * GET /api/datasets/:id/web-sources - 웹사이트 소스 목록
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const sources = await db
+      .select()
+      .from(webSources)
+      .where(and(eq(webSources.datasetId, id), eq(webSources.tenantId, session.tenantId)))
+      .orderBy(desc(webSources.createdAt));
+
+    return NextResponse.json({ sources });
+  } catch (error) {
+    logger.error('Web sources fetch error', error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { error: '웹사이트 소스를 불러오는 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/datasets/:id/web-sources - 웹사이트 소스 등록 + 첫 수집
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id: datasetId } = await params;
+    const tenantId = session.tenantId;
+
+    const body = await request.json();
+    const parseResult = createWebSourceSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: '입력값이 올바르지 않습니다', details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const input = parseResult.data;
+
+    const url = normalizeUrl(input.url);
+    if (!url) {
+      return NextResponse.json({ error: 'http(s) URL만 등록할 수 있습니다' }, { status: 400 });
+    }
+
+    try {
+      await assertFetchableUrl(url);
+    } catch (error) {
+      if (error instanceof CrawlFetchError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const [dataset] = await db
+      .select({ id: datasets.id })
+      .from(datasets)
+      .where(and(eq(datasets.id, datasetId), eq(datasets.tenantId, tenantId)));
+
+    if (!dataset) {
+      return NextResponse.json({ error: '데이터셋을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const existing = await db
+      .select({ url: webSources.url })
+      .from(webSources)
+      .where(eq(webSources.datasetId, datasetId));
+
+    if (existing.some((source) => source.url === url)) {
+      return NextResponse.json({ error: '이미 등록된 URL입니다' }, { status: 409 });
+    }
+    if (existing.length >= MAX_SOURCES_PER_DATASET) {
+      return NextResponse.json(
+        { error: `데이터셋당 웹사이트 소스는 최대 ${MAX_SOURCES_PER_DATASET}개입니다` },
+        { status: 400 }
+      );
+    }
+
+    const [source] = await db
+      .insert(webSources)
+      .values({
+        tenantId,
+        datasetId,
+        url,
+        sourceType: input.sourceType,
+        includePatterns: parsePathPatterns(input.includePatterns),
+        excludePatterns: parsePathPatterns(input.excludePatterns),
+        maxPages: input.maxPages,
+        maxDepth: input.maxDepth,
+        recrawlInterval: input.recrawlInterval,
+        status: 'crawling',
+      })
+      .returning();
+
+    await inngest.send({
+      name: 'web-source/crawl.requested',
+      data: { webSourceId: source.id, tenantId, trigger: 'created' },
+    });
+
+    logger.info('Web source created', {
+      webSourceId: source.id,
+      datasetId,
+      tenantId,
+      sourceType: source.sourceType,
+      requestedBy: session.userId,
+    });
+
+    return NextResponse.json({ source }, { status: 201 });
+  } catch (error) {
+    logger.error('Web source create error', error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      { error: '웹사이트 소스를 등록하는 중 오류가 발생했습니다' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,9 +9,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { eq, desc, and } from 'drizzle-orm';
 import { db } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { datasets, documents, chunks } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 import { canCreateDataset } from '@/lib/tier/validator';
+import { getDefaultDatasetEmbedding } from '@/lib/rag/embedding';
 
 // 데이터셋 생성 스키마
 const createDatasetSchema = z.object({
@@ -77,6 +79,7 @@ export async function POST(request: NextRequest) {
         name,
         description,
         isDefault: isFirstDataset,
+        ...getDefaultDatasetEmbedding(),
       })
       .returning();
 
@@ -141,10 +144,13 @@ export async function GET(request: NextRequest) {
 
           const [chunkStats] = await db
             .select({
-              count: db.$count(chunks, eq(chunks.datasetId, dataset.id)),
+              count: db.$count(
+                chunks,
+                and(eq(chunks.datasetId, dataset.id), isCurrentVersionChunk())
+              ),
             })
             .from(chunks)
-            .where(eq(chunks.datasetId, dataset.id));
+            .where(and(eq(chunks.datasetId, dataset.id), isCurrentVersionChunk()));
 
           return {
             ...dataset,
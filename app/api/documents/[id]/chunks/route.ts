@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { eq, and, asc } from 'drizzle-orm';
 import { db } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { documents, chunks } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 
@@ -45,7 +46,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     // 청크 목록 조회
-    const conditions = [eq(chunks.documentId, documentId), eq(chunks.tenantId, tenantId)];
+    const conditions = [
+      eq(chunks.documentId, documentId),
+      eq(chunks.tenantId, tenantId),
+      isCurrentVersionChunk(),
+    ];
 
     if (!includeInactive) {
       conditions.push(eq(chunks.isActive, true));
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth/session';
 import { db, documents, documentProcessingLogs, chunks } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { eq, desc, and, sql } from 'drizzle-orm';
 import { logger } from '@/lib/logger';
 
@@ -66,7 +67,7 @@ export async function GET(
     const chunkCountResult = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(chunks)
-      .where(eq(chunks.documentId, documentId));
+      .where(and(eq(chunks.documentId, documentId), isCurrentVersionChunk()));
 
     const chunkCount = chunkCountResult[0]?.count ?? 0;
 
@@ -12,6 +12,7 @@ import { documents, chatbotDatasets } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 import { logger } from '@/lib/logger';
 import { triggerRagIndexGeneration } from '@/lib/chat/rag-index-generator';
+import { invalidateChatbotCache } from '@/lib/chat/cache';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -107,6 +108,9 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
       connectedChatbots: connectedChatbotIds.length,
     });
 
+    // 연결된 챗봇들의 응답 캐시 무효화
+    await invalidateChatbotCache(connectedChatbotIds, 'document_deleted');
+
     // 연결된 챗봇들의 RAG 인덱스 재생성 트리거 (fire-and-forget)
     for (const chatbotId of connectedChatbotIds) {
       triggerRagIndexGeneration(chatbotId, tenantId).catch((error) => {
@@ -0,0 +1,154 @@
+/**
+ * 문서 버전 복원 API
+ * POST /api/documents/:id/versions/:version/restore
+ *
+ * 버전 처리 시 기록된 청크 구성으로 활성 청크를 전환합니다 (파일을 다시 파싱하지 않음, 200).
+ * 청크 구성이 기록되지 않은 버전이거나 일부 청크가 없으면 파일을 활성화하고 재처리합니다 (202).
+ * 재처리 시 두 버전에 공통인 청크는 재사용되고, 해당 버전에만 있던 청크는 다시 생성됩니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, documents, chatbotDatasets } from '@/lib/db';
+import { validateSession } from '@/lib/auth/session';
+import { activateDocumentVersion, restoreDocumentVersionChunks } from '@/lib/document-versions';
+import { isDocumentStalled } from '@/lib/constants/document';
+import { createAuditLogFromRequest, AuditAction, TargetType } from '@/lib/audit';
+import { invalidateCacheForDocuments } from '@/lib/chat/cache';
+import { triggerRagIndexGeneration } from '@/lib/chat/rag-index-generator';
+import { inngest } from '@/inngest/client';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string; version: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id, version: versionParam } = await params;
+    const version = Number(versionParam);
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json({ error: '잘못된 버전입니다' }, { status: 400 });
+    }
+
+    const [document] = await db
+      .select({
+        id: documents.id,
+        datasetId: documents.datasetId,
+        status: documents.status,
+        currentVersion: documents.currentVersion,
+        updatedAt: documents.updatedAt,
+      })
+      .from(documents)
+      .where(and(eq(documents.id, id), eq(documents.tenantId, session.tenantId)));
+
+    if (!document) {
+      return NextResponse.json({ error: '문서를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    if (document.currentVersion === version) {
+      return NextResponse.json({ error: '이미 활성화된 버전입니다' }, { status: 400 });
+    }
+
+    if (document.status === 'processing' && !isDocumentStalled('processing', document.updatedAt)) {
+      return NextResponse.json(
+        { error: '문서 처리 중에는 버전을 복원할 수 없습니다' },
+        { status: 409 }
+      );
+    }
+
+    const auditDetails = {
+      restoredVersion: version,
+      previousVersion: document.currentVersion,
+    };
+
+    // 기록된 청크 구성으로 전환 (재처리 없음)
+    const restored = await restoreDocumentVersionChunks(id, version);
+    if (restored) {
+      await invalidateCacheForDocuments([id], 'document_version_restored');
+
+      // 연결된 챗봇 RAG 인덱스 재생성 (재처리 경로는 processDocument가 수행)
+      if (document.datasetId) {
+        const connections = await db
+          .select({ chatbotId: chatbotDatasets.chatbotId })
+          .from(chatbotDatasets)
+          .where(eq(chatbotDatasets.datasetId, document.datasetId));
+        await Promise.all(
+          connections.map(({ chatbotId }) => triggerRagIndexGeneration(chatbotId, session.tenantId))
+        );
+      }
+
+      await createAuditLogFromRequest(request, {
+        userId: session.userId,
+        tenantId: session.tenantId,
+        action: AuditAction.DOCUMENT_UPDATE,
+        targetType: TargetType.DOCUMENT,
+        targetId: id,
+        result: 'success',
+        details: { ...auditDetails, filename: restored.target.filename, reprocessed: false },
+      });
+
+      logger.info('Document version restored from stored chunks', {
+        documentId: id,
+        version,
+        previousVersion: document.currentVersion,
+        chunkCount: restored.chunkCount,
+        userId: session.userId,
+      });
+
+      return NextResponse.json({
+        success: true,
+        version,
+        reprocessed: false,
+        status: restored.status,
+      });
+    }
+
+    // 청크 구성이 없는 버전: 파일 활성화 후 재처리
+    const target = await activateDocumentVersion(id, version);
+    if (!target) {
+      return NextResponse.json({ error: '버전을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    await createAuditLogFromRequest(request, {
+      userId: session.userId,
+      tenantId: session.tenantId,
+      action: AuditAction.DOCUMENT_UPDATE,
+      targetType: TargetType.DOCUMENT,
+      targetId: id,
+      result: 'success',
+      details: { ...auditDetails, filename: target.filename, reprocessed: true },
+    });
+
+    await inngest.send({
+      name: 'document/uploaded',
+      data: {
+        documentId: id,
+        tenantId: session.tenantId,
+        datasetId: document.datasetId,
+        userId: session.userId,
+        filename: target.filename,
+        fileType: target.fileType || 'unknown',
+        filePath: target.filePath,
+        version,
+      },
+    });
+
+    logger.info('Document version restored', {
+      documentId: id,
+      version,
+      previousVersion: document.currentVersion,
+      userId: session.userId,
+    });
+
+    return NextResponse.json({ success: true, version, reprocessed: true }, { status: 202 });
+  } catch (error) {
+    logger.error('Document version restore error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: '버전 복원 중 오류가 발생했습니다' }, { status: 500 });
+  }
+}
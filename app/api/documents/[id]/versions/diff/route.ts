@@ -0,0 +1,70 @@
+/**
+ * 문서 버전 간 추출 텍스트 비교 API
+ * GET /api/documents/:id/versions/diff?from=1&to=2
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { z } from 'zod';
+import { db, documents } from '@/lib/db';
+import { validateSession } from '@/lib/auth/session';
+import { diffText, getDocumentVersionText } from '@/lib/document-versions';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const parsed = diffQuerySchema.safeParse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: '비교할 버전을 지정해주세요' }, { status: 400 });
+    }
+
+    const [document] = await db
+      .select({ id: documents.id })
+      .from(documents)
+      .where(and(eq(documents.id, id), eq(documents.tenantId, session.tenantId)));
+
+    if (!document) {
+      return NextResponse.json({ error: '문서를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const { from, to } = parsed.data;
+    const [fromText, toText] = await Promise.all([
+      getDocumentVersionText(id, from),
+      getDocumentVersionText(id, to),
+    ]);
+
+    if (fromText === undefined || toText === undefined) {
+      return NextResponse.json({ error: '버전을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    // 아직 처리되지 않아 추출 텍스트가 없는 버전
+    if (fromText === null || toText === null) {
+      return NextResponse.json({ from, to, available: false, diff: null });
+    }
+
+    return NextResponse.json({ from, to, available: true, diff: diffText(fromText, toText) });
+  } catch (error) {
+    logger.error('Document version diff error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: '버전 비교 중 오류가 발생했습니다' }, { status: 500 });
+  }
+}
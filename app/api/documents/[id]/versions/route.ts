@@ -0,0 +1,203 @@
+/**
+ * 문서 버전 API
+ *
+ * GET /api/documents/:id/versions - 버전 이력 조회
+ * POST /api/documents/:id/versions - 새 버전 업로드 (같은 문서로 파일 교체 후 재처리)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { eq, and } from 'drizzle-orm';
+import { db, documents } from '@/lib/db';
+import { validateSession } from '@/lib/auth/session';
+import { withTenantIsolation } from '@/lib/middleware/tenant';
+import { withRateLimit } from '@/lib/middleware/rate-limit';
+import { validateFile, uploadFile, DOCUMENT_ALLOWED_TYPES } from '@/lib/upload';
+import { createDocumentVersion, listDocumentVersions } from '@/lib/document-versions';
+import { isDocumentStalled } from '@/lib/constants/document';
+import { createAuditLogFromRequest, AuditAction, TargetType } from '@/lib/audit';
+import { AppError, ErrorCode } from '@/lib/errors';
+import { inngest } from '@/inngest/client';
+import { logger } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/documents/:id/versions - 버전 이력 조회 (최신순)
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await validateSession();
+    if (!session) {
+      return NextResponse.json({ error: '인증이 필요합니다' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const [document] = await db
+      .select({ id: documents.id, currentVersion: documents.currentVersion })
+      .from(documents)
+      .where(and(eq(documents.id, id), eq(documents.tenantId, session.tenantId)));
+
+    if (!document) {
+      return NextResponse.json({ error: '문서를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const versions = await listDocumentVersions(id);
+
+    return NextResponse.json({ currentVersion: document.currentVersion, versions });
+  } catch (error) {
+    logger.error('Document versions list error', error instanceof Error ? error : undefined);
+    return NextResponse.json({ error: '버전 이력 조회 중 오류가 발생했습니다' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/documents/:id/versions - 새 버전 업로드
+ *
+ * 파일을 새 버전으로 기록하고 활성화한 뒤 재처리합니다.
+ * 내용이 같은 청크는 재사용되어 검토 상태와 임베딩이 유지됩니다.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const rateLimitResponse = await withRateLimit(request, 'upload', 'basic');
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const isolation = await withTenantIsolation(request);
+  if (!isolation.success) {
+    return isolation.response;
+  }
+
+  const { session, tenant } = isolation;
+
+  try {
+    const { id } = await params;
+
+    const [document] = await db
+      .select({
+        id: documents.id,
+        datasetId: documents.datasetId,
+        status: documents.status,
+        updatedAt: documents.updatedAt,
+      })
+      .from(documents)
+      .where(and(eq(documents.id, id), eq(documents.tenantId, tenant.tenantId)));
+
+    if (!document) {
+      return NextResponse.json({ error: '문서를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    if (document.status === 'processing' && !isDocumentStalled('processing', document.updatedAt)) {
+      return NextResponse.json(
+        { error: '문서 처리 중에는 새 버전을 올릴 수 없습니다' },
+        { status: 409 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        new AppError(ErrorCode.VALIDATION_ERROR, '파일이 필요합니다.').toSafeResponse(),
+        { status: 400 }
+      );
+    }
+
+    // 파일 검증 (확장자 + Magic Number)
+    const validationResult = await validateFile(file, {
+      allowedTypes: DOCUMENT_ALLOWED_TYPES,
+    });
+
+    if (!validationResult.valid) {
+      return NextResponse.json(
+        new AppError(
+          ErrorCode.INVALID_FILE_TYPE,
+          validationResult.errors.join(', ')
+        ).toSafeResponse(),
+        { status: 400 }
+      );
+    }
+
+    const uploadResult = await uploadFile(Buffer.from(await file.arrayBuffer()), {
+      tenantId: tenant.tenantId,
+      filename: validationResult.sanitizedFilename!,
+      contentType: validationResult.detectedMimeType,
+      folder: 'documents',
+      metadata: {
+        originalFilename: file.name,
+        uploadedBy: session.userId,
+      },
+    });
+
+    if (!uploadResult.success) {
+      logger.error(
+        'Document version upload to storage failed',
+        new Error(uploadResult.error || 'Unknown error'),
+        { documentId: id, tenantId: tenant.tenantId }
+      );
+      return NextResponse.json(new AppError(ErrorCode.FILE_UPLOAD_FAILED).toSafeResponse(), {
+        status: 500,
+      });
+    }
+
+    const version = await createDocumentVersion(
+      id,
+      {
+        filename: validationResult.sanitizedFilename!,
+        filePath: uploadResult.key!,
+        fileSize: file.size,
+        fileType: validationResult.detectedMimeType!,
+      },
+      session.userId
+    );
+
+    await createAuditLogFromRequest(request, {
+      userId: session.userId,
+      tenantId: tenant.tenantId,
+      action: AuditAction.DOCUMENT_UPDATE,
+      targetType: TargetType.DOCUMENT,
+      targetId: id,
+      result: 'success',
+      details: {
+        version,
+        filename: validationResult.sanitizedFilename,
+        fileSize: file.size,
+        fileType: validationResult.detectedMimeType,
+      },
+    });
+
+    await inngest.send({
+      name: 'document/uploaded',
+      data: {
+        documentId: id,
+        tenantId: tenant.tenantId,
+        datasetId: document.datasetId,
+        userId: session.userId,
+        filename: validationResult.sanitizedFilename!,
+        fileType: validationResult.detectedMimeType!,
+        filePath: uploadResult.key!,
+        version,
+      },
+    });
+
+    logger.info('Document version uploaded', {
+      documentId: id,
+      version,
+      tenantId: tenant.tenantId,
+      userId: session.userId,
+    });
+
+    return NextResponse.json({ success: true, version }, { status: 201 });
+  } catch (error) {
+    logger.error('Document version upload failed', error instanceof Error ? error : undefined, {
+      tenantId: tenant.tenantId,
+      userId: session.userId,
+    });
+    return NextResponse.json(new AppError(ErrorCode.FILE_UPLOAD_FAILED).toSafeResponse(), {
+      status: 500,
+    });
+  }
+}
@@ -16,6 +16,10 @@ const MIME_TYPE_MAP: Record<string, SupportedFileType> = {
   'application/pdf': 'application/pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
   'text/plain': 'text/plain',
   'text/markdown': 'text/markdown',
   'text/csv': 'text/csv',
@@ -26,6 +30,8 @@ const MIME_TYPE_MAP: Record<string, SupportedFileType> = {
 const PREVIEW_ALLOWED_TYPES: AllowedMimeType[] = [
   'application/pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
   'text/plain',
   'text/markdown',
   'text/csv',
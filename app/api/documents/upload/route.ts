@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withTenantIsolation } from '@/lib/middleware/tenant';
 import { withRateLimit } from '@/lib/middleware/rate-limit';
-import { validateFile, uploadFile, type AllowedMimeType } from '@/lib/upload';
+import { validateFile, uploadFile, DOCUMENT_ALLOWED_TYPES } from '@/lib/upload';
 import { db, documents, datasets } from '@/lib/db';
 import { createAuditLogFromRequest, AuditAction, TargetType } from '@/lib/audit';
 import { AppError, ErrorCode } from '@/lib/errors';
@@ -14,18 +14,6 @@ import { logger } from '@/lib/logger';
 import { inngest } from '@/inngest/client';
 import { eq, and } from 'drizzle-orm';
 
-// 문서 업로드에 허용된 타입
-const DOCUMENT_ALLOWED_TYPES: AllowedMimeType[] = [
-  'application/pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  'text/plain',
-  'text/markdown',
-  'text/csv',
-  'application/json',
-];
-
 export async function POST(request: NextRequest) {
   // 1. Rate Limiting
   const rateLimitResponse = await withRateLimit(request, 'upload', 'basic');
@@ -20,6 +20,12 @@ import {
   // Knowledge Pages 검증 함수
   validateClaimsFunction,
   expireValidationSessions,
+  // 데이터셋 재임베딩 함수
+  reembedDatasetFunction,
+  reembedDocumentFunction,
+  // 웹사이트 수집 함수
+  crawlWebSourceFunction,
+  scheduleWebSourceCrawls,
 } from '@/inngest/functions';
 
 // Inngest 함수들을 서빙 (실제 클라이언트 사용)
@@ -42,5 +48,11 @@ export const { GET, POST, PUT } = serve({
     validateClaimsFunction,
     // 세션 만료 처리 (Cron)
     expireValidationSessions,
+    // 데이터셋 재임베딩
+    reembedDatasetFunction,
+    reembedDocumentFunction,
+    // 웹사이트 수집 + 예약 재수집 (Cron)
+    crawlWebSourceFunction,
+    scheduleWebSourceCrawls,
   ],
 });
@@ -7,10 +7,17 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { processKakaoSkill, createSimpleTextResponse, createErrorResponse, createResponseWithSources } from '@/lib/kakao';
+import {
+  processKakaoSkill,
+  createSimpleTextResponse,
+  createErrorResponse,
+  createResponseWithSources,
+  createCallbackWaitResponse,
+  createSuggestionQuickReplies,
+} from '@/lib/kakao';
 import { validateKakaoIp, checkKakaoRateLimit } from '@/lib/kakao/security';
 import { logger } from '@/lib/logger';
-import type { KakaoSkillRequest, KakaoSkillResponse } from '@/lib/kakao/types';
+import type { KakaoQuickReply, KakaoSkillRequest, KakaoSkillResponse } from '@/lib/kakao/types';
 
 // 카카오 스킬 요청 검증 스키마 (필수 필드만)
 const kakaoRequestSchema = z.object({
@@ -21,6 +28,7 @@ const kakaoRequestSchema = z.object({
       id: z.string(),
       type: z.literal('botUserKey').optional(),
     }),
+    callbackUrl: z.string().url().optional(),
   }),
   bot: z.object({
     id: z.string(),
@@ -100,11 +108,22 @@ export async function POST(request: NextRequest): Promise<NextResponse<KakaoSkil
 
     // 성공 응답 생성
     let response: KakaoSkillResponse;
-
-    if (result.sources && result.sources.length > 0) {
-      response = createResponseWithSources(result.message, result.sources);
+    // 후속 질문 제안, 상담원 연결 제안 시 바로연결 버튼 추가
+    const replies: KakaoQuickReply[] = [
+      ...createSuggestionQuickReplies(result.suggestions ?? []),
+      ...(result.handoffOffered
+        ? [{ label: '상담원 연결', action: 'message' as const, messageText: '상담원 연결' }]
+        : []),
+    ];
+    const quickReplies = replies.length > 0 ? replies : undefined;
+
+    if (result.useCallback) {
+      // 상담원 응대 중: 상담원 답변을 콜백 URL로 전달
+      response = createCallbackWaitResponse(result.message);
+    } else if (result.sources && result.sources.length > 0) {
+      response = createResponseWithSources(result.message, result.sources, { quickReplies });
     } else {
-      response = createSimpleTextResponse(result.message);
+      response = createSimpleTextResponse(result.message, { quickReplies });
     }
 
     const duration = Date.now() - startTime;
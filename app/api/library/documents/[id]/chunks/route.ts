@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { eq, and, isNull, asc, sql } from 'drizzle-orm';
 import { db } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { documents, chunks } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 
@@ -62,7 +63,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     // 청크 조건 구성
-    const chunkConditions = [eq(chunks.documentId, documentId), eq(chunks.tenantId, tenantId)];
+    const chunkConditions = [
+      eq(chunks.documentId, documentId),
+      eq(chunks.tenantId, tenantId),
+      isCurrentVersionChunk(),
+    ];
 
     if (status && status !== 'all') {
       chunkConditions.push(eq(chunks.status, status));
@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { eq, and, desc, isNull, sql } from 'drizzle-orm';
 import { db } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import { documents, chunks } from '@/drizzle/schema';
 import { validateSession } from '@/lib/auth/session';
 
@@ -79,7 +80,7 @@ export async function GET(request: NextRequest) {
             pendingCount: sql<number>`count(*) FILTER (WHERE status = 'pending')::int`,
           })
           .from(chunks)
-          .where(eq(chunks.documentId, doc.id));
+          .where(and(eq(chunks.documentId, doc.id), isCurrentVersionChunk()));
 
         return {
           id: doc.id,
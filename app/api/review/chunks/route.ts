@@ -40,6 +40,7 @@ const listQuerySchema = z.object({
   minContentLength: z.coerce.number().int().min(0).optional(),
   maxContentLength: z.coerce.number().int().min(0).optional(),
   includeMetrics: z.coerce.boolean().optional(),
+  flagged: z.coerce.boolean().optional(),
 });
 
 // 일괄 업데이트 스키마
@@ -5,9 +5,19 @@
 
 import { NextResponse } from 'next/server';
 import { isContextGenerationEnabled } from '@/lib/rag/context';
+import {
+  getBGECircuitState,
+  getDefaultEmbeddingModelId,
+  isEmbeddingStrictMode,
+} from '@/lib/rag/embedding';
 
 export async function GET() {
   return NextResponse.json({
     contextualChunking: isContextGenerationEnabled(),
+    embedding: {
+      defaultModel: getDefaultEmbeddingModelId(),
+      strictMode: isEmbeddingStrictMode(),
+      bgeCircuit: getBGECircuitState(),
+    },
   });
 }
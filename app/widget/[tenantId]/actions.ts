@@ -8,9 +8,16 @@
 import { db, tenants } from '@/lib/db';
 import { chatbots, chatbotConfigVersions } from '@/drizzle/schema';
 import { eq, and } from 'drizzle-orm';
-import { processChat } from '@/lib/chat';
+import { processChat, recordMessageFeedback } from '@/lib/chat';
 import { logger } from '@/lib/logger';
 import { validatePointsForResponse, usePoints } from '@/lib/points';
+import {
+  getHandoffUpdates,
+  isBotAnswer,
+  requestHandoffForSession,
+  type HandoffPollResult,
+  type HandoffState,
+} from '@/lib/handoff';
 import type { WidgetConfig, WidgetChatResponse } from '@/lib/widget/types';
 
 /**
@@ -154,21 +161,29 @@ export async function sendWidgetMessage(
       channel: 'web',
     });
 
-    // 포인트 차감
-    const { newBalance } = await usePoints({
-      tenantId,
-      metadata: {
-        chatbotId,
-        conversationId: response.sessionId,
-        channel: 'widget',
-      },
-    });
+    // 포인트 차감 (상담원 대기/응대 중에는 AI 응답이 없으므로 차감하지 않음)
+    const pointsBalance = isBotAnswer(response.handoff)
+      ? (
+          await usePoints({
+            tenantId,
+            metadata: {
+              chatbotId,
+              conversationId: response.sessionId,
+              channel: 'widget',
+            },
+          })
+        ).newBalance
+      : undefined;
 
     return {
       message: response.message,
       sessionId: response.sessionId,
+      messageId: response.messageId,
       sources: response.sources,
-      pointsBalance: newBalance,
+      citations: response.citations,
+      suggestions: response.suggestions,
+      handoff: response.handoff,
+      pointsBalance,
     };
   } catch (error) {
     // 이미 구조화된 에러면 그대로 전달
@@ -182,3 +197,87 @@ export async function sendWidgetMessage(
     throw new Error(JSON.stringify(chatError));
   }
 }
+
+/**
+ * 위젯 답변 피드백 저장 (좋아요/싫어요)
+ */
+export async function submitWidgetFeedback(
+  tenantId: string,
+  sessionId: string,
+  messageId: string,
+  rating: 'up' | 'down',
+  chatbotId?: string
+): Promise<void> {
+  if (!sessionId || !messageId || (rating !== 'up' && rating !== 'down')) {
+    const error: WidgetChatError = {
+      error: '잘못된 피드백 요청입니다.',
+      code: 'VALIDATION_ERROR',
+    };
+    throw new Error(JSON.stringify(error));
+  }
+
+  let recorded: boolean;
+  try {
+    recorded = await recordMessageFeedback({
+      tenantId,
+      chatbotId,
+      sessionId,
+      messageId,
+      rating,
+      channel: 'web',
+    });
+  } catch (error) {
+    logger.error('Widget feedback failed', error as Error, { tenantId, messageId });
+    const feedbackError: WidgetChatError = {
+      error: '피드백 저장 중 오류가 발생했습니다.',
+    };
+    throw new Error(JSON.stringify(feedbackError));
+  }
+
+  // 대상 메시지를 찾지 못하면 피드백이 저장되지 않음 (UI에서 선택 상태 되돌림)
+  if (!recorded) {
+    const notFoundError: WidgetChatError = {
+      error: '피드백을 남길 답변을 찾을 수 없습니다.',
+      code: 'VALIDATION_ERROR',
+    };
+    throw new Error(JSON.stringify(notFoundError));
+  }
+}
+
+/**
+ * 위젯 상담원 연결 요청 (연결 제안 버튼)
+ */
+export async function requestWidgetHandoff(
+  tenantId: string,
+  sessionId: string,
+  chatbotId: string
+): Promise<HandoffState> {
+  try {
+    return await requestHandoffForSession(tenantId, chatbotId, sessionId);
+  } catch (error) {
+    logger.error('Widget handoff request failed', error as Error, { tenantId, chatbotId });
+    const handoffError: WidgetChatError = {
+      error: '상담원 연결 요청 중 오류가 발생했습니다.',
+    };
+    throw new Error(JSON.stringify(handoffError));
+  }
+}
+
+/**
+ * 위젯 상담원 메시지 폴링
+ *
+ * @param since - 마지막으로 받은 메시지 시각 (ISO)
+ */
+export async function pollWidgetHandoff(
+  tenantId: string,
+  sessionId: string,
+  chatbotId: string,
+  since: string
+): Promise<HandoffPollResult> {
+  try {
+    return await getHandoffUpdates(tenantId, chatbotId, sessionId, since);
+  } catch (error) {
+    logger.error('Widget handoff poll failed', error as Error, { tenantId, chatbotId });
+    return { status: null, messages: [] };
+  }
+}
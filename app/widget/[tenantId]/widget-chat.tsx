@@ -9,11 +9,22 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { useStickToBottom } from 'use-stick-to-bottom';
 import { ChevronDown } from 'lucide-react';
-import { sendWidgetMessage, type WidgetChatError } from './actions';
+import {
+  sendWidgetMessage,
+  submitWidgetFeedback,
+  requestWidgetHandoff,
+  pollWidgetHandoff,
+  type WidgetChatError,
+} from './actions';
 import type { WidgetConfig, WidgetMessage } from '@/lib/widget/types';
+import type { HandoffPollResult, HandoffState } from '@/lib/handoff/types';
 import { MessageActions } from '@/components/chat/message-actions';
 import { ErrorMessage, type ChatError } from '@/components/chat/error-message';
 import { SendIcon } from '@/components/chat/icons';
+import { CitationMarkdown } from '@/components/chat/citation-markdown';
+import { HandoffOffer, HandoffStatusBar } from '@/components/chat/handoff-controls';
+import { SuggestionChips } from '@/components/chat/suggestion-chips';
+import { useHandoffPolling } from '@/hooks/use-handoff-polling';
 import {
   ChatThemeProvider,
   useChatTheme,
@@ -53,6 +64,10 @@ interface WidgetChatState {
   lastUserMessage: string | null;
   /** 재시도 중 여부 */
   isRetrying: boolean;
+  /** 상담원 연결 상태 */
+  handoff: HandoffState | null;
+  /** 마지막 답변의 후속 질문 제안 */
+  suggestions: string[];
 }
 
 interface WidgetChatProps {
@@ -82,6 +97,8 @@ export function WidgetChat({ tenantId, chatbotId, config }: WidgetChatProps) {
     error: null,
     lastUserMessage: null,
     isRetrying: false,
+    handoff: null,
+    suggestions: [],
   });
 
   const [inputValue, setInputValue] = useState('');
@@ -143,6 +160,7 @@ export function WidgetChat({ tenantId, chatbotId, config }: WidgetChatProps) {
           isLoading: true,
           error: null,
           lastUserMessage: message,
+          suggestions: [],
           messages: [...prev.messages, userMessage],
         }));
       } else {
@@ -162,16 +180,21 @@ export function WidgetChat({ tenantId, chatbotId, config }: WidgetChatProps) {
           role: 'assistant',
           content: response.message,
           timestamp: new Date().toISOString(),
+          messageId: response.messageId,
           sources: response.sources,
+          citations: response.citations,
         };
 
         setState((prev) => ({
           ...prev,
           isLoading: false,
           sessionId: response.sessionId,
-          messages: [...prev.messages, assistantMessage],
+          // 상담원 응대 중에는 봇 응답이 비어 있음 (상담원 메시지는 폴링으로 수신)
+          messages: response.message ? [...prev.messages, assistantMessage] : prev.messages,
           error: null,
           lastUserMessage: null,
+          handoff: response.handoff ?? null,
+          suggestions: response.suggestions ?? [],
         }));
       } catch (error) {
         setState((prev) => ({
@@ -184,6 +207,71 @@ export function WidgetChat({ tenantId, chatbotId, config }: WidgetChatProps) {
     [state.sessionId, tenantId, chatbotId]
   );
 
+  // 답변 피드백 전송
+  const handleFeedback = useCallback(
+    async (messageId: string, rating: 'up' | 'down') => {
+      if (!state.sessionId) return;
+      await submitWidgetFeedback(tenantId, state.sessionId, messageId, rating, chatbotId);
+    },
+    [state.sessionId, tenantId, chatbotId]
+  );
+
+  // 상담원 연결 요청 (연결 제안 버튼)
+  const handleHandoffRequest = useCallback(async () => {
+    if (!state.sessionId || !chatbotId) return;
+    try {
+      const handoff = await requestWidgetHandoff(tenantId, state.sessionId, chatbotId);
+      setState((prev) => ({
+        ...prev,
+        handoff,
+        messages: handoff.notice
+          ? [
+              ...prev.messages,
+              {
+                id: `handoff-${Date.now()}`,
+                role: 'assistant',
+                content: handoff.notice,
+                timestamp: new Date().toISOString(),
+              },
+            ]
+          : prev.messages,
+      }));
+    } catch (error) {
+      setState((prev) => ({ ...prev, error: parseError(error) }));
+    }
+  }, [state.sessionId, tenantId, chatbotId]);
+
+  // 상담원 메시지 폴링 (대기/응대 중)
+  const pollHandoff = useCallback(
+    (since: string) =>
+      pollWidgetHandoff(tenantId, state.sessionId ?? '', chatbotId ?? '', since),
+    [tenantId, state.sessionId, chatbotId]
+  );
+  const handleHandoffUpdate = useCallback(({ status, messages }: HandoffPollResult) => {
+    setState((prev) => ({
+      ...prev,
+      handoff: status === 'pending' || status === 'active' ? { status } : null,
+      messages: [
+        ...prev.messages,
+        ...messages.map((m) => ({
+          id: `operator-${m.id ?? m.timestamp}`,
+          role: 'assistant' as const,
+          content: m.content,
+          timestamp: m.timestamp,
+          operatorName: m.operatorName,
+        })),
+      ],
+    }));
+  }, []);
+  useHandoffPolling({
+    active:
+      !!state.sessionId &&
+      !!chatbotId &&
+      (state.handoff?.status === 'pending' || state.handoff?.status === 'active'),
+    poll: pollHandoff,
+    onUpdate: handleHandoffUpdate,
+  });
+
   // 메시지 전송 (사용자 입력)
   const handleSend = useCallback(async () => {
     const message = inputValue.trim();
@@ -237,8 +325,23 @@ export function WidgetChat({ tenantId, chatbotId, config }: WidgetChatProps) {
         <div ref={scrollRef} className="relative flex-1 overflow-y-auto p-4">
           <div ref={contentRef} className="space-y-4">
             {state.messages.map((msg) => (
-              <MessageBubble key={msg.id} message={msg} />
+              <MessageBubble key={msg.id} message={msg} onFeedback={handleFeedback} />
             ))}
+            {!state.isLoading && (
+              <SuggestionChips
+                suggestions={state.suggestions}
+                onSelect={(suggestion) => sendMessage(suggestion)}
+                primaryColor={widgetTheme.primaryColor}
+                compact
+              />
+            )}
+            {state.handoff?.status === 'offered' && !state.isLoading && (
+              <HandoffOffer
+                onRequest={handleHandoffRequest}
+                primaryColor={widgetTheme.primaryColor}
+                compact
+              />
+            )}
             {state.isLoading && <TypingIndicator primaryColor={widgetTheme.primaryColor} />}
             {state.error && (
               <ErrorMessage
@@ -267,6 +370,9 @@ export function WidgetChat({ tenantId, chatbotId, config }: WidgetChatProps) {
 
       {/* 입력 영역 */}
       <div className="flex-shrink-0 border-t p-4">
+        {state.handoff && (
+          <HandoffStatusBar status={state.handoff.status} primaryColor={widgetTheme.primaryColor} />
+        )}
         <div className="flex items-center gap-2">
           <input
             ref={inputRef}
@@ -296,7 +402,13 @@ export function WidgetChat({ tenantId, chatbotId, config }: WidgetChatProps) {
 }
 
 // 메시지 버블 컴포넌트 - ChatThemeContext에서 테마를 가져옴
-function MessageBubble({ message }: { message: WidgetMessage }) {
+function MessageBubble({
+  message,
+  onFeedback,
+}: {
+  message: WidgetMessage;
+  onFeedback?: (messageId: string, rating: 'up' | 'down') => Promise<void>;
+}) {
   const theme = useChatTheme();
   const isUser = message.role === 'user';
 
@@ -306,6 +418,9 @@ function MessageBubble({ message }: { message: WidgetMessage }) {
   return (
     <div className={`group flex ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex max-w-[80%] flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+        {message.operatorName && (
+          <p className="mb-1 px-1 text-xs text-gray-500">{message.operatorName}</p>
+        )}
         <div
           className={`rounded-2xl px-4 py-2 ${
             isUser ? '' : 'bg-gray-100 text-gray-900'
@@ -316,10 +431,20 @@ function MessageBubble({ message }: { message: WidgetMessage }) {
             <p className="whitespace-pre-wrap text-sm">{message.content}</p>
           ) : (
             <div className="prose prose-sm max-w-none prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0">
-              <ReactMarkdown>{message.content}</ReactMarkdown>
+              {message.citations && message.citations.length > 0 ? (
+                <CitationMarkdown
+                  content={message.content}
+                  citations={message.citations}
+                  primaryColor={theme.primaryColor}
+                  compact
+                />
+              ) : (
+                <ReactMarkdown>{message.content}</ReactMarkdown>
+              )}
             </div>
           )}
-          {message.sources && message.sources.length > 0 && (
+          {/* 각주가 있으면 출처 개수 대신 각주로 표시 */}
+          {!message.citations?.length && message.sources && message.sources.length > 0 && (
             <div className="mt-2 border-t border-gray-200 pt-2">
               <p className="text-xs text-gray-500">
                 {message.sources.length}개의 출처에서 참조됨
@@ -328,12 +453,13 @@ function MessageBubble({ message }: { message: WidgetMessage }) {
           )}
         </div>
 
-        {/* AI 응답에만 액션 버튼 표시 */}
-        {!isUser && message.id !== 'welcome' && (
+        {/* AI 응답에만 액션 버튼 표시 (상담원 메시지 제외) */}
+        {!isUser && message.id !== 'welcome' && !message.id.startsWith('operator-') && (
           <div className="mt-1 px-1">
             <MessageActions
-              messageId={message.id}
+              messageId={message.messageId ?? message.id}
               content={message.content}
+              onFeedback={message.messageId ? onFeedback : undefined}
               compact
               primaryColor={theme.primaryColor}
             />
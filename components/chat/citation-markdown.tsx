@@ -0,0 +1,169 @@
+'use client';
+
+/**
+ * 각주 포함 답변 렌더링
+ *
+ * 출처 표기 모드의 답변에서 [1] 마커를 위첨자 링크로 표시하고,
+ * 답변 하단에 각주 목록을 보여줍니다.
+ * 마커나 각주를 클릭하면 인용된 청크/페이지 본문이 펼쳐집니다.
+ * 공개된 Knowledge Page 출처는 펼친 영역에 페이지 링크를 함께 보여줍니다.
+ */
+
+import { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { ChevronDown, ChevronUp, ExternalLink, FileText, BookOpen } from 'lucide-react';
+import {
+  parseCitationHref,
+  toCitationLinks,
+  type Citation,
+} from '@/lib/rag/citations';
+
+interface CitationMarkdownProps {
+  /** 답변 본문 (마커 포함 마크다운) */
+  content: string;
+  /** 각주 목록 */
+  citations: Citation[];
+  /** 테마 컬러 */
+  primaryColor?: string;
+  /** 컴팩트 모드 */
+  compact?: boolean;
+}
+
+/**
+ * 각주 포함 답변 렌더링
+ */
+export function CitationMarkdown({
+  content,
+  citations,
+  primaryColor = '#3b82f6',
+  compact = false,
+}: CitationMarkdownProps) {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const toggle = (index: number) => {
+    setActiveIndex((prev) => (prev === index ? null : index));
+  };
+
+  return (
+    <>
+      <ReactMarkdown
+        components={{
+          a: ({ href, children, ...props }) => {
+            const index = parseCitationHref(href);
+            if (index === null) {
+              return (
+                <a href={href} target="_blank" rel="noopener noreferrer" {...props}>
+                  {children}
+                </a>
+              );
+            }
+            return (
+              <sup>
+                <button
+                  type="button"
+                  onClick={() => toggle(index)}
+                  className="ml-0.5 rounded px-0.5 font-medium no-underline hover:underline"
+                  style={{ color: primaryColor }}
+                  aria-label={`출처 ${index} 보기`}
+                  aria-expanded={activeIndex === index}
+                >
+                  [{index}]
+                </button>
+              </sup>
+            );
+          },
+        }}
+      >
+        {toCitationLinks(content, citations.length)}
+      </ReactMarkdown>
+
+      {citations.length > 0 && (
+        <ol className="not-prose mt-3 space-y-1 border-t border-border pt-2">
+          {citations.map((citation) => (
+            <Footnote
+              key={citation.index}
+              citation={citation}
+              isOpen={activeIndex === citation.index}
+              onToggle={() => toggle(citation.index)}
+              primaryColor={primaryColor}
+              compact={compact}
+            />
+          ))}
+        </ol>
+      )}
+    </>
+  );
+}
+
+/**
+ * 개별 각주 (클릭 시 본문 펼침)
+ */
+function Footnote({
+  citation,
+  isOpen,
+  onToggle,
+  primaryColor,
+  compact,
+}: {
+  citation: Citation;
+  isOpen: boolean;
+  onToggle: () => void;
+  primaryColor: string;
+  compact: boolean;
+}) {
+  const textSize = compact ? 'text-xs' : 'text-sm';
+  const iconSize = compact ? 'h-3 w-3' : 'h-3.5 w-3.5';
+  const Icon = citation.pageId ? BookOpen : FileText;
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onToggle}
+        className={`flex w-full items-center gap-1.5 text-left text-muted-foreground transition-colors hover:text-foreground ${textSize}`}
+        aria-expanded={isOpen}
+      >
+        <span className="font-medium" style={{ color: primaryColor }}>
+          [{citation.index}]
+        </span>
+        <Icon className={`${iconSize} shrink-0`} />
+        <span className="min-w-0 flex-1 truncate">
+          {citation.title}
+          {citation.location && <span className="ml-1.5 opacity-80">· {citation.location}</span>}
+        </span>
+        {isOpen ? (
+          <ChevronUp className={`${iconSize} shrink-0`} />
+        ) : (
+          <ChevronDown className={`${iconSize} shrink-0`} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="mt-1 rounded-lg border border-border bg-card p-2">
+          {citation.path && (
+            <p className="mb-1 text-[11px] text-muted-foreground">{citation.path}</p>
+          )}
+          <p
+            className={`max-h-48 overflow-y-auto whitespace-pre-wrap text-foreground ${
+              compact ? 'text-xs' : 'text-sm'
+            }`}
+          >
+            {citation.content}
+          </p>
+          {citation.url && (
+            <a
+              href={citation.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-1.5 inline-flex items-center gap-1 text-[11px] font-medium hover:underline"
+              style={{ color: primaryColor }}
+            >
+              페이지에서 보기
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * 상담원 연결 UI
+ *
+ * - HandoffOffer: 봇 답변 후 상담원 연결 제안 버튼
+ * - HandoffStatusBar: 상담원 대기/응대 중 안내
+ */
+
+import { useState } from 'react';
+import { Headset, Loader2 } from 'lucide-react';
+import type { HandoffState } from '@/lib/handoff/types';
+
+interface HandoffOfferProps {
+  onRequest: () => Promise<void>;
+  primaryColor?: string;
+  compact?: boolean;
+}
+
+/**
+ * 상담원 연결 제안 버튼
+ */
+export function HandoffOffer({
+  onRequest,
+  primaryColor = '#3b82f6',
+  compact = false,
+}: HandoffOfferProps) {
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const handleClick = async () => {
+    setIsRequesting(true);
+    try {
+      await onRequest();
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-start">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isRequesting}
+        className={`flex items-center gap-1.5 rounded-full border px-3 py-1.5 font-medium transition-opacity hover:opacity-80 disabled:opacity-50 ${
+          compact ? 'text-xs' : 'text-sm'
+        }`}
+        style={{ borderColor: primaryColor, color: primaryColor }}
+      >
+        {isRequesting ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        ) : (
+          <Headset className="h-3.5 w-3.5" />
+        )}
+        상담원 연결하기
+      </button>
+    </div>
+  );
+}
+
+/**
+ * 상담원 대기/응대 중 안내
+ */
+export function HandoffStatusBar({
+  status,
+  primaryColor = '#3b82f6',
+}: {
+  status: HandoffState['status'];
+  primaryColor?: string;
+}) {
+  if (status !== 'pending' && status !== 'active') return null;
+
+  return (
+    <div
+      className="flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs font-medium"
+      style={{ color: primaryColor }}
+    >
+      <Headset className="h-3.5 w-3.5" />
+      {status === 'pending' ? '상담원 연결을 기다리는 중이에요' : '상담원과 대화 중이에요'}
+    </div>
+  );
+}
@@ -31,6 +31,8 @@ export interface Source {
   relevance?: number;
   /** 문서 이름 */
   documentName?: string;
+  /** 문서 내 위치 (예: "슬라이드 7") */
+  location?: string;
 }
 
 interface SourcesCollapsibleProps {
@@ -127,6 +129,9 @@ function SourceCard({
       <div className="mb-1 flex items-center justify-between gap-2">
         <span className={`font-medium text-foreground ${textSize}`}>
           {title}
+          {source.location && (
+            <span className="ml-1.5 font-normal text-muted-foreground">{source.location}</span>
+          )}
         </span>
         {relevancePercent !== null && (
           <RelevanceBadge percent={relevancePercent} color={primaryColor} compact={compact} />
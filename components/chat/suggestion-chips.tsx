@@ -0,0 +1,43 @@
+'use client';
+
+/**
+ * 후속 질문 제안 칩
+ * 마지막 봇 답변 아래에 표시하고, 클릭하면 해당 질문을 바로 전송한다.
+ */
+
+interface SuggestionChipsProps {
+  suggestions: string[];
+  onSelect: (suggestion: string) => void;
+  primaryColor?: string;
+  compact?: boolean;
+  disabled?: boolean;
+}
+
+export function SuggestionChips({
+  suggestions,
+  onSelect,
+  primaryColor = '#3b82f6',
+  compact = false,
+  disabled = false,
+}: SuggestionChipsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-start gap-2">
+      {suggestions.map((suggestion) => (
+        <button
+          key={suggestion}
+          type="button"
+          onClick={() => onSelect(suggestion)}
+          disabled={disabled}
+          className={`rounded-full border px-3 py-1.5 text-left transition-opacity hover:opacity-80 disabled:opacity-50 ${
+            compact ? 'text-xs' : 'text-sm'
+          }`}
+          style={{ borderColor: primaryColor, color: primaryColor }}
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+CREATE TABLE "message_feedback" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"chatbot_id" uuid,
+	"conversation_id" uuid NOT NULL,
+	"message_id" text NOT NULL,
+	"rating" text NOT NULL,
+	"chunk_ids" jsonb DEFAULT '[]'::jsonb,
+	"channel" text,
+	"review_status" text DEFAULT 'open',
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "unique_message_feedback" UNIQUE("conversation_id","message_id")
+);
+--> statement-breakpoint
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_chatbot_id_chatbots_id_fk" FOREIGN KEY ("chatbot_id") REFERENCES "public"."chatbots"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_message_feedback_tenant" ON "message_feedback" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX "idx_message_feedback_chatbot_rating" ON "message_feedback" USING btree ("chatbot_id","rating");
\ No newline at end of file
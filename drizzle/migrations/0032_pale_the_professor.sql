@@ -0,0 +1,6 @@
+ALTER TABLE "response_cache" DROP CONSTRAINT "response_cache_tenant_query";--> statement-breakpoint
+ALTER TABLE "response_cache" ADD COLUMN "chatbot_id" uuid;--> statement-breakpoint
+ALTER TABLE "response_cache" ADD COLUMN "content_revision" text DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "response_cache" ADD CONSTRAINT "response_cache_chatbot_id_chatbots_id_fk" FOREIGN KEY ("chatbot_id") REFERENCES "public"."chatbots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_response_cache_chatbot" ON "response_cache" USING btree ("chatbot_id");--> statement-breakpoint
+ALTER TABLE "response_cache" ADD CONSTRAINT "response_cache_tenant_chatbot_query" UNIQUE NULLS NOT DISTINCT("tenant_id","chatbot_id","query_hash");
\ No newline at end of file
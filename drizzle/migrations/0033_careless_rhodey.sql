@@ -0,0 +1,16 @@
+CREATE TABLE "chatbot_usage_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"chatbot_id" uuid NOT NULL,
+	"date" date NOT NULL,
+	"conversation_count" integer DEFAULT 0,
+	"message_count" integer DEFAULT 0,
+	"token_usage" integer DEFAULT 0,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "chatbot_usage_logs_chatbot_date" UNIQUE("chatbot_id","date")
+);
+--> statement-breakpoint
+ALTER TABLE "chatbot_usage_logs" ADD CONSTRAINT "chatbot_usage_logs_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbot_usage_logs" ADD CONSTRAINT "chatbot_usage_logs_chatbot_id_chatbots_id_fk" FOREIGN KEY ("chatbot_id") REFERENCES "public"."chatbots"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_chatbot_usage_logs_tenant_date" ON "chatbot_usage_logs" USING btree ("tenant_id","date");--> statement-breakpoint
+CREATE INDEX "idx_conversations_session" ON "conversations" USING btree ("tenant_id","session_id","chatbot_id");
\ No newline at end of file
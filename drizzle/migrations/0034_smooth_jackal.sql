@@ -0,0 +1,8 @@
+ALTER TABLE "chatbots" ADD COLUMN "handoff_config" jsonb DEFAULT '{}'::jsonb;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "handoff_status" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "handoff_reason" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "handoff_requested_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "handoff_assigned_to" uuid;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "handoff_resolved_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_handoff_assigned_to_users_id_fk" FOREIGN KEY ("handoff_assigned_to") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_conversations_handoff" ON "conversations" USING btree ("chatbot_id","handoff_status");
\ No newline at end of file
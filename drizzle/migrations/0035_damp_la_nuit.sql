@@ -0,0 +1,12 @@
+CREATE TABLE "chunk_terms" (
+	"chunk_id" uuid NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"term" text NOT NULL,
+	"tf" integer NOT NULL,
+	CONSTRAINT "chunk_terms_chunk_id_term_pk" PRIMARY KEY("chunk_id","term")
+);
+--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "sparse_length" integer;--> statement-breakpoint
+ALTER TABLE "chunk_terms" ADD CONSTRAINT "chunk_terms_chunk_id_chunks_id_fk" FOREIGN KEY ("chunk_id") REFERENCES "public"."chunks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chunk_terms" ADD CONSTRAINT "chunk_terms_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_chunk_terms_tenant_term" ON "chunk_terms" USING btree ("tenant_id","term");
\ No newline at end of file
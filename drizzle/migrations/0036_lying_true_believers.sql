@@ -0,0 +1,2 @@
+ALTER TABLE "response_time_logs" ADD COLUMN "rerank_duration_ms" integer;--> statement-breakpoint
+ALTER TABLE "response_time_logs" ADD COLUMN "reranker" text;
\ No newline at end of file
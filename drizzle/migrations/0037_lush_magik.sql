@@ -0,0 +1,35 @@
+CREATE TABLE "embedding_migrations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"dataset_id" uuid NOT NULL,
+	"from_model" text NOT NULL,
+	"to_model" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"total_chunks" integer DEFAULT 0 NOT NULL,
+	"processed_chunks" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+-- 차원 없는 vector로 변경하기 전에 1536차원 HNSW 인덱스 제거 (모델별 부분 인덱스로 재생성)
+DROP INDEX IF EXISTS "idx_chunks_embedding_hnsw";--> statement-breakpoint
+ALTER TABLE "chunks" ALTER COLUMN "embedding" SET DATA TYPE vector;--> statement-breakpoint
+ALTER TABLE "knowledge_page_versions" ALTER COLUMN "embedding" SET DATA TYPE vector;--> statement-breakpoint
+ALTER TABLE "knowledge_pages" ALTER COLUMN "embedding" SET DATA TYPE vector;--> statement-breakpoint
+ALTER TABLE "response_cache" ALTER COLUMN "query_embedding" SET DATA TYPE vector;--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "embedding_model" text DEFAULT 'text-embedding-3-small' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chunks" ADD COLUMN "embedding_shadow" vector;--> statement-breakpoint
+ALTER TABLE "datasets" ADD COLUMN "embedding_model" text DEFAULT 'text-embedding-3-small' NOT NULL;--> statement-breakpoint
+ALTER TABLE "datasets" ADD COLUMN "embedding_dimension" integer DEFAULT 1536 NOT NULL;--> statement-breakpoint
+ALTER TABLE "knowledge_page_versions" ADD COLUMN "embedding_model" text DEFAULT 'text-embedding-3-small' NOT NULL;--> statement-breakpoint
+ALTER TABLE "response_cache" ADD COLUMN "query_embedding_model" text DEFAULT 'text-embedding-3-small' NOT NULL;--> statement-breakpoint
+ALTER TABLE "embedding_migrations" ADD CONSTRAINT "embedding_migrations_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "embedding_migrations" ADD CONSTRAINT "embedding_migrations_dataset_id_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "public"."datasets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_embedding_migrations_dataset" ON "embedding_migrations" USING btree ("dataset_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_embedding_migrations_tenant" ON "embedding_migrations" USING btree ("tenant_id");--> statement-breakpoint
+-- 임베딩 모델별 HNSW 부분 인덱스 (lib/rag/embedding-models.ts vectorColumnFor와 같은 식이어야 사용됨)
+CREATE INDEX IF NOT EXISTS "idx_chunks_embedding_hnsw_te3s" ON "chunks" USING hnsw ((embedding::vector(1536)) vector_cosine_ops) WITH (m = 16, ef_construction = 64) WHERE embedding_model = 'text-embedding-3-small';--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_chunks_embedding_hnsw_bgem3ko" ON "chunks" USING hnsw ((embedding::vector(1024)) vector_cosine_ops) WITH (m = 16, ef_construction = 64) WHERE embedding_model = 'bge-m3-ko';
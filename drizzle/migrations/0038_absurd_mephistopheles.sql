@@ -0,0 +1,25 @@
+CREATE TABLE "web_sources" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"dataset_id" uuid NOT NULL,
+	"url" text NOT NULL,
+	"source_type" text DEFAULT 'page' NOT NULL,
+	"include_patterns" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"exclude_patterns" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"max_pages" integer DEFAULT 100 NOT NULL,
+	"max_depth" integer DEFAULT 2 NOT NULL,
+	"recrawl_interval" text DEFAULT 'manual' NOT NULL,
+	"status" text DEFAULT 'idle' NOT NULL,
+	"last_crawl_stats" jsonb,
+	"last_error" text,
+	"last_crawled_at" timestamp with time zone,
+	"next_crawl_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "web_sources" ADD CONSTRAINT "web_sources_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "web_sources" ADD CONSTRAINT "web_sources_dataset_id_datasets_id_fk" FOREIGN KEY ("dataset_id") REFERENCES "public"."datasets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_web_sources_dataset" ON "web_sources" USING btree ("dataset_id");--> statement-breakpoint
+CREATE INDEX "idx_web_sources_tenant" ON "web_sources" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX "idx_web_sources_next_crawl" ON "web_sources" USING btree ("next_crawl_at");
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE "document_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"document_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"filename" text NOT NULL,
+	"file_path" text NOT NULL,
+	"file_size" integer,
+	"file_type" text,
+	"uploaded_by" uuid,
+	"extracted_text" text,
+	"chunk_stats" jsonb,
+	"processed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "current_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_uploaded_by_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_document_version" ON "document_versions" USING btree ("document_id","version");--> statement-breakpoint
+CREATE INDEX "idx_document_versions_tenant" ON "document_versions" USING btree ("tenant_id");--> statement-breakpoint
+-- 기존 문서의 현재 파일을 버전 1로 기록
+INSERT INTO "document_versions" ("tenant_id", "document_id", "version", "filename", "file_path", "file_size", "file_type", "uploaded_by", "processed_at", "created_at")
+SELECT
+  d.tenant_id,
+  d.id,
+  1,
+  d.filename,
+  d.file_path,
+  d.file_size,
+  d.file_type,
+  (SELECT u.id FROM "users" u WHERE u.id::text = d.metadata->>'uploadedBy'),
+  CASE WHEN d.status IN ('reviewing', 'approved') THEN d.updated_at END,
+  d.created_at
+FROM "documents" d;
@@ -0,0 +1 @@
+ALTER TABLE "document_versions" ADD COLUMN "chunk_ids" jsonb;
\ No newline at end of file
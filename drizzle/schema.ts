@@ -12,10 +12,26 @@ import {
   index,
   unique,
   uniqueIndex,
-  vector,
   bigint,
+  primaryKey,
+  customType,
 } from 'drizzle-orm/pg-core';
 
+// 차원 없는 pgvector 컬럼
+// 임베딩 모델마다 차원이 다르므로(lib/rag/embedding-models.ts) 모델 ID 컬럼과 함께 저장하고,
+// 검색 시 모델 차원으로 캐스팅한다. HNSW 인덱스는 모델별 부분 인덱스로 마이그레이션에서 생성
+const anyVector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return 'vector';
+  },
+  toDriver(value) {
+    return JSON.stringify(value);
+  },
+  fromDriver(value) {
+    return value.slice(1, -1).split(',').map(Number.parseFloat);
+  },
+});
+
 // ============================================
 // 테넌트 (고객사)
 // ============================================
@@ -135,6 +151,9 @@ export const datasets = pgTable(
     totalStorageBytes: bigint('total_storage_bytes', { mode: 'number' }).default(0),
     status: text('status').default('active'), // active, archived
     isDefault: boolean('is_default').default(false),
+    // 청크 임베딩 모델 (lib/rag/embedding-models.ts, 변경은 재임베딩 작업으로만)
+    embeddingModel: text('embedding_model').notNull().default('text-embedding-3-small'),
+    embeddingDimension: integer('embedding_dimension').notNull().default(1536),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   },
@@ -229,6 +248,9 @@ export const chatbots = pgTable(
     // Phase 5: A/B 테스트 및 품질 검증
     experimentConfig: jsonb('experiment_config'),
 
+    // 상담원 연결 규칙 (트리거 키워드, 연속 "정보 없음" 횟수, 낮은 Intent 신뢰도)
+    handoffConfig: jsonb('handoff_config').default({}),
+
     status: text('status').default('active'), // active, inactive
     isDefault: boolean('is_default').default(false),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
@@ -309,7 +331,7 @@ export const chatbotDatasets = pgTable(
     datasetId: uuid('dataset_id')
       .notNull()
       .references(() => datasets.id, { onDelete: 'cascade' }),
-    weight: real('weight').default(1.0), // 검색 가중치 (향후 확장)
+    weight: real('weight').default(1.0), // 검색 가중치 (RRF 병합 점수에 곱함, lib/rag/fusion.ts)
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   },
   (table) => [
@@ -340,6 +362,7 @@ export const documents = pgTable(
     progressStep: text('progress_step'), // parsing, chunking, context_generation, embedding, quality_check
     progressPercent: integer('progress_percent').default(0),
     errorMessage: text('error_message'),
+    currentVersion: integer('current_version').notNull().default(1), // 활성 버전 (document_versions.version)
     metadata: jsonb('metadata').default({}),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
@@ -350,6 +373,40 @@ export const documents = pgTable(
   ]
 );
 
+// 문서 버전 (업로드 이력, 버전 간 추출 텍스트 비교, 이전 버전 복원)
+export const documentVersions = pgTable(
+  'document_versions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => documents.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    filename: text('filename').notNull(),
+    filePath: text('file_path').notNull(),
+    fileSize: integer('file_size'),
+    fileType: text('file_type'),
+    uploadedBy: uuid('uploaded_by').references(() => users.id, { onDelete: 'set null' }),
+    extractedText: text('extracted_text'), // 처리 시 저장 (처리 전 NULL)
+    chunkStats: jsonb('chunk_stats').$type<{
+      total: number;
+      new: number;
+      reused: number;
+      removed: number;
+    }>(), // 마지막 처리 결과
+    chunkIds: jsonb('chunk_ids').$type<string[]>(), // 처리 결과 활성 청크 ID (chunkIndex 순, 복원 시 이 구성으로 전환)
+    processedAt: timestamp('processed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('unique_document_version').on(table.documentId, table.version),
+    index('idx_document_versions_tenant').on(table.tenantId),
+  ]
+);
+
 // ============================================
 // 청크 (pgvector 네이티브 지원)
 // ============================================
@@ -368,13 +425,16 @@ export const chunks = pgTable(
     }), // nullable - null이면 라이브러리, 값이 있으면 해당 데이터셋 소속
     sourceChunkId: uuid('source_chunk_id'), // 복사된 청크의 원본 ID (null이면 원본 청크)
     content: text('content').notNull(),
-    embedding: vector('embedding', { dimensions: 1536 }), // OpenAI text-embedding-3-small 1536차원
+    embedding: anyVector('embedding'), // 차원은 embeddingModel에 따름 (기본 1536차원)
+    embeddingModel: text('embedding_model').notNull().default('text-embedding-3-small'),
+    embeddingShadow: anyVector('embedding_shadow'), // 재임베딩 중 새 모델 벡터 (교체 후 NULL)
     contentTsv: text('content_tsv'), // Hybrid Retrieval용 tsvector (마이그레이션에서 generated column으로 설정)
-    chunkIndex: integer('chunk_index'),
+    sparseLength: integer('sparse_length'), // BM25 문서 길이 (term 수, null이면 BM25 미인덱싱)
+    chunkIndex: integer('chunk_index'), // 이전 버전 구성으로 보관 중인 청크는 NULL
     qualityScore: real('quality_score'),
     status: text('status').default('pending'), // pending, approved, rejected, modified
     autoApproved: boolean('auto_approved').default(false),
-    version: integer('version').default(1),
+    version: integer('version').default(1), // 이 내용이 처음 포함된 문서 버전
     isActive: boolean('is_active').default(true),
     metadata: jsonb('metadata').default({}),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
@@ -390,6 +450,94 @@ export const chunks = pgTable(
   ]
 );
 
+// BM25 Sparse 인덱스 (청크별 term 빈도, lib/rag/bm25.ts)
+export const chunkTerms = pgTable(
+  'chunk_terms',
+  {
+    chunkId: uuid('chunk_id')
+      .notNull()
+      .references(() => chunks.id, { onDelete: 'cascade' }),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    term: text('term').notNull(),
+    tf: integer('tf').notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.chunkId, table.term] }),
+    index('idx_chunk_terms_tenant_term').on(table.tenantId, table.term),
+  ]
+);
+
+// 데이터셋 재임베딩 작업 (inngest/functions/reembed-dataset.ts)
+// chunks.embedding_shadow에 새 모델 벡터를 채운 뒤 한 번에 교체
+export const embeddingMigrations = pgTable(
+  'embedding_migrations',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    datasetId: uuid('dataset_id')
+      .notNull()
+      .references(() => datasets.id, { onDelete: 'cascade' }),
+    fromModel: text('from_model').notNull(),
+    toModel: text('to_model').notNull(),
+    status: text('status').notNull().default('pending'), // pending, running, completed, failed
+    totalChunks: integer('total_chunks').notNull().default(0),
+    processedChunks: integer('processed_chunks').notNull().default(0),
+    error: text('error'),
+    startedAt: timestamp('started_at', { withTimezone: true }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    index('idx_embedding_migrations_dataset').on(table.datasetId, table.createdAt),
+    index('idx_embedding_migrations_tenant').on(table.tenantId),
+  ]
+);
+
+// 웹사이트 문서 소스 (inngest/functions/crawl-web-source.ts)
+// URL 또는 sitemap.xml에서 수집한 페이지를 documents 행(metadata.webSourceId)으로 저장
+export const webSources = pgTable(
+  'web_sources',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    datasetId: uuid('dataset_id')
+      .notNull()
+      .references(() => datasets.id, { onDelete: 'cascade' }),
+    url: text('url').notNull(), // 시작 URL 또는 sitemap.xml URL
+    sourceType: text('source_type').notNull().default('page'), // page (링크 따라가기), sitemap
+    includePatterns: jsonb('include_patterns').$type<string[]>().notNull().default([]), // 경로 패턴 (예: /docs/**)
+    excludePatterns: jsonb('exclude_patterns').$type<string[]>().notNull().default([]),
+    maxPages: integer('max_pages').notNull().default(100),
+    maxDepth: integer('max_depth').notNull().default(2), // page 타입에서 시작 URL로부터 링크 깊이
+    recrawlInterval: text('recrawl_interval').notNull().default('manual'), // manual, daily, weekly
+    status: text('status').notNull().default('idle'), // idle, crawling, failed
+    lastCrawlStats: jsonb('last_crawl_stats').$type<{
+      discovered: number;
+      created: number;
+      updated: number;
+      unchanged: number;
+      failed: number;
+    }>(),
+    lastError: text('last_error'),
+    lastCrawledAt: timestamp('last_crawled_at', { withTimezone: true }),
+    nextCrawlAt: timestamp('next_crawl_at', { withTimezone: true }), // 예약 재수집 시각 (manual이면 null)
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    index('idx_web_sources_dataset').on(table.datasetId),
+    index('idx_web_sources_tenant').on(table.tenantId),
+    index('idx_web_sources_next_crawl').on(table.nextCrawlAt),
+  ]
+);
+
 // ============================================
 // 대화
 // ============================================
@@ -407,12 +555,57 @@ export const conversations = pgTable(
     channel: text('channel').default('web'), // web, kakao
     messages: jsonb('messages').default([]),
     metadata: jsonb('metadata').default({}),
+    // 상담원 연결: null (봇 응대), pending (상담원 대기), active (상담원 응대 중), resolved (종료)
+    handoffStatus: text('handoff_status'),
+    handoffReason: text('handoff_reason'), // keyword, no_result, low_confidence, manual
+    handoffRequestedAt: timestamp('handoff_requested_at', { withTimezone: true }),
+    handoffAssignedTo: uuid('handoff_assigned_to').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    handoffResolvedAt: timestamp('handoff_resolved_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   },
   (table) => [
     index('idx_conversations_tenant').on(table.tenantId),
     index('idx_conversations_chatbot').on(table.chatbotId),
+    // 세션 조회용 (같은 세션 ID라도 챗봇별로 별도 대화)
+    index('idx_conversations_session').on(table.tenantId, table.sessionId, table.chatbotId),
+    // 상담원 대기열 조회용
+    index('idx_conversations_handoff').on(table.chatbotId, table.handoffStatus),
+  ]
+);
+
+// ============================================
+// 답변 피드백 (좋아요/싫어요)
+// 대화 + 메시지 ID 단위로 1건만 유지 (재클릭 시 갱신)
+// ============================================
+export const messageFeedback = pgTable(
+  'message_feedback',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    chatbotId: uuid('chatbot_id').references(() => chatbots.id, {
+      onDelete: 'set null',
+    }),
+    conversationId: uuid('conversation_id')
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    messageId: text('message_id').notNull(), // conversations.messages[].id
+    rating: text('rating').notNull(), // up, down
+    // 답변 생성 시 검색된 청크 ID (검토 큐 전송용 스냅샷)
+    chunkIds: jsonb('chunk_ids').$type<string[]>().default([]),
+    channel: text('channel'), // web, kakao, public_page
+    reviewStatus: text('review_status').default('open'), // open, sent_to_review, dismissed
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    unique('unique_message_feedback').on(table.conversationId, table.messageId),
+    index('idx_message_feedback_tenant').on(table.tenantId),
+    index('idx_message_feedback_chatbot_rating').on(table.chatbotId, table.rating),
   ]
 );
 
@@ -435,6 +628,31 @@ export const usageLogs = pgTable(
   (table) => [unique('usage_logs_tenant_date').on(table.tenantId, table.date)]
 );
 
+// ============================================
+// 챗봇별 사용량 로그 (usage_logs의 챗봇 단위 분할)
+// ============================================
+export const chatbotUsageLogs = pgTable(
+  'chatbot_usage_logs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => tenants.id, { onDelete: 'cascade' }),
+    chatbotId: uuid('chatbot_id')
+      .notNull()
+      .references(() => chatbots.id, { onDelete: 'cascade' }),
+    date: date('date').notNull(),
+    conversationCount: integer('conversation_count').default(0),
+    messageCount: integer('message_count').default(0),
+    tokenUsage: integer('token_usage').default(0),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    unique('chatbot_usage_logs_chatbot_date').on(table.chatbotId, table.date),
+    index('idx_chatbot_usage_logs_tenant_date').on(table.tenantId, table.date),
+  ]
+);
+
 // ============================================
 // 응답 캐시
 // ============================================
@@ -445,14 +663,24 @@ export const responseCache = pgTable(
     tenantId: uuid('tenant_id')
       .notNull()
       .references(() => tenants.id, { onDelete: 'cascade' }),
+    // 챗봇별 캐시 (챗봇마다 데이터셋/페르소나가 다르므로 분리), null이면 챗봇 없는 테넌트 기본 응답
+    chatbotId: uuid('chatbot_id').references(() => chatbots.id, { onDelete: 'cascade' }),
+    // 캐시 생성 시점의 콘텐츠 리비전 (chatbots.contentUpdatedAt 기반), 다르면 캐시 미스
+    contentRevision: text('content_revision').notNull().default('0'),
     queryHash: text('query_hash').notNull(),
-    queryEmbedding: vector('query_embedding', { dimensions: 1536 }), // OpenAI text-embedding-3-small 1536차원
+    queryEmbedding: anyVector('query_embedding'),
+    queryEmbeddingModel: text('query_embedding_model').notNull().default('text-embedding-3-small'),
     response: text('response').notNull(),
     hitCount: integer('hit_count').default(0),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     expiresAt: timestamp('expires_at', { withTimezone: true }),
   },
-  (table) => [unique('response_cache_tenant_query').on(table.tenantId, table.queryHash)]
+  (table) => [
+    unique('response_cache_tenant_chatbot_query')
+      .on(table.tenantId, table.chatbotId, table.queryHash)
+      .nullsNotDistinct(),
+    index('idx_response_cache_chatbot').on(table.chatbotId),
+  ]
 );
 
 // ============================================
@@ -738,6 +966,7 @@ export const responseTimeLogs = pgTable(
       history_lookup?: number;
       query_rewriting?: number;
       hybrid_search?: number;
+      reranking?: number;
       llm_generation?: number;
       message_save?: number;
       usage_log?: number;
@@ -748,6 +977,9 @@ export const responseTimeLogs = pgTable(
     llmDurationMs: integer('llm_duration_ms'),
     searchDurationMs: integer('search_duration_ms'),
     rewriteDurationMs: integer('rewrite_duration_ms'),
+    rerankDurationMs: integer('rerank_duration_ms'),
+    // 실행된 Re-ranker (llm, cross_encoder / 미실행 시 null)
+    reranker: text('reranker'),
 
     // 캐시 히트 여부
     cacheHit: boolean('cache_hit').default(false),
@@ -863,13 +1095,27 @@ export type NewUser = typeof users.$inferInsert;
 
 export type Document = typeof documents.$inferSelect;
 export type NewDocument = typeof documents.$inferInsert;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type NewDocumentVersion = typeof documentVersions.$inferInsert;
 
 export type Chunk = typeof chunks.$inferSelect;
 export type NewChunk = typeof chunks.$inferInsert;
 
+export type ChunkTerm = typeof chunkTerms.$inferSelect;
+export type NewChunkTerm = typeof chunkTerms.$inferInsert;
+
+export type EmbeddingMigration = typeof embeddingMigrations.$inferSelect;
+export type NewEmbeddingMigration = typeof embeddingMigrations.$inferInsert;
+
+export type WebSource = typeof webSources.$inferSelect;
+export type NewWebSource = typeof webSources.$inferInsert;
+
 export type Conversation = typeof conversations.$inferSelect;
 export type NewConversation = typeof conversations.$inferInsert;
 
+export type MessageFeedback = typeof messageFeedback.$inferSelect;
+export type NewMessageFeedback = typeof messageFeedback.$inferInsert;
+
 export type AccessLog = typeof accessLogs.$inferSelect;
 export type NewAccessLog = typeof accessLogs.$inferInsert;
 
@@ -1312,7 +1558,7 @@ export const knowledgePages = pgTable(
     isIndexed: boolean('is_indexed').notNull().default(false),
 
     // 벡터 (pgvector)
-    embedding: vector('embedding', { dimensions: 1536 }),
+    embedding: anyVector('embedding'),
 
     // 출처 추적
     sourceDocumentId: uuid('source_document_id').references(() => documents.id, {
@@ -1373,7 +1619,8 @@ export const knowledgePageVersions = pgTable(
     path: text('path').notNull(),
 
     // 벡터 (검색용)
-    embedding: vector('embedding', { dimensions: 1536 }),
+    embedding: anyVector('embedding'),
+    embeddingModel: text('embedding_model').notNull().default('text-embedding-3-small'),
 
     // 메타데이터
     publishedAt: timestamp('published_at', { withTimezone: true }).notNull(),
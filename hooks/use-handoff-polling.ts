@@ -0,0 +1,83 @@
+'use client';
+
+/**
+ * 상담원 메시지 폴링 훅
+ *
+ * 상담원 대기/응대 중인 동안 주기적으로 상담원 메시지와 상태를 가져옵니다.
+ * 이미 받은 메시지는 ID로 걸러내므로 같은 메시지가 두 번 표시되지 않습니다.
+ *
+ * @example
+ * ```tsx
+ * useHandoffPolling({
+ *   active: handoff?.status === 'pending' || handoff?.status === 'active',
+ *   poll: (since) => pollWidgetHandoff(tenantId, sessionId, chatbotId, since),
+ *   onUpdate: ({ status, messages }) => { ... },
+ * });
+ * ```
+ */
+
+import { useEffect, useRef } from 'react';
+import type { HandoffPollResult } from '@/lib/handoff/types';
+
+// 폴링 주기 (3초)
+const DEFAULT_INTERVAL_MS = 3000;
+
+interface UseHandoffPollingOptions {
+  /** 폴링 여부 (상담원 대기/응대 중) */
+  active: boolean;
+  /** 마지막으로 받은 메시지 시각 이후의 업데이트 조회 */
+  poll: (since: string) => Promise<HandoffPollResult>;
+  /** 새 상담원 메시지 또는 상태 수신 */
+  onUpdate: (result: HandoffPollResult) => void;
+  intervalMs?: number;
+}
+
+export function useHandoffPolling({
+  active,
+  poll,
+  onUpdate,
+  intervalMs = DEFAULT_INTERVAL_MS,
+}: UseHandoffPollingOptions) {
+  const sinceRef = useRef('');
+  const seenRef = useRef(new Set<string>());
+  // 렌더링마다 바뀌는 콜백으로 interval이 재시작되지 않도록 ref로 보관
+  const pollRef = useRef(poll);
+  const onUpdateRef = useRef(onUpdate);
+
+  useEffect(() => {
+    pollRef.current = poll;
+    onUpdateRef.current = onUpdate;
+  }, [poll, onUpdate]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    const tick = async () => {
+      try {
+        const result = await pollRef.current(sinceRef.current);
+        if (cancelled) return;
+
+        const messages = result.messages.filter((m) => {
+          const key = m.id ?? m.timestamp;
+          if (seenRef.current.has(key)) return false;
+          seenRef.current.add(key);
+          return true;
+        });
+        if (result.messages.length > 0) {
+          sinceRef.current = result.messages[result.messages.length - 1].timestamp;
+        }
+
+        onUpdateRef.current({ status: result.status, messages });
+      } catch {
+        // 일시적인 네트워크 오류는 다음 주기에 재시도
+      }
+    };
+
+    const timer = setInterval(tick, intervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [active, intervalMs]);
+}
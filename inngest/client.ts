@@ -9,7 +9,7 @@
 
 import { Inngest } from 'inngest';
 import { logger } from '@/lib/logger';
-import { db, documents } from '@/lib/db';
+import { db, documents, embeddingMigrations, webSources } from '@/lib/db';
 import { eq } from 'drizzle-orm';
 
 /**
@@ -73,6 +73,41 @@ const mockInngest = {
       }
     }
 
+    // 재임베딩 요청이면 작업을 실패 처리 (pending으로 남아 다음 요청을 막지 않도록)
+    if (event.name === 'dataset/reembed.requested' && event.data.migrationId) {
+      try {
+        await db.update(embeddingMigrations)
+          .set({
+            status: 'failed',
+            error: 'Inngest가 설정되지 않아 재임베딩을 시작할 수 없습니다.',
+            completedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(embeddingMigrations.id, event.data.migrationId as string));
+      } catch (dbError) {
+        logger.error('Failed to update embedding migration status', dbError as Error, {
+          migrationId: event.data.migrationId,
+        });
+      }
+    }
+
+    // 웹사이트 수집 요청이면 소스를 실패 처리 (crawling으로 남지 않도록)
+    if (event.name === 'web-source/crawl.requested' && event.data.webSourceId) {
+      try {
+        await db.update(webSources)
+          .set({
+            status: 'failed',
+            lastError: 'Inngest가 설정되지 않아 웹사이트 수집을 시작할 수 없습니다.',
+            updatedAt: new Date(),
+          })
+          .where(eq(webSources.id, event.data.webSourceId as string));
+      } catch (dbError) {
+        logger.error('Failed to update web source status', dbError as Error, {
+          webSourceId: event.data.webSourceId,
+        });
+      }
+    }
+
     return { ids: [] };
   },
 };
@@ -95,6 +130,8 @@ export interface DocumentUploadedEvent {
     filePath: string;
     /** 사용자가 UI에서 선택한 청킹 전략 (선택적) */
     chunkingStrategy?: 'semantic' | 'smart' | 'late';
+    /** 처리할 문서 버전 (없으면 documents.currentVersion) */
+    version?: number;
   };
 }
 
@@ -255,6 +292,58 @@ export interface KnowledgePagesGenerateFromSessionEvent {
   };
 }
 
+// ============================================
+// 데이터셋 재임베딩 이벤트
+// ============================================
+
+/**
+ * 데이터셋 임베딩 모델 변경(재임베딩) 요청 이벤트
+ * 콘솔 데이터셋 상세에서 모델 변경 시 발송
+ */
+export interface DatasetReembedRequestedEvent {
+  name: 'dataset/reembed.requested';
+  data: {
+    /** 재임베딩 작업 ID (embedding_migrations) */
+    migrationId: string;
+    datasetId: string;
+    tenantId: string;
+    /** 새 임베딩 모델 ID (lib/rag/embedding-models.ts) */
+    toModel: string;
+  };
+}
+
+/**
+ * 문서 청크 재임베딩 요청 이벤트
+ * 임베딩 모델이 다른 데이터셋으로 문서를 이동·복제해 벡터가 비워졌을 때 발송
+ */
+export interface DocumentReembedRequestedEvent {
+  name: 'document/reembed.requested';
+  data: {
+    documentId: string;
+    /** 문서가 속한 (대상) 데이터셋 */
+    datasetId: string;
+    tenantId: string;
+  };
+}
+
+// ============================================
+// 웹사이트 수집 이벤트
+// ============================================
+
+/**
+ * 웹사이트 소스 수집 요청 이벤트
+ * 소스 등록/수동 수집 시 API에서, 예약 재수집 시 Cron에서 발송
+ */
+export interface WebSourceCrawlRequestedEvent {
+  name: 'web-source/crawl.requested';
+  data: {
+    /** 웹사이트 소스 ID (web_sources) */
+    webSourceId: string;
+    tenantId: string;
+    trigger: 'created' | 'manual' | 'scheduled';
+  };
+}
+
 // 모든 이벤트 타입
 export type InngestEvents =
   | DocumentUploadedEvent
@@ -267,4 +356,7 @@ export type InngestEvents =
   | BillingSubscriptionExpiredEvent
   | DocumentConvertToPagesEvent
   | KnowledgePagesValidateDocumentEvent
-  | KnowledgePagesGenerateFromSessionEvent;
+  | KnowledgePagesGenerateFromSessionEvent
+  | DatasetReembedRequestedEvent
+  | DocumentReembedRequestedEvent
+  | WebSourceCrawlRequestedEvent;
@@ -0,0 +1,185 @@
+/**
+ * 웹사이트 소스 수집 파이프라인
+ *
+ * URL 또는 sitemap.xml에서 페이지를 수집해 마크다운 문서로 저장하고,
+ * 새 페이지/내용이 바뀐 페이지만 processDocument로 넘깁니다 (lib/crawler/web-source.ts).
+ *
+ * 처리 흐름:
+ * 1. 수집 시작 (소스 상태 crawling)
+ * 2. robots.txt, 시작 대상 조회 (sitemap 또는 시작 URL)
+ * 3. 배치마다 step: 페이지 수집 → 내용 해시 비교 → 문서 생성/갱신
+ * 4. 통계 기록, 다음 예약 재수집 시각 갱신
+ *
+ * 예약 재수집은 scheduleWebSourceCrawls(Cron)가 매시간 대상 소스에 이벤트를 보냅니다.
+ */
+
+import { inngestClient } from '../client';
+import { db, webSources } from '@/lib/db';
+import { and, lte, ne } from 'drizzle-orm';
+import { crawlPages, discoverSeedTargets, fetchRobotsTxt, runCrawlLoop } from '@/lib/crawler';
+import {
+  beginWebSourceCrawl,
+  finishWebSourceCrawl,
+  syncCrawledPages,
+  toCrawlConfig,
+  type CrawlStats,
+} from '@/lib/crawler/web-source';
+import { logger } from '@/lib/logger';
+
+// step 하나에서 수집할 페이지 수
+const CRAWL_BATCH_SIZE = 10;
+
+export const crawlWebSourceFunction = inngestClient.createFunction(
+  {
+    id: 'crawl-web-source',
+    retries: 3,
+    // 같은 소스는 한 번에 하나만 수집
+    concurrency: { key: 'event.data.webSourceId', limit: 1 },
+    onFailure: async ({ event, error }) => {
+      // onFailure 이벤트에서 원본 이벤트 데이터는 event.data.event.data에 있음
+      const failureEvent = event as unknown as {
+        data: { event: { data: { webSourceId: string } } };
+      };
+
+      const webSourceId = failureEvent.data.event?.data?.webSourceId;
+      if (!webSourceId) {
+        logger.error(
+          '[WebSource] onFailure: Missing source data',
+          new Error(JSON.stringify(event))
+        );
+        return;
+      }
+
+      logger.error('[WebSource] Crawl failed after retries', error, { webSourceId });
+      await finishWebSourceCrawl(webSourceId, { status: 'failed', error: error.message });
+    },
+  },
+  { event: 'web-source/crawl.requested' },
+  async ({ event, step }) => {
+    const { webSourceId, trigger } = event.data;
+
+    // Step 1: 수집 시작
+    const source = await step.run('begin-crawl', async () => {
+      return beginWebSourceCrawl(webSourceId);
+    });
+    if (!source) {
+      logger.warn('[WebSource] Source not found, skipping crawl', { webSourceId });
+      return { success: false, reason: 'source_not_found' };
+    }
+
+    const config = toCrawlConfig(source);
+
+    // Step 2: robots.txt + 시작 대상
+    const { robotsTxt, seeds } = await step.run('discover-targets', async () => {
+      const [robotsTxt, seeds] = await Promise.all([
+        fetchRobotsTxt(config.url),
+        discoverSeedTargets(config),
+      ]);
+      return { robotsTxt, seeds };
+    });
+
+    logger.info('[WebSource] Starting crawl', {
+      webSourceId,
+      trigger,
+      sourceType: config.sourceType,
+      seedCount: seeds.length,
+    });
+
+    // Step 3: 배치 수집 + 문서 동기화
+    const results = await runCrawlLoop(config, seeds, CRAWL_BATCH_SIZE, (targets, batchIndex) =>
+      step.run(`crawl-batch-${batchIndex}`, async () => {
+        const pageResults = await crawlPages(targets, robotsTxt);
+        const pages = pageResults.flatMap((result) =>
+          result.status === 'ok' && result.page ? [result.page] : []
+        );
+        const outcomes = await syncCrawledPages(source, pages);
+
+        return pageResults.map((result) => ({
+          url: result.url,
+          links: result.links,
+          outcome:
+            result.status === 'ok'
+              ? result.page
+                ? (outcomes.get(result.url) ?? 'failed')
+                : 'visited'
+              : result.status,
+          ...(result.status === 'failed' && { error: result.error }),
+          ...(result.status === 'skipped' &&
+            result.redirectedTo && { redirectedTo: result.redirectedTo }),
+        }));
+      })
+    );
+
+    // Step 4: 마무리
+    const stats: CrawlStats = {
+      discovered: results.filter((r) => !r.redirectedTo).length,
+      created: results.filter((r) => r.outcome === 'created').length,
+      updated: results.filter((r) => r.outcome === 'updated').length,
+      unchanged: results.filter((r) => r.outcome === 'unchanged').length,
+      failed: results.filter((r) => r.outcome === 'failed').length,
+    };
+
+    await step.run('finish-crawl', async () => {
+      await finishWebSourceCrawl(webSourceId, { status: 'idle', stats });
+    });
+
+    logger.info('[WebSource] Crawl completed', {
+      webSourceId,
+      ...stats,
+      failedUrls: results
+        .filter((r) => r.outcome === 'failed')
+        .slice(0, 10)
+        .map((r) => r.url),
+    });
+
+    return { success: true, webSourceId, stats };
+  }
+);
+
+/**
+ * 예약 재수집 (Cron)
+ *
+ * 매시간 재수집 시각이 지난 소스에 수집 이벤트를 보냅니다.
+ * 이벤트 ID에 예약 시각을 넣어 같은 예약이 두 번 실행되지 않도록 합니다.
+ */
+export const scheduleWebSourceCrawls = inngestClient.createFunction(
+  {
+    id: 'schedule-web-source-crawls',
+    retries: 3,
+  },
+  { cron: 'TZ=Asia/Seoul 0 * * * *' }, // 매시간 정각 (KST)
+  async ({ step }) => {
+    const dueSources = await step.run('find-due-sources', async () => {
+      return db
+        .select({
+          id: webSources.id,
+          tenantId: webSources.tenantId,
+          nextCrawlAt: webSources.nextCrawlAt,
+        })
+        .from(webSources)
+        .where(
+          and(
+            lte(webSources.nextCrawlAt, new Date()),
+            ne(webSources.recrawlInterval, 'manual'),
+            ne(webSources.status, 'crawling')
+          )
+        );
+    });
+
+    if (dueSources.length === 0) {
+      return { scheduled: 0 };
+    }
+
+    await step.sendEvent(
+      'request-crawls',
+      dueSources.map((source) => ({
+        id: `web-source-${source.id}-${source.nextCrawlAt}`,
+        name: 'web-source/crawl.requested',
+        data: { webSourceId: source.id, tenantId: source.tenantId, trigger: 'scheduled' },
+      }))
+    );
+
+    logger.info('[WebSource] Scheduled re-crawls', { count: dueSources.length });
+    return { scheduled: dueSources.length };
+  }
+);
@@ -22,3 +22,10 @@ export { convertDocumentToPagesFunction } from './convert-document-to-pages';
 // Knowledge Pages 검증 함수
 export { validateClaimsFunction } from './validate-claims';
 export { expireValidationSessions } from './expire-validation-sessions';
+
+// 데이터셋 재임베딩 함수
+export { reembedDatasetFunction } from './reembed-dataset';
+export { reembedDocumentFunction } from './reembed-document';
+
+// 웹사이트 수집 함수
+export { crawlWebSourceFunction, scheduleWebSourceCrawls } from './crawl-web-source';
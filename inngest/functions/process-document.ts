@@ -3,10 +3,16 @@
  * 업로드된 문서를 파싱 → 청킹 → 임베딩 → 저장
  */
 
+import { NonRetriableError } from 'inngest';
 import { inngestClient } from '../client';
 import { db, documents, chunks, datasets, chatbotDatasets, chatbots } from '@/lib/db';
-import { eq, sql } from 'drizzle-orm';
-import { parseDocument, type SupportedFileType } from '@/lib/parsers';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  parseDocument,
+  locateChunkSources,
+  toPageRange,
+  type SupportedFileType,
+} from '@/lib/parsers';
 import { smartChunk } from '@/lib/rag/chunking';
 import {
   semanticChunk,
@@ -14,7 +20,10 @@ import {
   calculateSemanticQualityScore,
   type SemanticChunk,
 } from '@/lib/rag/semantic-chunking';
-import { embedTexts } from '@/lib/rag/embedding';
+import { embedTexts, EmbeddingUnavailableError } from '@/lib/rag/embedding';
+import { getDatasetEmbeddingModelId } from '@/lib/rag/embedding-migration';
+import { indexChunkTerms } from '@/lib/rag/sparse-index';
+import { diffChunks, getStoredChunkHash, hashChunkContent } from '@/lib/rag/chunk-diff';
 import {
   isContextGenerationEnabled,
   generateContextsBatch,
@@ -27,7 +36,16 @@ import {
   logDocumentProcessing,
   clearDocumentLogs,
 } from '@/lib/document-log';
+import {
+  ensureDocumentVersion,
+  isCurrentVersionChunk,
+  retireDocumentChunks,
+  unarchivedChunkActive,
+  unarchivedChunkMetadata,
+  updateDocumentVersion,
+} from '@/lib/document-versions';
 import { triggerRagIndexGeneration } from '@/lib/chat/rag-index-generator';
+import { invalidateCacheForDatasets } from '@/lib/chat/cache';
 import {
   determineChunkingStrategy,
   toChunkExperimentMetadata,
@@ -93,22 +111,21 @@ onFailure: async ({ event, error }) => {
       documentId,
       tenantId,
       datasetId: eventDatasetId,
+      userId,
       filename,
       fileType,
       filePath,
       chunkingStrategy: userSelectedStrategy, // UI에서 사용자가 선택한 전략
+      version: eventVersion,
     } = event.data;
     const processingStartTime = Date.now();
 
     // Step 0: 이전 데이터 정리 (step.run 내부에서 실행하여 retry 시 중복 실행 방지)
-    // 중요: step.run 외부에서 실행하면 retry 시 청크가 삭제되지만 memoized step은 재실행되지 않아 청크가 사라짐
+    // 기존 청크는 지우지 않고 청킹 후 내용 해시로 비교해 재사용한다 (diff-chunks → save-chunks)
     await step.run('cleanup-previous-data', async () => {
       // 이전 로그 삭제 (재처리 시)
       await clearDocumentLogs(documentId);
 
-      // 이전 청크 삭제 (재처리 시 중복 방지)
-      await db.delete(chunks).where(eq(chunks.documentId, documentId));
-
       // 처리 시작 로그
       await logDocumentProcessing({
         documentId,
@@ -124,15 +141,19 @@ onFailure: async ({ event, error }) => {
     const initResult = await step.run('initialize-processing', async () => {
       await updateDocumentProgress(documentId, 'parsing', 0);
 
+      const [doc] = await db
+        .select({ datasetId: documents.datasetId, currentVersion: documents.currentVersion })
+        .from(documents)
+        .where(eq(documents.id, documentId));
+
+      // 처리할 버전 (새 버전 업로드/복원 시 이벤트에 포함, 버전 행이 없으면 현재 파일로 생성)
+      const version = eventVersion ?? doc?.currentVersion ?? 1;
+      await ensureDocumentVersion(documentId, version, userId);
+
       // 방어적 datasetId 검증: event에서 전달된 값이 없으면 documents 테이블에서 조회
       let resolvedDatasetId = eventDatasetId;
 
       if (!resolvedDatasetId) {
-        const [doc] = await db
-          .select({ datasetId: documents.datasetId })
-          .from(documents)
-          .where(eq(documents.id, documentId));
-
         if (doc?.datasetId) {
           resolvedDatasetId = doc.datasetId;
           logger.warn('datasetId fallback from documents table', {
@@ -166,6 +187,7 @@ onFailure: async ({ event, error }) => {
 
       return {
         initialized: true,
+        version,
         datasetId: resolvedDatasetId,
         experimentConfig,
         connectedChatbotId,
@@ -176,6 +198,7 @@ onFailure: async ({ event, error }) => {
     const datasetId = initResult.datasetId;
     const experimentConfig = initResult.experimentConfig;
     const connectedChatbotId = initResult.connectedChatbotId;
+    const version = initResult.version;
 
     // Step 2: 문서 파싱 (파일 다운로드 포함)
     const parsingStartTime = Date.now();
@@ -202,6 +225,9 @@ onFailure: async ({ event, error }) => {
         fileType as SupportedFileType
       );
 
+      // 버전 간 비교용 추출 텍스트 저장
+      await updateDocumentVersion(documentId, version, { extractedText: result.text });
+
       await updateDocumentProgress(documentId, 'parsing', 100);
 
       return result;
@@ -251,6 +277,27 @@ onFailure: async ({ event, error }) => {
       reason: strategyResult.reason,
     });
 
+    // XLSX/PPTX/PDF: 청크 메타데이터에 원본 위치(시트/행, 슬라이드, 페이지) 추가 (출처 표시용)
+    // PDF는 뷰어 이동용 pageRange도 함께 저장
+    const withSourceLocations = <T extends { content: string; metadata: object }>(chunks: T[]) => {
+      const locations = locateChunkSources(
+        parseResult.text,
+        parseResult.segments,
+        chunks.map((chunk) => chunk.content)
+      );
+      return chunks.map((chunk, i) => {
+        const pageRange = toPageRange(locations[i]);
+        return {
+          ...chunk,
+          metadata: {
+            ...chunk.metadata,
+            ...(locations[i] && { sourceLocation: locations[i] }),
+            ...(pageRange && { pageRange }),
+          },
+        };
+      });
+    };
+
     const chunkResults = await step.run('chunk-document', async () => {
       await updateDocumentProgress(documentId, 'chunking', 0);
 
@@ -276,24 +323,27 @@ onFailure: async ({ event, error }) => {
         );
 
         // 기존 Chunk 타입과 호환되도록 변환 + 실험 메타데이터 포함
-        return semanticChunks.map((chunk) => ({
-          content: chunk.content,
-          index: chunk.index,
-          qualityScore: calculateSemanticQualityScore(chunk),
-          metadata: {
-            startOffset: chunk.metadata.startOffset,
-            endOffset: chunk.metadata.endOffset,
-            hasHeader: chunk.type === 'header',
-            isQAPair: chunk.type === 'qa',
-            isTable: chunk.type === 'table',
-            isList: chunk.type === 'list',
-            // Semantic Chunking 추가 메타데이터
-            chunkType: chunk.type,
-            topic: chunk.topic,
-            // Phase 5: A/B 테스트 실험 메타데이터
-            ...experimentMetadata,
-          },
-        }));
+        return withSourceLocations(
+          semanticChunks.map((chunk) => ({
+            content: chunk.content,
+            index: chunk.index,
+            qualityScore: calculateSemanticQualityScore(chunk),
+            metadata: {
+              startOffset: chunk.metadata.startOffset,
+              endOffset: chunk.metadata.endOffset,
+              hasHeader: chunk.type === 'header',
+              isQAPair: chunk.type === 'qa',
+              isTable: chunk.type === 'table',
+              isList: chunk.type === 'list',
+              // Semantic Chunking 추가 메타데이터
+              chunkType: chunk.type,
+              topic: chunk.topic,
+              sectionIndex: chunk.metadata.originalSegmentIndex,
+              // Phase 5: A/B 테스트 실험 메타데이터
+              ...experimentMetadata,
+            },
+          }))
+        );
       }
 
       // smart 또는 late 전략: 규칙 기반 청킹
@@ -311,16 +361,59 @@ onFailure: async ({ event, error }) => {
       await updateDocumentProgress(documentId, 'chunking', 100);
 
       // 실험 메타데이터 추가
-      return chunksData.map((chunk) => ({
-        ...chunk,
-        metadata: {
-          ...chunk.metadata,
-          // Phase 5: A/B 테스트 실험 메타데이터
-          ...experimentMetadata,
-        },
-      }));
+      return withSourceLocations(
+        chunksData.map((chunk) => ({
+          ...chunk,
+          metadata: {
+            ...chunk.metadata,
+            // Phase 5: A/B 테스트 실험 메타데이터
+            ...experimentMetadata,
+          },
+        }))
+      );
     });
 
+    // Step 3.2: 기존 청크와 비교 (재처리 시 내용이 같은 청크는 검토 상태/컨텍스트/임베딩 재사용)
+    // 이전 버전 구성으로 보관 중인 청크(chunk_index NULL, 정렬상 마지막)도 짝이 되면 다시 활성화
+    const chunkHashes = chunkResults.map((chunk) => hashChunkContent(chunk.content));
+    const chunkDiff = await step.run('diff-chunks', async () => {
+      const existingChunks = await db
+        .select({
+          id: chunks.id,
+          chunkIndex: chunks.chunkIndex,
+          content: chunks.content,
+          metadata: chunks.metadata,
+          status: chunks.status,
+          embeddingModel: chunks.embeddingModel,
+          hasEmbedding: sql<boolean>`${chunks.embedding} IS NOT NULL`,
+        })
+        .from(chunks)
+        .where(eq(chunks.documentId, documentId))
+        .orderBy(asc(chunks.chunkIndex));
+
+      const { matches, removed } = diffChunks(
+        existingChunks.map((chunk) => ({
+          id: chunk.id,
+          chunkIndex: chunk.chunkIndex,
+          status: chunk.status ?? 'pending',
+          embeddingModel: chunk.embeddingModel,
+          hasEmbedding: chunk.hasEmbedding,
+          contentHash: getStoredChunkHash(chunk),
+        })),
+        chunkHashes
+      );
+
+      // 활성 구성에서 빠지는 청크 (보관 중인 청크는 제외)
+      const removedIds = removed
+        .filter((chunk) => chunk.chunkIndex !== null)
+        .map((chunk) => chunk.id);
+      return { matches, removedIds };
+    });
+
+    // 컨텍스트 생성/임베딩 대상 (기존 청크와 짝이 없는 새 청크)
+    const newChunkResults = chunkResults.filter((_, i) => !chunkDiff.matches[i]);
+    const reusedChunkCount = chunkResults.length - newChunkResults.length;
+
     // 청킹 완료 로그 (step.run 외부에서 호출)
     await logDocumentProcessing({
       documentId,
@@ -330,6 +423,9 @@ onFailure: async ({ event, error }) => {
       message: '청크 분할 완료',
       details: {
         chunkCount: chunkResults.length,
+        newChunks: newChunkResults.length,
+        reusedChunks: reusedChunkCount,
+        removedChunks: chunkDiff.removedIds.length,
         // Phase 5: 전략 정보 추가
         strategy: strategyResult.strategy,
         variant: strategyResult.variant,
@@ -347,11 +443,16 @@ onFailure: async ({ event, error }) => {
         return { skipped: true, results: null };
       }
 
+      // 모든 청크를 재사용하면 생성할 컨텍스트 없음
+      if (newChunkResults.length === 0) {
+        return { skipped: false, results: [] };
+      }
+
       await updateDocumentProgress(documentId, 'context_generation', 0);
 
       const results = await generateContextsBatch(
         parseResult.text,
-        chunkResults.map((c) => ({ index: c.index, content: c.content })),
+        newChunkResults.map((c) => ({ index: c.index, content: c.content })),
         { savePrompt: true }, // 리뷰 UI에서 확인하기 위해 프롬프트 저장
         async (current, total) => {
           const progress = Math.round((current / total) * 100);
@@ -388,9 +489,10 @@ onFailure: async ({ event, error }) => {
         status: 'completed',
         message: '컨텍스트 생성 완료',
         details: {
-          totalChunks: chunkResults.length,
+          totalChunks: newChunkResults.length,
+          reusedChunks: reusedChunkCount,
           successCount,
-          failureCount: chunkResults.length - successCount,
+          failureCount: newChunkResults.length - successCount,
           avgContextLength: avgLength,
         },
         durationMs: Date.now() - contextStartTime,
@@ -402,20 +504,82 @@ onFailure: async ({ event, error }) => {
 
     // Step 4: 임베딩 생성 (배치 처리) - 컨텍스트 포함
     const embeddingStartTime = Date.now();
-    const embeddings = await step.run('generate-embeddings', async () => {
+    const { embeddingModel, embeddings } = await step.run('generate-embeddings', async () => {
       await updateDocumentProgress(documentId, 'embedding', 0);
 
-      // 컨텍스트가 있으면 포함하여 임베딩
-      const texts = chunkResults.map((chunk) => {
-        const context = actualContextResults?.find((c: ContextResult) => c.chunkIndex === chunk.index);
-        return buildContextualContent(chunk.content, context?.contextPrefix);
+      // 데이터셋에 기록된 임베딩 모델 사용 (재임베딩 중이면 교체 전 모델, 작업이 새 모델로 따라잡음)
+      const modelId = await getDatasetEmbeddingModelId(datasetId);
+
+      // 재사용 청크 중 벡터가 없거나 다른 모델로 만든 청크는 저장된 내용/컨텍스트로 다시 임베딩
+      const reembedIds = chunkDiff.matches.flatMap((match) =>
+        match && (!match.hasEmbedding || match.embeddingModel !== modelId) ? [match.id] : []
+      );
+      const reembedSources = new Map(
+        reembedIds.length > 0
+          ? (
+              await db
+                .select({ id: chunks.id, content: chunks.content, metadata: chunks.metadata })
+                .from(chunks)
+                .where(inArray(chunks.id, reembedIds))
+            ).map((chunk) => [chunk.id, chunk])
+          : []
+      );
+
+      // 새 청크는 컨텍스트가 있으면 포함하여 임베딩
+      const positions: number[] = [];
+      const texts: string[] = [];
+      chunkResults.forEach((chunk, position) => {
+        const match = chunkDiff.matches[position];
+        if (!match) {
+          const context = actualContextResults?.find((c: ContextResult) => c.chunkIndex === chunk.index);
+          positions.push(position);
+          texts.push(buildContextualContent(chunk.content, context?.contextPrefix));
+          return;
+        }
+
+        const source = reembedSources.get(match.id);
+        if (source) {
+          const metadata = source.metadata as { contextPrefix?: string | null } | null;
+          positions.push(position);
+          texts.push(buildContextualContent(source.content, metadata?.contextPrefix ?? undefined));
+        }
       });
+
       // 토큰 사용량 추적을 위해 trackingContext 전달
-      const embeddingVectors = await embedTexts(texts, { tenantId });
+      let embeddingVectors: number[][];
+      try {
+        embeddingVectors = await embedTexts(texts, { tenantId }, modelId);
+      } catch (error) {
+        // 임베딩 서비스 미설정/차단 시 더미 벡터 없이 실패 처리 (검색 불가 청크 방지)
+        if (error instanceof EmbeddingUnavailableError) {
+          await logDocumentProcessing({
+            documentId,
+            tenantId,
+            step: 'embedding',
+            status: 'failed',
+            message: error.retryable
+              ? '임베딩 서버 장애로 임베딩을 생성하지 못했습니다. 잠시 후 자동으로 재시도합니다.'
+              : '임베딩 서비스가 설정되지 않아 문서를 처리할 수 없습니다.',
+            details: { embeddingModel: modelId, reason: error.reason },
+            errorMessage: error.message,
+          });
+
+          if (!error.retryable) {
+            throw new NonRetriableError(error.message, { cause: error });
+          }
+        }
+        throw error;
+      }
 
       await updateDocumentProgress(documentId, 'embedding', 100);
 
-      return embeddingVectors;
+      // 청크 순서별 벡터 (null이면 기존 벡터 유지)
+      const embeddingsByPosition: Array<number[] | null> = chunkResults.map(() => null);
+      positions.forEach((position, i) => {
+        embeddingsByPosition[position] = embeddingVectors[i];
+      });
+
+      return { embeddingModel: modelId, embeddings: embeddingsByPosition };
     });
 
     // 임베딩 완료 로그 (step.run 외부에서 호출)
@@ -425,7 +589,11 @@ onFailure: async ({ event, error }) => {
       step: 'embedding',
       status: 'completed',
       message: '임베딩 생성 완료',
-      details: { embeddingCount: embeddings.length },
+      details: {
+        embeddingCount: embeddings.filter(Boolean).length,
+        reusedEmbeddings: embeddings.filter((embedding) => !embedding).length,
+        embeddingModel,
+      },
       durationMs: Date.now() - embeddingStartTime,
     });
 
@@ -434,39 +602,91 @@ onFailure: async ({ event, error }) => {
     const saveChunksResult = await step.run('save-chunks', async () => {
       await updateDocumentProgress(documentId, 'quality_check', 0);
 
-      const chunkRecords = chunkResults.map((chunk, index) => {
+      // 임베딩 생성 후 재임베딩 교체가 끝났으면 데이터셋 모델이 달라짐
+      // → 벡터 없이 저장하고 무결성 수정(임베딩 재생성)으로 복구
+      const currentEmbeddingModel = await getDatasetEmbeddingModelId(datasetId);
+      const embeddingsUsable = currentEmbeddingModel === embeddingModel;
+      if (!embeddingsUsable) {
+        logger.warn('Dataset embedding model changed during processing, saving without vectors', {
+          documentId,
+          datasetId,
+          embeddingModel,
+          currentEmbeddingModel,
+        });
+      }
+
+      // 재사용하지 않는 기존 청크 정리: 다른 버전 구성의 청크는 비활성으로 보관 (복원 시 재사용),
+      // 나머지(이전 시도에서 일부 저장된 새 청크 포함)는 삭제
+      const keptChunks = chunkDiff.matches.flatMap((match, position) =>
+        match ? [{ ...match, position }] : []
+      );
+      const keptIds = keptChunks.map((chunk) => chunk.id);
+      const retired = await retireDocumentChunks(documentId, version, keptIds);
+
+      // 재사용 청크를 임시 음수 순서로 옮겨 새 청크와 unique(document_id, chunk_index) 충돌 방지
+      const BATCH_SIZE = 100;
+      for (let i = 0; i < keptChunks.length; i += BATCH_SIZE) {
+        const values = sql.join(
+          keptChunks
+            .slice(i, i + BATCH_SIZE)
+            .map(({ id, position }) => sql`(${id}::uuid, ${-1 - position}::int)`),
+          sql`, `
+        );
+        await db.execute(sql`
+          UPDATE chunks
+          SET chunk_index = v.chunk_index
+          FROM (VALUES ${values}) AS v(id, chunk_index)
+          WHERE chunks.id = v.id
+        `);
+      }
+
+      const chunkRecords = chunkResults.flatMap((chunk, position) => {
+        if (chunkDiff.matches[position]) return [];
+
         // 해당 청크의 컨텍스트 찾기
         const context = actualContextResults?.find((c: ContextResult) => c.chunkIndex === chunk.index);
 
-        return {
-          tenantId,
-          datasetId,
-          documentId,
-          content: chunk.content,
-          embedding: embeddings[index],
-          chunkIndex: chunk.index,
-          qualityScore: chunk.qualityScore,
-          status: chunk.qualityScore >= 85 ? 'approved' : 'pending',
-          autoApproved: chunk.qualityScore >= 85,
-          metadata: {
-            ...chunk.metadata,
-            // Contextual Retrieval 관련 필드 추가
-            contextPrefix: context?.contextPrefix || null,
-            contextPrompt: context?.prompt || null,
-            hasContext: !!(context?.contextPrefix && context.contextPrefix.length > 0),
+        return [
+          {
+            tenantId,
+            datasetId,
+            documentId,
+            content: chunk.content,
+            embedding: embeddingsUsable ? embeddings[position] : null,
+            embeddingModel: currentEmbeddingModel,
+            chunkIndex: chunk.index,
+            version,
+            qualityScore: chunk.qualityScore,
+            status: chunk.qualityScore >= 85 ? 'approved' : 'pending',
+            autoApproved: chunk.qualityScore >= 85,
+            metadata: {
+              ...chunk.metadata,
+              // 재처리 시 기존 청크와 비교할 원문 해시
+              contentHash: chunkHashes[position],
+              // Contextual Retrieval 관련 필드 추가
+              contextPrefix: context?.contextPrefix || null,
+              contextPrompt: context?.prompt || null,
+              hasContext: !!(context?.contextPrefix && context.contextPrefix.length > 0),
+            },
           },
-        };
+        ];
       });
 
       // 배치 삽입 (neon-http는 트랜잭션 미지원) + 검증
-      const BATCH_SIZE = 100;
       let savedCount = 0;
+      let sparseIndexedCount = 0;
 
       for (let i = 0; i < chunkRecords.length; i += BATCH_SIZE) {
         const batch = chunkRecords.slice(i, i + BATCH_SIZE);
-        const result = await db.insert(chunks).values(batch).returning({ id: chunks.id });
+        const result = await db
+          .insert(chunks)
+          .values(batch)
+          .returning({ id: chunks.id, tenantId: chunks.tenantId, content: chunks.content });
         savedCount += result.length;
 
+        // BM25 Sparse 인덱스 갱신 (실패해도 저장은 유지, 백필 스크립트로 복구 가능)
+        sparseIndexedCount += await indexChunkTerms(result);
+
         // 배치 저장 검증
         if (result.length !== batch.length) {
           logger.warn('Batch save incomplete', {
@@ -485,17 +705,62 @@ onFailure: async ({ event, error }) => {
         throw new Error(errorMsg);
       }
 
+      // 재사용 청크: 새 순서/위치 메타데이터 반영 (내용, 검토 상태, 활성 여부, 컨텍스트는 유지)
+      // 보관 중이던 이전 버전 청크는 보관 당시 활성 여부로 되돌림
+      // version은 이 내용이 처음 포함된 버전 (이전 버전 파일을 다시 처리하면 더 낮은 버전으로)
+      for (let i = 0; i < keptChunks.length; i += BATCH_SIZE) {
+        const values = sql.join(
+          keptChunks.slice(i, i + BATCH_SIZE).map(({ id, position }) => {
+            const chunk = chunkResults[position];
+            const metadata = { ...chunk.metadata, contentHash: chunkHashes[position] };
+            return sql`(${id}::uuid, ${chunk.index}::int, ${JSON.stringify(metadata)}::jsonb)`;
+          }),
+          sql`, `
+        );
+        await db.execute(sql`
+          UPDATE chunks
+          SET chunk_index = v.chunk_index,
+              version = LEAST(COALESCE(chunks.version, 1), ${version}::int),
+              is_active = ${unarchivedChunkActive()},
+              metadata = ${unarchivedChunkMetadata()} || v.metadata,
+              updated_at = NOW()
+          FROM (VALUES ${values}) AS v(id, chunk_index, metadata)
+          WHERE chunks.id = v.id
+        `);
+      }
+
+      // 다시 임베딩한 재사용 청크의 벡터 교체
+      if (embeddingsUsable) {
+        for (const { id, position } of keptChunks) {
+          const embedding = embeddings[position];
+          if (!embedding) continue;
+          await db
+            .update(chunks)
+            .set({ embedding, embeddingModel: currentEmbeddingModel })
+            .where(eq(chunks.id, id));
+        }
+      }
+
       // 저장 완료 후 진행 상태 업데이트
       await updateDocumentProgress(documentId, 'quality_check', 100);
 
       const autoApprovedCount = chunkRecords.filter((c) => c.autoApproved).length;
+      const newPendingCount = chunkRecords.filter((c) => c.status === 'pending').length;
       const avgQualityScore =
         chunkResults.reduce((sum, c) => sum + c.qualityScore, 0) / chunkResults.length;
 
       return {
-        totalChunks: chunkRecords.length,
+        totalChunks: chunkResults.length,
+        newChunks: chunkRecords.length,
+        reusedChunks: keptChunks.length,
+        removedChunks: chunkDiff.removedIds.length,
+        retainedChunks: retired.retained,
         autoApprovedCount,
+        // 재사용 청크는 기존 검토 상태 유지
+        pendingCount: keptChunks.filter((c) => c.status === 'pending').length + newPendingCount,
+        newPendingCount,
         avgQualityScore,
+        sparseIndexedCount,
       };
     });
 
@@ -508,18 +773,38 @@ onFailure: async ({ event, error }) => {
       message: '품질 검사 및 저장 완료',
       details: {
         totalChunks: saveChunksResult.totalChunks,
+        newChunks: saveChunksResult.newChunks,
+        reusedChunks: saveChunksResult.reusedChunks,
+        removedChunks: saveChunksResult.removedChunks,
+        retainedChunks: saveChunksResult.retainedChunks,
         autoApproved: saveChunksResult.autoApprovedCount,
-        pendingReview: saveChunksResult.totalChunks - saveChunksResult.autoApprovedCount,
+        pendingReview: saveChunksResult.pendingCount,
         avgQualityScore: Math.round(saveChunksResult.avgQualityScore * 10) / 10,
       },
       durationMs: Date.now() - saveChunksStartTime,
     });
 
     // Step 6: 문서 상태 업데이트
-    const pendingChunks = chunkResults.filter((c) => c.qualityScore < 85);
-    const finalStatus = pendingChunks.length > 0 ? 'reviewing' : 'approved';
+    const finalStatus = saveChunksResult.pendingCount > 0 ? 'reviewing' : 'approved';
 
     await step.run('update-status', async () => {
+      // 버전 청크 구성 (복원 시 재처리 없이 이 구성으로 전환)
+      const activeChunks = await db
+        .select({ id: chunks.id })
+        .from(chunks)
+        .where(and(eq(chunks.documentId, documentId), isCurrentVersionChunk()))
+        .orderBy(asc(chunks.chunkIndex));
+
+      await updateDocumentVersion(documentId, version, {
+        chunkStats: {
+          total: saveChunksResult.totalChunks,
+          new: saveChunksResult.newChunks,
+          reused: saveChunksResult.reusedChunks,
+          removed: saveChunksResult.removedChunks,
+        },
+        chunkIds: activeChunks.map((chunk) => chunk.id),
+      });
+
       await db
         .update(documents)
         .set({
@@ -541,8 +826,9 @@ onFailure: async ({ event, error }) => {
       message: `문서 처리 완료 (${finalStatus === 'approved' ? '자동 승인' : '검토 필요'})`,
       details: {
         finalStatus,
+        version,
         totalChunks: chunkResults.length,
-        pendingReview: pendingChunks.length,
+        pendingReview: saveChunksResult.pendingCount,
         totalDurationMs,
       },
       durationMs: totalDurationMs,
@@ -555,6 +841,14 @@ onFailure: async ({ event, error }) => {
       });
     }
 
+    // Step 7.2: 연결된 챗봇들의 응답 캐시 무효화 (이전 문서 내용 기반 답변 제거)
+    if (datasetId) {
+      await step.run('invalidate-response-cache', async () => {
+        const deletedCount = await invalidateCacheForDatasets([datasetId], 'document_processed');
+        return { deletedCount };
+      });
+    }
+
     // Step 7.5: 연결된 챗봇들의 RAG 인덱스 재생성 트리거
     if (datasetId) {
       await step.run('trigger-rag-regeneration', async () => {
@@ -596,8 +890,8 @@ onFailure: async ({ event, error }) => {
       });
     }
 
-    // Step 8: 관리자 알림 (검토 필요 시)
-    const pendingCount = chunkResults.filter((c) => c.qualityScore < 85).length;
+    // Step 8: 관리자 알림 (새로 검토가 필요한 청크가 있을 때)
+    const pendingCount = saveChunksResult.newPendingCount;
     if (pendingCount > 0) {
       await step.sendEvent('notify-admin', {
         name: 'notification/send',
@@ -614,8 +908,9 @@ onFailure: async ({ event, error }) => {
       success: true,
       documentId,
       chunkCount: chunkResults.length,
-      autoApproved: chunkResults.filter((c) => c.qualityScore >= 85).length,
-      pendingReview: pendingCount,
+      reusedChunks: saveChunksResult.reusedChunks,
+      autoApproved: saveChunksResult.autoApprovedCount,
+      pendingReview: saveChunksResult.pendingCount,
     };
   }
 );
@@ -657,7 +952,7 @@ async function updateDatasetStats(datasetId: string) {
       count: sql<number>`count(*)::int`,
     })
     .from(chunks)
-    .where(eq(chunks.datasetId, datasetId));
+    .where(and(eq(chunks.datasetId, datasetId), isCurrentVersionChunk()));
 
   // 데이터셋 통계 업데이트
   await db
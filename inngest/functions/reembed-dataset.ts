@@ -0,0 +1,118 @@
+/**
+ * 데이터셋 재임베딩 파이프라인
+ *
+ * 데이터셋 청크를 새 임베딩 모델로 다시 임베딩합니다.
+ * 검색은 작업 내내 기존 벡터를 사용하고, 모두 채워지면 한 번에 교체합니다 (lib/rag/embedding-migration.ts).
+ *
+ * 처리 흐름:
+ * 1. 작업 시작 (이전 shadow 벡터 정리, 대상 청크 집계)
+ * 2. shadow 벡터 배치 생성 (배치마다 step, 진행률 갱신)
+ * 3. embedding ← shadow 교체 + 데이터셋 모델 변경
+ * 4. 교체 직전에 추가된 청크 따라잡기, 캐시 무효화
+ */
+
+import { inngestClient } from '../client';
+import {
+  beginEmbeddingMigration,
+  fillShadowEmbeddingBatch,
+  swapShadowEmbeddings,
+  reembedStaleChunks,
+  finishEmbeddingMigration,
+} from '@/lib/rag/embedding-migration';
+import { invalidateCacheForDatasets } from '@/lib/chat/cache';
+import { logger } from '@/lib/logger';
+
+export const reembedDatasetFunction = inngestClient.createFunction(
+  {
+    id: 'reembed-dataset',
+    retries: 3,
+    onFailure: async ({ event, error }) => {
+      // onFailure 이벤트에서 원본 이벤트 데이터는 event.data.event.data에 있음
+      const failureEvent = event as unknown as {
+        data: {
+          event: {
+            data: {
+              migrationId: string;
+              datasetId: string;
+            };
+          };
+        };
+      };
+
+      const originalData = failureEvent.data.event?.data;
+      if (!originalData?.migrationId) {
+        logger.error(
+          '[Reembed] onFailure: Missing migration data',
+          new Error(JSON.stringify(event))
+        );
+        return;
+      }
+
+      logger.error('[Reembed] Re-embedding failed after retries', error, {
+        migrationId: originalData.migrationId,
+        datasetId: originalData.datasetId,
+      });
+
+      // 기존 벡터는 그대로이므로 검색에는 영향 없음 (shadow는 다음 시작 시 정리)
+      await finishEmbeddingMigration(originalData.migrationId, {
+        status: 'failed',
+        error: error.message,
+      });
+    },
+  },
+  { event: 'dataset/reembed.requested' },
+  async ({ event, step }) => {
+    const { migrationId, datasetId, tenantId, toModel } = event.data;
+
+    // Step 1: 작업 시작
+    const totalChunks = await step.run('begin-migration', async () => {
+      return beginEmbeddingMigration(migrationId, datasetId);
+    });
+
+    logger.info('[Reembed] Starting re-embedding', {
+      migrationId,
+      datasetId,
+      toModel,
+      totalChunks,
+    });
+
+    // Step 2: shadow 벡터 배치 생성 (처리 중 추가된 청크도 채워질 때까지 반복)
+    let batchIndex = 0;
+    let processed = 0;
+    while (true) {
+      const filled = await step.run(`fill-shadow-${batchIndex}`, async () => {
+        return fillShadowEmbeddingBatch({ migrationId, tenantId, datasetId, toModel });
+      });
+      if (filled === 0) break;
+
+      processed += filled;
+      batchIndex++;
+    }
+
+    // Step 3: 교체
+    const swappedCount = await step.run('swap-embeddings', async () => {
+      return swapShadowEmbeddings(datasetId, toModel);
+    });
+
+    // Step 4: 따라잡기 + 마무리
+    const staleCount = await step.run('reembed-stale-chunks', async () => {
+      return reembedStaleChunks({ tenantId, datasetId, toModel });
+    });
+
+    await step.run('finish-migration', async () => {
+      await finishEmbeddingMigration(migrationId, { status: 'completed' });
+      await invalidateCacheForDatasets([datasetId], 'embedding_model_changed');
+    });
+
+    logger.info('[Reembed] Re-embedding completed', {
+      migrationId,
+      datasetId,
+      toModel,
+      processed,
+      swappedCount,
+      staleCount,
+    });
+
+    return { success: true, migrationId, swappedCount, staleCount };
+  }
+);
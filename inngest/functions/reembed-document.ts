@@ -0,0 +1,40 @@
+/**
+ * 문서 청크 재임베딩
+ *
+ * 임베딩 모델이 다른 데이터셋으로 이동·복제된 문서는 벡터가 비워진 채 저장됩니다.
+ * 대상 데이터셋 모델로 다시 임베딩하고 연결된 챗봇 캐시를 무효화합니다.
+ */
+
+import { inngestClient } from '../client';
+import { reembedMissingDocumentChunks } from '@/lib/rag/embedding-migration';
+import { invalidateCacheForDatasets } from '@/lib/chat/cache';
+import { logger } from '@/lib/logger';
+
+export const reembedDocumentFunction = inngestClient.createFunction(
+  {
+    id: 'reembed-document',
+    retries: 3,
+  },
+  { event: 'document/reembed.requested' },
+  async ({ event, step }) => {
+    const { documentId, datasetId, tenantId } = event.data;
+
+    const reembeddedCount = await step.run('reembed-chunks', async () => {
+      return reembedMissingDocumentChunks({ tenantId, documentId, datasetId });
+    });
+
+    if (reembeddedCount > 0) {
+      await step.run('invalidate-cache', async () => {
+        await invalidateCacheForDatasets([datasetId], 'document_reembedded');
+      });
+    }
+
+    logger.info('[Reembed] Document chunks re-embedded', {
+      documentId,
+      datasetId,
+      reembeddedCount,
+    });
+
+    return { success: true, documentId, reembeddedCount };
+  }
+);
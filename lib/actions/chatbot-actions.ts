@@ -10,6 +10,7 @@
 import { revalidatePath } from 'next/cache';
 import { validateSession } from '@/lib/auth/session';
 import { db, chatbots, chatbotDatasets, datasets } from '@/lib/db';
+import { getDefaultDatasetEmbedding } from '@/lib/rag/embedding';
 
 /**
  * 챗봇 생성
@@ -55,6 +56,7 @@ export async function createChatbot(data: {
         name: datasetName,
         description: `${data.name} 챗봇의 기본 데이터셋`,
         isDefault: true,
+        ...getDefaultDatasetEmbedding(),
       })
       .returning();
 
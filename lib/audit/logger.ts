@@ -51,6 +51,7 @@ export const AuditAction = {
 
   // 대화 관련
   CONVERSATION_VIEW: 'conversation_view',
+  CONVERSATION_EXPORT: 'conversation_export',
   CONVERSATION_DELETE: 'conversation_delete',
 
   // 설정 관련
@@ -263,22 +264,30 @@ export async function logLoginFailure(
 /**
  * 개인정보 접근 기록 (헬퍼)
  * 개인정보 접근 기록은 2년 보관 필요
+ *
+ * 대상은 기본적으로 사용자이며, 대화 기록처럼 개인정보가 포함된
+ * 다른 리소스는 options.targetType으로 지정한다.
  */
 export function logPersonalDataAccess(
   request: Request,
   userId: string,
   tenantId: string,
   action: AuditActionType,
-  targetUserId: string
+  targetId: string,
+  options: {
+    targetType?: TargetTypeValue;
+    details?: Record<string, unknown>;
+  } = {}
 ): Promise<void> {
   return createAuditLogFromRequest(request, {
     userId,
     tenantId,
     action,
-    targetType: TargetType.USER,
-    targetId: targetUserId,
+    targetType: options.targetType ?? TargetType.USER,
+    targetId,
     result: 'success',
     details: {
+      ...options.details,
       isPersonalDataAccess: true, // 2년 보관 플래그
     },
   });
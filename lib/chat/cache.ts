@@ -1,11 +1,18 @@
 /**
  * 응답 캐싱 로직
  * 유사한 질문에 대한 캐시된 응답 반환
+ *
+ * 캐시는 챗봇 + 콘텐츠 리비전 단위로 분리된다.
+ * 리비전은 chatbots.contentUpdatedAt에서 파생되며, 문서/청크/데이터셋/블로그 변경 시
+ * invalidateChatbotCache 계열 함수가 리비전을 올리고 기존 캐시를 삭제한다.
+ * 챗봇 설정(LLM/검색/페르소나) 변경은 콘텐츠 변경이 아니므로 캐시만 삭제한다
+ * (contentUpdatedAt은 페르소나 재생성 필요 여부 판단에도 사용).
  */
 
-import { db, responseCache } from '@/lib/db';
-import { eq, and, gt, sql } from 'drizzle-orm';
-import { embedText, cosineSimilarity } from '@/lib/rag/embedding';
+import { db, responseCache, responseTimeLogs, chatbots, chatbotDatasets, documents } from '@/lib/db';
+import { eq, and, gt, gte, lte, sql, inArray, isNull } from 'drizzle-orm';
+import { embedText, cosineSimilarity, getDefaultEmbeddingModelId } from '@/lib/rag/embedding';
+import { getEmbeddingModel, queryVectorFor, vectorColumnFor } from '@/lib/rag/embedding-models';
 import { createHash } from 'crypto';
 import { logger } from '@/lib/logger';
 
@@ -24,12 +31,44 @@ export interface CacheResult {
   cacheId?: string;
 }
 
+/**
+ * 캐시 범위 (챗봇 + 콘텐츠 리비전)
+ */
+export interface CacheScope {
+  /** 챗봇 ID (챗봇이 없는 테넌트 기본 응답은 null) */
+  chatbotId: string | null;
+  /** 콘텐츠 리비전 (toContentRevision 결과) */
+  contentRevision: string;
+}
+
+/**
+ * chatbots.contentUpdatedAt → 캐시 콘텐츠 리비전
+ * 콘텐츠 변경 이력이 없으면 '0'
+ */
+export function toContentRevision(contentUpdatedAt: Date | string | null | undefined): string {
+  if (!contentUpdatedAt) return '0';
+  const time = new Date(contentUpdatedAt).getTime();
+  return Number.isNaN(time) ? '0' : String(time);
+}
+
+/**
+ * 챗봇 범위 조건 (chatbotId null 비교 포함)
+ */
+function scopeConditions(tenantId: string, scope: CacheScope) {
+  return [
+    eq(responseCache.tenantId, tenantId),
+    scope.chatbotId ? eq(responseCache.chatbotId, scope.chatbotId) : isNull(responseCache.chatbotId),
+    eq(responseCache.contentRevision, scope.contentRevision),
+  ];
+}
+
 /**
  * 캐시에서 유사한 응답 검색
  */
 export async function findCachedResponse(
   tenantId: string,
-  query: string
+  query: string,
+  scope: CacheScope
 ): Promise<CacheResult> {
   try {
     // 쿼리 해시 계산
@@ -41,7 +80,7 @@ export async function findCachedResponse(
       .from(responseCache)
       .where(
         and(
-          eq(responseCache.tenantId, tenantId),
+          ...scopeConditions(tenantId, scope),
           eq(responseCache.queryHash, queryHash),
           gt(responseCache.expiresAt, new Date())
         )
@@ -54,6 +93,7 @@ export async function findCachedResponse(
 
       logger.info('Cache hit (exact match)', {
         tenantId,
+        chatbotId: scope.chatbotId,
         cacheId: exactMatch[0].id,
       });
 
@@ -70,8 +110,10 @@ export async function findCachedResponse(
       return { hit: false };
     }
 
-    const queryEmbedding = await embedText(query);
-    const embeddingStr = `[${queryEmbedding.join(',')}]`;
+    const model = getEmbeddingModel(getDefaultEmbeddingModelId());
+    const queryEmbedding = await embedText(query, undefined, model.id);
+    const embeddingColumn = vectorColumnFor(sql`query_embedding`, model);
+    const queryVector = queryVectorFor(queryEmbedding, model);
 
     // 유효한 캐시 중 가장 유사한 것 검색
     const similarResults = await db.execute<{
@@ -82,9 +124,12 @@ export async function findCachedResponse(
       SELECT id, response, query_embedding
       FROM response_cache
       WHERE tenant_id = ${tenantId}
+        AND chatbot_id IS NOT DISTINCT FROM ${scope.chatbotId}
+        AND content_revision = ${scope.contentRevision}
         AND expires_at > NOW()
         AND query_embedding IS NOT NULL
-      ORDER BY query_embedding <=> ${embeddingStr}::vector
+        AND query_embedding_model = ${model.id}
+      ORDER BY ${embeddingColumn} <=> ${queryVector}
       LIMIT 5
     `);
 
@@ -129,30 +174,39 @@ export async function findCachedResponse(
 export async function cacheResponse(
   tenantId: string,
   query: string,
-  response: string
+  response: string,
+  scope: CacheScope
 ): Promise<void> {
   try {
     const queryHash = hashQuery(query);
     const expiresAt = new Date(Date.now() + CACHE_TTL_HOURS * 60 * 60 * 1000);
 
     // 유사도 검색 비활성화 시 임베딩 생성 스킵
-    const queryEmbedding = ENABLE_SIMILARITY_SEARCH ? await embedText(query) : null;
+    const queryEmbeddingModel = getDefaultEmbeddingModelId();
+    const queryEmbedding = ENABLE_SIMILARITY_SEARCH
+      ? await embedText(query, undefined, queryEmbeddingModel)
+      : null;
 
     await db
       .insert(responseCache)
       .values({
         tenantId,
+        chatbotId: scope.chatbotId,
+        contentRevision: scope.contentRevision,
         queryHash,
         queryEmbedding,
+        queryEmbeddingModel,
         response,
         hitCount: 0,
         expiresAt,
       })
       .onConflictDoUpdate({
-        target: [responseCache.tenantId, responseCache.queryHash],
+        target: [responseCache.tenantId, responseCache.chatbotId, responseCache.queryHash],
         set: {
+          contentRevision: scope.contentRevision,
           response,
           queryEmbedding,
+          queryEmbeddingModel,
           hitCount: 0,
           expiresAt,
         },
@@ -160,6 +214,8 @@ export async function cacheResponse(
 
     logger.info('Response cached', {
       tenantId,
+      chatbotId: scope.chatbotId,
+      contentRevision: scope.contentRevision,
       queryHash,
       expiresAt: expiresAt.toISOString(),
     });
@@ -227,3 +283,180 @@ export async function invalidateTenantCache(tenantId: string): Promise<number> {
 
   return deletedCount;
 }
+
+/**
+ * 챗봇 캐시 무효화
+ *
+ * contentUpdatedAt을 갱신해 리비전을 올리고 기존 캐시를 삭제한다.
+ * 리비전을 함께 올리므로 무효화 직전에 생성 중이던 응답이 이전 리비전으로 저장되어도 조회되지 않는다.
+ * 무효화 실패가 원래 작업(문서 처리, 발행 등)을 막지 않도록 오류는 로깅만 한다.
+ *
+ * @param options.contentChanged - false면 리비전(contentUpdatedAt)은 두고 캐시만 삭제 (챗봇 설정 변경)
+ */
+export async function invalidateChatbotCache(
+  chatbotIds: string[],
+  reason: string,
+  options: { contentChanged?: boolean } = {}
+): Promise<number> {
+  const uniqueIds = [...new Set(chatbotIds)];
+  if (uniqueIds.length === 0) return 0;
+  const { contentChanged = true } = options;
+
+  try {
+    if (contentChanged) {
+      await db
+        .update(chatbots)
+        .set({ contentUpdatedAt: new Date() })
+        .where(inArray(chatbots.id, uniqueIds));
+    }
+
+    const result = await db
+      .delete(responseCache)
+      .where(inArray(responseCache.chatbotId, uniqueIds));
+
+    const deletedCount = result.count ?? 0;
+
+    logger.info('Chatbot cache invalidated', {
+      chatbotIds: uniqueIds,
+      reason,
+      contentChanged,
+      deletedCount,
+    });
+
+    return deletedCount;
+  } catch (error) {
+    logger.error('Failed to invalidate chatbot cache', error as Error, {
+      chatbotIds: uniqueIds,
+      reason,
+    });
+    return 0;
+  }
+}
+
+/**
+ * 데이터셋에 연결된 모든 챗봇의 캐시 무효화
+ */
+export async function invalidateCacheForDatasets(
+  datasetIds: string[],
+  reason: string
+): Promise<number> {
+  const uniqueIds = [...new Set(datasetIds)];
+  if (uniqueIds.length === 0) return 0;
+
+  try {
+    const links = await db
+      .selectDistinct({ chatbotId: chatbotDatasets.chatbotId })
+      .from(chatbotDatasets)
+      .where(inArray(chatbotDatasets.datasetId, uniqueIds));
+
+    return invalidateChatbotCache(
+      links.map((link) => link.chatbotId),
+      reason
+    );
+  } catch (error) {
+    logger.error('Failed to resolve chatbots for cache invalidation', error as Error, {
+      datasetIds: uniqueIds,
+      reason,
+    });
+    return 0;
+  }
+}
+
+/**
+ * 문서가 속한 데이터셋에 연결된 모든 챗봇의 캐시 무효화
+ */
+export async function invalidateCacheForDocuments(
+  documentIds: string[],
+  reason: string
+): Promise<number> {
+  const uniqueIds = [...new Set(documentIds)];
+  if (uniqueIds.length === 0) return 0;
+
+  try {
+    const rows = await db
+      .selectDistinct({ datasetId: documents.datasetId })
+      .from(documents)
+      .where(inArray(documents.id, uniqueIds));
+
+    return invalidateCacheForDatasets(
+      rows.map((row) => row.datasetId).filter((id): id is string => !!id),
+      reason
+    );
+  } catch (error) {
+    logger.error('Failed to resolve datasets for cache invalidation', error as Error, {
+      documentIds: uniqueIds,
+      reason,
+    });
+    return 0;
+  }
+}
+
+/**
+ * 챗봇 캐시 통계
+ */
+export interface ChatbotCacheStats {
+  /** 전체 응답 요청 수 (response_time_logs 기준) */
+  requestCount: number;
+  /** 캐시 히트 수 */
+  hitCount: number;
+  /** 캐시 히트율 (0-1), 요청이 없으면 null */
+  hitRate: number | null;
+  /** 현재 리비전의 유효한 캐시 항목 수 */
+  activeEntries: number;
+}
+
+/**
+ * 챗봇별 캐시 히트율 조회
+ * 요청/히트 수는 response_time_logs, 항목 수는 response_cache 기준
+ */
+export async function getChatbotCacheStats(
+  tenantId: string,
+  chatbotId: string,
+  dateRange?: { from: Date; to: Date }
+): Promise<ChatbotCacheStats> {
+  const logConditions = [
+    eq(responseTimeLogs.tenantId, tenantId),
+    eq(responseTimeLogs.chatbotId, chatbotId),
+  ];
+  if (dateRange) {
+    logConditions.push(gte(responseTimeLogs.createdAt, dateRange.from));
+    logConditions.push(lte(responseTimeLogs.createdAt, dateRange.to));
+  }
+
+  const [[requestStats], [chatbot]] = await Promise.all([
+    db
+      .select({
+        requestCount: sql<number>`COUNT(*)::int`,
+        hitCount: sql<number>`COUNT(*) FILTER (WHERE ${responseTimeLogs.cacheHit} = true)::int`,
+      })
+      .from(responseTimeLogs)
+      .where(and(...logConditions)),
+    db
+      .select({ contentUpdatedAt: chatbots.contentUpdatedAt })
+      .from(chatbots)
+      .where(and(eq(chatbots.id, chatbotId), eq(chatbots.tenantId, tenantId))),
+  ]);
+
+  const [entryStats] = await db
+    .select({ activeEntries: sql<number>`COUNT(*)::int` })
+    .from(responseCache)
+    .where(
+      and(
+        ...scopeConditions(tenantId, {
+          chatbotId,
+          contentRevision: toContentRevision(chatbot?.contentUpdatedAt),
+        }),
+        gt(responseCache.expiresAt, new Date())
+      )
+    );
+
+  const requestCount = Number(requestStats?.requestCount ?? 0);
+  const hitCount = Number(requestStats?.hitCount ?? 0);
+
+  return {
+    requestCount,
+    hitCount,
+    hitRate: requestCount > 0 ? hitCount / requestCount : null,
+    activeEntries: Number(entryStats?.activeEntries ?? 0),
+  };
+}
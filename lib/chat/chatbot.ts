@@ -7,6 +7,12 @@ import { db } from '@/lib/db';
 import { chatbots, chatbotDatasets } from '@/drizzle/schema';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '@/lib/logger';
+import { normalizeHandoffConfig } from '@/lib/handoff/rules';
+import type { HandoffConfig } from '@/lib/handoff/types';
+import type { MetadataFilter } from '@/lib/rag/metadata-filter';
+import type { ParentExpansionConfig } from '@/lib/rag/parent-window';
+import type { GroundednessGuardConfig } from '@/lib/rag/groundedness';
+import type { QueryExpansionConfig } from '@/lib/rag/query-expansion';
 
 export interface ChatbotInfo {
   id: string;
@@ -16,10 +22,31 @@ export interface ChatbotInfo {
     temperature?: number;
     maxTokens?: number;
     systemPrompt?: string | null;
+    /** 메인 모델 (`provider:modelId`) */
+    model?: string | null;
+    /** 폴백 모델 목록 (`provider:modelId`, 순서대로 시도) */
+    fallbackModels?: string[];
+    /** 출처 표기 모드 (답변에 각주 번호 표시) */
+    inlineCitations?: boolean;
+    /** 후속 질문 제안 (DOMAIN_QUERY 답변 후 2~3개) */
+    followUpSuggestions?: boolean;
+    /** 답변 근거 검증 (숫자/연락처/날짜가 검색 청크에 있는지 확인 후 재생성 또는 대체) */
+    groundednessGuard?: GroundednessGuardConfig | null;
   };
   searchConfig: {
     maxChunks?: number;
     minScore?: number;
+    /** 기본 검색 메타데이터 필터 (모든 질문에 적용) */
+    defaultFilters?: MetadataFilter | null;
+    /** 검색 소스 가중치 (문서 청크 vs Knowledge Page, 기본 1) */
+    sourceWeights?: {
+      chunks?: number;
+      knowledgePages?: number;
+    };
+    /** Parent-Child 확장 (매칭 청크 대신 섹션/앞뒤 청크를 응답 생성에 전달) */
+    parentExpansion?: ParentExpansionConfig | null;
+    /** 검색 쿼리 확장 (Multi-Query RRF 또는 HyDE) */
+    queryExpansion?: QueryExpansionConfig | null;
   };
   personaConfig: {
     name?: string;
@@ -29,6 +56,10 @@ export interface ChatbotInfo {
     excludedTopics?: string[];
     tone?: 'professional' | 'friendly' | 'casual';
   };
+  /** 상담원 연결 규칙 (기본값 적용됨) */
+  handoffConfig: HandoffConfig;
+  /** 콘텐츠 변경 시점 (응답 캐시 리비전) */
+  contentUpdatedAt: Date | null;
 }
 
 /**
@@ -48,6 +79,27 @@ export async function getChatbotDatasetIds(chatbotId: string): Promise<string[]>
   }
 }
 
+/**
+ * 챗봇의 연결된 데이터셋별 검색 가중치 조회
+ *
+ * @returns 데이터셋 ID → 가중치 (chatbot_datasets.weight, 미설정 시 1)
+ */
+export async function getChatbotDatasetWeights(
+  chatbotId: string
+): Promise<Record<string, number>> {
+  try {
+    const links = await db
+      .select({ datasetId: chatbotDatasets.datasetId, weight: chatbotDatasets.weight })
+      .from(chatbotDatasets)
+      .where(eq(chatbotDatasets.chatbotId, chatbotId));
+
+    return Object.fromEntries(links.map((link) => [link.datasetId, link.weight ?? 1]));
+  } catch (error) {
+    logger.error('Failed to get chatbot dataset weights', error as Error, { chatbotId });
+    return {};
+  }
+}
+
 /**
  * 테넌트의 기본 챗봇 조회
  */
@@ -61,6 +113,8 @@ export async function getDefaultChatbot(tenantId: string): Promise<ChatbotInfo |
         llmConfig: chatbots.llmConfig,
         searchConfig: chatbots.searchConfig,
         personaConfig: chatbots.personaConfig,
+        handoffConfig: chatbots.handoffConfig,
+        contentUpdatedAt: chatbots.contentUpdatedAt,
       })
       .from(chatbots)
       .where(and(eq(chatbots.tenantId, tenantId), eq(chatbots.isDefault, true)));
@@ -76,6 +130,8 @@ export async function getDefaultChatbot(tenantId: string): Promise<ChatbotInfo |
       llmConfig: (chatbot.llmConfig as ChatbotInfo['llmConfig']) || {},
       searchConfig: (chatbot.searchConfig as ChatbotInfo['searchConfig']) || {},
       personaConfig: (chatbot.personaConfig as ChatbotInfo['personaConfig']) || {},
+      handoffConfig: normalizeHandoffConfig(chatbot.handoffConfig),
+      contentUpdatedAt: chatbot.contentUpdatedAt,
     };
   } catch (error) {
     logger.error('Failed to get default chatbot', error as Error, { tenantId });
@@ -96,6 +152,8 @@ export async function getChatbot(chatbotId: string, tenantId: string): Promise<C
         llmConfig: chatbots.llmConfig,
         searchConfig: chatbots.searchConfig,
         personaConfig: chatbots.personaConfig,
+        handoffConfig: chatbots.handoffConfig,
+        contentUpdatedAt: chatbots.contentUpdatedAt,
       })
       .from(chatbots)
       .where(and(eq(chatbots.id, chatbotId), eq(chatbots.tenantId, tenantId)));
@@ -111,6 +169,8 @@ export async function getChatbot(chatbotId: string, tenantId: string): Promise<C
       llmConfig: (chatbot.llmConfig as ChatbotInfo['llmConfig']) || {},
       searchConfig: (chatbot.searchConfig as ChatbotInfo['searchConfig']) || {},
       personaConfig: (chatbot.personaConfig as ChatbotInfo['personaConfig']) || {},
+      handoffConfig: normalizeHandoffConfig(chatbot.handoffConfig),
+      contentUpdatedAt: chatbot.contentUpdatedAt,
     };
   } catch (error) {
     logger.error('Failed to get chatbot', error as Error, { chatbotId, tenantId });
@@ -131,6 +191,8 @@ export async function getChatbotByWidgetApiKey(apiKey: string): Promise<ChatbotI
         llmConfig: chatbots.llmConfig,
         searchConfig: chatbots.searchConfig,
         personaConfig: chatbots.personaConfig,
+        handoffConfig: chatbots.handoffConfig,
+        contentUpdatedAt: chatbots.contentUpdatedAt,
       })
       .from(chatbots)
       .where(and(eq(chatbots.widgetApiKey, apiKey), eq(chatbots.widgetEnabled, true)));
@@ -146,6 +208,8 @@ export async function getChatbotByWidgetApiKey(apiKey: string): Promise<ChatbotI
       llmConfig: (chatbot.llmConfig as ChatbotInfo['llmConfig']) || {},
       searchConfig: (chatbot.searchConfig as ChatbotInfo['searchConfig']) || {},
       personaConfig: (chatbot.personaConfig as ChatbotInfo['personaConfig']) || {},
+      handoffConfig: normalizeHandoffConfig(chatbot.handoffConfig),
+      contentUpdatedAt: chatbot.contentUpdatedAt,
     };
   } catch (error) {
     logger.error('Failed to get chatbot by widget API key', error as Error);
@@ -166,6 +230,8 @@ export async function getChatbotByKakaoBotId(kakaoBotId: string): Promise<Chatbo
         llmConfig: chatbots.llmConfig,
         searchConfig: chatbots.searchConfig,
         personaConfig: chatbots.personaConfig,
+        handoffConfig: chatbots.handoffConfig,
+        contentUpdatedAt: chatbots.contentUpdatedAt,
       })
       .from(chatbots)
       .where(and(eq(chatbots.kakaoBotId, kakaoBotId), eq(chatbots.kakaoEnabled, true)));
@@ -181,6 +247,8 @@ export async function getChatbotByKakaoBotId(kakaoBotId: string): Promise<Chatbo
       llmConfig: (chatbot.llmConfig as ChatbotInfo['llmConfig']) || {},
       searchConfig: (chatbot.searchConfig as ChatbotInfo['searchConfig']) || {},
       personaConfig: (chatbot.personaConfig as ChatbotInfo['personaConfig']) || {},
+      handoffConfig: normalizeHandoffConfig(chatbot.handoffConfig),
+      contentUpdatedAt: chatbot.contentUpdatedAt,
     };
   } catch (error) {
     logger.error('Failed to get chatbot by Kakao bot ID', error as Error, { kakaoBotId });
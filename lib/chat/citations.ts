@@ -0,0 +1,91 @@
+/**
+ * 답변 각주 생성
+ * 출처 마커를 검색 결과와 연결하고, 청크 출처에는 문서 파일명을 제목으로 붙인다.
+ * Knowledge Page 출처에는 챗봇 공개 페이지 하위의 페이지 URL을 붙인다.
+ */
+
+import { db, documents, knowledgePages, chatbots } from '@/lib/db';
+import { and, eq, inArray, isNotNull } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import {
+  extractCitations,
+  getKnowledgePagePublicPath,
+  type ExtractCitationsResult,
+} from '@/lib/rag/citations';
+import type { SearchResult } from '@/lib/rag/retrieval';
+
+/**
+ * 답변의 출처 마커 → 각주
+ * 파일명 조회에 실패해도 각주는 기본 제목("출처 N")으로 생성한다.
+ */
+export async function resolveCitations(
+  text: string,
+  searchResults: SearchResult[]
+): Promise<ExtractCitationsResult> {
+  const documentIds = [
+    ...new Set(searchResults.filter((r) => !r.pageId).map((r) => r.documentId)),
+  ];
+  const documentTitles = new Map<string, string>();
+
+  if (documentIds.length > 0) {
+    try {
+      const rows = await db
+        .select({ id: documents.id, filename: documents.filename })
+        .from(documents)
+        .where(inArray(documents.id, documentIds));
+      for (const row of rows) {
+        documentTitles.set(row.id, row.filename);
+      }
+    } catch (error) {
+      logger.warn('Failed to load document titles for citations', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const result = extractCitations(text, searchResults, documentTitles);
+  const pageUrls = await loadKnowledgePageUrls(
+    result.citations.flatMap((citation) => (citation.pageId ? [citation.pageId] : []))
+  );
+
+  return {
+    ...result,
+    citations: result.citations.map((citation) => {
+      const url = citation.pageId ? pageUrls.get(citation.pageId) : undefined;
+      return url ? { ...citation, url } : citation;
+    }),
+  };
+}
+
+/**
+ * 발행된 Knowledge Page ID → 공개 URL
+ * 공개 페이지가 꺼진 챗봇의 페이지는 링크하지 않는다.
+ */
+async function loadKnowledgePageUrls(pageIds: string[]): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  if (pageIds.length === 0) return urls;
+
+  try {
+    const rows = await db
+      .select({ id: knowledgePages.id, slug: chatbots.slug })
+      .from(knowledgePages)
+      .innerJoin(chatbots, eq(knowledgePages.chatbotId, chatbots.id))
+      .where(
+        and(
+          inArray(knowledgePages.id, [...new Set(pageIds)]),
+          eq(knowledgePages.status, 'published'),
+          eq(chatbots.publicPageEnabled, true),
+          isNotNull(chatbots.slug)
+        )
+      );
+    for (const row of rows) {
+      if (row.slug) urls.set(row.id, getKnowledgePagePublicPath(row.slug, row.id));
+    }
+  } catch (error) {
+    logger.warn('Failed to load knowledge page urls for citations', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return urls;
+}
@@ -1,40 +1,70 @@
 /**
  * 대화 관리 서비스
- * 세션 기반 대화 컨텍스트 관리
+ * 세션 + 챗봇 기반 대화 컨텍스트 관리
  */
 
-import { db, conversations, usageLogs } from '@/lib/db';
-import { eq, and, sql } from 'drizzle-orm';
+import { db, conversations } from '@/lib/db';
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@/lib/logger';
+import type { HandoffStatus } from '@/lib/handoff/types';
+import { parseConversationMemory } from './memory';
 import type { ChatMessage, ConversationContext } from './types';
 
+/**
+ * 세션 + 챗봇 조건
+ * 같은 세션 ID로 여러 챗봇과 대화할 수 있으므로 챗봇까지 일치해야 같은 대화로 본다.
+ * (chatbotId가 null이면 챗봇 없는 테넌트 기본 대화)
+ */
+export function sessionConditions(tenantId: string, sessionId: string, chatbotId: string | null) {
+  return and(
+    eq(conversations.tenantId, tenantId),
+    eq(conversations.sessionId, sessionId),
+    chatbotId ? eq(conversations.chatbotId, chatbotId) : isNull(conversations.chatbotId)
+  );
+}
+
 /**
  * 대화 세션 조회 또는 생성
+ *
+ * 챗봇별로 대화를 분리한다. 챗봇 연결 이전에 만들어진 대화(chatbotId 없음)가
+ * 같은 세션에 남아 있으면 해당 챗봇 대화로 이어받아 히스토리를 유지한다.
  */
 export async function getOrCreateConversation(
   tenantId: string,
   sessionId: string | undefined,
-  channel: 'web' | 'kakao' | 'public_page' = 'web'
+  channel: 'web' | 'kakao' | 'public_page' = 'web',
+  chatbotId: string | null = null
 ): Promise<ConversationContext> {
   // 세션 ID가 없으면 새로 생성
   const sid = sessionId || uuidv4();
 
   // 기존 대화 조회
-  const existing = await db
+  let [existing] = await db
     .select()
     .from(conversations)
-    .where(and(eq(conversations.tenantId, tenantId), eq(conversations.sessionId, sid)))
+    .where(sessionConditions(tenantId, sid, chatbotId))
     .limit(1);
 
-  if (existing.length > 0) {
-    const conv = existing[0];
+  // 챗봇 연결 이전 대화 이어받기
+  if (!existing && chatbotId && sessionId) {
+    [existing] = await db
+      .update(conversations)
+      .set({ chatbotId, updatedAt: new Date() })
+      .where(sessionConditions(tenantId, sid, null))
+      .returning();
+  }
+
+  if (existing) {
     return {
-      id: conv.id, // UUID 반환
+      id: existing.id, // UUID 반환
       tenantId,
       sessionId: sid,
-      channel: conv.channel as 'web' | 'kakao' | 'public_page',
-      messages: (conv.messages as ChatMessage[]) || [],
+      channel: existing.channel as 'web' | 'kakao' | 'public_page',
+      chatbotId: existing.chatbotId ?? undefined,
+      messages: (existing.messages as ChatMessage[]) || [],
+      handoffStatus: existing.handoffStatus as HandoffStatus | null,
+      memory: parseConversationMemory(existing.metadata),
     };
   }
 
@@ -43,6 +73,7 @@ export async function getOrCreateConversation(
     .insert(conversations)
     .values({
       tenantId,
+      chatbotId,
       sessionId: sid,
       channel,
       messages: [],
@@ -55,6 +86,7 @@ export async function getOrCreateConversation(
 
   logger.info('New conversation created', {
     tenantId,
+    chatbotId,
     sessionId: sid,
     channel,
   });
@@ -64,16 +96,19 @@ export async function getOrCreateConversation(
     tenantId,
     sessionId: sid,
     channel,
+    chatbotId: chatbotId ?? undefined,
     messages: [],
+    handoffStatus: null,
   };
 }
 
 /**
  * 대화에 메시지 추가
+ * 세션 ID는 챗봇 간에 공유될 수 있으므로 대화 ID로 지정한다.
  */
 export async function addMessageToConversation(
   tenantId: string,
-  sessionId: string,
+  conversationId: string,
   message: ChatMessage
 ): Promise<void> {
   await db
@@ -82,21 +117,30 @@ export async function addMessageToConversation(
       messages: sql`${conversations.messages} || ${JSON.stringify([message])}::jsonb`,
       updatedAt: new Date(),
     })
-    .where(and(eq(conversations.tenantId, tenantId), eq(conversations.sessionId, sessionId)));
+    .where(and(eq(conversations.tenantId, tenantId), eq(conversations.id, conversationId)));
 }
 
 /**
  * 대화 히스토리 조회
+ *
+ * @param chatbotId - 지정하면 해당 챗봇 대화만 조회 (null은 챗봇 없는 대화),
+ *                    생략하면 세션에서 가장 최근에 갱신된 대화
  */
 export async function getConversationHistory(
   tenantId: string,
   sessionId: string,
-  limit: number = 10
+  limit: number = 10,
+  chatbotId?: string | null
 ): Promise<ChatMessage[]> {
   const result = await db
     .select({ messages: conversations.messages })
     .from(conversations)
-    .where(and(eq(conversations.tenantId, tenantId), eq(conversations.sessionId, sessionId)))
+    .where(
+      chatbotId !== undefined
+        ? sessionConditions(tenantId, sessionId, chatbotId)
+        : and(eq(conversations.tenantId, tenantId), eq(conversations.sessionId, sessionId))
+    )
+    .orderBy(desc(conversations.updatedAt))
     .limit(1);
 
   if (result.length === 0) {
@@ -110,21 +154,33 @@ export async function getConversationHistory(
 
 /**
  * 대화 삭제
+ *
+ * @param chatbotId - 지정하면 해당 챗봇 대화만 삭제, 생략하면 세션의 모든 대화 삭제
  */
-export async function deleteConversation(tenantId: string, sessionId: string): Promise<boolean> {
+export async function deleteConversation(
+  tenantId: string,
+  sessionId: string,
+  chatbotId?: string | null
+): Promise<boolean> {
   const result = await db
     .delete(conversations)
-    .where(and(eq(conversations.tenantId, tenantId), eq(conversations.sessionId, sessionId)));
+    .where(
+      chatbotId !== undefined
+        ? sessionConditions(tenantId, sessionId, chatbotId)
+        : and(eq(conversations.tenantId, tenantId), eq(conversations.sessionId, sessionId))
+    );
 
   return (result.count ?? 0) > 0;
 }
 
 /**
  * 사용량 로그 업데이트
+ * 챗봇이 지정되면 챗봇별 메시지 수(chatbot_usage_logs)도 함께 누적한다.
  */
 export async function updateUsageLog(
   tenantId: string,
-  tokenUsage: number
+  tokenUsage: number,
+  chatbotId?: string | null
 ): Promise<void> {
   const today = new Date().toISOString().split('T')[0];
 
@@ -137,12 +193,26 @@ export async function updateUsageLog(
       message_count = usage_logs.message_count + 1,
       token_usage = usage_logs.token_usage + ${tokenUsage}
   `);
+
+  if (chatbotId) {
+    await db.execute(sql`
+      INSERT INTO chatbot_usage_logs (tenant_id, chatbot_id, date, message_count, token_usage)
+      VALUES (${tenantId}, ${chatbotId}, ${today}::date, 1, ${tokenUsage})
+      ON CONFLICT (chatbot_id, date)
+      DO UPDATE SET
+        message_count = chatbot_usage_logs.message_count + 1,
+        token_usage = chatbot_usage_logs.token_usage + ${tokenUsage}
+    `);
+  }
 }
 
 /**
  * 일일 대화 수 증가
  */
-export async function incrementConversationCount(tenantId: string): Promise<void> {
+export async function incrementConversationCount(
+  tenantId: string,
+  chatbotId?: string | null
+): Promise<void> {
   const today = new Date().toISOString().split('T')[0];
 
   await db.execute(sql`
@@ -152,6 +222,16 @@ export async function incrementConversationCount(tenantId: string): Promise<void
     DO UPDATE SET
       conversation_count = usage_logs.conversation_count + 1
   `);
+
+  if (chatbotId) {
+    await db.execute(sql`
+      INSERT INTO chatbot_usage_logs (tenant_id, chatbot_id, date, conversation_count)
+      VALUES (${tenantId}, ${chatbotId}, ${today}::date, 1)
+      ON CONFLICT (chatbot_id, date)
+      DO UPDATE SET
+        conversation_count = chatbot_usage_logs.conversation_count + 1
+    `);
+  }
 }
 
 /**
@@ -159,7 +239,7 @@ export async function incrementConversationCount(tenantId: string): Promise<void
  */
 export async function updateConversationMetadata(
   tenantId: string,
-  sessionId: string,
+  conversationId: string,
   metadata: Record<string, unknown>
 ): Promise<void> {
   await db
@@ -168,5 +248,5 @@ export async function updateConversationMetadata(
       metadata: sql`${conversations.metadata} || ${JSON.stringify(metadata)}::jsonb`,
       updatedAt: new Date(),
     })
-    .where(and(eq(conversations.tenantId, tenantId), eq(conversations.sessionId, sessionId)));
+    .where(and(eq(conversations.tenantId, tenantId), eq(conversations.id, conversationId)));
 }
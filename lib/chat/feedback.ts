@@ -0,0 +1,271 @@
+/**
+ * 답변 피드백 서비스
+ * 좋아요/싫어요 저장 및 싫어요 답변 → 검토 큐 연결
+ */
+
+import { db, conversations, messageFeedback } from '@/lib/db';
+import { eq, and, desc, gte, lte, sql } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { sessionConditions } from './conversation';
+import type { ChatMessage } from './types';
+
+export type FeedbackRating = 'up' | 'down';
+export type FeedbackReviewStatus = 'open' | 'sent_to_review' | 'dismissed';
+
+export interface RecordFeedbackInput {
+  tenantId: string;
+  chatbotId?: string;
+  sessionId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  channel?: 'web' | 'kakao' | 'public_page';
+}
+
+export interface DownvotedAnswer {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  question: string | null;
+  answer: string;
+  chunkIds: string[];
+  channel: string | null;
+  reviewStatus: FeedbackReviewStatus;
+  createdAt: string;
+}
+
+export interface FeedbackStats {
+  total: number;
+  up: number;
+  down: number;
+  /** 만족도 (좋아요 / 전체, 0~1). 피드백이 없으면 null */
+  satisfactionRate: number | null;
+}
+
+/**
+ * 피드백 저장 (대화 + 메시지 단위 upsert)
+ *
+ * 대상 메시지의 검색 청크 ID를 함께 스냅샷하여,
+ * 이후 대화가 삭제/변경되어도 검토 큐로 보낼 청크를 추적할 수 있게 한다.
+ *
+ * 대화는 getOrCreateConversation과 같은 세션 + 챗봇 조건으로 찾는다.
+ * (같은 세션의 다른 챗봇 대화에 피드백이 기록되지 않도록)
+ *
+ * @returns 저장 성공 여부 (대화/메시지를 찾지 못하면 false)
+ */
+export async function recordMessageFeedback(input: RecordFeedbackInput): Promise<boolean> {
+  const { tenantId, chatbotId, sessionId, messageId, rating, channel } = input;
+
+  const [conversation] = await db
+    .select({
+      id: conversations.id,
+      chatbotId: conversations.chatbotId,
+      channel: conversations.channel,
+      messages: conversations.messages,
+    })
+    .from(conversations)
+    .where(sessionConditions(tenantId, sessionId, chatbotId ?? null))
+    .limit(1);
+
+  if (!conversation) {
+    logger.warn('Feedback target conversation not found', { tenantId, chatbotId, sessionId });
+    return false;
+  }
+
+  const messages = (conversation.messages as ChatMessage[]) || [];
+  const target = messages.find((m) => m.id === messageId && m.role === 'assistant');
+
+  if (!target) {
+    logger.warn('Feedback target message not found', { tenantId, sessionId, messageId });
+    return false;
+  }
+
+  const chunkIds = target.metadata?.chunkIds ?? [];
+
+  await db
+    .insert(messageFeedback)
+    .values({
+      tenantId,
+      chatbotId: conversation.chatbotId,
+      conversationId: conversation.id,
+      messageId,
+      rating,
+      chunkIds,
+      channel: channel ?? conversation.channel,
+      reviewStatus: 'open',
+    })
+    .onConflictDoUpdate({
+      target: [messageFeedback.conversationId, messageFeedback.messageId],
+      set: {
+        rating,
+        // 평가가 바뀌면 다시 검토 대상으로
+        reviewStatus: 'open',
+        updatedAt: new Date(),
+      },
+    });
+
+  logger.info('Message feedback recorded', {
+    tenantId,
+    chatbotId: conversation.chatbotId,
+    conversationId: conversation.id,
+    messageId,
+    rating,
+    chunkCount: chunkIds.length,
+  });
+
+  return true;
+}
+
+/**
+ * 싫어요 답변 목록 조회 (최신순)
+ *
+ * 질문은 대화에서 해당 답변 직전의 사용자 메시지로 복원한다.
+ */
+export async function getDownvotedAnswers(
+  tenantId: string,
+  chatbotId: string,
+  options: { page?: number; limit?: number; reviewStatus?: FeedbackReviewStatus } = {}
+): Promise<{ items: DownvotedAnswer[]; total: number }> {
+  const page = Math.max(1, options.page ?? 1);
+  const limit = Math.min(100, Math.max(1, options.limit ?? 20));
+
+  const conditions = [
+    eq(messageFeedback.tenantId, tenantId),
+    eq(messageFeedback.chatbotId, chatbotId),
+    eq(messageFeedback.rating, 'down'),
+  ];
+  if (options.reviewStatus) {
+    conditions.push(eq(messageFeedback.reviewStatus, options.reviewStatus));
+  }
+
+  const [rows, [countRow]] = await Promise.all([
+    db
+      .select({
+        id: messageFeedback.id,
+        conversationId: messageFeedback.conversationId,
+        messageId: messageFeedback.messageId,
+        chunkIds: messageFeedback.chunkIds,
+        channel: messageFeedback.channel,
+        reviewStatus: messageFeedback.reviewStatus,
+        createdAt: messageFeedback.createdAt,
+        messages: conversations.messages,
+      })
+      .from(messageFeedback)
+      .innerJoin(conversations, eq(conversations.id, messageFeedback.conversationId))
+      .where(and(...conditions))
+      .orderBy(desc(messageFeedback.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(messageFeedback)
+      .where(and(...conditions)),
+  ]);
+
+  const items = rows.map((row) => {
+    const { question, answer } = extractQuestionAndAnswer(
+      (row.messages as ChatMessage[]) || [],
+      row.messageId
+    );
+    return {
+      id: row.id,
+      conversationId: row.conversationId,
+      messageId: row.messageId,
+      question,
+      answer: answer ?? '',
+      chunkIds: row.chunkIds ?? [],
+      channel: row.channel,
+      reviewStatus: (row.reviewStatus ?? 'open') as FeedbackReviewStatus,
+      createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+    };
+  });
+
+  return { items, total: countRow?.count ?? 0 };
+}
+
+/**
+ * 대화 메시지에서 답변과 직전 질문 추출
+ */
+export function extractQuestionAndAnswer(
+  messages: ChatMessage[],
+  messageId: string
+): { question: string | null; answer: string | null } {
+  const index = messages.findIndex((m) => m.id === messageId);
+  if (index === -1) {
+    return { question: null, answer: null };
+  }
+
+  let question: string | null = null;
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      question = messages[i].content;
+      break;
+    }
+  }
+
+  return { question, answer: messages[index].content };
+}
+
+/**
+ * 피드백 단건 조회 (테넌트 격리)
+ */
+export async function getFeedback(tenantId: string, feedbackId: string) {
+  const [row] = await db
+    .select()
+    .from(messageFeedback)
+    .where(and(eq(messageFeedback.id, feedbackId), eq(messageFeedback.tenantId, tenantId)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * 피드백 검토 상태 변경
+ */
+export async function updateFeedbackReviewStatus(
+  tenantId: string,
+  feedbackId: string,
+  reviewStatus: FeedbackReviewStatus
+): Promise<void> {
+  await db
+    .update(messageFeedback)
+    .set({ reviewStatus, updatedAt: new Date() })
+    .where(and(eq(messageFeedback.id, feedbackId), eq(messageFeedback.tenantId, tenantId)));
+}
+
+/**
+ * 챗봇별 만족도 통계
+ */
+export async function getFeedbackStats(
+  tenantId: string,
+  chatbotId: string,
+  dateRange?: { from: Date; to: Date }
+): Promise<FeedbackStats> {
+  const conditions = [
+    eq(messageFeedback.tenantId, tenantId),
+    eq(messageFeedback.chatbotId, chatbotId),
+  ];
+  if (dateRange) {
+    conditions.push(gte(messageFeedback.createdAt, dateRange.from));
+    conditions.push(lte(messageFeedback.createdAt, dateRange.to));
+  }
+
+  const [row] = await db
+    .select({
+      total: sql<number>`count(*)::int`,
+      up: sql<number>`count(*) filter (where ${messageFeedback.rating} = 'up')::int`,
+      down: sql<number>`count(*) filter (where ${messageFeedback.rating} = 'down')::int`,
+    })
+    .from(messageFeedback)
+    .where(and(...conditions));
+
+  const total = row?.total ?? 0;
+  const up = row?.up ?? 0;
+  const down = row?.down ?? 0;
+
+  return {
+    total,
+    up,
+    down,
+    satisfactionRate: total > 0 ? up / total : null,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * 답변 근거 검증 가드
+ *
+ * RAG 답변을 보내기 전에 고위험 주장(숫자, 연락처, 날짜)이 검색된 청크에 근거하는지 확인하고,
+ * 근거가 없으면 챗봇 설정에 따라 다시 생성하거나 페르소나의 "정보 없음" 응답으로 대체한다.
+ * 개입한 경우 로그를 남기고 어시스턴트 메시지 메타데이터(groundedness)에 기록한다.
+ */
+
+import { logger } from '@/lib/logger';
+import type { SearchResult } from '@/lib/rag/retrieval';
+import type { GenerateOptions } from '@/lib/rag/generator';
+import {
+  buildRegenerationFeedback,
+  checkGroundedness,
+  type GroundednessGuardConfig,
+  type GroundednessResult,
+} from '@/lib/rag/groundedness';
+import { verifyClaimsAgainstContext } from '@/lib/rag/evaluation/metrics/faithfulness';
+import { generateNoResultResponse } from './query-router';
+import type { PersonaConfig } from './intent-classifier';
+
+/**
+ * 가드 개입 기록
+ * - regenerated: 근거 없는 값이 있어 다시 생성한 답변을 사용
+ * - fallback: 근거를 확인하지 못해 "정보 없음" 응답으로 대체
+ */
+export interface GroundednessIntervention {
+  action: 'regenerated' | 'fallback';
+  /** 근거를 확인하지 못한 값 (첫 번째 답변 기준) */
+  unsupportedClaims: string[];
+}
+
+export interface GroundednessGuardOptions {
+  config: Required<GroundednessGuardConfig>;
+  persona: PersonaConfig;
+  /** 재생성 (안내 문구를 질문에 덧붙여 generateResponse 호출) */
+  regenerate: (feedback: string) => Promise<string>;
+  /** LLM 검증 호출 설정 (토큰 추적, 모델 체인) */
+  verification: Pick<GenerateOptions, 'trackingContext' | 'modelChain'>;
+}
+
+/**
+ * 답변 근거 검증 후 필요하면 재생성/대체
+ *
+ * @returns 최종 답변과 개입 기록 (개입하지 않았으면 null)
+ */
+export async function applyGroundednessGuard(
+  answer: string,
+  contextResults: SearchResult[],
+  options: GroundednessGuardOptions
+): Promise<{ text: string; intervention: GroundednessIntervention | null }> {
+  const { config, persona, regenerate, verification } = options;
+  const contexts = contextResults.map((r) => r.content);
+  const verifier = config.llmVerification
+    ? (sentences: string[], context: string) =>
+        verifyClaimsAgainstContext(sentences, context, verification)
+    : undefined;
+
+  const check = async (text: string): Promise<GroundednessResult> => {
+    const result = await checkGroundedness(text, contexts, verifier);
+    if (result.verificationFailed) {
+      logger.warn('[Groundedness] LLM verification failed, passing answer', {
+        tenantId: verification.trackingContext?.tenantId,
+        unverifiedCount: result.unsupportedClaims.length,
+      });
+    }
+    return result;
+  };
+
+  const first = await check(answer);
+  if (first.grounded) {
+    return { text: answer, intervention: null };
+  }
+
+  const unsupportedClaims = first.unsupportedClaims.map((claim) => claim.text);
+  const logContext = {
+    tenantId: verification.trackingContext?.tenantId,
+    chatbotId: verification.trackingContext?.chatbotId,
+    conversationId: verification.trackingContext?.conversationId,
+    mode: config.mode,
+    unsupportedClaims,
+  };
+
+  if (config.mode === 'regenerate') {
+    const regenerated = await regenerate(buildRegenerationFeedback(first.unsupportedClaims));
+    const second = await check(regenerated);
+
+    if (second.grounded) {
+      logger.warn('[Groundedness] Unsupported claims found, answer regenerated', logContext);
+      return { text: regenerated, intervention: { action: 'regenerated', unsupportedClaims } };
+    }
+
+    logger.warn('[Groundedness] Regenerated answer still unsupported, using no-result response', {
+      ...logContext,
+      regeneratedUnsupportedClaims: second.unsupportedClaims.map((claim) => claim.text),
+    });
+  } else {
+    logger.warn('[Groundedness] Unsupported claims found, using no-result response', logContext);
+  }
+
+  return {
+    text: generateNoResultResponse(persona),
+    intervention: { action: 'fallback', unsupportedClaims },
+  };
+}
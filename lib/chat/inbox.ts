@@ -0,0 +1,247 @@
+/**
+ * 대화 인박스 서비스
+ * 챗봇별 대화 목록 조회 (필터/검색) 및 대화 기록 내보내기
+ */
+
+import { z } from 'zod';
+import { db, conversations } from '@/lib/db';
+import { eq, and, gte, lte, desc, sql, type SQL } from 'drizzle-orm';
+import type { ChatMessage } from './types';
+import type { ConversationTranscript } from './transcript-export';
+
+// 상수 정의
+const MAX_LIMIT = 100;
+const DEFAULT_LIMIT = 20;
+/** 내보내기 최대 대화 수 */
+export const MAX_EXPORT_CONVERSATIONS = 1000;
+
+export type InboxChannel = 'web' | 'kakao' | 'public_page';
+export type InboxIntent = 'CHITCHAT' | 'DOMAIN_QUERY' | 'OUT_OF_SCOPE';
+export type InboxResponseType = 'cached' | 'generated';
+
+export interface ConversationInboxFilter {
+  tenantId: string;
+  chatbotId: string;
+  channel?: InboxChannel;
+  from?: Date;
+  to?: Date;
+  intent?: InboxIntent;
+  /** 캐시 응답 / 생성 응답이 포함된 대화 */
+  responseType?: InboxResponseType;
+  /** "정보 없음" 응답이 포함된 대화만 */
+  noResultOnly?: boolean;
+  /** 메시지 본문 검색어 */
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 인박스 쿼리 파라미터 스키마 (목록/내보내기 API 공용)
+ */
+export const inboxQuerySchema = z.object({
+  channel: z.enum(['web', 'kakao', 'public_page']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  intent: z.enum(['CHITCHAT', 'DOMAIN_QUERY', 'OUT_OF_SCOPE']).optional(),
+  responseType: z.enum(['cached', 'generated']).optional(),
+  noResultOnly: z
+    .enum(['true', 'false'])
+    .transform((v) => v === 'true')
+    .optional(),
+  search: z.string().max(200).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).optional(),
+});
+
+export interface ConversationListItem {
+  id: string;
+  sessionId: string;
+  channel: string;
+  messageCount: number;
+  /** 첫 사용자 메시지 미리보기 */
+  preview: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationListResult {
+  conversations: ConversationListItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * LIKE 패턴 특수문자 이스케이프
+ */
+function escapeLikePattern(str: string): string {
+  return str.replace(/[%_\\]/g, '\\$&');
+}
+
+/**
+ * messages jsonb 배열 중 조건을 만족하는 메시지가 있는지 검사하는 SQL
+ */
+function hasMessageWhere(condition: SQL): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM jsonb_array_elements(${conversations.messages}) AS m
+    WHERE ${condition}
+  )`;
+}
+
+/**
+ * 필터 → WHERE 조건 변환
+ */
+function buildConditions(filter: ConversationInboxFilter): SQL[] {
+  const conditions: SQL[] = [
+    eq(conversations.tenantId, filter.tenantId),
+    eq(conversations.chatbotId, filter.chatbotId),
+  ];
+
+  if (filter.channel) {
+    conditions.push(eq(conversations.channel, filter.channel));
+  }
+  if (filter.from) {
+    conditions.push(gte(conversations.createdAt, filter.from));
+  }
+  if (filter.to) {
+    conditions.push(lte(conversations.createdAt, filter.to));
+  }
+  if (filter.intent) {
+    conditions.push(hasMessageWhere(sql`m->'metadata'->>'intent' = ${filter.intent}`));
+  }
+  if (filter.responseType === 'cached') {
+    conditions.push(hasMessageWhere(sql`(m->'metadata'->>'cached')::boolean IS TRUE`));
+  } else if (filter.responseType === 'generated') {
+    conditions.push(
+      hasMessageWhere(
+        sql`m->>'role' = 'assistant' AND (m->'metadata'->>'cached')::boolean IS NOT TRUE`
+      )
+    );
+  }
+  if (filter.noResultOnly) {
+    conditions.push(hasMessageWhere(sql`(m->'metadata'->>'noResult')::boolean IS TRUE`));
+  }
+  if (filter.search?.trim()) {
+    const pattern = `%${escapeLikePattern(filter.search.trim())}%`;
+    conditions.push(hasMessageWhere(sql`m->>'content' ILIKE ${pattern}`));
+  }
+
+  return conditions;
+}
+
+/**
+ * 대화 목록 조회 (필터/검색/페이징, 최근 활동순)
+ */
+export async function listConversations(
+  filter: ConversationInboxFilter
+): Promise<ConversationListResult> {
+  const page = Math.max(1, filter.page ?? 1);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, filter.limit ?? DEFAULT_LIMIT));
+  const where = and(...buildConditions(filter));
+
+  const [rows, [countRow]] = await Promise.all([
+    db
+      .select({
+        id: conversations.id,
+        sessionId: conversations.sessionId,
+        channel: conversations.channel,
+        messageCount: sql<number>`jsonb_array_length(${conversations.messages})::int`,
+        preview: sql<string | null>`(
+          SELECT m->>'content' FROM jsonb_array_elements(${conversations.messages}) AS m
+          WHERE m->>'role' = 'user' LIMIT 1
+        )`,
+        createdAt: conversations.createdAt,
+        updatedAt: conversations.updatedAt,
+      })
+      .from(conversations)
+      .where(where)
+      .orderBy(desc(conversations.updatedAt))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(conversations)
+      .where(where),
+  ]);
+
+  const total = countRow?.count ?? 0;
+
+  return {
+    conversations: rows.map((row) => ({
+      id: row.id,
+      sessionId: row.sessionId,
+      channel: row.channel ?? 'web',
+      messageCount: row.messageCount ?? 0,
+      preview: row.preview ? row.preview.slice(0, 120) : null,
+      createdAt: row.createdAt?.toISOString() ?? '',
+      updatedAt: row.updatedAt?.toISOString() ?? '',
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * 대화 기록 단건 조회 (테넌트/챗봇 격리)
+ */
+export async function getConversationTranscript(
+  tenantId: string,
+  chatbotId: string,
+  conversationId: string
+): Promise<ConversationTranscript | null> {
+  const [row] = await db
+    .select()
+    .from(conversations)
+    .where(
+      and(
+        eq(conversations.id, conversationId),
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.chatbotId, chatbotId)
+      )
+    )
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    sessionId: row.sessionId,
+    channel: row.channel ?? 'web',
+    messages: (row.messages as ChatMessage[]) || [],
+    createdAt: row.createdAt?.toISOString() ?? '',
+    updatedAt: row.updatedAt?.toISOString() ?? '',
+  };
+}
+
+/**
+ * 내보내기 대상 대화 조회 (필터 적용, 최대 MAX_EXPORT_CONVERSATIONS건)
+ */
+export async function getConversationsForExport(
+  filter: ConversationInboxFilter
+): Promise<ConversationTranscript[]> {
+  const rows = await db
+    .select()
+    .from(conversations)
+    .where(and(...buildConditions(filter)))
+    .orderBy(desc(conversations.updatedAt))
+    .limit(MAX_EXPORT_CONVERSATIONS);
+
+  return rows.map((row) => ({
+    id: row.id,
+    sessionId: row.sessionId,
+    channel: row.channel ?? 'web',
+    messages: (row.messages as ChatMessage[]) || [],
+    createdAt: row.createdAt?.toISOString() ?? '',
+    updatedAt: row.updatedAt?.toISOString() ?? '',
+  }));
+}
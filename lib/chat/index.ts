@@ -9,3 +9,6 @@ export * from './cache';
 export * from './intent-classifier';
 export * from './query-router';
 export * from './chatbot';
+export * from './feedback';
+export * from './inbox';
+export * from './transcript-export';
@@ -0,0 +1,78 @@
+/**
+ * 대화 메모리 요약 갱신
+ * 오래된 턴을 LLM으로 요약해 conversations.metadata.memory에 저장한다.
+ */
+
+import { logger } from '@/lib/logger';
+import { generateWithFallback, type TrackingContext } from '@/lib/rag/generator';
+import { updateConversationMetadata } from './conversation';
+import {
+  MAX_SUMMARY_LENGTH,
+  MEMORY_SUMMARY_SYSTEM_PROMPT,
+  buildMemorySummaryPrompt,
+  selectMessagesToSummarize,
+  type ConversationMemory,
+  type MemoryPolicy,
+} from './memory';
+import type { ChatMessage } from './types';
+
+/**
+ * 요약할 턴이 충분히 쌓였으면 요약을 갱신
+ * 응답 이후에 호출되며, 실패해도 기존 요약을 유지한다.
+ *
+ * @returns 갱신된 요약 (요약하지 않았거나 실패하면 null)
+ */
+export async function refreshConversationMemory(
+  tenantId: string,
+  conversationId: string,
+  messages: ChatMessage[],
+  memory: ConversationMemory | null,
+  policy: MemoryPolicy,
+  trackingContext: TrackingContext
+): Promise<ConversationMemory | null> {
+  const target = selectMessagesToSummarize(messages, memory, policy);
+  if (!target) {
+    return null;
+  }
+
+  try {
+    const summary = await generateWithFallback(
+      MEMORY_SUMMARY_SYSTEM_PROMPT,
+      buildMemorySummaryPrompt(memory?.summary ?? null, target.messages),
+      {
+        temperature: 0.2,
+        maxTokens: 500,
+        trackingContext: { ...trackingContext, featureType: 'memory_summary' },
+      }
+    );
+
+    const trimmed = summary.trim().slice(0, MAX_SUMMARY_LENGTH);
+    if (!trimmed) {
+      return null;
+    }
+
+    const updated: ConversationMemory = {
+      summary: trimmed,
+      summarizedCount: target.summarizedCount,
+      updatedAt: new Date().toISOString(),
+    };
+    await updateConversationMetadata(tenantId, conversationId, { memory: updated });
+
+    logger.info('Conversation memory summarized', {
+      tenantId,
+      conversationId,
+      summarizedCount: updated.summarizedCount,
+      newMessages: target.messages.length,
+      summaryLength: trimmed.length,
+    });
+
+    return updated;
+  } catch (error) {
+    logger.warn('Conversation memory summarization failed', {
+      tenantId,
+      conversationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
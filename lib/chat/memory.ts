@@ -0,0 +1,118 @@
+/**
+ * 대화 메모리 (롤링 요약)
+ *
+ * 히스토리 창(historyLimit) 밖으로 밀려난 오래된 턴을 요약해
+ * conversations.metadata.memory에 저장하고, 쿼리 재작성과 답변 생성에 함께 전달한다.
+ * 요약 대상 선정과 프롬프트 구성만 담당한다 (LLM 호출/저장은 memory-summarizer.ts).
+ */
+
+import type { ChatMessage } from './types';
+
+/**
+ * 대화 메타데이터에 저장되는 요약
+ */
+export interface ConversationMemory {
+  /** 누적 요약 */
+  summary: string;
+  /** 요약에 반영된 메시지 수 (messages 앞에서부터) */
+  summarizedCount: number;
+  updatedAt: string;
+}
+
+export interface MemoryPolicy {
+  /** 최근 대화로 그대로 전달하는 메시지 수 (요약하지 않음) */
+  historyLimit: number;
+  /** 한 번에 요약할 최소 메시지 수 (너무 자주 요약하지 않도록) */
+  minBatchSize: number;
+}
+
+export const DEFAULT_MEMORY_POLICY: MemoryPolicy = {
+  historyLimit: 4,
+  minBatchSize: 6,
+};
+
+// 요약 최대 길이 (프롬프트 비대화 방지)
+export const MAX_SUMMARY_LENGTH = 800;
+
+/**
+ * 메타데이터에서 요약 읽기 (형식이 맞지 않으면 null)
+ */
+export function parseConversationMemory(metadata: unknown): ConversationMemory | null {
+  const memory = (metadata as { memory?: Partial<ConversationMemory> } | null)?.memory;
+  if (!memory || typeof memory.summary !== 'string' || !memory.summary.trim()) {
+    return null;
+  }
+
+  return {
+    summary: memory.summary,
+    summarizedCount: typeof memory.summarizedCount === 'number' ? memory.summarizedCount : 0,
+    updatedAt: memory.updatedAt ?? '',
+  };
+}
+
+/**
+ * 새로 요약할 메시지 선택
+ *
+ * 아직 요약되지 않았고 최근 히스토리 창 밖에 있는 메시지가
+ * minBatchSize 이상 쌓였을 때만 반환한다.
+ *
+ * @returns 요약할 메시지와 요약 후 summarizedCount, 요약할 필요가 없으면 null
+ */
+export function selectMessagesToSummarize(
+  messages: ChatMessage[],
+  memory: ConversationMemory | null,
+  policy: MemoryPolicy = DEFAULT_MEMORY_POLICY
+): { messages: ChatMessage[]; summarizedCount: number } | null {
+  const start = Math.min(memory?.summarizedCount ?? 0, messages.length);
+  const end = messages.length - policy.historyLimit;
+
+  if (end - start < policy.minBatchSize) {
+    return null;
+  }
+
+  // 상담원 메시지도 대화 맥락이므로 포함하되, 빈 메시지는 제외
+  const selected = messages.slice(start, end).filter((m) => m.content.trim().length > 0);
+  if (selected.length === 0) {
+    return null;
+  }
+
+  return { messages: selected, summarizedCount: end };
+}
+
+export const MEMORY_SUMMARY_SYSTEM_PROMPT = `당신은 고객 상담 대화를 요약하는 전문가입니다.
+
+## 작업
+기존 요약과 새 대화를 합쳐 하나의 요약으로 갱신하세요.
+
+## 규칙
+1. 주문번호, 상품명, 날짜, 금액, 연락 수단 등 고객이 제공한 구체적인 정보는 그대로 보존
+2. 고객의 요청 사항과 해결/미해결 여부를 포함
+3. 인사말, 반복 내용은 생략
+4. ${MAX_SUMMARY_LENGTH}자 이내의 한국어 글머리표 목록으로 출력 (설명 없이 요약만)`;
+
+/**
+ * 요약 갱신 프롬프트 (기존 요약 + 새로 요약할 대화)
+ */
+export function buildMemorySummaryPrompt(
+  previousSummary: string | null,
+  messages: ChatMessage[]
+): string {
+  const dialogue = messages
+    .map((m) => `${m.role === 'user' ? '사용자' : '어시스턴트'}: ${m.content}`)
+    .join('\n');
+
+  return `[기존 요약]
+${previousSummary?.trim() || '없음'}
+
+[새 대화]
+${dialogue}
+
+[갱신된 요약]`;
+}
+
+/**
+ * 프롬프트에 포함할 요약 블록
+ */
+export function formatMemoryContext(summary: string): string {
+  return `[이전 대화 요약]\n${summary.trim()}`;
+}
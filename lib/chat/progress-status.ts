@@ -52,6 +52,14 @@ export interface SourcesEvent {
   sources: Source[];
 }
 
+/**
+ * 후속 질문 제안 이벤트
+ */
+export interface SuggestionsEvent {
+  type: 'suggestions';
+  suggestions: string[];
+}
+
 /**
  * 에러 이벤트
  */
@@ -76,6 +84,7 @@ export type ChatStreamEvent =
   | ProgressEvent
   | ContentEvent
   | SourcesEvent
+  | SuggestionsEvent
   | ErrorEvent
   | DoneEvent;
 
@@ -115,6 +124,16 @@ export function createSourcesEvent(sources: Source[]): SourcesEvent {
   };
 }
 
+/**
+ * 후속 질문 제안 이벤트 생성 헬퍼
+ */
+export function createSuggestionsEvent(suggestions: string[]): SuggestionsEvent {
+  return {
+    type: 'suggestions',
+    suggestions,
+  };
+}
+
 /**
  * SSE 이벤트를 문자열로 직렬화
  */
@@ -25,6 +25,8 @@ export interface RouterResult {
   confidence: number;
   /** 라우팅 결정 이유 */
   reasoning?: string;
+  /** 검색 결과 부족으로 "정보 없음" 응답을 반환했는지 */
+  noResult?: boolean;
 }
 
 export interface RouterConfig {
@@ -160,7 +162,7 @@ async function generateOutOfScopeResponse(message: string, persona: PersonaConfi
 /**
  * RAG 결과가 없거나 낮을 때 응답
  */
-function generateNoResultResponse(persona: PersonaConfig): string {
+export function generateNoResultResponse(persona: PersonaConfig): string {
   return `죄송해요, 관련 정보를 찾지 못했어요. ${persona.expertiseArea}에 대한 다른 질문이 있으시면 말씀해주세요!`;
 }
 
@@ -290,6 +292,7 @@ export async function routeQuery(
       intent: intentResult.intent,
       confidence: intentResult.confidence,
       reasoning: `No relevant RAG results (denseScore: ${topDenseScore.toFixed(2)} < ${config.ragDeclineThreshold})`,
+      noResult: true,
     };
   }
 
@@ -0,0 +1,252 @@
+/**
+ * 검색 디버거
+ *
+ * 채팅 파이프라인(processChat)의 Intent 분류 → Query Rewriting/Expansion → 검색 → Re-ranking → 라우팅 →
+ * 프롬프트 구성 단계를 그대로 실행하되, 응답 생성/메시지 저장/캐시 없이 단계별 결과만 반환한다.
+ * 검색 설정을 2개 넘기면 같은 질문으로 설정별 결과를 나란히 비교할 수 있다.
+ */
+
+import { logger } from '@/lib/logger';
+import { traceSearchStages, type DomainContext } from '@/lib/rag/retrieval';
+import { rewriteQuery, expandQuery } from '@/lib/rag/query-rewriter';
+import type { QueryExpansion } from '@/lib/rag/query-expansion';
+import { fuseQueryVariantResults } from '@/lib/rag/fusion';
+import { getReranker, shouldRerank } from '@/lib/rag/reranker';
+import { buildRAGPrompt } from '@/lib/rag/generator';
+import { expandToParentContext } from '@/lib/rag/parent-expansion';
+import { resolveMetadataFilters } from '@/lib/rag/metadata-filter';
+import { classifyIntent, DEFAULT_PERSONA, type PersonaConfig } from './intent-classifier';
+import { routeQuery } from './query-router';
+import { getChatbot, getChatbotDatasetWeights, type ChatbotInfo } from './chatbot';
+import {
+  resolveDebugSearchConfig,
+  toDebugResultRow,
+  type DebugSearchConfig,
+  type DebugSearchConfigOverride,
+  type RetrievalDebugResult,
+  type RetrievalDebugRun,
+} from './retrieval-trace';
+import type { IntentResult } from './intent-classifier';
+
+// Re-ranking을 위한 검색 배수 (processChat과 동일)
+const SEARCH_MULTIPLIER = 3;
+
+interface DebugRunContext {
+  tenantId: string;
+  chatbot: ChatbotInfo;
+  persona: PersonaConfig;
+  query: string;
+  searchQuery: string;
+  expansion: QueryExpansion;
+  intent: IntentResult;
+}
+
+/**
+ * 검색 설정 1개로 검색 → Re-ranking → 라우팅 → 프롬프트 구성
+ */
+async function runWithConfig(
+  context: DebugRunContext,
+  config: DebugSearchConfig
+): Promise<RetrievalDebugRun> {
+  const { tenantId, chatbot, persona, query, searchQuery, expansion, intent } = context;
+  const timings: Record<string, number> = {};
+  const toRows = (results: Parameters<typeof toDebugResultRow>[0][]) =>
+    results.map((result) => toDebugResultRow(result, config.minScore));
+
+  // 1. 단계별 검색 (Multi-Query면 표현별로 검색, 단계 결과는 첫 번째 쿼리 기준)
+  let stepStart = Date.now();
+  const domainContext: DomainContext = { expertiseArea: persona.expertiseArea };
+  const searchLimit = config.maxChunks * SEARCH_MULTIPLIER;
+  const traceQuery = (q: string) =>
+    traceSearchStages(
+      tenantId,
+      chatbot.id,
+      Object.keys(config.datasetWeights),
+      q,
+      searchLimit,
+      { tenantId, chatbotId: chatbot.id },
+      domainContext,
+      resolveMetadataFilters(config.defaultFilters),
+      {
+        datasets: config.datasetWeights,
+        chunks: config.sourceWeights.chunks,
+        knowledgePages: config.sourceWeights.knowledgePages,
+      },
+      expansion.hypotheticalAnswer
+    );
+  const searchQueries = expansion.strategy === 'multi_query' ? expansion.queries : [searchQuery];
+  const [trace, ...variantTraces] = await Promise.all(searchQueries.map(traceQuery));
+  const multiQuery =
+    variantTraces.length > 0
+      ? fuseQueryVariantResults(
+          [trace, ...variantTraces].map((t) => t.merged),
+          searchLimit
+        )
+      : undefined;
+  timings.search = Date.now() - stepStart;
+
+  // 2. Re-ranking (processChat과 같은 조건)
+  stepStart = Date.now();
+  let finalResults = multiQuery ?? trace.merged;
+  let rerankApplied = false;
+  let rerankFailed = false;
+  const reranker = getReranker();
+  const rerankDecision = shouldRerank(finalResults, undefined, reranker.type);
+  if (finalResults.length > config.maxChunks && rerankDecision.rerank) {
+    const rerankResult = await reranker.rerank(searchQuery, finalResults, {
+      topK: config.maxChunks,
+      maxCharsPerDoc: 300,
+      trackingContext: { tenantId, chatbotId: chatbot.id },
+    });
+    finalResults = rerankResult.results;
+    rerankApplied = !rerankResult.failed;
+    rerankFailed = !!rerankResult.failed;
+  } else {
+    finalResults = finalResults.slice(0, config.maxChunks);
+  }
+  timings.rerank = Date.now() - stepStart;
+
+  // 3. 라우팅
+  stepStart = Date.now();
+  const route = await routeQuery(query, intent, finalResults, persona);
+  timings.route = Date.now() - stepStart;
+
+  // 4. 프롬프트 구성 (첫 턴 웹 채널 기준, Parent-Child 확장 적용)
+  const contextResults = route.shouldUseRAG
+    ? await expandToParentContext(finalResults, chatbot.searchConfig?.parentExpansion)
+    : [];
+  const prompt = route.shouldUseRAG
+    ? buildRAGPrompt(query, contextResults, {
+        channel: 'web',
+        isFirstTurn: true,
+        promptConfig: {
+          customSystemPrompt: chatbot.llmConfig?.systemPrompt,
+          persona: chatbot.personaConfig ? persona : undefined,
+          inlineCitations: !!chatbot.llmConfig?.inlineCitations,
+        },
+      })
+    : null;
+
+  return {
+    config,
+    enrichedQuery: trace.enrichedQuery,
+    stages: {
+      dense: toRows(trace.dense),
+      sparse: toRows(trace.sparse),
+      knowledgePages: toRows(trace.knowledgePages),
+      fused: toRows(trace.fused),
+      merged: toRows(trace.merged),
+      multiQuery: multiQuery ? toRows(multiQuery) : undefined,
+      final: toRows(finalResults),
+    },
+    rerankApplied,
+    rerank: {
+      reranker: rerankDecision.reranker,
+      reason: rerankDecision.reason,
+      failed: rerankFailed,
+    },
+    route: {
+      shouldUseRAG: route.shouldUseRAG,
+      intent: route.intent,
+      confidence: route.confidence,
+      reasoning: route.reasoning,
+      noResult: route.noResult,
+      response: route.response,
+    },
+    prompt,
+    timings,
+  };
+}
+
+/**
+ * 검색 디버거 실행
+ *
+ * Intent 분류와 Query Rewriting은 설정과 무관하므로 한 번만 수행하고,
+ * 검색 이후 단계는 설정별로 실행한다. 대화 히스토리 없이 첫 질문으로 취급한다.
+ *
+ * @param overrides - 챗봇 검색 설정 위에 덮어쓸 설정 (1~2개)
+ * @returns 챗봇이 없으면 null
+ */
+export async function runRetrievalDebug(
+  tenantId: string,
+  chatbotId: string,
+  query: string,
+  overrides: DebugSearchConfigOverride[]
+): Promise<RetrievalDebugResult | null> {
+  const startTime = Date.now();
+  const timings: Record<string, number> = {};
+
+  const chatbot = await getChatbot(chatbotId, tenantId);
+  if (!chatbot) {
+    return null;
+  }
+
+  const persona: PersonaConfig = chatbot.personaConfig
+    ? { ...DEFAULT_PERSONA, ...chatbot.personaConfig }
+    : DEFAULT_PERSONA;
+  const datasetWeights = await getChatbotDatasetWeights(chatbot.id);
+
+  // Intent 분류 + Query Rewriting/Expansion (processChat과 같이 병렬 실행)
+  let stepStart = Date.now();
+  const rewriteOptions = {
+    temperature: 0.3,
+    maxTokens: 150,
+    trackingContext: { tenantId, chatbotId: chatbot.id, featureType: 'rewrite' as const },
+    includedTopics: persona.includedTopics,
+    expertiseArea: persona.expertiseArea,
+    domainGlossary: persona.domainGlossary,
+  };
+  const [intent, { searchQuery, expansion }] = await Promise.all([
+    classifyIntent(query, [], persona),
+    rewriteQuery(query, [], rewriteOptions).then(async (rewritten) => ({
+      searchQuery: rewritten,
+      expansion: await expandQuery(
+        rewritten,
+        chatbot.searchConfig?.queryExpansion,
+        rewriteOptions
+      ),
+    })),
+  ]);
+  timings.intentAndRewrite = Date.now() - stepStart;
+
+  stepStart = Date.now();
+  const context: DebugRunContext = {
+    tenantId,
+    chatbot,
+    persona,
+    query,
+    searchQuery,
+    expansion,
+    intent,
+  };
+  const runs = await Promise.all(
+    overrides.map((override) =>
+      runWithConfig(
+        context,
+        resolveDebugSearchConfig(chatbot.searchConfig, datasetWeights, override)
+      )
+    )
+  );
+  timings.runs = Date.now() - stepStart;
+
+  logger.info('[RetrievalDebug] Completed', {
+    tenantId,
+    chatbotId: chatbot.id,
+    queryLength: query.length,
+    rewritten: searchQuery !== query,
+    queryExpansion: expansion.strategy,
+    intent: intent.intent,
+    runCount: runs.length,
+    duration: Date.now() - startTime,
+  });
+
+  return {
+    query,
+    rewrittenQuery: searchQuery,
+    queryExpansion: expansion,
+    intent,
+    domainContext: { expertiseArea: persona.expertiseArea },
+    runs,
+    timings,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * 검색 디버거 결과 모델
+ *
+ * 콘솔 검색 디버거가 단계별 검색 결과를 표시/비교할 때 사용하는 타입과 순수 함수.
+ * DB 의존성이 없으므로 클라이언트 컴포넌트와 단위 테스트에서 직접 import 가능하다.
+ */
+
+import type { SearchResult } from '@/lib/rag/retrieval';
+import type { RerankDecision } from '@/lib/rag/reranker';
+import type { QueryExpansion } from '@/lib/rag/query-expansion';
+import type { ScoreBreakdown } from '@/lib/rag/fusion';
+import type { MetadataFilter } from '@/lib/rag/metadata-filter';
+import type { IntentResult } from './intent-classifier';
+import type { ChatbotInfo } from './chatbot';
+
+// 결과 미리보기 최대 길이
+const CONTENT_PREVIEW_LENGTH = 200;
+
+/**
+ * 디버거에서 사용할 검색 설정 (챗봇 searchConfig + 데이터셋 가중치)
+ */
+export interface DebugSearchConfig {
+  maxChunks: number;
+  minScore: number;
+  defaultFilters: MetadataFilter | null;
+  sourceWeights: {
+    chunks: number;
+    knowledgePages: number;
+  };
+  /** 데이터셋 ID → 가중치 */
+  datasetWeights: Record<string, number>;
+}
+
+/**
+ * 디버거 검색 설정 오버라이드 (생략한 값은 챗봇 설정 사용)
+ */
+export interface DebugSearchConfigOverride
+  extends Partial<Omit<DebugSearchConfig, 'sourceWeights'>> {
+  sourceWeights?: Partial<DebugSearchConfig['sourceWeights']>;
+}
+
+/**
+ * 검색 결과 1건 (표시용)
+ */
+export interface DebugResultRow {
+  id: string;
+  chunkId: string;
+  documentId: string;
+  datasetId?: string;
+  pageId?: string;
+  source: SearchResult['source'];
+  contentPreview: string;
+  score: number;
+  denseScore?: number;
+  /** Re-ranking 점수 (LLM 1-10, Cross-Encoder 모델 점수) */
+  rerankScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  /** Dense 점수가 최소 유사도(minScore) 미만인지 */
+  belowMinScore: boolean;
+}
+
+/**
+ * 검색 설정 1개에 대한 단계별 결과
+ */
+export interface RetrievalDebugRun {
+  config: DebugSearchConfig;
+  enrichedQuery: string;
+  stages: {
+    dense: DebugResultRow[];
+    sparse: DebugResultRow[];
+    knowledgePages: DebugResultRow[];
+    fused: DebugResultRow[];
+    merged: DebugResultRow[];
+    /** Multi-Query: 쿼리 표현별 병합 결과를 다시 RRF로 병합 (다른 단계는 첫 번째 쿼리 기준) */
+    multiQuery?: DebugResultRow[];
+    /** Re-ranking 후 최종 컨텍스트 (maxChunks개) */
+    final: DebugResultRow[];
+  };
+  rerankApplied: boolean;
+  /** 사용한 Re-ranker와 실행 판단 사유 */
+  rerank: Pick<RerankDecision, 'reranker' | 'reason'> & { failed: boolean };
+  route: {
+    shouldUseRAG: boolean;
+    intent: IntentResult['intent'];
+    confidence: number;
+    reasoning?: string;
+    noResult?: boolean;
+    /** RAG를 사용하지 않을 때 라우터가 반환하는 직접 응답 */
+    response?: string;
+  };
+  /** 응답 생성에 전송될 프롬프트 (RAG 미사용 시 null) */
+  prompt: { systemPrompt: string; userPrompt: string } | null;
+  timings: Record<string, number>;
+}
+
+/**
+ * 검색 디버거 전체 결과
+ */
+export interface RetrievalDebugResult {
+  query: string;
+  rewrittenQuery: string;
+  /** 쿼리 확장 결과 (Multi-Query 표현 목록 또는 HyDE 가상 답변) */
+  queryExpansion: QueryExpansion;
+  intent: IntentResult;
+  /** 검색 쿼리에 주입된 도메인 컨텍스트 */
+  domainContext: { expertiseArea?: string };
+  /** 설정별 실행 결과 (비교 모드면 2개) */
+  runs: RetrievalDebugRun[];
+  timings: Record<string, number>;
+}
+
+/**
+ * 챗봇 설정에 디버거 오버라이드를 적용한 검색 설정
+ */
+export function resolveDebugSearchConfig(
+  searchConfig: ChatbotInfo['searchConfig'] | null | undefined,
+  datasetWeights: Record<string, number>,
+  override: DebugSearchConfigOverride = {}
+): DebugSearchConfig {
+  return {
+    maxChunks: override.maxChunks ?? searchConfig?.maxChunks ?? 5,
+    minScore: override.minScore ?? searchConfig?.minScore ?? 0.5,
+    defaultFilters:
+      override.defaultFilters !== undefined
+        ? override.defaultFilters
+        : (searchConfig?.defaultFilters ?? null),
+    sourceWeights: {
+      chunks: override.sourceWeights?.chunks ?? searchConfig?.sourceWeights?.chunks ?? 1,
+      knowledgePages:
+        override.sourceWeights?.knowledgePages ??
+        searchConfig?.sourceWeights?.knowledgePages ??
+        1,
+    },
+    // 연결된 데이터셋만 오버라이드 허용
+    datasetWeights: Object.fromEntries(
+      Object.entries(datasetWeights).map(([id, weight]) => [
+        id,
+        override.datasetWeights?.[id] ?? weight,
+      ])
+    ),
+  };
+}
+
+/**
+ * 검색 결과 → 표시용 행
+ */
+export function toDebugResultRow(result: SearchResult, minScore: number): DebugResultRow {
+  const rerankScore = result.metadata?.rerankScore;
+
+  return {
+    id: result.id,
+    chunkId: result.chunkId,
+    documentId: result.documentId,
+    datasetId: result.datasetId,
+    pageId: result.pageId,
+    source: result.source,
+    contentPreview:
+      result.content.length > CONTENT_PREVIEW_LENGTH
+        ? `${result.content.slice(0, CONTENT_PREVIEW_LENGTH)}...`
+        : result.content,
+    score: result.score,
+    denseScore: result.denseScore,
+    rerankScore: typeof rerankScore === 'number' ? rerankScore : undefined,
+    scoreBreakdown: result.scoreBreakdown,
+    belowMinScore: result.denseScore !== undefined && result.denseScore < minScore,
+  };
+}
+
+/**
+ * 결과 비교 키 (청크와 Knowledge Page는 ID 공간이 달라 소스를 포함)
+ */
+export function rankingKey(row: Pick<DebugResultRow, 'id' | 'source'>): string {
+  return `${row.source === 'knowledge_page' ? 'page' : 'chunk'}_${row.id}`;
+}
+
+/**
+ * 비교 모드: 기준(A) 대비 후보(B)의 순위 변화
+ *
+ * @returns rankingKey → 순위 변화 (양수면 상승, null이면 A에 없던 결과)
+ */
+export function compareRankings(
+  baseline: Pick<DebugResultRow, 'id' | 'source'>[],
+  candidate: Pick<DebugResultRow, 'id' | 'source'>[]
+): Record<string, number | null> {
+  const baselineRanks = new Map(baseline.map((row, index) => [rankingKey(row), index]));
+
+  return Object.fromEntries(
+    candidate.map((row, index) => {
+      const previous = baselineRanks.get(rankingKey(row));
+      return [rankingKey(row), previous === undefined ? null : previous - index];
+    })
+  );
+}
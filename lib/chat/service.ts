@@ -3,6 +3,7 @@
  * Intent-Aware RAG 기반 대화 처리
  */
 
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@/lib/logger';
 import {
   hybridSearch,
@@ -11,8 +12,16 @@ import {
   type DomainContext,
 } from '@/lib/rag/retrieval';
 import { generateResponse, type GenerateOptions } from '@/lib/rag/generator';
-import { rewriteQuery } from '@/lib/rag/query-rewriter';
-import { rerankWithLLM, shouldRerank } from '@/lib/rag/reranker';
+import { getModelChainForChatbot } from '@/lib/rag/model-registry';
+import { rewriteQuery, expandQuery } from '@/lib/rag/query-rewriter';
+import { searchWithQueryExpansion } from '@/lib/rag/query-expansion';
+import { getReranker, shouldRerank, type RerankerType } from '@/lib/rag/reranker';
+import { expandToParentContext } from '@/lib/rag/parent-expansion';
+import { stripCitationMarkers, type Citation } from '@/lib/rag/citations';
+import { resolveMetadataFilters } from '@/lib/rag/metadata-filter';
+import { resolveGroundednessGuardConfig } from '@/lib/rag/groundedness';
+import { formatSourceLocation } from '@/lib/parsers/source-location';
+import { evaluateHandoffForAnswer, handleHandoffTurn } from '@/lib/handoff/service';
 import {
   getOrCreateConversation,
   addMessageToConversation,
@@ -20,8 +29,23 @@ import {
   updateUsageLog,
   incrementConversationCount,
 } from './conversation';
-import { findCachedResponse, cacheResponse } from './cache';
-import { getChatbotDatasetIds, getDefaultChatbot, getChatbot } from './chatbot';
+import {
+  findCachedResponse,
+  cacheResponse,
+  toContentRevision,
+  type CacheResult,
+  type CacheScope,
+} from './cache';
+import { getChatbotDatasetWeights, getDefaultChatbot, getChatbot } from './chatbot';
+import { resolveCitations } from './citations';
+import { DEFAULT_MEMORY_POLICY, formatMemoryContext } from './memory';
+import { refreshConversationMemory } from './memory-summarizer';
+import {
+  generateFollowUpSuggestions,
+  KAKAO_SUGGESTIONS_TIMEOUT_MS,
+  SUGGESTIONS_TIMEOUT_MS,
+} from './suggestions';
+import { applyGroundednessGuard, type GroundednessIntervention } from './groundedness-guard';
 import { classifyIntent, DEFAULT_PERSONA, type PersonaConfig } from './intent-classifier';
 import { routeQuery } from './query-router';
 import { trackResponseTime, trackCacheHitResponseTime } from '@/lib/performance/response-tracker';
@@ -98,20 +122,56 @@ export async function processChat(
       }
     }
 
-    // 2. 대화 세션 조회/생성
+    // 2. 대화 세션 조회/생성 (챗봇별로 분리)
     stepStart = Date.now();
-    const conversation = await getOrCreateConversation(tenantId, request.sessionId, channel);
+    const conversation = await getOrCreateConversation(
+      tenantId,
+      request.sessionId,
+      channel,
+      chatbot?.id ?? null
+    );
     const isNewConversation = conversation.messages.length === 0;
     timings['2_session_lookup'] = Date.now() - stepStart;
 
-    // 3. 캐시 확인
+    // 2.5 상담원 연결 (대기/응대 중이거나 연결 키워드면 AI 응답 없이 반환)
+    const handoffResponse = await handleHandoffTurn(tenantId, conversation, request, chatbot);
+    if (handoffResponse) {
+      if (isNewConversation) {
+        await incrementConversationCount(tenantId, chatbot?.id);
+      }
+      logger.info('Chat handled by handoff', {
+        tenantId,
+        sessionId: conversation.sessionId,
+        handoff: handoffResponse.handoff,
+      });
+      return handoffResponse;
+    }
+
+    // 검색 메타데이터 필터 (챗봇 기본 필터 + 요청별 필터, 모두 AND)
+    const searchFilters = resolveMetadataFilters(
+      chatbot?.searchConfig?.defaultFilters,
+      request.filters
+    );
+    // 요청별 필터는 같은 질문이라도 검색 범위가 달라지므로 캐시를 사용하지 않고,
+    // 요청한 문서로 범위를 좁힌 것이므로 Knowledge Page는 검색하지 않음
+    const hasRequestFilters = resolveMetadataFilters(request.filters).length > 0;
+    const useCache = !hasRequestFilters;
+
+    // 3. 캐시 확인 (챗봇 + 콘텐츠 리비전 단위)
     stepStart = Date.now();
-    const cacheResult = await findCachedResponse(tenantId, request.message);
+    const cacheScope: CacheScope = {
+      chatbotId: chatbot?.id ?? null,
+      contentRevision: toContentRevision(chatbot?.contentUpdatedAt),
+    };
+    const cacheResult: CacheResult = useCache
+      ? await findCachedResponse(tenantId, request.message, cacheScope)
+      : { hit: false };
     timings['3_cache_lookup'] = Date.now() - stepStart;
 
     if (cacheResult.hit && cacheResult.response) {
       // 캐시된 응답 사용
       const assistantMessage: ChatMessage = {
+        id: uuidv4(),
         role: 'assistant',
         content: cacheResult.response,
         timestamp: new Date().toISOString(),
@@ -119,15 +179,15 @@ export async function processChat(
       };
 
       // 사용자 메시지와 응답 저장
-      await addMessageToConversation(tenantId, conversation.sessionId, {
+      await addMessageToConversation(tenantId, conversation.id, {
         role: 'user',
         content: request.message,
         timestamp: new Date().toISOString(),
       });
-      await addMessageToConversation(tenantId, conversation.sessionId, assistantMessage);
+      await addMessageToConversation(tenantId, conversation.id, assistantMessage);
 
       if (isNewConversation) {
-        await incrementConversationCount(tenantId);
+        await incrementConversationCount(tenantId, chatbot?.id);
       }
 
       const cacheDuration = Date.now() - startTime;
@@ -151,6 +211,7 @@ export async function processChat(
       return {
         message: cacheResult.response,
         sessionId: conversation.sessionId,
+        messageId: assistantMessage.id,
         cached: true,
       };
     }
@@ -159,12 +220,20 @@ export async function processChat(
     stepStart = Date.now();
     let contextMessages: ChatMessage[] = [];
     if (includeHistory && conversation.messages.length > 0) {
-      contextMessages = await getConversationHistory(tenantId, conversation.sessionId, historyLimit);
+      contextMessages = await getConversationHistory(
+        tenantId,
+        conversation.sessionId,
+        historyLimit,
+        chatbot?.id ?? null
+      );
     }
     timings['4_history_lookup'] = Date.now() - stepStart;
 
     const isFirstTurn = contextMessages.length === 0;
 
+    // 히스토리 창 밖 이전 대화 요약 (긴 상담에서 주문번호 등 앞선 맥락 보존)
+    const memorySummary = includeHistory ? conversation.memory?.summary : undefined;
+
     // 5. 병렬 실행: Intent Classification + (Query Rewriting + RAG Search)
     // Intent 분류와 RAG 파이프라인을 동시에 실행하여 지연 최소화
     stepStart = Date.now();
@@ -198,6 +267,7 @@ export async function processChat(
           // 도메인 컨텍스트 전달 (동음이의어 해소용)
           expertiseArea: persona.expertiseArea,
           domainGlossary: persona.domainGlossary,
+          conversationSummary: memorySummary,
         });
 
         if (searchQuery !== request.message) {
@@ -217,29 +287,65 @@ export async function processChat(
         searchQuery = request.message;
       }
 
+      // Query Expansion (챗봇 설정 시 Multi-Query 또는 HyDE, 실패 시 재작성 쿼리만 사용)
+      const expansion = await expandQuery(searchQuery, chatbot?.searchConfig?.queryExpansion, {
+        trackingContext: {
+          tenantId,
+          chatbotId: chatbotId ?? undefined,
+          conversationId: conversation.id,
+          featureType: 'rewrite',
+        },
+        expertiseArea: persona.expertiseArea,
+        domainGlossary: persona.domainGlossary,
+      });
+      if (expansion.strategy !== 'none') {
+        logger.debug('Query expanded for search', {
+          tenantId,
+          sessionId: conversation.sessionId,
+          strategy: expansion.strategy,
+          queryCount: expansion.queries.length,
+        });
+      }
+
       // Hybrid Search로 관련 청크 + Knowledge Pages 검색 (Re-ranking을 위해 더 많이 검색)
       const embeddingTrackingContext = { tenantId, chatbotId: chatbotId ?? undefined };
       // 도메인 컨텍스트 (동음이의어 해소용)
       const domainContext: DomainContext = {
         expertiseArea: persona.expertiseArea,
       };
-      let searchResults: SearchResult[];
-
-      if (chatbotId) {
-        const datasetIds = await getChatbotDatasetIds(chatbotId);
-        // Knowledge Pages와 문서 청크를 통합 검색 (RRF 병합)
-        searchResults = await searchWithKnowledgePages(
-          tenantId,
-          chatbotId,
-          datasetIds,
-          searchQuery,
-          initialSearchLimit,
-          embeddingTrackingContext,
-          domainContext
-        );
-      } else {
-        searchResults = await hybridSearch(tenantId, searchQuery, initialSearchLimit, embeddingTrackingContext, domainContext);
-      }
+      const datasetWeights = chatbotId ? await getChatbotDatasetWeights(chatbotId) : {};
+
+      const search = (query: string, denseQuery?: string): Promise<SearchResult[]> =>
+        chatbotId
+          ? // Knowledge Pages와 문서 청크를 통합 검색 (데이터셋/소스 가중치 RRF 병합)
+            searchWithKnowledgePages(
+              tenantId,
+              chatbotId,
+              Object.keys(datasetWeights),
+              query,
+              initialSearchLimit,
+              embeddingTrackingContext,
+              domainContext,
+              searchFilters,
+              {
+                datasets: datasetWeights,
+                chunks: chatbot?.searchConfig?.sourceWeights?.chunks,
+                knowledgePages: chatbot?.searchConfig?.sourceWeights?.knowledgePages,
+              },
+              denseQuery,
+              hasRequestFilters
+            )
+          : hybridSearch(
+              tenantId,
+              query,
+              initialSearchLimit,
+              embeddingTrackingContext,
+              domainContext,
+              searchFilters,
+              denseQuery
+            );
+
+      const searchResults = await searchWithQueryExpansion(expansion, search, initialSearchLimit);
 
       return { searchQuery, searchResults };
     };
@@ -262,12 +368,17 @@ export async function processChat(
       rulesMatch: intentResult.rulesMatch,
     });
 
-    // 5.5 LLM 기반 Re-ranking (검색 결과가 충분할 때만)
+    // 5.5 Re-ranking (LLM 또는 Cross-Encoder, 검색 결과가 충분할 때만)
     stepStart = Date.now();
     let rerankApplied = false;
-    if (searchResults.length > maxChunks && shouldRerank(searchResults)) {
+    // 실행된 Re-ranker (실패 포함, 성능 모니터링 기록용)
+    let rerankerUsed: RerankerType | null = null;
+    const reranker = getReranker();
+    const rerankDecision = shouldRerank(searchResults, undefined, reranker.type);
+    if (searchResults.length > maxChunks && rerankDecision.rerank) {
+      rerankerUsed = reranker.type;
       try {
-        const rerankResult = await rerankWithLLM(searchQuery, searchResults, {
+        const rerankResult = await reranker.rerank(searchQuery, searchResults, {
           topK: maxChunks,
           maxCharsPerDoc: 300,
           trackingContext: {
@@ -277,11 +388,14 @@ export async function processChat(
           },
         });
         searchResults = rerankResult.results;
-        rerankApplied = true;
+        rerankApplied = !rerankResult.failed;
 
-        logger.info('[Rerank] Applied LLM re-ranking', {
+        logger.info('[Rerank] Applied re-ranking', {
           tenantId,
           sessionId: conversation.sessionId,
+          reranker: rerankResult.reranker,
+          reason: rerankDecision.reason,
+          failed: rerankResult.failed ?? false,
           originalCount: ragPipelineResult.searchResults.length,
           rerankedCount: searchResults.length,
           tokensUsed: rerankResult.tokensUsed,
@@ -297,9 +411,11 @@ export async function processChat(
     } else if (searchResults.length > maxChunks) {
       // Re-ranking 불필요: 상위 결과만 사용
       searchResults = searchResults.slice(0, maxChunks);
-      logger.debug('[Rerank] Skipped - scores are well-distributed', {
+      logger.debug('[Rerank] Skipped', {
         tenantId,
         sessionId: conversation.sessionId,
+        reranker: rerankDecision.reranker,
+        reason: rerankDecision.reason,
       });
     }
     timings['5.5_reranking'] = Date.now() - stepStart;
@@ -312,6 +428,10 @@ export async function processChat(
     // 7. 응답 생성 (Intent 기반 또는 RAG 기반)
     stepStart = Date.now();
     let responseText: string;
+    let citations: Citation[] | undefined;
+    // 출처 표기 모드 (카카오톡은 각주를 표시할 수 없어 기존 출처 목록 응답 사용)
+    const citationsEnabled = !!chatbot?.llmConfig?.inlineCitations && channel !== 'kakao';
+    let groundedness: GroundednessIntervention | null = null;
 
     if (!routerResult.shouldUseRAG && routerResult.response) {
       // Intent 기반 응답 (CHITCHAT 또는 OUT_OF_SCOPE)
@@ -332,6 +452,9 @@ export async function processChat(
           .join('\n');
         queryWithContext = `[이전 대화]\n${historyContext}\n\n[현재 질문]\n${request.message}`;
       }
+      if (memorySummary) {
+        queryWithContext = `${formatMemoryContext(memorySummary)}\n\n${queryWithContext}`;
+      }
 
       const generateOptions: GenerateOptions = {
         temperature,
@@ -344,12 +467,88 @@ export async function processChat(
           conversationId: conversation.id,
           featureType: 'chat',
         },
+        // 챗봇별 커스텀 프롬프트 + 페르소나 (챗봇이 없으면 채널 기본 프롬프트)
+        promptConfig: chatbot
+          ? {
+              customSystemPrompt: chatbot.llmConfig?.systemPrompt,
+              persona: chatbot.personaConfig ? persona : undefined,
+              inlineCitations: citationsEnabled,
+            }
+          : undefined,
+        // 챗봇별 모델 체인 (티어 제한 적용, 챗봇이 없으면 기본 모델)
+        modelChain: await getModelChainForChatbot(tenantId, chatbot?.llmConfig),
       };
 
-      responseText = await generateResponse(queryWithContext, searchResults, generateOptions);
+      // Parent-Child 확장: 매칭 청크 대신 섹션/앞뒤 청크를 컨텍스트로 전달 (챗봇 설정 시)
+      const contextResults = await expandToParentContext(
+        searchResults,
+        chatbot?.searchConfig?.parentExpansion
+      );
+
+      responseText = await generateResponse(queryWithContext, contextResults, generateOptions);
+
+      // 근거 검증 (챗봇 설정 시): 청크에 없는 숫자/연락처/날짜가 있으면 재생성 또는 "정보 없음" 응답
+      const groundednessConfig = resolveGroundednessGuardConfig(
+        chatbot?.llmConfig?.groundednessGuard
+      );
+      if (groundednessConfig) {
+        const guarded = await applyGroundednessGuard(responseText, contextResults, {
+          config: groundednessConfig,
+          persona,
+          regenerate: (feedback) =>
+            generateResponse(`${queryWithContext}\n\n${feedback}`, contextResults, generateOptions),
+          verification: {
+            trackingContext: generateOptions.trackingContext && {
+              ...generateOptions.trackingContext,
+              featureType: 'groundedness_check',
+            },
+            modelChain: generateOptions.modelChain,
+          },
+        });
+        responseText = guarded.text;
+        groundedness = guarded.intervention;
+      }
+
+      // 출처 마커 → 각주 (마커 번호를 인용 순서로 정리)
+      if (citationsEnabled && groundedness?.action !== 'fallback') {
+        const resolved = await resolveCitations(responseText, contextResults);
+        responseText = resolved.text;
+        citations = resolved.citations;
+      }
     }
     timings['7_response_generation'] = Date.now() - stepStart;
 
+    // 근거 검증으로 "정보 없음" 응답을 반환한 경우도 정보 없음으로 취급
+    const noResult = (routerResult.noResult ?? false) || groundedness?.action === 'fallback';
+
+    // 7.5 후속 질문 제안 (검색 결과가 있는 DOMAIN_QUERY 답변에만)
+    // 메시지 저장 등 이후 단계와 병렬로 실행하고 응답 직전에 대기 (시간 상한 적용)
+    // 카카오톡은 스킬 응답 제한 시간(4초)이 짧아 더 짧은 상한 적용 (넘기면 바로연결 버튼 없이 응답)
+    let suggestionsPromise: Promise<string[]> | null = null;
+    if (
+      chatbot?.llmConfig?.followUpSuggestions &&
+      routerResult.shouldUseRAG &&
+      !noResult &&
+      searchResults.length > 0
+    ) {
+      const suggestionsStart = Date.now();
+      suggestionsPromise = generateFollowUpSuggestions(
+        request.message,
+        citations ? stripCitationMarkers(responseText) : responseText,
+        searchResults,
+        {
+          tenantId,
+          chatbotId: chatbotId ?? undefined,
+          conversationId: conversation.id,
+          featureType: 'follow_up_suggestion',
+        },
+        channel === 'kakao' ? KAKAO_SUGGESTIONS_TIMEOUT_MS : SUGGESTIONS_TIMEOUT_MS
+      ).then((generated) => {
+        timings['7.5_suggestions'] = Date.now() - suggestionsStart;
+        return generated;
+      });
+    }
+
     // 8. 메시지 저장
     stepStart = Date.now();
     const userMessage: ChatMessage = {
@@ -359,35 +558,83 @@ export async function processChat(
     };
 
     const assistantMessage: ChatMessage = {
+      id: uuidv4(),
       role: 'assistant',
       content: responseText,
       timestamp: new Date().toISOString(),
       metadata: {
         sources: searchResults.map((r) => r.documentId),
+        // Knowledge Page 결과는 청크가 아니므로 제외
+        chunkIds: routerResult.shouldUseRAG
+          ? searchResults.filter((r) => r.source !== 'knowledge_page').map((r) => r.chunkId)
+          : [],
+        intent: routerResult.intent,
+        noResult,
+        ...(groundedness && { groundedness }),
       },
     };
 
-    await addMessageToConversation(tenantId, conversation.sessionId, userMessage);
-    await addMessageToConversation(tenantId, conversation.sessionId, assistantMessage);
+    await addMessageToConversation(tenantId, conversation.id, userMessage);
+    await addMessageToConversation(tenantId, conversation.id, assistantMessage);
     timings['8_message_save'] = Date.now() - stepStart;
 
+    // 대화 메모리 요약 갱신 (비동기, Fire-and-Forget)
+    // 히스토리 창 밖으로 밀려난 턴이 쌓이면 요약에 합친다
+    if (includeHistory) {
+      refreshConversationMemory(
+        tenantId,
+        conversation.id,
+        [...conversation.messages, userMessage, assistantMessage],
+        conversation.memory ?? null,
+        { ...DEFAULT_MEMORY_POLICY, historyLimit },
+        {
+          tenantId,
+          chatbotId: chatbotId ?? undefined,
+          conversationId: conversation.id,
+          featureType: 'memory_summary',
+        }
+      ).catch(() => {});
+    }
+
     // 9. 사용량 기록 (토큰 추정)
     stepStart = Date.now();
     const estimatedTokens = Math.ceil(responseText.length / 4);
-    await updateUsageLog(tenantId, estimatedTokens);
+    await updateUsageLog(tenantId, estimatedTokens, chatbot?.id);
 
     if (isNewConversation) {
-      await incrementConversationCount(tenantId);
+      await incrementConversationCount(tenantId, chatbot?.id);
     }
     timings['9_usage_log'] = Date.now() - stepStart;
 
     // 10. 응답 캐싱 (DOMAIN_QUERY이고 RAG 품질이 좋은 경우만)
     stepStart = Date.now();
-    if (routerResult.shouldUseRAG && searchResults.length > 0 && searchResults[0].score > 0.7) {
-      await cacheResponse(tenantId, request.message, responseText);
+    if (
+      useCache &&
+      routerResult.shouldUseRAG &&
+      !noResult &&
+      searchResults.length > 0 &&
+      searchResults[0].score > 0.7
+    ) {
+      // 캐시 히트 시에는 각주가 없으므로 마커를 제거해 저장 (카카오톡과 캐시 공유)
+      await cacheResponse(
+        tenantId,
+        request.message,
+        citations ? stripCitationMarkers(responseText) : responseText,
+        cacheScope
+      );
     }
     timings['10_cache_save'] = Date.now() - stepStart;
 
+    // 11. 상담원 연결 제안 (연속 "정보 없음" 또는 낮은 Intent 신뢰도)
+    const handoff = await evaluateHandoffForAnswer(chatbot, conversation.messages, {
+      noResult,
+      intentConfidence: intentResult.confidence,
+    });
+
+    // 7.5 후속 질문 제안 결과 (시간 초과/실패 시 빈 배열)
+    const generatedSuggestions = suggestionsPromise ? await suggestionsPromise : [];
+    const suggestions = generatedSuggestions.length > 0 ? generatedSuggestions : undefined;
+
     const duration = Date.now() - startTime;
     logger.info('Chat response generated', {
       tenantId,
@@ -396,6 +643,7 @@ export async function processChat(
       intent: routerResult.intent,
       usedRAG: routerResult.shouldUseRAG,
       rerankApplied,
+      reranker: rerankerUsed,
       chunksUsed: searchResults.length,
       estimatedTokens,
       duration,
@@ -413,22 +661,28 @@ export async function processChat(
       cacheHit: false,
       chunksUsed: searchResults.length,
       estimatedTokens,
+      reranker: rerankerUsed,
     }).catch(() => {});
 
     return {
       message: responseText,
       sessionId: conversation.sessionId,
+      messageId: assistantMessage.id,
       sources: routerResult.shouldUseRAG
         ? searchResults.map((r) => ({
             documentId: r.documentId,
             chunkId: r.chunkId,
             pageId: r.pageId, // Knowledge Pages 소스인 경우
+            location: formatSourceLocation(r.metadata?.sourceLocation) ?? undefined,
             content: r.content.slice(0, 200) + (r.content.length > 200 ? '...' : ''),
             score: r.score,
           }))
         : undefined,
+      citations,
+      suggestions,
       cached: false,
       intent: routerResult.intent,
+      handoff,
     };
   } catch (error) {
     logger.error('Chat processing failed', error as Error, {
@@ -0,0 +1,143 @@
+/**
+ * 후속 질문 제안 생성
+ * 검색 결과와 인접 Knowledge Page(같은 부모/하위 페이지)를 근거로 후속 질문을 만든다.
+ */
+
+import { db, knowledgePages } from '@/lib/db';
+import { and, eq, inArray, isNull, notInArray, or } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { generateWithFallback, type TrackingContext } from '@/lib/rag/generator';
+import type { SearchResult } from '@/lib/rag/retrieval';
+import {
+  SUGGESTION_SYSTEM_PROMPT,
+  buildSuggestionPrompt,
+  parseSuggestions,
+  type SuggestionContext,
+} from '@/lib/rag/suggestions';
+
+// 근거로 사용할 검색 결과 수
+const MAX_CONTEXT_RESULTS = 3;
+// 인접 페이지 제목 최대 수
+const MAX_RELATED_PAGES = 8;
+// 제안 생성 대기 상한 (넘기면 제안 없이 답변만 반환)
+export const SUGGESTIONS_TIMEOUT_MS = 2500;
+// 카카오톡 대기 상한 (스킬 응답 제한 시간 4초 안에 답변과 함께 반환)
+export const KAKAO_SUGGESTIONS_TIMEOUT_MS = 1000;
+
+/**
+ * 검색된 Knowledge Page의 인접 페이지 제목 조회
+ * 형제 페이지와 하위 페이지 중 발행된 페이지만 포함한다.
+ */
+async function getNeighborPageTitles(
+  chatbotId: string,
+  searchResults: SearchResult[]
+): Promise<string[]> {
+  const pageIds = [...new Set(searchResults.flatMap((r) => (r.pageId ? [r.pageId] : [])))];
+  if (pageIds.length === 0) {
+    return [];
+  }
+
+  const pages = await db
+    .select({ parentId: knowledgePages.parentId })
+    .from(knowledgePages)
+    .where(and(eq(knowledgePages.chatbotId, chatbotId), inArray(knowledgePages.id, pageIds)));
+
+  const parentIds = [...new Set(pages.flatMap((p) => (p.parentId ? [p.parentId] : [])))];
+  const hasRootPage = pages.some((p) => !p.parentId);
+
+  const neighborConditions = [inArray(knowledgePages.parentId, pageIds)];
+  if (parentIds.length > 0) {
+    neighborConditions.push(inArray(knowledgePages.parentId, parentIds));
+  }
+  if (hasRootPage) {
+    neighborConditions.push(isNull(knowledgePages.parentId));
+  }
+
+  const neighbors = await db
+    .select({ title: knowledgePages.title })
+    .from(knowledgePages)
+    .where(
+      and(
+        eq(knowledgePages.chatbotId, chatbotId),
+        eq(knowledgePages.status, 'published'),
+        notInArray(knowledgePages.id, pageIds),
+        or(...neighborConditions)
+      )
+    )
+    .orderBy(knowledgePages.depth, knowledgePages.sortOrder)
+    .limit(MAX_RELATED_PAGES);
+
+  return neighbors.map((n) => n.title);
+}
+
+/**
+ * 답변 이후 후속 질문 2~3개 생성
+ * 실패하거나 timeoutMs 안에 끝나지 않으면 빈 배열을 반환한다 (답변 응답에는 영향 없음).
+ */
+export async function generateFollowUpSuggestions(
+  question: string,
+  answer: string,
+  searchResults: SearchResult[],
+  trackingContext: TrackingContext,
+  timeoutMs: number = SUGGESTIONS_TIMEOUT_MS
+): Promise<string[]> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<string[]>((resolve) => {
+    timer = setTimeout(() => {
+      logger.warn('Follow-up suggestion generation timed out', {
+        tenantId: trackingContext.tenantId,
+        chatbotId: trackingContext.chatbotId,
+        timeoutMs,
+      });
+      resolve([]);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      buildFollowUpSuggestions(question, answer, searchResults, trackingContext),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function buildFollowUpSuggestions(
+  question: string,
+  answer: string,
+  searchResults: SearchResult[],
+  trackingContext: TrackingContext
+): Promise<string[]> {
+  try {
+    const contexts: SuggestionContext[] = searchResults
+      .slice(0, MAX_CONTEXT_RESULTS)
+      .map((r) => ({
+        title: typeof r.metadata?.title === 'string' ? r.metadata.title : undefined,
+        content: r.content,
+      }));
+
+    const relatedTopics = trackingContext.chatbotId
+      ? await getNeighborPageTitles(trackingContext.chatbotId, searchResults)
+      : [];
+
+    const raw = await generateWithFallback(
+      SUGGESTION_SYSTEM_PROMPT,
+      buildSuggestionPrompt(question, answer, contexts, relatedTopics),
+      {
+        temperature: 0.5,
+        maxTokens: 200,
+        trackingContext: { ...trackingContext, featureType: 'follow_up_suggestion' },
+      }
+    );
+
+    return parseSuggestions(raw, question);
+  } catch (error) {
+    logger.warn('Follow-up suggestion generation failed', {
+      tenantId: trackingContext.tenantId,
+      chatbotId: trackingContext.chatbotId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
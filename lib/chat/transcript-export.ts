@@ -0,0 +1,100 @@
+/**
+ * 대화 기록 내보내기 포맷터
+ * 인박스 내보내기(CSV/JSONL)용 순수 변환 함수
+ */
+
+import type { ChatMessage } from './types';
+
+export type ExportFormat = 'csv' | 'jsonl';
+
+export interface ConversationTranscript {
+  id: string;
+  sessionId: string;
+  channel: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 내보내기 행 (메시지 1건 = 1행)
+ */
+export interface TranscriptExportRow {
+  conversationId: string;
+  sessionId: string;
+  channel: string;
+  messageIndex: number;
+  role: ChatMessage['role'];
+  content: string;
+  timestamp: string;
+  intent: string;
+  cached: boolean;
+  noResult: boolean;
+}
+
+/**
+ * 대화 기록 → 내보내기 행 변환 (메시지 단위로 평탄화)
+ */
+export function flattenTranscripts(transcripts: ConversationTranscript[]): TranscriptExportRow[] {
+  return transcripts.flatMap((conversation) =>
+    conversation.messages.map((message, index) => ({
+      conversationId: conversation.id,
+      sessionId: conversation.sessionId,
+      channel: conversation.channel,
+      messageIndex: index,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      intent: message.metadata?.intent ?? '',
+      cached: message.metadata?.cached ?? false,
+      noResult: message.metadata?.noResult ?? false,
+    }))
+  );
+}
+
+const EXPORT_COLUMNS: Array<keyof TranscriptExportRow> = [
+  'conversationId',
+  'sessionId',
+  'channel',
+  'messageIndex',
+  'role',
+  'content',
+  'timestamp',
+  'intent',
+  'cached',
+  'noResult',
+];
+
+/**
+ * CSV 셀 이스케이프 (RFC 4180)
+ * 사용자 입력이 스프레드시트에서 수식으로 실행되지 않도록 수식 시작 문자 앞에 '를 붙인다.
+ */
+function escapeCsvCell(value: unknown): string {
+  let str = String(value ?? '');
+  if (/^[=+\-@\t\r]/.test(str)) {
+    str = `'${str}`;
+  }
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * 내보내기 행 → CSV 문자열
+ * Excel에서 한글이 깨지지 않도록 UTF-8 BOM을 붙인다.
+ */
+export function toCsv(rows: TranscriptExportRow[]): string {
+  const lines = [EXPORT_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(EXPORT_COLUMNS.map((column) => escapeCsvCell(row[column])).join(','));
+  }
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+/**
+ * 대화 기록 → JSONL 문자열 (대화 1건 = 1줄)
+ */
+export function toJsonl(transcripts: ConversationTranscript[]): string {
+  return transcripts.map((conversation) => JSON.stringify(conversation)).join('\n');
+}
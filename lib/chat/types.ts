@@ -2,14 +2,35 @@
  * 채팅 관련 타입 정의
  */
 
+import type { Citation } from '@/lib/rag/citations';
+import type { MetadataFilter } from '@/lib/rag/metadata-filter';
+import type { HandoffState, HandoffStatus } from '@/lib/handoff/types';
+import type { ConversationMemory } from './memory';
+
 export interface ChatMessage {
+  /** 메시지 ID (어시스턴트 응답 피드백 연결용, 과거 메시지에는 없을 수 있음) */
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
   metadata?: {
     sources?: string[];
+    /** 답변 생성에 사용된 청크 ID (피드백 → 검토 큐 전송용) */
+    chunkIds?: string[];
     tokenUsage?: number;
     cached?: boolean;
+    /** Intent 분류 결과 (인박스 필터용) */
+    intent?: 'CHITCHAT' | 'DOMAIN_QUERY' | 'OUT_OF_SCOPE';
+    /** 검색 결과 부족으로 "정보 없음" 응답을 반환했는지 */
+    noResult?: boolean;
+    /** 근거 검증 가드가 답변을 재생성/대체했는지 (근거 없는 값 포함) */
+    groundedness?: {
+      action: 'regenerated' | 'fallback';
+      unsupportedClaims: string[];
+    };
+    /** 상담원이 직접 보낸 메시지인지 */
+    operator?: boolean;
+    operatorName?: string;
   };
 }
 
@@ -18,22 +39,36 @@ export interface ChatRequest {
   sessionId?: string;
   channel?: 'web' | 'kakao' | 'public_page';
   chatbotId?: string;
+  /** 카카오 콜백 URL (상담원 응대 중 답변을 나중에 전달할 때 사용) */
+  callbackUrl?: string;
+  /** 요청별 검색 메타데이터 필터 (챗봇 기본 필터와 AND로 결합, 지정하면 Knowledge Page는 검색하지 않음) */
+  filters?: MetadataFilter;
 }
 
 export interface ChatResponse {
   message: string;
   sessionId: string;
+  /** 어시스턴트 메시지 ID (피드백 전송용) */
+  messageId?: string;
   sources?: Array<{
     documentId: string;
     chunkId: string;
     /** Knowledge Page ID (블로그 페이지 소스인 경우) */
     pageId?: string;
+    /** 문서 내 위치 (XLSX 시트/행, PPTX 슬라이드) */
+    location?: string;
     content: string;
     score: number;
   }>;
+  /** 답변 본문 마커([1])에 대응하는 각주 (출처 표기 모드에서만) */
+  citations?: Citation[];
+  /** 후속 질문 제안 (후속 질문 제안을 켠 챗봇의 DOMAIN_QUERY 답변에만) */
+  suggestions?: string[];
   cached?: boolean;
   /** Intent 분류 결과 (새로운 Intent-Aware RAG 시스템) */
   intent?: 'CHITCHAT' | 'DOMAIN_QUERY' | 'OUT_OF_SCOPE';
+  /** 상담원 연결 상태 (연결 제안 또는 대기/응대 중) */
+  handoff?: HandoffState;
 }
 
 export interface ConversationContext {
@@ -43,6 +78,10 @@ export interface ConversationContext {
   channel: 'web' | 'kakao' | 'public_page';
   chatbotId?: string;
   messages: ChatMessage[];
+  /** 상담원 연결 상태 (없으면 봇이 응답) */
+  handoffStatus: HandoffStatus | null;
+  /** 히스토리 창 밖으로 밀려난 턴의 누적 요약 (metadata.memory) */
+  memory?: ConversationMemory | null;
 }
 
 export interface ChatOptions {
@@ -0,0 +1,289 @@
+/**
+ * 웹사이트 크롤러
+ *
+ * 수집 흐름:
+ * 1. 시작 대상: sitemap 타입은 sitemap(하위 sitemap 포함)의 URL, page 타입은 시작 URL
+ * 2. frontier에서 배치 단위로 페이지를 수집 (robots.txt, noindex 확인 후 본문 마크다운 추출)
+ * 3. page 타입은 수집한 페이지의 링크를 깊이 제한 안에서 frontier에 추가
+ *    리다이렉트된 URL은 최종 URL을 같은 깊이로 다시 추가해 중복 문서를 막는다.
+ *
+ * 배치 처리(runCrawlLoop의 processBatch)는 직렬화 가능한 결과만 반환하므로
+ * Inngest step으로 감싸도 재실행 시 frontier가 같은 순서로 복원된다.
+ */
+
+import { createHash } from 'crypto';
+import { extractPageContent } from './html-to-markdown';
+import { ALLOW_ALL_ROBOTS, parseRobotsTxt } from './robots';
+import { parseSitemap } from './sitemap';
+import {
+  isLikelyHtmlUrl,
+  isSameSite,
+  matchesPathRules,
+  normalizeUrl,
+  type PathRules,
+} from './url-rules';
+import { CRAWLER_AGENT_TOKEN, fetchResource, type FetchOptions } from './fetcher';
+
+export type WebSourceType = 'page' | 'sitemap';
+
+export interface CrawlConfig extends PathRules {
+  /** 시작 URL 또는 sitemap.xml URL */
+  url: string;
+  sourceType: WebSourceType;
+  /** 수집할 최대 페이지 수 */
+  maxPages: number;
+  /** 시작 URL로부터 링크 깊이 (page 타입만) */
+  maxDepth: number;
+}
+
+export interface CrawlOptions extends FetchOptions {
+  /** 같은 사이트 요청 간 대기 시간 (기본 200ms) */
+  requestDelayMs?: number;
+}
+
+export interface CrawlTarget {
+  url: string;
+  depth: number;
+  /** false면 링크 탐색용으로만 방문 (경로 규칙에 맞지 않는 시작 URL) */
+  collect: boolean;
+}
+
+export interface CrawledPage {
+  /** 요청 URL (문서 식별 키, 리다이렉트된 URL은 최종 URL로 다시 수집) */
+  url: string;
+  title: string | null;
+  /** 문서로 저장할 마크다운 (제목, 출처 URL 포함) */
+  content: string;
+  /** content의 SHA-256 (변경 감지용) */
+  contentHash: string;
+}
+
+export type PageCrawlResult =
+  | { url: string; status: 'ok'; page: CrawledPage | null; links: string[] }
+  | {
+      url: string;
+      status: 'skipped';
+      reason: 'robots' | 'noindex' | 'not_html' | 'empty' | 'redirect';
+      links: string[];
+      /** reason이 redirect일 때 최종 URL */
+      redirectedTo?: string;
+    }
+  | { url: string; status: 'failed'; error: string; links: string[] };
+
+// sitemap index에서 따라갈 최대 하위 sitemap 수
+const MAX_SITEMAPS = 20;
+const DEFAULT_REQUEST_DELAY_MS = 200;
+// 본문으로 인정할 최소 글자 수 (메뉴만 있는 페이지 제외)
+const MIN_CONTENT_LENGTH = 50;
+
+/**
+ * 수집 대기열 (중복/사이트 밖/경로 규칙/깊이/최대 페이지 수 검사)
+ */
+export class CrawlFrontier {
+  private readonly queue: CrawlTarget[] = [];
+  private readonly seen = new Set<string>();
+  private accepted = 0;
+
+  constructor(private readonly config: CrawlConfig) {}
+
+  /**
+   * 대상 추가
+   *
+   * @param force - 경로 규칙과 관계없이 방문 (page 타입 시작 URL, 링크 탐색용)
+   * @returns 추가 여부
+   */
+  add(rawUrl: string, depth: number, force = false): boolean {
+    const url = normalizeUrl(rawUrl);
+    if (!url || this.seen.has(url)) return false;
+    if (this.accepted >= this.config.maxPages) return false;
+    if (!isSameSite(url, this.config.url) || !isLikelyHtmlUrl(url)) return false;
+
+    const collect = matchesPathRules(url, this.config);
+    if (!collect && !force) return false;
+
+    this.seen.add(url);
+    this.accepted++;
+    this.queue.push({ url, depth, collect });
+    return true;
+  }
+
+  /** 다음 배치 꺼내기 */
+  next(size: number): CrawlTarget[] {
+    return this.queue.splice(0, size);
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+}
+
+/**
+ * 수집 루프
+ *
+ * @param processBatch - 배치 수집 (결과의 links로 다음 대상을 찾음)
+ * @returns 배치별 결과
+ */
+export async function runCrawlLoop<T extends { links: string[]; redirectedTo?: string }>(
+  config: CrawlConfig,
+  seeds: CrawlTarget[],
+  batchSize: number,
+  processBatch: (targets: CrawlTarget[], batchIndex: number) => Promise<T[]>
+): Promise<T[]> {
+  const frontier = new CrawlFrontier(config);
+  for (const seed of seeds) frontier.add(seed.url, seed.depth, !seed.collect);
+
+  const results: T[] = [];
+  for (let batchIndex = 0; frontier.pending > 0; batchIndex++) {
+    const targets = frontier.next(batchSize);
+    const batchResults = await processBatch(targets, batchIndex);
+    results.push(...batchResults);
+
+    targets.forEach((target, i) => {
+      const redirectedTo = batchResults[i]?.redirectedTo;
+      if (redirectedTo) frontier.add(redirectedTo, target.depth, !target.collect);
+
+      if (config.sourceType !== 'page' || target.depth >= config.maxDepth) return;
+      for (const link of batchResults[i]?.links ?? []) frontier.add(link, target.depth + 1);
+    });
+  }
+  return results;
+}
+
+/**
+ * 시작 대상 계산
+ * sitemap 타입은 sitemap의 URL 전체(깊이 0), page 타입은 시작 URL (경로 규칙 밖이면 탐색용)
+ */
+export async function discoverSeedTargets(
+  config: CrawlConfig,
+  options: CrawlOptions = {}
+): Promise<CrawlTarget[]> {
+  if (config.sourceType === 'page') {
+    const url = normalizeUrl(config.url);
+    return url ? [{ url, depth: 0, collect: matchesPathRules(url, config) }] : [];
+  }
+
+  const pageUrls: string[] = [];
+  const pendingSitemaps = [config.url];
+  const visitedSitemaps = new Set<string>();
+
+  while (pendingSitemaps.length > 0 && visitedSitemaps.size < MAX_SITEMAPS) {
+    const sitemapUrl = pendingSitemaps.shift()!;
+    if (visitedSitemaps.has(sitemapUrl)) continue;
+    visitedSitemaps.add(sitemapUrl);
+
+    const resource = await fetchResource(sitemapUrl, options);
+    const entries = parseSitemap(resource.body);
+    pageUrls.push(...entries.pageUrls);
+    pendingSitemaps.push(...entries.sitemapUrls);
+  }
+
+  return pageUrls.map((url) => ({ url, depth: 0, collect: true }));
+}
+
+/**
+ * 사이트 robots.txt 본문 (없거나 읽을 수 없으면 null)
+ */
+export async function fetchRobotsTxt(
+  siteUrl: string,
+  options: CrawlOptions = {}
+): Promise<string | null> {
+  try {
+    const resource = await fetchResource(new URL('/robots.txt', siteUrl).toString(), options);
+    return resource.contentType.includes('html') ? null : resource.body;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 배치 수집 (순차 요청, 요청 간 대기)
+ *
+ * @param robotsTxt - fetchRobotsTxt 결과 (null이면 전체 허용)
+ */
+export async function crawlPages(
+  targets: CrawlTarget[],
+  robotsTxt: string | null,
+  options: CrawlOptions = {}
+): Promise<PageCrawlResult[]> {
+  const robots = robotsTxt ? parseRobotsTxt(robotsTxt, CRAWLER_AGENT_TOKEN) : ALLOW_ALL_ROBOTS;
+  const delayMs = options.requestDelayMs ?? DEFAULT_REQUEST_DELAY_MS;
+  const results: PageCrawlResult[] = [];
+
+  for (const [index, target] of targets.entries()) {
+    if (!robots.isAllowed(target.url)) {
+      results.push({ url: target.url, status: 'skipped', reason: 'robots', links: [] });
+      continue;
+    }
+    if (index > 0 && delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+    results.push(await crawlPage(target, options));
+  }
+  return results;
+}
+
+/**
+ * 페이지 하나 수집
+ */
+export async function crawlPage(
+  target: CrawlTarget,
+  options: CrawlOptions = {}
+): Promise<PageCrawlResult> {
+  const { url } = target;
+  try {
+    const resource = await fetchResource(url, options);
+    const finalUrl = normalizeUrl(resource.url);
+    if (finalUrl && finalUrl !== url) {
+      return { url, status: 'skipped', reason: 'redirect', links: [], redirectedTo: finalUrl };
+    }
+    if (!/html/i.test(resource.contentType)) {
+      return { url, status: 'skipped', reason: 'not_html', links: [] };
+    }
+
+    const extracted = extractPageContent(resource.body, resource.url);
+    const links = extracted.nofollow ? [] : extracted.links;
+
+    if (!target.collect) return { url, status: 'ok', page: null, links };
+    if (extracted.noindex) return { url, status: 'skipped', reason: 'noindex', links };
+    if (extracted.markdown.replace(/\s+/g, '').length < MIN_CONTENT_LENGTH) {
+      return { url, status: 'skipped', reason: 'empty', links };
+    }
+
+    const content = buildPageDocument(url, extracted.title, extracted.markdown);
+    return {
+      url,
+      status: 'ok',
+      page: {
+        url,
+        title: extracted.title,
+        content,
+        contentHash: hashContent(content),
+      },
+      links,
+    };
+  } catch (error) {
+    return {
+      url,
+      status: 'failed',
+      error: error instanceof Error ? error.message : '알 수 없는 오류',
+      links: [],
+    };
+  }
+}
+
+/**
+ * 문서로 저장할 마크다운 (제목 + 출처 URL + 본문)
+ * 본문 첫 제목이 페이지 제목과 같으면 중복을 피한다.
+ */
+export function buildPageDocument(url: string, title: string | null, markdown: string): string {
+  const body = title ? markdown.replace(new RegExp(`^# ${escapeRegExp(title)}\\n+`), '') : markdown;
+  return [title ? `# ${title}` : null, `출처: ${url}`, body].filter(Boolean).join('\n\n');
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,329 @@
+/**
+ * 크롤러 HTTP 요청
+ *
+ * - 고객이 입력한 URL을 서버에서 요청하므로, 사설/루프백/링크 로컬 주소는 차단한다 (SSRF 방지)
+ *   리다이렉트는 직접 따라가며 단계마다 다시 검사한다.
+ *   실제 연결도 검사한 주소로만 맺도록 DNS 조회 결과를 연결 시점에 다시 검사한다 (DNS 리바인딩 방지).
+ * - 응답 크기와 시간을 제한하고, Content-Type/meta charset 기준으로 디코딩한다.
+ *
+ * 로컬 테스트 서버를 대상으로 할 때는 allowPrivateNetwork(또는 CRAWLER_ALLOW_PRIVATE_NETWORK=true)를 사용한다.
+ */
+
+import { lookup as lookupCallback, type LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { Agent, fetch, type Response } from 'undici';
+
+export const CRAWLER_USER_AGENT = 'Mozilla/5.0 (compatible; SofaBot/1.0)';
+/** robots.txt 그룹 매칭용 제품 토큰 */
+export const CRAWLER_AGENT_TOKEN = 'SofaBot';
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024; // 5MB
+const MAX_REDIRECTS = 5;
+
+export interface FetchOptions {
+  /** 사설 네트워크 주소 허용 (기본: CRAWLER_ALLOW_PRIVATE_NETWORK 환경 변수) */
+  allowPrivateNetwork?: boolean;
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+export interface FetchedResource {
+  /** 리다이렉트 후 최종 URL */
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * 크롤링 요청 실패 (차단된 주소, 크기 초과, HTTP 오류 등)
+ */
+export class CrawlFetchError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'CrawlFetchError';
+  }
+}
+
+function isPrivateNetworkAllowed(options: FetchOptions): boolean {
+  return options.allowPrivateNetwork ?? process.env.CRAWLER_ALLOW_PRIVATE_NETWORK === 'true';
+}
+
+/**
+ * 연결 시점 DNS 조회 (내부 주소가 하나라도 있으면 연결 거부)
+ * assertFetchableUrl 검사 이후 DNS 응답이 바뀌어도 내부 주소로 연결되지 않는다.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(
+        Object.assign(new Error(`내부 네트워크 주소로 연결할 수 없습니다: ${hostname}`), {
+          code: 'EPRIVATEADDRESS',
+        }),
+        '',
+        0
+      );
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** 공인 주소로만 연결하는 디스패처 */
+const publicOnlyDispatcher = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+/**
+ * URL 요청 (리다이렉트 단계마다 주소 검사)
+ *
+ * @throws CrawlFetchError
+ */
+export async function fetchResource(
+  url: string,
+  options: FetchOptions = {}
+): Promise<FetchedResource> {
+  let current = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertFetchableUrl(current, options);
+
+    let response: Response;
+    try {
+      response = await fetch(current, {
+        redirect: 'manual',
+        ...(!isPrivateNetworkAllowed(options) && { dispatcher: publicOnlyDispatcher }),
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+        headers: {
+          'User-Agent': CRAWLER_USER_AGENT,
+          Accept:
+            'text/html,application/xhtml+xml,application/xml;q=0.9,text/plain;q=0.8,*/*;q=0.5',
+        },
+      });
+    } catch (error) {
+      // fetch는 연결 오류를 cause에 담는다 (내부 주소 연결 거부 등)
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      throw new CrawlFetchError(
+        `요청 실패: ${cause instanceof Error ? cause.message : '알 수 없는 오류'}`,
+        current
+      );
+    }
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new CrawlFetchError(`HTTP ${response.status}`, current, response.status);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const bytes = await readBody(response, current, options.maxBytes ?? DEFAULT_MAX_BYTES);
+    return {
+      url: current,
+      status: response.status,
+      contentType,
+      body: decodeBody(bytes, contentType),
+    };
+  }
+
+  throw new CrawlFetchError('리다이렉트가 너무 많습니다', url);
+}
+
+/**
+ * 요청 가능한 URL인지 검사 (http(s), 공인 주소)
+ *
+ * @throws CrawlFetchError
+ */
+export async function assertFetchableUrl(url: string, options: FetchOptions = {}): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new CrawlFetchError('올바른 URL이 아닙니다', url);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new CrawlFetchError('http(s) URL만 수집할 수 있습니다', url);
+  }
+  if (isPrivateNetworkAllowed(options)) return;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map((entry) => entry.address);
+    } catch {
+      throw new CrawlFetchError(`호스트를 찾을 수 없습니다: ${hostname}`, url);
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new CrawlFetchError('내부 네트워크 주소는 수집할 수 없습니다', url);
+  }
+}
+
+// 차단할 IPv4 대역
+const PRIVATE_IPV4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // CGNAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // 링크 로컬 (클라우드 메타데이터)
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 16],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3], // 멀티캐스트, 예약
+] as const) {
+  PRIVATE_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+
+// 차단할 IPv6 대역 (IPv4를 담는 형식은 isPrivateAddress에서 IPv4로 검사)
+const PRIVATE_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b:1::', 48], // 로컬 NAT64
+  ['100::', 64], // 폐기 대역
+  ['2001:db8::', 32], // 문서용
+  ['fc00::', 7], // 고유 로컬
+  ['fe80::', 10], // 링크 로컬
+  ['ff00::', 8], // 멀티캐스트
+] as const) {
+  PRIVATE_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * 사설/루프백/링크 로컬/예약 주소 여부
+ * IPv4 매핑(::ffff:7f00:1), IPv4 호환(::7f00:1), NAT64(64:ff9b::/96), 6to4(2002::/16) 주소는
+ * 안에 담긴 IPv4 주소로 판단한다. IP가 아니면 차단 대상으로 본다.
+ */
+export function isPrivateAddress(address: string): boolean {
+  // 영역 ID (fe80::1%eth0) 제거
+  const ip = address.replace(/%.*$/, '');
+  const version = isIP(ip);
+  if (version === 4) return PRIVATE_IPV4.check(ip, 'ipv4');
+  if (version !== 6) return true;
+
+  const embedded = embeddedIPv4(ip);
+  if (embedded) return isPrivateAddress(embedded);
+  return PRIVATE_IPV6.check(ip, 'ipv6');
+}
+
+/**
+ * IPv6 주소에 담긴 IPv4 주소 (해당 형식이 아니면 null)
+ */
+function embeddedIPv4(ip: string): string | null {
+  const hextets = expandIPv6(ip);
+  const toIPv4 = (high: number, low: number) =>
+    [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+  const zeros = (from: number, to: number) => hextets.slice(from, to).every((h) => h === 0);
+
+  // ::ffff:a.b.c.d (매핑), ::ffff:0:a.b.c.d (SIIT), ::a.b.c.d (호환)
+  if (zeros(0, 5) && (hextets[5] === 0xffff || hextets[5] === 0)) {
+    return toIPv4(hextets[6], hextets[7]);
+  }
+  if (zeros(0, 4) && hextets[4] === 0xffff && hextets[5] === 0) {
+    return toIPv4(hextets[6], hextets[7]);
+  }
+  // 64:ff9b::a.b.c.d (NAT64)
+  if (hextets[0] === 0x64 && hextets[1] === 0xff9b && zeros(2, 6)) {
+    return toIPv4(hextets[6], hextets[7]);
+  }
+  // 2002:aabb:ccdd:: (6to4)
+  if (hextets[0] === 0x2002) {
+    return toIPv4(hextets[1], hextets[2]);
+  }
+  return null;
+}
+
+/**
+ * IPv6 주소 → 16비트 값 8개 (isIP로 검증된 주소만 전달)
+ */
+function expandIPv6(ip: string): number[] {
+  const toHextets = (part: string): number[] =>
+    part === ''
+      ? []
+      : part.split(':').flatMap((group) => {
+          if (!group.includes('.')) return [parseInt(group, 16)];
+          const [a, b, c, d] = group.split('.').map(Number);
+          return [(a << 8) | b, (c << 8) | d];
+        });
+
+  const [head, tail] = ip.toLowerCase().split('::');
+  const headHextets = toHextets(head);
+  if (tail === undefined) return headHextets;
+
+  const tailHextets = toHextets(tail);
+  const fill = new Array(8 - headHextets.length - tailHextets.length).fill(0);
+  return [...headHextets, ...fill, ...tailHextets];
+}
+
+async function readBody(response: Response, url: string, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new CrawlFetchError('응답이 너무 큽니다', url);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new CrawlFetchError('응답이 너무 큽니다', url);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * 응답 본문 디코딩 (Content-Type charset → <meta charset> → UTF-8)
+ */
+function decodeBody(bytes: Uint8Array, contentType: string): string {
+  const headerCharset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const metaCharset = /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1];
+
+  for (const charset of [headerCharset, metaCharset, 'utf-8']) {
+    if (!charset) continue;
+    try {
+      return new TextDecoder(charset.toLowerCase()).decode(bytes);
+    } catch {
+      // 지원하지 않는 charset은 다음 후보로
+    }
+  }
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,335 @@
+/**
+ * HTML → 마크다운 본문 추출
+ *
+ * <main>, [role=main], 단일 <article> 순으로 본문 영역을 고르고 (없으면 <body>),
+ * 내비게이션/헤더/푸터/스크립트 등 본문이 아닌 요소는 제외한다.
+ * 링크는 본문 영역과 관계없이 문서 전체에서 수집한다 (크롤링 대상 탐색용).
+ */
+
+import { parse, type DefaultTreeAdapterTypes } from 'parse5';
+import { normalizeUrl } from './url-rules';
+
+type Node = DefaultTreeAdapterTypes.Node;
+type Element = DefaultTreeAdapterTypes.Element;
+type ParentNode = DefaultTreeAdapterTypes.ParentNode;
+
+export interface ExtractedPage {
+  /** <title> (없으면 첫 번째 h1) */
+  title: string | null;
+  markdown: string;
+  /** 문서 내 링크 (절대 URL, 정규화, 중복 제거) */
+  links: string[];
+  /** <link rel="canonical"> */
+  canonicalUrl: string | null;
+  /** <meta name="robots" content="noindex"> */
+  noindex: boolean;
+  /** <meta name="robots" content="nofollow"> */
+  nofollow: boolean;
+}
+
+// 본문에서 제외하는 요소
+const SKIPPED_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'object',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'select',
+  'input',
+  'textarea',
+  'dialog',
+  'head',
+]);
+
+// 앞뒤로 문단을 나누는 블록 요소
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'details',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'hr',
+  'li',
+  'main',
+  'ol',
+  'p',
+  'section',
+  'summary',
+  'table',
+  'ul',
+]);
+
+/**
+ * HTML에서 제목, 본문 마크다운, 링크 추출
+ *
+ * @param pageUrl - 상대 링크 해석 기준 URL
+ */
+export function extractPageContent(html: string, pageUrl: string): ExtractedPage {
+  const document = parse(html);
+  const elements = collectElements(document);
+
+  const base = elements.find((el) => el.tagName === 'base');
+  const baseUrl = normalizeUrl(getAttr(base?.attrs, 'href') ?? '', pageUrl) ?? pageUrl;
+
+  const robots = elements
+    .filter((el) => el.tagName === 'meta' && getAttr(el.attrs, 'name')?.toLowerCase() === 'robots')
+    .map((el) => getAttr(el.attrs, 'content')?.toLowerCase() ?? '')
+    .join(',');
+
+  const canonical = elements.find(
+    (el) => el.tagName === 'link' && getAttr(el.attrs, 'rel')?.toLowerCase() === 'canonical'
+  );
+
+  const links = new Set<string>();
+  for (const el of elements) {
+    if (el.tagName !== 'a') continue;
+    if (getAttr(el.attrs, 'rel')?.toLowerCase().includes('nofollow')) continue;
+    const href = getAttr(el.attrs, 'href');
+    const url = href ? normalizeUrl(href, baseUrl) : null;
+    if (url) links.add(url);
+  }
+
+  const root = findMainElement(elements);
+  const markdown = root ? renderMarkdown(root) : '';
+  const titleElement = elements.find((el) => el.tagName === 'title');
+  const h1 = root && collectElements(root).find((el) => el.tagName === 'h1');
+
+  return {
+    title:
+      collapseWhitespace(textContent(titleElement)) || collapseWhitespace(textContent(h1)) || null,
+    markdown,
+    links: [...links],
+    canonicalUrl: canonical ? normalizeUrl(getAttr(canonical.attrs, 'href') ?? '', baseUrl) : null,
+    noindex: /\b(noindex|none)\b/.test(robots),
+    nofollow: /\b(nofollow|none)\b/.test(robots),
+  };
+}
+
+/**
+ * 본문 영역 선택
+ */
+function findMainElement(elements: Element[]): Element | null {
+  const main =
+    elements.find((el) => el.tagName === 'main') ??
+    elements.find((el) => getAttr(el.attrs, 'role') === 'main');
+  if (main) return main;
+
+  const articles = elements.filter((el) => el.tagName === 'article');
+  if (articles.length === 1) return articles[0];
+
+  return elements.find((el) => el.tagName === 'body') ?? null;
+}
+
+// ============================================
+// 마크다운 렌더링
+// ============================================
+
+/**
+ * 블록 단위 마크다운 작성기
+ * 인라인 텍스트를 모았다가 블록 요소를 만나면 문단으로 내보낸다.
+ */
+class MarkdownWriter {
+  readonly blocks: string[] = [];
+  private inline = '';
+
+  text(value: string) {
+    this.inline += value;
+  }
+
+  flush() {
+    const paragraph = this.inline.split('\n').map(collapseWhitespace).filter(Boolean).join('\n');
+    if (paragraph) this.blocks.push(paragraph);
+    this.inline = '';
+  }
+
+  block(value: string) {
+    this.flush();
+    if (value.trim()) this.blocks.push(value);
+  }
+}
+
+function renderMarkdown(root: Element): string {
+  const writer = new MarkdownWriter();
+  for (const child of root.childNodes) renderNode(child, writer, 0);
+  writer.flush();
+  return writer.blocks.join('\n\n');
+}
+
+function renderNode(node: Node, writer: MarkdownWriter, listDepth: number): void {
+  if (node.nodeName === '#text') {
+    // HTML 소스의 줄바꿈은 공백과 같다 (줄바꿈은 <br>만)
+    writer.text((node as DefaultTreeAdapterTypes.TextNode).value.replace(/\s+/g, ' '));
+    return;
+  }
+  if (!isElement(node) || isHidden(node)) return;
+
+  const tag = node.tagName;
+  if (SKIPPED_TAGS.has(tag)) return;
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    writer.block(`${'#'.repeat(Number(heading[1]))} ${inlineText(node)}`);
+    return;
+  }
+
+  switch (tag) {
+    case 'br':
+      writer.text('\n');
+      return;
+    case 'img':
+      return;
+    case 'code':
+      writer.text(`\`${collapseWhitespace(textContent(node))}\``);
+      return;
+    case 'pre':
+      writer.block(`\`\`\`\n${textContent(node).replace(/\n+$/, '')}\n\`\`\``);
+      return;
+    case 'ul':
+    case 'ol':
+      writer.block(renderList(node, tag === 'ol', listDepth));
+      return;
+    case 'table':
+      writer.block(renderTable(node));
+      return;
+    case 'blockquote': {
+      const inner = new MarkdownWriter();
+      for (const child of node.childNodes) renderNode(child, inner, listDepth);
+      inner.flush();
+      writer.block(
+        inner.blocks
+          .join('\n\n')
+          .split('\n')
+          .map((line) => `> ${line}`.trimEnd())
+          .join('\n')
+      );
+      return;
+    }
+  }
+
+  const isBlock = BLOCK_TAGS.has(tag);
+  if (isBlock) writer.flush();
+  for (const child of node.childNodes) renderNode(child, writer, listDepth);
+  if (isBlock) writer.flush();
+}
+
+function renderList(list: Element, ordered: boolean, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  let index = 1;
+
+  for (const item of list.childNodes) {
+    if (!isElement(item) || item.tagName !== 'li' || isHidden(item)) continue;
+
+    const inner = new MarkdownWriter();
+    const nested: string[] = [];
+    for (const child of item.childNodes) {
+      if (isElement(child) && (child.tagName === 'ul' || child.tagName === 'ol')) {
+        nested.push(renderList(child, child.tagName === 'ol', depth + 1));
+      } else {
+        renderNode(child, inner, depth + 1);
+      }
+    }
+    inner.flush();
+
+    const marker = ordered ? `${index++}.` : '-';
+    const text = inner.blocks.join(' ').replace(/\n/g, ' ');
+    if (text) lines.push(`${indent}${marker} ${text}`);
+    lines.push(...nested.filter(Boolean));
+  }
+  return lines.join('\n');
+}
+
+function renderTable(table: Element): string {
+  const rows = collectElements(table)
+    .filter((el) => el.tagName === 'tr')
+    .map((row) =>
+      row.childNodes
+        .filter((cell): cell is Element => isElement(cell) && /^t[hd]$/.test(cell.tagName))
+        .map((cell) => inlineText(cell).replace(/\|/g, '\\|'))
+    )
+    .filter((cells) => cells.some(Boolean));
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const toLine = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+  return [
+    toLine(rows[0]),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...rows.slice(1).map(toLine),
+  ].join('\n');
+}
+
+/**
+ * 요소의 본문 텍스트 한 줄 (제외 요소 제외, 공백 정리)
+ */
+function inlineText(element: Element): string {
+  const writer = new MarkdownWriter();
+  for (const child of element.childNodes) renderNode(child, writer, 0);
+  writer.flush();
+  return collapseWhitespace(writer.blocks.join(' '));
+}
+
+// ============================================
+// DOM 유틸
+// ============================================
+
+function isElement(node: Node): node is Element {
+  return 'tagName' in node;
+}
+
+function isHidden(element: Element): boolean {
+  return (
+    element.attrs.some((attr) => attr.name === 'hidden') ||
+    getAttr(element.attrs, 'aria-hidden') === 'true'
+  );
+}
+
+function getAttr(
+  attrs: Array<{ name: string; value: string }> | undefined,
+  name: string
+): string | undefined {
+  return attrs?.find((attr) => attr.name === name)?.value;
+}
+
+/**
+ * 하위 요소 전체 (문서 순서, <template> 내용 제외)
+ */
+function collectElements(root: ParentNode): Element[] {
+  const result: Element[] = [];
+  const stack: Node[] = [...root.childNodes].reverse();
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (!isElement(node)) continue;
+    result.push(node);
+    for (let i = node.childNodes.length - 1; i >= 0; i--) stack.push(node.childNodes[i]);
+  }
+  return result;
+}
+
+function textContent(node: Node | undefined | null): string {
+  if (!node) return '';
+  if (node.nodeName === '#text') return (node as DefaultTreeAdapterTypes.TextNode).value;
+  if (!('childNodes' in node)) return '';
+  return node.childNodes.map(textContent).join('');
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
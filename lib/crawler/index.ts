@@ -0,0 +1,42 @@
+/**
+ * 웹사이트 크롤러 모듈 통합 export
+ */
+
+export {
+  CrawlFrontier,
+  runCrawlLoop,
+  discoverSeedTargets,
+  fetchRobotsTxt,
+  crawlPages,
+  crawlPage,
+  buildPageDocument,
+  hashContent,
+  type WebSourceType,
+  type CrawlConfig,
+  type CrawlOptions,
+  type CrawlTarget,
+  type CrawledPage,
+  type PageCrawlResult,
+} from './crawler';
+
+export {
+  fetchResource,
+  assertFetchableUrl,
+  isPrivateAddress,
+  CrawlFetchError,
+  CRAWLER_USER_AGENT,
+  type FetchOptions,
+  type FetchedResource,
+} from './fetcher';
+
+export { extractPageContent, type ExtractedPage } from './html-to-markdown';
+export { parseSitemap, type SitemapEntries } from './sitemap';
+export { parseRobotsTxt, type RobotsRules } from './robots';
+export {
+  normalizeUrl,
+  isSameSite,
+  matchesPathRules,
+  matchPathPattern,
+  parsePathPatterns,
+  type PathRules,
+} from './url-rules';
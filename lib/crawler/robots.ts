@@ -0,0 +1,109 @@
+/**
+ * robots.txt 해석
+ *
+ * 우리 크롤러(User-agent 토큰)와 '*' 그룹의 Allow/Disallow 규칙만 사용한다.
+ * 가장 긴 규칙이 우선하고, 길이가 같으면 Allow가 우선한다 (RFC 9309).
+ */
+
+export interface RobotsRules {
+  /** 경로 수집 허용 여부 */
+  isAllowed(url: string): boolean;
+  /** Sitemap 지시어 URL 목록 */
+  sitemaps: string[];
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+/** 모든 경로 허용 (robots.txt가 없거나 읽을 수 없을 때) */
+export const ALLOW_ALL_ROBOTS: RobotsRules = { isAllowed: () => true, sitemaps: [] };
+
+/**
+ * robots.txt 본문 파싱
+ *
+ * @param userAgentToken - 크롤러 제품 토큰 (예: 'SofaBot')
+ */
+export function parseRobotsTxt(content: string, userAgentToken: string): RobotsRules {
+  const agentToken = userAgentToken.toLowerCase();
+  const sitemaps: string[] = [];
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // 규칙 없이 연속된 User-agent 줄은 같은 그룹
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      continue;
+    }
+
+    if ((field === 'allow' || field === 'disallow') && current) {
+      // 빈 Disallow는 전체 허용 (규칙 없음)
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value });
+      else if (field === 'disallow') current.rules.push({ allow: true, pattern: '' });
+    }
+  }
+
+  const ownGroups = groups.filter((group) =>
+    group.agents.some((agent) => agent !== '*' && agentToken.startsWith(agent))
+  );
+  const matched =
+    ownGroups.length > 0 ? ownGroups : groups.filter((group) => group.agents.includes('*'));
+  const rules = matched.flatMap((group) => group.rules).filter((rule) => rule.pattern);
+
+  return {
+    sitemaps,
+    isAllowed(url: string) {
+      let path: string;
+      try {
+        const parsed = new URL(url);
+        path = `${parsed.pathname}${parsed.search}`;
+      } catch {
+        return false;
+      }
+
+      let best: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!matchRobotsPattern(path, rule.pattern)) continue;
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
+
+/**
+ * robots.txt 경로 패턴 (접두사 일치, '*' 와일드카드, '$' 끝 고정)
+ */
+function matchRobotsPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
@@ -0,0 +1,34 @@
+/**
+ * sitemap.xml 파싱
+ * urlset(페이지 목록)과 sitemapindex(하위 sitemap 목록)를 모두 지원한다.
+ */
+
+import { DOMParser } from '@xmldom/xmldom';
+
+export interface SitemapEntries {
+  /** 페이지 URL (<urlset><url><loc>) */
+  pageUrls: string[];
+  /** 하위 sitemap URL (<sitemapindex><sitemap><loc>) */
+  sitemapUrls: string[];
+}
+
+/**
+ * sitemap XML에서 URL 추출 (네임스페이스 없는 sitemap도 허용)
+ */
+export function parseSitemap(xml: string): SitemapEntries {
+  const parser = new DOMParser({ errorHandler: { warning: () => {}, error: () => {} } });
+  const doc = parser.parseFromString(xml, 'text/xml');
+  const pageUrls: string[] = [];
+  const sitemapUrls: string[] = [];
+
+  for (const loc of Array.from(doc.getElementsByTagNameNS('*', 'loc'))) {
+    const url = loc.textContent?.trim();
+    const parent = (loc.parentNode as Element | null)?.localName;
+    if (!url) continue;
+
+    if (parent === 'url') pageUrls.push(url);
+    else if (parent === 'sitemap') sitemapUrls.push(url);
+  }
+
+  return { pageUrls, sitemapUrls };
+}
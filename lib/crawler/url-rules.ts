@@ -0,0 +1,122 @@
+/**
+ * 크롤링 URL 정규화 및 경로 규칙
+ *
+ * 경로 패턴은 URL pathname 기준 glob 형식:
+ * - `*`  : '/'를 제외한 임의 문자열 (한 경로 구간)
+ * - `**` : '/'를 포함한 임의 문자열 (하위 경로 전체)
+ * 예: `/docs/**`, `/blog/*`, `/**.html`
+ */
+
+export interface PathRules {
+  /** 비어 있으면 모든 경로 허용 */
+  includePatterns: string[];
+  /** include보다 우선 */
+  excludePatterns: string[];
+}
+
+// 본문이 아닌 리소스 확장자 (링크 수집 시 제외)
+const NON_HTML_EXTENSIONS =
+  /\.(?:png|jpe?g|gif|webp|svg|ico|bmp|pdf|zip|gz|tar|rar|7z|mp3|mp4|mov|avi|webm|woff2?|ttf|eot|css|js|mjs|json|xml|rss|atom|txt|csv|xlsx?|docx?|pptx?|hwp)$/i;
+
+/**
+ * URL 정규화 (fragment 제거, 호스트 소문자, 기본 포트 제거)
+ * 같은 페이지를 한 번만 수집하기 위한 키로 사용한다.
+ *
+ * @returns http(s)가 아니거나 올바르지 않은 URL이면 null
+ */
+export function normalizeUrl(input: string, base?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim(), base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+  // 루트가 아닌 경로의 끝 슬래시 제거 (/docs/ → /docs)
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+  return url.toString();
+}
+
+/**
+ * 시작 URL과 같은 사이트인지 (호스트 기준, www 유무는 같은 사이트로 취급)
+ */
+export function isSameSite(url: string, siteUrl: string): boolean {
+  const stripWww = (host: string) => host.replace(/^www\./, '');
+  try {
+    return stripWww(new URL(url).hostname) === stripWww(new URL(siteUrl).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * HTML 페이지로 보이는 URL인지 (이미지, 첨부파일 등 제외)
+ */
+export function isLikelyHtmlUrl(url: string): boolean {
+  try {
+    return !NON_HTML_EXTENSIONS.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 경로 규칙 통과 여부
+ */
+export function matchesPathRules(url: string, rules: PathRules): boolean {
+  let pathname: string;
+  try {
+    pathname = decodeURI(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+
+  if (rules.excludePatterns.some((pattern) => matchPathPattern(pathname, pattern))) {
+    return false;
+  }
+  if (rules.includePatterns.length === 0) return true;
+  return rules.includePatterns.some((pattern) => matchPathPattern(pathname, pattern));
+}
+
+/**
+ * pathname이 glob 패턴과 일치하는지
+ * `/docs/**`는 `/docs` 자체도 포함한다.
+ */
+export function matchPathPattern(pathname: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+  const normalized = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+
+  let regex = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      // "/**" 는 하위 경로가 없는 경우도 허용
+      if (regex.endsWith('/')) {
+        regex = `${regex.slice(0, -1)}(?:/.*)?`;
+      } else {
+        regex += '.*';
+      }
+      i++;
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else {
+      regex += char.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}/?$`).test(pathname);
+}
+
+/**
+ * 사용자 입력 패턴 목록 정리 (줄/쉼표 구분, 공백/중복 제거)
+ */
+export function parsePathPatterns(input: string | string[]): string[] {
+  const items = Array.isArray(input) ? input : input.split(/[\n,]/);
+  return [...new Set(items.map((item) => item.trim()).filter(Boolean))];
+}
@@ -0,0 +1,264 @@
+/**
+ * 웹사이트 소스 → 문서 동기화
+ *
+ * 수집한 페이지는 documents 행으로 저장한다 (fileType: text/markdown).
+ * - metadata.webSourceId + metadata.sourceUrl로 페이지 문서를 찾는다
+ * - metadata.contentHash가 같으면 재처리하지 않는다 (직전 처리가 실패한 문서는 예외)
+ * - 새 페이지/변경된 페이지만 파일을 올리고 document/uploaded 이벤트로 processDocument에 넘긴다
+ *   (변경된 페이지는 문서의 새 버전으로 기록)
+ */
+
+import { z } from 'zod';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { db, documents, webSources, type WebSource } from '@/lib/db';
+import { inngest } from '@/inngest/client';
+import { uploadFile, sanitizeFilename } from '@/lib/upload';
+import { createDocumentVersion } from '@/lib/document-versions';
+import { logger } from '@/lib/logger';
+import type { CrawlConfig, CrawledPage, WebSourceType } from './crawler';
+
+export type RecrawlInterval = 'manual' | 'daily' | 'weekly';
+
+export type PageSyncOutcome = 'created' | 'updated' | 'unchanged';
+
+export interface CrawlStats {
+  discovered: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+const RECRAWL_INTERVAL_MS: Record<Exclude<RecrawlInterval, 'manual'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 수집 설정 입력 검증 (등록/수정 API 공통)
+ */
+export const webSourceSettingsSchema = z.object({
+  includePatterns: z.array(z.string().max(200)).max(20),
+  excludePatterns: z.array(z.string().max(200)).max(20),
+  maxPages: z.number().int().min(1).max(500),
+  maxDepth: z.number().int().min(0).max(5),
+  recrawlInterval: z.enum(['manual', 'daily', 'weekly']),
+});
+
+const PAGE_FILE_TYPE = 'text/markdown';
+// 문서 이름에 사용할 페이지 제목 최대 길이
+const MAX_TITLE_LENGTH = 100;
+
+export function toCrawlConfig(
+  source: Pick<
+    WebSource,
+    'url' | 'sourceType' | 'includePatterns' | 'excludePatterns' | 'maxPages' | 'maxDepth'
+  >
+): CrawlConfig {
+  return {
+    url: source.url,
+    sourceType: source.sourceType as WebSourceType,
+    includePatterns: source.includePatterns,
+    excludePatterns: source.excludePatterns,
+    maxPages: source.maxPages,
+    maxDepth: source.maxDepth,
+  };
+}
+
+/**
+ * 다음 예약 재수집 시각 (manual이면 null)
+ */
+export function getNextCrawlAt(interval: string, from: Date = new Date()): Date | null {
+  const ms = RECRAWL_INTERVAL_MS[interval as keyof typeof RECRAWL_INTERVAL_MS];
+  return ms ? new Date(from.getTime() + ms) : null;
+}
+
+/**
+ * 수집 시작 표시
+ *
+ * @returns 소스 (없으면 null)
+ */
+export async function beginWebSourceCrawl(webSourceId: string): Promise<WebSource | null> {
+  const [source] = await db
+    .update(webSources)
+    .set({ status: 'crawling', lastError: null, updatedAt: new Date() })
+    .where(eq(webSources.id, webSourceId))
+    .returning();
+  return source ?? null;
+}
+
+/**
+ * 수집 종료 기록 (성공/실패 모두 다음 예약 시각 갱신)
+ */
+export async function finishWebSourceCrawl(
+  webSourceId: string,
+  result: { status: 'idle'; stats: CrawlStats } | { status: 'failed'; error: string }
+): Promise<void> {
+  const [source] = await db
+    .select({ recrawlInterval: webSources.recrawlInterval })
+    .from(webSources)
+    .where(eq(webSources.id, webSourceId));
+  if (!source) return;
+
+  const now = new Date();
+  await db
+    .update(webSources)
+    .set({
+      status: result.status,
+      ...(result.status === 'idle'
+        ? { lastCrawlStats: result.stats, lastError: null }
+        : { lastError: result.error }),
+      lastCrawledAt: now,
+      nextCrawlAt: getNextCrawlAt(source.recrawlInterval, now),
+      updatedAt: now,
+    })
+    .where(eq(webSources.id, webSourceId));
+}
+
+/**
+ * 수집한 페이지들을 문서로 동기화
+ *
+ * @returns URL별 결과 (실패한 페이지는 'failed')
+ */
+export async function syncCrawledPages(
+  source: Pick<WebSource, 'id' | 'tenantId' | 'datasetId'>,
+  pages: CrawledPage[]
+): Promise<Map<string, PageSyncOutcome | 'failed'>> {
+  const outcomes = new Map<string, PageSyncOutcome | 'failed'>();
+  if (pages.length === 0) return outcomes;
+
+  const sourceUrl = sql<string>`${documents.metadata}->>'sourceUrl'`;
+  const existingDocuments = await db
+    .select({
+      id: documents.id,
+      status: documents.status,
+      metadata: documents.metadata,
+      sourceUrl,
+    })
+    .from(documents)
+    .where(
+      and(
+        eq(documents.tenantId, source.tenantId),
+        sql`${documents.metadata}->>'webSourceId' = ${source.id}`,
+        inArray(
+          sourceUrl,
+          pages.map((page) => page.url)
+        )
+      )
+    );
+  const existingByUrl = new Map(existingDocuments.map((doc) => [doc.sourceUrl, doc]));
+
+  for (const page of pages) {
+    try {
+      outcomes.set(page.url, await syncCrawledPage(source, page, existingByUrl.get(page.url)));
+    } catch (error) {
+      logger.error('[WebSource] Failed to sync crawled page', error as Error, {
+        webSourceId: source.id,
+        url: page.url,
+      });
+      outcomes.set(page.url, 'failed');
+    }
+  }
+  return outcomes;
+}
+
+async function syncCrawledPage(
+  source: Pick<WebSource, 'id' | 'tenantId' | 'datasetId'>,
+  page: CrawledPage,
+  existing: { id: string; status: string | null; metadata: unknown } | undefined
+): Promise<PageSyncOutcome> {
+  const existingMetadata = (existing?.metadata ?? {}) as Record<string, unknown>;
+  if (
+    existing &&
+    existingMetadata.contentHash === page.contentHash &&
+    existing.status !== 'failed'
+  ) {
+    return 'unchanged';
+  }
+
+  const filename = toPageFilename(page);
+  const buffer = Buffer.from(page.content, 'utf-8');
+  const uploadResult = await uploadFile(buffer, {
+    tenantId: source.tenantId,
+    filename,
+    contentType: PAGE_FILE_TYPE,
+    folder: 'documents',
+    metadata: { sourceUrl: page.url },
+  });
+  if (!uploadResult.success) {
+    throw new Error(uploadResult.error || '파일 업로드 실패');
+  }
+
+  const metadata = {
+    ...existingMetadata,
+    source: 'web',
+    webSourceId: source.id,
+    sourceUrl: page.url,
+    contentHash: page.contentHash,
+    crawledAt: new Date().toISOString(),
+    url: uploadResult.url,
+  };
+
+  let documentId: string;
+  let version = 1;
+  if (existing) {
+    // 이전 파일은 버전 이력으로 남김 (복원 가능)
+    documentId = existing.id;
+    version = await createDocumentVersion(
+      existing.id,
+      {
+        filename,
+        filePath: uploadResult.key!,
+        fileSize: buffer.length,
+        fileType: PAGE_FILE_TYPE,
+      },
+      null,
+      metadata
+    );
+  } else {
+    const [document] = await db
+      .insert(documents)
+      .values({
+        tenantId: source.tenantId,
+        datasetId: source.datasetId,
+        filename,
+        filePath: uploadResult.key!,
+        fileSize: buffer.length,
+        fileType: PAGE_FILE_TYPE,
+        status: 'uploaded',
+        metadata: { ...metadata, destination: 'dataset' },
+      })
+      .returning({ id: documents.id });
+    documentId = document.id;
+  }
+
+  await inngest.send({
+    // 같은 버전으로 재시도되어도 한 번만 처리되도록 이벤트 ID 고정
+    id: `web-page-${documentId}-v${version}`,
+    name: 'document/uploaded',
+    data: {
+      documentId,
+      tenantId: source.tenantId,
+      datasetId: source.datasetId,
+      userId: 'system',
+      filename,
+      fileType: PAGE_FILE_TYPE,
+      filePath: uploadResult.key!,
+      version,
+    },
+  });
+
+  return existing ? 'updated' : 'created';
+}
+
+/**
+ * 페이지 문서 이름 (제목, 없으면 호스트+경로)
+ */
+function toPageFilename(page: CrawledPage): string {
+  let name = page.title?.trim().slice(0, MAX_TITLE_LENGTH);
+  if (!name) {
+    const url = new URL(page.url);
+    name = `${url.hostname}${url.pathname === '/' ? '' : url.pathname}`;
+  }
+  return sanitizeFilename(`${name}.md`);
+}
@@ -0,0 +1,6 @@
+/**
+ * 문서 버전 모듈
+ */
+
+export * from './service';
+export * from './text-diff';
@@ -0,0 +1,442 @@
+/**
+ * 문서 버전 관리
+ *
+ * - 새 버전 업로드: 파일을 document_versions에 기록하고 documents의 파일/활성 버전을 교체
+ * - 이전 버전 복원: 기록된 청크 구성으로 활성 청크를 전환 (구성이 없으면 파일 재처리)
+ * - processDocument가 처리한 버전의 추출 텍스트/청크 통계/청크 구성을 기록
+ *
+ * 재처리 시 내용 해시가 같은 청크는 재사용되므로(lib/rag/chunk-diff.ts) 버전 간 공통 청크는
+ * 검토 상태와 임베딩이 유지된다. 활성 구성에서 빠진 청크 중 다른 버전 구성에 포함된 청크는
+ * 삭제하지 않고 비활성(is_active=false, chunk_index=NULL)으로 보관한다.
+ * 보관 당시 활성 여부는 metadata.archivedActive에 남겨 다시 구성에 포함될 때 되돌린다
+ * (검토자가 비활성화한 청크가 복원/재처리로 검색에 다시 노출되지 않도록).
+ */
+
+import { and, desc, eq, inArray, isNotNull, ne, notInArray, sql } from 'drizzle-orm';
+import {
+  db,
+  chunks,
+  datasets,
+  documents,
+  documentVersions,
+  users,
+  type DocumentVersion,
+} from '@/lib/db';
+
+export interface DocumentFileInfo {
+  filename: string;
+  filePath: string;
+  fileSize: number | null;
+  fileType: string | null;
+}
+
+export type VersionChunkStats = NonNullable<DocumentVersion['chunkStats']>;
+
+export interface DocumentVersionSummary {
+  id: string;
+  version: number;
+  filename: string;
+  fileSize: number | null;
+  fileType: string | null;
+  uploadedBy: { id: string; email: string; name: string | null } | null;
+  hasExtractedText: boolean;
+  chunkStats: VersionChunkStats | null;
+  processedAt: Date | null;
+  createdAt: Date | null;
+}
+
+export interface RestoredDocumentVersion {
+  target: DocumentVersion;
+  status: 'approved' | 'reviewing';
+  chunkCount: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BATCH_SIZE = 100;
+const ARCHIVED_ACTIVE_KEY = 'archivedActive';
+
+/**
+ * 활성 버전 구성의 청크 조건 (이전 버전 구성으로 보관 중인 청크 제외)
+ */
+export function isCurrentVersionChunk() {
+  return isNotNull(chunks.chunkIndex);
+}
+
+/**
+ * 보관 청크를 다시 구성에 포함할 때의 활성 여부 (보관 당시 값, 보관 중이 아니면 현재 값 유지)
+ */
+export function unarchivedChunkActive() {
+  return sql`COALESCE((${chunks.metadata}->>${ARCHIVED_ACTIVE_KEY}::text)::boolean, ${chunks.isActive})`;
+}
+
+/**
+ * 보관 청크를 다시 구성에 포함할 때의 metadata (보관 당시 활성 여부 제거)
+ */
+export function unarchivedChunkMetadata() {
+  return sql`(COALESCE(${chunks.metadata}, '{}'::jsonb) - ${ARCHIVED_ACTIVE_KEY}::text)`;
+}
+
+/**
+ * 버전 행이 없으면 현재 문서 파일로 생성 (기존 업로드 경로로 만든 문서의 첫 버전)
+ *
+ * @param uploadedBy - 사용자 ID ('system' 등 UUID가 아니면 기록하지 않음)
+ */
+export async function ensureDocumentVersion(
+  documentId: string,
+  version: number,
+  uploadedBy?: string | null
+): Promise<void> {
+  const [doc] = await db
+    .select({
+      tenantId: documents.tenantId,
+      filename: documents.filename,
+      filePath: documents.filePath,
+      fileSize: documents.fileSize,
+      fileType: documents.fileType,
+      metadata: documents.metadata,
+    })
+    .from(documents)
+    .where(eq(documents.id, documentId));
+  if (!doc) return;
+
+  const metadataUploader = (doc.metadata as { uploadedBy?: unknown } | null)?.uploadedBy;
+  await db
+    .insert(documentVersions)
+    .values({
+      tenantId: doc.tenantId,
+      documentId,
+      version,
+      filename: doc.filename,
+      filePath: doc.filePath,
+      fileSize: doc.fileSize,
+      fileType: doc.fileType,
+      uploadedBy: asUserId(uploadedBy) ?? asUserId(metadataUploader),
+    })
+    .onConflictDoNothing({ target: [documentVersions.documentId, documentVersions.version] });
+}
+
+/**
+ * 새 버전 등록 + 활성화
+ * 문서 상태를 uploaded로 되돌리므로 호출 후 document/uploaded 이벤트를 보내야 한다.
+ *
+ * @param metadata - documents.metadata 교체 값 (없으면 유지)
+ * @returns 새 버전 번호
+ */
+export async function createDocumentVersion(
+  documentId: string,
+  file: DocumentFileInfo,
+  uploadedBy: string | null,
+  metadata?: Record<string, unknown>
+): Promise<number> {
+  const [doc] = await db
+    .select({ tenantId: documents.tenantId, currentVersion: documents.currentVersion })
+    .from(documents)
+    .where(eq(documents.id, documentId));
+  if (!doc) {
+    throw new Error(`Document not found: ${documentId}`);
+  }
+
+  // 아직 처리되지 않아 버전 행이 없는 현재 파일도 이력에 남김
+  await ensureDocumentVersion(documentId, doc.currentVersion);
+
+  const [{ latest }] = await db
+    .select({ latest: sql<number>`COALESCE(MAX(${documentVersions.version}), 0)::int` })
+    .from(documentVersions)
+    .where(eq(documentVersions.documentId, documentId));
+  const version = latest + 1;
+
+  await db.insert(documentVersions).values({
+    tenantId: doc.tenantId,
+    documentId,
+    version,
+    ...file,
+    uploadedBy: asUserId(uploadedBy),
+  });
+
+  await db
+    .update(documents)
+    .set({
+      ...file,
+      currentVersion: version,
+      status: 'uploaded',
+      progressStep: null,
+      progressPercent: 0,
+      errorMessage: null,
+      ...(metadata && { metadata }),
+      updatedAt: new Date(),
+    })
+    .where(eq(documents.id, documentId));
+
+  return version;
+}
+
+/**
+ * 이전 버전 파일을 활성 버전으로 교체
+ * 문서 상태를 uploaded로 되돌리므로 호출 후 document/uploaded 이벤트를 보내야 한다.
+ *
+ * @returns 활성화한 버전 (없으면 null)
+ */
+export async function activateDocumentVersion(
+  documentId: string,
+  version: number
+): Promise<DocumentVersion | null> {
+  const [target] = await db
+    .select()
+    .from(documentVersions)
+    .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+  if (!target) return null;
+
+  await db
+    .update(documents)
+    .set({
+      filename: target.filename,
+      filePath: target.filePath,
+      fileSize: target.fileSize,
+      fileType: target.fileType,
+      currentVersion: version,
+      status: 'uploaded',
+      progressStep: null,
+      progressPercent: 0,
+      errorMessage: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(documents.id, documentId));
+
+  return target;
+}
+
+/**
+ * 기록된 청크 구성으로 이전 버전 복원 (파일을 다시 파싱하지 않음)
+ * 해당 버전 청크를 버전 순서대로 다시 구성에 포함하고(보관 당시 활성 여부 복원),
+ * 나머지 청크는 비활성으로 보관한다.
+ *
+ * @returns 복원 결과 (청크 구성이 기록되지 않았거나 일부 청크가 없으면 null → 재처리로 복원)
+ */
+export async function restoreDocumentVersionChunks(
+  documentId: string,
+  version: number
+): Promise<RestoredDocumentVersion | null> {
+  const [target] = await db
+    .select()
+    .from(documentVersions)
+    .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+  const chunkIds = target?.chunkIds;
+  if (!target || !chunkIds?.length) return null;
+
+  const [doc] = await db
+    .select({ datasetId: documents.datasetId })
+    .from(documents)
+    .where(eq(documents.id, documentId));
+  if (!doc) return null;
+
+  const targetChunks = await db
+    .select({ id: chunks.id, status: chunks.status })
+    .from(chunks)
+    .where(and(eq(chunks.documentId, documentId), inArray(chunks.id, chunkIds)));
+  if (targetChunks.length !== chunkIds.length) return null;
+
+  const [{ previousCount }] = await db
+    .select({ previousCount: sql<number>`count(*)::int` })
+    .from(chunks)
+    .where(and(eq(chunks.documentId, documentId), isCurrentVersionChunk()));
+
+  // 대상 청크를 임시 음수 순서로 옮겨 unique(document_id, chunk_index) 충돌 방지
+  await setChunkIndexes(chunkIds, (position) => -1 - position);
+
+  await db
+    .update(chunks)
+    .set(archivedChunkValues())
+    .where(
+      and(
+        eq(chunks.documentId, documentId),
+        notInArray(chunks.id, chunkIds),
+        isCurrentVersionChunk()
+      )
+    );
+
+  await setChunkIndexes(chunkIds, (position) => position, true);
+
+  const status = targetChunks.some((chunk) => chunk.status === 'pending')
+    ? 'reviewing'
+    : 'approved';
+
+  await db
+    .update(documents)
+    .set({
+      filename: target.filename,
+      filePath: target.filePath,
+      fileSize: target.fileSize,
+      fileType: target.fileType,
+      currentVersion: version,
+      status,
+      progressStep: null,
+      progressPercent: 100,
+      errorMessage: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(documents.id, documentId));
+
+  if (doc.datasetId && previousCount !== chunkIds.length) {
+    await db
+      .update(datasets)
+      .set({
+        chunkCount: sql`GREATEST(${datasets.chunkCount} + ${chunkIds.length - previousCount}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(datasets.id, doc.datasetId));
+  }
+
+  return { target, status, chunkCount: chunkIds.length };
+}
+
+/**
+ * 처리 중 활성 구성에서 빠진 기존 청크 정리
+ * 다른 버전 구성에 포함된 청크는 비활성으로 보관하고, 나머지(이전 시도에서 일부 저장된 청크 등)는 삭제한다.
+ *
+ * @param version - 처리 중인 버전 (이 버전의 이전 구성은 새 구성으로 대체되므로 보관 기준에서 제외)
+ * @param keptIds - 새 구성에서 재사용하는 청크
+ */
+export async function retireDocumentChunks(
+  documentId: string,
+  version: number,
+  keptIds: string[]
+): Promise<{ retained: number; deleted: number }> {
+  const versionRows = await db
+    .select({ chunkIds: documentVersions.chunkIds })
+    .from(documentVersions)
+    .where(and(eq(documentVersions.documentId, documentId), ne(documentVersions.version, version)));
+  const referenced = new Set(versionRows.flatMap((row) => row.chunkIds ?? []));
+
+  const staleChunks = await db
+    .select({ id: chunks.id })
+    .from(chunks)
+    .where(
+      keptIds.length > 0
+        ? and(eq(chunks.documentId, documentId), notInArray(chunks.id, keptIds))
+        : eq(chunks.documentId, documentId)
+    );
+  const retainIds = staleChunks.filter((chunk) => referenced.has(chunk.id)).map((c) => c.id);
+  const deleteIds = staleChunks.filter((chunk) => !referenced.has(chunk.id)).map((c) => c.id);
+
+  for (let i = 0; i < retainIds.length; i += BATCH_SIZE) {
+    // 이미 보관 중인 청크는 그대로 (보관 당시 활성 여부 유지)
+    await db
+      .update(chunks)
+      .set(archivedChunkValues())
+      .where(and(inArray(chunks.id, retainIds.slice(i, i + BATCH_SIZE)), isCurrentVersionChunk()));
+  }
+  for (let i = 0; i < deleteIds.length; i += BATCH_SIZE) {
+    await db.delete(chunks).where(inArray(chunks.id, deleteIds.slice(i, i + BATCH_SIZE)));
+  }
+
+  return { retained: retainIds.length, deleted: deleteIds.length };
+}
+
+/**
+ * 처리 결과 기록 (추출 텍스트는 파싱 후, 청크 통계/구성은 저장 후)
+ */
+export async function updateDocumentVersion(
+  documentId: string,
+  version: number,
+  values: { extractedText?: string; chunkStats?: VersionChunkStats; chunkIds?: string[] }
+): Promise<void> {
+  await db
+    .update(documentVersions)
+    .set({
+      ...values,
+      ...(values.chunkStats && { processedAt: new Date() }),
+    })
+    .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+}
+
+/**
+ * 버전 목록 (최신순, 추출 텍스트 제외)
+ */
+export async function listDocumentVersions(documentId: string): Promise<DocumentVersionSummary[]> {
+  const rows = await db
+    .select({
+      id: documentVersions.id,
+      version: documentVersions.version,
+      filename: documentVersions.filename,
+      fileSize: documentVersions.fileSize,
+      fileType: documentVersions.fileType,
+      uploaderId: users.id,
+      uploaderEmail: users.email,
+      uploaderName: users.name,
+      hasExtractedText: sql<boolean>`${documentVersions.extractedText} IS NOT NULL`,
+      chunkStats: documentVersions.chunkStats,
+      processedAt: documentVersions.processedAt,
+      createdAt: documentVersions.createdAt,
+    })
+    .from(documentVersions)
+    .leftJoin(users, eq(documentVersions.uploadedBy, users.id))
+    .where(eq(documentVersions.documentId, documentId))
+    .orderBy(desc(documentVersions.version));
+
+  return rows.map(({ uploaderId, uploaderEmail, uploaderName, ...row }) => ({
+    ...row,
+    uploadedBy:
+      uploaderId && uploaderEmail
+        ? { id: uploaderId, email: uploaderEmail, name: uploaderName }
+        : null,
+  }));
+}
+
+/**
+ * 버전의 추출 텍스트 (버전이 없으면 undefined, 아직 처리 전이면 null)
+ */
+export async function getDocumentVersionText(
+  documentId: string,
+  version: number
+): Promise<string | null | undefined> {
+  const [row] = await db
+    .select({ extractedText: documentVersions.extractedText })
+    .from(documentVersions)
+    .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+  return row ? row.extractedText : undefined;
+}
+
+/**
+ * 청크 순서 일괄 변경 (ids 순서의 position으로 계산)
+ *
+ * @param unarchive - 순서와 함께 보관 해제 (보관 당시 활성 여부 복원)
+ */
+async function setChunkIndexes(
+  ids: string[],
+  toIndex: (position: number) => number,
+  unarchive = false
+): Promise<void> {
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const values = sql.join(
+      ids
+        .slice(i, i + BATCH_SIZE)
+        .map((id, offset) => sql`(${id}::uuid, ${toIndex(i + offset)}::int)`),
+      sql`, `
+    );
+    const unarchiveSet = unarchive
+      ? sql`, is_active = ${unarchivedChunkActive()}, metadata = ${unarchivedChunkMetadata()}, updated_at = NOW()`
+      : sql``;
+    await db.execute(sql`
+      UPDATE chunks
+      SET chunk_index = v.chunk_index${unarchiveSet}
+      FROM (VALUES ${values}) AS v(id, chunk_index)
+      WHERE chunks.id = v.id
+    `);
+  }
+}
+
+/**
+ * 보관 값 (활성 구성에서 제외, 현재 활성 여부는 metadata에 기록)
+ */
+function archivedChunkValues() {
+  return {
+    isActive: false,
+    chunkIndex: null,
+    metadata: sql`COALESCE(${chunks.metadata}, '{}'::jsonb) || jsonb_build_object(${ARCHIVED_ACTIVE_KEY}::text, COALESCE(${chunks.isActive}, true))`,
+    updatedAt: new Date(),
+  };
+}
+
+function asUserId(value: unknown): string | null {
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value : null;
+}
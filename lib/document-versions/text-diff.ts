@@ -0,0 +1,230 @@
+/**
+ * 버전 간 추출 텍스트 비교 (줄 단위 Myers diff)
+ *
+ * 공통 앞/뒤 줄을 먼저 잘라내고 남은 구간만 비교한다.
+ * 변경이 너무 많으면(maxEdits 초과) 비교를 포기하고 tooLarge로 알린다.
+ */
+
+export type TextDiffLineType = 'equal' | 'added' | 'removed';
+
+export interface TextDiffLine {
+  type: TextDiffLineType;
+  text: string;
+  /** 이전 버전 줄 번호 (1부터, added는 없음) */
+  oldLine?: number;
+  /** 새 버전 줄 번호 (1부터, removed는 없음) */
+  newLine?: number;
+}
+
+export interface TextDiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: TextDiffLine[];
+}
+
+export interface TextDiffResult {
+  hunks: TextDiffHunk[];
+  added: number;
+  removed: number;
+  identical: boolean;
+  /** 변경이 너무 많아 비교하지 않음 */
+  tooLarge: boolean;
+}
+
+export interface TextDiffOptions {
+  /** 변경 줄 앞뒤로 보여줄 줄 수 (기본 3) */
+  context?: number;
+  /** 최대 편집 거리 (기본 2000줄) */
+  maxEdits?: number;
+}
+
+const DEFAULT_CONTEXT = 3;
+const DEFAULT_MAX_EDITS = 2000;
+
+/**
+ * 두 텍스트의 줄 단위 차이
+ */
+export function diffText(
+  oldText: string,
+  newText: string,
+  options: TextDiffOptions = {}
+): TextDiffResult {
+  const context = options.context ?? DEFAULT_CONTEXT;
+  const maxEdits = options.maxEdits ?? DEFAULT_MAX_EDITS;
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // 공통 앞/뒤 줄 제외
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  if (prefix === a.length && prefix === b.length) {
+    return { hunks: [], added: 0, removed: 0, identical: true, tooLarge: false };
+  }
+
+  const middle = myersDiff(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix),
+    maxEdits
+  );
+  if (!middle) {
+    return { hunks: [], added: 0, removed: 0, identical: false, tooLarge: true };
+  }
+
+  const ops: TextDiffLineType[] = [
+    ...Array<TextDiffLineType>(prefix).fill('equal'),
+    ...middle,
+    ...Array<TextDiffLineType>(suffix).fill('equal'),
+  ];
+
+  // 줄 번호 부여
+  const lines: TextDiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const type of ops) {
+    if (type === 'equal') {
+      lines.push({ type, text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+      oldIndex++;
+      newIndex++;
+    } else if (type === 'removed') {
+      lines.push({ type, text: a[oldIndex], oldLine: oldIndex + 1 });
+      oldIndex++;
+    } else {
+      lines.push({ type, text: b[newIndex], newLine: newIndex + 1 });
+      newIndex++;
+    }
+  }
+
+  return {
+    hunks: toHunks(lines, context),
+    added: lines.filter((line) => line.type === 'added').length,
+    removed: lines.filter((line) => line.type === 'removed').length,
+    identical: false,
+    tooLarge: false,
+  };
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * Myers O(ND) diff
+ *
+ * @returns a → b 편집 순서 (편집 거리가 maxEdits를 넘으면 null)
+ */
+function myersDiff(a: string[], b: string[], maxEdits: number): TextDiffLineType[] | null {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, maxEdits);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= limit && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // 역추적 (trace[d]는 d단계 시작 시점의 v[-d-1..d+1])
+  const ops: TextDiffLineType[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push('added');
+        y--;
+      } else {
+        ops.push('removed');
+        x--;
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * 변경 줄 주변만 묶어 hunk로 (context 줄 이내로 가까운 변경은 한 hunk)
+ */
+function toHunks(lines: TextDiffLine[], context: number): TextDiffHunk[] {
+  const hunks: TextDiffHunk[] = [];
+  let current: { start: number; end: number } | null = null;
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  lines.forEach((line, i) => {
+    if (line.type === 'equal') return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length, i + context + 1);
+    if (current && start <= current.end) {
+      current.end = end;
+    } else {
+      current = { start, end };
+      ranges.push(current);
+    }
+  });
+
+  for (const { start, end } of ranges) {
+    const slice = lines.slice(start, end);
+    hunks.push({
+      oldStart: firstLineNumber(lines, start, 'oldLine'),
+      newStart: firstLineNumber(lines, start, 'newLine'),
+      lines: slice,
+    });
+  }
+  return hunks;
+}
+
+function firstLineNumber(lines: TextDiffLine[], from: number, key: 'oldLine' | 'newLine'): number {
+  for (let i = from; i < lines.length; i++) {
+    const value = lines[i][key];
+    if (value !== undefined) return value;
+  }
+  // 뒤쪽이 모두 반대편 변경이면 마지막 줄 다음
+  for (let i = from - 1; i >= 0; i--) {
+    const value = lines[i][key];
+    if (value !== undefined) return value + 1;
+  }
+  return 1;
+}
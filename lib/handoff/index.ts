@@ -0,0 +1,7 @@
+/**
+ * 상담원 연결 모듈 exports
+ */
+
+export * from './types';
+export * from './rules';
+export * from './service';
@@ -0,0 +1,110 @@
+/**
+ * 상담원 연결 트리거 규칙
+ *
+ * 챗봇별 규칙(handoffConfig)으로 상담원 연결을 요청할지/제안할지 판단한다.
+ * DB 조회 없이 동작하는 순수 함수만 둔다 (상태 변경은 service.ts).
+ */
+
+import type { ChatMessage } from '@/lib/chat/types';
+import type { HandoffConfig, HandoffReason, HandoffState } from './types';
+
+export const DEFAULT_HANDOFF_CONFIG: HandoffConfig = {
+  enabled: false,
+  keywords: ['상담원', '상담사', '사람이랑'],
+  noResultThreshold: 2,
+  minIntentConfidence: 0,
+  offHoursMessage: '지금은 상담 운영 시간이 아니에요. 운영 시간에 다시 문의해 주세요.',
+};
+
+/** 상담원 연결 안내 메시지 */
+export const HANDOFF_MESSAGES = {
+  requested: '상담원에게 연결하고 있어요. 잠시만 기다려 주세요.',
+  waiting: '상담원에게 메시지를 전달했어요. 곧 답변드릴게요.',
+  resolved: '상담이 종료되었어요. 이후 질문은 AI가 답변합니다.',
+} as const;
+
+/**
+ * 저장된 설정 → 기본값이 채워진 설정
+ */
+export function normalizeHandoffConfig(raw: unknown): HandoffConfig {
+  const config = (raw && typeof raw === 'object' ? raw : {}) as Partial<HandoffConfig>;
+
+  return {
+    enabled: config.enabled ?? DEFAULT_HANDOFF_CONFIG.enabled,
+    keywords: Array.isArray(config.keywords)
+      ? config.keywords.map((k) => k.trim()).filter(Boolean)
+      : DEFAULT_HANDOFF_CONFIG.keywords,
+    noResultThreshold: config.noResultThreshold ?? DEFAULT_HANDOFF_CONFIG.noResultThreshold,
+    minIntentConfidence: config.minIntentConfidence ?? DEFAULT_HANDOFF_CONFIG.minIntentConfidence,
+    offHoursMessage: config.offHoursMessage?.trim() || DEFAULT_HANDOFF_CONFIG.offHoursMessage,
+  };
+}
+
+/**
+ * 사용자 메시지에 상담원 연결 키워드가 있는지 확인 (공백 무시)
+ */
+export function matchesHandoffKeyword(message: string, keywords: string[]): boolean {
+  const normalized = message.replace(/\s+/g, '');
+  return keywords.some((keyword) => {
+    const target = keyword.replace(/\s+/g, '');
+    return target.length > 0 && normalized.includes(target);
+  });
+}
+
+/**
+ * 대화 끝에서부터 연속된 "정보 없음" 답변 수
+ */
+export function countTrailingNoResults(messages: ChatMessage[]): number {
+  let count = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== 'assistant') continue;
+    if (!message.metadata?.noResult) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 봇 답변 후 상담원 연결을 제안할지 판단
+ *
+ * @param previousMessages - 이번 턴 이전 대화 메시지
+ * @param noResult - 이번 답변이 "정보 없음" 응답인지
+ * @param intentConfidence - 이번 질문의 Intent 분류 신뢰도
+ */
+export function evaluateHandoffOffer(
+  config: HandoffConfig,
+  {
+    previousMessages,
+    noResult,
+    intentConfidence,
+  }: { previousMessages: ChatMessage[]; noResult: boolean; intentConfidence?: number }
+): HandoffReason | null {
+  if (!config.enabled) return null;
+
+  if (
+    noResult &&
+    config.noResultThreshold > 0 &&
+    countTrailingNoResults(previousMessages) + 1 >= config.noResultThreshold
+  ) {
+    return 'no_result';
+  }
+
+  if (
+    config.minIntentConfidence > 0 &&
+    intentConfidence !== undefined &&
+    intentConfidence < config.minIntentConfidence
+  ) {
+    return 'low_confidence';
+  }
+
+  return null;
+}
+
+/**
+ * 봇(AI)이 답변한 응답인지 (상담원 대기/응대 중이거나 연결 안내만 한 경우 false)
+ * 포인트 차감 여부 판단에 사용
+ */
+export function isBotAnswer(handoff: HandoffState | undefined): boolean {
+  return !handoff || handoff.status === 'offered';
+}
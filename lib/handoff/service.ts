@@ -0,0 +1,530 @@
+/**
+ * 상담원 연결 서비스
+ *
+ * 대화의 상담원 연결 상태(conversations.handoff*)를 관리하고,
+ * 상담원 메시지를 위젯/공개 페이지(폴링)와 카카오톡(콜백)으로 전달한다.
+ */
+
+import { db, conversations, chatbots, chatbotConfigVersions, users } from '@/lib/db';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '@/lib/logger';
+import { parsePublicPageConfig } from '@/lib/public-page/types';
+import {
+  findOperatingHours,
+  getOperatingStatus,
+  type OperatingHours,
+} from '@/lib/public-page/operating-hours';
+import { createSimpleTextResponse } from '@/lib/kakao/response';
+import { addMessageToConversation, updateConversationMetadata } from '@/lib/chat/conversation';
+import type { ChatbotInfo } from '@/lib/chat/chatbot';
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ConversationContext,
+} from '@/lib/chat/types';
+import {
+  HANDOFF_MESSAGES,
+  evaluateHandoffOffer,
+  matchesHandoffKeyword,
+  normalizeHandoffConfig,
+} from './rules';
+import type {
+  HandoffPollResult,
+  HandoffQueueItem,
+  HandoffReason,
+  HandoffState,
+  HandoffStatus,
+} from './types';
+
+// 카카오 콜백 URL 유효 시간 (카카오 기준 1분, 여유를 두고 55초)
+const KAKAO_CALLBACK_TTL_MS = 55 * 1000;
+
+/** 상담원 연결 관련 대화 메타데이터 */
+interface HandoffMetadata {
+  /** 카카오 콜백 URL (1회용) */
+  kakaoCallback?: { url: string; expiresAt: string };
+  /** 카카오로 마지막 상담원 메시지를 전달한 시점 */
+  kakaoDeliveredAt?: string;
+}
+
+/**
+ * 챗봇의 운영 시간 조회 (발행된 공개 페이지의 OPERATING_HOURS 블록)
+ */
+export async function getChatbotOperatingHours(
+  chatbotId: string
+): Promise<OperatingHours | null> {
+  const [row] = await db
+    .select({
+      chatbotPublicPageConfig: chatbots.publicPageConfig,
+      publishedPublicPageConfig: chatbotConfigVersions.publicPageConfig,
+    })
+    .from(chatbots)
+    .leftJoin(
+      chatbotConfigVersions,
+      and(
+        eq(chatbotConfigVersions.chatbotId, chatbots.id),
+        eq(chatbotConfigVersions.versionType, 'published')
+      )
+    )
+    .where(eq(chatbots.id, chatbotId));
+
+  if (!row) return null;
+
+  const config = parsePublicPageConfig(
+    row.publishedPublicPageConfig ?? row.chatbotPublicPageConfig
+  );
+  return findOperatingHours(config.blocks);
+}
+
+/**
+ * 지금 상담원 연결이 가능한지
+ * 운영 시간 블록이 없거나 계산할 수 없으면 항상 가능으로 본다.
+ */
+export async function isHandoffAvailable(chatbotId: string): Promise<boolean> {
+  try {
+    const hours = await getChatbotOperatingHours(chatbotId);
+    if (!hours) return true;
+
+    return getOperatingStatus(hours)?.isOpen ?? true;
+  } catch (error) {
+    logger.warn('Failed to check operating hours for handoff', {
+      chatbotId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return true;
+  }
+}
+
+/**
+ * 상담원 연결 요청 (대기열 등록)
+ * 이미 대기/응대 중인 대화는 그대로 둔다.
+ *
+ * @returns 새로 대기열에 등록되었는지
+ */
+export async function requestHandoff(
+  tenantId: string,
+  conversationId: string,
+  reason: HandoffReason
+): Promise<boolean> {
+  const result = await db
+    .update(conversations)
+    .set({
+      handoffStatus: 'pending',
+      handoffReason: reason,
+      handoffRequestedAt: new Date(),
+      handoffAssignedTo: null,
+      handoffResolvedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.id, conversationId),
+        sql`(${conversations.handoffStatus} IS NULL OR ${conversations.handoffStatus} = 'resolved')`
+      )
+    );
+
+  const requested = (result.count ?? 0) > 0;
+  if (requested) {
+    logger.info('Handoff requested', { tenantId, conversationId, reason });
+  }
+  return requested;
+}
+
+/**
+ * 세션 기준 상담원 연결 요청 (위젯/공개 페이지의 연결 버튼)
+ */
+export async function requestHandoffForSession(
+  tenantId: string,
+  chatbotId: string,
+  sessionId: string
+): Promise<HandoffState> {
+  const [row] = await db
+    .select({
+      id: conversations.id,
+      handoffStatus: conversations.handoffStatus,
+      handoffConfig: chatbots.handoffConfig,
+    })
+    .from(conversations)
+    .innerJoin(chatbots, eq(chatbots.id, conversations.chatbotId))
+    .where(
+      and(
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.chatbotId, chatbotId),
+        eq(conversations.sessionId, sessionId)
+      )
+    )
+    .limit(1);
+
+  const config = normalizeHandoffConfig(row?.handoffConfig);
+  if (!row || !config.enabled) {
+    return { status: 'unavailable', reason: 'manual', notice: config.offHoursMessage };
+  }
+
+  if (row.handoffStatus === 'pending' || row.handoffStatus === 'active') {
+    return { status: row.handoffStatus, reason: 'manual' };
+  }
+
+  if (!(await isHandoffAvailable(chatbotId))) {
+    return { status: 'unavailable', reason: 'manual', notice: config.offHoursMessage };
+  }
+
+  await requestHandoff(tenantId, row.id, 'manual');
+  return { status: 'pending', reason: 'manual', notice: HANDOFF_MESSAGES.requested };
+}
+
+/**
+ * 상담원 연결 중인 대화의 사용자 메시지 처리
+ *
+ * - 대기/응대 중이면 AI 응답 없이 메시지만 저장 (상담원 콘솔에서 확인)
+ * - 연결 키워드가 포함되면 상담원 연결 요청 (운영 시간 외에는 안내 메시지)
+ *
+ * @returns 봇이 응답하지 않아야 하면 응답, 아니면 null (일반 RAG 처리)
+ */
+export async function handleHandoffTurn(
+  tenantId: string,
+  conversation: ConversationContext,
+  request: ChatRequest,
+  chatbot: ChatbotInfo | null
+): Promise<ChatResponse | null> {
+  const userMessage: ChatMessage = {
+    role: 'user',
+    content: request.message,
+    timestamp: new Date().toISOString(),
+  };
+
+  // 1. 상담원 대기/응대 중
+  if (conversation.handoffStatus === 'pending' || conversation.handoffStatus === 'active') {
+    await addMessageToConversation(tenantId, conversation.id, userMessage);
+
+    const status = conversation.handoffStatus;
+    let message = status === 'pending' ? HANDOFF_MESSAGES.waiting : '';
+
+    // 카카오톡은 폴링이 없으므로 밀린 상담원 메시지를 이번 응답으로 전달하고,
+    // 새 콜백 URL을 저장해 상담원 답변을 바로 보낼 수 있게 한다.
+    if (conversation.channel === 'kakao') {
+      message = await collectKakaoUndelivered(tenantId, conversation.id);
+      if (request.callbackUrl) {
+        await updateConversationMetadata(tenantId, conversation.id, {
+          kakaoCallback: {
+            url: request.callbackUrl,
+            expiresAt: new Date(Date.now() + KAKAO_CALLBACK_TTL_MS).toISOString(),
+          },
+        } satisfies HandoffMetadata);
+      } else if (!message) {
+        message = HANDOFF_MESSAGES.waiting;
+      }
+    }
+
+    return { message, sessionId: conversation.sessionId, handoff: { status } };
+  }
+
+  // 2. 연결 키워드
+  const config = chatbot?.handoffConfig;
+  if (!chatbot || !config?.enabled || !matchesHandoffKeyword(request.message, config.keywords)) {
+    return null;
+  }
+
+  await addMessageToConversation(tenantId, conversation.id, userMessage);
+
+  if (!(await isHandoffAvailable(chatbot.id))) {
+    return {
+      message: config.offHoursMessage,
+      sessionId: conversation.sessionId,
+      handoff: { status: 'unavailable', reason: 'keyword' },
+    };
+  }
+
+  await requestHandoff(tenantId, conversation.id, 'keyword');
+  return {
+    message: HANDOFF_MESSAGES.requested,
+    sessionId: conversation.sessionId,
+    handoff: { status: 'pending', reason: 'keyword' },
+  };
+}
+
+/**
+ * 봇 답변 후 상담원 연결 제안 여부 (운영 시간 내에서만 제안)
+ */
+export async function evaluateHandoffForAnswer(
+  chatbot: ChatbotInfo | null,
+  previousMessages: ChatMessage[],
+  { noResult, intentConfidence }: { noResult: boolean; intentConfidence?: number }
+): Promise<HandoffState | undefined> {
+  if (!chatbot) return undefined;
+
+  const reason = evaluateHandoffOffer(chatbot.handoffConfig, {
+    previousMessages,
+    noResult,
+    intentConfidence,
+  });
+  if (!reason || !(await isHandoffAvailable(chatbot.id))) return undefined;
+
+  return { status: 'offered', reason };
+}
+
+/**
+ * 상담원 대기열 (대기 + 응대 중, 요청 순)
+ */
+export async function listHandoffQueue(
+  tenantId: string,
+  chatbotId: string
+): Promise<HandoffQueueItem[]> {
+  const rows = await db
+    .select({
+      id: conversations.id,
+      sessionId: conversations.sessionId,
+      channel: conversations.channel,
+      status: conversations.handoffStatus,
+      reason: conversations.handoffReason,
+      requestedAt: conversations.handoffRequestedAt,
+      assigneeName: users.name,
+      updatedAt: conversations.updatedAt,
+      lastMessage: sql<ChatMessage | null>`${conversations.messages} -> -1`,
+    })
+    .from(conversations)
+    .leftJoin(users, eq(users.id, conversations.handoffAssignedTo))
+    .where(
+      and(
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.chatbotId, chatbotId),
+        inArray(conversations.handoffStatus, ['pending', 'active'])
+      )
+    )
+    .orderBy(asc(conversations.handoffRequestedAt));
+
+  return rows.map((row) => ({
+    id: row.id,
+    sessionId: row.sessionId,
+    channel: row.channel ?? 'web',
+    status: row.status as HandoffQueueItem['status'],
+    reason: row.reason as HandoffReason | null,
+    requestedAt: row.requestedAt?.toISOString() ?? null,
+    assigneeName: row.assigneeName,
+    updatedAt: row.updatedAt?.toISOString() ?? '',
+    lastMessage: row.lastMessage
+      ? { role: row.lastMessage.role, content: row.lastMessage.content }
+      : null,
+  }));
+}
+
+/**
+ * 상담원 연결 상태 변경 (상담 수락 / 종료)
+ *
+ * @returns 대상 대화가 없으면 false
+ */
+export async function updateHandoffStatus(
+  tenantId: string,
+  chatbotId: string,
+  conversationId: string,
+  status: Extract<HandoffStatus, 'active' | 'resolved'>,
+  operatorId: string
+): Promise<boolean> {
+  const result = await db
+    .update(conversations)
+    .set(
+      status === 'active'
+        ? { handoffStatus: status, handoffAssignedTo: operatorId, updatedAt: new Date() }
+        : { handoffStatus: status, handoffResolvedAt: new Date(), updatedAt: new Date() }
+    )
+    .where(
+      and(
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.chatbotId, chatbotId),
+        eq(conversations.id, conversationId),
+        inArray(conversations.handoffStatus, ['pending', 'active'])
+      )
+    );
+
+  if ((result.count ?? 0) === 0) return false;
+
+  logger.info('Handoff status updated', { tenantId, conversationId, status, operatorId });
+
+  if (status === 'resolved') {
+    await deliverOperatorMessage(tenantId, conversationId, {
+      id: uuidv4(),
+      role: 'assistant',
+      content: HANDOFF_MESSAGES.resolved,
+      timestamp: new Date().toISOString(),
+      metadata: { operator: true },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * 상담원 메시지 전송
+ * 대기 중인 대화에 답장하면 해당 상담원이 응대를 시작한 것으로 본다.
+ *
+ * @returns 대상 대화가 대기/응대 중이 아니면 null
+ */
+export async function sendOperatorMessage(
+  tenantId: string,
+  chatbotId: string,
+  conversationId: string,
+  operator: { id: string; name?: string | null },
+  content: string
+): Promise<ChatMessage | null> {
+  const [conversation] = await db
+    .select({ handoffStatus: conversations.handoffStatus })
+    .from(conversations)
+    .where(
+      and(
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.chatbotId, chatbotId),
+        eq(conversations.id, conversationId)
+      )
+    );
+
+  if (
+    !conversation ||
+    (conversation.handoffStatus !== 'pending' && conversation.handoffStatus !== 'active')
+  ) {
+    return null;
+  }
+
+  if (conversation.handoffStatus === 'pending') {
+    await updateHandoffStatus(tenantId, chatbotId, conversationId, 'active', operator.id);
+  }
+
+  const message: ChatMessage = {
+    id: uuidv4(),
+    role: 'assistant',
+    content,
+    timestamp: new Date().toISOString(),
+    metadata: { operator: true, operatorName: operator.name ?? undefined },
+  };
+
+  await deliverOperatorMessage(tenantId, conversationId, message);
+  return message;
+}
+
+/**
+ * 상담원 메시지 저장 + 카카오 콜백 전달
+ * 웹 채널은 위젯/공개 페이지가 폴링으로 가져간다.
+ * 카카오 콜백이 만료되었으면 사용자의 다음 발화 응답으로 전달된다.
+ */
+async function deliverOperatorMessage(
+  tenantId: string,
+  conversationId: string,
+  message: ChatMessage
+): Promise<void> {
+  await addMessageToConversation(tenantId, conversationId, message);
+
+  const [row] = await db
+    .select({ channel: conversations.channel, metadata: conversations.metadata })
+    .from(conversations)
+    .where(eq(conversations.id, conversationId));
+
+  if (row?.channel !== 'kakao') return;
+
+  const callback = (row.metadata as HandoffMetadata | null)?.kakaoCallback;
+  if (!callback || new Date(callback.expiresAt).getTime() < Date.now()) return;
+
+  // 콜백 URL은 1회용이므로 먼저 비운다
+  await db
+    .update(conversations)
+    .set({ metadata: sql`${conversations.metadata} - 'kakaoCallback'` })
+    .where(eq(conversations.id, conversationId));
+
+  try {
+    const response = await fetch(callback.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(createSimpleTextResponse(message.content)),
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Kakao callback failed: ${response.status}`);
+    }
+
+    await updateConversationMetadata(tenantId, conversationId, {
+      kakaoDeliveredAt: message.timestamp,
+    } satisfies HandoffMetadata);
+  } catch (error) {
+    // 전달 실패 시 다음 발화 응답으로 전달
+    logger.warn('Failed to deliver operator message via kakao callback', {
+      conversationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * 카카오로 아직 전달하지 못한 상담원 메시지 (전달 완료로 기록)
+ */
+async function collectKakaoUndelivered(
+  tenantId: string,
+  conversationId: string
+): Promise<string> {
+  const [row] = await db
+    .select({
+      messages: conversations.messages,
+      metadata: conversations.metadata,
+      requestedAt: conversations.handoffRequestedAt,
+    })
+    .from(conversations)
+    .where(eq(conversations.id, conversationId));
+
+  if (!row) return '';
+
+  const since =
+    (row.metadata as HandoffMetadata | null)?.kakaoDeliveredAt ??
+    row.requestedAt?.toISOString() ??
+    '';
+  const pending = ((row.messages as ChatMessage[]) || []).filter(
+    (m) => m.metadata?.operator && m.timestamp > since
+  );
+
+  if (pending.length === 0) return '';
+
+  await updateConversationMetadata(tenantId, conversationId, {
+    kakaoDeliveredAt: pending[pending.length - 1].timestamp,
+  } satisfies HandoffMetadata);
+
+  return pending.map((m) => m.content).join('\n\n');
+}
+
+/**
+ * 상담원 메시지 폴링 (위젯/공개 페이지)
+ *
+ * @param since - 마지막으로 받은 메시지 시각 (ISO), 이후 상담원 메시지만 반환
+ */
+export async function getHandoffUpdates(
+  tenantId: string,
+  chatbotId: string,
+  sessionId: string,
+  since: string
+): Promise<HandoffPollResult> {
+  const [row] = await db
+    .select({
+      handoffStatus: conversations.handoffStatus,
+      messages: conversations.messages,
+    })
+    .from(conversations)
+    .where(
+      and(
+        eq(conversations.tenantId, tenantId),
+        eq(conversations.chatbotId, chatbotId),
+        eq(conversations.sessionId, sessionId)
+      )
+    )
+    .limit(1);
+
+  if (!row) return { status: null, messages: [] };
+
+  const messages = ((row.messages as ChatMessage[]) || [])
+    .filter((m) => m.metadata?.operator && m.timestamp > since)
+    .map((m) => ({
+      id: m.id,
+      content: m.content,
+      timestamp: m.timestamp,
+      operatorName: m.metadata?.operatorName,
+    }));
+
+  return { status: row.handoffStatus as HandoffStatus | null, messages };
+}
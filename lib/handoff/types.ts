@@ -0,0 +1,76 @@
+/**
+ * 상담원 연결 (Human Handoff) 타입 정의
+ */
+
+/**
+ * 대화의 상담원 연결 상태 (conversations.handoffStatus)
+ * - pending: 상담원 연결 요청, 대기 중 (봇은 응답하지 않음)
+ * - active: 상담원이 응대 중
+ * - resolved: 상담 종료 (다시 봇이 응답)
+ */
+export type HandoffStatus = 'pending' | 'active' | 'resolved';
+
+/**
+ * 상담원 연결 트리거
+ * - keyword: 사용자가 "상담원" 등 키워드 입력
+ * - no_result: "정보 없음" 답변이 연속으로 발생
+ * - low_confidence: Intent 분류 신뢰도가 낮음
+ * - manual: 사용자가 연결 제안 버튼 클릭
+ */
+export type HandoffReason = 'keyword' | 'no_result' | 'low_confidence' | 'manual';
+
+/**
+ * 챗봇별 상담원 연결 규칙 (chatbots.handoffConfig)
+ */
+export interface HandoffConfig {
+  enabled: boolean;
+  /** 즉시 상담원 연결을 요청하는 키워드 */
+  keywords: string[];
+  /** 연속 "정보 없음" 답변 횟수 기준 (0이면 사용 안 함) */
+  noResultThreshold: number;
+  /** Intent 신뢰도 기준 (이 값 미만이면 연결 제안, 0이면 사용 안 함) */
+  minIntentConfidence: number;
+  /** 운영 시간 외 안내 메시지 */
+  offHoursMessage: string;
+}
+
+/**
+ * 채팅 응답에 포함되는 상담원 연결 상태
+ * - offered: 봇이 답변한 뒤 상담원 연결을 제안
+ * - unavailable: 연결을 요청했지만 운영 시간이 아님
+ */
+export interface HandoffState {
+  status: 'offered' | 'unavailable' | 'pending' | 'active';
+  reason?: HandoffReason;
+  /** 사용자에게 보여줄 안내 (연결 버튼 요청 결과) */
+  notice?: string;
+}
+
+/**
+ * 상담원 대기열 항목 (콘솔)
+ */
+export interface HandoffQueueItem {
+  id: string;
+  sessionId: string;
+  channel: string;
+  status: Extract<HandoffStatus, 'pending' | 'active'>;
+  reason: HandoffReason | null;
+  requestedAt: string | null;
+  assigneeName: string | null;
+  updatedAt: string;
+  /** 마지막 메시지 미리보기 */
+  lastMessage: { role: 'user' | 'assistant'; content: string } | null;
+}
+
+/**
+ * 상담원 메시지 폴링 결과 (위젯/공개 페이지)
+ */
+export interface HandoffPollResult {
+  status: HandoffStatus | null;
+  messages: Array<{
+    id?: string;
+    content: string;
+    timestamp: string;
+    operatorName?: string;
+  }>;
+}
@@ -14,6 +14,7 @@ import type {
 // 카카오 응답 최대 길이
 const MAX_TEXT_LENGTH = 1000; // simpleText 최대 길이
 const MAX_CARD_DESCRIPTION_LENGTH = 400; // textCard description 최대 길이
+const MAX_QUICK_REPLY_LABEL_LENGTH = 14; // quickReplies label 최대 길이
 
 /**
  * 텍스트를 최대 길이로 자르고 말줄임표 추가
@@ -79,6 +80,18 @@ export function createTextCardResponse(
   };
 }
 
+/**
+ * 콜백 대기 응답 생성
+ * 최종 응답은 1분 안에 콜백 URL로 전송해야 한다.
+ */
+export function createCallbackWaitResponse(text: string): KakaoSkillResponse {
+  return {
+    version: '2.0',
+    useCallback: true,
+    data: { text },
+  };
+}
+
 /**
  * 에러 응답 생성
  */
@@ -156,6 +169,18 @@ export function createResponseWithSources(
   });
 }
 
+/**
+ * 후속 질문 제안 → 바로연결 버튼
+ * 버튼 라벨은 길이 제한이 있어 줄이고, 누르면 전체 질문을 발화로 전송한다.
+ */
+export function createSuggestionQuickReplies(suggestions: string[]): KakaoQuickReply[] {
+  return suggestions.map((suggestion) => ({
+    label: truncateText(suggestion, MAX_QUICK_REPLY_LABEL_LENGTH),
+    action: 'message',
+    messageText: suggestion,
+  }));
+}
+
 /**
  * 스트리밍 응답 대기 메시지 생성
  */
@@ -9,6 +9,7 @@ import { eq, sql, and } from 'drizzle-orm';
 import { processChat } from '@/lib/chat';
 import { logger } from '@/lib/logger';
 import { validatePointsForResponse, usePoints } from '@/lib/points';
+import { HANDOFF_MESSAGES, isBotAnswer } from '@/lib/handoff/rules';
 import type { KakaoSkillRequest, TenantKakaoSettings } from './types';
 
 // 카카오 5초 제한 대비 4초 타임아웃
@@ -113,6 +114,12 @@ export async function processKakaoSkill(
   success: boolean;
   message: string;
   sources?: Array<{ title: string; documentId: string }>;
+  /** 콜백 대기 응답 (상담원 답변을 콜백 URL로 전달) */
+  useCallback?: boolean;
+  /** 상담원 연결 제안 */
+  handoffOffered?: boolean;
+  /** 후속 질문 제안 */
+  suggestions?: string[];
   errorType?: 'timeout' | 'not_found' | 'invalid_request' | 'internal_error' | 'insufficient_points';
 }> {
   const startTime = Date.now();
@@ -160,10 +167,19 @@ export async function processKakaoSkill(
         sessionId: `kakao-${userId}`,
         channel: 'kakao',
         chatbotId: tenant.chatbotId,
+        callbackUrl: request.userRequest.callbackUrl,
       }),
       KAKAO_TIMEOUT_MS
     );
 
+    // 상담원 응대 중이고 전달할 상담원 메시지가 없으면 콜백으로 대기
+    if (!isBotAnswer(response.handoff)) {
+      if (!response.message && request.userRequest.callbackUrl) {
+        return { success: true, message: HANDOFF_MESSAGES.waiting, useCallback: true };
+      }
+      return { success: true, message: response.message || HANDOFF_MESSAGES.waiting };
+    }
+
     // 포인트 차감 (AI 응답 성공 후)
     await usePoints({
       tenantId: tenant.id,
@@ -190,16 +206,21 @@ export async function processKakaoSkill(
       message = message.slice(0, maxLength - 3) + '...';
     }
 
-    // sources 변환 (content 첫 50자를 title로 사용)
-    const transformedSources = response.sources?.map((s) => ({
-      title: s.content.slice(0, 50) + (s.content.length > 50 ? '...' : ''),
-      documentId: s.documentId,
-    }));
+    // sources 변환 (content 첫 50자를 title로 사용, 슬라이드/시트 위치가 있으면 앞에 표시)
+    const transformedSources = response.sources?.map((s) => {
+      const snippet = s.content.slice(0, 50) + (s.content.length > 50 ? '...' : '');
+      return {
+        title: s.location ? `[${s.location}] ${snippet}` : snippet,
+        documentId: s.documentId,
+      };
+    });
 
     return {
       success: true,
       message,
       sources: transformedSources,
+      handoffOffered: response.handoff?.status === 'offered',
+      suggestions: response.suggestions,
     };
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -69,6 +69,8 @@ export interface KakaoSkillRequest {
     utterance: string;
     lang?: string;
     user: KakaoUser;
+    /** 콜백 URL (블록에 콜백 설정 시, 1분간 1회 사용 가능) */
+    callbackUrl?: string;
   };
   bot?: KakaoBot;
   action?: KakaoAction;
@@ -132,7 +134,10 @@ export interface KakaoSkillTemplate {
  */
 export interface KakaoSkillResponse {
   version: '2.0';
-  template: KakaoSkillTemplate;
+  /** 콜백 대기 응답에서는 생략 */
+  template?: KakaoSkillTemplate;
+  /** true면 최종 응답을 콜백 URL로 전송 (data.text는 대기 안내 문구) */
+  useCallback?: boolean;
   context?: {
     values: Array<{
       name: string;
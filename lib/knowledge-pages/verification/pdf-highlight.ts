@@ -6,6 +6,8 @@
  * PDF.js의 텍스트 레이어에서 특정 텍스트의 좌표를 찾아 하이라이트합니다.
  */
 
+import { getChunkPageRange } from '@/lib/parsers/source-location';
+
 export interface TextPosition {
   top: number;
   left: number;
@@ -114,6 +116,25 @@ export function charIndexToPage(
   return 1; // 기본값
 }
 
+/**
+ * 청크의 pageRange(chunks.metadata.pageRange)로 PDF 뷰어 하이라이트 대상을 만듭니다.
+ * 청크 첫 페이지로 이동하고, 본문 첫 줄을 텍스트 레이어에서 찾습니다.
+ * (markdown 표로 변환된 청크는 첫 셀 텍스트를 사용)
+ *
+ * @returns 페이지 정보가 없는 청크는 null
+ */
+export function getChunkHighlight(chunk: {
+  content: string;
+  metadata: unknown;
+}): { pageNumber: number; text: string } | null {
+  const pageRange = getChunkPageRange(chunk.metadata);
+  if (!pageRange) return null;
+
+  const firstLine = chunk.content.trim().split('\n')[0];
+  const text = firstLine.replace(/^\|\s*/, '').split(' | ')[0].trim();
+  return { pageNumber: pageRange.start, text };
+}
+
 /**
  * 하이라이트 스타일을 생성합니다.
  */
@@ -7,10 +7,15 @@ import { parsePdf, type PdfParseResult } from './pdf-parser';
 import { parseDocx, type DocxParseResult } from './docx-parser';
 import { parseText, type TextParseResult } from './text-parser';
 import { parseCsv, type CsvParseResult } from './csv-parser';
+import { parseXlsx, type XlsxParseResult } from './xlsx-parser';
+import { parsePptx, type PptxParseResult } from './pptx-parser';
+import type { SourceSegment } from './source-location';
 
 export type SupportedFileType =
   | 'application/pdf'
   | 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  | 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  | 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
   | 'text/plain'
   | 'text/markdown'
   | 'text/csv'
@@ -20,11 +25,15 @@ export type DocumentParseResult = {
   text: string;
   fileType: SupportedFileType;
   metadata: Record<string, unknown>;
+  /** 텍스트 구간별 원본 위치 (XLSX 시트/행, PPTX 슬라이드, PDF 페이지) */
+  segments?: SourceSegment[];
 } & (
   | { type: 'pdf'; parseResult: PdfParseResult }
   | { type: 'docx'; parseResult: DocxParseResult }
   | { type: 'text'; parseResult: TextParseResult }
   | { type: 'csv'; parseResult: CsvParseResult }
+  | { type: 'xlsx'; parseResult: XlsxParseResult }
+  | { type: 'pptx'; parseResult: PptxParseResult }
   | { type: 'json'; parseResult: { data: unknown } }
 );
 
@@ -44,6 +53,7 @@ export async function parseDocument(
         type: 'pdf',
         parseResult,
         metadata: parseResult.metadata,
+        segments: parseResult.segments,
       };
     }
 
@@ -58,6 +68,30 @@ export async function parseDocument(
       };
     }
 
+    case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+      const parseResult = await parseXlsx(buffer);
+      return {
+        text: parseResult.text,
+        fileType,
+        type: 'xlsx',
+        parseResult,
+        metadata: parseResult.metadata,
+        segments: parseResult.segments,
+      };
+    }
+
+    case 'application/vnd.openxmlformats-officedocument.presentationml.presentation': {
+      const parseResult = await parsePptx(buffer);
+      return {
+        text: parseResult.text,
+        fileType,
+        type: 'pptx',
+        parseResult,
+        metadata: parseResult.metadata,
+        segments: parseResult.segments,
+      };
+    }
+
     case 'text/plain': {
       const parseResult = await parseText(buffer, 'plain');
       return {
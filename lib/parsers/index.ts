@@ -1,10 +1,21 @@
 /**
  * 문서 파서 모듈
- * PDF, DOCX, TXT, CSV, Markdown, JSON 파일 파싱
+ * PDF, DOCX, XLSX, PPTX, TXT, CSV, Markdown, JSON 파일 파싱
  */
 
-export { parsePdf, type PdfParseResult } from './pdf-parser';
+export { parsePdf, type PdfParseResult, type PdfParseOptions } from './pdf-parser';
 export { parseDocx, type DocxParseResult } from './docx-parser';
 export { parseText, type TextParseResult } from './text-parser';
 export { parseCsv, type CsvParseResult } from './csv-parser';
+export { parseXlsx, type XlsxParseResult } from './xlsx-parser';
+export { parsePptx, type PptxParseResult } from './pptx-parser';
+export {
+  locateChunkSources,
+  formatSourceLocation,
+  toPageRange,
+  getChunkPageRange,
+  type SourceLocation,
+  type SourceSegment,
+  type PageRange,
+} from './source-location';
 export { parseDocument, type DocumentParseResult, type SupportedFileType } from './document-parser';
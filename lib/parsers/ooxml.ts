@@ -0,0 +1,145 @@
+/**
+ * OOXML 패키지 공통 유틸 (XLSX, PPTX)
+ *
+ * OOXML 파일은 ZIP 안의 XML 파트와 관계(.rels) 파일로 구성된다.
+ * jszip으로 파트를 읽고 @xmldom/xmldom으로 파싱하며, 요소는 접두사가 아닌
+ * 네임스페이스로 찾는다 (생성 프로그램마다 접두사가 다를 수 있음).
+ */
+
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+
+export const NS = {
+  spreadsheet: 'http://schemas.openxmlformats.org/spreadsheetml/2006/main',
+  presentation: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  drawing: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  packageRelationships: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  officeRelationships: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+} as const;
+
+export interface Relationship {
+  id: string;
+  /** 관계 타입 URI의 마지막 부분 (예: 'worksheet', 'slide', 'notesSlide') */
+  type: string;
+  /** 패키지 루트 기준 파트 경로 */
+  target: string;
+}
+
+export interface OoxmlPackage {
+  /** 파트 XML 읽기 (없으면 null) */
+  readXml(partPath: string): Promise<Document | null>;
+  /** 파트의 관계 목록 (ID → 관계) */
+  readRelationships(partPath: string): Promise<Map<string, Relationship>>;
+  /** 루트 관계에서 본문 파트 경로 (예: 'xl/workbook.xml') */
+  getMainPartPath(fallback: string): Promise<string>;
+}
+
+/**
+ * OOXML 패키지 열기
+ *
+ * @throws ZIP 형식이 아닐 때
+ */
+export async function openOoxmlPackage(buffer: Buffer): Promise<OoxmlPackage> {
+  const zip = await JSZip.loadAsync(buffer);
+  const parser = new DOMParser({ errorHandler: { warning: () => {} } });
+
+  const readXml = async (partPath: string): Promise<Document | null> => {
+    const file = zip.file(partPath);
+    if (!file) return null;
+    return parser.parseFromString(await file.async('string'), 'text/xml');
+  };
+
+  const readRelationships = async (partPath: string): Promise<Map<string, Relationship>> => {
+    const slash = partPath.lastIndexOf('/');
+    const dir = partPath.slice(0, slash + 1);
+    const relsPath = `${dir}_rels/${partPath.slice(slash + 1)}.rels`;
+    const relationships = new Map<string, Relationship>();
+
+    const doc = await readXml(relsPath);
+    if (!doc) return relationships;
+
+    for (const rel of getElements(doc, NS.packageRelationships, 'Relationship')) {
+      if (rel.getAttribute('TargetMode') === 'External') continue;
+      const id = rel.getAttribute('Id') ?? '';
+      const type = (rel.getAttribute('Type') ?? '').split('/').pop() ?? '';
+      relationships.set(id, {
+        id,
+        type,
+        target: resolvePartPath(dir, rel.getAttribute('Target') ?? ''),
+      });
+    }
+    return relationships;
+  };
+
+  const getMainPartPath = async (fallback: string): Promise<string> => {
+    const rootRels = await readRelationships('');
+    const main = [...rootRels.values()].find((rel) => rel.type === 'officeDocument');
+    return main?.target ?? fallback;
+  };
+
+  return { readXml, readRelationships, getMainPartPath };
+}
+
+/**
+ * 하위 요소 검색 (문서 순서)
+ */
+export function getElements(
+  node: Document | Element,
+  namespace: string,
+  localName: string
+): Element[] {
+  return Array.from(node.getElementsByTagNameNS(namespace, localName));
+}
+
+/**
+ * 직계 자식 요소
+ */
+export function getChildElements(node: Element, namespace?: string, localName?: string): Element[] {
+  const children: Element[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType !== 1) continue;
+    const element = child as Element;
+    if (namespace && element.namespaceURI !== namespace) continue;
+    if (localName && element.localName !== localName) continue;
+    children.push(element);
+  }
+  return children;
+}
+
+/**
+ * 관계 ID 속성 (r:id, r:embed 등)
+ */
+export function getRelationshipId(element: Element, attribute = 'id'): string | null {
+  return element.getAttributeNS(NS.officeRelationships, attribute) || null;
+}
+
+/**
+ * DrawingML 문단 텍스트 (a:p → 줄 목록, 빈 문단 제외)
+ */
+export function getParagraphTexts(node: Element): string[] {
+  return getElements(node, NS.drawing, 'p')
+    .map((paragraph) => {
+      let text = '';
+      for (const element of getElements(paragraph, NS.drawing, '*')) {
+        if (element.localName === 't') text += element.textContent ?? '';
+        else if (element.localName === 'br') text += '\n';
+      }
+      return text.trim();
+    })
+    .filter(Boolean);
+}
+
+/**
+ * 관계 Target을 패키지 루트 기준 경로로 변환
+ */
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const parts = `${baseDir}${target}`.split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
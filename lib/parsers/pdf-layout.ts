@@ -0,0 +1,277 @@
+/**
+ * PDF 레이아웃 분석
+ *
+ * pdf.js 텍스트 아이템(문자열 + 좌표)으로 페이지 텍스트를 다시 구성한다.
+ * - 같은 높이의 아이템을 한 줄로 묶고, 큰 가로 간격은 셀 경계로 본다
+ * - 셀 수와 열 위치가 맞는 줄이 이어지면 markdown 표로 변환
+ * - 여러 페이지의 같은 위치(상단/하단)에 반복되는 줄은 머리글/바닥글로 제거
+ * - 페이지마다 SourceSegment를 만들어 청크의 페이지 범위를 계산할 수 있게 한다
+ *
+ * pdf.js 의존성이 없는 순수 함수 (pdf-parser.ts가 아이템을 추출해 넘긴다)
+ */
+
+import type { SourceSegment } from './source-location';
+
+/**
+ * 텍스트 아이템 (PDF 좌표계: y는 아래에서 위로 증가)
+ */
+export interface PdfTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfLayoutPage {
+  pageNumber: number;
+  items: PdfTextItem[];
+}
+
+export interface PdfLayoutResult {
+  text: string;
+  segments: SourceSegment[];
+  tableCount: number;
+  /** 머리글/바닥글로 제거한 줄 수 */
+  removedLineCount: number;
+}
+
+interface LineCell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+interface PdfLine {
+  y: number;
+  height: number;
+  cells: LineCell[];
+  text: string;
+}
+
+// 같은 줄로 볼 y 차이 (글자 높이 대비)
+const SAME_LINE_RATIO = 0.5;
+// 단어 사이 공백으로 볼 가로 간격 (글자 높이 대비)
+const WORD_GAP_RATIO = 0.15;
+// 셀 경계로 볼 가로 간격 (글자 높이 대비)
+const CELL_GAP_RATIO = 1.5;
+// 문단 경계로 볼 세로 간격 (줄 높이 대비)
+const PARAGRAPH_GAP_RATIO = 1.8;
+// 표로 볼 최소 행 수 (머리행 포함)
+const MIN_TABLE_ROWS = 3;
+// 머리글/바닥글 후보: 페이지 위/아래 줄 수
+const EDGE_LINE_COUNT = 2;
+// 머리글/바닥글 판정에 필요한 최소 페이지 수
+const MIN_PAGES_FOR_EDGES = 3;
+// 머리글/바닥글로 볼 반복 비율
+const EDGE_REPEAT_RATIO = 0.5;
+
+/**
+ * 페이지별 텍스트 아이템을 레이아웃을 반영한 텍스트로 변환
+ */
+export function buildPdfLayout(pages: PdfLayoutPage[]): PdfLayoutResult {
+  const pageLines = pages.map((page) => groupLines(page.items));
+  const { lines: cleanedLines, removed } = removeRepeatedEdges(pageLines);
+
+  let text = '';
+  let tableCount = 0;
+  const segments: SourceSegment[] = [];
+
+  pages.forEach((page, index) => {
+    const { text: pageText, tables } = renderPage(cleanedLines[index]);
+    if (!pageText) return;
+
+    if (text) text += '\n\n';
+    segments.push({
+      startOffset: text.length,
+      endOffset: text.length + pageText.length,
+      location: { type: 'page', pageNumber: page.pageNumber },
+    });
+    text += pageText;
+    tableCount += tables;
+  });
+
+  return { text, segments, tableCount, removedLineCount: removed };
+}
+
+/**
+ * 아이템을 줄 단위로 묶기 (위 → 아래, 왼쪽 → 오른쪽)
+ */
+function groupLines(items: PdfTextItem[]): PdfLine[] {
+  const sorted = items
+    .filter((item) => item.str.trim() !== '')
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const groups: PdfTextItem[][] = [];
+  for (const item of sorted) {
+    const current = groups[groups.length - 1];
+    const reference = current?.[0];
+    if (
+      reference &&
+      Math.abs(reference.y - item.y) <= Math.max(reference.height, item.height, 1) * SAME_LINE_RATIO
+    ) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map((group) => {
+    group.sort((a, b) => a.x - b.x);
+    const height = Math.max(...group.map((item) => item.height), 1);
+    const cells: LineCell[] = [];
+
+    for (const item of group) {
+      const str = item.str.replace(/\s+/g, ' ');
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x - cell.right : 0;
+
+      if (!cell || gap > height * CELL_GAP_RATIO) {
+        cells.push({ text: str.trim(), x: item.x, right: item.x + item.width });
+        continue;
+      }
+
+      const needsSpace = gap > height * WORD_GAP_RATIO && !cell.text.endsWith(' ');
+      cell.text = (cell.text + (needsSpace ? ' ' : '') + str).replace(/ {2,}/g, ' ');
+      cell.right = Math.max(cell.right, item.x + item.width);
+    }
+
+    for (const cell of cells) cell.text = cell.text.trim();
+    return {
+      y: group[0].y,
+      height,
+      cells,
+      text: cells.map((cell) => cell.text).join(' '),
+    };
+  });
+}
+
+/**
+ * 여러 페이지의 위/아래에 반복되는 줄 제거 (숫자는 무시하고 비교 → 페이지 번호 포함)
+ */
+function removeRepeatedEdges(pageLines: PdfLine[][]): { lines: PdfLine[][]; removed: number } {
+  if (pageLines.length < MIN_PAGES_FOR_EDGES) return { lines: pageLines, removed: 0 };
+
+  const edgeKeys = (lines: PdfLine[], edge: 'top' | 'bottom') => {
+    const count = edgeLineCount(lines.length);
+    const edgeLines = edge === 'top' ? lines.slice(0, count) : lines.slice(lines.length - count);
+    return new Set(edgeLines.map((line) => edgeKey(line.text)));
+  };
+
+  const threshold = Math.max(2, Math.ceil(pageLines.length * EDGE_REPEAT_RATIO));
+  const repeated = { top: new Set<string>(), bottom: new Set<string>() };
+
+  for (const edge of ['top', 'bottom'] as const) {
+    const counts = new Map<string, number>();
+    for (const lines of pageLines) {
+      for (const key of edgeKeys(lines, edge)) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+    for (const [key, count] of counts) {
+      if (count >= threshold) repeated[edge].add(key);
+    }
+  }
+
+  let removed = 0;
+  const lines = pageLines.map((pageLine) =>
+    pageLine.filter((line, index) => {
+      const count = edgeLineCount(pageLine.length);
+      const key = edgeKey(line.text);
+      const isEdge =
+        (index < count && repeated.top.has(key)) ||
+        (index >= pageLine.length - count && repeated.bottom.has(key));
+      if (isEdge) removed++;
+      return !isEdge;
+    })
+  );
+
+  return { lines, removed };
+}
+
+/**
+ * 머리글/바닥글 후보 줄 수 (줄이 적은 페이지는 위/아래 후보가 본문과 겹치지 않도록 절반까지)
+ */
+function edgeLineCount(lineCount: number): number {
+  return Math.min(EDGE_LINE_COUNT, Math.floor(lineCount / 2));
+}
+
+function edgeKey(text: string): string {
+  return text.replace(/\d+/g, '#').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * 페이지 줄을 텍스트로 (표 구간은 markdown 표, 큰 세로 간격은 문단 구분)
+ */
+function renderPage(lines: PdfLine[]): { text: string; tables: number } {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let tables = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push(paragraph.join('\n'));
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const tableEnd = findTableEnd(lines, i);
+    if (tableEnd - i >= MIN_TABLE_ROWS) {
+      flushParagraph();
+      blocks.push(toMarkdownTable(lines.slice(i, tableEnd)));
+      tables++;
+      i = tableEnd;
+      continue;
+    }
+
+    const line = lines[i];
+    const previous = lines[i - 1];
+    if (previous && previous.y - line.y > Math.max(previous.height, 1) * PARAGRAPH_GAP_RATIO) {
+      flushParagraph();
+    }
+    paragraph.push(line.text);
+    i++;
+  }
+  flushParagraph();
+
+  return { text: blocks.join('\n\n'), tables };
+}
+
+/**
+ * start 줄부터 열 구성이 같은 줄이 이어지는 끝 (표가 아니면 start + 1 이하)
+ */
+function findTableEnd(lines: PdfLine[], start: number): number {
+  const header = lines[start];
+  if (header.cells.length < 2) return start;
+
+  let end = start + 1;
+  while (end < lines.length && columnsMatch(header.cells, lines[end].cells)) end++;
+  return end;
+}
+
+/**
+ * 셀 수가 같고 각 셀이 머리행의 같은 열과 가로로 겹치는지 (왼쪽/오른쪽 정렬 모두 허용)
+ */
+function columnsMatch(header: LineCell[], row: LineCell[]): boolean {
+  if (row.length !== header.length) return false;
+  return row.every((cell, index) => {
+    const column = header[index];
+    const next = header[index + 1];
+    const previous = header[index - 1];
+    // 이웃 열을 침범하지 않는 범위에서 겹치면 같은 열
+    return (
+      cell.x < (next ? next.x : Infinity) &&
+      cell.right > (previous ? previous.right : -Infinity) &&
+      cell.x <= column.right &&
+      cell.right >= column.x
+    );
+  });
+}
+
+function toMarkdownTable(rows: PdfLine[]): string {
+  const toRow = (line: PdfLine) =>
+    `| ${line.cells.map((cell) => cell.text.replace(/\|/g, '\\|')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  const separator = `| ${header.cells.map(() => '---').join(' | ')} |`;
+  return [toRow(header), separator, ...body.map(toRow)].join('\n');
+}
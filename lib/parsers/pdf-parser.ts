@@ -2,9 +2,14 @@
  * PDF 파서
  * unpdf 라이브러리를 사용하여 PDF 문서에서 텍스트 추출
  * (pdf-parse v2는 Node.js 서버 환경에서 worker 로딩 문제가 있어 대체)
+ *
+ * 기본은 레이아웃 모드: 텍스트 아이템 좌표로 페이지 경계, 표, 머리글/바닥글을 처리하고
+ * 페이지별 SourceSegment를 반환한다 (pdf-layout.ts). layout: false면 페이지 구분 없는 평문.
  */
 
 import { extractText, getMeta, getDocumentProxy } from 'unpdf';
+import { buildPdfLayout, type PdfLayoutPage } from './pdf-layout';
+import type { SourceSegment } from './source-location';
 
 export interface PdfParseResult {
   text: string;
@@ -13,22 +18,34 @@ export interface PdfParseResult {
     title?: string;
     author?: string;
     creationDate?: Date;
+    /** 레이아웃 모드에서 markdown 표로 변환한 표 수 */
+    tableCount?: number;
   };
+  /** 페이지별 텍스트 구간 (레이아웃 모드) */
+  segments?: SourceSegment[];
 }
 
+export interface PdfParseOptions {
+  /** 레이아웃 분석 여부 (기본 true) */
+  layout?: boolean;
+}
+
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
 /**
  * PDF 버퍼에서 텍스트와 메타데이터 추출
  */
-export async function parsePdf(buffer: Buffer): Promise<PdfParseResult> {
+export async function parsePdf(
+  buffer: Buffer,
+  options: PdfParseOptions = {}
+): Promise<PdfParseResult> {
+  const { layout = true } = options;
+
   try {
     // Buffer를 Uint8Array로 변환 (ArrayBuffer detached 문제 방지)
-    const uint8Array = new Uint8Array(buffer);
-
-    // 텍스트 추출
-    const { text, totalPages } = await extractText(uint8Array, { mergePages: true });
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
 
     // 메타데이터 추출
-    const pdf = await getDocumentProxy(new Uint8Array(buffer));
     const metadata = await getMeta(pdf);
 
     // 날짜 파싱
@@ -49,14 +66,28 @@ export async function parsePdf(buffer: Buffer): Promise<PdfParseResult> {
       }
     }
 
+    const info = {
+      pageCount: pdf.numPages,
+      title: (metadata.info?.Title as string) || undefined,
+      author: (metadata.info?.Author as string) || undefined,
+      creationDate,
+    };
+
+    if (layout) {
+      const result = buildPdfLayout(await extractLayoutPages(pdf));
+      return {
+        text: result.text,
+        metadata: { ...info, tableCount: result.tableCount },
+        segments: result.segments,
+      };
+    }
+
+    // 텍스트 추출
+    const { text } = await extractText(pdf, { mergePages: true });
+
     return {
       text: cleanText(Array.isArray(text) ? text.join('\n') : text),
-      metadata: {
-        pageCount: totalPages,
-        title: (metadata.info?.Title as string) || undefined,
-        author: (metadata.info?.Author as string) || undefined,
-        creationDate,
-      },
+      metadata: info,
     };
   } catch (error) {
     throw new Error(
@@ -65,6 +96,35 @@ export async function parsePdf(buffer: Buffer): Promise<PdfParseResult> {
   }
 }
 
+/**
+ * 페이지별 텍스트 아이템 추출 (좌표는 변환 행렬의 이동 성분)
+ */
+async function extractLayoutPages(pdf: PdfDocument): Promise<PdfLayoutPage[]> {
+  const pages: PdfLayoutPage[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push({
+      pageNumber,
+      items: content.items.flatMap((item) =>
+        'str' in item
+          ? [
+              {
+                str: item.str,
+                x: item.transform[4],
+                y: item.transform[5],
+                width: item.width,
+                // height가 0인 폰트는 변환 행렬의 세로 배율로 보완
+                height: item.height || Math.abs(item.transform[3]),
+              },
+            ]
+          : []
+      ),
+    });
+  }
+  return pages;
+}
+
 /**
  * 텍스트 정리 (불필요한 공백, 특수문자 제거)
  */
@@ -0,0 +1,209 @@
+/**
+ * PPTX 파서
+ * 슬라이드 순서대로 제목, 본문(텍스트 상자/표), 발표자 노트를 추출
+ */
+
+import {
+  NS,
+  getChildElements,
+  getElements,
+  getParagraphTexts,
+  getRelationshipId,
+  openOoxmlPackage,
+  type OoxmlPackage,
+} from './ooxml';
+import type { SourceSegment } from './source-location';
+
+export interface PptxSlide {
+  /** 슬라이드 번호 (1부터, 프레젠테이션 순서) */
+  slideNumber: number;
+  title: string | null;
+  /** 본문 줄 (제목 제외, 표는 행마다 " | "로 연결) */
+  body: string[];
+  notes: string | null;
+}
+
+export interface PptxParseResult {
+  text: string;
+  slides: PptxSlide[];
+  /** 슬라이드별 텍스트 구간 (청크 → 슬라이드 위치 매핑용) */
+  segments: SourceSegment[];
+  metadata: {
+    slideCount: number;
+    /** 발표자 노트가 있는 슬라이드 수 */
+    notesCount: number;
+    /** 건너뛴 숨김 슬라이드 번호 */
+    hiddenSlides: number[];
+  };
+}
+
+// 제목 placeholder
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+// 본문으로 보지 않는 placeholder (날짜, 바닥글, 슬라이드 번호, 노트의 슬라이드 이미지)
+const IGNORED_PLACEHOLDERS = new Set(['dt', 'ftr', 'sldNum', 'sldImg', 'hdr']);
+
+/**
+ * PPTX 버퍼에서 슬라이드별 텍스트 추출
+ */
+export async function parsePptx(buffer: Buffer): Promise<PptxParseResult> {
+  try {
+    const pkg = await openOoxmlPackage(buffer);
+    const presentationPath = await pkg.getMainPartPath('ppt/presentation.xml');
+    const presentation = await pkg.readXml(presentationPath);
+    if (!presentation) {
+      throw new Error('presentation.xml을 찾을 수 없습니다');
+    }
+
+    const relationships = await pkg.readRelationships(presentationPath);
+    const slides: PptxSlide[] = [];
+    const hiddenSlides: number[] = [];
+    const slideIds = getElements(presentation, NS.presentation, 'sldId');
+
+    for (const [index, slideId] of slideIds.entries()) {
+      const slideNumber = index + 1;
+      const relationId = getRelationshipId(slideId);
+      const slidePath = relationId ? relationships.get(relationId)?.target : undefined;
+      const slideDoc = slidePath ? await pkg.readXml(slidePath) : null;
+      if (!slidePath || !slideDoc) continue;
+
+      if (slideDoc.documentElement?.getAttribute('show') === '0') {
+        hiddenSlides.push(slideNumber);
+        continue;
+      }
+
+      const { title, body } = readSlideContent(slideDoc);
+      const notes = await readNotes(pkg, slidePath);
+      slides.push({ slideNumber, title, body, notes });
+    }
+
+    const { text, segments } = convertToText(slides);
+
+    return {
+      text,
+      slides,
+      segments,
+      metadata: {
+        slideCount: slides.length,
+        notesCount: slides.filter((slide) => slide.notes).length,
+        hiddenSlides,
+      },
+    };
+  } catch (error) {
+    throw new Error(
+      `PPTX 파싱 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`
+    );
+  }
+}
+
+/**
+ * 슬라이드 도형 트리를 문서 순서대로 순회하며 제목/본문 추출
+ */
+function readSlideContent(slideDoc: Document): { title: string | null; body: string[] } {
+  const titleLines: string[] = [];
+  const body: string[] = [];
+
+  const visit = (container: Element) => {
+    for (const element of getChildElements(container, NS.presentation)) {
+      switch (element.localName) {
+        case 'sp': {
+          const placeholder = getPlaceholderType(element);
+          if (placeholder && IGNORED_PLACEHOLDERS.has(placeholder)) break;
+
+          const lines = getParagraphTexts(element);
+          if (placeholder && TITLE_PLACEHOLDERS.has(placeholder) && titleLines.length === 0) {
+            titleLines.push(...lines);
+          } else {
+            body.push(...lines);
+          }
+          break;
+        }
+        case 'graphicFrame':
+          body.push(...readTableRows(element));
+          break;
+        case 'grpSp':
+          visit(element);
+          break;
+      }
+    }
+  };
+
+  const spTree = getElements(slideDoc, NS.presentation, 'spTree')[0];
+  if (spTree) visit(spTree);
+
+  return { title: titleLines.length > 0 ? titleLines.join(' ') : null, body };
+}
+
+/**
+ * 도형의 placeholder 타입 (p:nvSpPr/p:nvPr/p:ph@type, 타입 없는 placeholder는 'body')
+ */
+function getPlaceholderType(shape: Element): string | null {
+  const placeholder = getElements(shape, NS.presentation, 'ph')[0];
+  if (!placeholder) return null;
+  return placeholder.getAttribute('type') || 'body';
+}
+
+/**
+ * 표 행 텍스트 (셀을 " | "로 연결)
+ */
+function readTableRows(frame: Element): string[] {
+  return getElements(frame, NS.drawing, 'tr')
+    .map((row) =>
+      getChildElements(row, NS.drawing, 'tc')
+        .map((cell) => getParagraphTexts(cell).join(' '))
+        .join(' | ')
+    )
+    .filter((row) => row.replace(/[\s|]/g, ''));
+}
+
+/**
+ * 슬라이드의 발표자 노트 (노트 본문 placeholder만)
+ */
+async function readNotes(pkg: OoxmlPackage, slidePath: string): Promise<string | null> {
+  const slideRelationships = await pkg.readRelationships(slidePath);
+  const notesPath = [...slideRelationships.values()].find(
+    (rel) => rel.type === 'notesSlide'
+  )?.target;
+  const notesDoc = notesPath ? await pkg.readXml(notesPath) : null;
+  if (!notesDoc) return null;
+
+  const lines = getElements(notesDoc, NS.presentation, 'sp')
+    .filter((shape) => getPlaceholderType(shape) === 'body')
+    .flatMap(getParagraphTexts);
+
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+/**
+ * 슬라이드를 RAG에 적합한 텍스트 형식으로 변환 (슬라이드별 구간 기록)
+ */
+function convertToText(slides: PptxSlide[]): { text: string; segments: SourceSegment[] } {
+  const segments: SourceSegment[] = [];
+  let text = '';
+
+  for (const slide of slides) {
+    if (!slide.title && slide.body.length === 0 && !slide.notes) continue;
+
+    const parts = [
+      slide.title
+        ? `## 슬라이드 ${slide.slideNumber}: ${slide.title}`
+        : `## 슬라이드 ${slide.slideNumber}`,
+    ];
+    if (slide.body.length > 0) parts.push(slide.body.join('\n'));
+    if (slide.notes) parts.push(`[발표자 노트]\n${slide.notes}`);
+
+    if (text) text += '\n\n';
+    const startOffset = text.length;
+    text += parts.join('\n\n');
+    segments.push({
+      startOffset,
+      endOffset: text.length,
+      location: {
+        type: 'slide',
+        slideNumber: slide.slideNumber,
+        ...(slide.title && { slideTitle: slide.title }),
+      },
+    });
+  }
+
+  return { text, segments };
+}
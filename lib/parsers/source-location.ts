@@ -0,0 +1,185 @@
+/**
+ * 원본 위치 (시트/행, 슬라이드, 페이지)
+ *
+ * XLSX/PPTX/PDF 파서는 추출한 텍스트의 구간마다 원본 위치(SourceSegment)를 함께 반환한다.
+ * 청킹 후 청크 본문의 텍스트 내 위치로 구간을 찾아 청크 메타데이터(sourceLocation)에 저장하고,
+ * 출처 표시에서 "슬라이드 7", "가격표 시트 3~10행", "12~13페이지"처럼 보여준다.
+ * DB/서버 의존성이 없으므로 클라이언트 컴포넌트에서도 import 가능하다.
+ */
+
+/**
+ * 텍스트 구간의 원본 위치 (행 하나, 슬라이드 하나 또는 PDF 페이지 하나)
+ */
+export type SegmentLocation =
+  | { type: 'sheet'; sheetNumber: number; sheetName: string; row: number }
+  | { type: 'slide'; slideNumber: number; slideTitle?: string }
+  | { type: 'page'; pageNumber: number };
+
+export interface SourceSegment {
+  /** 파싱 결과 텍스트 기준 시작 오프셋 */
+  startOffset: number;
+  /** 파싱 결과 텍스트 기준 끝 오프셋 (미포함) */
+  endOffset: number;
+  location: SegmentLocation;
+}
+
+/**
+ * 청크의 원본 위치 (chunks.metadata.sourceLocation)
+ * 청크가 여러 행/슬라이드에 걸치면 범위로 저장한다.
+ */
+export type SourceLocation =
+  | { type: 'sheet'; sheetNumber: number; sheetName: string; rowStart: number; rowEnd: number }
+  | { type: 'slide'; slideNumber: number; slideEnd: number; slideTitle?: string }
+  | { type: 'page'; pageNumber: number; pageEnd: number };
+
+/**
+ * PDF 청크의 페이지 범위 (chunks.metadata.pageRange, 1부터, end 포함)
+ * PDF 뷰어에서 청크 위치로 이동할 때 사용한다.
+ */
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 청크 오프셋 범위와 겹치는 구간으로 원본 위치 계산
+ * 여러 시트에 걸친 청크는 첫 시트 기준으로 표시한다.
+ *
+ * @returns 겹치는 구간이 없으면 null
+ */
+export function locateSourceSegments(
+  segments: SourceSegment[] | undefined,
+  startOffset: number,
+  endOffset: number
+): SourceLocation | null {
+  if (!segments?.length) return null;
+
+  const overlapping = segments.filter(
+    (segment) => segment.startOffset < endOffset && segment.endOffset > startOffset
+  );
+  if (overlapping.length === 0) return null;
+
+  const first = overlapping[0].location;
+  if (first.type === 'page') {
+    const pageNumbers = overlapping.flatMap((s) =>
+      s.location.type === 'page' ? [s.location.pageNumber] : []
+    );
+    return { type: 'page', pageNumber: first.pageNumber, pageEnd: Math.max(...pageNumbers) };
+  }
+
+  if (first.type === 'slide') {
+    const slideNumbers = overlapping.flatMap((s) =>
+      s.location.type === 'slide' ? [s.location.slideNumber] : []
+    );
+    return {
+      type: 'slide',
+      slideNumber: first.slideNumber,
+      slideEnd: Math.max(...slideNumbers),
+      ...(first.slideTitle && { slideTitle: first.slideTitle }),
+    };
+  }
+
+  const rows = overlapping.flatMap((s) =>
+    s.location.type === 'sheet' && s.location.sheetNumber === first.sheetNumber
+      ? [s.location.row]
+      : []
+  );
+  return {
+    type: 'sheet',
+    sheetNumber: first.sheetNumber,
+    sheetName: first.sheetName,
+    rowStart: Math.min(...rows),
+    rowEnd: Math.max(...rows),
+  };
+}
+
+// 청크 위치 검색에 사용할 본문 앞부분 길이
+const CHUNK_PROBE_LENGTH = 60;
+
+/**
+ * 청크별 원본 위치 계산
+ *
+ * 청커의 오프셋은 구간 사이 구분자를 빼고 누적해 원문 위치와 어긋날 수 있으므로,
+ * 청크 본문 앞부분을 원문에서 찾아 위치를 정한다 (청크 순서대로, 앞 청크 위치부터 검색).
+ *
+ * @param text - 파싱 결과 텍스트 (segments 오프셋 기준)
+ * @param contents - 청크 본문 (청크 순서)
+ * @returns 청크별 원본 위치 (찾지 못하면 null)
+ */
+export function locateChunkSources(
+  text: string,
+  segments: SourceSegment[] | undefined,
+  contents: string[]
+): Array<SourceLocation | null> {
+  if (!segments?.length) return contents.map(() => null);
+
+  let cursor = 0;
+  return contents.map((content) => {
+    const trimmed = content.trim();
+    const probe = trimmed.slice(0, CHUNK_PROBE_LENGTH);
+    if (!probe) return null;
+
+    let start = text.indexOf(probe, cursor);
+    if (start === -1) start = text.indexOf(probe);
+    if (start === -1) return null;
+
+    cursor = start + 1;
+    return locateSourceSegments(segments, start, start + trimmed.length);
+  });
+}
+
+/**
+ * 출처 표시용 위치 문구 (예: "슬라이드 7", "슬라이드 7~8", "가격표 시트 3~10행", "12페이지")
+ *
+ * @returns 위치 정보가 없거나 형식이 맞지 않으면 null
+ */
+export function formatSourceLocation(location: unknown): string | null {
+  if (!location || typeof location !== 'object') return null;
+  const value = location as Partial<SourceLocation>;
+
+  if (value.type === 'slide' && typeof value.slideNumber === 'number') {
+    const end = typeof value.slideEnd === 'number' ? value.slideEnd : value.slideNumber;
+    return end > value.slideNumber
+      ? `슬라이드 ${value.slideNumber}~${end}`
+      : `슬라이드 ${value.slideNumber}`;
+  }
+
+  if (value.type === 'page' && typeof value.pageNumber === 'number') {
+    const end = typeof value.pageEnd === 'number' ? value.pageEnd : value.pageNumber;
+    return end > value.pageNumber
+      ? `${value.pageNumber}~${end}페이지`
+      : `${value.pageNumber}페이지`;
+  }
+
+  if (value.type === 'sheet' && typeof value.rowStart === 'number') {
+    const sheet = value.sheetName ? `${value.sheetName} 시트` : `시트 ${value.sheetNumber}`;
+    const rowEnd = typeof value.rowEnd === 'number' ? value.rowEnd : value.rowStart;
+    return rowEnd > value.rowStart
+      ? `${sheet} ${value.rowStart}~${rowEnd}행`
+      : `${sheet} ${value.rowStart}행`;
+  }
+
+  return null;
+}
+
+/**
+ * 원본 위치의 페이지 범위 (PDF 페이지 위치가 아니면 null)
+ */
+export function toPageRange(location: SourceLocation | null): PageRange | null {
+  if (location?.type !== 'page') return null;
+  return { start: location.pageNumber, end: location.pageEnd };
+}
+
+/**
+ * 청크 메타데이터의 pageRange 읽기
+ *
+ * @returns 형식이 맞지 않으면 null
+ */
+export function getChunkPageRange(metadata: unknown): PageRange | null {
+  const value = (metadata as { pageRange?: Partial<PageRange> } | null)?.pageRange;
+  if (!value || typeof value.start !== 'number' || value.start < 1) return null;
+  return {
+    start: value.start,
+    end: typeof value.end === 'number' && value.end >= value.start ? value.end : value.start,
+  };
+}
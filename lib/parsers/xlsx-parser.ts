@@ -0,0 +1,330 @@
+/**
+ * XLSX 파서
+ * 시트별로 첫 번째 비어 있지 않은 행을 헤더로 보고, 이후 행을 "헤더: 값" 레코드로 변환
+ * (csv-parser.ts와 같은 텍스트 형식, 행 번호는 엑셀 행 번호 사용)
+ */
+
+import {
+  NS,
+  getChildElements,
+  getElements,
+  getRelationshipId,
+  openOoxmlPackage,
+  type OoxmlPackage,
+} from './ooxml';
+import type { SourceSegment } from './source-location';
+
+export interface XlsxRow {
+  /** 엑셀 행 번호 (1부터) */
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface XlsxSheet {
+  /** 시트 순번 (1부터, 숨김 시트 포함 통합 문서 순서) */
+  sheetNumber: number;
+  name: string;
+  headers: string[];
+  rows: XlsxRow[];
+}
+
+export interface XlsxParseResult {
+  text: string;
+  sheets: XlsxSheet[];
+  /** 행별 텍스트 구간 (청크 → 시트/행 위치 매핑용) */
+  segments: SourceSegment[];
+  metadata: {
+    sheetCount: number;
+    rowCount: number;
+    sheetNames: string[];
+    /** 건너뛴 숨김 시트 이름 */
+    hiddenSheets: string[];
+  };
+}
+
+// 날짜 서식 판별용 기본 서식 ID (en-US 14~22, 45~47 / ko-KR 27~36, 50~58)
+const BUILTIN_DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51,
+  52, 53, 54, 55, 56, 57, 58,
+]);
+// 엑셀 날짜 기준일 (1900 날짜 체계, 1900-02-29 버그 보정 포함)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * XLSX 버퍼에서 시트별 레코드 추출
+ */
+export async function parseXlsx(buffer: Buffer): Promise<XlsxParseResult> {
+  try {
+    const pkg = await openOoxmlPackage(buffer);
+    const workbookPath = await pkg.getMainPartPath('xl/workbook.xml');
+    const workbook = await pkg.readXml(workbookPath);
+    if (!workbook) {
+      throw new Error('workbook.xml을 찾을 수 없습니다');
+    }
+
+    const relationships = await pkg.readRelationships(workbookPath);
+    const relationList = [...relationships.values()];
+    const sharedStrings = await readSharedStrings(
+      pkg,
+      relationList.find((rel) => rel.type === 'sharedStrings')?.target
+    );
+    const dateStyles = await readDateStyles(
+      pkg,
+      relationList.find((rel) => rel.type === 'styles')?.target
+    );
+
+    const sheets: XlsxSheet[] = [];
+    const hiddenSheets: string[] = [];
+    const sheetElements = getElements(workbook, NS.spreadsheet, 'sheet');
+
+    for (const [index, sheetElement] of sheetElements.entries()) {
+      const name = sheetElement.getAttribute('name') || `Sheet${index + 1}`;
+      if (sheetElement.getAttribute('state') && sheetElement.getAttribute('state') !== 'visible') {
+        hiddenSheets.push(name);
+        continue;
+      }
+
+      const relationId = getRelationshipId(sheetElement);
+      const sheetPath = relationId ? relationships.get(relationId)?.target : undefined;
+      const sheetDoc = sheetPath ? await pkg.readXml(sheetPath) : null;
+      if (!sheetDoc) continue;
+
+      const grid = readCellGrid(sheetDoc, sharedStrings, dateStyles);
+      sheets.push(toRecords(index + 1, name, grid));
+    }
+
+    const { text, segments } = convertToText(sheets);
+
+    return {
+      text,
+      sheets,
+      segments,
+      metadata: {
+        sheetCount: sheets.length,
+        rowCount: sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0),
+        sheetNames: sheets.map((sheet) => sheet.name),
+        hiddenSheets,
+      },
+    };
+  } catch (error) {
+    throw new Error(
+      `XLSX 파싱 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`
+    );
+  }
+}
+
+/**
+ * 공유 문자열 테이블 (서식 있는 텍스트는 run을 이어 붙이고, 윗주(rPh)는 제외)
+ */
+async function readSharedStrings(pkg: OoxmlPackage, path: string | undefined): Promise<string[]> {
+  const doc = path ? await pkg.readXml(path) : null;
+  if (!doc) return [];
+
+  return getElements(doc, NS.spreadsheet, 'si').map(readRichText);
+}
+
+function readRichText(element: Element): string {
+  return getElements(element, NS.spreadsheet, 't')
+    .filter((t) => (t.parentNode as Element | null)?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+/**
+ * 날짜 서식이 적용된 셀 스타일 인덱스 (cellXfs 순번)
+ */
+async function readDateStyles(pkg: OoxmlPackage, path: string | undefined): Promise<Set<number>> {
+  const dateStyles = new Set<number>();
+  const doc = path ? await pkg.readXml(path) : null;
+  if (!doc) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  for (const numFmt of getElements(doc, NS.spreadsheet, 'numFmt')) {
+    if (isDateFormatCode(numFmt.getAttribute('formatCode') ?? '')) {
+      customDateFormats.add(Number(numFmt.getAttribute('numFmtId')));
+    }
+  }
+
+  const cellXfs = getElements(doc, NS.spreadsheet, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+
+  for (const [index, xf] of getChildElements(cellXfs, NS.spreadsheet, 'xf').entries()) {
+    const numFmtId = Number(xf.getAttribute('numFmtId') ?? 0);
+    if (BUILTIN_DATE_FORMAT_IDS.has(numFmtId) || customDateFormats.has(numFmtId)) {
+      dateStyles.add(index);
+    }
+  }
+  return dateStyles;
+}
+
+/**
+ * 사용자 지정 서식 코드가 날짜/시간 서식인지 (따옴표 문자열, [색상] 등은 제외하고 판별)
+ */
+function isDateFormatCode(code: string): boolean {
+  const stripped = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[ymdhs]/i.test(stripped) && !/^general$/i.test(stripped.trim());
+}
+
+/**
+ * 시트의 셀 값 (행 번호 → 열 번호 → 값)
+ */
+function readCellGrid(
+  sheetDoc: Document,
+  sharedStrings: string[],
+  dateStyles: Set<number>
+): Map<number, Map<number, string>> {
+  const grid = new Map<number, Map<number, string>>();
+
+  for (const [rowIndex, row] of getElements(sheetDoc, NS.spreadsheet, 'row').entries()) {
+    const rowNumber = Number(row.getAttribute('r')) || rowIndex + 1;
+    const cells = new Map<number, string>();
+
+    for (const [cellIndex, cell] of getChildElements(row, NS.spreadsheet, 'c').entries()) {
+      const column = columnIndex(cell.getAttribute('r')) ?? cellIndex;
+      const value = readCellValue(cell, sharedStrings, dateStyles).trim();
+      if (value) cells.set(column, value);
+    }
+
+    if (cells.size > 0) grid.set(rowNumber, cells);
+  }
+  return grid;
+}
+
+function readCellValue(cell: Element, sharedStrings: string[], dateStyles: Set<number>): string {
+  const type = cell.getAttribute('t');
+  const raw = getChildElements(cell, NS.spreadsheet, 'v')[0]?.textContent ?? '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? '';
+    case 'inlineStr': {
+      const inline = getChildElements(cell, NS.spreadsheet, 'is')[0];
+      return inline ? readRichText(inline) : '';
+    }
+    case 'b':
+      return raw === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+      return raw;
+    default: {
+      if (!raw) return '';
+      const number = Number(raw);
+      if (Number.isNaN(number)) return raw;
+      if (dateStyles.has(Number(cell.getAttribute('s') ?? -1))) {
+        return formatExcelDate(number);
+      }
+      // 부동소수점 표현 오차 제거 (0.1 + 0.2 → 0.3)
+      return String(Number(number.toPrecision(15)));
+    }
+  }
+}
+
+/**
+ * 엑셀 날짜 일련번호 → YYYY-MM-DD (시간이 있으면 HH:mm 포함)
+ */
+function formatExcelDate(serial: number): string {
+  const date = new Date(EXCEL_EPOCH_MS + Math.round(serial * MS_PER_DAY));
+  const iso = date.toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+/**
+ * 셀 참조의 열 번호 (A1 → 0, AB3 → 27)
+ */
+function columnIndex(ref: string | null): number | null {
+  const letters = ref?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) return null;
+
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * 첫 번째 비어 있지 않은 행을 헤더로 하는 레코드 변환
+ * 빈 헤더는 열 문자("C열"), 중복 헤더는 "이름 (2)"로 구분한다.
+ */
+function toRecords(
+  sheetNumber: number,
+  name: string,
+  grid: Map<number, Map<number, string>>
+): XlsxSheet {
+  const rowNumbers = [...grid.keys()].sort((a, b) => a - b);
+  if (rowNumbers.length === 0) {
+    return { sheetNumber, name, headers: [], rows: [] };
+  }
+
+  const headerCells = grid.get(rowNumbers[0])!;
+  const columns = new Set<number>();
+  for (const cells of grid.values()) {
+    for (const column of cells.keys()) columns.add(column);
+  }
+  const sortedColumns = [...columns].sort((a, b) => a - b);
+
+  const seen = new Map<string, number>();
+  const headerByColumn = new Map<number, string>();
+  for (const column of sortedColumns) {
+    const base = headerCells.get(column) || `${columnLetter(column)}열`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    headerByColumn.set(column, count > 1 ? `${base} (${count})` : base);
+  }
+
+  const rows = rowNumbers.slice(1).map((rowNumber) => {
+    const values: Record<string, string> = {};
+    for (const [column, value] of grid.get(rowNumber)!) {
+      values[headerByColumn.get(column)!] = value;
+    }
+    return { rowNumber, values };
+  });
+
+  return { sheetNumber, name, headers: [...headerByColumn.values()], rows };
+}
+
+/**
+ * 시트 데이터를 RAG에 적합한 텍스트 형식으로 변환 (행별 구간 기록)
+ */
+function convertToText(sheets: XlsxSheet[]): { text: string; segments: SourceSegment[] } {
+  const segments: SourceSegment[] = [];
+  let text = '';
+
+  for (const sheet of sheets) {
+    if (sheet.rows.length === 0) continue;
+    if (text) text += '\n\n';
+    text += `## 시트: ${sheet.name}`;
+
+    for (const row of sheet.rows) {
+      const rowText = sheet.headers
+        .filter((header) => row.values[header])
+        .map((header) => `${header}: ${row.values[header]}`)
+        .join('\n');
+
+      text += '\n\n';
+      const startOffset = text.length;
+      text += `[Row ${row.rowNumber}]\n${rowText}`;
+      segments.push({
+        startOffset,
+        endOffset: text.length,
+        location: {
+          type: 'sheet',
+          sheetNumber: sheet.sheetNumber,
+          sheetName: sheet.name,
+          row: row.rowNumber,
+        },
+      });
+    }
+  }
+
+  return { text, segments };
+}
@@ -11,7 +11,7 @@ import {
   tenants,
   chatbots,
 } from '@/drizzle/schema';
-import { eq, and, gte, lt, desc, sql, isNull } from 'drizzle-orm';
+import { eq, and, gte, lt, desc, sql, isNull, isNotNull } from 'drizzle-orm';
 import { logger } from '@/lib/logger';
 
 // ============================================
@@ -49,6 +49,12 @@ export interface LatencyBreakdown {
   llm: { avgMs: number; p95Ms: number };
   search: { avgMs: number; p95Ms: number };
   rewrite: { avgMs: number; p95Ms: number };
+  /** Re-ranking (실행된 요청 기준 평균, Re-ranker별 분리) */
+  rerank: {
+    avgMs: number;
+    p95Ms: number;
+    byReranker: Array<{ reranker: string; count: number; avgMs: number }>;
+  };
   other: { avgMs: number };
 }
 
@@ -304,14 +310,27 @@ export async function getLatencyBreakdown(
         searchP95Ms: sql<number>`COALESCE(PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY ${responseTimeLogs.searchDurationMs}), 0)`,
         rewriteAvgMs: sql<number>`COALESCE(AVG(${responseTimeLogs.rewriteDurationMs}), 0)`,
         rewriteP95Ms: sql<number>`COALESCE(PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY ${responseTimeLogs.rewriteDurationMs}), 0)`,
+        rerankAvgMs: sql<number>`COALESCE(AVG(${responseTimeLogs.rerankDurationMs}), 0)`,
+        rerankP95Ms: sql<number>`COALESCE(PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY ${responseTimeLogs.rerankDurationMs}), 0)`,
         totalAvgMs: sql<number>`COALESCE(AVG(${responseTimeLogs.totalDurationMs}), 0)`,
       })
       .from(responseTimeLogs)
       .where(and(...conditions));
 
+    const rerankerRows = await db
+      .select({
+        reranker: responseTimeLogs.reranker,
+        count: sql<number>`COUNT(*)`,
+        avgMs: sql<number>`COALESCE(AVG(${responseTimeLogs.rerankDurationMs}), 0)`,
+      })
+      .from(responseTimeLogs)
+      .where(and(...conditions, isNotNull(responseTimeLogs.reranker)))
+      .groupBy(responseTimeLogs.reranker);
+
     const llmAvg = Number(result?.llmAvgMs ?? 0);
     const searchAvg = Number(result?.searchAvgMs ?? 0);
     const rewriteAvg = Number(result?.rewriteAvgMs ?? 0);
+    const rerankAvg = Number(result?.rerankAvgMs ?? 0);
     const totalAvg = Number(result?.totalAvgMs ?? 0);
 
     return {
@@ -327,8 +346,17 @@ export async function getLatencyBreakdown(
         avgMs: rewriteAvg,
         p95Ms: Number(result?.rewriteP95Ms ?? 0),
       },
+      rerank: {
+        avgMs: rerankAvg,
+        p95Ms: Number(result?.rerankP95Ms ?? 0),
+        byReranker: rerankerRows.map((r) => ({
+          reranker: r.reranker ?? 'unknown',
+          count: Number(r.count),
+          avgMs: Number(r.avgMs),
+        })),
+      },
       other: {
-        avgMs: Math.max(0, totalAvg - llmAvg - searchAvg - rewriteAvg),
+        avgMs: Math.max(0, totalAvg - llmAvg - searchAvg - rewriteAvg - rerankAvg),
       },
     };
   } catch (error) {
@@ -337,6 +365,7 @@ export async function getLatencyBreakdown(
       llm: { avgMs: 0, p95Ms: 0 },
       search: { avgMs: 0, p95Ms: 0 },
       rewrite: { avgMs: 0, p95Ms: 0 },
+      rerank: { avgMs: 0, p95Ms: 0, byReranker: [] },
       other: { avgMs: 0 },
     };
   }
@@ -10,6 +10,7 @@
 import { db } from '@/lib/db';
 import { responseTimeLogs } from '@/drizzle/schema';
 import { logger } from '@/lib/logger';
+import type { RerankerType } from '@/lib/rag/reranker';
 
 /**
  * 응답 시간 추적 파라미터
@@ -24,6 +25,8 @@ export interface ResponseTimeParams {
   cacheHit: boolean;
   chunksUsed: number;
   estimatedTokens: number;
+  /** 실행된 Re-ranker (실패 포함, 미실행 시 null) */
+  reranker?: RerankerType | null;
 }
 
 /**
@@ -38,6 +41,7 @@ function normalizeTimings(timings: Record<string, number>): Record<string, numbe
     '4_history_lookup': 'history_lookup',
     '5_query_rewriting': 'query_rewriting',
     '6_hybrid_search': 'hybrid_search',
+    '5.5_reranking': 'reranking',
     '8_llm_generation': 'llm_generation',
     '9_message_save': 'message_save',
     '10_usage_log': 'usage_log',
@@ -81,6 +85,7 @@ export async function trackResponseTime(params: ResponseTimeParams): Promise<voi
       cacheHit,
       chunksUsed,
       estimatedTokens,
+      reranker,
     } = params;
 
     // timings 키 정규화
@@ -90,6 +95,8 @@ export async function trackResponseTime(params: ResponseTimeParams): Promise<voi
     const llmDurationMs = normalizedTimings['llm_generation'] ?? null;
     const searchDurationMs = normalizedTimings['hybrid_search'] ?? null;
     const rewriteDurationMs = normalizedTimings['query_rewriting'] ?? null;
+    // Re-ranker가 실행되지 않았으면 실행 여부 판단 시간뿐이므로 기록하지 않음
+    const rerankDurationMs = reranker ? (normalizedTimings['reranking'] ?? null) : null;
 
     await db.insert(responseTimeLogs).values({
       tenantId,
@@ -101,6 +108,8 @@ export async function trackResponseTime(params: ResponseTimeParams): Promise<voi
       llmDurationMs,
       searchDurationMs,
       rewriteDurationMs,
+      rerankDurationMs,
+      reranker: reranker ?? null,
       cacheHit,
       chunksUsed,
       estimatedTokens,
@@ -0,0 +1,74 @@
+/**
+ * 운영 시간 계산
+ *
+ * OPERATING_HOURS 블록의 스케줄과 타임존으로 현재 운영 상태를 계산한다.
+ * 공개 페이지 블록 표시와 상담원 연결 가능 여부 판단에서 함께 사용한다.
+ */
+
+import { BlockType, type Block, type DayOfWeek, type OperatingHoursBlock } from './block-types';
+
+export interface OperatingHours {
+  schedule: OperatingHoursBlock['config']['schedule'];
+  timezone: string;
+}
+
+export interface OperatingStatus {
+  isOpen: boolean;
+  /** 오늘 마감 시간 (HH:mm, 휴무일이면 없음) */
+  closeTime?: string;
+}
+
+const WEEKDAYS: readonly DayOfWeek[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/**
+ * 현재 운영 상태 계산
+ *
+ * @returns 타임존이 잘못되어 계산할 수 없으면 null
+ */
+export function getOperatingStatus(
+  { schedule, timezone }: OperatingHours,
+  now: Date = new Date()
+): OperatingStatus | null {
+  try {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+
+    const parts = formatter.formatToParts(now);
+    const weekday = parts.find((p) => p.type === 'weekday')?.value.toLowerCase();
+    const hour = parts.find((p) => p.type === 'hour')?.value;
+    const minute = parts.find((p) => p.type === 'minute')?.value;
+
+    const currentDay = WEEKDAYS.find((day) => day === weekday);
+    if (!currentDay || !hour || !minute) return null;
+
+    const todaySchedule = schedule.find((s) => s.day === currentDay);
+    if (!todaySchedule || todaySchedule.closed) {
+      return { isOpen: false };
+    }
+
+    // hour12: false는 자정을 "24"로 표시하는 환경이 있어 보정
+    const currentTime = `${hour === '24' ? '00' : hour}:${minute}`;
+    const isOpen = currentTime >= todaySchedule.open && currentTime < todaySchedule.close;
+
+    return { isOpen, closeTime: todaySchedule.close };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 블록 목록에서 표시 중인 첫 번째 운영 시간 블록 추출
+ */
+export function findOperatingHours(blocks: Block[] | undefined): OperatingHours | null {
+  const block = blocks?.find(
+    (b): b is OperatingHoursBlock => b.type === BlockType.OPERATING_HOURS && b.visible
+  );
+  if (!block || block.config.schedule.length === 0) return null;
+
+  return { schedule: block.config.schedule, timezone: block.config.timezone };
+}
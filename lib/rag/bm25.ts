@@ -0,0 +1,166 @@
+/**
+ * BM25 Sparse 검색
+ *
+ * PGroonga 없이 일반 PostgreSQL에서 동작하는 내장 Sparse 인덱스.
+ * - 토큰화: 한글은 음절 bigram (형태소 분석기 없이 오프라인 동작), 영문/숫자는 단어 단위
+ * - 인덱스: chunk_terms (청크별 term, tf) + chunks.sparse_length (문서 길이)
+ * - 점수: Okapi BM25 (k1=1.2, b=0.75), N/avgdl/df는 검색 범위(테넌트/데이터셋/필터) 기준으로 계산
+ *
+ * DB 의존성이 없으므로 단위 테스트에서 직접 import 가능하다.
+ */
+
+import { sql, type SQL } from 'drizzle-orm';
+
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+// term 최대 길이 (긴 영문/숫자 토큰은 잘라서 저장)
+const MAX_TERM_LENGTH = 64;
+// 검색 쿼리에서 사용할 최대 term 수
+const MAX_QUERY_TERMS = 32;
+
+const HANGUL_RUN = /[가-힣]+|[^가-힣]+/g;
+const HANGUL_SYLLABLE = /^[가-힣]/;
+
+export type SparseSearchEngine = 'pgroonga' | 'bm25';
+
+/**
+ * Sparse 검색 엔진 설정 (SPARSE_SEARCH_ENGINE, 기본 pgroonga)
+ * pgroonga: PGroonga 우선, 실패 시 BM25 → ILIKE 순으로 폴백
+ * bm25: 내장 BM25 인덱스만 사용 (PGroonga 미설치 환경)
+ */
+export function getSparseSearchEngine(): SparseSearchEngine {
+  return process.env.SPARSE_SEARCH_ENGINE === 'bm25' ? 'bm25' : 'pgroonga';
+}
+
+/**
+ * 텍스트 → term 목록 (중복 포함, 등장 순서)
+ *
+ * @example
+ * tokenize('환불 정책은 GPT-4와') // ['환불', '정책', '책은', 'gpt', '4', '와']
+ */
+export function tokenize(text: string): string[] {
+  const words =
+    text
+      .normalize('NFKC')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+  const tokens: string[] = [];
+
+  for (const word of words) {
+    // 한글/비한글 구간 분리 ("gpt4와" → "gpt4", "와")
+    for (const run of word.match(HANGUL_RUN) ?? []) {
+      if (HANGUL_SYLLABLE.test(run)) {
+        if (run.length === 1) {
+          tokens.push(run);
+        } else {
+          for (let i = 0; i < run.length - 1; i++) {
+            tokens.push(run.slice(i, i + 2));
+          }
+        }
+      } else if (run.length > 1 || /\p{N}/u.test(run)) {
+        // 한 글자 영문은 제외 (숫자는 유지)
+        tokens.push(run.slice(0, MAX_TERM_LENGTH));
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 청크 본문 → term 빈도 + 문서 길이 (인덱싱용)
+ */
+export function termFrequencies(text: string): {
+  terms: Map<string, number>;
+  length: number;
+} {
+  const tokens = tokenize(text);
+  const terms = new Map<string, number>();
+  for (const token of tokens) {
+    terms.set(token, (terms.get(token) ?? 0) + 1);
+  }
+  return { terms, length: tokens.length };
+}
+
+/**
+ * 검색 쿼리 → 중복 없는 term 목록
+ */
+export function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS);
+}
+
+/**
+ * BM25 검색 SQL
+ *
+ * chunks는 별칭 없이 참조하므로 메타데이터 필터(filterSql)를 그대로 붙일 수 있다.
+ * 인덱싱되지 않은 청크(sparse_length IS NULL)는 통계와 결과에서 제외된다.
+ */
+export function buildBm25SearchSql(params: {
+  tenantId: string;
+  /** 지정하면 해당 데이터셋만 검색 */
+  datasetIds?: string[];
+  terms: string[];
+  limit: number;
+  filterSql: SQL;
+}): SQL {
+  const { tenantId, datasetIds, terms, limit, filterSql } = params;
+  const datasetCondition = datasetIds
+    ? sql`AND dataset_id = ANY(${`{${datasetIds.join(',')}}`}::uuid[])`
+    : sql``;
+  const termList = sql.join(
+    terms.map((term) => sql`${term}`),
+    sql`, `
+  );
+
+  return sql`
+    WITH docs AS (
+      SELECT id, sparse_length
+      FROM chunks
+      WHERE tenant_id = ${tenantId}
+        ${datasetCondition}
+        AND status = 'approved'
+        AND is_active = true
+        AND sparse_length IS NOT NULL
+        ${filterSql}
+    ),
+    stats AS (
+      SELECT COUNT(*)::float AS n, GREATEST(AVG(sparse_length), 1)::float AS avgdl
+      FROM docs
+    ),
+    matches AS (
+      SELECT ct.chunk_id, ct.term, ct.tf, d.sparse_length
+      FROM chunk_terms ct
+      INNER JOIN docs d ON d.id = ct.chunk_id
+      WHERE ct.tenant_id = ${tenantId}
+        AND ct.term IN (${termList})
+    ),
+    df AS (
+      SELECT term, COUNT(*)::float AS df FROM matches GROUP BY term
+    ),
+    scored AS (
+      SELECT
+        m.chunk_id,
+        SUM(
+          LN(1 + (s.n - df.df + 0.5) / (df.df + 0.5))
+          * (m.tf * ${BM25_K1 + 1}::float)
+          / (m.tf + ${BM25_K1}::float * (1 - ${BM25_B}::float + ${BM25_B}::float * m.sparse_length / s.avgdl))
+        ) AS score
+      FROM matches m
+      INNER JOIN df ON df.term = m.term
+      CROSS JOIN stats s
+      GROUP BY m.chunk_id
+    )
+    SELECT
+      c.id,
+      c.document_id,
+      c.dataset_id,
+      c.content,
+      c.metadata,
+      scored.score
+    FROM scored
+    INNER JOIN chunks c ON c.id = scored.chunk_id
+    ORDER BY scored.score DESC
+    LIMIT ${limit}
+  `;
+}
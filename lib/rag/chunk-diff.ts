@@ -0,0 +1,57 @@
+/**
+ * 청크 단위 증분 재처리
+ *
+ * 문서를 다시 처리할 때 새로 나눈 청크를 기존 청크와 내용 해시로 맞춰 본다.
+ * - 짝이 있는 기존 청크는 그대로 재사용 (검토 상태, 컨텍스트, 임베딩 유지)
+ * - 짝이 없는 새 청크만 컨텍스트 생성/임베딩
+ * - 짝이 없는 기존 청크는 활성 구성에서 제외 (다른 버전 구성이면 보관, 아니면 삭제)
+ *
+ * 기존 청크의 해시는 metadata.contentHash(청킹 당시 원문 해시)를 우선 사용하므로,
+ * 검토자가 내용을 수정한 청크도 원문 구간이 그대로면 수정본이 유지된다.
+ */
+
+import { createHash } from 'crypto';
+
+export interface ChunkDiffResult<T> {
+  /** 새 청크 순서별로 재사용할 기존 청크 (null이면 새로 처리) */
+  matches: Array<T | null>;
+  /** 새 청크와 짝이 없는 기존 청크 (활성 구성에서 제외) */
+  removed: T[];
+}
+
+export function hashChunkContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * 저장된 청크의 원문 해시 (metadata.contentHash가 없는 이전 청크는 현재 내용으로 계산)
+ */
+export function getStoredChunkHash(chunk: { content: string; metadata: unknown }): string {
+  const stored = (chunk.metadata as { contentHash?: unknown } | null)?.contentHash;
+  return typeof stored === 'string' ? stored : hashChunkContent(chunk.content);
+}
+
+/**
+ * 기존 청크와 새 청크 해시 비교
+ * 같은 내용의 청크가 여러 개면 기존 청크 순서대로 하나씩 짝을 짓는다.
+ *
+ * @param existing - 기존 청크 (chunkIndex 순)
+ * @param nextHashes - 새 청크 해시 (청크 순)
+ */
+export function diffChunks<T extends { contentHash: string }>(
+  existing: T[],
+  nextHashes: string[]
+): ChunkDiffResult<T> {
+  const available = new Map<string, T[]>();
+  for (const chunk of existing) {
+    const queue = available.get(chunk.contentHash);
+    if (queue) queue.push(chunk);
+    else available.set(chunk.contentHash, [chunk]);
+  }
+
+  const matches = nextHashes.map((hash) => available.get(hash)?.shift() ?? null);
+  const matched = new Set(matches);
+  const removed = existing.filter((chunk) => !matched.has(chunk));
+
+  return { matches, removed };
+}
@@ -77,6 +77,8 @@ export interface Chunk {
     language?: Language;
     /** 가독성 점수 (0-100) */
     readabilityScore?: number;
+    /** 의미 단위(헤더 섹션/Q&A 쌍/단락) 순번 - Parent-Child 확장 시 같은 섹션 판별 */
+    sectionIndex?: number;
   };
 }
 
@@ -334,14 +336,14 @@ export async function smartChunk(
   let globalIndex = 0;
   let globalOffset = 0;
 
-  for (const segment of segments) {
+  for (const [sectionIndex, segment] of segments.entries()) {
     const segmentChunks = splitWithOverlap(
       segment.content,
       opts.maxChunkSize,
       opts.overlap,
       globalIndex,
       globalOffset,
-      segment.metadata
+      { ...segment.metadata, sectionIndex }
     );
 
     chunks.push(...segmentChunks);
@@ -540,6 +542,7 @@ function splitWithOverlap(
           isQAPair: metadata.isQAPair ?? false,
           isTable: metadata.isTable ?? false,
           isList: metadata.isList ?? false,
+          sectionIndex: metadata.sectionIndex,
         },
       },
     ];
@@ -576,6 +579,7 @@ function splitWithOverlap(
           isQAPair: metadata.isQAPair ?? false,
           isTable: metadata.isTable ?? false,
           isList: metadata.isList ?? false,
+          sectionIndex: metadata.sectionIndex,
         },
       });
     }
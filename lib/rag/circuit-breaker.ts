@@ -0,0 +1,108 @@
+/**
+ * Circuit Breaker
+ *
+ * 외부 서버(BGE 임베딩 서버 등)가 연속으로 실패하면 일정 시간 호출을 차단(open)해
+ * 요청마다 타임아웃을 기다리지 않고 바로 실패하도록 한다.
+ * - closed: 정상 호출, 연속 실패가 failureThreshold에 도달하면 open
+ * - open: cooldownMs 동안 즉시 CircuitOpenError
+ * - half_open: cooldown 후 헬스 체크가 통과하면 한 번 시도, 성공 시 closed / 실패 시 다시 open
+ *
+ * 상태는 프로세스 메모리에만 유지된다. DB 의존성이 없으므로 단위 테스트에서 직접 import 가능하다.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** 로그/에러 메시지용 이름 */
+  name: string;
+  /** open으로 전환할 연속 실패 횟수 */
+  failureThreshold: number;
+  /** open 유지 시간 (ms) */
+  cooldownMs: number;
+  /** half_open에서 호출 전에 실행할 헬스 체크 */
+  healthCheck: () => Promise<boolean>;
+  /** 현재 시각 (테스트 주입용) */
+  now?: () => number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly circuitName: string,
+    public readonly retryAfterMs: number
+  ) {
+    super(`${circuitName} circuit is open (retry after ${Math.ceil(retryAfterMs / 1000)}s)`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probe: Promise<boolean> | null = null;
+  private readonly now: () => number;
+
+  constructor(private readonly options: CircuitBreakerOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.remainingCooldown() === 0) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  /**
+   * 차단 상태를 확인하고 함수 실행
+   *
+   * @throws CircuitOpenError - 차단 중이거나 half_open 헬스 체크 실패
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.getState() === 'open') {
+      throw new CircuitOpenError(this.options.name, this.remainingCooldown());
+    }
+
+    if (this.getState() === 'half_open') {
+      // 동시에 들어온 요청은 헬스 체크 하나를 공유
+      this.probe ??= this.options.healthCheck().finally(() => {
+        this.probe = null;
+      });
+      const healthy = await this.probe.catch(() => false);
+      if (!healthy) {
+        this.trip();
+        throw new CircuitOpenError(this.options.name, this.options.cooldownMs);
+      }
+      this.state = 'half_open';
+    }
+
+    try {
+      const result = await fn();
+      this.state = 'closed';
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      this.consecutiveFailures++;
+      if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+        this.trip();
+      }
+      throw error;
+    }
+  }
+
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = 0;
+    this.probe = null;
+  }
+
+  private trip(): void {
+    this.state = 'open';
+    this.openedAt = this.now();
+  }
+
+  private remainingCooldown(): number {
+    return Math.max(0, this.openedAt + this.options.cooldownMs - this.now());
+  }
+}
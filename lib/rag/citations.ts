@@ -0,0 +1,159 @@
+/**
+ * 인라인 출처 표기 (각주)
+ *
+ * 출처 표기 모드에서 LLM은 컨텍스트 번호를 [1], [2] 형식으로 답변에 붙인다.
+ * 이 번호를 검색 결과(SearchResult)와 연결해 각주 목록을 만들고,
+ * 클라이언트는 마커를 각주 링크로 렌더링한다.
+ * DB/서버 의존성이 없으므로 클라이언트 컴포넌트에서도 import 가능하다.
+ */
+
+import { formatSourceLocation } from '@/lib/parsers/source-location';
+
+/**
+ * 각주 (답변에서 실제로 인용된 검색 결과)
+ */
+export interface Citation {
+  /** 답변 본문의 마커 번호 (1부터, 첫 등장 순서) */
+  index: number;
+  chunkId: string;
+  documentId: string;
+  /** Knowledge Page ID (블로그 페이지 출처인 경우) */
+  pageId?: string;
+  /** 각주 제목 (페이지 제목 또는 문서 파일명) */
+  title: string;
+  /** Knowledge Page 경로 (예: "/회사소개/팀원") */
+  path?: string;
+  /** Knowledge Page 공개 URL (챗봇 공개 페이지가 켜져 있고 페이지가 발행된 경우) */
+  url?: string;
+  /** 문서 내 위치 (예: "슬라이드 7", "가격표 시트 3~10행") */
+  location?: string;
+  /** 인용된 청크/페이지 본문 */
+  content: string;
+}
+
+/**
+ * 각주 생성에 필요한 검색 결과 필드 (SearchResult 부분 집합)
+ */
+export interface CitableResult {
+  chunkId: string;
+  documentId: string;
+  pageId?: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ExtractCitationsResult {
+  /** 마커 번호를 각주 번호로 바꾼 답변 */
+  text: string;
+  citations: Citation[];
+}
+
+// [1] ~ [99] 형식의 마커 (앞 공백 포함, 마크다운 링크 [text](url)는 제외)
+const CITATION_MARKER_PATTERN = /\s?\[(\d{1,2})\](?!\()/g;
+
+/** 각주 링크 href 접두사 (마크다운 링크로 변환 후 렌더러에서 식별) */
+export const CITATION_HREF_PREFIX = '#cite-';
+
+/**
+ * 답변의 출처 마커를 검색 결과와 연결
+ *
+ * - 컨텍스트 번호(1-based)를 검색 결과 순서에 대응시킨다.
+ * - 각주 번호는 답변에 처음 등장한 순서대로 1부터 다시 매긴다.
+ * - 범위를 벗어난 번호와 연속된 중복 마커([1][1])는 제거한다.
+ *
+ * @param documentTitles - 문서 ID → 파일명 (청크 출처 제목용)
+ */
+export function extractCitations(
+  text: string,
+  results: CitableResult[],
+  documentTitles: Map<string, string> = new Map()
+): ExtractCitationsResult {
+  const citations: Citation[] = [];
+  const indexByContext = new Map<number, number>();
+  let lastIndex: number | null = null;
+  let lastEnd = -1;
+
+  const replaced = text.replace(CITATION_MARKER_PATTERN, (match, num: string, offset: number) => {
+    const contextNumber = Number(num);
+    const result = results[contextNumber - 1];
+    const isAdjacent = offset === lastEnd;
+    lastEnd = offset + match.length;
+
+    if (!result) {
+      return '';
+    }
+
+    let citationIndex = indexByContext.get(contextNumber);
+    if (citationIndex === undefined) {
+      citationIndex = citations.length + 1;
+      indexByContext.set(contextNumber, citationIndex);
+      citations.push(toCitation(citationIndex, result, documentTitles));
+    }
+
+    if (isAdjacent && lastIndex === citationIndex) {
+      return '';
+    }
+    lastIndex = citationIndex;
+
+    // 마커 앞 공백은 제거 (문장 끝에 바로 붙여 표시)
+    return `[${citationIndex}]`;
+  });
+
+  return { text: replaced, citations };
+}
+
+function toCitation(
+  index: number,
+  result: CitableResult,
+  documentTitles: Map<string, string>
+): Citation {
+  const metadataTitle = typeof result.metadata?.title === 'string' ? result.metadata.title : null;
+  const path = typeof result.metadata?.path === 'string' ? result.metadata.path : undefined;
+
+  return {
+    index,
+    chunkId: result.chunkId,
+    documentId: result.documentId,
+    pageId: result.pageId,
+    title: metadataTitle || documentTitles.get(result.documentId) || `출처 ${index}`,
+    path: result.pageId ? path : undefined,
+    location: formatSourceLocation(result.metadata?.sourceLocation) ?? undefined,
+    content: result.content,
+  };
+}
+
+/**
+ * Knowledge Page 공개 경로 (공개 페이지 슬러그 하위)
+ */
+export function getKnowledgePagePublicPath(slug: string, pageId: string): string {
+  return `/${slug}/pages/${pageId}`;
+}
+
+/**
+ * 출처 마커 제거
+ * 각주를 표시할 수 없는 곳(카카오톡, 응답 캐시)에 저장/전송할 때 사용
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(CITATION_MARKER_PATTERN, '');
+}
+
+/**
+ * 출처 마커 → 마크다운 각주 링크 ([1] → [1](#cite-1))
+ * 각주 목록에 없는 번호는 그대로 둔다.
+ */
+export function toCitationLinks(text: string, citationCount: number): string {
+  return text.replace(CITATION_MARKER_PATTERN, (match, num: string) => {
+    const index = Number(num);
+    if (index < 1 || index > citationCount) return match;
+    return `[${index}](${CITATION_HREF_PREFIX}${index})`;
+  });
+}
+
+/**
+ * 각주 링크 href → 각주 번호 (각주 링크가 아니면 null)
+ */
+export function parseCitationHref(href: string | undefined): number | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+  const index = Number(href.slice(CITATION_HREF_PREFIX.length));
+  return Number.isInteger(index) && index > 0 ? index : null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Cross-Encoder Re-ranking 모듈
+ * 셀프호스팅 Cross-Encoder 서버(예: bge-reranker-v2-m3)로 질문-문서 쌍의 관련성 점수를 계산
+ *
+ * BGE 임베딩 서버(EMBEDDING_API_URL)와 같은 방식으로 호출한다.
+ * - API: POST {RERANKER_API_URL}/rerank { query, documents } → { scores }
+ * - LLM Re-ranking 대비 토큰 비용이 없고 지연이 짧다 (문서 15개 기준 수십 ms)
+ */
+
+import { logger } from '@/lib/logger';
+import type { Reranker, RerankOptions, RerankResult } from './reranker';
+import type { SearchResult } from './retrieval';
+
+// 요청 타임아웃 (검색 파이프라인 지연 상한)
+const CROSS_ENCODER_TIMEOUT_MS = 5000;
+// 문서당 최대 문자 수 (모델 최대 입력 512 토큰 근사)
+const CROSS_ENCODER_MAX_CHARS = 1000;
+
+/**
+ * Cross-Encoder 서버 설정 여부 확인
+ */
+export function isCrossEncoderConfigured(): boolean {
+  const url = process.env.RERANKER_API_URL;
+  return !!(url && url.trim().length > 0);
+}
+
+/**
+ * Cross-Encoder 기반 Re-ranking 수행
+ *
+ * maxCharsPerDoc은 LLM 프롬프트 토큰 절약용 옵션이므로 사용하지 않고,
+ * 모델 입력 길이 기준(CROSS_ENCODER_MAX_CHARS)으로 자른다.
+ * 서버 오류/타임아웃 시 원본 결과의 상위 topK개를 반환한다.
+ *
+ * @param query - 사용자 질문
+ * @param results - 검색 결과 (보통 15개)
+ * @param options - Re-ranking 옵션
+ * @returns 재순위화된 검색 결과 (보통 5개)
+ */
+export async function rerankWithCrossEncoder(
+  query: string,
+  results: SearchResult[],
+  options: RerankOptions = {}
+): Promise<RerankResult> {
+  const { topK = 5 } = options;
+  const apiUrl = process.env.RERANKER_API_URL;
+
+  if (results.length === 0) {
+    return { results: [], reranker: 'cross_encoder' };
+  }
+
+  if (results.length <= topK) {
+    return { results, reranker: 'cross_encoder' };
+  }
+
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CROSS_ENCODER_TIMEOUT_MS);
+
+  try {
+    if (!apiUrl) {
+      throw new Error('Cross-encoder reranker URL not configured');
+    }
+
+    const response = await fetch(`${apiUrl}/rerank`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query,
+        documents: results.map((r) => r.content.slice(0, CROSS_ENCODER_MAX_CHARS)),
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Cross-encoder API error: ${response.status}`);
+    }
+
+    const data = (await response.json()) as { scores: number[] };
+    if (!Array.isArray(data.scores) || data.scores.length !== results.length) {
+      throw new Error(
+        `Invalid cross-encoder response: expected ${results.length} scores, got ${data.scores?.length ?? 0}`
+      );
+    }
+
+    const rerankedResults = data.scores
+      .map((score, index) => ({ score, index }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ score, index }) => ({
+        ...results[index],
+        metadata: {
+          ...results[index].metadata,
+          rerankScore: score,
+          originalScore: results[index].score,
+        },
+      }));
+
+    logger.info('[Reranker] Cross-encoder re-ranking completed', {
+      query: query.slice(0, 50),
+      inputCount: results.length,
+      outputCount: rerankedResults.length,
+      duration: Date.now() - startTime,
+    });
+
+    return { results: rerankedResults, reranker: 'cross_encoder' };
+  } catch (error) {
+    const message =
+      error instanceof Error && error.name === 'AbortError'
+        ? `Cross-encoder request timed out after ${CROSS_ENCODER_TIMEOUT_MS}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+
+    logger.warn('[Reranker] Cross-encoder re-ranking failed, returning original results', {
+      error: message,
+      query: query.slice(0, 50),
+    });
+
+    return { results: results.slice(0, topK), reranker: 'cross_encoder', failed: true };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Cross-Encoder Re-ranker
+ */
+export const crossEncoderReranker: Reranker = {
+  type: 'cross_encoder',
+  rerank: rerankWithCrossEncoder,
+};
@@ -0,0 +1,351 @@
+/**
+ * 데이터셋 재임베딩 (임베딩 모델 변경)
+ *
+ * 무중단 교체 방식:
+ * 1. chunks.embedding_shadow에 새 모델 벡터를 배치로 채운다 (검색은 기존 embedding 사용)
+ * 2. 모든 청크가 채워지면 한 SQL 문으로 embedding ← embedding_shadow, embedding_model,
+ *    datasets.embedding_model을 함께 교체한다 (검색이 두 모델을 섞어 보는 순간이 없음)
+ * 3. 교체 직전에 추가된 청크는 새 모델로 바로 임베딩해 따라잡는다
+ *
+ * 작업 실행은 inngest/functions/reembed-dataset.ts, 시작/조회는 /api/datasets/:id/embedding-model
+ * 문서 이동·복제로 비워진 벡터는 inngest/functions/reembed-document.ts에서 채운다
+ */
+
+import { db, datasets, chunks, embeddingMigrations, type EmbeddingMigration } from '@/lib/db';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { buildContextualContent } from './context';
+import { embedTexts, getDefaultEmbeddingModelId } from './embedding';
+import { getEmbeddingModel, toVectorLiteral } from './embedding-models';
+
+// 한 번에 임베딩할 청크 수 (Inngest step 하나 단위)
+export const REEMBED_BATCH_SIZE = 200;
+
+export const ACTIVE_EMBEDDING_MIGRATION_STATUSES = ['pending', 'running'] as const;
+
+/**
+ * 데이터셋 임베딩 모델 조회
+ * 데이터셋이 없으면(라이브러리 문서) 기본 모델
+ */
+export async function getDatasetEmbeddingModelId(
+  datasetId: string | null | undefined
+): Promise<string> {
+  if (!datasetId) {
+    return getDefaultEmbeddingModelId();
+  }
+
+  const [dataset] = await db
+    .select({ embeddingModel: datasets.embeddingModel })
+    .from(datasets)
+    .where(eq(datasets.id, datasetId));
+
+  return dataset?.embeddingModel ?? getDefaultEmbeddingModelId();
+}
+
+/**
+ * 데이터셋의 최근 재임베딩 작업
+ */
+export async function getLatestEmbeddingMigration(
+  datasetId: string
+): Promise<EmbeddingMigration | null> {
+  const [migration] = await db
+    .select()
+    .from(embeddingMigrations)
+    .where(eq(embeddingMigrations.datasetId, datasetId))
+    .orderBy(desc(embeddingMigrations.createdAt))
+    .limit(1);
+
+  return migration ?? null;
+}
+
+/**
+ * 진행 중인 재임베딩 작업이 있는지 확인
+ */
+export async function hasActiveEmbeddingMigration(datasetId: string): Promise<boolean> {
+  const [active] = await db
+    .select({ id: embeddingMigrations.id })
+    .from(embeddingMigrations)
+    .where(
+      and(
+        eq(embeddingMigrations.datasetId, datasetId),
+        inArray(embeddingMigrations.status, [...ACTIVE_EMBEDDING_MIGRATION_STATUSES])
+      )
+    )
+    .limit(1);
+
+  return !!active;
+}
+
+/**
+ * 재임베딩 시작 준비
+ * 이전 실패 작업이 남긴 shadow 벡터를 비우고 작업 상태를 running으로 전환
+ *
+ * @returns 임베딩 대상 청크 수
+ */
+export async function beginEmbeddingMigration(
+  migrationId: string,
+  datasetId: string
+): Promise<number> {
+  await db
+    .update(chunks)
+    .set({ embeddingShadow: null })
+    .where(and(eq(chunks.datasetId, datasetId), sql`${chunks.embeddingShadow} IS NOT NULL`));
+
+  const totalChunks = await countReembedTargets(datasetId);
+
+  await db
+    .update(embeddingMigrations)
+    .set({
+      status: 'running',
+      totalChunks,
+      processedChunks: 0,
+      error: null,
+      startedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(embeddingMigrations.id, migrationId));
+
+  return totalChunks;
+}
+
+/**
+ * shadow 벡터 한 배치 채우기
+ * 청크 임베딩과 같은 입력(컨텍스트 접두어 + 본문)을 사용한다.
+ *
+ * @returns 이번 배치에서 채운 청크 수 (0이면 완료)
+ */
+export async function fillShadowEmbeddingBatch(params: {
+  migrationId: string;
+  tenantId: string;
+  datasetId: string;
+  toModel: string;
+}): Promise<number> {
+  const { migrationId, tenantId, datasetId, toModel } = params;
+
+  const rows = await db.execute(sql`
+    SELECT id, content, metadata
+    FROM chunks
+    WHERE dataset_id = ${datasetId}
+      AND embedding_shadow IS NULL
+      AND LENGTH(content) > 0
+    ORDER BY id
+    LIMIT ${REEMBED_BATCH_SIZE}
+  `);
+  const batch = rows as unknown as Array<{
+    id: string;
+    content: string;
+    metadata: Record<string, unknown> | null;
+  }>;
+
+  if (batch.length === 0) {
+    return 0;
+  }
+
+  const embeddings = await embedTexts(batch.map(toEmbeddingInput), { tenantId }, toModel);
+  await writeChunkVectors(
+    'embedding_shadow',
+    batch.map((chunk) => chunk.id),
+    embeddings
+  );
+
+  // 진행률: 처리 중 추가된 청크도 반영하도록 매번 다시 집계
+  await db.execute(sql`
+    UPDATE embedding_migrations
+    SET processed_chunks = (
+          SELECT COUNT(*)::int FROM chunks
+          WHERE dataset_id = ${datasetId} AND embedding_shadow IS NOT NULL
+        ),
+        total_chunks = (
+          SELECT COUNT(*)::int FROM chunks
+          WHERE dataset_id = ${datasetId} AND LENGTH(content) > 0
+        ),
+        updated_at = NOW()
+    WHERE id = ${migrationId}
+  `);
+
+  return batch.length;
+}
+
+/**
+ * shadow 벡터를 embedding으로 교체하고 데이터셋 모델 변경
+ * 데이터 수정 CTE로 청크와 데이터셋을 한 문장에서 갱신한다.
+ *
+ * @returns 교체된 청크 수
+ */
+export async function swapShadowEmbeddings(datasetId: string, toModel: string): Promise<number> {
+  const model = getEmbeddingModel(toModel);
+
+  const result = await db.execute(sql`
+    WITH swapped AS (
+      UPDATE chunks
+      SET embedding = embedding_shadow,
+          embedding_model = ${model.id},
+          embedding_shadow = NULL,
+          updated_at = NOW()
+      WHERE dataset_id = ${datasetId}
+        AND embedding_shadow IS NOT NULL
+      RETURNING id
+    )
+    UPDATE datasets
+    SET embedding_model = ${model.id},
+        embedding_dimension = ${model.dimension},
+        updated_at = NOW()
+    WHERE id = ${datasetId}
+    RETURNING (SELECT COUNT(*) FROM swapped)::int AS swapped_count
+  `);
+
+  const [row] = result as unknown as Array<{ swapped_count: number }>;
+  return row?.swapped_count ?? 0;
+}
+
+/**
+ * 교체 후 이전 모델로 남은 청크를 새 모델로 임베딩 (교체 직전에 추가된 청크)
+ *
+ * @returns 다시 임베딩한 청크 수
+ */
+export async function reembedStaleChunks(params: {
+  tenantId: string;
+  datasetId: string;
+  toModel: string;
+}): Promise<number> {
+  const { tenantId, datasetId, toModel } = params;
+
+  const rows = await db.execute(sql`
+    SELECT id, content, metadata
+    FROM chunks
+    WHERE dataset_id = ${datasetId}
+      AND embedding_model <> ${toModel}
+      AND LENGTH(content) > 0
+  `);
+  const stale = rows as unknown as Array<{
+    id: string;
+    content: string;
+    metadata: Record<string, unknown> | null;
+  }>;
+
+  for (let i = 0; i < stale.length; i += REEMBED_BATCH_SIZE) {
+    const batch = stale.slice(i, i + REEMBED_BATCH_SIZE);
+    const embeddings = await embedTexts(batch.map(toEmbeddingInput), { tenantId }, toModel);
+    await writeChunkVectors(
+      'embedding',
+      batch.map((chunk) => chunk.id),
+      embeddings,
+      toModel
+    );
+  }
+
+  if (stale.length > 0) {
+    logger.info('[Reembed] Stale chunks re-embedded after swap', {
+      datasetId,
+      count: stale.length,
+    });
+  }
+
+  return stale.length;
+}
+
+/**
+ * 벡터가 비어 있는 문서 청크를 데이터셋 모델로 임베딩
+ * 임베딩 모델이 다른 데이터셋으로 이동·복제되어 벡터를 비운 청크를 복구한다.
+ *
+ * @returns 임베딩한 청크 수
+ */
+export async function reembedMissingDocumentChunks(params: {
+  tenantId: string;
+  documentId: string;
+  datasetId: string;
+}): Promise<number> {
+  const { tenantId, documentId, datasetId } = params;
+  const model = await getDatasetEmbeddingModelId(datasetId);
+
+  const rows = await db.execute(sql`
+    SELECT id, content, metadata
+    FROM chunks
+    WHERE document_id = ${documentId}
+      AND embedding IS NULL
+      AND LENGTH(content) > 0
+  `);
+  const missing = rows as unknown as Array<{
+    id: string;
+    content: string;
+    metadata: Record<string, unknown> | null;
+  }>;
+
+  for (let i = 0; i < missing.length; i += REEMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + REEMBED_BATCH_SIZE);
+    const embeddings = await embedTexts(batch.map(toEmbeddingInput), { tenantId }, model);
+    await writeChunkVectors(
+      'embedding',
+      batch.map((chunk) => chunk.id),
+      embeddings,
+      model
+    );
+  }
+
+  return missing.length;
+}
+
+/**
+ * 재임베딩 작업 종료 상태 기록
+ */
+export async function finishEmbeddingMigration(
+  migrationId: string,
+  result: { status: 'completed' } | { status: 'failed'; error: string }
+): Promise<void> {
+  await db
+    .update(embeddingMigrations)
+    .set({
+      status: result.status,
+      error: result.status === 'failed' ? result.error : null,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(embeddingMigrations.id, migrationId));
+}
+
+/**
+ * 재임베딩 대상 청크 수
+ */
+async function countReembedTargets(datasetId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(chunks)
+    .where(and(eq(chunks.datasetId, datasetId), sql`LENGTH(${chunks.content}) > 0`));
+
+  return row?.count ?? 0;
+}
+
+function toEmbeddingInput(chunk: {
+  content: string;
+  metadata: Record<string, unknown> | null;
+}): string {
+  const contextPrefix = chunk.metadata?.contextPrefix;
+  return buildContextualContent(
+    chunk.content,
+    typeof contextPrefix === 'string' ? contextPrefix : undefined
+  );
+}
+
+/**
+ * 청크 벡터 일괄 저장 (unnest로 한 번에 UPDATE)
+ *
+ * @param embeddingModel - embedding 컬럼을 갱신할 때 함께 기록할 모델
+ */
+async function writeChunkVectors(
+  column: 'embedding' | 'embedding_shadow',
+  chunkIds: string[],
+  embeddings: number[][],
+  embeddingModel?: string
+): Promise<void> {
+  const idsArray = `{${chunkIds.join(',')}}`;
+  const vectorsArray = `{${embeddings.map((e) => `"${toVectorLiteral(e)}"`).join(',')}}`;
+  const modelSql = embeddingModel ? sql`, embedding_model = ${embeddingModel}` : sql``;
+
+  await db.execute(sql`
+    UPDATE chunks c
+    SET ${sql.raw(column)} = v.vector::vector${modelSql},
+        updated_at = NOW()
+    FROM unnest(${idsArray}::uuid[], ${vectorsArray}::text[]) AS v(id, vector)
+    WHERE c.id = v.id
+  `);
+}
@@ -0,0 +1,113 @@
+/**
+ * 임베딩 모델 레지스트리
+ *
+ * 데이터셋마다 사용하는 임베딩 모델과 차원을 기록하고(datasets.embedding_model),
+ * 청크/캐시/Knowledge Pages 벡터에는 생성한 모델 ID를 함께 저장한다.
+ * 벡터 컬럼은 차원 없는 vector 타입이므로, 검색 시 모델로 필터링하고
+ * 모델 차원으로 캐스팅해야 모델별 HNSW 부분 인덱스를 사용한다.
+ *
+ * DB 의존성이 없으므로 단위 테스트에서 직접 import 가능하다.
+ */
+
+import { sql, type SQL } from 'drizzle-orm';
+
+export type EmbeddingProvider = 'openai' | 'bge';
+
+export interface EmbeddingModelInfo {
+  /** 레지스트리 ID (DB에 저장되는 값) */
+  id: string;
+  provider: EmbeddingProvider;
+  /** 제공자 API에 전달하는 모델명 */
+  modelId: string;
+  displayName: string;
+  dimension: number;
+}
+
+export const EMBEDDING_MODELS = {
+  'text-embedding-3-small': {
+    id: 'text-embedding-3-small',
+    provider: 'openai',
+    modelId: 'text-embedding-3-small',
+    displayName: 'OpenAI text-embedding-3-small',
+    dimension: 1536,
+  },
+  'bge-m3-ko': {
+    id: 'bge-m3-ko',
+    provider: 'bge',
+    modelId: 'dragonkue/BGE-m3-ko',
+    displayName: 'BGE-m3-ko (셀프호스팅)',
+    dimension: 1024,
+  },
+} as const satisfies Record<string, EmbeddingModelInfo>;
+
+export type EmbeddingModelId = keyof typeof EMBEDDING_MODELS;
+
+/** 기존 데이터(마이그레이션 이전 벡터)의 모델 */
+export const LEGACY_EMBEDDING_MODEL_ID: EmbeddingModelId = 'text-embedding-3-small';
+
+export function isEmbeddingModelId(value: unknown): value is EmbeddingModelId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EMBEDDING_MODELS, value);
+}
+
+/**
+ * 모델 정보 조회
+ *
+ * @throws 등록되지 않은 모델 ID
+ */
+export function getEmbeddingModel(id: string): EmbeddingModelInfo {
+  if (!isEmbeddingModelId(id)) {
+    throw new Error(`Unknown embedding model: ${id}`);
+  }
+  return EMBEDDING_MODELS[id];
+}
+
+export function listEmbeddingModels(): EmbeddingModelInfo[] {
+  return Object.values(EMBEDDING_MODELS);
+}
+
+/**
+ * pgvector 리터럴 문자열 ('[0.1,0.2,...]')
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * 모델 차원으로 캐스팅한 벡터 컬럼 식
+ * 모델별 HNSW 부분 인덱스가 (column::vector(N))로 생성되어 있어 같은 식을 써야 인덱스를 탄다.
+ *
+ * @param column - 벡터 컬럼 식 (예: sql`embedding`, sql`v.embedding`)
+ */
+export function vectorColumnFor(column: SQL, model: EmbeddingModelInfo): SQL {
+  return sql`(${column})::vector(${sql.raw(String(model.dimension))})`;
+}
+
+/**
+ * 쿼리 벡터를 모델 차원으로 캐스팅한 식
+ */
+export function queryVectorFor(embedding: number[], model: EmbeddingModelInfo): SQL {
+  return sql`${toVectorLiteral(embedding)}::vector(${sql.raw(String(model.dimension))})`;
+}
+
+/**
+ * 생성된 벡터의 차원 검증
+ *
+ * @throws 차원이 모델과 다를 때
+ */
+export function assertEmbeddingDimension(embeddings: number[][], model: EmbeddingModelInfo): void {
+  for (const embedding of embeddings) {
+    if (embedding.length !== model.dimension) {
+      throw new Error(
+        `Invalid ${model.id} embedding dimension: expected ${model.dimension}, got ${embedding.length}`
+      );
+    }
+  }
+}
+
+/**
+ * 재임베딩 진행률 (0-100)
+ */
+export function calculateReembedProgress(processed: number, total: number): number {
+  if (total <= 0) return 100;
+  return Math.min(100, Math.round((processed / total) * 100));
+}
@@ -2,10 +2,27 @@
  * 임베딩 생성 모듈
  * 기본: OpenAI text-embedding-3-small (1536차원)
  * 옵션: BGE-m3-ko 서버 (1024차원, EMBEDDING_API_URL 설정 시)
+ *
+ * 모델 목록과 차원은 embedding-models.ts 레지스트리에서 관리한다.
+ * 데이터셋 청크는 데이터셋에 기록된 모델로, 그 외(캐시, Knowledge Pages)는 기본 모델로 임베딩한다.
+ *
+ * 임베딩 서비스를 사용할 수 없으면 EmbeddingUnavailableError를 던진다 (Strict 모드, 기본).
+ * 더미 벡터는 개발 환경에서 EMBEDDING_STRICT_MODE=false일 때만 생성하며,
+ * 이미 저장된 더미 벡터는 pnpm db:scan-dummy-embeddings로 찾아 재임베딩한다.
+ * BGE 서버 호출은 Circuit Breaker로 감싸 장애 시 타임아웃 대기 없이 바로 실패한다.
  */
 
 import { logger } from '@/lib/logger';
 import { trackTokenUsage } from '@/lib/usage/token-tracker';
+import {
+  assertEmbeddingDimension,
+  getEmbeddingModel,
+  isEmbeddingModelId,
+  LEGACY_EMBEDDING_MODEL_ID,
+  type EmbeddingModelId,
+  type EmbeddingModelInfo,
+} from './embedding-models';
+import { CircuitBreaker, CircuitOpenError, type CircuitState } from './circuit-breaker';
 
 export interface EmbeddingResult {
   embedding: number[];
@@ -18,9 +35,30 @@ export interface EmbeddingTrackingContext {
   chatbotId?: string;
 }
 
+/**
+ * 임베딩 서비스 사용 불가 에러
+ * - not_configured: 모델 제공자 미설정 (재시도해도 실패)
+ * - circuit_open: BGE 서버 장애로 차단 중 (잠시 후 재시도 가능)
+ */
+export class EmbeddingUnavailableError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'not_configured' | 'circuit_open',
+    public readonly modelId: string
+  ) {
+    super(message);
+    this.name = 'EmbeddingUnavailableError';
+  }
+
+  get retryable(): boolean {
+    return this.reason === 'circuit_open';
+  }
+}
+
 const EMBEDDING_API_URL = process.env.EMBEDDING_API_URL;
-const BGE_EMBEDDING_DIMENSION = 1024; // BGE-m3-ko 차원
-const OPENAI_EMBEDDING_DIMENSION = 1536; // OpenAI text-embedding-3-small 차원
+const BGE_FAILURE_THRESHOLD = 3; // BGE 서버 차단까지 연속 실패 횟수
+const BGE_COOLDOWN_MS = 30000; // BGE 서버 차단 유지 시간
+const DUMMY_KURTOSIS_THRESHOLD = 2.4; // 이보다 첨도가 낮으면 더미(균등 분포) 벡터로 판단
 const BGE_BATCH_SIZE = 32; // BGE 배치 처리 크기
 const OPENAI_BATCH_SIZE = 100; // OpenAI 배치 크기
 
@@ -29,6 +67,14 @@ const CHARS_PER_TOKEN_KOREAN = 1.5; // 한글: 약 1.5자/토큰
 const CHARS_PER_TOKEN_ENGLISH = 4; // 영어: 약 4자/토큰
 const MAX_TOKENS_PER_EMBEDDING = 8191; // OpenAI 임베딩 최대 토큰
 
+// BGE 임베딩 서버 Circuit Breaker (프로세스 단위)
+const bgeCircuitBreaker = new CircuitBreaker({
+  name: 'BGE embedding server',
+  failureThreshold: BGE_FAILURE_THRESHOLD,
+  cooldownMs: BGE_COOLDOWN_MS,
+  healthCheck: () => checkEmbeddingServerHealth('bge-m3-ko'),
+});
+
 /**
  * 텍스트의 토큰 수 추정 (tiktoken 근사)
  * 한글과 영어의 토큰화 특성을 반영하여 추정
@@ -126,10 +172,45 @@ export function splitByTokenLimit(
 }
 
 /**
- * 현재 임베딩 차원 반환 (DB 스키마와 일치해야 함)
+ * 기본 임베딩 모델 ID
+ * EMBEDDING_MODEL이 설정되어 있으면 사용하고, 없으면 설정된 서비스로 결정
+ * (OpenAI 우선, BGE 서버만 있으면 BGE)
+ */
+export function getDefaultEmbeddingModelId(): EmbeddingModelId {
+  const configured = process.env.EMBEDDING_MODEL?.trim();
+  if (configured) {
+    if (isEmbeddingModelId(configured)) {
+      return configured;
+    }
+    logger.warn('Unknown EMBEDDING_MODEL, falling back to auto selection', {
+      embeddingModel: configured,
+    });
+  }
+
+  if (!isOpenAIConfigured() && isBGEServerConfigured()) {
+    return 'bge-m3-ko';
+  }
+  return LEGACY_EMBEDDING_MODEL_ID;
+}
+
+/**
+ * 새 데이터셋에 기록할 임베딩 모델과 차원 (기본 모델)
+ */
+export function getDefaultDatasetEmbedding(): {
+  embeddingModel: EmbeddingModelId;
+  embeddingDimension: number;
+} {
+  const embeddingModel = getDefaultEmbeddingModelId();
+  return { embeddingModel, embeddingDimension: getEmbeddingModel(embeddingModel).dimension };
+}
+
+/**
+ * 임베딩 차원 반환
+ *
+ * @param modelId - 임베딩 모델 ID (미지정 시 기본 모델)
  */
-export function getEmbeddingDimension(): number {
-  return OPENAI_EMBEDDING_DIMENSION;
+export function getEmbeddingDimension(modelId?: string): number {
+  return getEmbeddingModel(modelId ?? getDefaultEmbeddingModelId()).dimension;
 }
 
 /**
@@ -140,6 +221,14 @@ function isOpenAIConfigured(): boolean {
   return !!(apiKey && !apiKey.startsWith('sk-your-') && apiKey.length > 20);
 }
 
+/**
+ * Strict 모드 여부 (기본 true)
+ * false이고 개발 환경일 때만 임베딩 서비스 없이 더미 벡터를 생성한다.
+ */
+export function isEmbeddingStrictMode(): boolean {
+  return process.env.EMBEDDING_STRICT_MODE !== 'false';
+}
+
 /**
  * BGE 임베딩 서버 설정 여부 확인
  */
@@ -149,43 +238,65 @@ function isBGEServerConfigured(): boolean {
 
 /**
  * 단일 텍스트 임베딩 생성
+ *
+ * @param modelId - 임베딩 모델 ID (미지정 시 기본 모델)
  */
 export async function embedText(
   text: string,
-  trackingContext?: EmbeddingTrackingContext
+  trackingContext?: EmbeddingTrackingContext,
+  modelId?: string
 ): Promise<number[]> {
-  const result = await embedTexts([text], trackingContext);
+  const result = await embedTexts([text], trackingContext, modelId);
   return result[0];
 }
 
 /**
  * 여러 텍스트 배치 임베딩 생성
+ *
+ * @param modelId - 임베딩 모델 ID (미지정 시 기본 모델)
  */
 export async function embedTexts(
   texts: string[],
-  trackingContext?: EmbeddingTrackingContext
+  trackingContext?: EmbeddingTrackingContext,
+  modelId?: string
 ): Promise<number[][]> {
   if (texts.length === 0) {
     return [];
   }
 
-  // OpenAI 사용 (기본)
-  if (isOpenAIConfigured()) {
-    return generateOpenAIEmbeddingsBatch(texts, trackingContext);
+  const model = getEmbeddingModel(modelId ?? getDefaultEmbeddingModelId());
+
+  if (model.provider === 'openai' && isOpenAIConfigured()) {
+    return generateOpenAIEmbeddingsBatch(texts, model, trackingContext);
   }
 
-  // BGE 서버 사용 (설정된 경우)
-  if (isBGEServerConfigured()) {
-    return generateBGEEmbeddingsBatch(texts);
+  if (model.provider === 'bge' && isBGEServerConfigured()) {
+    try {
+      return await bgeCircuitBreaker.execute(() => generateBGEEmbeddingsBatch(texts, model));
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        throw new EmbeddingUnavailableError(error.message, 'circuit_open', model.id);
+      }
+      throw error;
+    }
   }
 
-  // 개발 환경 더미 임베딩
-  if (process.env.NODE_ENV === 'development') {
-    logger.warn('Using dummy embeddings (no embedding service configured)');
-    return texts.map(() => generateDummyEmbedding());
+  // 개발 환경 더미 임베딩 (Strict 모드 해제 시에만, 검색 불가 벡터)
+  if (!isEmbeddingStrictMode() && process.env.NODE_ENV === 'development') {
+    logger.warn('Using dummy embeddings - chunks will not be searchable', {
+      model: model.id,
+      count: texts.length,
+    });
+    return texts.map(() => generateDummyEmbedding(model.dimension));
   }
 
-  throw new Error('No embedding service configured. Set OPENAI_API_KEY or EMBEDDING_API_URL.');
+  throw new EmbeddingUnavailableError(
+    model.provider === 'openai'
+      ? `Embedding service not configured for ${model.id}. Set OPENAI_API_KEY.`
+      : `Embedding service not configured for ${model.id}. Set EMBEDDING_API_URL.`,
+    'not_configured',
+    model.id
+  );
 }
 
 /**
@@ -193,6 +304,7 @@ export async function embedTexts(
  */
 async function generateOpenAIEmbeddingsBatch(
   texts: string[],
+  model: EmbeddingModelInfo,
   trackingContext?: EmbeddingTrackingContext
 ): Promise<number[][]> {
   const apiKey = process.env.OPENAI_API_KEY;
@@ -214,7 +326,7 @@ async function generateOpenAIEmbeddingsBatch(
         Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify({
-        model: 'text-embedding-3-small',
+        model: model.modelId,
         input: processedTexts,
       }),
     });
@@ -249,7 +361,7 @@ async function generateOpenAIEmbeddingsBatch(
       tenantId: trackingContext.tenantId,
       chatbotId: trackingContext.chatbotId,
       modelProvider: 'openai',
-      modelId: 'text-embedding-3-small',
+      modelId: model.modelId,
       featureType: 'embedding',
       inputTokens: totalTokensUsed,
       outputTokens: 0, // 임베딩은 output 토큰 없음
@@ -264,7 +376,10 @@ async function generateOpenAIEmbeddingsBatch(
 /**
  * BGE-m3-ko 임베딩 서버 호출
  */
-async function generateBGEEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+async function generateBGEEmbeddingsBatch(
+  texts: string[],
+  model: EmbeddingModelInfo
+): Promise<number[][]> {
   if (!EMBEDDING_API_URL) {
     throw new Error('BGE embedding server URL not configured');
   }
@@ -299,13 +414,7 @@ async function generateBGEEmbeddingsBatch(texts: string[]): Promise<number[][]>
       const embeddings = data.embeddings;
 
       // 차원 검증
-      for (const embedding of embeddings) {
-        if (embedding.length !== BGE_EMBEDDING_DIMENSION) {
-          throw new Error(
-            `Invalid BGE embedding dimension: expected ${BGE_EMBEDDING_DIMENSION}, got ${embedding.length}`
-          );
-        }
-      }
+      assertEmbeddingDimension(embeddings, model);
 
       results.push(...embeddings);
 
@@ -339,11 +448,12 @@ function preprocessText(text: string): string {
 }
 
 /**
- * 개발용 더미 임베딩 생성 (1536차원, OpenAI와 동일)
+ * 개발용 더미 임베딩 생성 (모델 차원과 동일)
+ * 균등 분포 난수를 정규화한 벡터로, isDummyEmbedding으로 식별된다.
  */
-function generateDummyEmbedding(): number[] {
-  const embedding = new Array(OPENAI_EMBEDDING_DIMENSION);
-  for (let i = 0; i < OPENAI_EMBEDDING_DIMENSION; i++) {
+function generateDummyEmbedding(dimension: number): number[] {
+  const embedding = new Array(dimension);
+  for (let i = 0; i < dimension; i++) {
     embedding[i] = (Math.random() - 0.5) * 2;
   }
   // L2 정규화
@@ -353,11 +463,15 @@ function generateDummyEmbedding(): number[] {
 
 /**
  * 임베딩 서버 상태 확인
+ *
+ * @param modelId - 확인할 모델 (미지정 시 기본 모델)
  */
-export async function checkEmbeddingServerHealth(): Promise<boolean> {
-  // OpenAI는 항상 사용 가능하다고 가정
-  if (isOpenAIConfigured()) {
-    return true;
+export async function checkEmbeddingServerHealth(modelId?: string): Promise<boolean> {
+  const model = getEmbeddingModel(modelId ?? getDefaultEmbeddingModelId());
+
+  // OpenAI는 설정되어 있으면 사용 가능하다고 가정
+  if (model.provider === 'openai') {
+    return isOpenAIConfigured();
   }
 
   // BGE 서버 상태 확인
@@ -376,6 +490,37 @@ export async function checkEmbeddingServerHealth(): Promise<boolean> {
   return false;
 }
 
+/**
+ * BGE 서버 Circuit Breaker 상태
+ */
+export function getBGECircuitState(): CircuitState {
+  return bgeCircuitBreaker.getState();
+}
+
+/**
+ * 더미 임베딩 여부 판단
+ * 더미 벡터는 균등 분포 난수(첨도 1.8)를 정규화한 것이고, 실제 임베딩 성분은
+ * 정규 분포 이상으로 꼬리가 두껍다(첨도 3 이상). 차원이 충분하면 첨도로 구분된다.
+ */
+export function isDummyEmbedding(embedding: number[]): boolean {
+  const n = embedding.length;
+  if (n < 64) return false;
+
+  const mean = embedding.reduce((sum, v) => sum + v, 0) / n;
+  let m2 = 0;
+  let m4 = 0;
+  for (const v of embedding) {
+    const d = (v - mean) ** 2;
+    m2 += d;
+    m4 += d * d;
+  }
+  m2 /= n;
+  m4 /= n;
+  if (m2 === 0) return true; // 상수 벡터도 의미 없는 벡터
+
+  return m4 / (m2 * m2) < DUMMY_KURTOSIS_THRESHOLD;
+}
+
 /**
  * 두 임베딩 간 코사인 유사도 계산
  */
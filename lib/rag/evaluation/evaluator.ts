@@ -7,7 +7,9 @@
 
 import { hybridSearch, hybridSearchMultiDataset } from '../retrieval';
 import { generateResponse } from '../generator';
-import { rewriteQuery } from '../query-rewriter';
+import { rewriteQuery, expandQuery } from '../query-rewriter';
+import { searchWithQueryExpansion, type QueryExpansion } from '../query-expansion';
+import { expandToParentContext, estimateContextTokens } from '../parent-expansion';
 import { logger } from '@/lib/logger';
 
 import {
@@ -28,9 +30,17 @@ import type {
   QuestionType,
   QuestionTypeStats,
   MetricName,
+  ContextStats,
+  QueryRewritingImpact,
 } from './types';
 
-const DEFAULT_OPTIONS: Required<Omit<EvaluationOptions, 'onProgress' | 'compareWithoutRewriting'>> = {
+type OptionalEvaluationOptions =
+  | 'onProgress'
+  | 'compareWithoutRewriting'
+  | 'parentExpansion'
+  | 'queryExpansion';
+
+const DEFAULT_OPTIONS: Required<Omit<EvaluationOptions, OptionalEvaluationOptions>> = {
   evaluationModel: 'gemini-2.5-flash-lite',
   maxChunks: 5,
   metrics: ['faithfulness', 'answerRelevancy', 'contextPrecision', 'contextRecall'],
@@ -42,8 +52,8 @@ const DEFAULT_OPTIONS: Required<Omit<EvaluationOptions, 'onProgress' | 'compareW
  * RAG 평가 엔진 클래스
  */
 export class RagEvaluator {
-  private options: Required<Omit<EvaluationOptions, 'onProgress' | 'compareWithoutRewriting'>> &
-    Pick<EvaluationOptions, 'onProgress' | 'compareWithoutRewriting'>;
+  private options: Required<Omit<EvaluationOptions, OptionalEvaluationOptions>> &
+    Pick<EvaluationOptions, OptionalEvaluationOptions>;
 
   constructor(options: EvaluationOptions = {}) {
     this.options = {
@@ -137,11 +147,29 @@ export class RagEvaluator {
       }
     }
 
+    // 1.5 Query Expansion (설정 시 Multi-Query 또는 HyDE)
+    const queryExpansion = await expandQuery(searchQuery, this.options.queryExpansion);
+
     // 2. Retrieval
-    const chunks =
-      datasetIds && datasetIds.length > 0
-        ? await hybridSearchMultiDataset(tenantId, datasetIds, searchQuery, this.options.maxChunks)
-        : await hybridSearch(tenantId, searchQuery, this.options.maxChunks);
+    const { maxChunks } = this.options;
+    const chunks = await searchWithQueryExpansion(
+      queryExpansion,
+      (query, denseQuery) =>
+        datasetIds && datasetIds.length > 0
+          ? hybridSearchMultiDataset(
+              tenantId,
+              datasetIds,
+              query,
+              maxChunks,
+              undefined,
+              undefined,
+              [],
+              {},
+              denseQuery
+            )
+          : hybridSearch(tenantId, query, maxChunks, undefined, undefined, [], denseQuery),
+      maxChunks
+    );
 
     const retrievedChunks = chunks.map((c) => ({
       chunkId: c.chunkId,
@@ -159,13 +187,16 @@ export class RagEvaluator {
       });
     }
 
+    // 2.5 Parent-Child 확장 (검색 결과 순위/정밀도는 매칭 청크 기준으로 평가)
+    const contextChunks = await expandToParentContext(chunks, this.options.parentExpansion);
+
     // 3. Generation
-    const answer = await generateResponse(item.question, chunks, {
+    const answer = await generateResponse(item.question, contextChunks, {
       temperature: this.options.temperature,
     });
 
     // 4. 메트릭 평가
-    const context = chunks.map((c) => c.content).join('\n\n---\n\n');
+    const context = contextChunks.map((c) => c.content).join('\n\n---\n\n');
     const { scores, analysis } = await this.evaluateMetrics(item, answer, context, retrievedChunks);
 
     return {
@@ -173,11 +204,14 @@ export class RagEvaluator {
       question: item.question,
       questionType: item.questionType,
       rewrittenQuery,
+      queryExpansion,
       retrievedChunks,
       generatedAnswer: answer,
       scores,
       analysis,
       executionTime: Date.now() - startTime,
+      contextTokens: estimateContextTokens(contextChunks),
+      expandedContexts: contextChunks.filter((c) => c.metadata?.parentExpansion).length,
     };
   }
 
@@ -302,6 +336,7 @@ export class RagEvaluator {
         avgContextRecall: avgScores.contextRecall,
         byQuestionType,
         queryRewritingImpact,
+        contextStats: this.calculateContextStats(results),
       },
       results,
       executionMetadata: {
@@ -376,17 +411,45 @@ export class RagEvaluator {
   }
 
   /**
-   * Query Rewriting 효과 분석
+   * 응답 생성 컨텍스트 통계 (실패 항목 제외)
+   */
+  private calculateContextStats(results: ItemEvaluationResult[]): ContextStats {
+    const measured = results.filter((r) => r.contextTokens !== undefined);
+    const totalTokens = measured.reduce((sum, r) => sum + (r.contextTokens ?? 0), 0);
+
+    return {
+      parentExpansion: this.options.parentExpansion?.mode ?? 'off',
+      avgContextTokens: measured.length > 0 ? Math.round(totalTokens / measured.length) : 0,
+      itemsWithExpansion: measured.filter((r) => (r.expandedContexts ?? 0) > 0).length,
+    };
+  }
+
+  /**
+   * Query Rewriting / Expansion 효과 분석
+   * 확장 전략의 효과는 같은 평가 세트를 전략별로 실행한 리포트끼리 비교한다.
    */
   private calculateQueryRewritingImpact(
     results: ItemEvaluationResult[]
-  ): { itemsWithRewriting: number; avgScoreImprovement: number } | undefined {
+  ): QueryRewritingImpact | undefined {
     const withRewriting = results.filter((r) => r.rewrittenQuery && r.rewrittenQuery !== r.question);
+    const expansionStrategy = this.options.queryExpansion?.strategy ?? 'none';
+    const expansions = results
+      .map((r) => r.queryExpansion)
+      .filter((e): e is QueryExpansion => !!e && e.strategy !== 'none');
 
-    if (withRewriting.length === 0) {
+    if (withRewriting.length === 0 && expansionStrategy === 'none') {
       return undefined;
     }
 
+    const expansionStats = {
+      expansionStrategy,
+      itemsWithExpansion: expansions.length,
+      avgQueriesPerItem:
+        expansions.length > 0
+          ? expansions.reduce((sum, e) => sum + e.queries.length, 0) / expansions.length
+          : 0,
+    };
+
     // 후속 질문 타입의 평균 점수와 전체 평균 비교
     const followupResults = results.filter((r) => r.questionType === 'followup');
     const otherResults = results.filter((r) => r.questionType !== 'followup');
@@ -395,6 +458,7 @@ export class RagEvaluator {
       return {
         itemsWithRewriting: withRewriting.length,
         avgScoreImprovement: 0,
+        ...expansionStats,
       };
     }
 
@@ -405,6 +469,7 @@ export class RagEvaluator {
     return {
       itemsWithRewriting: withRewriting.length,
       avgScoreImprovement: followupAvg - otherAvg, // 양수면 후속 질문도 잘 처리
+      ...expansionStats,
     };
   }
 }
@@ -29,6 +29,7 @@ export type {
   AnswerRelevancyAnalysis,
   ContextPrecisionAnalysis,
   ContextRecallAnalysis,
+  ContextStats,
 } from './types';
 
 // 데이터셋
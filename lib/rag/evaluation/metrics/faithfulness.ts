@@ -10,7 +10,8 @@
  * 3. 점수 = 지지되는 주장 수 / 전체 주장 수
  */
 
-import { generateWithFallback } from '../../generator';
+import { generateWithFallback, type GenerateOptions } from '../../generator';
+import { parseClaimVerdicts } from '../../groundedness';
 import { logger } from '@/lib/logger';
 import type { MetricResult, FaithfulnessAnalysis } from '../types';
 
@@ -48,6 +49,22 @@ const VERIFY_CLAIM_SYSTEM_PROMPT = `당신은 주장의 근거를 검증하는 
 JSON 형식으로 출력하세요:
 {"verdict": "supported|not_supported|contradicted", "evidence": "근거 문장 또는 판단 이유"}`;
 
+/** 주장 일괄 검증 프롬프트 (온라인 근거 검증용, 호출 1회) */
+const VERIFY_CLAIMS_BATCH_SYSTEM_PROMPT = `당신은 주장의 근거를 검증하는 전문가입니다.
+
+## 작업
+번호가 매겨진 각 문장이 컨텍스트에서 지지되는지 판단하세요.
+특히 숫자, 가격, 연락처, 날짜 같은 값이 컨텍스트와 일치하는지 확인하세요.
+
+## 판단 기준
+- "supported": 컨텍스트에서 직접 확인 가능하거나 명확히 추론 가능
+- "not_supported": 컨텍스트에 근거가 없음
+- "contradicted": 컨텍스트와 명백히 모순됨
+
+## 출력 형식
+문장 순서대로 판정만 JSON 형식으로 출력하세요:
+{"verdicts": ["supported", "not_supported", ...]}`;
+
 /**
  * 답변에서 사실적 주장 추출
  */
@@ -117,6 +134,42 @@ ${claim}
   }
 }
 
+/**
+ * 여러 주장을 한 번의 LLM 호출로 검증 (응답 전 근거 검증용)
+ *
+ * @returns 주장별 지지 여부 (LLM 호출/파싱 실패 시 null)
+ */
+export async function verifyClaimsAgainstContext(
+  claims: string[],
+  context: string,
+  options: Pick<GenerateOptions, 'trackingContext' | 'modelChain'> = {}
+): Promise<boolean[] | null> {
+  const userPrompt = `## 컨텍스트
+${context}
+
+## 검증할 문장
+${claims.map((claim, i) => `${i + 1}. ${claim}`).join('\n')}
+
+## 판단 결과 (JSON)`;
+
+  try {
+    const response = await generateWithFallback(VERIFY_CLAIMS_BATCH_SYSTEM_PROMPT, userPrompt, {
+      ...options,
+      temperature: 0.1,
+      maxTokens: 50 + claims.length * 20,
+    });
+
+    const verdicts = parseClaimVerdicts(response, claims.length);
+    if (!verdicts) {
+      logger.warn('Failed to parse batch verification response', { response });
+    }
+    return verdicts;
+  } catch (error) {
+    logger.error('Failed to verify claims', error as Error, { claimCount: claims.length });
+    return null;
+  }
+}
+
 /**
  * Faithfulness 메트릭 평가
  *
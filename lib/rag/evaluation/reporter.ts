@@ -1,3 +1,4 @@
+/* eslint-disable no-console */
 /**
  * 평가 결과 리포터
  *
@@ -64,6 +65,25 @@ export function printSummary(report: EvaluationReport): void {
     const improvement = summary.queryRewritingImpact.avgScoreImprovement;
     const sign = improvement >= 0 ? '+' : '';
     console.log(`  점수 영향: ${sign}${(improvement * 100).toFixed(1)}%`);
+
+    const { expansionStrategy, itemsWithExpansion, avgQueriesPerItem } =
+      summary.queryRewritingImpact;
+    console.log(`  쿼리 확장: ${expansionStrategy}`);
+    if (expansionStrategy !== 'none') {
+      console.log(
+        `  확장 적용 항목: ${itemsWithExpansion}개 (평균 검색 쿼리 ${avgQueriesPerItem.toFixed(1)}개)`
+      );
+    }
+  }
+
+  // 응답 생성 컨텍스트
+  if (summary.contextStats) {
+    console.log('\n' + '-'.repeat(60));
+    console.log('🧩 응답 컨텍스트');
+    console.log('-'.repeat(60));
+    console.log(`  Parent-Child 확장: ${summary.contextStats.parentExpansion}`);
+    console.log(`  평균 컨텍스트 토큰: ${summary.contextStats.avgContextTokens}`);
+    console.log(`  확장 적용 항목: ${summary.contextStats.itemsWithExpansion}개`);
   }
 
   console.log('\n' + '='.repeat(60) + '\n');
@@ -159,6 +179,26 @@ export function generateMarkdownReport(report: EvaluationReport): string {
     md += `| Context Recall | ${(summary.avgContextRecall * 100).toFixed(1)}% | ${getStatusEmoji(summary.avgContextRecall)} |\n`;
   }
 
+  if (summary.queryRewritingImpact) {
+    const impact = summary.queryRewritingImpact;
+    md += `\n## Query Rewriting / Expansion\n\n`;
+    md += `| 항목 | 값 |\n`;
+    md += `|------|-----|\n`;
+    md += `| 재작성된 쿼리 | ${impact.itemsWithRewriting}개 |\n`;
+    md += `| 쿼리 확장 전략 | ${impact.expansionStrategy} |\n`;
+    md += `| 확장 적용 항목 | ${impact.itemsWithExpansion}개 |\n`;
+    md += `| 평균 검색 쿼리 수 | ${impact.avgQueriesPerItem.toFixed(1)} |\n`;
+  }
+
+  if (summary.contextStats) {
+    md += `\n## 응답 컨텍스트\n\n`;
+    md += `| 항목 | 값 |\n`;
+    md += `|------|-----|\n`;
+    md += `| Parent-Child 확장 | ${summary.contextStats.parentExpansion} |\n`;
+    md += `| 평균 컨텍스트 토큰 | ${summary.contextStats.avgContextTokens} |\n`;
+    md += `| 확장 적용 항목 | ${summary.contextStats.itemsWithExpansion}개 |\n`;
+  }
+
   // 질문 유형별 분석
   const questionTypes = Object.entries(summary.byQuestionType);
   if (questionTypes.length > 0) {
@@ -4,6 +4,9 @@
  * RAGAS 스타일의 평가 메트릭과 데이터셋 구조를 정의합니다.
  */
 
+import type { ParentExpansionConfig, ParentExpansionMode } from '../parent-window';
+import type { QueryExpansion, QueryExpansionConfig, QueryExpansionStrategy } from '../query-expansion';
+
 /** 평가 질문 유형 */
 export type QuestionType =
   | 'factual' // 사실 확인
@@ -108,6 +111,8 @@ export interface ItemEvaluationResult {
 
   // RAG 파이프라인 출력
   rewrittenQuery?: string;
+  /** 쿼리 확장 결과 (확장하지 않았거나 생성 실패 시 strategy 'none') */
+  queryExpansion?: QueryExpansion;
   retrievedChunks: RetrievedChunk[];
   generatedAnswer: string;
 
@@ -119,6 +124,10 @@ export interface ItemEvaluationResult {
 
   // 실행 메타데이터
   executionTime: number;
+  /** 응답 생성에 전달된 컨텍스트 토큰 수 (추정) */
+  contextTokens?: number;
+  /** Parent-Child 확장된 컨텍스트 수 */
+  expandedContexts?: number;
   tokenUsage?: {
     retrieval: number;
     generation: number;
@@ -139,6 +148,20 @@ export interface QuestionTypeStats {
 export interface QueryRewritingImpact {
   itemsWithRewriting: number;
   avgScoreImprovement: number;
+  /** 설정된 쿼리 확장 전략 (기본: none) */
+  expansionStrategy: QueryExpansionStrategy;
+  /** 쿼리 확장이 실제 적용된 항목 수 (생성 실패 항목 제외) */
+  itemsWithExpansion: number;
+  /** 확장 적용 항목의 평균 검색 쿼리 수 (HyDE는 1) */
+  avgQueriesPerItem: number;
+}
+
+/** 응답 생성 컨텍스트 통계 (Parent-Child 확장 비교용) */
+export interface ContextStats {
+  parentExpansion: ParentExpansionMode;
+  avgContextTokens: number;
+  /** 확장된 컨텍스트가 하나 이상 있었던 항목 수 */
+  itemsWithExpansion: number;
 }
 
 /** 전체 평가 결과 리포트 */
@@ -160,6 +183,9 @@ export interface EvaluationReport {
 
     // Query Rewriting 효과
     queryRewritingImpact?: QueryRewritingImpact;
+
+    // 응답 생성 컨텍스트 크기
+    contextStats?: ContextStats;
   };
 
   // 개별 항목 결과
@@ -202,6 +228,12 @@ export interface EvaluationOptions {
 
   /** LLM 생성 temperature (기본: 0.3) */
   temperature?: number;
+
+  /** Parent-Child 확장 (기본: off, 챗봇 searchConfig.parentExpansion과 같은 형식) */
+  parentExpansion?: ParentExpansionConfig;
+
+  /** 쿼리 확장 (기본: none, 챗봇 searchConfig.queryExpansion과 같은 형식) */
+  queryExpansion?: QueryExpansionConfig;
 }
 
 /** 메트릭 평가 결과 */
@@ -0,0 +1,257 @@
+/**
+ * 가중치 기반 검색 결과 병합
+ *
+ * 1. 청크 검색: Dense/Sparse 결과를 RRF로 합산한 뒤 데이터셋 가중치(chatbot_datasets.weight)를 곱한다.
+ * 2. 통합 검색: 청크/Knowledge Page 결과를 다시 RRF로 병합하며 소스별 가중치를 곱한다.
+ * 3. Multi-Query 확장: 쿼리 표현별 검색 결과를 RRF로 한 번 더 병합한다.
+ *
+ * 각 결과에는 점수 구성(scoreBreakdown)을 남겨 어떤 단계에서 순위가 결정됐는지 확인할 수 있다.
+ * DB 의존성이 없으므로 단위 테스트에서 직접 import 가능하다.
+ */
+
+import type { SearchResult } from './retrieval';
+
+export const RRF_K = 60; // Reciprocal Rank Fusion 상수
+
+// 가중치 허용 범위 (chatbot_datasets.weight API 검증과 동일)
+export const MIN_SEARCH_WEIGHT = 0.1;
+export const MAX_SEARCH_WEIGHT = 10;
+
+/**
+ * 개별 검색 결과 목록에서의 순위 기여도
+ */
+export interface RankContribution {
+  /** 순위 (1부터) */
+  rank: number;
+  /** 원본 점수 (Dense: 코사인 유사도, Sparse: PGroonga 점수) */
+  score: number;
+  /** RRF 기여도 = 1 / (RRF_K + rank) */
+  rrf: number;
+}
+
+/**
+ * 최종 점수 구성
+ */
+export interface ScoreBreakdown {
+  dense?: RankContribution;
+  sparse?: RankContribution;
+  /** 데이터셋 가중치 (청크 결과만) */
+  datasetWeight?: number;
+  /** 청크 하이브리드 점수 = (dense.rrf + sparse.rrf) × datasetWeight */
+  hybrid?: number;
+  /** 청크/Knowledge Page 통합 병합 (통합 검색에서만) */
+  merge?: {
+    source: 'chunk' | 'knowledge_page';
+    rank: number;
+    sourceWeight: number;
+    /** 병합 점수 = sourceWeight / (RRF_K + rank) */
+    rrf: number;
+  };
+  /** Multi-Query 병합 (쿼리 확장 사용 시) */
+  multiQuery?: {
+    /** 검색한 쿼리 수 */
+    queryCount: number;
+    /** 이 결과를 찾은 쿼리 수 */
+    matchedQueries: number;
+    /** 쿼리별 순위 중 가장 높은 순위 */
+    bestRank: number;
+    /** 병합 점수 = Σ 1 / (RRF_K + rank) */
+    rrf: number;
+  };
+  /** 최종 점수 (= SearchResult.score) */
+  final: number;
+}
+
+/**
+ * 검색 가중치 설정
+ */
+export interface SearchWeights {
+  /** 데이터셋 ID → 가중치 (없으면 1) */
+  datasets?: Record<string, number>;
+  /** 문서 청크 결과 가중치 (기본 1) */
+  chunks?: number;
+  /** Knowledge Page 결과 가중치 (기본 1) */
+  knowledgePages?: number;
+}
+
+function rrf(rank: number): number {
+  return 1 / (RRF_K + rank);
+}
+
+/**
+ * 가중치를 허용 범위로 보정 (잘못된 값은 1)
+ */
+export function normalizeWeight(weight: number | null | undefined): number {
+  if (typeof weight !== 'number' || !Number.isFinite(weight)) return 1;
+  return Math.min(MAX_SEARCH_WEIGHT, Math.max(MIN_SEARCH_WEIGHT, weight));
+}
+
+/**
+ * Dense + Sparse 결과를 데이터셋 가중치 RRF로 병합
+ *
+ * @returns SearchResult[] - RRF 점수(score), Dense 원본 점수(denseScore), 점수 구성 포함
+ */
+export function weightedReciprocalRankFusion(
+  denseResults: SearchResult[],
+  sparseResults: SearchResult[],
+  limit: number,
+  datasetWeights: Record<string, number> = {}
+): SearchResult[] {
+  const entries = new Map<
+    string,
+    { chunk: SearchResult; dense?: RankContribution; sparse?: RankContribution }
+  >();
+
+  denseResults.forEach((result, index) => {
+    entries.set(result.id, {
+      chunk: result,
+      dense: { rank: index + 1, score: result.score, rrf: rrf(index + 1) },
+    });
+  });
+
+  sparseResults.forEach((result, index) => {
+    const sparse = { rank: index + 1, score: result.score, rrf: rrf(index + 1) };
+    const existing = entries.get(result.id);
+    if (existing) {
+      existing.sparse = sparse;
+    } else {
+      entries.set(result.id, { chunk: result, sparse });
+    }
+  });
+
+  return Array.from(entries.values())
+    .map(({ chunk, dense, sparse }) => {
+      const datasetWeight = chunk.datasetId
+        ? normalizeWeight(datasetWeights[chunk.datasetId])
+        : 1;
+      const hybrid = ((dense?.rrf ?? 0) + (sparse?.rrf ?? 0)) * datasetWeight;
+
+      return {
+        ...chunk,
+        source: 'hybrid' as const,
+        score: hybrid,
+        // Sparse-only 결과는 denseScore 없음
+        denseScore: dense?.score,
+        scoreBreakdown: { dense, sparse, datasetWeight, hybrid, final: hybrid },
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * 청크 + Knowledge Page 결과를 소스 가중치 RRF로 병합
+ * 각 목록은 이미 점수 순으로 정렬되어 있다고 가정한다.
+ */
+export function mergeWeightedResults(
+  chunkResults: SearchResult[],
+  pageResults: SearchResult[],
+  limit: number,
+  weights: Pick<SearchWeights, 'chunks' | 'knowledgePages'> = {}
+): SearchResult[] {
+  const chunkWeight = normalizeWeight(weights.chunks);
+  const pageWeight = normalizeWeight(weights.knowledgePages);
+
+  const withMergeScore = (
+    results: SearchResult[],
+    source: 'chunk' | 'knowledge_page',
+    sourceWeight: number
+  ) =>
+    results.map((result, index) => {
+      const score = sourceWeight * rrf(index + 1);
+      return {
+        ...result,
+        score,
+        scoreBreakdown: {
+          ...result.scoreBreakdown,
+          merge: { source, rank: index + 1, sourceWeight, rrf: score },
+          final: score,
+        },
+      };
+    });
+
+  return [
+    ...withMergeScore(chunkResults, 'chunk', chunkWeight),
+    ...withMergeScore(pageResults, 'knowledge_page', pageWeight),
+  ]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Multi-Query: 쿼리 표현별 검색 결과를 RRF로 병합
+ * 여러 표현에서 공통으로 상위에 오른 결과가 앞선다. Dense 원본 점수는 가장 높은 값을 유지한다.
+ */
+export function fuseQueryVariantResults(
+  resultLists: SearchResult[][],
+  limit: number
+): SearchResult[] {
+  const entries = new Map<
+    string,
+    { result: SearchResult; rrf: number; matchedQueries: number; bestRank: number }
+  >();
+
+  for (const results of resultLists) {
+    results.forEach((result, index) => {
+      const rank = index + 1;
+      const existing = entries.get(result.id);
+      if (!existing) {
+        entries.set(result.id, { result, rrf: rrf(rank), matchedQueries: 1, bestRank: rank });
+        return;
+      }
+
+      existing.rrf += rrf(rank);
+      existing.matchedQueries++;
+      if (rank < existing.bestRank) {
+        existing.bestRank = rank;
+        existing.result = result;
+      }
+      const denseScores = [existing.result.denseScore, result.denseScore].filter(
+        (score): score is number => score !== undefined
+      );
+      if (denseScores.length > 0) {
+        existing.result = { ...existing.result, denseScore: Math.max(...denseScores) };
+      }
+    });
+  }
+
+  return Array.from(entries.values())
+    .map(({ result, rrf: score, matchedQueries, bestRank }) => ({
+      ...result,
+      score,
+      scoreBreakdown: {
+        ...result.scoreBreakdown,
+        multiQuery: { queryCount: resultLists.length, matchedQueries, bestRank, rrf: score },
+        final: score,
+      },
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * 점수 구성 요약 (로그/디버깅용)
+ * 예: "dense#1(0.82) + sparse#3 → ×1.5 dataset → chunk#2 ×1"
+ */
+export function describeScoreBreakdown(breakdown: ScoreBreakdown): string {
+  const parts: string[] = [];
+  const legs = [
+    breakdown.dense && `dense#${breakdown.dense.rank}(${breakdown.dense.score.toFixed(2)})`,
+    breakdown.sparse && `sparse#${breakdown.sparse.rank}`,
+  ].filter(Boolean);
+
+  if (legs.length > 0) parts.push(legs.join(' + '));
+  if (breakdown.datasetWeight !== undefined && breakdown.datasetWeight !== 1) {
+    parts.push(`×${breakdown.datasetWeight} dataset`);
+  }
+  if (breakdown.merge) {
+    parts.push(`${breakdown.merge.source}#${breakdown.merge.rank} ×${breakdown.merge.sourceWeight}`);
+  }
+  if (breakdown.multiQuery) {
+    parts.push(
+      `${breakdown.multiQuery.matchedQueries}/${breakdown.multiQuery.queryCount} queries`
+    );
+  }
+
+  return parts.join(' → ');
+}
@@ -1,15 +1,19 @@
 /**
  * LLM 응답 생성 모듈
- * Gemini 2.5 Flash-Lite (메인) + GPT-4o-mini (폴백)
+ * 챗봇별 모델 체인(메인 + 폴백)을 순서대로 시도한다.
+ * 체인을 지정하지 않으면 Gemini 2.5 Flash-Lite (메인) + GPT-4o-mini (폴백)
  */
 
-import { generateText } from 'ai';
+import { generateText, streamText, type LanguageModel } from 'ai';
 import { google } from '@ai-sdk/google';
 import { openai } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
 import { logger } from '@/lib/logger';
 import { trackTokenUsage } from '@/lib/usage/token-tracker';
 import { SearchResult } from './retrieval';
-import type { ModelProvider, ModelId, FeatureType } from '@/lib/usage/types';
+import type { ModelProvider, FeatureType } from '@/lib/usage/types';
+import { composeSystemPrompt, type SystemPromptConfig } from './prompt-composer';
+import { DEFAULT_MODEL_CHAIN, toModelKey, type ModelRef } from './model-chain';
 
 /** 토큰 사용량 추적을 위한 컨텍스트 */
 export interface TrackingContext {
@@ -27,142 +31,77 @@ export interface GenerateOptions {
   isFirstTurn?: boolean;
   /** 토큰 추적용 컨텍스트 */
   trackingContext?: TrackingContext;
+  /** 챗봇별 커스텀 프롬프트/페르소나 (시스템 프롬프트 합성용) */
+  promptConfig?: SystemPromptConfig;
+  /** 시도할 모델 순서 (기본: DEFAULT_MODEL_CHAIN) */
+  modelChain?: ModelRef[];
 }
 
-interface LLMProviderResult {
-  text: string;
-  inputTokens: number;
-  outputTokens: number;
-}
+// 프로바이더별 API 키 환경변수
+const PROVIDER_API_KEY_ENV: Record<ModelProvider, string> = {
+  google: 'GOOGLE_GENERATIVE_AI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
 
-interface LLMProvider {
-  name: ModelProvider;
-  model: ModelId;
-  priority: number;
-  isAvailable: () => Promise<boolean>;
-  generate: (
-    systemPrompt: string,
-    userPrompt: string,
-    options: GenerateOptions
-  ) => Promise<LLMProviderResult>;
+function isProviderAvailable(provider: ModelProvider): boolean {
+  return !!process.env[PROVIDER_API_KEY_ENV[provider]];
 }
 
-// LLM 프로바이더 설정
-const LLM_PROVIDERS: LLMProvider[] = [
-  {
-    name: 'google',
-    model: 'gemini-2.5-flash-lite',
-    priority: 1,
-    isAvailable: async () => !!process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-    generate: async (systemPrompt, userPrompt, options) => {
-      const result = await generateText({
-        model: google('gemini-2.5-flash-lite'),
-        system: systemPrompt,
-        prompt: userPrompt,
-        maxOutputTokens: options.maxTokens || 1024,
-        temperature: options.temperature || 0.7,
-      });
-      return {
-        text: result.text,
-        inputTokens: result.usage?.inputTokens ?? 0,
-        outputTokens: result.usage?.outputTokens ?? 0,
-      };
-    },
-  },
-  {
-    name: 'openai',
-    model: 'gpt-4o-mini',
-    priority: 2,
-    isAvailable: async () => !!process.env.OPENAI_API_KEY,
-    generate: async (systemPrompt, userPrompt, options) => {
-      const result = await generateText({
-        model: openai('gpt-4o-mini'),
-        system: systemPrompt,
-        prompt: userPrompt,
-        maxOutputTokens: options.maxTokens || 1024,
-        temperature: options.temperature || 0.7,
-      });
-      return {
-        text: result.text,
-        inputTokens: result.usage?.inputTokens ?? 0,
-        outputTokens: result.usage?.outputTokens ?? 0,
-      };
-    },
-  },
-];
-
-// 시스템 프롬프트 - 자연스러운 대화형 스타일
-const WEB_SYSTEM_PROMPT_BASE = `당신은 친근하고 전문적인 AI 어시스턴트입니다.
-
-## 핵심 원칙
-1. 제공된 컨텍스트 정보를 바탕으로 정확하게 답변
-2. 마치 해당 분야 전문가처럼 자연스럽게 설명
-3. 컨텍스트에 정보가 부족하면 솔직하게 "그 부분은 잘 모르겠어요"라고 답변
-4. 핵심을 먼저, 부연 설명은 필요시에만
-
-## 대화 스타일
-- 친근하지만 전문적인 어조 (반말 X, 너무 딱딱하지 않게)
-- 질문에 바로 답변 시작 (서론 없이)
-- 자연스러운 문장 구성
-
-## 금지 표현
-- "안녕하세요!", "안녕하세요~" (인사 불필요)
-- "문서에 따르면", "제공된 정보를 바탕으로", "[1]에 의하면" (출처 언급 불필요)
-- "도움이 되셨으면 합니다", "더 궁금한 점이 있으시면" (과도한 공손)
-- 이미 설명한 내용 반복`;
-
-const WEB_FIRST_TURN_SUFFIX = `
-
-## 첫 질문 응답 가이드
-- 충분히 상세하게 답변
-- 필요시 불렛 포인트나 번호 목록 사용
-- 관련 맥락 정보 함께 제공`;
-
-const WEB_FOLLOWUP_TURN_SUFFIX = `
-
-## 후속 질문 응답 가이드
-- 핵심만 2-3문장 이내로 간결하게
-- 이미 설명한 내용은 반복하지 않음
-- 직접적으로 답변 시작 (서론 없이)`;
-
-const KAKAO_SYSTEM_PROMPT = `당신은 카카오톡에서 고객 질문에 답변하는 AI 어시스턴트입니다.
-
-규칙:
-1. 제공된 컨텍스트에 기반하여 정확하게 답변하세요.
-2. 답변은 짧고 간결하게 (최대 300자) 작성하세요.
-3. 친근하면서도 전문적인 어조를 유지하세요.
-4. 컨텍스트에 없는 정보는 "관련 정보를 찾지 못했어요. 다른 질문이 있으신가요?"라고 답변하세요.
-5. "안녕하세요"로 시작하지 마세요. 바로 답변하세요.`;
+function createLanguageModel(ref: ModelRef): LanguageModel {
+  switch (ref.provider) {
+    case 'google':
+      return google(ref.modelId);
+    case 'openai':
+      return openai(ref.modelId);
+    case 'anthropic':
+      return anthropic(ref.modelId);
+  }
+}
 
 /**
- * 채널과 턴 정보에 따라 적절한 시스템 프롬프트를 생성합니다.
+ * 실제 사용된 모델 기준으로 토큰 사용량 추적 (비동기, 실패해도 응답 반환)
  */
-function buildSystemPrompt(channel: 'web' | 'kakao' | 'public_page', isFirstTurn: boolean): string {
-  if (channel === 'kakao') {
-    return KAKAO_SYSTEM_PROMPT;
-  }
-
-  // web과 public_page는 동일한 프롬프트 사용
-  return WEB_SYSTEM_PROMPT_BASE + (isFirstTurn ? WEB_FIRST_TURN_SUFFIX : WEB_FOLLOWUP_TURN_SUFFIX);
+function trackModelUsage(
+  ref: ModelRef,
+  trackingContext: TrackingContext | undefined,
+  inputTokens: number,
+  outputTokens: number
+): void {
+  if (!trackingContext?.tenantId) return;
+
+  trackTokenUsage({
+    tenantId: trackingContext.tenantId,
+    chatbotId: trackingContext.chatbotId,
+    conversationId: trackingContext.conversationId,
+    modelProvider: ref.provider,
+    modelId: ref.modelId,
+    featureType: trackingContext.featureType ?? 'chat',
+    inputTokens,
+    outputTokens,
+  }).catch((err) => {
+    logger.warn('Failed to track token usage', { error: err });
+  });
 }
 
 /**
- * RAG 기반 응답 생성
+ * RAG 응답 생성에 사용할 시스템/사용자 프롬프트 구성
+ * (검색 디버거에서 실제 전송될 프롬프트를 확인할 때도 사용)
  */
-export async function generateResponse(
+export function buildRAGPrompt(
   query: string,
   chunks: SearchResult[],
-  options: GenerateOptions = {}
-): Promise<string> {
-  const { channel = 'web', isFirstTurn = true } = options;
+  options: Pick<GenerateOptions, 'channel' | 'isFirstTurn' | 'promptConfig'> = {}
+): { systemPrompt: string; userPrompt: string } {
+  const { channel = 'web', isFirstTurn = true, promptConfig } = options;
 
   // 컨텍스트 구성
   const context = chunks
     .map((chunk, index) => `[${index + 1}] ${chunk.content}`)
     .join('\n\n---\n\n');
 
-  // 동적 시스템 프롬프트 생성
-  const systemPrompt = buildSystemPrompt(channel, isFirstTurn);
+  // 시스템 프롬프트 합성 (채널 규칙 + 페르소나 + 운영자 지침 + 가드레일)
+  const { prompt: systemPrompt } = composeSystemPrompt({ channel, isFirstTurn, ...promptConfig });
 
   // 사용자 프롬프트 구성
   const userPrompt = `## 관련 문서 내용:
@@ -173,6 +112,19 @@ ${query}
 
 ## 답변:`;
 
+  return { systemPrompt, userPrompt };
+}
+
+/**
+ * RAG 기반 응답 생성
+ */
+export async function generateResponse(
+  query: string,
+  chunks: SearchResult[],
+  options: GenerateOptions = {}
+): Promise<string> {
+  const { systemPrompt, userPrompt } = buildRAGPrompt(query, chunks, options);
+
   // 응답 생성
   return generateWithFallback(systemPrompt, userPrompt, options);
 }
@@ -189,49 +141,45 @@ export async function generateWithFallback(
   const errors: Array<{ provider: string; error: string }> = [];
   const { trackingContext } = options;
 
-  // 우선순위 순으로 프로바이더 시도
-  for (const provider of LLM_PROVIDERS) {
+  const modelChain = options.modelChain?.length ? options.modelChain : DEFAULT_MODEL_CHAIN;
+
+  // 체인 순서대로 모델 시도
+  for (const ref of modelChain) {
+    const modelKey = toModelKey(ref);
     try {
-      const isAvailable = await provider.isAvailable();
-      if (!isAvailable) {
-        logger.debug(`Provider ${provider.name} is not available`);
+      if (!isProviderAvailable(ref.provider)) {
+        logger.debug(`Provider ${ref.provider} is not available`, { model: modelKey });
         continue;
       }
 
-      const result = await provider.generate(systemPrompt, userPrompt, options);
+      const result = await generateText({
+        model: createLanguageModel(ref),
+        system: systemPrompt,
+        prompt: userPrompt,
+        maxOutputTokens: options.maxTokens || 1024,
+        temperature: options.temperature || 0.7,
+      });
+      const inputTokens = result.usage?.inputTokens ?? 0;
+      const outputTokens = result.usage?.outputTokens ?? 0;
 
       const duration = Date.now() - startTime;
       logger.info('LLM response generated', {
-        provider: provider.name,
-        model: provider.model,
+        provider: ref.provider,
+        model: ref.modelId,
         duration,
         responseLength: result.text.length,
-        inputTokens: result.inputTokens,
-        outputTokens: result.outputTokens,
+        inputTokens,
+        outputTokens,
       });
 
-      // 토큰 사용량 추적 (비동기, 실패해도 응답 반환)
-      if (trackingContext?.tenantId) {
-        trackTokenUsage({
-          tenantId: trackingContext.tenantId,
-          chatbotId: trackingContext.chatbotId,
-          conversationId: trackingContext.conversationId,
-          modelProvider: provider.name,
-          modelId: provider.model,
-          featureType: trackingContext.featureType ?? 'chat',
-          inputTokens: result.inputTokens,
-          outputTokens: result.outputTokens,
-        }).catch((err) => {
-          logger.warn('Failed to track token usage', { error: err });
-        });
-      }
+      trackModelUsage(ref, trackingContext, inputTokens, outputTokens);
 
       return result.text;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      errors.push({ provider: provider.name, error: errorMessage });
+      errors.push({ provider: modelKey, error: errorMessage });
 
-      logger.warn(`Provider ${provider.name} failed, trying next...`, {
+      logger.warn(`Model ${modelKey} failed, trying next...`, {
         error: errorMessage,
       });
     }
@@ -250,53 +198,120 @@ export async function generateStreamingResponse(
   chunks: SearchResult[],
   options: GenerateOptions = {}
 ): Promise<ReadableStream<Uint8Array>> {
-  const { channel = 'web', isFirstTurn = true } = options;
-
-  // 컨텍스트 구성
-  const context = chunks
-    .map((chunk, index) => `[${index + 1}] ${chunk.content}`)
-    .join('\n\n---\n\n');
-
-  // 동적 시스템 프롬프트 생성
-  const systemPrompt = buildSystemPrompt(channel, isFirstTurn);
+  const { systemPrompt, userPrompt } = buildRAGPrompt(query, chunks, options);
 
-  const userPrompt = `## 관련 문서 내용:
-${context}
-
-## 질문:
-${query}
+  const modelChain = options.modelChain?.length ? options.modelChain : DEFAULT_MODEL_CHAIN;
+  const errors: Array<{ provider: string; error: string }> = [];
 
-## 답변:`;
+  // 체인 순서대로 스트림 시작 시도 (첫 텍스트가 나오기 전 실패하면 다음 모델)
+  for (const ref of modelChain) {
+    const modelKey = toModelKey(ref);
+    if (!isProviderAvailable(ref.provider)) {
+      logger.debug(`Provider ${ref.provider} is not available`, { model: modelKey });
+      continue;
+    }
 
-  // Gemini 스트리밍 (메인)
-  if (process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-    const { textStream } = await import('ai').then((ai) =>
-      ai.streamText({
-        model: google('gemini-2.5-flash-lite'),
+    try {
+      const result = streamText({
+        model: createLanguageModel(ref),
         system: systemPrompt,
         prompt: userPrompt,
         maxOutputTokens: options.maxTokens || 1024,
         temperature: options.temperature || 0.7,
-      })
-    );
+      });
+
+      return await openModelStream(ref, result.fullStream, options.trackingContext);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      errors.push({ provider: modelKey, error: errorMessage });
 
-    return textStream as unknown as ReadableStream<Uint8Array>;
+      logger.warn(`Streaming model ${modelKey} failed, trying next...`, {
+        error: errorMessage,
+      });
+    }
   }
 
-  // OpenAI 폴백
-  if (process.env.OPENAI_API_KEY) {
-    const { textStream } = await import('ai').then((ai) =>
-      ai.streamText({
-        model: openai('gpt-4o-mini'),
-        system: systemPrompt,
-        prompt: userPrompt,
-        maxOutputTokens: options.maxTokens || 1024,
-        temperature: options.temperature || 0.7,
-      })
-    );
+  logger.error('All LLM providers failed (streaming)', undefined, { errors });
+  throw new Error('사용 가능한 LLM 서비스가 없습니다.');
+}
+
+type ModelStreamPart = ReturnType<typeof streamText>['fullStream'] extends AsyncIterable<infer P>
+  ? P
+  : never;
 
-    return textStream as unknown as ReadableStream<Uint8Array>;
+/**
+ * 모델 스트림 열기
+ *
+ * 첫 텍스트 조각까지 읽어 실패 여부를 확인한 뒤 바이트 스트림으로 변환한다.
+ * 첫 조각 전에 오류가 나면 예외를 던져 호출 측이 다음 모델로 넘어가게 하고,
+ * 스트림이 끝나면 실제 사용된 모델 기준으로 토큰 사용량을 기록한다.
+ */
+async function openModelStream(
+  ref: ModelRef,
+  fullStream: AsyncIterable<ModelStreamPart>,
+  trackingContext: TrackingContext | undefined
+): Promise<ReadableStream<Uint8Array>> {
+  const iterator = fullStream[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  // 첫 텍스트 조각 또는 종료까지 읽기
+  let firstText: string | null = null;
+  while (firstText === null) {
+    const { value: part, done } = await iterator.next();
+    if (done) break;
+    if (part.type === 'error') {
+      throw part.error instanceof Error ? part.error : new Error(String(part.error));
+    }
+    if (part.type === 'text-delta') {
+      firstText = part.text;
+    }
+    if (part.type === 'finish') {
+      trackModelUsage(
+        ref,
+        trackingContext,
+        part.totalUsage.inputTokens ?? 0,
+        part.totalUsage.outputTokens ?? 0
+      );
+      break;
+    }
   }
 
-  throw new Error('사용 가능한 LLM 서비스가 없습니다.');
+  logger.info('LLM streaming started', { provider: ref.provider, model: ref.modelId });
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (firstText) controller.enqueue(encoder.encode(firstText));
+    },
+    async pull(controller) {
+      try {
+        const { value: part, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        if (part.type === 'text-delta') {
+          controller.enqueue(encoder.encode(part.text));
+        } else if (part.type === 'finish') {
+          trackModelUsage(
+            ref,
+            trackingContext,
+            part.totalUsage.inputTokens ?? 0,
+            part.totalUsage.outputTokens ?? 0
+          );
+        } else if (part.type === 'error') {
+          // 이미 응답 일부를 보낸 뒤이므로 다른 모델로 전환하지 않음
+          logger.error('LLM stream failed mid-response', undefined, {
+            model: toModelKey(ref),
+            error: part.error instanceof Error ? part.error.message : String(part.error),
+          });
+          controller.close();
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
 }
@@ -0,0 +1,341 @@
+/**
+ * 답변 근거 검증 (Groundedness Guard)
+ *
+ * 생성된 답변의 고위험 주장이 검색된 청크에 근거하는지 응답 전에 확인한다.
+ * 고위험 주장은 Knowledge Pages 검증의 ClaimType 중 틀리면 바로 피해가 되는 값이다.
+ * - numeric: 가격, 수량, 비율 (예: 30,000원, 3만 원, 20%)
+ * - contact: 전화번호, 이메일
+ * - date: 날짜, 시간 (예: 3월 5일, 오후 6시)
+ *
+ * 1. 답변에서 정규식으로 고위험 주장 추출
+ * 2. 컨텍스트에서 같은 값을 찾으면 통과 (표기 차이는 정규화해 비교: 30,000원 = 3만 원)
+ * 3. 찾지 못한 주장만 LLM으로 검증 (검증 함수 주입)
+ *
+ * 근거 없는 답변의 처리(재생성 / 정보 없음 응답)는 lib/chat/groundedness-guard.ts에서 담당한다.
+ * DB 의존성이 없으므로 단위 테스트에서 직접 import 가능하다.
+ */
+
+import type { ClaimType } from '@/lib/knowledge-pages/types';
+import { stripCitationMarkers } from './citations';
+
+export type GroundednessGuardMode = 'off' | 'regenerate' | 'fallback';
+
+/**
+ * 챗봇별 근거 검증 설정 (llmConfig.groundednessGuard)
+ */
+export interface GroundednessGuardConfig {
+  /**
+   * - off: 검증하지 않음
+   * - regenerate: 한 번 다시 생성하고, 그래도 근거가 없으면 정보 없음 응답
+   * - fallback: 바로 정보 없음 응답
+   */
+  mode: GroundednessGuardMode;
+  /** 정규식으로 확인하지 못한 주장을 LLM으로 검증 (기본 true, 끄면 근거 없음으로 판정) */
+  llmVerification?: boolean;
+}
+
+export type HighRiskClaimType = Extract<ClaimType, 'numeric' | 'contact' | 'date'>;
+
+export interface HighRiskClaim {
+  type: HighRiskClaimType;
+  /** 답변에 나온 표기 */
+  text: string;
+  /** 비교용 정규화 값 */
+  value: string;
+  /** 주장이 포함된 문장 (LLM 검증용) */
+  sentence: string;
+}
+
+export interface CheckedClaim extends HighRiskClaim {
+  supported: boolean;
+  /** 근거를 확인한 단계 (확인하지 못했으면 null) */
+  verifiedBy: 'regex' | 'llm' | null;
+}
+
+export interface GroundednessResult {
+  grounded: boolean;
+  claims: CheckedClaim[];
+  unsupportedClaims: CheckedClaim[];
+  /** LLM 검증을 시도했지만 결과를 얻지 못함 (이 경우 미확인 주장은 통과 처리) */
+  verificationFailed: boolean;
+}
+
+/**
+ * 주장 검증 함수
+ *
+ * @param sentences - 검증할 주장 문장
+ * @param context - 검색된 컨텍스트
+ * @returns 문장별 지지 여부 (검증 실패 시 null)
+ */
+export type ClaimVerifier = (sentences: string[], context: string) => Promise<boolean[] | null>;
+
+// 연락처: 지역번호/휴대폰/대표번호, 이메일
+const PHONE_PATTERN =
+  /(?:\+82[-.\s]?|\b)0\d{1,2}[-.\s)]?\d{3,4}[-.\s]?\d{4}\b|\b1[5-9]\d{2}[-.\s]?\d{4}\b/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// 날짜: 2024년 3월 5일, 2024.03.05, 2024-03-05, 3월 5일
+const FULL_DATE_PATTERN = /(\d{4})\s*[년./-]\s*(\d{1,2})\s*[월./-]\s*(\d{1,2})\s*일?/g;
+const MONTH_DAY_PATTERN = /(\d{1,2})\s*월\s*(\d{1,2})\s*일/g;
+// 시간: 오후 6시, 9시 30분, 10시 반, 18:00 (24시간 같은 기간 표현 제외)
+const TIME_PATTERN =
+  /(오전|오후)?\s*(?<!\d)(\d{1,2})(?::(\d{2})|\s*시(?!간)(?:\s*(\d{1,2})\s*분|\s*(반))?)/g;
+// 숫자: 단위나 한글 자릿수(억/만/천)가 있거나 천 단위 구분 쉼표가 있는 값만 (목록 번호 등 제외)
+const NUMBER = String.raw`(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?`;
+const NUMERIC_PATTERN = new RegExp(
+  String.raw`((?:${NUMBER}\s*[억만천]\s*)*${NUMBER}(?:\s*[억만천])?)\s*(원|개월|개|명|건|회|%|퍼센트|시간|일|분|년|세|살)?`,
+  'g'
+);
+const MULTIPLIERS: Record<string, number> = { 억: 100_000_000, 만: 10_000, 천: 1_000 };
+const UNIT_ALIASES: Record<string, string> = { 퍼센트: '%', 살: '세' };
+
+/**
+ * 답변에서 고위험 주장 추출
+ *
+ * 연락처 → 날짜/시간 → 숫자 순으로 찾고, 이미 찾은 구간은 가려서 중복 추출하지 않는다.
+ */
+export function extractHighRiskClaims(text: string): HighRiskClaim[] {
+  const source = stripCitationMarkers(text);
+  let masked = source;
+  const found: Array<HighRiskClaim & { index: number }> = [];
+
+  const collect = (
+    pattern: RegExp,
+    type: HighRiskClaimType,
+    normalize: (match: RegExpExecArray) => string | null
+  ) => {
+    for (const match of masked.matchAll(pattern)) {
+      const value = normalize(match);
+      if (value === null) continue;
+
+      const index = match.index ?? 0;
+      const matchText = match[0].trim();
+      found.push({
+        type,
+        text: matchText,
+        value,
+        sentence: sentenceAt(source, index),
+        index,
+      });
+      masked =
+        masked.slice(0, index) +
+        ' '.repeat(match[0].length) +
+        masked.slice(index + match[0].length);
+    }
+  };
+
+  collect(EMAIL_PATTERN, 'contact', (m) => m[0].toLowerCase());
+  collect(PHONE_PATTERN, 'contact', (m) => normalizePhone(m[0]));
+  collect(FULL_DATE_PATTERN, 'date', (m) => `${m[1]}-${pad(m[2])}-${pad(m[3])}`);
+  collect(MONTH_DAY_PATTERN, 'date', (m) => `${pad(m[1])}-${pad(m[2])}`);
+  collect(TIME_PATTERN, 'date', normalizeTime);
+  collect(NUMERIC_PATTERN, 'numeric', normalizeNumeric);
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ type, text: claimText, value, sentence }) => ({
+      type,
+      text: claimText,
+      value,
+      sentence,
+    }));
+}
+
+/**
+ * 주장 값이 컨텍스트 값과 같은지 비교
+ * 날짜는 연도가 한쪽에만 있어도 월/일이 같으면, 시간은 오전/오후가 한쪽에 없으면 12시간제로 비교한다.
+ */
+function valuesMatch(type: HighRiskClaimType, claimValue: string, contextValue: string): boolean {
+  if (claimValue === contextValue) return true;
+  if (type !== 'date') return false;
+
+  if (claimValue.startsWith('t') && contextValue.startsWith('t')) {
+    const ambiguous = claimValue.startsWith('t~') || contextValue.startsWith('t~');
+    return ambiguous && to12Hour(claimValue) === to12Hour(contextValue);
+  }
+
+  // 2024-03-05 ↔ 03-05
+  return claimValue.endsWith(`-${contextValue}`) || contextValue.endsWith(`-${claimValue}`);
+}
+
+/**
+ * 정규식 검증: 컨텍스트에 같은 표기 또는 같은 정규화 값이 있는지
+ */
+export function isClaimInContext(
+  claim: HighRiskClaim,
+  context: string,
+  contextClaims: HighRiskClaim[] = extractHighRiskClaims(context)
+): boolean {
+  if (compactWhitespace(context).includes(compactWhitespace(claim.text))) {
+    return true;
+  }
+
+  return contextClaims.some(
+    (contextClaim) =>
+      contextClaim.type === claim.type && valuesMatch(claim.type, claim.value, contextClaim.value)
+  );
+}
+
+/**
+ * 답변 근거 검증
+ *
+ * @param answer - 생성된 답변
+ * @param contexts - 답변 생성에 사용한 컨텍스트 (청크 내용)
+ * @param verifier - 정규식으로 확인하지 못한 주장의 LLM 검증 (없으면 근거 없음으로 판정)
+ */
+export async function checkGroundedness(
+  answer: string,
+  contexts: string[],
+  verifier?: ClaimVerifier
+): Promise<GroundednessResult> {
+  const claims = extractHighRiskClaims(answer);
+  if (claims.length === 0) {
+    return { grounded: true, claims: [], unsupportedClaims: [], verificationFailed: false };
+  }
+
+  const context = contexts.join('\n\n');
+  const contextClaims = extractHighRiskClaims(context);
+  const checked: CheckedClaim[] = claims.map((claim) => {
+    const supported = isClaimInContext(claim, context, contextClaims);
+    return { ...claim, supported, verifiedBy: supported ? 'regex' : null };
+  });
+
+  // 2단계: 정규식으로 찾지 못한 주장의 문장만 LLM 검증 (같은 문장은 한 번만)
+  let verificationFailed = false;
+  const pending = checked.filter((claim) => !claim.supported);
+  if (pending.length > 0 && verifier) {
+    const sentences = [...new Set(pending.map((claim) => claim.sentence))];
+    const verdicts = await verifier(sentences, context);
+
+    if (verdicts) {
+      for (const claim of pending) {
+        if (verdicts[sentences.indexOf(claim.sentence)]) {
+          claim.supported = true;
+          claim.verifiedBy = 'llm';
+        }
+      }
+    } else {
+      verificationFailed = true;
+    }
+  }
+
+  const unsupportedClaims = checked.filter((claim) => !claim.supported);
+  return {
+    grounded: unsupportedClaims.length === 0 || verificationFailed,
+    claims: checked,
+    unsupportedClaims,
+    verificationFailed,
+  };
+}
+
+/**
+ * 설정 정규화
+ *
+ * @returns 검증하지 않으면 null
+ */
+export function resolveGroundednessGuardConfig(
+  config: GroundednessGuardConfig | null | undefined
+): Required<GroundednessGuardConfig> | null {
+  if (!config || config.mode === 'off') {
+    return null;
+  }
+
+  return {
+    mode: config.mode,
+    llmVerification: config.llmVerification ?? true,
+  };
+}
+
+/**
+ * LLM 검증 응답 파싱 ({"verdicts": ["supported", "not_supported", ...]})
+ *
+ * @returns 문장 수와 판정 수가 다르거나 JSON이 아니면 null
+ */
+export function parseClaimVerdicts(response: string, count: number): boolean[] | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  try {
+    const parsed = JSON.parse(jsonMatch[0]) as { verdicts?: unknown };
+    if (!Array.isArray(parsed.verdicts) || parsed.verdicts.length !== count) {
+      return null;
+    }
+    return parsed.verdicts.map((verdict) => verdict === 'supported');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 재생성 요청에 덧붙이는 안내 (근거 없는 값을 다시 쓰지 않도록)
+ */
+export function buildRegenerationFeedback(unsupportedClaims: HighRiskClaim[]): string {
+  const values = [...new Set(unsupportedClaims.map((claim) => claim.text))];
+  return `[답변 검증]\n직전 답변의 다음 값은 참고 자료에서 확인되지 않았습니다: ${values.join(', ')}\n참고 자료에 있는 내용만으로 다시 답변하고, 자료에 없는 값은 추측해서 안내하지 마세요.`;
+}
+
+function normalizeNumeric(match: RegExpExecArray): string | null {
+  const amountText = match[1];
+  const unit = match[2] ? (UNIT_ALIASES[match[2]] ?? match[2]) : '';
+  const hasMultiplier = /[억만천]/.test(amountText);
+
+  if (!unit && !hasMultiplier && !amountText.includes(',')) {
+    return null;
+  }
+
+  let amount = 0;
+  for (const part of amountText.matchAll(/([\d,]+(?:\.\d+)?)\s*([억만천])?/g)) {
+    const value = Number.parseFloat(part[1].replace(/,/g, ''));
+    amount += part[2] ? value * MULTIPLIERS[part[2]] : value;
+  }
+
+  return `${Number(amount.toFixed(4))}${unit}`;
+}
+
+function normalizePhone(text: string): string {
+  const digits = text.replace(/\D/g, '');
+  return digits.startsWith('82') ? `0${digits.slice(2)}` : digits;
+}
+
+/**
+ * 시간 정규화: t:HH:MM (오전/오후 또는 13시 이후), 12시간제로 모호하면 t~HH:MM
+ */
+function normalizeTime(match: RegExpExecArray): string | null {
+  const [, meridiem, hourText, colonMinutes, minutesText, half] = match;
+  let hour = Number(hourText);
+  const minutes = half ? 30 : Number(colonMinutes ?? minutesText ?? 0);
+  if (hour > 24 || minutes > 59) return null;
+
+  if (meridiem === '오후' && hour < 12) hour += 12;
+  if (meridiem === '오전' && hour === 12) hour = 0;
+
+  const ambiguous = !meridiem && hour <= 12;
+  return `t${ambiguous ? '~' : ':'}${pad(String(hour))}:${pad(String(minutes))}`;
+}
+
+function to12Hour(timeValue: string): string {
+  const [hour, minutes] = timeValue.slice(2).split(':');
+  return `${Number(hour) % 12}:${minutes}`;
+}
+
+function pad(value: string): string {
+  return value.padStart(2, '0');
+}
+
+function compactWhitespace(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+/**
+ * 위치가 포함된 문장 (줄바꿈 또는 공백 앞 문장 부호 기준, 소수점/날짜의 점은 제외)
+ */
+function sentenceAt(text: string, index: number): string {
+  const isBoundary = (i: number) =>
+    text[i] === '\n' ||
+    (/[.!?。]/.test(text[i]) && (i + 1 >= text.length || /\s/.test(text[i + 1])));
+
+  let start = index;
+  while (start > 0 && !isBoundary(start - 1)) start--;
+  let end = index;
+  while (end < text.length && !isBoundary(end)) end++;
+  return text.slice(start, Math.min(text.length, end + 1)).trim();
+}
@@ -3,7 +3,22 @@
  */
 
 export { smartChunk, type ChunkOptions, type Chunk, type DocumentStructure } from './chunking';
-export { embedText, embedTexts, type EmbeddingResult } from './embedding';
+export {
+  embedText,
+  embedTexts,
+  getDefaultEmbeddingModelId,
+  getEmbeddingDimension,
+  type EmbeddingResult,
+} from './embedding';
+export {
+  EMBEDDING_MODELS,
+  getEmbeddingModel,
+  isEmbeddingModelId,
+  listEmbeddingModels,
+  type EmbeddingModelId,
+  type EmbeddingModelInfo,
+  type EmbeddingProvider,
+} from './embedding-models';
 export {
   estimateTokenCount,
   exceedsTokenLimit,
@@ -16,10 +31,71 @@ export {
   searchKnowledgePages,
   searchWithKnowledgePages,
   getIndexedKnowledgePagesByChatbot,
+  traceSearchStages,
   type SearchResult,
+  type SearchTrace,
 } from './retrieval';
-export { generateResponse, generateWithFallback, type GenerateOptions } from './generator';
-export { rewriteQuery, type QueryRewriteOptions } from './query-rewriter';
+export {
+  metadataFilterSchema,
+  normalizeMetadataFilter,
+  resolveMetadataFilters,
+  type MetadataFilter,
+} from './metadata-filter';
+export {
+  weightedReciprocalRankFusion,
+  mergeWeightedResults,
+  fuseQueryVariantResults,
+  describeScoreBreakdown,
+  type ScoreBreakdown,
+  type SearchWeights,
+} from './fusion';
+export { expandToParentContext } from './parent-expansion';
+export {
+  expandResultsToParents,
+  resolveParentExpansionConfig,
+  type ParentExpansionConfig,
+  type ParentExpansionMode,
+  type ParentExpansionInfo,
+} from './parent-window';
+export {
+  generateResponse,
+  generateWithFallback,
+  buildRAGPrompt,
+  type GenerateOptions,
+} from './generator';
+export {
+  resolveModelChain,
+  validateModelSelection,
+  isModelAllowedForTier,
+  toModelKey,
+  parseModelKey,
+  DEFAULT_MODEL_CHAIN,
+  type ModelRef,
+  type ModelSelection,
+  type ChatModelInfo,
+} from './model-chain';
+export { getChatModels, getModelChainForChatbot } from './model-registry';
+export {
+  composeSystemPrompt,
+  type SystemPromptConfig,
+  type ComposedSystemPrompt,
+  type PromptSection,
+} from './prompt-composer';
+export {
+  rewriteQuery,
+  expandQuery,
+  generateQueryVariants,
+  generateHypotheticalAnswer,
+  type QueryRewriteOptions,
+} from './query-rewriter';
+export {
+  searchWithQueryExpansion,
+  resolveQueryExpansionConfig,
+  parseQueryVariants,
+  type QueryExpansion,
+  type QueryExpansionConfig,
+  type QueryExpansionStrategy,
+} from './query-expansion';
 export {
   lateChunk,
   addLateChunkingEmbeddings,
@@ -0,0 +1,195 @@
+/**
+ * 검색 메타데이터 필터
+ *
+ * chunks.metadata / documents.metadata를 대상으로 하는 타입 지정 필터 DSL.
+ * 문서 유형, 태그, 언어, 날짜 범위, 원본 파일명으로 검색 범위를 좁힌다.
+ * Dense/Sparse 검색 모두 같은 WHERE 조건을 사용하므로 RRF 병합 전 결과가 일관된다.
+ *
+ * 필터 목록은 모두 AND로 결합된다 (챗봇 기본 필터 + 요청별 필터).
+ */
+
+import { z } from 'zod';
+import { sql, type SQL } from 'drizzle-orm';
+
+/**
+ * 날짜 (YYYY-MM-DD) 또는 ISO 8601 일시
+ */
+const dateValueSchema = z
+  .string()
+  .refine((value) => /^\d{4}-\d{2}-\d{2}(T.+)?$/.test(value) && !Number.isNaN(Date.parse(value)), {
+    message: '날짜는 YYYY-MM-DD 또는 ISO 8601 형식이어야 합니다',
+  });
+
+const filterValuesSchema = z.array(z.string().trim().min(1).max(100)).max(20);
+
+export const metadataFilterSchema = z.object({
+  /** 문서 유형 (documents.file_type, 예: pdf, docx) */
+  documentTypes: filterValuesSchema.optional(),
+  /** 태그 (청크 또는 문서 metadata.tags) */
+  tags: filterValuesSchema.optional(),
+  /** 태그 일치 방식: any(하나라도), all(모두) - 기본 any */
+  tagMatch: z.enum(['any', 'all']).optional(),
+  /** 언어 (청크 또는 문서 metadata.language, 예: ko, en) */
+  languages: filterValuesSchema.optional(),
+  /** 날짜 범위 (문서 등록일 또는 수정일, 양 끝 포함) */
+  dateRange: z
+    .object({
+      field: z.enum(['createdAt', 'updatedAt']).optional(),
+      from: dateValueSchema.optional(),
+      to: dateValueSchema.optional(),
+    })
+    .refine((range) => !range.from || !range.to || Date.parse(range.from) <= Date.parse(range.to), {
+      message: '시작일이 종료일보다 늦을 수 없습니다',
+    })
+    .optional(),
+  /** 원본 파일명 키워드 (부분 일치, 대소문자 무시, 하나라도 일치) */
+  filenames: filterValuesSchema.optional(),
+});
+
+export type MetadataFilter = z.infer<typeof metadataFilterSchema>;
+
+function uniqueValues(values: string[] | undefined, transform?: (value: string) => string) {
+  if (!values) return undefined;
+  const normalized = [
+    ...new Set(values.map((v) => (transform ? transform(v.trim()) : v.trim())).filter(Boolean)),
+  ];
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+/**
+ * 필터 정규화
+ * 공백/중복 값을 제거하고 문서 유형은 소문자 확장자로 맞춘다 (".PDF" → "pdf").
+ * 조건이 하나도 없으면 null을 반환한다.
+ */
+export function normalizeMetadataFilter(
+  filter: MetadataFilter | null | undefined
+): MetadataFilter | null {
+  if (!filter) return null;
+
+  const normalized: MetadataFilter = {};
+
+  const documentTypes = uniqueValues(filter.documentTypes, (v) => v.replace(/^\./, '').toLowerCase());
+  if (documentTypes) normalized.documentTypes = documentTypes;
+
+  const tags = uniqueValues(filter.tags);
+  if (tags) {
+    normalized.tags = tags;
+    if (filter.tagMatch === 'all') normalized.tagMatch = 'all';
+  }
+
+  const languages = uniqueValues(filter.languages, (v) => v.toLowerCase());
+  if (languages) normalized.languages = languages;
+
+  if (filter.dateRange && (filter.dateRange.from || filter.dateRange.to)) {
+    normalized.dateRange = {
+      field: filter.dateRange.field ?? 'createdAt',
+      ...(filter.dateRange.from && { from: filter.dateRange.from }),
+      ...(filter.dateRange.to && { to: filter.dateRange.to }),
+    };
+  }
+
+  const filenames = uniqueValues(filter.filenames);
+  if (filenames) normalized.filenames = filenames;
+
+  return Object.keys(normalized).length > 0 ? normalized : null;
+}
+
+/**
+ * 챗봇 기본 필터와 요청 필터를 검색에 적용할 필터 목록으로 정리
+ * (빈 필터 제외, 모두 AND로 결합됨)
+ */
+export function resolveMetadataFilters(
+  ...filters: Array<MetadataFilter | null | undefined>
+): MetadataFilter[] {
+  return filters.flatMap((filter) => {
+    const normalized = normalizeMetadataFilter(filter);
+    return normalized ? [normalized] : [];
+  });
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function valueList(values: string[]): SQL {
+  return sql.join(
+    values.map((value) => sql`${value}`),
+    sql`, `
+  );
+}
+
+/**
+ * 필터 1개 → documents d 기준 조건 목록
+ * chunks 테이블은 별칭 없이 `chunks`로 참조한다.
+ */
+function buildFilterConditions(filter: MetadataFilter): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filter.documentTypes?.length) {
+    conditions.push(sql`lower(d.file_type) IN (${valueList(filter.documentTypes)})`);
+  }
+
+  if (filter.tags?.length) {
+    if (filter.tagMatch === 'all') {
+      const allTags = JSON.stringify(filter.tags);
+      conditions.push(
+        sql`(chunks.metadata->'tags' @> ${allTags}::jsonb OR d.metadata->'tags' @> ${allTags}::jsonb)`
+      );
+    } else {
+      const tagConditions = filter.tags.map((tag) => {
+        const value = JSON.stringify([tag]);
+        return sql`chunks.metadata->'tags' @> ${value}::jsonb OR d.metadata->'tags' @> ${value}::jsonb`;
+      });
+      conditions.push(sql`(${sql.join(tagConditions, sql` OR `)})`);
+    }
+  }
+
+  if (filter.languages?.length) {
+    conditions.push(
+      sql`lower(COALESCE(chunks.metadata->>'language', d.metadata->>'language')) IN (${valueList(filter.languages)})`
+    );
+  }
+
+  if (filter.dateRange) {
+    const column = filter.dateRange.field === 'updatedAt' ? sql`d.updated_at` : sql`d.created_at`;
+    const { from, to } = filter.dateRange;
+    if (from) {
+      conditions.push(sql`${column} >= ${from}::timestamptz`);
+    }
+    if (to) {
+      // 날짜만 지정하면 해당 일자 전체를 포함
+      conditions.push(
+        /^\d{4}-\d{2}-\d{2}$/.test(to)
+          ? sql`${column} < ${to}::date + interval '1 day'`
+          : sql`${column} <= ${to}::timestamptz`
+      );
+    }
+  }
+
+  if (filter.filenames?.length) {
+    const filenameConditions = filter.filenames.map(
+      (name) => sql`d.filename ILIKE ${`%${escapeLikePattern(name)}%`}`
+    );
+    conditions.push(sql`(${sql.join(filenameConditions, sql` OR `)})`);
+  }
+
+  return conditions;
+}
+
+/**
+ * 필터 목록 → chunks 검색 WHERE 절에 덧붙일 조건
+ *
+ * @returns 필터가 없으면 빈 SQL, 있으면 ` AND EXISTS (...)` 형태
+ */
+export function buildMetadataFilterSql(filters: MetadataFilter[]): SQL {
+  const conditions = filters.flatMap(buildFilterConditions);
+  if (conditions.length === 0) {
+    return sql``;
+  }
+
+  return sql` AND EXISTS (
+    SELECT 1 FROM documents d
+    WHERE d.id = chunks.document_id
+      AND ${sql.join(conditions, sql` AND `)}
+  )`;
+}
@@ -0,0 +1,173 @@
+/**
+ * LLM 모델 체인 해석
+ *
+ * 챗봇의 모델 선택(llmConfig.model, llmConfig.fallbackModels)을
+ * 활성 모델 목록과 티어 제한에 맞춰 실제 호출 순서로 변환한다.
+ * DB 조회 없이 동작하는 순수 함수만 둔다 (조회는 model-registry.ts).
+ */
+
+import type { ModelProvider, ModelId } from '@/lib/usage/types';
+import { TIER_MODEL_LIMITS, type Tier } from '@/lib/tier/constants';
+
+/**
+ * 모델 참조 (provider + modelId)
+ * llm_models 테이블의 unique 키와 동일
+ */
+export interface ModelRef {
+  provider: ModelProvider;
+  modelId: ModelId;
+}
+
+/**
+ * 선택 가능한 채팅 모델 (llm_models 중 활성 + 비임베딩)
+ */
+export interface ChatModelInfo extends ModelRef {
+  /** `provider:modelId` 형식 키 */
+  key: string;
+  displayName: string;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  isDefault: boolean;
+}
+
+/**
+ * 챗봇 llmConfig의 모델 선택 값
+ */
+export interface ModelSelection {
+  /** 메인 모델 키 (`provider:modelId`), 없으면 기본 모델 */
+  model?: string | null;
+  /** 폴백 모델 키 목록 (순서대로 시도) */
+  fallbackModels?: string[] | null;
+}
+
+const MODEL_PROVIDERS: readonly ModelProvider[] = ['google', 'openai', 'anthropic'];
+
+/**
+ * DB에 모델 정보가 없을 때 사용하는 기본 체인
+ * Gemini 2.5 Flash-Lite (메인) + GPT-4o-mini (폴백)
+ */
+export const DEFAULT_MODEL_CHAIN: ModelRef[] = [
+  { provider: 'google', modelId: 'gemini-2.5-flash-lite' },
+  { provider: 'openai', modelId: 'gpt-4o-mini' },
+];
+
+/**
+ * ModelRef → `provider:modelId` 키
+ * token-tracker의 가격 조회 키와 같은 형식
+ */
+export function toModelKey(ref: ModelRef): string {
+  return `${ref.provider}:${ref.modelId}`;
+}
+
+/**
+ * `provider:modelId` 키 → ModelRef (알 수 없는 provider면 null)
+ */
+export function parseModelKey(key: string): ModelRef | null {
+  const separatorIndex = key.indexOf(':');
+  if (separatorIndex <= 0) return null;
+
+  const provider = key.slice(0, separatorIndex) as ModelProvider;
+  const modelId = key.slice(separatorIndex + 1);
+  if (!MODEL_PROVIDERS.includes(provider) || !modelId) return null;
+
+  return { provider, modelId };
+}
+
+/**
+ * 티어에서 사용할 수 있는 모델인지 확인
+ * 기본 모델은 모든 티어에서 사용 가능
+ */
+export function isModelAllowedForTier(model: ChatModelInfo, tier: Tier): boolean {
+  if (model.isDefault) return true;
+
+  const limits = TIER_MODEL_LIMITS[tier];
+  if (!limits.customModelSelection) return false;
+  if (limits.maxInputPricePerMillion === -1) return true;
+
+  return model.inputPricePerMillion <= limits.maxInputPricePerMillion;
+}
+
+/**
+ * 모델 선택 검증 (저장 시)
+ *
+ * @returns 오류 메시지 (유효하면 null)
+ */
+export function validateModelSelection(
+  selection: ModelSelection,
+  models: ChatModelInfo[],
+  tier: Tier
+): string | null {
+  const limits = TIER_MODEL_LIMITS[tier];
+  const modelMap = new Map(models.map((m) => [m.key, m]));
+  const fallbackModels = selection.fallbackModels ?? [];
+
+  if (fallbackModels.length > limits.maxFallbackModels) {
+    return `현재 플랜에서는 폴백 모델을 최대 ${limits.maxFallbackModels}개까지 지정할 수 있습니다`;
+  }
+
+  const keys = [selection.model, ...fallbackModels].filter((k): k is string => !!k);
+  if (new Set(keys).size !== keys.length) {
+    return '같은 모델을 중복으로 지정할 수 없습니다';
+  }
+
+  for (const key of keys) {
+    const model = modelMap.get(key);
+    if (!model) {
+      return `사용할 수 없는 모델입니다: ${key}`;
+    }
+    if (!isModelAllowedForTier(model, tier)) {
+      return `현재 플랜에서는 ${model.displayName} 모델을 사용할 수 없습니다`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 실제 호출 순서(모델 체인) 결정
+ *
+ * 1. 선택한 메인 모델 (없으면 기본 모델)
+ * 2. 선택한 폴백 모델 (티어 허용 개수까지)
+ * 3. 기본 모델 + 시스템 기본 체인 (체인에 없으면 마지막 안전망으로 추가)
+ *
+ * 비활성화되었거나 티어에서 허용되지 않는 모델은 건너뛴다.
+ * 단, 안전망 모델은 티어와 무관하게 추가한다 (선택 기능이 아닌 가용성 보장용).
+ * 활성 모델 목록이 비어 있으면 DEFAULT_MODEL_CHAIN을 사용한다.
+ */
+export function resolveModelChain(
+  selection: ModelSelection | undefined,
+  models: ChatModelInfo[],
+  tier: Tier
+): ModelRef[] {
+  if (models.length === 0) {
+    return DEFAULT_MODEL_CHAIN;
+  }
+
+  const limits = TIER_MODEL_LIMITS[tier];
+  const modelMap = new Map(models.map((m) => [m.key, m]));
+  const defaultModel = models.find((m) => m.isDefault);
+  const chain: ModelRef[] = [];
+
+  const push = (key: string | null | undefined, isSafetyNet = false) => {
+    if (!key) return;
+    const model = modelMap.get(key);
+    if (!model) return;
+    if (!isSafetyNet && !isModelAllowedForTier(model, tier)) return;
+    if (chain.some((ref) => toModelKey(ref) === key)) return;
+    chain.push({ provider: model.provider, modelId: model.modelId });
+  };
+
+  if (limits.customModelSelection) {
+    push(selection?.model);
+    for (const key of (selection?.fallbackModels ?? []).slice(0, limits.maxFallbackModels)) {
+      push(key);
+    }
+  }
+
+  push(defaultModel?.key, true);
+  for (const ref of DEFAULT_MODEL_CHAIN) {
+    push(toModelKey(ref), true);
+  }
+
+  return chain.length > 0 ? chain : DEFAULT_MODEL_CHAIN;
+}
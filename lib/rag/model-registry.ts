@@ -0,0 +1,83 @@
+/**
+ * LLM 모델 레지스트리
+ * llm_models 테이블에서 선택 가능한 채팅 모델을 조회하고 챗봇별 모델 체인을 결정한다.
+ */
+
+import { db } from '@/lib/db';
+import { llmModels } from '@/drizzle/schema';
+import { and, eq } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { getTenantTier } from '@/lib/tier/validator';
+import type { ModelProvider } from '@/lib/usage/types';
+import {
+  resolveModelChain,
+  toModelKey,
+  type ChatModelInfo,
+  type ModelRef,
+  type ModelSelection,
+} from './model-chain';
+
+// 모델 목록 캐시 (5분간 유지, token-tracker의 가격 캐시와 동일 주기)
+let chatModelCache: ChatModelInfo[] | null = null;
+let cacheExpiry = 0;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * 활성 채팅 모델 목록 조회 (임베딩 모델 제외, 캐싱 적용)
+ */
+export async function getChatModels(): Promise<ChatModelInfo[]> {
+  const now = Date.now();
+
+  if (chatModelCache && now < cacheExpiry) {
+    return chatModelCache;
+  }
+
+  try {
+    const rows = await db
+      .select({
+        provider: llmModels.provider,
+        modelId: llmModels.modelId,
+        displayName: llmModels.displayName,
+        inputPricePerMillion: llmModels.inputPricePerMillion,
+        outputPricePerMillion: llmModels.outputPricePerMillion,
+        isDefault: llmModels.isDefault,
+      })
+      .from(llmModels)
+      .where(and(eq(llmModels.isActive, true), eq(llmModels.isEmbedding, false)));
+
+    chatModelCache = rows.map((row) => {
+      const ref: ModelRef = { provider: row.provider as ModelProvider, modelId: row.modelId };
+      return {
+        ...ref,
+        key: toModelKey(ref),
+        displayName: row.displayName,
+        inputPricePerMillion: row.inputPricePerMillion,
+        outputPricePerMillion: row.outputPricePerMillion,
+        isDefault: row.isDefault ?? false,
+      };
+    });
+    cacheExpiry = now + CACHE_TTL_MS;
+
+    return chatModelCache;
+  } catch (error) {
+    logger.error('Failed to fetch chat models', error as Error);
+    // 캐시가 있으면 만료되어도 사용, 없으면 빈 목록 (기본 체인으로 폴백)
+    return chatModelCache ?? [];
+  }
+}
+
+/**
+ * 챗봇의 모델 선택과 테넌트 티어로 모델 체인 결정
+ * 조회 실패 시에도 기본 체인을 반환하므로 응답 생성은 계속된다.
+ */
+export async function getModelChainForChatbot(
+  tenantId: string,
+  selection: ModelSelection | undefined
+): Promise<ModelRef[]> {
+  const [models, tier] = await Promise.all([
+    getChatModels(),
+    getTenantTier(tenantId).catch(() => 'free' as const),
+  ]);
+
+  return resolveModelChain(selection, models, tier);
+}
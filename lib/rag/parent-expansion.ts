@@ -0,0 +1,129 @@
+/**
+ * Parent-Child 컨텍스트 확장 (DB 조회)
+ *
+ * 최종 검색 결과의 부모 후보 청크(앞뒤 청크 또는 같은 섹션)를 조회해
+ * parent-window.ts의 확장 로직에 전달한다.
+ * 조회 실패 시 원본 결과를 그대로 반환해 응답 생성을 막지 않는다.
+ */
+
+import { db, chunks } from '@/lib/db';
+import { and, eq, between, inArray, or, type SQL } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { estimateTokenCount } from './embedding';
+import {
+  expandResultsToParents,
+  resolveParentExpansionConfig,
+  MAX_SECTION_RADIUS,
+  type ParentExpansionConfig,
+  type SiblingChunk,
+} from './parent-window';
+import type { SearchResult } from './retrieval';
+
+function toSectionIndex(metadata: unknown): number | null {
+  const value = (metadata as { sectionIndex?: unknown } | null)?.sectionIndex;
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * 검색 결과를 부모 컨텍스트로 확장 (설정이 없거나 off면 그대로 반환)
+ */
+export async function expandToParentContext(
+  results: SearchResult[],
+  config: ParentExpansionConfig | null | undefined
+): Promise<SearchResult[]> {
+  const resolved = resolveParentExpansionConfig(config);
+  const chunkResults = results.filter((r) => !r.pageId);
+  if (!resolved || chunkResults.length === 0) {
+    return results;
+  }
+
+  try {
+    const hits = await db
+      .select({
+        id: chunks.id,
+        documentId: chunks.documentId,
+        chunkIndex: chunks.chunkIndex,
+        metadata: chunks.metadata,
+      })
+      .from(chunks)
+      .where(
+        inArray(
+          chunks.id,
+          chunkResults.map((r) => r.chunkId)
+        )
+      );
+
+    // 매칭 청크별 부모 후보 범위 (섹션 조건은 조회 후 parent-window에서 적용)
+    const ranges: SQL[] = [];
+    for (const hit of hits) {
+      if (hit.chunkIndex === null) continue;
+
+      const sectionIndex = toSectionIndex(hit.metadata);
+      const useSection = resolved.mode === 'section' && sectionIndex !== null;
+      const radius = useSection ? MAX_SECTION_RADIUS : resolved.window;
+      const range = and(
+        eq(chunks.documentId, hit.documentId),
+        between(chunks.chunkIndex, hit.chunkIndex - radius, hit.chunkIndex + radius)
+      );
+      if (range) ranges.push(range);
+    }
+
+    if (ranges.length === 0) {
+      return results;
+    }
+
+    const siblingRows = await db
+      .select({
+        id: chunks.id,
+        documentId: chunks.documentId,
+        chunkIndex: chunks.chunkIndex,
+        content: chunks.content,
+        metadata: chunks.metadata,
+      })
+      .from(chunks)
+      .where(and(eq(chunks.status, 'approved'), eq(chunks.isActive, true), or(...ranges)))
+      .orderBy(chunks.documentId, chunks.chunkIndex);
+
+    const siblingsByDocument = new Map<string, SiblingChunk[]>();
+    for (const row of siblingRows) {
+      if (row.chunkIndex === null) continue;
+
+      const siblings = siblingsByDocument.get(row.documentId) ?? [];
+      siblings.push({
+        id: row.id,
+        chunkIndex: row.chunkIndex,
+        content: row.content,
+        sectionIndex: toSectionIndex(row.metadata),
+      });
+      siblingsByDocument.set(row.documentId, siblings);
+    }
+
+    const expanded = expandResultsToParents(
+      results,
+      siblingsByDocument,
+      resolved,
+      estimateTokenCount
+    );
+
+    logger.debug('[ParentExpansion] Expanded search results', {
+      mode: resolved.mode,
+      inputCount: results.length,
+      outputCount: expanded.length,
+      siblingCount: siblingRows.length,
+    });
+
+    return expanded;
+  } catch (error) {
+    logger.warn('[ParentExpansion] Failed to expand results, using matched chunks', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return results;
+  }
+}
+
+/**
+ * 응답 생성에 전달되는 컨텍스트 전체 토큰 수 추정 (평가 리포트용)
+ */
+export function estimateContextTokens(results: SearchResult[]): number {
+  return results.reduce((sum, r) => sum + estimateTokenCount(r.content), 0);
+}
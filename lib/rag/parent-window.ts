@@ -0,0 +1,242 @@
+/**
+ * Parent-Child (Small-to-Big) 컨텍스트 확장
+ *
+ * 검색은 작은 청크로 정확하게 매칭하고, 응답 생성에는 매칭된 청크를 감싸는
+ * 섹션 또는 앞뒤 청크를 이어 붙인 "부모" 컨텍스트를 전달한다.
+ * - neighbors: chunkIndex 기준 앞뒤 window개 청크
+ * - section: 같은 섹션(metadata.sectionIndex, 청킹 시 analyzeStructure 기반 분리 단위)의 청크
+ *
+ * 토큰 예산(maxTokens)은 전체 컨텍스트 기준이며, 상위 결과부터 확장하되
+ * 뒤 순위 결과의 원본 청크 몫은 남겨둔다. 이미 다른 부모에 포함된 청크가 매칭되면
+ * 중복 확장하지 않고 해당 부모에 병합한다.
+ *
+ * DB 의존성이 없으므로 단위 테스트에서 직접 import 가능하다.
+ */
+
+import type { SearchResult } from './retrieval';
+
+export type ParentExpansionMode = 'off' | 'neighbors' | 'section';
+
+/**
+ * 챗봇별 부모 컨텍스트 확장 설정 (searchConfig.parentExpansion)
+ */
+export interface ParentExpansionConfig {
+  mode: ParentExpansionMode;
+  /** neighbors 모드: 앞뒤로 붙일 청크 수 (기본 1) */
+  window?: number;
+  /** 확장 후 전체 컨텍스트 토큰 예산 (기본 2000) */
+  maxTokens?: number;
+}
+
+export const DEFAULT_PARENT_WINDOW = 1;
+export const MAX_PARENT_WINDOW = 5;
+export const DEFAULT_PARENT_MAX_TOKENS = 2000;
+export const MIN_PARENT_MAX_TOKENS = 200;
+export const MAX_PARENT_MAX_TOKENS = 8000;
+// section 모드에서 매칭 청크 앞뒤로 조회할 최대 청크 수
+export const MAX_SECTION_RADIUS = 20;
+
+// 청크 오버랩으로 판단할 최소 중복 길이
+const MIN_OVERLAP_LENGTH = 10;
+
+/**
+ * 같은 문서의 청크 (부모 후보)
+ */
+export interface SiblingChunk {
+  id: string;
+  chunkIndex: number;
+  content: string;
+  sectionIndex?: number | null;
+}
+
+/**
+ * 확장된 결과의 metadata.parentExpansion
+ */
+export interface ParentExpansionInfo {
+  mode: Exclude<ParentExpansionMode, 'off'>;
+  /** 부모 컨텍스트를 구성한 청크 ID (chunkIndex 순) */
+  chunkIds: string[];
+  chunkIndexRange: [number, number];
+  /** 이 부모에 매칭된 검색 결과 청크 ID (중복 확장 병합 포함) */
+  matchedChunkIds: string[];
+  tokens: number;
+}
+
+/**
+ * 설정 정규화
+ *
+ * @returns 확장하지 않으면 null
+ */
+export function resolveParentExpansionConfig(
+  config: ParentExpansionConfig | null | undefined
+): Required<ParentExpansionConfig> | null {
+  if (!config || config.mode === 'off') {
+    return null;
+  }
+
+  return {
+    mode: config.mode,
+    window: Math.min(
+      MAX_PARENT_WINDOW,
+      Math.max(1, Math.round(config.window ?? DEFAULT_PARENT_WINDOW))
+    ),
+    maxTokens: Math.min(
+      MAX_PARENT_MAX_TOKENS,
+      Math.max(MIN_PARENT_MAX_TOKENS, config.maxTokens ?? DEFAULT_PARENT_MAX_TOKENS)
+    ),
+  };
+}
+
+/**
+ * 연속 청크 본문 결합 (청킹 오버랩으로 중복된 문장은 한 번만 포함)
+ */
+export function joinChunkContents(contents: string[]): string {
+  return contents.reduce((joined, content) => {
+    if (!joined) return content;
+
+    const maxOverlap = Math.min(joined.length, content.length);
+    for (let length = maxOverlap; length >= MIN_OVERLAP_LENGTH; length--) {
+      if (joined.endsWith(content.slice(0, length))) {
+        const rest = content.slice(length).trimStart();
+        return rest ? `${joined}\n${rest}` : joined;
+      }
+    }
+    return `${joined}\n${content}`;
+  }, '');
+}
+
+/**
+ * 매칭 청크의 부모 범위 (chunkIndex 순)
+ * section 모드라도 섹션 정보가 없는 청크(시맨틱 청킹 이전 데이터 등)는 neighbors로 처리
+ */
+function parentScope(
+  siblings: SiblingChunk[],
+  hit: SiblingChunk,
+  config: Required<ParentExpansionConfig>
+): SiblingChunk[] {
+  if (config.mode === 'section' && typeof hit.sectionIndex === 'number') {
+    return siblings.filter(
+      (s) =>
+        s.sectionIndex === hit.sectionIndex &&
+        Math.abs(s.chunkIndex - hit.chunkIndex) <= MAX_SECTION_RADIUS
+    );
+  }
+
+  return siblings.filter((s) => Math.abs(s.chunkIndex - hit.chunkIndex) <= config.window);
+}
+
+/**
+ * 매칭 청크에서 앞뒤로 번갈아 넓히며 예산 안의 연속 구간 선택
+ * 다른 부모에 이미 포함된 청크를 만나면 그 방향은 멈춘다.
+ */
+function growWindow(
+  scope: SiblingChunk[],
+  hitId: string,
+  budget: number,
+  usedChunkIds: Set<string>,
+  countTokens: (text: string) => number
+): SiblingChunk[] {
+  let low = scope.findIndex((s) => s.id === hitId);
+  let high = low;
+  let tokens = countTokens(scope[low].content);
+  let canGrowHigh = true;
+  let canGrowLow = true;
+
+  while (canGrowHigh || canGrowLow) {
+    if (canGrowHigh) {
+      const next = scope[high + 1];
+      const nextTokens = next ? countTokens(next.content) : 0;
+      if (next && !usedChunkIds.has(next.id) && tokens + nextTokens <= budget) {
+        high++;
+        tokens += nextTokens;
+      } else {
+        canGrowHigh = false;
+      }
+    }
+    if (canGrowLow) {
+      const previous = scope[low - 1];
+      const previousTokens = previous ? countTokens(previous.content) : 0;
+      if (previous && !usedChunkIds.has(previous.id) && tokens + previousTokens <= budget) {
+        low--;
+        tokens += previousTokens;
+      } else {
+        canGrowLow = false;
+      }
+    }
+  }
+
+  return scope.slice(low, high + 1);
+}
+
+/**
+ * 검색 결과 → 부모 컨텍스트로 확장
+ *
+ * @param results - 순위 순 검색 결과 (Re-ranking 이후 최종 컨텍스트)
+ * @param siblingsByDocument - 문서 ID → 부모 후보 청크 (chunkIndex 오름차순)
+ * @param countTokens - 토큰 수 추정 함수
+ * @returns 확장된 결과 (중복 확장된 결과는 제외되어 입력보다 적을 수 있음)
+ */
+export function expandResultsToParents(
+  results: SearchResult[],
+  siblingsByDocument: Map<string, SiblingChunk[]>,
+  config: Required<ParentExpansionConfig>,
+  countTokens: (text: string) => number
+): SearchResult[] {
+  const mode = config.mode as ParentExpansionInfo['mode'];
+  const resultTokens = results.map((r) => countTokens(r.content));
+  const usedChunkIds = new Set<string>();
+  const parentByChunkId = new Map<string, ParentExpansionInfo>();
+  const expanded: SearchResult[] = [];
+  let usedTokens = 0;
+
+  results.forEach((result, index) => {
+    // 이미 앞 순위 부모에 포함된 청크: 중복 확장하지 않고 병합
+    const existingParent = result.pageId ? undefined : parentByChunkId.get(result.chunkId);
+    if (existingParent) {
+      existingParent.matchedChunkIds.push(result.chunkId);
+      return;
+    }
+
+    const siblings = result.pageId ? undefined : siblingsByDocument.get(result.documentId);
+    const hit = siblings?.find((s) => s.id === result.chunkId);
+    if (!siblings || !hit) {
+      usedTokens += resultTokens[index];
+      expanded.push(result);
+      return;
+    }
+
+    // 뒤 순위 결과의 원본 몫은 남겨두고 확장
+    const reserved = resultTokens.slice(index + 1).reduce((sum, tokens) => sum + tokens, 0);
+    const budget = Math.max(countTokens(hit.content), config.maxTokens - usedTokens - reserved);
+    const window = growWindow(
+      parentScope(siblings, hit, config),
+      hit.id,
+      budget,
+      usedChunkIds,
+      countTokens
+    );
+    const content = joinChunkContents(window.map((s) => s.content));
+    const tokens = countTokens(content);
+
+    const info: ParentExpansionInfo = {
+      mode,
+      chunkIds: window.map((s) => s.id),
+      chunkIndexRange: [window[0].chunkIndex, window[window.length - 1].chunkIndex],
+      matchedChunkIds: [result.chunkId],
+      tokens,
+    };
+    for (const chunk of window) {
+      usedChunkIds.add(chunk.id);
+      parentByChunkId.set(chunk.id, info);
+    }
+
+    usedTokens += tokens;
+    expanded.push({
+      ...result,
+      content,
+      metadata: { ...result.metadata, parentExpansion: info },
+    });
+  });
+
+  return expanded;
+}
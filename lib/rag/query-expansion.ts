@@ -0,0 +1,115 @@
+/**
+ * Query Expansion 전략
+ *
+ * 재작성된 검색 쿼리 하나로 검색하는 대신 검색 쿼리를 확장한다.
+ * - multi_query: LLM이 만든 N개의 다른 표현으로 각각 검색하고 RRF로 병합
+ * - hyde: LLM이 만든 가상 답변(Hypothetical Document)을 임베딩해 Dense 검색에 사용
+ *   (Sparse 검색은 원래 쿼리 사용)
+ *
+ * LLM 생성은 query-rewriter.ts(expandQuery)에서 수행하고, 여기서는 설정 정규화,
+ * 응답 파싱, 확장 검색 실행(검색 함수 주입)만 담당한다.
+ * DB 의존성이 없으므로 단위 테스트에서 직접 import 가능하다.
+ */
+
+import { fuseQueryVariantResults } from './fusion';
+import type { SearchResult } from './retrieval';
+
+export type QueryExpansionStrategy = 'none' | 'multi_query' | 'hyde';
+
+/**
+ * 챗봇별 쿼리 확장 설정 (searchConfig.queryExpansion)
+ */
+export interface QueryExpansionConfig {
+  strategy: QueryExpansionStrategy;
+  /** multi_query: 원래 쿼리 외에 생성할 다른 표현 수 (기본 3) */
+  queryCount?: number;
+}
+
+export const DEFAULT_QUERY_VARIANT_COUNT = 3;
+export const MAX_QUERY_VARIANT_COUNT = 5;
+
+// 생성된 표현으로 인정할 최대 길이 (원래 쿼리 대비 배수)
+const MAX_VARIANT_LENGTH_RATIO = 5;
+
+/**
+ * 쿼리 확장 결과
+ */
+export interface QueryExpansion {
+  strategy: QueryExpansionStrategy;
+  /** 검색에 사용할 쿼리 (첫 번째는 항상 원래 검색 쿼리) */
+  queries: string[];
+  /** hyde: Dense 검색에 사용할 가상 답변 */
+  hypotheticalAnswer?: string;
+}
+
+/**
+ * 설정 정규화
+ *
+ * @returns 확장하지 않으면 null
+ */
+export function resolveQueryExpansionConfig(
+  config: QueryExpansionConfig | null | undefined
+): Required<QueryExpansionConfig> | null {
+  if (!config || config.strategy === 'none') {
+    return null;
+  }
+
+  return {
+    strategy: config.strategy,
+    queryCount: Math.min(
+      MAX_QUERY_VARIANT_COUNT,
+      Math.max(1, Math.round(config.queryCount ?? DEFAULT_QUERY_VARIANT_COUNT))
+    ),
+  };
+}
+
+/**
+ * LLM 응답에서 다른 표현 목록 파싱
+ * 번호/글머리표/인용부호를 제거하고, 원래 쿼리와 같거나 너무 긴 표현은 제외한다.
+ */
+export function parseQueryVariants(response: string, query: string, count: number): string[] {
+  const normalized = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  const seen = new Set([normalized(query)]);
+  const variants: string[] = [];
+
+  for (const line of response.split('\n')) {
+    const variant = line
+      .replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '')
+      .replace(/^["'“‘]+|["'”’]+$/g, '')
+      .trim();
+
+    if (!variant || variant.length > query.length * MAX_VARIANT_LENGTH_RATIO) continue;
+    if (seen.has(normalized(variant))) continue;
+
+    seen.add(normalized(variant));
+    variants.push(variant);
+    if (variants.length >= count) break;
+  }
+
+  return variants;
+}
+
+/**
+ * 확장 결과로 검색 실행
+ *
+ * @param search - 검색 함수 (denseQuery가 있으면 Dense 검색에만 사용)
+ * @param limit - multi_query 병합 후 반환할 최대 결과 수
+ */
+export async function searchWithQueryExpansion(
+  expansion: QueryExpansion,
+  search: (query: string, denseQuery?: string) => Promise<SearchResult[]>,
+  limit: number
+): Promise<SearchResult[]> {
+  const [query] = expansion.queries;
+
+  if (expansion.strategy === 'hyde' && expansion.hypotheticalAnswer) {
+    return search(query, expansion.hypotheticalAnswer);
+  }
+
+  if (expansion.strategy === 'multi_query' && expansion.queries.length > 1) {
+    const resultLists = await Promise.all(expansion.queries.map((q) => search(q)));
+    return fuseQueryVariantResults(resultLists, limit);
+  }
+
+  return search(query);
+}
@@ -3,11 +3,19 @@
  *
  * 대화 맥락을 고려하여 후속 질문을 독립적인 완전한 질문으로 재작성합니다.
  * 이를 통해 RAG 검색 품질을 향상시킵니다.
+ *
+ * 재작성된 쿼리는 챗봇 설정에 따라 Multi-Query / HyDE로 한 번 더 확장할 수 있습니다 (expandQuery).
  */
 
 import { ChatMessage } from '@/lib/chat/types';
 import { generateWithFallback, type TrackingContext } from './generator';
 import { logger } from '@/lib/logger';
+import {
+  parseQueryVariants,
+  resolveQueryExpansionConfig,
+  type QueryExpansion,
+  type QueryExpansionConfig,
+} from './query-expansion';
 
 export interface QueryRewriteOptions {
   /** 사용할 최대 히스토리 메시지 수 (기본: 4) */
@@ -24,6 +32,8 @@ export interface QueryRewriteOptions {
   expertiseArea?: string;
   /** 도메인 용어 사전 (동음이의어 해소용) */
   domainGlossary?: Record<string, string>;
+  /** 히스토리 창 밖 이전 대화의 요약 (주문번호 등 앞선 맥락 보존용) */
+  conversationSummary?: string;
 }
 
 /**
@@ -193,6 +203,7 @@ export async function rewriteQuery(
     includedTopics,
     expertiseArea,
     domainGlossary,
+    conversationSummary,
   } = options;
 
   // 도메인 컨텍스트 존재 여부 확인
@@ -208,14 +219,15 @@ export async function rewriteQuery(
     includedTopics: includedTopics?.slice(0, 5), // 처음 5개만 로깅
     hasHistory: conversationHistory.length > 0,
     hasDomainContext,
+    hasSummary: !!conversationSummary,
     expertiseArea,
   });
 
   // 1. 키워드 확장 (히스토리와 무관하게 항상 적용)
   const expandedQuery = expandQueryWithKeywords(currentQuery, includedTopics || []);
 
-  // 2. 히스토리가 없고 도메인 컨텍스트도 없으면 확장된 쿼리 반환
-  if (conversationHistory.length === 0 && !hasDomainContext) {
+  // 2. 히스토리/요약이 없고 도메인 컨텍스트도 없으면 확장된 쿼리 반환
+  if (conversationHistory.length === 0 && !conversationSummary && !hasDomainContext) {
     return expandedQuery;
   }
 
@@ -223,9 +235,14 @@ export async function rewriteQuery(
     // 도메인 인지 프롬프트 생성
     const systemPrompt = buildDomainAwarePrompt(options);
 
+    // 요약은 최근 대화보다 앞선 맥락이므로 맨 앞에 둔다
+    const summarySection = conversationSummary
+      ? `[대화 요약]\n${conversationSummary}\n\n`
+      : '';
+
     // 히스토리가 없는 경우 (도메인 컨텍스트만 있는 경우)
     let userPrompt: string;
-    if (conversationHistory.length === 0) {
+    if (conversationHistory.length === 0 && !conversationSummary) {
       userPrompt = `다음 질문을 도메인 맥락에 맞게 재작성하세요:
 
 [질문]
@@ -239,8 +256,8 @@ ${expandedQuery}
         .map((m) => `${m.role === 'user' ? '사용자' : '어시스턴트'}: ${m.content}`)
         .join('\n');
 
-      userPrompt = `[이전 대화]
-${recentHistory}
+      userPrompt = `${summarySection}[이전 대화]
+${recentHistory || '없음'}
 
 [현재 질문]
 ${expandedQuery}
@@ -287,3 +304,150 @@ ${expandedQuery}
     return expandedQuery;
   }
 }
+
+const MULTI_QUERY_SYSTEM_PROMPT = `당신은 검색 쿼리를 다양한 표현으로 바꾸는 전문가입니다.
+
+## 작업
+주어진 질문과 같은 정보를 찾는 서로 다른 검색 쿼리를 만드세요.
+
+## 규칙
+1. 질문의 의도와 대상을 정확히 유지
+2. 동의어, 다른 어순, 더 구체적이거나 더 일반적인 표현을 섞어 서로 겹치지 않게 작성
+3. 한 줄에 하나씩, 쿼리만 출력 (번호, 설명, 인용부호 없이)`;
+
+const HYDE_SYSTEM_PROMPT = `당신은 문서 검색을 돕기 위해 질문에 대한 가상의 답변을 작성하는 전문가입니다.
+
+## 작업
+질문에 답하는 문서의 한 단락을 작성하세요. 이 단락은 실제 문서를 찾기 위한 검색에만 사용됩니다.
+
+## 규칙
+1. 실제 안내 문서나 FAQ처럼 사실을 서술하는 문체로 작성
+2. 정확한 수치나 고유명사를 모르면 일반적인 표현으로 작성
+3. 3~5문장, 답변 단락만 출력 (설명, 제목 없이)`;
+
+/**
+ * 도메인 정보 (쿼리 확장 프롬프트용)
+ */
+function buildDomainSection(options: QueryRewriteOptions): string {
+  const { expertiseArea, domainGlossary } = options;
+  const lines: string[] = [];
+
+  if (expertiseArea) {
+    lines.push(`- 전문 분야: ${expertiseArea}`);
+  }
+  if (domainGlossary && Object.keys(domainGlossary).length > 0) {
+    lines.push(
+      ...Object.entries(domainGlossary).map(([term, def]) => `- ${term}: ${def}`)
+    );
+  }
+
+  return lines.length > 0 ? `\n\n## 도메인 정보\n${lines.join('\n')}` : '';
+}
+
+/**
+ * 질문을 N개의 다른 표현으로 생성합니다 (Multi-Query).
+ *
+ * @param query - 검색 쿼리 (재작성 이후)
+ * @param count - 생성할 표현 수
+ * @returns 다른 표현 목록 (원래 쿼리 제외, 실패 시 빈 배열)
+ */
+export async function generateQueryVariants(
+  query: string,
+  count: number,
+  options: QueryRewriteOptions = {}
+): Promise<string[]> {
+  const { trackingContext } = options;
+
+  try {
+    const response = await generateWithFallback(
+      MULTI_QUERY_SYSTEM_PROMPT + buildDomainSection(options),
+      `[질문]\n${query}\n\n[검색 쿼리 ${count}개]`,
+      {
+        temperature: 0.7,
+        maxTokens: 60 * count,
+        trackingContext: trackingContext
+          ? { ...trackingContext, featureType: 'rewrite' }
+          : undefined,
+      }
+    );
+
+    return parseQueryVariants(response, query, count);
+  } catch (error) {
+    logger.warn('Query variant generation failed', {
+      error: error instanceof Error ? error.message : String(error),
+      query,
+    });
+    return [];
+  }
+}
+
+/**
+ * 질문에 대한 가상 답변을 생성합니다 (HyDE).
+ *
+ * @returns 가상 답변 (실패 시 null)
+ */
+export async function generateHypotheticalAnswer(
+  query: string,
+  options: QueryRewriteOptions = {}
+): Promise<string | null> {
+  const { trackingContext } = options;
+
+  try {
+    const response = await generateWithFallback(
+      HYDE_SYSTEM_PROMPT + buildDomainSection(options),
+      `[질문]\n${query}\n\n[답변 단락]`,
+      {
+        temperature: 0.3,
+        maxTokens: 300,
+        trackingContext: trackingContext
+          ? { ...trackingContext, featureType: 'rewrite' }
+          : undefined,
+      }
+    );
+
+    const answer = response.trim();
+    return answer.length > 0 ? answer : null;
+  } catch (error) {
+    logger.warn('Hypothetical answer generation failed', {
+      error: error instanceof Error ? error.message : String(error),
+      query,
+    });
+    return null;
+  }
+}
+
+/**
+ * 챗봇 설정에 따라 검색 쿼리를 확장합니다.
+ * 생성에 실패하면 원래 쿼리 하나로 검색하도록 strategy를 'none'으로 반환합니다.
+ *
+ * @param searchQuery - 재작성된 검색 쿼리
+ * @param config - 챗봇 searchConfig.queryExpansion
+ */
+export async function expandQuery(
+  searchQuery: string,
+  config: QueryExpansionConfig | null | undefined,
+  options: QueryRewriteOptions = {}
+): Promise<QueryExpansion> {
+  const resolved = resolveQueryExpansionConfig(config);
+  if (!resolved) {
+    return { strategy: 'none', queries: [searchQuery] };
+  }
+
+  if (resolved.strategy === 'hyde') {
+    const hypotheticalAnswer = await generateHypotheticalAnswer(searchQuery, options);
+    return hypotheticalAnswer
+      ? { strategy: 'hyde', queries: [searchQuery], hypotheticalAnswer }
+      : { strategy: 'none', queries: [searchQuery] };
+  }
+
+  const variants = await generateQueryVariants(searchQuery, resolved.queryCount, options);
+  logger.debug('Query expanded', {
+    strategy: resolved.strategy,
+    query: searchQuery,
+    variants,
+  });
+
+  return variants.length > 0
+    ? { strategy: 'multi_query', queries: [searchQuery, ...variants] }
+    : { strategy: 'none', queries: [searchQuery] };
+}
@@ -1,6 +1,10 @@
 /**
- * LLM 기반 Re-ranking 모듈
- * Gemini Flash를 사용하여 검색 결과를 관련성 기준으로 재순위화
+ * Re-ranking 모듈
+ * 검색 결과를 관련성 기준으로 재순위화
+ *
+ * 백엔드 (RERANKER_BACKEND, 미설정 시 RERANKER_API_URL이 있으면 cross_encoder):
+ * - llm: Gemini Flash (OpenAI 폴백)로 1-10 점수 평가
+ * - cross_encoder: 셀프호스팅 Cross-Encoder 서버 (cross-encoder-reranker.ts)
  */
 
 import { generateText } from 'ai';
@@ -9,6 +13,12 @@ import { openai } from '@ai-sdk/openai';
 import { logger } from '@/lib/logger';
 import { trackTokenUsage } from '@/lib/usage/token-tracker';
 import type { SearchResult } from './retrieval';
+import { crossEncoderReranker, isCrossEncoderConfigured } from './cross-encoder-reranker';
+
+/**
+ * Re-ranker 백엔드 종류
+ */
+export type RerankerType = 'llm' | 'cross_encoder';
 
 /**
  * Re-ranking 옵션
@@ -32,13 +42,35 @@ export interface RerankOptions {
 export interface RerankResult {
   /** 재순위화된 검색 결과 */
   results: SearchResult[];
-  /** Re-ranking에 사용된 토큰 수 */
+  /** 실행된 Re-ranker */
+  reranker: RerankerType;
+  /** Re-ranking 실패로 원본 상위 결과를 반환했는지 */
+  failed?: boolean;
+  /** Re-ranking에 사용된 토큰 수 (LLM만) */
   tokensUsed?: {
     input: number;
     output: number;
   };
 }
 
+/**
+ * Re-ranker 인터페이스
+ */
+export interface Reranker {
+  type: RerankerType;
+  rerank(query: string, results: SearchResult[], options?: RerankOptions): Promise<RerankResult>;
+}
+
+/**
+ * Re-ranking 실행 판단 결과
+ */
+export interface RerankDecision {
+  rerank: boolean;
+  /** 실행할 (또는 실행했을) Re-ranker */
+  reranker: RerankerType;
+  reason: 'few_results' | 'low_top_score' | 'flat_scores' | 'well_distributed' | 'low_cost_reranker';
+}
+
 /**
  * LLM 응답에서 파싱된 점수
  */
@@ -87,11 +119,11 @@ export async function rerankWithLLM(
 
   // 결과가 없거나 적으면 그대로 반환
   if (results.length === 0) {
-    return { results: [] };
+    return { results: [], reranker: 'llm' };
   }
 
   if (results.length <= topK) {
-    return { results };
+    return { results, reranker: 'llm' };
   }
 
   const startTime = Date.now();
@@ -167,6 +199,7 @@ ${documentsText}
 
     return {
       results: rerankedResults,
+      reranker: 'llm',
       tokensUsed: llmResult.tokensUsed,
     };
   } catch (error) {
@@ -178,10 +211,41 @@ ${documentsText}
 
     return {
       results: results.slice(0, topK),
+      reranker: 'llm',
+      failed: true,
     };
   }
 }
 
+/**
+ * LLM Re-ranker
+ */
+export const llmReranker: Reranker = {
+  type: 'llm',
+  rerank: rerankWithLLM,
+};
+
+/**
+ * 설정된 Re-ranker 반환
+ * RERANKER_BACKEND로 지정하며, 미설정 시 Cross-Encoder 서버가 있으면 cross_encoder 사용
+ */
+export function getReranker(): Reranker {
+  const backend = process.env.RERANKER_BACKEND;
+
+  if (backend === 'llm') {
+    return llmReranker;
+  }
+
+  if (isCrossEncoderConfigured()) {
+    return crossEncoderReranker;
+  }
+
+  if (backend === 'cross_encoder') {
+    logger.warn('[Reranker] RERANKER_API_URL not configured, using LLM reranker');
+  }
+  return llmReranker;
+}
+
 /**
  * LLM 응답에서 점수 파싱
  */
@@ -306,17 +370,26 @@ async function generateWithFallback(
 /**
  * Re-ranking이 필요한지 판단
  *
+ * Cross-Encoder는 비용이 없고 지연이 짧아 결과가 충분하면 항상 실행하고,
+ * LLM은 점수가 낮거나 비슷해 순위가 불확실할 때만 실행한다.
+ *
  * @param results - 검색 결과
  * @param threshold - 점수 임계값 (기본: 0.7)
- * @returns Re-ranking 필요 여부
+ * @param reranker - 사용할 Re-ranker (기본: getReranker())
+ * @returns Re-ranking 필요 여부와 Re-ranker
  */
 export function shouldRerank(
   results: SearchResult[],
-  threshold: number = 0.7
-): boolean {
+  threshold: number = 0.7,
+  reranker: RerankerType = getReranker().type
+): RerankDecision {
   if (results.length <= 3) {
     // 결과가 적으면 Re-ranking 불필요
-    return false;
+    return { rerank: false, reranker, reason: 'few_results' };
+  }
+
+  if (reranker === 'cross_encoder') {
+    return { rerank: true, reranker, reason: 'low_cost_reranker' };
   }
 
   // 상위 결과의 Dense 점수가 낮거나 점수 차이가 작으면 Re-ranking 권장
@@ -324,7 +397,7 @@ export function shouldRerank(
 
   if (topDenseScore < threshold) {
     // 상위 결과도 점수가 낮으면 Re-ranking으로 더 나은 결과 선별 시도
-    return true;
+    return { rerank: true, reranker, reason: 'low_top_score' };
   }
 
   // 상위 5개의 점수 분산이 낮으면 (유사한 점수) Re-ranking 권장
@@ -333,8 +406,8 @@ export function shouldRerank(
 
   if (scoreRange < 0.1) {
     // 점수 차이가 거의 없으면 LLM이 더 정교하게 판단
-    return true;
+    return { rerank: true, reranker, reason: 'flat_scores' };
   }
 
-  return false;
+  return { rerank: false, reranker, reason: 'well_distributed' };
 }
@@ -4,17 +4,31 @@
  *
  * 검색 방식:
  * - Dense: pgvector HNSW 인덱스, 코사인 유사도
- * - Sparse: PGroonga 전문 검색, 한국어 자동 토큰화
- * - Hybrid: RRF (Reciprocal Rank Fusion, k=60) 결합
+ *   (데이터셋별 임베딩 모델로 쿼리를 임베딩하고 모델별로 검색 후 점수순 병합, embedding-models.ts)
+ * - Sparse: PGroonga 전문 검색 또는 내장 BM25 인덱스 (SPARSE_SEARCH_ENGINE, bm25.ts)
+ * - Hybrid: RRF (Reciprocal Rank Fusion, k=60) 결합, 데이터셋/소스 가중치 적용 (fusion.ts)
  *
  * Fallback:
- * - PGroonga 미설치 시 ILIKE 기반 폴백
+ * - PGroonga 미설치 시 BM25 → ILIKE 순으로 폴백
  */
 
 import { db } from '@/lib/db';
-import { chunks } from '@/drizzle/schema';
-import { sql, eq, and } from 'drizzle-orm';
-import { embedText, type EmbeddingTrackingContext } from './embedding';
+import { chunks, datasets } from '@/drizzle/schema';
+import { sql, eq, and, inArray, type SQL } from 'drizzle-orm';
+import {
+  embedText,
+  getDefaultEmbeddingModelId,
+  type EmbeddingTrackingContext,
+} from './embedding';
+import { getEmbeddingModel, queryVectorFor, vectorColumnFor } from './embedding-models';
+import { buildMetadataFilterSql, type MetadataFilter } from './metadata-filter';
+import { buildBm25SearchSql, getSparseSearchEngine, queryTerms } from './bm25';
+import {
+  weightedReciprocalRankFusion,
+  mergeWeightedResults,
+  type ScoreBreakdown,
+  type SearchWeights,
+} from './fusion';
 import { logger } from '@/lib/logger';
 
 export interface SearchResult {
@@ -31,16 +45,10 @@ export interface SearchResult {
   denseScore?: number;
   metadata: Record<string, unknown>;
   source: 'dense' | 'sparse' | 'hybrid' | 'knowledge_page';
+  /** 최종 점수 구성 (RRF 순위 기여도, 데이터셋/소스 가중치) */
+  scoreBreakdown?: ScoreBreakdown;
 }
 
-interface RankedResult {
-  chunk: SearchResult;
-  score: number;
-  /** Dense 검색 원본 점수 (0~1 범위) */
-  denseScore?: number;
-}
-
-
 /**
  * 검색 쿼리 도메인 컨텍스트
  * 동음이의어 해소를 위해 검색 쿼리에 도메인 정보를 주입할 때 사용
@@ -73,33 +81,38 @@ export function injectDomainContext(
 }
 
 const DEFAULT_LIMIT = 5;
-const RRF_K = 60; // Reciprocal Rank Fusion 상수
 
 /**
  * Hybrid Search 수행
  * Dense (임베딩) + Sparse (BM25) 검색 결과를 RRF로 결합
+ *
+ * @param filters - 메타데이터 필터 (모두 AND, Dense/Sparse 양쪽에 적용)
+ * @param denseQuery - Dense 검색에만 사용할 쿼리 (HyDE 가상 답변, 없으면 query)
  */
 export async function hybridSearch(
   tenantId: string,
   query: string,
   limit: number = DEFAULT_LIMIT,
   trackingContext?: EmbeddingTrackingContext,
-  domainContext?: DomainContext
+  domainContext?: DomainContext,
+  filters: MetadataFilter[] = [],
+  denseQuery?: string
 ): Promise<SearchResult[]> {
   const startTime = Date.now();
 
   // 도메인 컨텍스트 주입 (동음이의어 해소용)
   const enrichedQuery = injectDomainContext(query, domainContext);
+  const filterSql = buildMetadataFilterSql(filters);
 
   try {
     // 병렬로 두 검색 수행
     const [denseResults, sparseResults] = await Promise.all([
-      denseSearch(tenantId, enrichedQuery, limit * 2, trackingContext),
-      sparseSearch(tenantId, enrichedQuery, limit * 2),
+      denseSearch(tenantId, denseQuery ?? enrichedQuery, limit * 2, filterSql, trackingContext),
+      sparseSearch(tenantId, enrichedQuery, limit * 2, filterSql),
     ]);
 
     // RRF로 결과 병합
-    const hybridResults = reciprocalRankFusion(
+    const hybridResults = weightedReciprocalRankFusion(
       denseResults,
       sparseResults,
       limit
@@ -110,9 +123,11 @@ export async function hybridSearch(
       tenantId,
       queryLength: query.length,
       enrichedQuery: enrichedQuery !== query ? enrichedQuery : undefined,
+      hyde: !!denseQuery,
       denseCount: denseResults.length,
       sparseCount: sparseResults.length,
       hybridCount: hybridResults.length,
+      filterCount: filters.length,
       duration,
     });
 
@@ -130,6 +145,10 @@ export async function hybridSearch(
 /**
  * 다중 데이터셋 Hybrid Search 수행
  * 특정 데이터셋들에서만 검색
+ *
+ * @param filters - 메타데이터 필터 (모두 AND, Dense/Sparse 양쪽에 적용)
+ * @param datasetWeights - 데이터셋 ID별 가중치 (chatbot_datasets.weight, 없으면 1)
+ * @param denseQuery - Dense 검색에만 사용할 쿼리 (HyDE 가상 답변, 없으면 query)
  */
 export async function hybridSearchMultiDataset(
   tenantId: string,
@@ -137,7 +156,10 @@ export async function hybridSearchMultiDataset(
   query: string,
   limit: number = DEFAULT_LIMIT,
   trackingContext?: EmbeddingTrackingContext,
-  domainContext?: DomainContext
+  domainContext?: DomainContext,
+  filters: MetadataFilter[] = [],
+  datasetWeights: Record<string, number> = {},
+  denseQuery?: string
 ): Promise<SearchResult[]> {
   const startTime = Date.now();
 
@@ -148,19 +170,28 @@ export async function hybridSearchMultiDataset(
 
   // 도메인 컨텍스트 주입 (동음이의어 해소용)
   const enrichedQuery = injectDomainContext(query, domainContext);
+  const filterSql = buildMetadataFilterSql(filters);
 
   try {
     // 병렬로 두 검색 수행
     const [denseResults, sparseResults] = await Promise.all([
-      denseSearchMultiDataset(tenantId, datasetIds, enrichedQuery, limit * 2, trackingContext),
-      sparseSearchMultiDataset(tenantId, datasetIds, enrichedQuery, limit * 2),
+      denseSearchMultiDataset(
+        tenantId,
+        datasetIds,
+        denseQuery ?? enrichedQuery,
+        limit * 2,
+        filterSql,
+        trackingContext
+      ),
+      sparseSearchMultiDataset(tenantId, datasetIds, enrichedQuery, limit * 2, filterSql),
     ]);
 
-    // RRF로 결과 병합
-    const hybridResults = reciprocalRankFusion(
+    // 데이터셋 가중치 RRF로 결과 병합
+    const hybridResults = weightedReciprocalRankFusion(
       denseResults,
       sparseResults,
-      limit
+      limit,
+      datasetWeights
     );
 
     const duration = Date.now() - startTime;
@@ -171,15 +202,18 @@ export async function hybridSearchMultiDataset(
       datasetIds,
       searchQuery: query, // 원본 쿼리
       enrichedQuery: enrichedQuery !== query ? enrichedQuery : undefined, // 도메인 컨텍스트 적용 시에만
+      hyde: !!denseQuery,
       queryLength: query.length,
       denseCount: denseResults.length,
       sparseCount: sparseResults.length,
       hybridCount: hybridResults.length,
+      filterCount: filters.length,
       duration,
       // 상위 3개 결과의 점수와 내용 미리보기
       topResults: hybridResults.slice(0, 3).map((r, i) => ({
         rank: i + 1,
         score: r.score,
+        datasetWeight: r.scoreBreakdown?.datasetWeight,
         contentPreview: r.content.slice(0, 100),
         source: r.source,
       })),
@@ -203,49 +237,32 @@ export async function hybridSearchMultiDataset(
 
 /**
  * Dense Search (벡터 유사도 검색)
+ * 테넌트 데이터셋에서 사용 중인 임베딩 모델마다 검색 후 점수순으로 병합
  */
 async function denseSearch(
   tenantId: string,
   query: string,
   limit: number,
+  filterSql: SQL,
   trackingContext?: EmbeddingTrackingContext
 ): Promise<SearchResult[]> {
   try {
-    // 쿼리 임베딩 생성
-    const queryEmbedding = await embedText(query, trackingContext);
-    const embeddingStr = `[${queryEmbedding.join(',')}]`;
+    const modelRows = await db
+      .selectDistinct({ embeddingModel: datasets.embeddingModel })
+      .from(datasets)
+      .where(eq(datasets.tenantId, tenantId));
+    const modelIds = new Set([
+      getDefaultEmbeddingModelId(),
+      ...modelRows.map((row) => row.embeddingModel),
+    ]);
 
-    // pgvector 코사인 유사도 검색
-    const results = await db.execute(sql`
-      SELECT
-        id,
-        document_id,
-        content,
-        metadata,
-        1 - (embedding <=> ${embeddingStr}::vector) as score
-      FROM chunks
-      WHERE tenant_id = ${tenantId}
-        AND status = 'approved'
-        AND is_active = true
-      ORDER BY embedding <=> ${embeddingStr}::vector
-      LIMIT ${limit}
-    `);
+    const resultLists = await Promise.all(
+      [...modelIds].map((modelId) =>
+        denseSearchByModel(tenantId, modelId, query, limit, filterSql, trackingContext)
+      )
+    );
 
-    return (results as unknown as Array<{
-      id: string;
-      document_id: string;
-      content: string;
-      metadata: Record<string, unknown>;
-      score: number;
-    }>).map((row) => ({
-      id: row.id,
-      chunkId: row.id,
-      documentId: row.document_id,
-      content: row.content,
-      score: Number(row.score),
-      metadata: row.metadata || {},
-      source: 'dense' as const,
-    }));
+    return mergeDenseResults(resultLists, limit);
   } catch (error) {
     logger.error(
       'Dense search failed',
@@ -256,6 +273,83 @@ async function denseSearch(
   }
 }
 
+/**
+ * 단일 임베딩 모델 Dense Search
+ * 쿼리를 해당 모델로 임베딩하고, 같은 모델로 임베딩된 청크만 검색
+ *
+ * @param datasetIds - 검색할 데이터셋 (없으면 테넌트 전체)
+ */
+async function denseSearchByModel(
+  tenantId: string,
+  modelId: string,
+  query: string,
+  limit: number,
+  filterSql: SQL,
+  trackingContext?: EmbeddingTrackingContext,
+  datasetIds?: string[]
+): Promise<SearchResult[]> {
+  const model = getEmbeddingModel(modelId);
+
+  // 쿼리 임베딩 생성
+  const queryEmbedding = await embedText(query, trackingContext, model.id);
+  const embeddingColumn = vectorColumnFor(sql`embedding`, model);
+  const queryVector = queryVectorFor(queryEmbedding, model);
+  const datasetSql = datasetIds
+    ? sql`AND dataset_id = ANY(${`{${datasetIds.join(',')}}`}::uuid[])`
+    : sql``;
+
+  // pgvector 코사인 유사도 검색
+  const results = await db.execute(sql`
+    SELECT
+      id,
+      document_id,
+      dataset_id,
+      content,
+      metadata,
+      1 - (${embeddingColumn} <=> ${queryVector}) as score
+    FROM chunks
+    WHERE tenant_id = ${tenantId}
+      ${datasetSql}
+      AND embedding_model = ${model.id}
+      AND status = 'approved'
+      AND is_active = true
+      ${filterSql}
+    ORDER BY ${embeddingColumn} <=> ${queryVector}
+    LIMIT ${limit}
+  `);
+
+  return (results as unknown as Array<{
+    id: string;
+    document_id: string;
+    dataset_id: string | null;
+    content: string;
+    metadata: Record<string, unknown>;
+    score: number;
+  }>).map((row) => ({
+    id: row.id,
+    chunkId: row.id,
+    documentId: row.document_id,
+    datasetId: row.dataset_id ?? undefined,
+    content: row.content,
+    score: Number(row.score),
+    metadata: row.metadata || {},
+    source: 'dense' as const,
+  }));
+}
+
+/**
+ * 모델별 Dense 결과 병합 (코사인 유사도 내림차순)
+ */
+function mergeDenseResults(resultLists: SearchResult[][], limit: number): SearchResult[] {
+  if (resultLists.length === 1) {
+    return resultLists[0];
+  }
+  return resultLists
+    .flat()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
 /**
  * Sparse Search (PGroonga 전문 검색)
  *
@@ -269,8 +363,13 @@ async function denseSearch(
 async function sparseSearch(
   tenantId: string,
   query: string,
-  limit: number
+  limit: number,
+  filterSql: SQL
 ): Promise<SearchResult[]> {
+  if (getSparseSearchEngine() === 'bm25') {
+    return bm25Search(tenantId, null, query, limit, filterSql);
+  }
+
   try {
     // PGroonga 전문 검색 (한국어 자동 토큰화)
     // pgroonga_score()는 관련성 점수 반환 (Term Frequency 기반)
@@ -285,6 +384,7 @@ async function sparseSearch(
       WHERE tenant_id = ${tenantId}
         AND status = 'approved'
         AND is_active = true
+        ${filterSql}
         AND content &@~ ${query}
       ORDER BY score DESC
       LIMIT ${limit}
@@ -306,12 +406,12 @@ async function sparseSearch(
       source: 'sparse' as const,
     }));
   } catch (error) {
-    // PGroonga 미설치 시 ILIKE 폴백
+    // PGroonga 미설치 시 BM25 폴백
     logger.warn(
-      'PGroonga search failed, falling back to ILIKE',
+      'PGroonga search failed, falling back to BM25',
       { tenantId, error: error instanceof Error ? error.message : 'Unknown' }
     );
-    return sparseSearchFallback(tenantId, query, limit);
+    return bm25Search(tenantId, null, query, limit, filterSql);
   }
 }
 
@@ -322,7 +422,8 @@ async function sparseSearch(
 async function sparseSearchFallback(
   tenantId: string,
   query: string,
-  limit: number
+  limit: number,
+  filterSql: SQL
 ): Promise<SearchResult[]> {
   try {
     const results = await db.execute(sql`
@@ -336,6 +437,7 @@ async function sparseSearchFallback(
       WHERE tenant_id = ${tenantId}
         AND status = 'approved'
         AND is_active = true
+        ${filterSql}
         AND content ILIKE ${'%' + query + '%'}
       ORDER BY LENGTH(content) ASC
       LIMIT ${limit}
@@ -368,55 +470,36 @@ async function sparseSearchFallback(
 
 /**
  * 다중 데이터셋 Dense Search (벡터 유사도 검색)
+ * 데이터셋을 임베딩 모델별로 묶어 검색 후 점수순으로 병합
  */
 async function denseSearchMultiDataset(
   tenantId: string,
   datasetIds: string[],
   query: string,
   limit: number,
+  filterSql: SQL,
   trackingContext?: EmbeddingTrackingContext
 ): Promise<SearchResult[]> {
   try {
-    // 쿼리 임베딩 생성
-    const queryEmbedding = await embedText(query, trackingContext);
-    const embeddingStr = `[${queryEmbedding.join(',')}]`;
-    const datasetIdsArray = `{${datasetIds.join(',')}}`;
+    const datasetRows = await db
+      .select({ id: datasets.id, embeddingModel: datasets.embeddingModel })
+      .from(datasets)
+      .where(and(eq(datasets.tenantId, tenantId), inArray(datasets.id, datasetIds)));
+
+    const datasetIdsByModel = new Map<string, string[]>();
+    for (const row of datasetRows) {
+      const ids = datasetIdsByModel.get(row.embeddingModel) ?? [];
+      ids.push(row.id);
+      datasetIdsByModel.set(row.embeddingModel, ids);
+    }
 
-    // pgvector 코사인 유사도 검색 (다중 데이터셋)
-    const results = await db.execute(sql`
-      SELECT
-        id,
-        document_id,
-        dataset_id,
-        content,
-        metadata,
-        1 - (embedding <=> ${embeddingStr}::vector) as score
-      FROM chunks
-      WHERE tenant_id = ${tenantId}
-        AND dataset_id = ANY(${datasetIdsArray}::uuid[])
-        AND status = 'approved'
-        AND is_active = true
-      ORDER BY embedding <=> ${embeddingStr}::vector
-      LIMIT ${limit}
-    `);
+    const resultLists = await Promise.all(
+      [...datasetIdsByModel].map(([modelId, ids]) =>
+        denseSearchByModel(tenantId, modelId, query, limit, filterSql, trackingContext, ids)
+      )
+    );
 
-    return (results as unknown as Array<{
-      id: string;
-      document_id: string;
-      dataset_id: string;
-      content: string;
-      metadata: Record<string, unknown>;
-      score: number;
-    }>).map((row) => ({
-      id: row.id,
-      chunkId: row.id,
-      documentId: row.document_id,
-      datasetId: row.dataset_id,
-      content: row.content,
-      score: Number(row.score),
-      metadata: row.metadata || {},
-      source: 'dense' as const,
-    }));
+    return mergeDenseResults(resultLists, limit);
   } catch (error) {
     logger.error(
       'Multi-dataset dense search failed',
@@ -437,8 +520,13 @@ async function sparseSearchMultiDataset(
   tenantId: string,
   datasetIds: string[],
   query: string,
-  limit: number
+  limit: number,
+  filterSql: SQL
 ): Promise<SearchResult[]> {
+  if (getSparseSearchEngine() === 'bm25') {
+    return bm25Search(tenantId, datasetIds, query, limit, filterSql);
+  }
+
   try {
     const datasetIdsArray = `{${datasetIds.join(',')}}`;
 
@@ -456,6 +544,7 @@ async function sparseSearchMultiDataset(
         AND dataset_id = ANY(${datasetIdsArray}::uuid[])
         AND status = 'approved'
         AND is_active = true
+        ${filterSql}
         AND content &@~ ${query}
       ORDER BY score DESC
       LIMIT ${limit}
@@ -479,12 +568,12 @@ async function sparseSearchMultiDataset(
       source: 'sparse' as const,
     }));
   } catch (error) {
-    // PGroonga 미설치 시 ILIKE 폴백
+    // PGroonga 미설치 시 BM25 폴백
     logger.warn(
-      'PGroonga multi-dataset search failed, falling back to ILIKE',
+      'PGroonga multi-dataset search failed, falling back to BM25',
       { tenantId, datasetIds, error: error instanceof Error ? error.message : 'Unknown' }
     );
-    return sparseSearchMultiDatasetFallback(tenantId, datasetIds, query, limit);
+    return bm25Search(tenantId, datasetIds, query, limit, filterSql);
   }
 }
 
@@ -496,7 +585,8 @@ async function sparseSearchMultiDatasetFallback(
   tenantId: string,
   datasetIds: string[],
   query: string,
-  limit: number
+  limit: number,
+  filterSql: SQL
 ): Promise<SearchResult[]> {
   try {
     const datasetIdsArray = `{${datasetIds.join(',')}}`;
@@ -514,6 +604,7 @@ async function sparseSearchMultiDatasetFallback(
         AND dataset_id = ANY(${datasetIdsArray}::uuid[])
         AND status = 'approved'
         AND is_active = true
+        ${filterSql}
         AND content ILIKE ${'%' + query + '%'}
       ORDER BY LENGTH(content) ASC
       LIMIT ${limit}
@@ -547,53 +638,60 @@ async function sparseSearchMultiDatasetFallback(
 }
 
 /**
- * Reciprocal Rank Fusion (RRF) 알고리즘
- * 두 검색 결과를 순위 기반으로 병합
+ * 내장 BM25 인덱스 검색 (chunk_terms)
+ * 인덱스 테이블이 없는 등 검색에 실패하면 ILIKE 폴백
  *
- * @returns SearchResult[] - RRF 점수(score)와 Dense 원본 점수(denseScore) 모두 포함
+ * @param datasetIds - null이면 테넌트 전체 검색
  */
-function reciprocalRankFusion(
-  denseResults: SearchResult[],
-  sparseResults: SearchResult[],
-  limit: number
-): SearchResult[] {
-  const scores = new Map<string, RankedResult>();
-
-  // Dense 결과 점수 계산 - 원본 점수도 보존
-  denseResults.forEach((result, rank) => {
-    const rrfScore = 1 / (RRF_K + rank + 1);
-    scores.set(result.id, {
-      chunk: { ...result, source: 'hybrid' },
-      score: rrfScore,
-      denseScore: result.score, // Dense 원본 점수 보존 (코사인 유사도)
-    });
-  });
-
-  // Sparse 결과 점수 합산
-  sparseResults.forEach((result, rank) => {
-    const rrfScore = 1 / (RRF_K + rank + 1);
-    const existing = scores.get(result.id);
-
-    if (existing) {
-      existing.score += rrfScore;
-    } else {
-      scores.set(result.id, {
-        chunk: { ...result, source: 'hybrid' },
-        score: rrfScore,
-        // Sparse-only 결과는 denseScore 없음
-      });
-    }
-  });
+async function bm25Search(
+  tenantId: string,
+  datasetIds: string[] | null,
+  query: string,
+  limit: number,
+  filterSql: SQL
+): Promise<SearchResult[]> {
+  const terms = queryTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
 
-  // 점수 기준 정렬 및 상위 N개 반환
-  return Array.from(scores.values())
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
-    .map((item) => ({
-      ...item.chunk,
-      score: item.score,
-      denseScore: item.denseScore, // Dense 원본 점수 포함
+  try {
+    const results = await db.execute(
+      buildBm25SearchSql({
+        tenantId,
+        datasetIds: datasetIds ?? undefined,
+        terms,
+        limit,
+        filterSql,
+      })
+    );
+
+    return (results as unknown as Array<{
+      id: string;
+      document_id: string;
+      dataset_id: string | null;
+      content: string;
+      metadata: Record<string, unknown>;
+      score: number;
+    }>).map((row) => ({
+      id: row.id,
+      chunkId: row.id,
+      documentId: row.document_id,
+      datasetId: row.dataset_id ?? undefined,
+      content: row.content,
+      score: Number(row.score),
+      metadata: row.metadata || {},
+      source: 'sparse' as const,
     }));
+  } catch (error) {
+    logger.warn(
+      'BM25 search failed, falling back to ILIKE',
+      { tenantId, datasetIds, error: error instanceof Error ? error.message : 'Unknown' }
+    );
+    return datasetIds
+      ? sparseSearchMultiDatasetFallback(tenantId, datasetIds, query, limit, filterSql)
+      : sparseSearchFallback(tenantId, query, limit, filterSql);
+  }
 }
 
 /**
@@ -604,7 +702,7 @@ export async function vectorSearch(
   query: string,
   limit: number = DEFAULT_LIMIT
 ): Promise<SearchResult[]> {
-  return denseSearch(tenantId, query, limit);
+  return denseSearch(tenantId, query, limit, sql``);
 }
 
 /**
@@ -732,9 +830,11 @@ export async function searchKnowledgePages(
   const startTime = Date.now();
 
   try {
-    // 쿼리 임베딩 생성
-    const queryEmbedding = await embedText(query, trackingContext);
-    const embeddingStr = `[${queryEmbedding.join(',')}]`;
+    // 쿼리 임베딩 생성 (Knowledge Pages는 기본 임베딩 모델로 발행)
+    const model = getEmbeddingModel(getDefaultEmbeddingModelId());
+    const queryEmbedding = await embedText(query, trackingContext, model.id);
+    const embeddingColumn = vectorColumnFor(sql`v.embedding`, model);
+    const queryVector = queryVectorFor(queryEmbedding, model);
 
     // knowledge_page_versions의 'published' 버전만 검색
     // Draft/Published 분리 아키텍처: 수정 중에도 기존 발행 버전으로 검색 가능
@@ -745,13 +845,14 @@ export async function searchKnowledgePages(
         v.title,
         v.path,
         v.content,
-        1 - (v.embedding <=> ${embeddingStr}::vector) as score
+        1 - (${embeddingColumn} <=> ${queryVector}) as score
       FROM knowledge_page_versions v
       INNER JOIN knowledge_pages p ON p.id = v.page_id
       WHERE p.chatbot_id = ${chatbotId}::uuid
         AND v.version_type = 'published'
         AND v.embedding IS NOT NULL
-      ORDER BY v.embedding <=> ${embeddingStr}::vector
+        AND v.embedding_model = ${model.id}
+      ORDER BY ${embeddingColumn} <=> ${queryVector}
       LIMIT ${limit}
     `);
 
@@ -802,7 +903,7 @@ export async function searchKnowledgePages(
  * Chunks + Knowledge Pages 통합 검색
  *
  * 기존 청크 검색 결과와 Knowledge Pages 검색 결과를 병합합니다.
- * RRF 알고리즘을 사용하여 두 결과를 통합합니다.
+ * RRF 알고리즘을 사용하여 두 결과를 통합하며, 데이터셋/소스 가중치를 적용합니다.
  *
  * @param tenantId - 테넌트 ID
  * @param chatbotId - 챗봇 ID
@@ -810,6 +911,10 @@ export async function searchKnowledgePages(
  * @param query - 검색 쿼리
  * @param limit - 반환할 최대 결과 수
  * @param trackingContext - 임베딩 추적 컨텍스트
+ * @param filters - 메타데이터 필터 (문서 청크에만 적용)
+ * @param weights - 데이터셋별 가중치 및 청크/Knowledge Page 소스 가중치
+ * @param denseQuery - Dense 검색(청크/Knowledge Page)에만 사용할 쿼리 (HyDE 가상 답변)
+ * @param documentsOnly - true면 Knowledge Page를 제외하고 문서 청크만 검색 (요청별 문서 필터 지정 시)
  */
 export async function searchWithKnowledgePages(
   tenantId: string,
@@ -818,7 +923,11 @@ export async function searchWithKnowledgePages(
   query: string,
   limit: number = DEFAULT_LIMIT,
   trackingContext?: EmbeddingTrackingContext,
-  domainContext?: DomainContext
+  domainContext?: DomainContext,
+  filters: MetadataFilter[] = [],
+  weights: SearchWeights = {},
+  denseQuery?: string,
+  documentsOnly: boolean = false
 ): Promise<SearchResult[]> {
   const startTime = Date.now();
 
@@ -830,14 +939,35 @@ export async function searchWithKnowledgePages(
     const [chunkResults, pageResults] = await Promise.all([
       // 기존 청크 검색 (데이터셋이 있는 경우)
       datasetIds.length > 0
-        ? hybridSearchMultiDataset(tenantId, datasetIds, query, limit, trackingContext, domainContext)
-        : hybridSearch(tenantId, query, limit, trackingContext, domainContext),
-      // Knowledge Pages 검색 (enrichedQuery 사용)
-      searchKnowledgePages(chatbotId, enrichedQuery, limit, trackingContext),
+        ? hybridSearchMultiDataset(
+            tenantId,
+            datasetIds,
+            query,
+            limit,
+            trackingContext,
+            domainContext,
+            filters,
+            weights.datasets,
+            denseQuery
+          )
+        : hybridSearch(
+            tenantId,
+            query,
+            limit,
+            trackingContext,
+            domainContext,
+            filters,
+            denseQuery
+          ),
+      // Knowledge Pages 검색 (enrichedQuery 사용, Dense 검색이므로 HyDE 적용)
+      // 챗봇 기본 필터는 문서 청크에만 적용되고, 요청별 문서 필터가 있을 때만 페이지를 제외
+      documentsOnly
+        ? Promise.resolve([])
+        : searchKnowledgePages(chatbotId, denseQuery ?? enrichedQuery, limit, trackingContext),
     ]);
 
-    // 두 결과를 RRF로 병합
-    const mergedResults = mergeSearchResults(chunkResults, pageResults, limit);
+    // 두 결과를 소스 가중치 RRF로 병합
+    const mergedResults = mergeWeightedResults(chunkResults, pageResults, limit, weights);
 
     const duration = Date.now() - startTime;
     logger.info('Combined search completed', {
@@ -848,6 +978,8 @@ export async function searchWithKnowledgePages(
       chunkCount: chunkResults.length,
       pageCount: pageResults.length,
       mergedCount: mergedResults.length,
+      chunkWeight: weights.chunks,
+      knowledgePageWeight: weights.knowledgePages,
       duration,
     });
 
@@ -862,6 +994,66 @@ export async function searchWithKnowledgePages(
   }
 }
 
+/**
+ * 검색 단계별 결과 (검색 디버거용)
+ */
+export interface SearchTrace {
+  /** 도메인 컨텍스트가 주입된 검색 쿼리 */
+  enrichedQuery: string;
+  /** Dense 검색 결과 (코사인 유사도 순) */
+  dense: SearchResult[];
+  /** Sparse 검색 결과 (PGroonga 점수 순) */
+  sparse: SearchResult[];
+  /** Knowledge Page 검색 결과 */
+  knowledgePages: SearchResult[];
+  /** Dense + Sparse 데이터셋 가중치 RRF 결과 */
+  fused: SearchResult[];
+  /** 청크 + Knowledge Page 최종 병합 결과 */
+  merged: SearchResult[];
+}
+
+/**
+ * searchWithKnowledgePages와 같은 검색을 수행하되 단계별 결과를 모두 반환
+ *
+ * 챗봇 응답에는 사용하지 않고, 콘솔 검색 디버거에서
+ * "왜 이 청크가 선택됐는지" 확인하는 용도로만 사용한다.
+ */
+export async function traceSearchStages(
+  tenantId: string,
+  chatbotId: string | null,
+  datasetIds: string[],
+  query: string,
+  limit: number = DEFAULT_LIMIT,
+  trackingContext?: EmbeddingTrackingContext,
+  domainContext?: DomainContext,
+  filters: MetadataFilter[] = [],
+  weights: SearchWeights = {},
+  denseQuery?: string,
+  documentsOnly: boolean = false
+): Promise<SearchTrace> {
+  const enrichedQuery = injectDomainContext(query, domainContext);
+  const filterSql = buildMetadataFilterSql(filters);
+  const denseSearchQuery = denseQuery ?? enrichedQuery;
+
+  const [dense, sparse, knowledgePages] = await Promise.all([
+    datasetIds.length > 0
+      ? denseSearchMultiDataset(tenantId, datasetIds, denseSearchQuery, limit * 2, filterSql, trackingContext)
+      : denseSearch(tenantId, denseSearchQuery, limit * 2, filterSql, trackingContext),
+    datasetIds.length > 0
+      ? sparseSearchMultiDataset(tenantId, datasetIds, enrichedQuery, limit * 2, filterSql)
+      : sparseSearch(tenantId, enrichedQuery, limit * 2, filterSql),
+    // 문서 전용 검색이면 페이지는 검색하지 않음 (searchWithKnowledgePages와 동일)
+    chatbotId && !documentsOnly
+      ? searchKnowledgePages(chatbotId, denseSearchQuery, limit, trackingContext)
+      : Promise.resolve([]),
+  ]);
+
+  const fused = weightedReciprocalRankFusion(dense, sparse, limit, weights.datasets);
+  const merged = chatbotId ? mergeWeightedResults(fused, knowledgePages, limit, weights) : fused;
+
+  return { enrichedQuery, dense, sparse, knowledgePages, fused, merged };
+}
+
 /**
  * 챗봇에 연결된 인덱싱된 Knowledge Pages 조회 (샘플링)
  *
@@ -910,41 +1102,3 @@ export async function getIndexedKnowledgePagesByChatbot(
     return [];
   }
 }
-
-/**
- * 두 검색 결과를 RRF로 병합
- */
-function mergeSearchResults(
-  chunkResults: SearchResult[],
-  pageResults: SearchResult[],
-  limit: number
-): SearchResult[] {
-  const scores = new Map<string, { result: SearchResult; score: number }>();
-
-  // Chunk 결과 점수 계산
-  chunkResults.forEach((result, rank) => {
-    const rrfScore = 1 / (RRF_K + rank + 1);
-    scores.set(`chunk_${result.id}`, {
-      result,
-      score: rrfScore,
-    });
-  });
-
-  // Knowledge Page 결과 점수 계산 (별도 키로 중복 방지)
-  pageResults.forEach((result, rank) => {
-    const rrfScore = 1 / (RRF_K + rank + 1);
-    scores.set(`page_${result.id}`, {
-      result,
-      score: rrfScore,
-    });
-  });
-
-  // 점수 기준 정렬 및 상위 N개 반환
-  return Array.from(scores.values())
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
-    .map((item) => ({
-      ...item.result,
-      score: item.score,
-    }));
-}
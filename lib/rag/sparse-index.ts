@@ -0,0 +1,100 @@
+/**
+ * BM25 Sparse 인덱스 관리
+ *
+ * 청크 저장/수정/복사 시 chunk_terms와 chunks.sparse_length를 갱신한다.
+ * 인덱싱 실패는 Dense 검색과 PGroonga 검색에 영향을 주지 않도록 로그만 남긴다.
+ */
+
+import { db, chunks, chunkTerms } from '@/lib/db';
+import { inArray, sql } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { termFrequencies } from './bm25';
+
+// chunk_terms 배치 삽입 크기 (행 단위)
+const TERM_INSERT_BATCH_SIZE = 1000;
+
+export interface SparseIndexTarget {
+  id: string;
+  tenantId: string;
+  content: string;
+}
+
+/**
+ * 청크 BM25 인덱싱 (기존 term은 교체)
+ *
+ * @returns 인덱싱된 청크 수 (실패 시 0)
+ */
+export async function indexChunkTerms(targets: SparseIndexTarget[]): Promise<number> {
+  if (targets.length === 0) return 0;
+
+  try {
+    const termRows: Array<typeof chunkTerms.$inferInsert> = [];
+    const lengths: Array<{ id: string; length: number }> = [];
+
+    for (const target of targets) {
+      const { terms, length } = termFrequencies(target.content);
+      lengths.push({ id: target.id, length });
+      for (const [term, tf] of terms) {
+        termRows.push({
+          chunkId: target.id,
+          tenantId: target.tenantId,
+          term,
+          tf,
+        });
+      }
+    }
+
+    const chunkIds = targets.map((t) => t.id);
+    await db.delete(chunkTerms).where(inArray(chunkTerms.chunkId, chunkIds));
+
+    for (let i = 0; i < termRows.length; i += TERM_INSERT_BATCH_SIZE) {
+      await db.insert(chunkTerms).values(termRows.slice(i, i + TERM_INSERT_BATCH_SIZE));
+    }
+
+    // 문서 길이는 term 저장 후 기록 (sparse_length가 있어야 BM25 검색 대상)
+    const values = sql.join(
+      lengths.map(({ id, length }) => sql`(${id}::uuid, ${length}::int)`),
+      sql`, `
+    );
+    await db.execute(sql`
+      UPDATE chunks
+      SET sparse_length = v.length
+      FROM (VALUES ${values}) AS v(id, length)
+      WHERE chunks.id = v.id
+    `);
+
+    return targets.length;
+  } catch (error) {
+    logger.error('Failed to index chunk terms', error instanceof Error ? error : undefined, {
+      chunkCount: targets.length,
+    });
+    return 0;
+  }
+}
+
+/**
+ * 청크 ID로 본문을 조회해 BM25 인덱싱 (내용 수정/복사 후 호출)
+ */
+export async function reindexChunkTerms(chunkIds: string[]): Promise<number> {
+  if (chunkIds.length === 0) return 0;
+
+  try {
+    const targets = await db
+      .select({
+        id: chunks.id,
+        tenantId: chunks.tenantId,
+        content: chunks.content,
+      })
+      .from(chunks)
+      .where(inArray(chunks.id, chunkIds));
+
+    return indexChunkTerms(targets);
+  } catch (error) {
+    logger.error(
+      'Failed to load chunks for sparse indexing',
+      error instanceof Error ? error : undefined,
+      { chunkCount: chunkIds.length }
+    );
+    return 0;
+  }
+}
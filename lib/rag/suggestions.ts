@@ -0,0 +1,103 @@
+/**
+ * 후속 질문 제안
+ *
+ * DOMAIN_QUERY 답변 후, 검색된 청크와 인접 Knowledge Page를 근거로
+ * 사용자가 이어서 물어볼 만한 질문 2~3개를 만든다.
+ * 프롬프트 구성과 LLM 출력 파싱만 담당한다 (DB/서버 의존성 없음).
+ */
+
+/**
+ * 제안 생성 근거 (검색 결과 요약)
+ */
+export interface SuggestionContext {
+  title?: string;
+  content: string;
+}
+
+export const MIN_SUGGESTIONS = 2;
+export const MAX_SUGGESTIONS = 3;
+
+// 제안 질문 최대 길이 (칩 한 줄에 표시 가능한 정도)
+const MAX_SUGGESTION_LENGTH = 60;
+// 근거 청크당 최대 길이
+const MAX_CONTEXT_LENGTH = 500;
+
+export const SUGGESTION_SYSTEM_PROMPT = `당신은 고객이 이어서 궁금해할 질문을 제안하는 전문가입니다.
+
+## 작업
+사용자의 질문과 답변, 참고 문서를 보고 사용자가 다음에 물어볼 만한 질문을 ${MAX_SUGGESTIONS}개 제안하세요.
+
+## 규칙
+1. 참고 문서나 관련 페이지에서 답할 수 있는 질문만 제안
+2. 이미 답변한 내용을 다시 묻지 않기
+3. 사용자 입장에서 짧고 자연스러운 한국어 질문 (${MAX_SUGGESTION_LENGTH}자 이내)
+4. 한 줄에 질문 하나씩, 번호나 설명 없이 질문만 출력`;
+
+/**
+ * 제안 생성 프롬프트
+ *
+ * @param relatedTopics - 인접 Knowledge Page 제목 (검색되지 않았지만 답할 수 있는 주제)
+ */
+export function buildSuggestionPrompt(
+  question: string,
+  answer: string,
+  contexts: SuggestionContext[],
+  relatedTopics: string[] = []
+): string {
+  const contextSection = contexts
+    .map((c, i) => {
+      const content = c.content.slice(0, MAX_CONTEXT_LENGTH);
+      return c.title ? `[${i + 1}] ${c.title}\n${content}` : `[${i + 1}] ${content}`;
+    })
+    .join('\n\n');
+
+  const topicSection =
+    relatedTopics.length > 0 ? `\n\n[관련 페이지]\n${relatedTopics.map((t) => `- ${t}`).join('\n')}` : '';
+
+  return `[참고 문서]
+${contextSection}${topicSection}
+
+[사용자 질문]
+${question}
+
+[답변]
+${answer}
+
+[후속 질문]`;
+}
+
+/**
+ * 비교용 정규화 (공백/문장부호 제거)
+ */
+function normalizeQuestion(text: string): string {
+  return text.replace(/[\s?!.。？！]/g, '').toLowerCase();
+}
+
+/**
+ * LLM 출력 → 제안 질문 목록
+ * 번호/글머리표/따옴표를 제거하고, 현재 질문과 같거나 중복된 질문은 제외한다.
+ * 유효한 질문이 MIN_SUGGESTIONS개 미만이면 빈 배열을 반환한다.
+ */
+export function parseSuggestions(raw: string, question: string): string[] {
+  const seen = new Set([normalizeQuestion(question)]);
+  const suggestions: string[] = [];
+
+  for (const line of raw.split('\n')) {
+    const text = line
+      .trim()
+      .replace(/^(?:[-*•·]|\d+[.)]|Q\d*[.:)])\s*/i, '')
+      .replace(/^["'“”‘’]+|["'“”‘’]+$/g, '')
+      .trim();
+
+    if (text.length < 4 || text.length > MAX_SUGGESTION_LENGTH) continue;
+
+    const key = normalizeQuestion(text);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    suggestions.push(text);
+    if (suggestions.length >= MAX_SUGGESTIONS) break;
+  }
+
+  return suggestions.length >= MIN_SUGGESTIONS ? suggestions : [];
+}
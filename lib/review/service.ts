@@ -20,8 +20,12 @@ import type {
   ChunkStatus,
   ChunkMetrics,
   SearchabilityStatus,
+  ChunkReviewFlag,
 } from './types';
 import { createChunkMetrics, determineSearchability } from './utils';
+import { invalidateCacheForDocuments } from '@/lib/chat/cache';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
+import { reindexChunkTerms } from '@/lib/rag/sparse-index';
 
 // 상수 정의
 const MAX_LIMIT = 100;
@@ -71,6 +75,7 @@ export async function getChunkList(
     minContentLength,
     maxContentLength,
     includeMetrics = false,
+    flagged,
   } = filter;
 
   // limit 상한 적용
@@ -78,8 +83,8 @@ export async function getChunkList(
 
   const offset = (page - 1) * safeLimit;
 
-  // 조건 구성
-  const conditions = [eq(chunks.tenantId, tenantId)];
+  // 조건 구성 (이전 버전 구성으로 보관 중인 청크 제외)
+  const conditions = [eq(chunks.tenantId, tenantId), isCurrentVersionChunk()];
 
   // 챗봇별 필터링: 연결된 데이터셋의 문서만 조회
   if (chatbotId) {
@@ -160,6 +165,11 @@ export async function getChunkList(
     }
   }
 
+  // 검토 요청 표시된 청크만 (부정 피드백 등)
+  if (flagged) {
+    conditions.push(sql`${chunks.metadata} ? 'reviewFlag'`);
+  }
+
   // 확장 필터: content length
   if (minContentLength !== undefined) {
     conditions.push(sql`LENGTH(${chunks.content}) >= ${minContentLength}`);
@@ -314,6 +324,8 @@ export async function getChunk(tenantId: string, chunkId: string): Promise<Chunk
       createdAt: chunks.createdAt,
       updatedAt: chunks.updatedAt,
       documentName: documents.filename,
+      documentFilePath: documents.filePath,
+      documentFileType: documents.fileType,
     })
     .from(chunks)
     .leftJoin(documents, eq(chunks.documentId, documents.id))
@@ -342,6 +354,11 @@ export async function getChunk(tenantId: string, chunkId: string): Promise<Chunk
     contextPrefix: (metadata.contextPrefix as string) || null,
     contextPrompt: (metadata.contextPrompt as string) || null,
     hasContext: !!metadata.hasContext,
+    // 검토 화면 원본 PDF 뷰어 (파일 프록시 API로 제공)
+    documentFileUrl:
+      row.documentFilePath && row.documentFileType === 'application/pdf'
+        ? `/api/files/${row.documentFilePath}`
+        : null,
   };
 }
 
@@ -366,6 +383,11 @@ export async function updateChunk(
     updateData.status = input.status;
   }
 
+  // 검토자가 상태를 정하면 검토 요청 표시 해제
+  if (updateData.status !== undefined) {
+    updateData.metadata = sql`COALESCE(${chunks.metadata}, '{}'::jsonb) - 'reviewFlag'`;
+  }
+
   if (input.qualityScore !== undefined) {
     updateData.qualityScore = input.qualityScore;
   }
@@ -382,7 +404,19 @@ export async function updateChunk(
 
   logger.info('Chunk updated', { tenantId, chunkId, updates: Object.keys(updateData) });
 
-  return getChunk(tenantId, chunkId);
+  // 내용이 바뀌면 BM25 Sparse 인덱스 갱신
+  if (input.content !== undefined) {
+    await reindexChunkTerms([chunkId]);
+  }
+
+  const updatedChunk = await getChunk(tenantId, chunkId);
+
+  // 내용/상태 변경은 검색 결과에 영향을 주므로 연결된 챗봇의 응답 캐시 무효화
+  if (updatedChunk && (input.content !== undefined || input.status !== undefined)) {
+    await invalidateCacheForDocuments([updatedChunk.documentId], 'chunk_updated');
+  }
+
+  return updatedChunk;
 }
 
 /**
@@ -409,6 +443,8 @@ export async function bulkUpdateChunks(
       .update(chunks)
       .set({
         status,
+        // 검토가 끝났으므로 검토 요청 표시 해제
+        metadata: sql`COALESCE(${chunks.metadata}, '{}'::jsonb) - 'reviewFlag'`,
         updatedAt: new Date(),
       })
       .where(and(eq(chunks.tenantId, tenantId), inArray(chunks.id, chunkIds)));
@@ -425,6 +461,14 @@ export async function bulkUpdateChunks(
       }
     }
 
+    // 검색 대상 청크가 바뀌었으므로 연결된 챗봇의 응답 캐시 무효화
+    if (updated > 0) {
+      await invalidateCacheForDocuments(
+        affectedDocuments.map((doc) => doc.documentId),
+        `chunks_${status}`
+      );
+    }
+
     return { updated, failed };
   } catch (error) {
     logger.error('Bulk update failed', error as Error, { tenantId, chunkIds });
@@ -436,23 +480,54 @@ export async function bulkUpdateChunks(
   }
 }
 
+/**
+ * 청크에 검토 요청 표시
+ * 상태를 바꾸지 않으므로 승인된 청크는 검토 중에도 계속 검색된다
+ */
+export async function flagChunksForReview(
+  tenantId: string,
+  chunkIds: string[],
+  flag: Omit<ChunkReviewFlag, 'flaggedAt'>
+): Promise<number> {
+  if (chunkIds.length === 0) {
+    return 0;
+  }
+
+  const reviewFlag: ChunkReviewFlag = { ...flag, flaggedAt: new Date().toISOString() };
+
+  const result = await db
+    .update(chunks)
+    .set({
+      metadata: sql`COALESCE(${chunks.metadata}, '{}'::jsonb) || jsonb_build_object('reviewFlag', ${JSON.stringify(reviewFlag)}::jsonb)`,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(chunks.tenantId, tenantId), inArray(chunks.id, chunkIds)));
+
+  const flagged = result.count ?? 0;
+  logger.info('Chunks flagged for review', { tenantId, reason: flag.reason, requested: chunkIds.length, flagged });
+
+  return flagged;
+}
+
 /**
  * 청크 삭제 (논리적 삭제)
  */
 export async function deleteChunk(tenantId: string, chunkId: string): Promise<boolean> {
-  const result = await db
+  const deleted = await db
     .update(chunks)
     .set({
       isActive: false,
       status: 'rejected',
       updatedAt: new Date(),
     })
-    .where(and(eq(chunks.id, chunkId), eq(chunks.tenantId, tenantId)));
+    .where(and(eq(chunks.id, chunkId), eq(chunks.tenantId, tenantId)))
+    .returning({ documentId: chunks.documentId });
 
-  const success = (result.count ?? 0) > 0;
+  const success = deleted.length > 0;
 
   if (success) {
     logger.info('Chunk deleted (soft)', { tenantId, chunkId });
+    await invalidateCacheForDocuments([deleted[0].documentId], 'chunk_deleted');
   }
 
   return success;
@@ -465,7 +540,7 @@ export async function getDeploymentStatus(
   tenantId: string,
   documentId?: string
 ): Promise<DeploymentStatus> {
-  const conditions = [eq(chunks.tenantId, tenantId)];
+  const conditions = [eq(chunks.tenantId, tenantId), isCurrentVersionChunk()];
 
   if (documentId) {
     conditions.push(eq(chunks.documentId, documentId));
@@ -524,6 +599,7 @@ export async function applyAutoApproval(
     eq(chunks.tenantId, tenantId),
     eq(chunks.documentId, documentId),
     eq(chunks.status, 'pending'),
+    isCurrentVersionChunk(),
     gte(chunks.qualityScore, config.minQualityScore),
   ];
 
@@ -548,6 +624,7 @@ export async function applyAutoApproval(
 
     // 자동 승인 후 문서 상태 확인 및 업데이트
     await checkAndUpdateDocumentStatus(tenantId, documentId);
+    await invalidateCacheForDocuments([documentId], 'chunks_auto_approved');
   }
 
   return count;
@@ -584,7 +661,11 @@ export async function getNextPendingChunk(
   currentChunkId?: string,
   documentId?: string
 ): Promise<ChunkReviewItem | null> {
-  const conditions = [eq(chunks.tenantId, tenantId), eq(chunks.status, 'pending')];
+  const conditions = [
+    eq(chunks.tenantId, tenantId),
+    eq(chunks.status, 'pending'),
+    isCurrentVersionChunk(),
+  ];
 
   if (documentId) {
     conditions.push(eq(chunks.documentId, documentId));
@@ -20,6 +20,8 @@ export interface ChunkReviewItem {
   contextPrefix?: string | null;
   contextPrompt?: string | null;
   hasContext?: boolean;
+  // 원본 PDF 파일 URL (단건 조회에서만, PDF 문서가 아니면 null)
+  documentFileUrl?: string | null;
 }
 
 export interface ChunkListFilter {
@@ -40,6 +42,17 @@ export interface ChunkListFilter {
   minContentLength?: number;
   maxContentLength?: number;
   includeMetrics?: boolean; // true면 metrics 포함
+  flagged?: boolean; // true면 검토 요청(reviewFlag)된 청크만
+}
+
+/**
+ * 청크 검토 요청 표시 (metadata.reviewFlag)
+ * 상태(status)는 그대로 두어 검색 대상에서 빠지지 않으며, 검토자가 상태를 바꾸면 해제된다
+ */
+export interface ChunkReviewFlag {
+  reason: 'negative_feedback';
+  feedbackId?: string;
+  flaggedAt: string;
 }
 
 export interface ChunkListResult {
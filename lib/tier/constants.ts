@@ -146,6 +146,31 @@ export const TIER_FEATURES = {
   },
 } as const;
 
+/**
+ * 티어별 LLM 모델 선택 제한
+ *
+ * - customModelSelection: 챗봇별 모델 선택 가능 여부 (false면 기본 모델 체인 사용)
+ * - maxInputPricePerMillion: 선택 가능한 모델의 입력 토큰 단가 상한 (USD/1M, -1은 무제한)
+ * - maxFallbackModels: 폴백 체인에 지정할 수 있는 모델 수
+ */
+export const TIER_MODEL_LIMITS = {
+  free: {
+    customModelSelection: false,
+    maxInputPricePerMillion: 0,
+    maxFallbackModels: 0,
+  },
+  pro: {
+    customModelSelection: true,
+    maxInputPricePerMillion: 0.5,
+    maxFallbackModels: 1,
+  },
+  business: {
+    customModelSelection: true,
+    maxInputPricePerMillion: -1, // 무제한
+    maxFallbackModels: 3,
+  },
+} as const;
+
 /**
  * 티어별 예산 한도 (USD) - 레거시 호환
  * DB의 tier_budget_limits 테이블과 동기화 필요
@@ -173,6 +198,7 @@ export type TierBudget = (typeof TIER_BUDGET_LIMITS)[Tier];
 export type Tier = keyof typeof TIER_LIMITS;
 export type TierLimits = (typeof TIER_LIMITS)[Tier];
 export type TierFeatures = (typeof TIER_FEATURES)[Tier];
+export type TierModelLimits = (typeof TIER_MODEL_LIMITS)[Tier];
 
 /**
  * 티어 이름 한글 표기
@@ -6,6 +6,7 @@
 
 import { eq, sql, and } from 'drizzle-orm';
 import { db } from '@/lib/db';
+import { isCurrentVersionChunk } from '@/lib/document-versions';
 import {
   tenants,
   chatbots,
@@ -177,7 +178,7 @@ export async function checkChunkLimit(
   const result = await db
     .select({ count: sql<number>`count(*)::int` })
     .from(chunks)
-    .where(eq(chunks.documentId, documentId));
+    .where(and(eq(chunks.documentId, documentId), isCurrentVersionChunk()));
 
   const current = result[0]?.count || 0;
 
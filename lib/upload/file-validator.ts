@@ -64,6 +64,18 @@ export const ALLOWED_FILE_TYPES = {
 
 export type AllowedMimeType = keyof typeof ALLOWED_FILE_TYPES;
 
+// 문서(지식 베이스) 업로드에 허용된 타입 (문서 업로드, 새 버전 업로드)
+export const DOCUMENT_ALLOWED_TYPES: AllowedMimeType[] = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+];
+
 export interface FileValidationResult {
   valid: boolean;
   errors: string[];
@@ -5,6 +5,7 @@
 // 파일 검증
 export {
   ALLOWED_FILE_TYPES,
+  DOCUMENT_ALLOWED_TYPES,
   validateFile,
   validateFiles,
   sanitizeFilename,
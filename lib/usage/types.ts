@@ -19,7 +19,10 @@ export type FeatureType =
   | 'context_generation'
   | 'rerank'
   | 'semantic_chunking'
-  | 'morphological_analysis';
+  | 'morphological_analysis'
+  | 'memory_summary'
+  | 'follow_up_suggestion'
+  | 'groundedness_check';
 
 export interface TokenUsageParams {
   tenantId: string;
@@ -3,6 +3,9 @@
  * [Week 7] iframe 임베드 위젯
  */
 
+import type { Citation } from '@/lib/rag/citations';
+import type { HandoffState } from '@/lib/handoff/types';
+
 /**
  * 위젯 설정
  */
@@ -62,12 +65,18 @@ export interface WidgetMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  /** 서버에 저장된 어시스턴트 메시지 ID (피드백 전송용) */
+  messageId?: string;
   sources?: Array<{
     documentId: string;
     chunkId: string;
     content: string;
     score: number;
   }>;
+  /** 답변 마커([1])에 대응하는 각주 (출처 표기 모드에서만) */
+  citations?: Citation[];
+  /** 상담원이 보낸 메시지의 상담원 이름 */
+  operatorName?: string;
 }
 
 /**
@@ -96,12 +105,19 @@ export interface EmbedCodeOptions {
 export interface WidgetChatResponse {
   message: string;
   sessionId: string;
+  messageId?: string;
   sources?: Array<{
     documentId: string;
     chunkId: string;
     content: string;
     score: number;
   }>;
+  /** 답변 마커([1])에 대응하는 각주 (출처 표기 모드에서만) */
+  citations?: Citation[];
+  /** 후속 질문 제안 (후속 질문 제안을 켠 챗봇에서만) */
+  suggestions?: string[];
+  /** 상담원 연결 상태 (연결 제안 또는 대기/응대 중) */
+  handoff?: HandoffState;
   pointsBalance?: number;
 }
 
@@ -26,6 +26,7 @@ const PUBLIC_PATHS = [
 const PUBLIC_PATH_PATTERNS = [
   /^\/widget\/[^/]+$/, // /widget/[tenantId] - 챗봇 위젯 iframe
   /^\/[a-z0-9][a-z0-9-]{1,28}[a-z0-9]$/, // /[slug] - 공개 페이지 (3-30자)
+  /^\/[a-z0-9][a-z0-9-]{1,28}[a-z0-9]\/pages\/[0-9a-f-]{36}$/, // /[slug]/pages/[pageId] - 공개 Knowledge Page
 ];
 
 // 공개 페이지 슬러그 패턴 (X-Frame-Options 처리용)
@@ -0,0 +1,85 @@
+/* eslint-disable no-console */
+/**
+ * 대화 챗봇 연결 백필 스크립트
+ *
+ * chatbot_id 없이 저장된 과거 대화를 token_usage_logs의 chatbot_id로 복구한다.
+ * 한 대화에 여러 챗봇 기록이 있으면 가장 많이 기록된 챗봇을 사용하고,
+ * 다른 테넌트의 챗봇이거나 삭제된 챗봇은 무시한다.
+ *
+ * 사용법:
+ *   pnpm db:backfill-conversation-chatbot              # 복구 실행
+ *   pnpm db:backfill-conversation-chatbot --dry-run    # 대상만 확인
+ */
+
+import 'dotenv/config';
+import { db } from '../lib/db';
+import { sql } from 'drizzle-orm';
+
+interface BackfillCandidate {
+  conversation_id: string;
+  chatbot_id: string;
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log('🔗 대화 챗봇 연결 백필 스크립트');
+  if (dryRun) console.log('   (dry-run: 변경 없이 대상만 확인)');
+  console.log('');
+
+  // 1. 챗봇 미연결 대화 현황
+  const [{ count: unlinkedCount }] = (await db.execute(sql`
+    SELECT COUNT(*)::int AS count FROM conversations WHERE chatbot_id IS NULL
+  `)) as unknown as { count: number }[];
+
+  console.log(`1. 챗봇 미연결 대화: ${unlinkedCount}개`);
+
+  if (unlinkedCount === 0) {
+    console.log('✅ 복구할 대화가 없습니다.');
+    process.exit(0);
+  }
+
+  // 2. token_usage_logs 기반 복구 대상 (대화별 최다 기록 챗봇)
+  const candidates = (await db.execute(sql`
+    SELECT DISTINCT ON (c.id) c.id AS conversation_id, t.chatbot_id
+    FROM conversations c
+    JOIN token_usage_logs t ON t.conversation_id = c.id
+    JOIN chatbots b ON b.id = t.chatbot_id AND b.tenant_id = c.tenant_id
+    WHERE c.chatbot_id IS NULL
+    GROUP BY c.id, t.chatbot_id
+    ORDER BY c.id, COUNT(*) DESC, MAX(t.created_at) DESC
+  `)) as unknown as BackfillCandidate[];
+
+  console.log(`2. 복구 가능한 대화: ${candidates.length}개`);
+  console.log(`   복구 불가 (토큰 기록 없음): ${unlinkedCount - candidates.length}개\n`);
+
+  if (candidates.length === 0 || dryRun) {
+    process.exit(0);
+  }
+
+  // 3. 복구 실행 (조회 이후 연결된 대화는 건너뜀)
+  console.log('3. 챗봇 연결 중...');
+  const updated = (await db.execute(sql`
+    UPDATE conversations c
+    SET chatbot_id = src.chatbot_id
+    FROM (
+      SELECT DISTINCT ON (c2.id) c2.id AS conversation_id, t.chatbot_id
+      FROM conversations c2
+      JOIN token_usage_logs t ON t.conversation_id = c2.id
+      JOIN chatbots b ON b.id = t.chatbot_id AND b.tenant_id = c2.tenant_id
+      WHERE c2.chatbot_id IS NULL
+      GROUP BY c2.id, t.chatbot_id
+      ORDER BY c2.id, COUNT(*) DESC, MAX(t.created_at) DESC
+    ) src
+    WHERE c.id = src.conversation_id AND c.chatbot_id IS NULL
+    RETURNING c.id
+  `)) as unknown as { id: string }[];
+
+  console.log(`✅ ${updated.length}개 대화에 챗봇을 연결했습니다.`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ 백필 실패:', error);
+  process.exit(1);
+});
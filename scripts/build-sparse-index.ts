@@ -0,0 +1,80 @@
+/* eslint-disable no-console */
+/**
+ * BM25 Sparse 인덱스 백필 스크립트
+ *
+ * 내장 BM25 인덱스 도입 이전에 저장된 청크(sparse_length IS NULL)의
+ * term 통계를 chunk_terms에 기록한다. 새로 저장되는 청크는 문서 처리 시 자동 인덱싱된다.
+ *
+ * 사용법:
+ *   pnpm db:build-sparse-index              # 인덱싱 실행
+ *   pnpm db:build-sparse-index --dry-run    # 대상만 확인
+ */
+
+import 'dotenv/config';
+import { db, chunks } from '../lib/db';
+import { asc, count, isNull } from 'drizzle-orm';
+import { indexChunkTerms } from '../lib/rag/sparse-index';
+
+// 한 번에 인덱싱할 청크 수
+const BATCH_SIZE = 200;
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log('🔎 BM25 Sparse 인덱스 백필 스크립트');
+  if (dryRun) console.log('   (dry-run: 변경 없이 대상만 확인)');
+  console.log('');
+
+  // 1. 인덱싱 대상 현황
+  const [{ value: pendingCount }] = await db
+    .select({ value: count() })
+    .from(chunks)
+    .where(isNull(chunks.sparseLength));
+
+  console.log(`1. 인덱싱되지 않은 청크: ${pendingCount}개`);
+
+  if (pendingCount === 0) {
+    console.log('✅ 인덱싱할 청크가 없습니다.');
+    process.exit(0);
+  }
+
+  if (dryRun) {
+    process.exit(0);
+  }
+
+  // 2. 배치 인덱싱 (인덱싱된 청크는 sparse_length가 채워져 다음 조회에서 제외됨)
+  console.log('2. 인덱싱 중...');
+  let indexed = 0;
+
+  while (true) {
+    const batch = await db
+      .select({
+        id: chunks.id,
+        tenantId: chunks.tenantId,
+        content: chunks.content,
+      })
+      .from(chunks)
+      .where(isNull(chunks.sparseLength))
+      .orderBy(asc(chunks.createdAt))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    const batchIndexed = await indexChunkTerms(batch);
+    if (batchIndexed === 0) {
+      console.error('❌ 배치 인덱싱 실패로 중단합니다.');
+      process.exit(1);
+    }
+
+    indexed += batchIndexed;
+    console.log(`   ${indexed}/${pendingCount}`);
+  }
+
+  console.log(`✅ ${indexed}개 청크를 인덱싱했습니다.`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ 인덱싱 실패:', error);
+  process.exit(1);
+});
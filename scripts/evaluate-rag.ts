@@ -1,3 +1,4 @@
+/* eslint-disable no-console */
 /**
  * RAG 평가 CLI 도구
  *
@@ -13,6 +14,12 @@
  *
  * # 결과 저장
  * pnpm rag:evaluate -d sample.json -o results/report.json
+ *
+ * # Parent-Child 확장 비교
+ * pnpm rag:evaluate -d sample.json --parent-expansion section --parent-max-tokens 3000
+ *
+ * # 쿼리 확장 비교
+ * pnpm rag:evaluate -d sample.json --query-expansion multi_query --query-count 3
  * ```
  */
 
@@ -23,8 +30,12 @@ import { RagEvaluator } from '../lib/rag/evaluation/evaluator';
 import { printSummary, generateReportFile, generateMarkdownReport } from '../lib/rag/evaluation/reporter';
 import { writeFile } from 'fs/promises';
 import type { MetricName } from '../lib/rag/evaluation/types';
+import type { ParentExpansionMode } from '../lib/rag/parent-window';
+import type { QueryExpansionStrategy } from '../lib/rag/query-expansion';
 
 const VALID_METRICS: MetricName[] = ['faithfulness', 'answerRelevancy', 'contextPrecision', 'contextRecall'];
+const VALID_PARENT_EXPANSION_MODES: ParentExpansionMode[] = ['off', 'neighbors', 'section'];
+const VALID_QUERY_EXPANSION_STRATEGIES: QueryExpansionStrategy[] = ['none', 'multi_query', 'hyde'];
 
 async function main(): Promise<void> {
   const { values, positionals } = parseArgs({
@@ -34,6 +45,11 @@ async function main(): Promise<void> {
       metrics: { type: 'string', short: 'm' },
       concurrency: { type: 'string', short: 'c' },
       'max-chunks': { type: 'string' },
+      'parent-expansion': { type: 'string' },
+      'parent-window': { type: 'string' },
+      'parent-max-tokens': { type: 'string' },
+      'query-expansion': { type: 'string' },
+      'query-count': { type: 'string' },
       markdown: { type: 'boolean' },
       help: { type: 'boolean', short: 'h' },
       verbose: { type: 'boolean', short: 'v' },
@@ -101,6 +117,28 @@ async function main(): Promise<void> {
     console.log(`📏 평가 메트릭: ${metrics.join(', ')}`);
   }
 
+  // Parent-Child 확장 모드
+  const parentExpansionMode = (values['parent-expansion'] ?? 'off') as ParentExpansionMode;
+  if (!VALID_PARENT_EXPANSION_MODES.includes(parentExpansionMode)) {
+    console.error(`❌ 잘못된 확장 모드: ${parentExpansionMode}`);
+    console.error(`   사용 가능: ${VALID_PARENT_EXPANSION_MODES.join(', ')}`);
+    process.exit(1);
+  }
+  if (parentExpansionMode !== 'off') {
+    console.log(`🧩 Parent-Child 확장: ${parentExpansionMode}`);
+  }
+
+  // 쿼리 확장 전략
+  const queryExpansionStrategy = (values['query-expansion'] ?? 'none') as QueryExpansionStrategy;
+  if (!VALID_QUERY_EXPANSION_STRATEGIES.includes(queryExpansionStrategy)) {
+    console.error(`❌ 잘못된 쿼리 확장 전략: ${queryExpansionStrategy}`);
+    console.error(`   사용 가능: ${VALID_QUERY_EXPANSION_STRATEGIES.join(', ')}`);
+    process.exit(1);
+  }
+  if (queryExpansionStrategy !== 'none') {
+    console.log(`🔀 쿼리 확장: ${queryExpansionStrategy}`);
+  }
+
   // 평가 실행
   console.log('⏳ 평가 실행 중...\n');
 
@@ -111,6 +149,17 @@ async function main(): Promise<void> {
     metrics,
     concurrency: values.concurrency ? parseInt(values.concurrency, 10) : 3,
     maxChunks: values['max-chunks'] ? parseInt(values['max-chunks'], 10) : 5,
+    parentExpansion: {
+      mode: parentExpansionMode,
+      window: values['parent-window'] ? parseInt(values['parent-window'], 10) : undefined,
+      maxTokens: values['parent-max-tokens']
+        ? parseInt(values['parent-max-tokens'], 10)
+        : undefined,
+    },
+    queryExpansion: {
+      strategy: queryExpansionStrategy,
+      queryCount: values['query-count'] ? parseInt(values['query-count'], 10) : undefined,
+    },
     onProgress: (current, total) => {
       // 진행률 표시 (10% 단위)
       const progress = Math.floor((current / total) * 10);
@@ -166,10 +215,18 @@ async function main(): Promise<void> {
     for (const result of report.results) {
       console.log(`\n[${result.itemId}] ${result.question}`);
       console.log(`  유형: ${result.questionType}`);
-      console.log(`  검색: ${result.retrievedChunks.length}개 청크`);
+      console.log(
+        `  검색: ${result.retrievedChunks.length}개 청크` +
+          (result.contextTokens !== undefined ? ` (컨텍스트 약 ${result.contextTokens} 토큰)` : '')
+      );
       if (result.rewrittenQuery) {
         console.log(`  재작성: ${result.rewrittenQuery}`);
       }
+      if (result.queryExpansion?.strategy === 'multi_query') {
+        console.log(`  확장 쿼리: ${result.queryExpansion.queries.slice(1).join(' | ')}`);
+      } else if (result.queryExpansion?.hypotheticalAnswer) {
+        console.log(`  HyDE: ${result.queryExpansion.hypotheticalAnswer.slice(0, 100)}...`);
+      }
       console.log(`  답변: ${result.generatedAnswer.slice(0, 100)}${result.generatedAnswer.length > 100 ? '...' : ''}`);
       console.log(`  점수: F=${(result.scores.faithfulness * 100).toFixed(0)}% AR=${(result.scores.answerRelevancy * 100).toFixed(0)}% CP=${(result.scores.contextPrecision * 100).toFixed(0)}%`);
     }
@@ -193,6 +250,11 @@ RAG 평가 CLI 도구
                             faithfulness,answerRelevancy,contextPrecision,contextRecall
   -c, --concurrency <n>     병렬 처리 개수 (기본: 3)
   --max-chunks <n>          검색 청크 수 (기본: 5)
+  --parent-expansion <mode> Parent-Child 확장: off, neighbors, section (기본: off)
+  --parent-window <n>       neighbors 모드 앞뒤 청크 수 (기본: 1)
+  --parent-max-tokens <n>   확장 후 컨텍스트 토큰 예산 (기본: 2000)
+  --query-expansion <s>     쿼리 확장: none, multi_query, hyde (기본: none)
+  --query-count <n>         multi_query 추가 표현 수 (기본: 3)
   --markdown                마크다운 리포트도 함께 저장
   -v, --verbose             상세 결과 출력
   -h, --help                도움말 표시
@@ -210,6 +272,12 @@ RAG 평가 CLI 도구
   # 상세 결과 출력
   pnpm rag:evaluate -d sample.json -v
 
+  # Parent-Child 확장 효과 비교 (off 결과와 리포트 비교)
+  pnpm rag:evaluate -d sample.json --parent-expansion neighbors -o results/neighbors.json
+
+  # 쿼리 확장 효과 비교 (none 결과와 리포트 비교)
+  pnpm rag:evaluate -d sample.json --query-expansion hyde -o results/hyde.json
+
 환경 변수:
   GOOGLE_GENERATIVE_AI_API_KEY  Gemini API 키 (필수)
   OPENAI_API_KEY                OpenAI API 키 (폴백용)
@@ -0,0 +1,147 @@
+/* eslint-disable no-console */
+/**
+ * 더미 임베딩 청크 스캔 및 재임베딩 스크립트
+ *
+ * 임베딩 서비스 없이 처리된 문서는 개발용 더미 벡터(균등 분포 난수)로 저장되어
+ * 처리 완료로 보이지만 검색되지 않는다. 저장된 벡터의 분포로 더미 벡터를 찾아
+ * 청크의 임베딩 모델로 다시 임베딩한다 (판별 기준: lib/rag/embedding.ts isDummyEmbedding).
+ *
+ * 사용법:
+ *   pnpm db:scan-dummy-embeddings              # 스캔 후 재임베딩
+ *   pnpm db:scan-dummy-embeddings --dry-run    # 대상만 확인
+ */
+
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { db } from '../lib/db';
+import { buildContextualContent } from '../lib/rag/context';
+import { embedTexts, isDummyEmbedding } from '../lib/rag/embedding';
+import { toVectorLiteral } from '../lib/rag/embedding-models';
+
+// 재임베딩 중 더미 벡터가 다시 생기지 않도록 Strict 모드 강제
+process.env.EMBEDDING_STRICT_MODE = 'true';
+
+// 한 번에 스캔할 청크 수
+const SCAN_BATCH_SIZE = 500;
+// 한 번에 재임베딩할 청크 수
+const EMBED_BATCH_SIZE = 50;
+
+interface ScannedChunk {
+  id: string;
+  tenant_id: string;
+  dataset_id: string | null;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  embedding_model: string;
+  embedding: string;
+}
+
+function parseVector(text: string): number[] {
+  return text.slice(1, -1).split(',').map(Number.parseFloat);
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log('🔎 더미 임베딩 스캔 스크립트');
+  if (dryRun) console.log('   (dry-run: 변경 없이 대상만 확인)');
+  console.log('');
+
+  // 1. 스캔 (id 순 키셋 페이지네이션)
+  console.log('1. 청크 임베딩 스캔 중...');
+  const suspects: ScannedChunk[] = [];
+  let scanned = 0;
+  let lastId = '00000000-0000-0000-0000-000000000000';
+
+  while (true) {
+    const rows = (await db.execute(sql`
+      SELECT id, tenant_id, dataset_id, content, metadata, embedding_model,
+             embedding::text AS embedding
+      FROM chunks
+      WHERE embedding IS NOT NULL
+        AND id > ${lastId}
+      ORDER BY id
+      LIMIT ${SCAN_BATCH_SIZE}
+    `)) as unknown as ScannedChunk[];
+
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      if (isDummyEmbedding(parseVector(row.embedding))) {
+        suspects.push(row);
+      }
+    }
+
+    scanned += rows.length;
+    lastId = rows[rows.length - 1].id;
+    console.log(`   ${scanned}개 스캔, 더미 의심 ${suspects.length}개`);
+  }
+
+  if (suspects.length === 0) {
+    console.log('✅ 더미 임베딩 청크가 없습니다.');
+    process.exit(0);
+  }
+
+  // 데이터셋별 현황
+  const byDataset = new Map<string, number>();
+  for (const chunk of suspects) {
+    const key = chunk.dataset_id ?? '(라이브러리)';
+    byDataset.set(key, (byDataset.get(key) ?? 0) + 1);
+  }
+  console.log('');
+  console.log(`2. 더미 임베딩 청크: ${suspects.length}개`);
+  for (const [datasetId, count] of byDataset) {
+    console.log(`   ${datasetId}: ${count}개`);
+  }
+
+  if (dryRun) {
+    process.exit(0);
+  }
+
+  // 3. 재임베딩 (테넌트 + 모델 단위로 배치)
+  console.log('');
+  console.log('3. 재임베딩 중...');
+  const groups = new Map<string, ScannedChunk[]>();
+  for (const chunk of suspects) {
+    const key = `${chunk.tenant_id}:${chunk.embedding_model}`;
+    groups.set(key, [...(groups.get(key) ?? []), chunk]);
+  }
+
+  let reembedded = 0;
+  for (const group of groups.values()) {
+    const { tenant_id: tenantId, embedding_model: modelId } = group[0];
+
+    for (let i = 0; i < group.length; i += EMBED_BATCH_SIZE) {
+      const batch = group.slice(i, i + EMBED_BATCH_SIZE);
+      const texts = batch.map((chunk) => {
+        const contextPrefix = chunk.metadata?.contextPrefix;
+        return buildContextualContent(
+          chunk.content,
+          typeof contextPrefix === 'string' ? contextPrefix : undefined
+        );
+      });
+
+      const embeddings = await embedTexts(texts, { tenantId }, modelId);
+
+      for (let j = 0; j < batch.length; j++) {
+        await db.execute(sql`
+          UPDATE chunks
+          SET embedding = ${toVectorLiteral(embeddings[j])}::vector,
+              updated_at = NOW()
+          WHERE id = ${batch[j].id}
+        `);
+      }
+
+      reembedded += batch.length;
+      console.log(`   ${reembedded}/${suspects.length}`);
+    }
+  }
+
+  console.log(`✅ ${reembedded}개 청크를 재임베딩했습니다.`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ 스캔 실패:', error);
+  process.exit(1);
+});
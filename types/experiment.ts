@@ -156,6 +156,34 @@ export interface OverallQualityStats {
   strategyBreakdown?: Record<string, number>;
 }
 
+/**
+ * 사용자 답변 만족도 (좋아요/싫어요 피드백 기반)
+ */
+export interface SatisfactionMetrics {
+  /** 전체 피드백 수 */
+  total: number;
+  /** 좋아요 수 */
+  up: number;
+  /** 싫어요 수 */
+  down: number;
+  /** 만족도 (0-1), 피드백이 없으면 null */
+  satisfactionRate: number | null;
+}
+
+/**
+ * 응답 캐시 효율 (챗봇 단위)
+ */
+export interface CacheHitMetrics {
+  /** 전체 응답 요청 수 */
+  requestCount: number;
+  /** 캐시 히트 수 */
+  hitCount: number;
+  /** 캐시 히트율 (0-1), 요청이 없으면 null */
+  hitRate: number | null;
+  /** 현재 콘텐츠 기준 유효한 캐시 항목 수 */
+  activeEntries: number;
+}
+
 /**
  * 품질 메트릭 API 응답
  */
@@ -163,6 +191,12 @@ export interface QualityMetricsResponse {
   /** 전략별 메트릭 */
   metrics: QualityMetrics[];
 
+  /** 사용자 만족도 */
+  satisfaction: SatisfactionMetrics;
+
+  /** 응답 캐시 히트율 */
+  cache: CacheHitMetrics;
+
   /** A/B 테스트 결과 (있는 경우) */
   abTestResult: ABTestResult | null;
 